@@ -53,6 +53,7 @@ const Expenses = lazyWithRetry(() => import('./pages/Expenses').then(m => ({ def
 const Reports = lazyWithRetry(() => import('./pages/Reports').then(m => ({ default: m.Reports })), 'Reports');
 const Settings = lazyWithRetry(() => import('./pages/Settings').then(m => ({ default: m.Settings })), 'Settings');
 const Maintenance = lazyWithRetry(() => import('./pages/Maintenance').then(m => ({ default: m.Maintenance })), 'Maintenance');
+const Inspections = lazyWithRetry(() => import('./pages/Inspections').then(m => ({ default: m.Inspections })), 'Inspections');
 const RentOptimization = lazyWithRetry(() => import('./pages/RentOptimization').then(m => ({ default: m.RentOptimization })), 'RentOptimization');
 const Applications = lazyWithRetry(() => import('./pages/Applications').then(m => ({ default: m.Applications })), 'Applications');
 // PublicPageSettings removed - functionality moved to Business/Property/Unit detail pages
@@ -115,6 +116,7 @@ const About = lazyWithRetry(() => import('./pages/About').then(m => ({ default:
 const ApplicationLanding = lazyWithRetry(() => import('./pages/ApplicationLanding').then(m => ({ default: m.ApplicationLanding })), 'ApplicationLanding');
 const ApplicationForm = lazyWithRetry(() => import('./pages/ApplicationForm').then(m => ({ default: m.ApplicationForm })), 'ApplicationForm');
 const AgreementSigning = lazyWithRetry(() => import('./pages/AgreementSigning'), 'AgreementSigning');
+const AgreementVerification = lazyWithRetry(() => import('./pages/AgreementVerification'), 'AgreementVerification');
 const PublicBusinessPage = lazyWithRetry(() => import('./pages/PublicBusinessPage').then(m => ({ default: m.PublicBusinessPage })), 'PublicBusinessPage');
 const PublicPropertyPage = lazyWithRetry(() => import('./pages/PublicPropertyPage').then(m => ({ default: m.PublicPropertyPage })), 'PublicPropertyPage');
 const PublicUnitPage = lazyWithRetry(() => import('./pages/PublicUnitPage').then(m => ({ default: m.PublicUnitPage })), 'PublicUnitPage');
@@ -127,6 +129,18 @@ const EmailDiagnostics = lazyWithRetry(() => import('./pages/EmailDiagnostics').
 const AccountingDashboard = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.AccountingDashboard })), 'AccountingDashboard');
 const ChartOfAccounts = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.ChartOfAccounts })), 'ChartOfAccounts');
 const JournalEntries = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.JournalEntries })), 'JournalEntries');
+const BankReconciliation = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.BankReconciliation })), 'BankReconciliation');
+const SecurityDeposits = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.SecurityDeposits })), 'SecurityDeposits');
+const RentRoll = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.RentRoll })), 'RentRoll');
+const AccountsReceivable = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.AccountsReceivable })), 'AccountsReceivable');
+const AccountsPayable = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.AccountsPayable })), 'AccountsPayable');
+const Budgets = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.Budgets })), 'Budgets');
+const FinancialStatements = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.FinancialStatements })), 'FinancialStatements');
+const UnpostedTransactions = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.UnpostedTransactions })), 'UnpostedTransactions');
+const ExchangeRates = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.ExchangeRates })), 'ExchangeRates');
+const TaxForms = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.TaxForms })), 'TaxForms');
+const PeriodClose = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.PeriodClose })), 'PeriodClose');
+const OwnerStatements = lazyWithRetry(() => import('./pages/accounting').then(m => ({ default: m.OwnerStatements })), 'OwnerStatements');
 
 // Lazy load: Vendor pages
 const VendorList = lazyWithRetry(() => import('./pages/vendors').then(m => ({ default: m.VendorList })), 'VendorList');
@@ -157,6 +171,7 @@ function AppWithAnalytics() {
       <Route path="/apply/:code" element={<ApplicationLanding />} />
       <Route path="/apply/:code/form" element={<ApplicationForm />} />
       <Route path="/agreement/:agreementId" element={<AgreementSigning />} />
+      <Route path="/agreement/:agreementId/verify" element={<AgreementVerification />} />
 
       {/* Public Browse Routes */}
       <Route path="/browse/:businessSlug" element={<PublicBusinessPage />} />
@@ -342,6 +357,7 @@ function AppWithAnalytics() {
         <Route path="/payments" element={<Payments />} />
         <Route path="/expenses" element={<Expenses />} />
         <Route path="/maintenance" element={<Maintenance />} />
+        <Route path="/inspections" element={<Inspections />} />
         <Route path="/rent-optimization" element={<RentOptimization />} />
         <Route path="/reports" element={<Reports />} />
         <Route path="/addons" element={<Addons />} />
@@ -351,6 +367,18 @@ function AppWithAnalytics() {
         <Route path="/accounting" element={<AccountingDashboard />} />
         <Route path="/accounting/chart-of-accounts" element={<ChartOfAccounts />} />
         <Route path="/accounting/journals" element={<JournalEntries />} />
+        <Route path="/accounting/bank-reconciliation" element={<BankReconciliation />} />
+        <Route path="/accounting/deposits" element={<SecurityDeposits />} />
+        <Route path="/accounting/rent-roll" element={<RentRoll />} />
+        <Route path="/accounting/receivables" element={<AccountsReceivable />} />
+        <Route path="/accounting/payables" element={<AccountsPayable />} />
+        <Route path="/accounting/budgets" element={<Budgets />} />
+        <Route path="/accounting/statements" element={<FinancialStatements />} />
+        <Route path="/accounting/unposted" element={<UnpostedTransactions />} />
+        <Route path="/accounting/exchange-rates" element={<ExchangeRates />} />
+        <Route path="/accounting/tax-forms" element={<TaxForms />} />
+        <Route path="/accounting/period-close" element={<PeriodClose />} />
+        <Route path="/accounting/owner-statements" element={<OwnerStatements />} />
         {/* Vendor Routes */}
         <Route path="/vendors" element={<VendorList />} />
         {/* Setup Wizard Routes */}
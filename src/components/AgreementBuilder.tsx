@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
-import { FileText, Sparkles, Save, Eye, ArrowLeft, Loader } from 'lucide-react';
+import { FileText, Sparkles, Save, Eye, ArrowLeft, Loader, Plus, Trash2 } from 'lucide-react';
 import { aiService } from '../services/aiService';
 import { agreementService } from '../services/agreementService';
-import { agreementPlaceholderService } from '../services/agreementPlaceholderService';
+import {
+  agreementPlaceholderService,
+  AgreementAdditionalCharge,
+} from '../services/agreementPlaceholderService';
 import { PlaceholderPicker, PlaceholderValidation } from './PlaceholderPicker';
 import { useAuth } from '../context/AuthContext';
 
@@ -31,6 +34,9 @@ export function AgreementBuilder({ templateId, onSave, onCancel }: AgreementBuil
     default_security_deposit: number;
     payment_frequency: 'daily' | 'weekly' | 'bi-weekly' | 'monthly';
     pet_policy: string;
+    pets_allowed: boolean;
+    default_pet_deposit: number; // in cents
+    additional_charges: AgreementAdditionalCharge[];
     house_rules: string;
     cancellation_policy: string;
     damage_policy: string;
@@ -50,6 +56,9 @@ export function AgreementBuilder({ templateId, onSave, onCancel }: AgreementBuil
     default_security_deposit: 0,
     payment_frequency: 'monthly',
     pet_policy: '',
+    pets_allowed: false,
+    default_pet_deposit: 0,
+    additional_charges: [],
     house_rules: '',
     cancellation_policy: '',
     damage_policy: '',
@@ -81,6 +90,9 @@ export function AgreementBuilder({ templateId, onSave, onCancel }: AgreementBuil
         default_security_deposit: data.default_security_deposit || 0,
         payment_frequency: data.payment_frequency || 'monthly',
         pet_policy: data.pet_policy || '',
+        pets_allowed: data.pets_allowed ?? false,
+        default_pet_deposit: data.default_pet_deposit || 0,
+        additional_charges: data.additional_charges || [],
         house_rules: data.house_rules || '',
         cancellation_policy: data.cancellation_policy || '',
         damage_policy: data.damage_policy || '',
@@ -102,6 +114,29 @@ export function AgreementBuilder({ templateId, onSave, onCancel }: AgreementBuil
     setTemplate((prev) => ({ ...prev, [field]: value }));
   };
 
+  const updateCharge = (index: number, changes: Partial<AgreementAdditionalCharge>) => {
+    setTemplate((prev) => ({
+      ...prev,
+      additional_charges: prev.additional_charges.map((charge, i) =>
+        i === index ? { ...charge, ...changes } : charge
+      ),
+    }));
+  };
+
+  const addCharge = () => {
+    setTemplate((prev) => ({
+      ...prev,
+      additional_charges: [...prev.additional_charges, { name: '', amount: 0, frequency: 'monthly' }],
+    }));
+  };
+
+  const removeCharge = (index: number) => {
+    setTemplate((prev) => ({
+      ...prev,
+      additional_charges: prev.additional_charges.filter((_, i) => i !== index),
+    }));
+  };
+
   const insertPlaceholder = (placeholder: string) => {
     if (textareaRef.current) {
       const textarea = textareaRef.current;
@@ -156,11 +191,21 @@ IMPORTANT: Use these exact placeholder formats for dynamic content:
 - {{MAX_OCCUPANTS}} - Maximum occupants allowed
 - {{CURRENT_DATE}} - Current date
 - {{SIGNATURE_DEADLINE}} - Deadline for signing
+- {{PRORATED_FIRST_MONTH}} - First month's rent, prorated from the start date
+- {{TOTAL_DEPOSIT}} - Security deposit plus any pet deposit
+- {{MOVE_IN_TOTAL}} - Total due at move-in
+
+Use blocks for optional clauses and lists, each tag on its own line:
+- {{#if PETS_ALLOWED}} ... {{/if}} - Pet addendum, only when pets are allowed
+- {{#if PROPERTY_STATE == "ON"}} ... {{else}} ... {{/if}} - Province/state-specific clauses
+- {{#each CO_TENANTS}}{{NAME}}{{/each}} - One line per co-tenant
+- {{#each ADDITIONAL_CHARGES}}{{NAME}}: {{AMOUNT}} {{FREQUENCY}}{{/each}} - One line per additional charge
 
 Template Settings:
 - Agreement Type: ${template.agreement_type}
 - Payment Frequency: ${template.payment_frequency}
 ${template.pet_policy ? `- Pet Policy: ${template.pet_policy}` : ''}
+- Pets Allowed: ${template.pets_allowed ? 'yes (include a pet addendum in a {{#if PETS_ALLOWED}} block)' : 'no'}
 ${template.house_rules ? `- House Rules: ${template.house_rules}` : ''}
 ${template.parking_details ? `- Parking: ${template.parking_details}` : ''}
 
@@ -212,7 +257,15 @@ Format it professionally with clear section headers. Use the placeholders exactl
     const validation = agreementPlaceholderService.validateTemplatePlaceholders(
       template.template_content
     );
-    if (!validation.valid) {
+    if (validation.errors.length > 0) {
+      alert(
+        `Please fix the template errors before saving:\n\n${validation.errors
+          .map((e) => `Line ${e.line}: ${e.message}`)
+          .join('\n')}`
+      );
+      return;
+    }
+    if (validation.unknownPlaceholders.length > 0) {
       const proceed = confirm(
         `Warning: Unknown placeholders found: ${validation.unknownPlaceholders.join(', ')}\n\nThese will not be replaced when generating agreements. Continue anyway?`
       );
@@ -227,6 +280,8 @@ Format it professionally with clear section headers. Use the placeholders exactl
         business_id: currentBusiness?.id,
         default_rent_amount: template.default_rent_amount || undefined,
         default_security_deposit: template.default_security_deposit || undefined,
+        default_pet_deposit: template.default_pet_deposit || undefined,
+        additional_charges: template.additional_charges.filter((c) => c.name.trim()),
       };
 
       let saved;
@@ -248,7 +303,11 @@ Format it professionally with clear section headers. Use the placeholders exactl
 
   const getPreviewContent = () => {
     if (previewMode === 'sample') {
-      return agreementPlaceholderService.getPreviewWithSampleData(template.template_content);
+      return agreementPlaceholderService.getPreviewWithSampleData(template.template_content, {
+        pets_allowed: template.pets_allowed,
+        pet_deposit: template.default_pet_deposit || undefined,
+        additional_charges: template.additional_charges,
+      });
     }
     return template.template_content;
   };
@@ -490,6 +549,92 @@ Format it professionally with clear section headers. Use the placeholders exactl
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 py-2">
+                  <input
+                    type="checkbox"
+                    checked={template.pets_allowed}
+                    onChange={(e) => handleInputChange('pets_allowed', e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Pets allowed
+                </label>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pet Deposit ($)
+                  </label>
+                  <input
+                    type="number"
+                    value={template.default_pet_deposit ? template.default_pet_deposit / 100 : ''}
+                    onChange={(e) =>
+                      handleInputChange(
+                        'default_pet_deposit',
+                        Math.round((parseFloat(e.target.value) || 0) * 100)
+                      )
+                    }
+                    disabled={!template.pets_allowed}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                    placeholder="300"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Additional Charges
+                </label>
+                <div className="space-y-2">
+                  {template.additional_charges.map((charge, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={charge.name}
+                        onChange={(e) => updateCharge(index, { name: e.target.value })}
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Parking"
+                      />
+                      <input
+                        type="number"
+                        value={charge.amount ? charge.amount / 100 : ''}
+                        onChange={(e) =>
+                          updateCharge(index, {
+                            amount: Math.round((parseFloat(e.target.value) || 0) * 100),
+                          })
+                        }
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="$"
+                      />
+                      <select
+                        value={charge.frequency}
+                        onChange={(e) =>
+                          updateCharge(index, {
+                            frequency: e.target.value as AgreementAdditionalCharge['frequency'],
+                          })
+                        }
+                        className="px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="monthly">Monthly</option>
+                        <option value="one_time">One-time</option>
+                      </select>
+                      <button
+                        onClick={() => removeCharge(index)}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={addCharge}
+                  className="mt-2 flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Charge
+                </button>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">House Rules</label>
                 <textarea
@@ -602,6 +747,24 @@ Format it professionally with clear section headers. Use the placeholders exactl
                 appropriate placeholders.
               </li>
             </ul>
+            <h3 className="text-sm font-semibold text-blue-900 mt-4 mb-2">Optional Clauses and Lists</h3>
+            <ul className="text-sm text-blue-800 space-y-1">
+              <li>
+                Wrap a clause in <code className="font-mono">{'{{#if PETS_ALLOWED}}'}</code> ...{' '}
+                <code className="font-mono">{'{{/if}}'}</code> to include it only when pets are
+                allowed. Add <code className="font-mono">{'{{else}}'}</code> for the alternative.
+              </li>
+              <li>
+                Compare values for jurisdiction-specific clauses, for example{' '}
+                <code className="font-mono">{'{{#if PROPERTY_STATE in "ON, BC"}}'}</code>.
+              </li>
+              <li>
+                Repeat a section for each item with{' '}
+                <code className="font-mono">{'{{#each CO_TENANTS}}'}</code> ...{' '}
+                <code className="font-mono">{'{{/each}}'}</code>, using the item's fields such as{' '}
+                <code className="font-mono">{'{{NAME}}'}</code> inside.
+              </li>
+            </ul>
           </div>
         </div>
       </div>
@@ -614,12 +777,12 @@ Format it professionally with clear section headers. Use the placeholders exactl
  */
 function PreviewWithHighlightedPlaceholders({ content }: { content: string }) {
   // Split content by placeholders and render with highlighting
-  const parts = content.split(/(\{\{[A-Z_]+\}\})/g);
+  const parts = content.split(/(\{\{[^{}]+\}\})/g);
 
   return (
     <>
       {parts.map((part, index) => {
-        if (part.match(/^\{\{[A-Z_]+\}\}$/)) {
+        if (part.match(/^\{\{[^{}]+\}\}$/)) {
           return (
             <span
               key={index}
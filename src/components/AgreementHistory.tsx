@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  agreementService,
+  AgreementHistoryEntry,
+  LEASE_AMENDMENT_TYPE_LABELS,
+} from '../services/agreementService';
+import { CheckCircle, Clock, History, Loader } from 'lucide-react';
+
+interface AgreementHistoryProps {
+  agreementId: string;
+  signingToken?: string;
+  // A titled card, left out for agreements that have never been amended
+  asCard?: boolean;
+}
+
+export function AgreementHistory({ agreementId, signingToken, asCard }: AgreementHistoryProps) {
+  const [entries, setEntries] = useState<AgreementHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [agreementId, signingToken]);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await agreementService.getAgreementHistory(agreementId, signingToken));
+    } catch (err) {
+      console.error('Error loading agreement history:', err);
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const getLink = (entry: AgreementHistoryEntry) => {
+    const token = entry.signing_token ?? (entry.id === agreementId ? signingToken : undefined);
+    return token ? `/agreement/${entry.id}?signer=${token}` : `/agreement/${entry.id}`;
+  };
+
+  if (isLoading) {
+    return asCard ? null : (
+      <div className="flex justify-center py-4">
+        <Loader className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (entries.length <= 1) {
+    return asCard ? null : <p className="py-3 text-sm text-gray-500">This agreement has not been amended.</p>;
+  }
+
+  const list = (
+    <ol className="divide-y divide-gray-100">
+      {entries.map((entry) => (
+        <li key={entry.id} className="flex flex-col sm:flex-row sm:items-start justify-between gap-2 py-3">
+          <div className="min-w-0 text-sm">
+            <div className="text-gray-900">
+              <span className="text-gray-500">v{entry.version} &middot; </span>
+              <span className="font-medium">
+                {entry.amendment_type ? LEASE_AMENDMENT_TYPE_LABELS[entry.amendment_type] : 'Original Agreement'}
+              </span>
+              {entry.id === agreementId && <span className="text-blue-600"> &middot; Viewing</span>}
+            </div>
+            {entry.amendment_type && entry.amendment_changes ? (
+              <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+                {agreementService.describeAmendment(entry.amendment_type, entry.amendment_changes).map((sentence, index) => (
+                  <li key={index}>{sentence}</li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-xs text-gray-600 mt-1">{entry.agreement_title}</div>
+            )}
+          </div>
+          <div className="flex items-center gap-3 text-xs flex-shrink-0">
+            {entry.status === 'executed' ? (
+              <span className="flex items-center gap-1 text-green-600">
+                <CheckCircle className="w-4 h-4" />
+                {entry.executed_at ? `Executed ${formatDate(entry.executed_at)}` : 'Executed'}
+                {entry.amendment_applied_at && ' · Lease updated'}
+              </span>
+            ) : (
+              <span className="flex items-center gap-1 text-gray-500 capitalize">
+                <Clock className="w-4 h-4" />
+                {entry.status}
+              </span>
+            )}
+            {entry.id !== agreementId && (
+              <Link to={getLink(entry)} className="text-blue-600 hover:text-blue-700">
+                View
+              </Link>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+
+  if (!asCard) return list;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Version History
+      </h3>
+      {list}
+    </div>
+  );
+}
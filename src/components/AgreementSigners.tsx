@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import {
+  agreementService,
+  AgreementSigner,
+  LeaseAgreement,
+  AGREEMENT_SIGNER_ROLE_LABELS,
+} from '../services/agreementService';
+import { useToast } from './Toast';
+import { CheckCircle, Clock, Copy, Eye, Loader, Mail } from 'lucide-react';
+
+interface AgreementSignersProps {
+  agreement: LeaseAgreement;
+}
+
+export function AgreementSigners({ agreement }: AgreementSignersProps) {
+  const toast = useToast();
+  const [signers, setSigners] = useState<AgreementSigner[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSigners();
+  }, [agreement.id]);
+
+  const loadSigners = async () => {
+    setIsLoading(true);
+    try {
+      setSigners(await agreementService.getSigners(agreement.id));
+    } catch (err) {
+      console.error('Error loading signers:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const due = new Set(agreementService.getSignersDue(signers).map(s => s.id));
+  const isSequential = new Set(signers.map(s => s.signing_order)).size > 1;
+
+  const handleCopyLink = async (signer: AgreementSigner) => {
+    try {
+      await navigator.clipboard.writeText(agreementService.getSigningUrl(agreement.id, signer));
+      toast.success('Signing link copied', `Share it only with ${signer.name}.`);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleRemind = async (signer: AgreementSigner) => {
+    setBusyId(signer.id);
+    try {
+      await agreementService.sendSignerReminder(agreement, signer);
+      toast.success('Reminder sent', `${signer.name} was emailed a link to sign.`);
+      await loadSigners();
+    } catch (err: any) {
+      toast.error('Failed to send reminder', err?.message || 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {signers.map((signer) => (
+        <div key={signer.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+          <div className="min-w-0 text-sm">
+            <div className="text-gray-900">
+              {isSequential && <span className="text-gray-500">{signer.signing_order}. </span>}
+              <span className="font-medium">{signer.name}</span>
+              <span className="text-gray-500">
+                {' '}&middot; {AGREEMENT_SIGNER_ROLE_LABELS[signer.role]}
+                {!signer.is_required && ' (optional)'}
+              </span>
+            </div>
+            <div className="text-xs text-gray-500 truncate">{signer.email}</div>
+          </div>
+          <div className="flex items-center gap-3 text-xs">
+            {signer.signed_at ? (
+              <span className="flex items-center gap-1 text-green-600">
+                <CheckCircle className="w-4 h-4" />
+                Signed {formatDate(signer.signed_at)}
+              </span>
+            ) : signer.viewed_at ? (
+              <span className="flex items-center gap-1 text-blue-600">
+                <Eye className="w-4 h-4" />
+                Viewed {formatDate(signer.viewed_at)}
+              </span>
+            ) : (
+              <span className="flex items-center gap-1 text-gray-500">
+                <Clock className="w-4 h-4" />
+                {due.has(signer.id) ? 'Waiting to sign' : 'Not their turn yet'}
+              </span>
+            )}
+            {!signer.signed_at && (
+              <>
+                <button
+                  onClick={() => handleCopyLink(signer)}
+                  className="text-gray-500 hover:text-gray-700"
+                  title="Copy signing link"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                {due.has(signer.id) && (
+                  <button
+                    onClick={() => handleRemind(signer)}
+                    disabled={busyId === signer.id}
+                    className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    title={signer.last_reminded_at ? `Last reminded ${formatDate(signer.last_reminded_at)}` : 'Send reminder'}
+                  >
+                    {busyId === signer.id ? <Loader className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react';
+import {
+  agreementService,
+  LeaseAgreement,
+  LeaseAmendmentChanges,
+  LeaseAmendmentType,
+  LEASE_AMENDMENT_TYPE_LABELS,
+} from '../services/agreementService';
+import { useToast } from './Toast';
+import { Calendar, DollarSign, FilePlus, Loader, X } from 'lucide-react';
+
+interface AmendAgreementProps {
+  agreement: LeaseAgreement;
+  onComplete: (amendment: LeaseAgreement) => void;
+  onCancel: () => void;
+}
+
+const AMENDMENT_TYPES = Object.keys(LEASE_AMENDMENT_TYPE_LABELS) as LeaseAmendmentType[];
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const toCents = (dollars: string) => Math.round(parseFloat(dollars) * 100);
+
+export function AmendAgreement({ agreement, onComplete, onCancel }: AmendAgreementProps) {
+  const toast = useToast();
+  const [original, setOriginal] = useState<LeaseAgreement | null>(null);
+  const [amendmentNumber, setAmendmentNumber] = useState(1);
+  const [type, setType] = useState<LeaseAmendmentType>('rent_change');
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState({
+    effectiveDate: new Date().toISOString().split('T')[0] ?? '',
+    monthlyRent: '',
+    reason: '',
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    occupantType: 'occupant' as 'occupant' | 'co_tenant',
+    petDescription: '',
+    petDeposit: '',
+    petRent: '',
+    newEndDate: '',
+  });
+
+  useEffect(() => {
+    loadOriginal();
+  }, [agreement.id]);
+
+  const loadOriginal = async () => {
+    try {
+      const root = agreement.parent_agreement_id
+        ? await agreementService.getAgreement(agreement.parent_agreement_id)
+        : agreement;
+      const amendments = await agreementService.getAmendments(root.id);
+      setOriginal(root);
+      setAmendmentNumber(Math.max(0, ...amendments.map(a => a.amendment_number ?? 0)) + 1);
+    } catch (err) {
+      console.error('Error loading agreement:', err);
+    }
+  };
+
+  const update = (field: keyof typeof form, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Returns null and shows why when a required field is missing
+  const buildChanges = (): LeaseAmendmentChanges | null => {
+    switch (type) {
+      case 'rent_change':
+        if (!form.effectiveDate || !(toCents(form.monthlyRent) > 0)) {
+          toast.error('Missing details', 'Enter the new monthly rent and when it takes effect.');
+          return null;
+        }
+        return {
+          effective_date: form.effectiveDate,
+          monthly_rent_cents: toCents(form.monthlyRent),
+          reason: form.reason.trim() || null,
+        };
+      case 'add_occupant':
+        if (!form.effectiveDate || !form.firstName.trim() || !form.lastName.trim() || !form.email.trim()) {
+          toast.error('Missing details', 'Enter the occupant\'s name, email and move-in date.');
+          return null;
+        }
+        return {
+          effective_date: form.effectiveDate,
+          first_name: form.firstName.trim(),
+          last_name: form.lastName.trim(),
+          email: form.email.trim(),
+          phone: form.phone.trim() || null,
+          occupant_type: form.occupantType,
+        };
+      case 'pet_addendum':
+        if (!form.effectiveDate || !form.petDescription.trim()) {
+          toast.error('Missing details', 'Describe the pet and when the addendum takes effect.');
+          return null;
+        }
+        return {
+          effective_date: form.effectiveDate,
+          pet_description: form.petDescription.trim(),
+          pet_deposit_cents: form.petDeposit ? toCents(form.petDeposit) : 0,
+          monthly_pet_rent_cents: form.petRent ? toCents(form.petRent) : 0,
+        };
+      case 'term_extension':
+        if (!form.newEndDate) {
+          toast.error('Missing details', 'Enter the new end date.');
+          return null;
+        }
+        return {
+          new_end_date: form.newEndDate,
+          monthly_rent_cents: form.monthlyRent ? toCents(form.monthlyRent) : null,
+        };
+    }
+  };
+
+  const handleSubmit = async () => {
+    const changes = buildChanges();
+    if (!changes) return;
+
+    setIsSaving(true);
+    try {
+      const amendment = await agreementService.createAmendment(agreement, { type, changes, autoSend: true });
+      toast.success('Amendment sent', 'Each signer was emailed a link to sign it.');
+      onComplete(amendment);
+    } catch (err: any) {
+      toast.error('Failed to create amendment', err?.message || 'Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Fields for other types are ignored when the text is built
+  const previewChanges: LeaseAmendmentChanges = {
+    effective_date: type === 'term_extension' ? undefined : form.effectiveDate || undefined,
+    monthly_rent_cents: form.monthlyRent ? toCents(form.monthlyRent) : null,
+    reason: form.reason.trim() || null,
+    first_name: form.firstName.trim(),
+    last_name: form.lastName.trim(),
+    occupant_type: form.occupantType,
+    pet_description: form.petDescription.trim(),
+    pet_deposit_cents: form.petDeposit ? toCents(form.petDeposit) : 0,
+    monthly_pet_rent_cents: form.petRent ? toCents(form.petRent) : 0,
+    new_end_date: form.newEndDate || undefined,
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold">Amend Agreement</h3>
+            <p className="text-sm text-gray-600">
+              Amendment No. {amendmentNumber} to {(original ?? agreement).agreement_title}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 hover:bg-gray-100 rounded text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {AMENDMENT_TYPES.map((option) => (
+              <button
+                key={option}
+                onClick={() => setType(option)}
+                className={`px-3 py-2 rounded-lg border text-sm ${
+                  type === option
+                    ? 'border-blue-600 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {LEASE_AMENDMENT_TYPE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {type !== 'term_extension' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Calendar className="w-4 h-4 inline mr-1" />
+                  {type === 'add_occupant' ? 'Move-in Date *' : 'Effective Date *'}
+                </label>
+                <input
+                  type="date"
+                  value={form.effectiveDate}
+                  onChange={(e) => update('effectiveDate', e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              {type === 'rent_change' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <DollarSign className="w-4 h-4 inline mr-1" />
+                    New Monthly Rent *
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.monthlyRent}
+                    onChange={(e) => update('monthlyRent', e.target.value)}
+                    className={INPUT_CLASS}
+                    placeholder="1600"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {type === 'rent_change' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+              <input
+                type="text"
+                value={form.reason}
+                onChange={(e) => update('reason', e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="Annual increase"
+              />
+            </div>
+          )}
+
+          {type === 'add_occupant' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">First Name *</label>
+                  <input
+                    type="text"
+                    value={form.firstName}
+                    onChange={(e) => update('firstName', e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Last Name *</label>
+                  <input
+                    type="text"
+                    value={form.lastName}
+                    onChange={(e) => update('lastName', e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Email *</label>
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => update('email', e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+                  <input
+                    type="tel"
+                    value={form.phone}
+                    onChange={(e) => update('phone', e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2 text-sm text-gray-700">
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    checked={form.occupantType === 'occupant'}
+                    onChange={() => update('occupantType', 'occupant')}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium">Occupant</span>
+                    <span className="block text-gray-500">Lives in the unit but is not a party to the lease</span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    checked={form.occupantType === 'co_tenant'}
+                    onChange={() => update('occupantType', 'co_tenant')}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium">Co-tenant</span>
+                    <span className="block text-gray-500">Jointly responsible for the lease and signs the amendment</span>
+                  </span>
+                </label>
+              </div>
+            </>
+          )}
+
+          {type === 'pet_addendum' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pet *</label>
+                <input
+                  type="text"
+                  value={form.petDescription}
+                  onChange={(e) => update('petDescription', e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder="One spayed female cat named Miso"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <DollarSign className="w-4 h-4 inline mr-1" />
+                    Pet Deposit
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.petDeposit}
+                    onChange={(e) => update('petDeposit', e.target.value)}
+                    className={INPUT_CLASS}
+                    placeholder="300"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <DollarSign className="w-4 h-4 inline mr-1" />
+                    Monthly Pet Rent
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.petRent}
+                    onChange={(e) => update('petRent', e.target.value)}
+                    className={INPUT_CLASS}
+                    placeholder="25"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {type === 'term_extension' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Calendar className="w-4 h-4 inline mr-1" />
+                  New End Date *
+                </label>
+                <input
+                  type="date"
+                  value={form.newEndDate}
+                  onChange={(e) => update('newEndDate', e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <DollarSign className="w-4 h-4 inline mr-1" />
+                  Monthly Rent for Extension
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.monthlyRent}
+                  onChange={(e) => update('monthlyRent', e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder="Unchanged"
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Preview</h4>
+            <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 whitespace-pre-wrap text-sm text-gray-700 max-h-64 overflow-y-auto">
+              {original
+                ? agreementService.buildAmendmentContent(original, amendmentNumber, type, previewChanges)
+                : 'Loading...'}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 p-4 border-t bg-gray-50">
+          <p className="text-xs text-gray-500">
+            The amendment is sent to the original signers. Once everyone signs, the lease and its payment schedule are updated automatically.
+          </p>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100">
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isSaving || !original}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isSaving ? <Loader className="w-4 h-4 animate-spin" /> : <FilePlus className="w-4 h-4" />}
+              Send Amendment
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { automationWorkerService, AutomationJobRun } from '../services/automationWorkerService';
+import { useToast } from './Toast';
+import { RefreshCw, Play, CheckCircle, AlertTriangle, XCircle, Clock, MinusCircle } from 'lucide-react';
+
+type WorkerStatus = Awaited<ReturnType<typeof automationWorkerService.getWorkerStatus>>;
+
+const STATUS_STYLES: Record<AutomationJobRun['status'], { className: string; icon: typeof CheckCircle }> = {
+  succeeded: { className: 'bg-green-100 text-green-800', icon: CheckCircle },
+  partial: { className: 'bg-amber-100 text-amber-800', icon: AlertTriangle },
+  failed: { className: 'bg-red-100 text-red-800', icon: XCircle },
+  running: { className: 'bg-blue-100 text-blue-800', icon: Clock },
+  skipped: { className: 'bg-gray-100 text-gray-700', icon: MinusCircle },
+};
+
+export function AutomationJobsPanel() {
+  const toast = useToast();
+  const [status, setStatus] = useState<WorkerStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    setIsLoading(true);
+    try {
+      setStatus(await automationWorkerService.getWorkerStatus());
+    } catch (err: any) {
+      toast.error('Failed to load automation status', err?.message || 'Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const result = await automationWorkerService.runDailyTasks();
+      if (result.skipped) {
+        toast.error('Run skipped', 'Another automation run is already in progress.');
+      } else {
+        toast.success('Daily tasks complete', 'See the run history below for details.');
+      }
+      await loadStatus();
+    } catch (err: any) {
+      toast.error('Failed to run daily tasks', err?.message || 'Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const stats = status
+    ? [
+        { label: 'Pending notifications', value: status.pending_notifications },
+        { label: 'Scheduled today', value: status.scheduled_for_today },
+        { label: 'Failed deliveries (24h)', value: status.failed_notifications_24h },
+        { label: 'Dead-lettered', value: status.dead_letter_notifications },
+        { label: 'Failed runs (24h)', value: status.failed_runs_24h },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Scheduled Automation</h3>
+          <p className="text-sm text-gray-600">
+            Rent reminders, lease expiration reminders and late fees run daily for each business at its configured local hour.
+            Notifications are delivered every 15 minutes.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={loadStatus}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition"
+            title="Refresh"
+          >
+            <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+          <button
+            onClick={handleRunNow}
+            disabled={isRunning}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            <Play size={16} />
+            {isRunning ? 'Running...' : 'Run Daily Tasks Now'}
+          </button>
+        </div>
+      </div>
+
+      {isLoading && !status ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : status && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="bg-gray-50 rounded-lg p-4">
+                <p className="text-xs text-gray-500">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-sm text-gray-600 space-y-1">
+            <p>
+              Last notification sent:{' '}
+              {status.last_notification_run ? new Date(status.last_notification_run).toLocaleString() : 'Never'}
+            </p>
+            <p>
+              Last daily run:{' '}
+              {status.last_daily_run
+                ? `${new Date(status.last_daily_run.started_at).toLocaleString()} (${status.last_daily_run.status})`
+                : 'Never'}
+            </p>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-3">Run History</h4>
+            {status.recent_runs.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">No runs recorded yet</p>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Started</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Task</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Trigger</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Status</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">Processed</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">Failed</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {status.recent_runs.map((run) => {
+                      const style = STATUS_STYLES[run.status];
+                      const StatusIcon = style.icon;
+                      return (
+                        <tr key={run.id}>
+                          <td className="px-4 py-2 whitespace-nowrap text-gray-700">
+                            {new Date(run.started_at).toLocaleString()}
+                          </td>
+                          <td className="px-4 py-2 text-gray-900">{run.task}</td>
+                          <td className="px-4 py-2 text-gray-600 capitalize">{run.trigger_source}</td>
+                          <td className="px-4 py-2">
+                            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+                              <StatusIcon size={12} />
+                              {run.status}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-700">{run.processed}</td>
+                          <td className="px-4 py-2 text-right text-gray-700">{run.failed}</td>
+                          <td className="px-4 py-2 text-xs text-red-600 max-w-xs truncate" title={run.errors.join('\n')}>
+                            {run.errors[0] || ''}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
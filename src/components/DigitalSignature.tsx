@@ -5,9 +5,20 @@ interface DigitalSignatureProps {
   onSign: (signatureData: string, method: 'digital' | 'typed') => void;
   onCancel: () => void;
   signerName: string;
+  title?: string;
+  acknowledgement?: string;
 }
 
-export function DigitalSignature({ onSign, onCancel, signerName }: DigitalSignatureProps) {
+const DEFAULT_ACKNOWLEDGEMENT =
+  'agree to the terms and conditions of this lease agreement and acknowledge that my electronic signature is legally binding and has the same effect as a handwritten signature. I understand that by signing this document electronically, I am entering into a legally binding contract.';
+
+export function DigitalSignature({
+  onSign,
+  onCancel,
+  signerName,
+  title = 'Sign Agreement',
+  acknowledgement = DEFAULT_ACKNOWLEDGEMENT,
+}: DigitalSignatureProps) {
   const [method, setMethod] = useState<'digital' | 'typed'>('digital');
   const [typedName, setTypedName] = useState('');
   const [isDrawing, setIsDrawing] = useState(false);
@@ -102,7 +113,7 @@ export function DigitalSignature({ onSign, onCancel, signerName }: DigitalSignat
       <div className="bg-white rounded-lg max-w-2xl w-full max-h-screen overflow-y-auto">
         <div className="p-6">
           <div className="flex items-center justify-between mb-6">
-            <h2 className="text-2xl font-bold text-gray-900">Sign Agreement</h2>
+            <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
             <button
               onClick={onCancel}
               className="text-gray-400 hover:text-gray-600"
@@ -193,7 +204,7 @@ export function DigitalSignature({ onSign, onCancel, signerName }: DigitalSignat
                 className="mt-1 w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
               />
               <span className="text-sm text-gray-700">
-                I, <strong>{signerName}</strong>, agree to the terms and conditions of this lease agreement and acknowledge that my electronic signature is legally binding and has the same effect as a handwritten signature. I understand that by signing this document electronically, I am entering into a legally binding contract.
+                I, <strong>{signerName}</strong>, {acknowledgement}
               </span>
             </label>
           </div>
@@ -211,7 +222,7 @@ export function DigitalSignature({ onSign, onCancel, signerName }: DigitalSignat
               className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               <CheckCircle className="w-5 h-5" />
-              Sign Agreement
+              {title}
             </button>
           </div>
         </div>
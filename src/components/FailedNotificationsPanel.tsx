@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { notificationService, ScheduledNotification } from '../services/notificationService';
+import { useToast } from './Toast';
+import { AlertTriangle, RefreshCw, RotateCcw, X, CheckCircle } from 'lucide-react';
+
+interface FailedNotificationsPanelProps {
+  businessId: string;
+}
+
+export function FailedNotificationsPanel({ businessId }: FailedNotificationsPanelProps) {
+  const toast = useToast();
+  const [notifications, setNotifications] = useState<ScheduledNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [businessId]);
+
+  const loadNotifications = async () => {
+    setIsLoading(true);
+    const data = await notificationService.getDeadLetterNotifications(businessId);
+    setNotifications(data);
+    setIsLoading(false);
+  };
+
+  const handleRetry = async (notification: ScheduledNotification) => {
+    setBusyId(notification.id);
+    try {
+      await notificationService.requeueNotification(notification.id);
+      setNotifications(prev => prev.filter(n => n.id !== notification.id));
+      toast.success('Notification queued', `It will be resent to ${notification.recipient_email}.`);
+    } catch (err: any) {
+      toast.error('Failed to queue notification', err?.message || 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDismiss = async (notification: ScheduledNotification) => {
+    setBusyId(notification.id);
+    try {
+      await notificationService.dismissNotification(notification.id);
+      setNotifications(prev => prev.filter(n => n.id !== notification.id));
+    } catch (err: any) {
+      toast.error('Failed to dismiss notification', err?.message || 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-gray-900">Failed Deliveries</h2>
+          <p className="text-sm text-gray-600">Notifications that could not be delivered after all retry attempts</p>
+        </div>
+        <button
+          onClick={loadNotifications}
+          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition"
+          title="Refresh"
+        >
+          <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-8">
+          <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-3" />
+          <p className="text-gray-500 text-sm">All notifications were delivered</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {notifications.map((notification) => (
+            <div key={notification.id} className="py-4 flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3 min-w-0">
+                <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{notification.subject}</p>
+                  <p className="text-sm text-gray-600">
+                    {notification.recipient_name || notification.recipient_email} · {notification.notification_type.replace(/_/g, ' ')}
+                  </p>
+                  <p className="text-xs text-red-600 mt-1 break-words">
+                    {notification.attempt_count} attempts · {notification.error_message || 'Unknown error'}
+                  </p>
+                  {notification.last_attempt_at && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      Last attempt {new Date(notification.last_attempt_at).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleRetry(notification)}
+                  disabled={busyId === notification.id}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition disabled:opacity-50"
+                >
+                  <RotateCcw size={14} />
+                  Retry
+                </button>
+                <button
+                  onClick={() => handleDismiss(notification)}
+                  disabled={busyId === notification.id}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+                  title="Dismiss"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
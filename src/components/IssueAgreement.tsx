@@ -1,6 +1,12 @@
 import { useState, useEffect, Fragment } from 'react';
-import { FileText, Send, ArrowLeft, Check, Calendar, DollarSign, User, Home, Loader, AlertCircle, Eye } from 'lucide-react';
-import { agreementService, AgreementTemplate } from '../services/agreementService';
+import { FileText, Send, ArrowLeft, Check, Calendar, DollarSign, User, Home, Loader, AlertCircle, Eye, Users, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import {
+  agreementService,
+  AgreementTemplate,
+  AgreementSignerInput,
+  AgreementSignerRole,
+  AGREEMENT_SIGNER_ROLE_LABELS,
+} from '../services/agreementService';
 import { agreementPlaceholderService, PlaceholderContext } from '../services/agreementPlaceholderService';
 import { tenantService } from '../services/tenantService';
 import { propertyService } from '../services/propertyService';
@@ -15,7 +21,12 @@ interface IssueAgreementProps {
   preselectedTenantId?: string;
 }
 
-type Step = 'template' | 'tenant' | 'details' | 'review';
+type Step = 'template' | 'tenant' | 'details' | 'signers' | 'review';
+
+const STEPS: Step[] = ['template', 'tenant', 'details', 'signers', 'review'];
+
+// Roles that can be added alongside the primary tenant and the landlord
+const ADDITIONAL_SIGNER_ROLES: AgreementSignerRole[] = ['co_tenant', 'guarantor', 'witness'];
 
 export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, preselectedTenantId }: IssueAgreementProps) {
   const { currentBusiness, userProfile, supabaseUser } = useAuth();
@@ -36,6 +47,10 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
   const [selectedUnit, setSelectedUnit] = useState<Unit | null>(null);
 
+  // Signers, in signing order. Parallel signing puts everyone in order 1.
+  const [signers, setSigners] = useState<AgreementSignerInput[]>([]);
+  const [signingMode, setSigningMode] = useState<'parallel' | 'sequential'>('parallel');
+
   // Preview
   const [showFullPreview, setShowFullPreview] = useState(false);
 
@@ -48,6 +63,8 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
     paymentDueDay: '1',
     lateFeeAmount: '',
     lateFeeGraceDays: '5',
+    petsAllowed: false,
+    petDeposit: '',
     signatureDeadline: '',
   });
 
@@ -66,6 +83,10 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
         securityDeposit: selectedTemplate.default_security_deposit
           ? (selectedTemplate.default_security_deposit / 100).toFixed(2)
           : '',
+        petsAllowed: selectedTemplate.pets_allowed ?? false,
+        petDeposit: selectedTemplate.default_pet_deposit
+          ? (selectedTemplate.default_pet_deposit / 100).toFixed(2)
+          : '',
       }));
     }
   }, [selectedTemplate]);
@@ -158,6 +179,114 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
       return;
     }
     setError('');
+    if (signers.find(s => s.role === 'tenant')?.tenant_id !== selectedTenant?.id) {
+      setSigners(buildDefaultSigners());
+    }
+    setCurrentStep('signers');
+  };
+
+  const getLandlordName = () => {
+    return userProfile?.first_name && userProfile?.last_name
+      ? `${userProfile.first_name} ${userProfile.last_name}`
+      : currentBusiness?.business_name || 'Property Manager';
+  };
+
+  // The tenant signs first, with co-tenants and guarantors on the same unit,
+  // and the landlord countersigns last
+  const buildDefaultSigners = (): AgreementSignerInput[] => {
+    if (!selectedTenant) return [];
+    const household = tenants.filter(t =>
+      t.id !== selectedTenant.id
+      && t.unit_id === selectedTenant.unit_id
+      && (t.tenant_type === 'co_tenant' || t.tenant_type === 'guarantor')
+      && t.email
+    );
+
+    return [
+      {
+        role: 'tenant',
+        name: `${selectedTenant.first_name} ${selectedTenant.last_name}`,
+        email: selectedTenant.email,
+        tenant_id: selectedTenant.id,
+        signing_order: 1,
+        is_required: true,
+      },
+      ...household.map(t => ({
+        role: t.tenant_type as AgreementSignerRole,
+        name: `${t.first_name} ${t.last_name}`,
+        email: t.email,
+        tenant_id: t.id,
+        signing_order: 1,
+        is_required: true,
+      })),
+      {
+        role: 'landlord',
+        name: getLandlordName(),
+        email: supabaseUser?.email || '',
+        signing_order: 1,
+        is_required: true,
+      },
+    ];
+  };
+
+  const applySigningOrder = (list: AgreementSignerInput[], mode: 'parallel' | 'sequential') => {
+    return list.map((signer, index) => ({
+      ...signer,
+      signing_order: mode === 'sequential' ? index + 1 : 1,
+    }));
+  };
+
+  const updateSigner = (index: number, changes: Partial<AgreementSignerInput>) => {
+    setSigners(prev => prev.map((signer, i) => (i === index ? { ...signer, ...changes } : signer)));
+  };
+
+  const addSigner = () => {
+    setSigners(prev => {
+      // New signers go before the landlord, who countersigns last
+      const landlordIndex = prev.findIndex(s => s.role === 'landlord');
+      const next = [...prev];
+      next.splice(landlordIndex === -1 ? next.length : landlordIndex, 0, {
+        role: 'co_tenant',
+        name: '',
+        email: '',
+        signing_order: 1,
+        is_required: true,
+      });
+      return applySigningOrder(next, signingMode);
+    });
+  };
+
+  const removeSigner = (index: number) => {
+    setSigners(prev => applySigningOrder(prev.filter((_, i) => i !== index), signingMode));
+  };
+
+  const moveSigner = (index: number, direction: -1 | 1) => {
+    setSigners(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      next.splice(target, 0, ...next.splice(index, 1));
+      return applySigningOrder(next, signingMode);
+    });
+  };
+
+  const handleSigningModeChange = (mode: 'parallel' | 'sequential') => {
+    setSigningMode(mode);
+    setSigners(prev => applySigningOrder(prev, mode));
+  };
+
+  const handleSignersSubmit = () => {
+    const additional = signers.filter(s => s.role !== 'tenant' && s.role !== 'landlord');
+    if (additional.some(s => !s.name.trim() || !s.email.trim())) {
+      setError('Please enter a name and email for every signer');
+      return;
+    }
+    const emails = signers.map(s => s.email.trim().toLowerCase());
+    if (new Set(emails).size !== emails.length) {
+      setError('Each signer needs a different email address');
+      return;
+    }
+    setError('');
     setCurrentStep('review');
   };
 
@@ -188,9 +317,13 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
           rent_amount: Math.round(parseFloat(agreementDetails.rentAmount || '0') * 100), // Convert to cents
           security_deposit: Math.round(parseFloat(agreementDetails.securityDeposit || '0') * 100),
           payment_due_day: parseInt(agreementDetails.paymentDueDay),
+          pets_allowed: agreementDetails.petsAllowed,
+          pet_deposit: Math.round(parseFloat(agreementDetails.petDeposit || '0') * 100),
         },
         selectedTemplate.id
       );
+      // The co-tenants who sign are the ones named in the agreement
+      context.co_tenants = getSignerCoTenants();
 
       // Generate the agreement with placeholder substitution
       await agreementService.generateAgreementFromTemplateWithContext(
@@ -207,6 +340,7 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
           securityDeposit: Math.round(parseFloat(agreementDetails.securityDeposit || '0') * 100),
           paymentDueDay: parseInt(agreementDetails.paymentDueDay),
           autoSend: true, // Send immediately
+          signers: signers.map(s => ({ ...s, name: s.name.trim(), email: s.email.trim() })),
         }
       );
 
@@ -219,6 +353,12 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
     }
   };
 
+  const getSignerCoTenants = () => {
+    return signers
+      .filter(s => s.role === 'co_tenant')
+      .map(s => ({ name: s.name.trim(), email: s.email.trim() }));
+  };
+
   // Build a preview context for displaying substituted content
   const getPreviewContext = (): PlaceholderContext => {
     const landlordName = userProfile?.first_name && userProfile?.last_name
@@ -234,6 +374,10 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
       property_address: selectedProperty
         ? `${selectedProperty.address_line1}, ${selectedProperty.city}, ${selectedProperty.state} ${selectedProperty.postal_code}`
         : '',
+      property_city: selectedProperty?.city || '',
+      property_state: selectedProperty?.state || '',
+      property_postal_code: selectedProperty?.postal_code || '',
+      property_country: selectedProperty?.country || '',
       unit_number: selectedUnit?.unit_number || '',
       bedrooms: selectedUnit?.bedrooms,
       bathrooms: selectedUnit?.bathrooms,
@@ -243,6 +387,7 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
       tenant_last_name: selectedTenant?.last_name || '',
       tenant_email: selectedTenant?.email || '',
       tenant_phone: selectedTenant?.phone || '',
+      co_tenants: getSignerCoTenants(),
       start_date: agreementDetails.startDate,
       end_date: agreementDetails.endDate,
       rent_amount: Math.round(parseFloat(agreementDetails.rentAmount || '0') * 100),
@@ -251,6 +396,9 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
       payment_due_day: parseInt(agreementDetails.paymentDueDay),
       late_fee_amount: Math.round(parseFloat(agreementDetails.lateFeeAmount || '0') * 100),
       late_fee_grace_days: parseInt(agreementDetails.lateFeeGraceDays || '5'),
+      pets_allowed: agreementDetails.petsAllowed,
+      pet_deposit: Math.round(parseFloat(agreementDetails.petDeposit || '0') * 100),
+      additional_charges: selectedTemplate?.additional_charges || [],
       pet_policy: selectedTemplate?.pet_policy,
       house_rules: selectedTemplate?.house_rules,
       parking_details: selectedTemplate?.parking_details,
@@ -276,8 +424,7 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
   };
 
   const getStepNumber = (step: Step) => {
-    const steps: Step[] = ['template', 'tenant', 'details', 'review'];
-    return steps.indexOf(step) + 1;
+    return STEPS.indexOf(step) + 1;
   };
 
   if (loading) {
@@ -309,7 +456,7 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
 
         {/* Progress Steps */}
         <div className="flex items-center gap-2">
-          {(['template', 'tenant', 'details', 'review'] as Step[]).map((step, index) => (
+          {STEPS.map((step, index) => (
             <Fragment key={step}>
               <div className={`flex items-center gap-2 ${getStepNumber(currentStep) >= index + 1 ? 'text-blue-600' : 'text-gray-400'}`}>
                 <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
@@ -321,7 +468,7 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
                 </div>
                 <span className="text-sm font-medium capitalize hidden sm:inline">{step}</span>
               </div>
-              {index < 3 && <div className={`flex-1 h-0.5 ${getStepNumber(currentStep) > index + 1 ? 'bg-blue-600' : 'bg-gray-200'}`} />}
+              {index < STEPS.length - 1 && <div className={`flex-1 h-0.5 ${getStepNumber(currentStep) > index + 1 ? 'bg-blue-600' : 'bg-gray-200'}`} />}
             </Fragment>
           ))}
         </div>
@@ -571,6 +718,29 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 py-2">
+                <input
+                  type="checkbox"
+                  checked={agreementDetails.petsAllowed}
+                  onChange={(e) => setAgreementDetails(prev => ({ ...prev, petsAllowed: e.target.checked }))}
+                  className="rounded border-gray-300"
+                />
+                Pets allowed
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pet Deposit</label>
+                <input
+                  type="number"
+                  value={agreementDetails.petDeposit}
+                  onChange={(e) => setAgreementDetails(prev => ({ ...prev, petDeposit: e.target.value }))}
+                  disabled={!agreementDetails.petsAllowed}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  placeholder="300"
+                />
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Signature Deadline (optional)</label>
               <input
@@ -586,6 +756,151 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
             onClick={handleDetailsSubmit}
             disabled={!selectedProperty || !selectedUnit}
             className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Continue to Signers
+          </button>
+        </div>
+      )}
+
+      {/* Step: Signers */}
+      {currentStep === 'signers' && (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Signers</h2>
+            <button
+              onClick={() => setCurrentStep('details')}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              Back
+            </button>
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6 space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Signing Order</label>
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  ['parallel', 'All at once', 'Everyone can sign as soon as the agreement is sent'],
+                  ['sequential', 'One after another', 'Each signer is invited once the signer before them has signed'],
+                ] as const).map(([mode, label, description]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => handleSigningModeChange(mode)}
+                    className={`text-left p-3 border rounded-lg ${
+                      signingMode === mode ? 'border-blue-600 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                  >
+                    <div className="font-medium text-gray-900 text-sm">{label}</div>
+                    <div className="text-xs text-gray-500">{description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {signers.map((signer, index) => {
+                const isParty = signer.role === 'tenant' || signer.role === 'landlord';
+                return (
+                  <div key={index} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start gap-3">
+                      {signingMode === 'sequential' && (
+                        <div className="flex flex-col items-center">
+                          <button
+                            type="button"
+                            onClick={() => moveSigner(index, -1)}
+                            disabled={index === 0}
+                            className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                          >
+                            <ChevronUp className="w-4 h-4" />
+                          </button>
+                          <span className="text-sm font-medium text-gray-700">{signer.signing_order}</span>
+                          <button
+                            type="button"
+                            onClick={() => moveSigner(index, 1)}
+                            disabled={index === signers.length - 1}
+                            className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                          >
+                            <ChevronDown className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                      <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {isParty ? (
+                          <>
+                            <div className="text-sm font-medium text-gray-700 py-2">
+                              {AGREEMENT_SIGNER_ROLE_LABELS[signer.role]}
+                            </div>
+                            <div className="text-sm text-gray-900 py-2">{signer.name}</div>
+                            <div className="text-sm text-gray-500 py-2 truncate">{signer.email}</div>
+                          </>
+                        ) : (
+                          <>
+                            <select
+                              value={signer.role}
+                              onChange={(e) => updateSigner(index, { role: e.target.value as AgreementSignerRole })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                              {ADDITIONAL_SIGNER_ROLES.map(role => (
+                                <option key={role} value={role}>{AGREEMENT_SIGNER_ROLE_LABELS[role]}</option>
+                              ))}
+                            </select>
+                            <input
+                              type="text"
+                              value={signer.name}
+                              onChange={(e) => updateSigner(index, { name: e.target.value })}
+                              placeholder="Full name"
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <input
+                              type="email"
+                              value={signer.email}
+                              onChange={(e) => updateSigner(index, { email: e.target.value })}
+                              placeholder="Email"
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          </>
+                        )}
+                      </div>
+                      {!isParty && (
+                        <button
+                          type="button"
+                          onClick={() => removeSigner(index)}
+                          className="text-gray-400 hover:text-red-600 py-2"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                    {!isParty && (
+                      <label className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={signer.is_required}
+                          onChange={(e) => updateSigner(index, { is_required: e.target.checked })}
+                          className="rounded border-gray-300"
+                        />
+                        Required to execute the agreement
+                      </label>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              type="button"
+              onClick={addSigner}
+              className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add Co-tenant, Guarantor or Witness
+            </button>
+          </div>
+
+          <button
+            onClick={handleSignersSubmit}
+            className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700"
           >
             Continue to Review
           </button>
@@ -598,7 +913,7 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
           <div className="flex items-center justify-between">
             <h2 className="text-lg font-semibold text-gray-900">Review Agreement</h2>
             <button
-              onClick={() => setCurrentStep('details')}
+              onClick={() => setCurrentStep('signers')}
               className="text-sm text-blue-600 hover:text-blue-700"
             >
               Back
@@ -616,11 +931,7 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
               <div className="grid grid-cols-2 gap-6">
                 <div>
                   <h4 className="font-semibold text-gray-700 mb-2">Landlord</h4>
-                  <p className="text-gray-900">
-                    {userProfile?.first_name && userProfile?.last_name
-                      ? `${userProfile.first_name} ${userProfile.last_name}`
-                      : currentBusiness?.business_name || 'Property Manager'}
-                  </p>
+                  <p className="text-gray-900">{getLandlordName()}</p>
                   <p className="text-sm text-gray-500">{supabaseUser?.email}</p>
                 </div>
                 <div>
@@ -630,6 +941,23 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
                 </div>
               </div>
 
+              {signers.length > 2 && (
+                <div>
+                  <h4 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    Signers ({signingMode === 'sequential' ? 'one after another' : 'all at once'})
+                  </h4>
+                  <ol className="space-y-1 text-sm text-gray-900">
+                    {signers.map((signer, index) => (
+                      <li key={index}>
+                        {signingMode === 'sequential' && `${signer.signing_order}. `}
+                        {signer.name} <span className="text-gray-500">&middot; {AGREEMENT_SIGNER_ROLE_LABELS[signer.role]}{!signer.is_required && ' (optional)'}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
               {/* Property */}
               <div>
                 <h4 className="font-semibold text-gray-700 mb-2">Property</h4>
@@ -661,6 +989,11 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
                 <div>
                   <h4 className="font-semibold text-gray-700 mb-2">Security Deposit</h4>
                   <p className="text-gray-900">{formatCurrency(parseFloat(agreementDetails.securityDeposit || '0'))}</p>
+                  {agreementDetails.petsAllowed && parseFloat(agreementDetails.petDeposit || '0') > 0 && (
+                    <p className="text-sm text-gray-500">
+                      Plus {formatCurrency(parseFloat(agreementDetails.petDeposit))} pet deposit
+                    </p>
+                  )}
                 </div>
                 <div>
                   <h4 className="font-semibold text-gray-700 mb-2">Payment Due</h4>
@@ -685,7 +1018,9 @@ export function IssueAgreement({ onComplete, onCancel, preselectedTemplateId, pr
             <div className="p-6 border-t border-gray-200 bg-gray-50">
               <div className="flex items-center justify-between mb-4">
                 <p className="text-sm text-gray-600">
-                  An email will be sent to <strong>{selectedTenant?.email}</strong> with a link to view and sign this agreement.
+                  {signingMode === 'sequential'
+                    ? <>An email will be sent to <strong>{signers[0]?.email}</strong> with a link to view and sign this agreement. Each following signer is emailed when it is their turn.</>
+                    : <>An email will be sent to each signer with their own link to view and sign this agreement.</>}
                 </p>
                 <button
                   type="button"
@@ -33,6 +33,7 @@ import {
   Receipt,
   Cog,
   LayoutGrid,
+  ClipboardCheck,
 } from 'lucide-react';
 import { Footer } from './Footer';
 import BusinessSelector from './BusinessSelector';
@@ -101,6 +102,7 @@ const navigationGroups: NavGroup[] = [
     icon: Cog,
     items: [
       { name: 'Maintenance', href: '/maintenance', icon: Wrench },
+      { name: 'Inspections', href: '/inspections', icon: ClipboardCheck },
       { name: 'Reports', href: '/reports', icon: BarChart3, requiresFeature: 'advanced_reporting' },
     ],
   },
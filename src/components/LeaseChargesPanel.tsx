@@ -0,0 +1,481 @@
+import { useState, useEffect } from 'react';
+import {
+  recurringChargeService,
+  RECURRING_CHARGE_TYPE_LABELS,
+} from '../services/recurringChargeService';
+import {
+  Lease,
+  LeaseRecurringCharge,
+  LeaseRecurringChargeType,
+  LeaseRentChange,
+  PaymentSchedule,
+} from '../types';
+import { useToast } from './Toast';
+import { CalendarX, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+
+interface LeaseChargesPanelProps {
+  lease: Lease;
+  businessId: string;
+  userId: string;
+  onLeaseChange?: (lease: Lease) => void;
+}
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(cents / 100);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-CA', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const toCents = (value: string) => Math.round(parseFloat(value) * 100);
+
+export function LeaseChargesPanel({ lease, businessId, userId, onLeaseChange }: LeaseChargesPanelProps) {
+  const toast = useToast();
+  const [charges, setCharges] = useState<LeaseRecurringCharge[]>([]);
+  const [rentChanges, setRentChanges] = useState<LeaseRentChange[]>([]);
+  const [schedule, setSchedule] = useState<PaymentSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [showChargeForm, setShowChargeForm] = useState(false);
+  const [chargeType, setChargeType] = useState<LeaseRecurringChargeType>('parking');
+  const [chargeDescription, setChargeDescription] = useState('');
+  const [chargeAmount, setChargeAmount] = useState('');
+  const [chargeStart, setChargeStart] = useState(today());
+  const [chargeEnd, setChargeEnd] = useState('');
+  const [showRentForm, setShowRentForm] = useState(false);
+  const [rentEffective, setRentEffective] = useState(today());
+  const [rentAmount, setRentAmount] = useState('');
+  const [rentReason, setRentReason] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [lease.id]);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [chargeData, rentData, scheduleData] = await Promise.all([
+        recurringChargeService.getCharges(lease.id),
+        recurringChargeService.getRentChanges(lease.id),
+        recurringChargeService.getUpcomingSchedule(lease.id, today()),
+      ]);
+      setCharges(chargeData);
+      setRentChanges(rentData);
+      setSchedule(scheduleData);
+    } catch (err: any) {
+      toast.error('Failed to load charges', err?.message || 'Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Every change regenerates the schedule in the database; reload to show it
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      await loadData();
+      return true;
+    } catch (err: any) {
+      toast.error(failure, err?.message || 'Please try again.');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleAuto = async () => {
+    const enabled = !lease.auto_generate_schedule;
+    if (!enabled && !confirm('Stop generating this lease\'s schedule? Future unpaid generated rows will be removed.')) {
+      return;
+    }
+
+    await run(async () => {
+      const updated = await recurringChargeService.setAutoGenerate(lease.id, enabled);
+      onLeaseChange?.(updated);
+    }, 'Failed to update lease');
+  };
+
+  const handleRegenerate = async () => {
+    let written = 0;
+    const ok = await run(async () => {
+      written = await recurringChargeService.regenerateSchedule(lease.id);
+    }, 'Failed to regenerate schedule');
+    if (ok) {
+      toast.success('Schedule regenerated', `${written} row${written === 1 ? '' : 's'} written.`);
+    }
+  };
+
+  const handleAddCharge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cents = toCents(chargeAmount);
+    if (!cents || cents <= 0) {
+      toast.error('Invalid amount', 'Enter an amount greater than zero.');
+      return;
+    }
+
+    const ok = await run(() => recurringChargeService.addCharge({
+      businessId,
+      leaseId: lease.id,
+      chargeType,
+      description: chargeDescription,
+      amountCents: cents,
+      startDate: chargeStart,
+      endDate: chargeEnd || undefined,
+    }, userId), 'Failed to add charge');
+    if (ok) {
+      setShowChargeForm(false);
+      setChargeDescription('');
+      setChargeAmount('');
+      setChargeEnd('');
+    }
+  };
+
+  const handleEndCharge = async (charge: LeaseRecurringCharge) => {
+    const endDate = prompt('Last day to bill this charge (YYYY-MM-DD)', today());
+    if (!endDate) return;
+    if (endDate < charge.start_date) {
+      toast.error('Invalid date', 'The end date must be on or after the start date.');
+      return;
+    }
+
+    await run(() => recurringChargeService.endCharge(charge.id, endDate), 'Failed to end charge');
+  };
+
+  const handleDeleteCharge = async (chargeId: string) => {
+    if (!confirm('Delete this charge? Rows already billed are kept.')) return;
+    await run(() => recurringChargeService.deleteCharge(chargeId), 'Failed to delete charge');
+  };
+
+  const handleAddRentChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cents = toCents(rentAmount);
+    if (isNaN(cents) || cents < 0) {
+      toast.error('Invalid rent', 'Enter the new monthly rent.');
+      return;
+    }
+
+    const ok = await run(() => recurringChargeService.addRentChange({
+      businessId,
+      leaseId: lease.id,
+      effectiveDate: rentEffective,
+      monthlyRentCents: cents,
+      reason: rentReason || undefined,
+    }, userId), 'Failed to add rent change');
+    if (ok) {
+      setShowRentForm(false);
+      setRentAmount('');
+      setRentReason('');
+    }
+  };
+
+  const handleDeleteRentChange = async (rentChangeId: string) => {
+    if (!confirm('Delete this rent change?')) return;
+    await run(() => recurringChargeService.deleteRentChange(rentChangeId), 'Failed to delete rent change');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Rent &amp; Recurring Charges</h2>
+          <p className="text-sm text-gray-600">
+            {formatCents(lease.monthly_rent_cents)}/month, due on day {lease.rent_due_day}
+            {' · '}
+            {formatDate(lease.start_date)} – {lease.end_date ? formatDate(lease.end_date) : 'open-ended'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!lease.auto_generate_schedule}
+              onChange={handleToggleAuto}
+              disabled={isBusy}
+            />
+            Generate schedule automatically
+          </label>
+          {lease.auto_generate_schedule && (
+            <button
+              onClick={handleRegenerate}
+              disabled={isBusy}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+            >
+              <RefreshCw size={16} className={isBusy ? 'animate-spin' : ''} />
+              Regenerate
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Rent Changes */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-gray-900">Rent Changes</h3>
+          <button
+            onClick={() => setShowRentForm(!showRentForm)}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus size={16} />
+            Change Rent
+          </button>
+        </div>
+
+        {showRentForm && (
+          <form onSubmit={handleAddRentChange} className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">New Rent</h4>
+              <button type="button" onClick={() => setShowRentForm(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={18} />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Effective</label>
+                <input
+                  type="date"
+                  value={rentEffective}
+                  onChange={(e) => setRentEffective(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Monthly rent</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rentAmount}
+                  onChange={(e) => setRentAmount(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Reason</label>
+                <input
+                  type="text"
+                  placeholder="e.g. Annual increase"
+                  value={rentReason}
+                  onChange={(e) => setRentReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Periods that span the effective date are prorated by day. Rows already due are not rebilled.
+            </p>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isBusy}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save Rent Change
+              </button>
+            </div>
+          </form>
+        )}
+
+        {rentChanges.length === 0 ? (
+          <p className="text-sm text-gray-500">No rent changes. The lease rent applies for the whole term.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+            {rentChanges.map(change => (
+              <li key={change.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <span className="text-gray-900 font-medium">{formatCents(change.monthly_rent_cents)}</span>
+                  <span className="text-gray-600"> from {formatDate(change.effective_date)}</span>
+                  {change.previous_rent_cents != null && (
+                    <span className="text-gray-500"> (was {formatCents(change.previous_rent_cents)})</span>
+                  )}
+                  {change.reason && <span className="ml-2 text-xs text-gray-500">{change.reason}</span>}
+                </div>
+                <button
+                  onClick={() => handleDeleteRentChange(change.id)}
+                  disabled={isBusy}
+                  className="text-gray-400 hover:text-red-600 transition"
+                  title="Delete rent change"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Recurring Charges */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-gray-900">Additional Charges</h3>
+          <button
+            onClick={() => setShowChargeForm(!showChargeForm)}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus size={16} />
+            Add Charge
+          </button>
+        </div>
+
+        {showChargeForm && (
+          <form onSubmit={handleAddCharge} className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">New Monthly Charge</h4>
+              <button type="button" onClick={() => setShowChargeForm(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={18} />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <select
+                value={chargeType}
+                onChange={(e) => setChargeType(e.target.value as LeaseRecurringChargeType)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {Object.entries(RECURRING_CHARGE_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder="Monthly amount"
+                value={chargeAmount}
+                onChange={(e) => setChargeAmount(e.target.value)}
+                required
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Starts</label>
+                <input
+                  type="date"
+                  value={chargeStart}
+                  onChange={(e) => setChargeStart(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Ends (optional)</label>
+                <input
+                  type="date"
+                  value={chargeEnd}
+                  onChange={(e) => setChargeEnd(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <input
+              type="text"
+              placeholder="Description (e.g. Parking stall P12)"
+              value={chargeDescription}
+              onChange={(e) => setChargeDescription(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isBusy}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Add Charge
+              </button>
+            </div>
+          </form>
+        )}
+
+        {charges.length === 0 ? (
+          <p className="text-sm text-gray-500">No additional charges.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+            {charges.map(charge => (
+              <li key={charge.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <span className="text-gray-900 font-medium">{charge.description}</span>
+                  <span className="ml-2 text-xs text-gray-500">{RECURRING_CHARGE_TYPE_LABELS[charge.charge_type]}</span>
+                  <p className="text-gray-600">
+                    {formatCents(charge.amount_cents)}/month from {formatDate(charge.start_date)}
+                    {charge.end_date && ` to ${formatDate(charge.end_date)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {!charge.end_date && (
+                    <button
+                      onClick={() => handleEndCharge(charge)}
+                      disabled={isBusy}
+                      className="text-gray-400 hover:text-gray-700 transition"
+                      title="End charge"
+                    >
+                      <CalendarX size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDeleteCharge(charge.id)}
+                    disabled={isBusy}
+                    className="text-gray-400 hover:text-red-600 transition"
+                    title="Delete charge"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Upcoming Schedule */}
+      <div className="space-y-3">
+        <h3 className="font-medium text-gray-900">Upcoming Schedule</h3>
+        {!lease.auto_generate_schedule && (
+          <p className="text-sm text-gray-500">
+            Rows are entered by hand for this lease. Turn on automatic generation to build them from the terms above.
+          </p>
+        )}
+        {isLoading ? (
+          <div className="py-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : schedule.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing scheduled.</p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">Due</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">Description</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-600">Amount</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {schedule.map(row => (
+                  <tr key={row.id}>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{formatDate(row.payment_date)}</td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {row.description || 'Rent'}
+                      {row.is_prorated && <span className="ml-2 text-xs text-amber-600">Prorated</span>}
+                      {!row.is_generated && <span className="ml-2 text-xs text-gray-500">Manual</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">{formatCents(Math.round(row.due_amount * 100))}</td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {row.is_paid ? 'Paid' : (row.paid_amount || 0) > 0 ? 'Partial' : 'Due'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
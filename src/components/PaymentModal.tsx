@@ -2,22 +2,24 @@ import { useState, useEffect, useRef } from 'react';
 import { CreditCard, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
 import { squarePaymentService, SquareConfig } from '../services/squarePaymentService';
 import { paypalPaymentService, PayPalConfig } from '../services/paypalPaymentService';
+import { stripePaymentService, StripeConfig, StripeCardElement } from '../services/stripePaymentService';
 import { SlidePanel } from './SlidePanel';
 
 interface PaymentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: (paymentId: string, method: 'square' | 'paypal') => void;
+  onSuccess: (paymentId: string, method: 'square' | 'paypal' | 'stripe') => void;
   amountCents: number;
   currency?: string;
   organizationId: string;
   tenantId?: string;
   leaseId?: string;
+  paymentScheduleId?: string;
   paymentType?: 'rent' | 'security_deposit' | 'pet_deposit' | 'late_fee' | 'utility' | 'other';
   description?: string;
 }
 
-type PaymentMethod = 'card' | 'paypal' | null;
+type PaymentMethod = 'card' | 'stripe' | 'paypal' | null;
 
 export function PaymentModal({
   isOpen,
@@ -28,6 +30,7 @@ export function PaymentModal({
   organizationId,
   tenantId,
   leaseId,
+  paymentScheduleId,
   paymentType = 'rent',
   description,
 }: PaymentModalProps) {
@@ -36,16 +39,20 @@ export function PaymentModal({
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [isAuthenticating, setIsAuthenticating] = useState(false);
 
   // Payment gateway availability
   const [squareAvailable, setSquareAvailable] = useState(false);
   const [paypalAvailable, setPaypalAvailable] = useState(false);
+  const [stripeAvailable, setStripeAvailable] = useState(false);
   const [squareConfig, setSquareConfig] = useState<SquareConfig | null>(null);
   const [paypalConfig, setPaypalConfig] = useState<PayPalConfig | null>(null);
+  const [stripeConfig, setStripeConfig] = useState<StripeConfig | null>(null);
 
   // Square card instance
   const squareCardRef = useRef<any>(null);
   const paypalButtonsRef = useRef<any>(null);
+  const stripeCardRef = useRef<StripeCardElement | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -56,19 +63,32 @@ export function PaymentModal({
     };
   }, [isOpen, organizationId]);
 
+  // The SDKs throw when their element went away with the modal; nothing is left to clean up then
   const cleanup = () => {
     if (squareCardRef.current) {
       try {
         squareCardRef.current.destroy();
-      } catch (e) {}
+      } catch {
+        // Already destroyed
+      }
       squareCardRef.current = null;
     }
     if (paypalButtonsRef.current) {
       try {
         paypalButtonsRef.current.close();
-      } catch (e) {}
+      } catch {
+        // Already closed
+      }
       paypalButtonsRef.current = null;
     }
+    if (stripeCardRef.current) {
+      try {
+        stripeCardRef.current.destroy();
+      } catch {
+        // Already destroyed
+      }
+      stripeCardRef.current = null;
+    }
   };
 
   const checkPaymentGateways = async () => {
@@ -90,10 +110,17 @@ export function PaymentModal({
         setPaypalAvailable(true);
       }
 
-      if (!sqConfig && !ppConfig) {
+      // Check Stripe
+      const stConfig = await stripePaymentService.getStripeConfig();
+      if (stConfig) {
+        setStripeConfig(stConfig);
+        setStripeAvailable(true);
+      }
+
+      if (!sqConfig && !ppConfig && !stConfig) {
         setError('No payment methods are currently configured. Please contact property management.');
       }
-    } catch (err) {
+    } catch {
       setError('Failed to load payment options');
     } finally {
       setIsLoading(false);
@@ -117,13 +144,31 @@ export function PaymentModal({
       } else {
         setError('Failed to initialize card payment form');
       }
-    } catch (err) {
+    } catch {
       setError('Failed to initialize Square payment');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const initializeStripe = async () => {
+    if (!stripeConfig) return;
+
+    setError(null);
+
+    // No loading state here: the card container must stay mounted for Stripe.js
+    try {
+      const card = await stripePaymentService.createCardElement('stripe-card-container', stripeConfig);
+      if (card) {
+        stripeCardRef.current = card;
+      } else {
+        setError('Failed to initialize card payment form');
+      }
+    } catch {
+      setError('Failed to initialize Stripe payment');
+    }
+  };
+
   const initializePayPal = async () => {
     if (!paypalConfig) return;
 
@@ -139,6 +184,7 @@ export function PaymentModal({
           currency,
           tenant_id: tenantId,
           lease_id: leaseId,
+          payment_schedule_id: paymentScheduleId,
           payment_type: paymentType,
           description,
         },
@@ -161,7 +207,7 @@ export function PaymentModal({
       if (buttons) {
         paypalButtonsRef.current = buttons;
       }
-    } catch (err) {
+    } catch {
       setError('Failed to initialize PayPal');
     } finally {
       setIsLoading(false);
@@ -171,6 +217,8 @@ export function PaymentModal({
   useEffect(() => {
     if (selectedMethod === 'card' && squareAvailable) {
       initializeSquare();
+    } else if (selectedMethod === 'stripe' && stripeAvailable) {
+      initializeStripe();
     } else if (selectedMethod === 'paypal' && paypalAvailable) {
       initializePayPal();
     }
@@ -197,6 +245,7 @@ export function PaymentModal({
         source_id: tokenResult.token,
         tenant_id: tenantId,
         lease_id: leaseId,
+        payment_schedule_id: paymentScheduleId,
         payment_type: paymentType,
         description,
         idempotency_key: squarePaymentService.generateIdempotencyKey(),
@@ -210,9 +259,72 @@ export function PaymentModal({
       } else {
         setError(result.error || 'Payment failed');
       }
-    } catch (err) {
+    } catch {
+      setError('Payment processing failed');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleStripePayment = async () => {
+    if (!stripeCardRef.current || !stripeConfig) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const methodResult = await stripePaymentService.createPaymentMethod(stripeCardRef.current);
+
+      if ('error' in methodResult) {
+        setError(methodResult.error);
+        return;
+      }
+
+      const paymentRequest = {
+        amount_cents: amountCents,
+        currency,
+        tenant_id: tenantId,
+        lease_id: leaseId,
+        payment_schedule_id: paymentScheduleId,
+        payment_type: paymentType,
+        description,
+        idempotency_key: stripePaymentService.generateIdempotencyKey(),
+      };
+
+      let result = await stripePaymentService.processPayment(organizationId, {
+        ...paymentRequest,
+        payment_method_id: methodResult.paymentMethodId,
+      });
+
+      // The card issuer asked for 3D Secure: run the challenge, then finalize
+      if (result.requires_action && result.client_secret) {
+        setIsAuthenticating(true);
+        const actionResult = await stripePaymentService.handleCardAction(result.client_secret);
+        setIsAuthenticating(false);
+
+        if ('error' in actionResult) {
+          setError(actionResult.error);
+          return;
+        }
+
+        result = await stripePaymentService.processPayment(organizationId, {
+          ...paymentRequest,
+          payment_intent_id: actionResult.paymentIntentId,
+        });
+      }
+
+      if (result.success) {
+        setSuccess(true);
+        setTimeout(() => {
+          onSuccess(result.payment_id || result.payment_intent_id || '', 'stripe');
+        }, 1500);
+      } else {
+        setError(result.error || 'Payment failed');
+      }
+    } catch {
       setError('Payment processing failed');
     } finally {
+      setIsAuthenticating(false);
       setIsProcessing(false);
     }
   };
@@ -285,7 +397,7 @@ export function PaymentModal({
               )}
 
               {/* Payment Method Selection */}
-              {!selectedMethod && (squareAvailable || paypalAvailable) && (
+              {!selectedMethod && (squareAvailable || stripeAvailable || paypalAvailable) && (
                 <div className="space-y-3">
                   <p className="text-sm text-gray-600 font-medium">Select payment method:</p>
 
@@ -304,6 +416,21 @@ export function PaymentModal({
                     </button>
                   )}
 
+                  {stripeAvailable && (
+                    <button
+                      onClick={() => setSelectedMethod('stripe')}
+                      className="w-full flex items-center gap-4 p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition"
+                    >
+                      <div className="w-12 h-12 bg-[#635bff] rounded-lg flex items-center justify-center">
+                        <CreditCard className="w-6 h-6 text-white" />
+                      </div>
+                      <div className="text-left">
+                        <p className="font-semibold text-gray-900">{squareAvailable ? 'Card via Stripe' : 'Credit/Debit Card'}</p>
+                        <p className="text-sm text-gray-500">Visa, Mastercard, Amex, Discover</p>
+                      </div>
+                    </button>
+                  )}
+
                   {paypalAvailable && (
                     <button
                       onClick={() => setSelectedMethod('paypal')}
@@ -356,6 +483,41 @@ export function PaymentModal({
                 </div>
               )}
 
+              {/* Stripe Card Form */}
+              {selectedMethod === 'stripe' && (
+                <div className="space-y-4">
+                  <button
+                    onClick={() => {
+                      cleanup();
+                      setSelectedMethod(null);
+                    }}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    ← Back to payment methods
+                  </button>
+
+                  <div id="stripe-card-container" className="p-4 border border-gray-300 rounded-lg"></div>
+
+                  <button
+                    onClick={handleStripePayment}
+                    disabled={isProcessing}
+                    className="w-full flex items-center justify-center gap-2 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 transition"
+                  >
+                    {isProcessing ? (
+                      <>
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        {isAuthenticating ? 'Verifying with your bank...' : 'Processing...'}
+                      </>
+                    ) : (
+                      <>
+                        <CreditCard className="w-5 h-5" />
+                        Pay {formatCurrency(amountCents)}
+                      </>
+                    )}
+                  </button>
+                </div>
+              )}
+
               {/* PayPal Buttons */}
               {selectedMethod === 'paypal' && (
                 <div className="space-y-4">
@@ -381,7 +543,7 @@ export function PaymentModal({
               )}
 
               {/* No Payment Methods */}
-              {!squareAvailable && !paypalAvailable && !error && (
+              {!squareAvailable && !stripeAvailable && !paypalAvailable && !error && (
                 <div className="text-center py-6">
                   <AlertCircle className="w-12 h-12 text-amber-500 mx-auto mb-4" />
                   <p className="text-gray-600">
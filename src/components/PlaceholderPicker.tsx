@@ -15,13 +15,23 @@ const CATEGORY_LABELS: Record<string, { label: string; icon: string }> = {
   tenant: { label: 'Tenant', icon: '👤' },
   property: { label: 'Property', icon: '🏠' },
   lease: { label: 'Lease Terms', icon: '📄' },
+  computed: { label: 'Computed', icon: '🧮' },
   dates: { label: 'Dates', icon: '📅' },
 };
 
+/**
+ * How a placeholder is shown: flags and lists are used as blocks
+ */
+function placeholderTag(placeholder: PlaceholderDefinition): string {
+  if (placeholder.type === 'flag') return `{{#if ${placeholder.key}}}`;
+  if (placeholder.type === 'list') return `{{#each ${placeholder.key}}}`;
+  return `{{${placeholder.key}}}`;
+}
+
 export function PlaceholderPicker({ onInsert, compact = false }: PlaceholderPickerProps) {
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
-    new Set(['landlord', 'tenant', 'property', 'lease', 'dates'])
+    new Set(['landlord', 'tenant', 'property', 'lease', 'computed', 'dates'])
   );
 
   const placeholdersByCategory = agreementPlaceholderService.getPlaceholdersByCategory();
@@ -72,7 +82,7 @@ export function PlaceholderPicker({ onInsert, compact = false }: PlaceholderPick
               ) : (
                 <Copy className="w-3 h-3" />
               )}
-              {`{{${p.key}}}`}
+              {placeholderTag(p)}
             </button>
           ))}
         </div>
@@ -125,7 +135,7 @@ export function PlaceholderPicker({ onInsert, compact = false }: PlaceholderPick
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <code className="text-xs bg-gray-100 text-gray-800 px-1.5 py-0.5 rounded font-mono">
-                            {`{{${placeholder.key}}}`}
+                            {placeholderTag(placeholder)}
                           </code>
                           <span className="text-sm text-gray-700">{placeholder.label}</span>
                         </div>
@@ -133,6 +143,14 @@ export function PlaceholderPicker({ onInsert, compact = false }: PlaceholderPick
                         <p className="text-xs text-gray-400 mt-0.5">
                           Example: <span className="italic">{placeholder.example}</span>
                         </p>
+                        {placeholder.itemFields && (
+                          <p className="text-xs text-gray-400 mt-0.5">
+                            Fields:{' '}
+                            <span className="font-mono">
+                              {placeholder.itemFields.map((field) => `{{${field}}}`).join(' ')}
+                            </span>
+                          </p>
+                        )}
                       </div>
                       <button
                         onClick={() => handleCopy(placeholder)}
@@ -166,12 +184,12 @@ export function PlaceholderPicker({ onInsert, compact = false }: PlaceholderPick
  */
 export function PlaceholderHighlight({ text }: { text: string }) {
   // Replace placeholders with styled spans
-  const parts = text.split(/(\{\{[A-Z_]+\}\})/g);
+  const parts = text.split(/(\{\{[^{}]+\}\})/g);
 
   return (
     <span>
       {parts.map((part, index) => {
-        if (part.match(/^\{\{[A-Z_]+\}\}$/)) {
+        if (part.match(/^\{\{[^{}]+\}\}$/)) {
           return (
             <span
               key={index}
@@ -203,15 +221,31 @@ export function PlaceholderValidation({ template }: { template: string }) {
           <span>All {validation.usedPlaceholders.length} placeholders are valid</span>
         </div>
       ) : (
-        <div className="text-red-600 text-sm">
-          <p className="font-medium">Unknown placeholders found:</p>
-          <ul className="list-disc list-inside mt-1">
-            {validation.unknownPlaceholders.map((p) => (
-              <li key={p} className="font-mono">
-                {`{{${p}}}`}
-              </li>
-            ))}
-          </ul>
+        <div className="text-red-600 text-sm space-y-2">
+          {validation.errors.length > 0 && (
+            <div>
+              <p className="font-medium">Template errors:</p>
+              <ul className="list-disc list-inside mt-1">
+                {validation.errors.map((e, index) => (
+                  <li key={index}>
+                    <span className="font-medium">Line {e.line}:</span> {e.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {validation.unknownPlaceholders.length > 0 && (
+            <div>
+              <p className="font-medium">Unknown placeholders found:</p>
+              <ul className="list-disc list-inside mt-1">
+                {validation.unknownPlaceholders.map((p) => (
+                  <li key={p} className="font-mono">
+                    {`{{${p}}}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
     </div>
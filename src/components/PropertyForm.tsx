@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { Property, PropertyType, Business, PROPERTY_TYPE_OPTIONS } from '../types';
+import { Property, PropertyType, Business, Currency, PROPERTY_TYPE_OPTIONS } from '../types';
 import { businessService } from '../services/businessService';
+import { currencyService } from '../services/currencyService';
 import { useAuth } from '../context/AuthContext';
 import { validators, validate, getFieldError, getInputClassName, ValidationError } from '../utils/formValidation';
 import { FieldError } from './FieldError';
@@ -20,6 +21,7 @@ const propertyTypes = PROPERTY_TYPE_OPTIONS;
 export function PropertyForm({ property, onSubmit, onCancel, isSubmitting }: PropertyFormProps) {
   const { currentBusiness } = useAuth();
   const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
   const [isLoadingBusinesses, setIsLoadingBusinesses] = useState(true);
   const [errors, setErrors] = useState<ValidationError[]>([]);
   const [touched, setTouched] = useState<Record<string, boolean>>({});
@@ -43,10 +45,12 @@ export function PropertyForm({ property, onSubmit, onCancel, isSubmitting }: Pro
     purchase_date: property?.purchase_date || '',
     current_value_cents: property?.current_value_cents ? (property.current_value_cents / 100).toString() : '',
     notes: property?.notes || '',
+    currency_code: property?.currency_code || '',
   });
 
   useEffect(() => {
     loadBusinesses();
+    currencyService.getActiveCurrencies().then(setCurrencies).catch(() => setCurrencies([]));
   }, []);
 
   const loadBusinesses = async () => {
@@ -130,6 +134,7 @@ export function PropertyForm({ property, onSubmit, onCancel, isSubmitting }: Pro
       purchase_date: formData.purchase_date || undefined,
       current_value_cents: formData.current_value_cents ? Math.round(parseFloat(formData.current_value_cents) * 100) : undefined,
       notes: formData.notes || undefined,
+      currency_code: formData.currency_code || null,
     };
 
     await onSubmit(data);
@@ -433,6 +438,29 @@ export function PropertyForm({ property, onSubmit, onCancel, isSubmitting }: Pro
               />
             </div>
 
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Currency
+              </label>
+              <select
+                id="currency_code"
+                name="currency_code"
+                value={formData.currency_code}
+                onChange={(e) => setFormData({ ...formData, currency_code: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Business base currency</option>
+                {currencies.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code} - {currency.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Rent, fees and expenses for this property are recorded in this currency and converted to the business base currency in the books. Changing it only affects new transactions.
+              </p>
+            </div>
+
             <div className="col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Notes
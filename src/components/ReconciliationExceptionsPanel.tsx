@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import {
+  paymentReconciliationService,
+  ReconciliationException,
+  ReconciliationExceptionType,
+} from '../services/paymentReconciliationService';
+import { useToast } from './Toast';
+import { AlertTriangle, RefreshCw, Check, X } from 'lucide-react';
+
+interface ReconciliationExceptionsPanelProps {
+  organizationId: string;
+}
+
+const EXCEPTION_LABELS: Record<ReconciliationExceptionType, string> = {
+  unknown_reference: 'Unknown reference',
+  amount_mismatch: 'Amount mismatch',
+  currency_mismatch: 'Currency mismatch',
+  unconfirmed: 'Not confirmed by gateway',
+  processing_error: 'Processing error',
+};
+
+const formatCents = (cents: number | null, currency: string | null) =>
+  cents === null
+    ? '—'
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(cents / 100);
+
+export function ReconciliationExceptionsPanel({ organizationId }: ReconciliationExceptionsPanelProps) {
+  const toast = useToast();
+  const [exceptions, setExceptions] = useState<ReconciliationException[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    reconcile();
+  }, [organizationId]);
+
+  const reconcile = async () => {
+    setIsLoading(true);
+    try {
+      await paymentReconciliationService.flagUnconfirmedPayments(organizationId);
+    } catch (err) {
+      console.error('Payment reconciliation failed:', err);
+    }
+
+    setExceptions(await paymentReconciliationService.getExceptions(organizationId));
+    setIsLoading(false);
+  };
+
+  const handleClose = async (exception: ReconciliationException, status: 'resolved' | 'ignored') => {
+    const notes = prompt(status === 'resolved' ? 'How was this resolved? (optional)' : 'Reason for ignoring (optional):');
+    if (notes === null) return;
+
+    setBusyId(exception.id);
+    try {
+      await paymentReconciliationService.closeException(exception.id, status, notes);
+      setExceptions(prev => prev.filter(e => e.id !== exception.id));
+    } catch (err: any) {
+      toast.error('Failed to update exception', err?.message || 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isLoading && exceptions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 sm:p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-gray-900">Reconciliation Exceptions</h2>
+          <p className="text-sm text-gray-600">Gateway payments that could not be matched automatically</p>
+        </div>
+        <button
+          onClick={reconcile}
+          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition"
+          title="Refresh"
+        >
+          <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {exceptions.map((exception) => (
+            <div key={exception.id} className="py-4 flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3 min-w-0">
+                <AlertTriangle className="w-5 h-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {EXCEPTION_LABELS[exception.exception_type]}
+                    <span className="ml-2 text-xs font-normal text-gray-500 capitalize">{exception.gateway_name}</span>
+                  </p>
+                  <p className="text-sm text-gray-600 font-mono truncate">
+                    {exception.external_transaction_id || 'No reference'}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Expected {formatCents(exception.expected_amount, exception.currency)}
+                    {' · '}
+                    Received {formatCents(exception.received_amount, exception.currency)}
+                  </p>
+                  {exception.details?.error && (
+                    <p className="text-xs text-red-600 mt-1 break-words">{exception.details.error}</p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">{new Date(exception.created_at).toLocaleString()}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleClose(exception, 'resolved')}
+                  disabled={busyId === exception.id}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition disabled:opacity-50"
+                >
+                  <Check size={14} />
+                  Resolve
+                </button>
+                <button
+                  onClick={() => handleClose(exception, 'ignored')}
+                  disabled={busyId === exception.id}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+                  title="Ignore"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import { useState, useEffect } from 'react';
+import {
+  tenantLedgerService,
+  TENANT_LEDGER_ENTRY_TYPE_LABELS,
+} from '../services/tenantLedgerService';
+import { TenantLedger, TenantLedgerManualEntryType } from '../types';
+import { useToast } from './Toast';
+import { Download, Mail, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+
+interface TenantLedgerPanelProps {
+  tenantId: string;
+  businessName: string;
+  // Managers can add and delete manual entries and send statements
+  manage?: {
+    businessId: string;
+    userId: string;
+  };
+}
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(cents / 100);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-CA', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+export function TenantLedgerPanel({ tenantId, businessName, manage }: TenantLedgerPanelProps) {
+  const toast = useToast();
+  const [ledger, setLedger] = useState<TenantLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [startDate, setStartDate] = useState(`${new Date().getFullYear()}-01-01`);
+  const [endDate, setEndDate] = useState(today());
+  const [showEntryForm, setShowEntryForm] = useState(false);
+  const [entryType, setEntryType] = useState<TenantLedgerManualEntryType>('charge');
+  const [entryDate, setEntryDate] = useState(today());
+  const [entryDescription, setEntryDescription] = useState('');
+  const [entryAmount, setEntryAmount] = useState('');
+  const [adjustmentReduces, setAdjustmentReduces] = useState(false);
+
+  useEffect(() => {
+    loadLedger();
+  }, [tenantId, startDate, endDate]);
+
+  const loadLedger = async () => {
+    setIsLoading(true);
+    try {
+      setLedger(await tenantLedgerService.getLedger(tenantId, {
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+      }));
+    } catch (err: any) {
+      toast.error('Failed to load ledger', err?.message || 'Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!ledger) return;
+    setIsBusy(true);
+    try {
+      await tenantLedgerService.downloadStatement(ledger, businessName);
+    } catch (err: any) {
+      toast.error('Failed to generate statement', err?.message || 'Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!ledger || !manage) return;
+    setIsBusy(true);
+    try {
+      const emailed = await tenantLedgerService.sendStatement(ledger, manage.userId, businessName);
+      if (emailed) {
+        toast.success('Statement sent', `Emailed to ${ledger.tenant_email} and added to the tenant's documents.`);
+      } else {
+        toast.error('Statement shared but not emailed', 'It is in the tenant\'s documents; the email could not be sent.');
+      }
+    } catch (err: any) {
+      toast.error('Failed to send statement', err?.message || 'Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manage) return;
+
+    const cents = Math.round(parseFloat(entryAmount) * 100);
+    if (!cents || cents <= 0) {
+      toast.error('Invalid amount', 'Enter an amount greater than zero.');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await tenantLedgerService.addEntry({
+        businessId: manage.businessId,
+        tenantId,
+        entryType,
+        entryDate,
+        description: entryDescription,
+        amountCents: entryType === 'adjustment' && adjustmentReduces ? -cents : cents,
+      }, manage.userId);
+      setShowEntryForm(false);
+      setEntryDescription('');
+      setEntryAmount('');
+      await loadLedger();
+    } catch (err: any) {
+      toast.error('Failed to add entry', err?.message || 'Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDeleteEntry = async (entryId: string) => {
+    if (!confirm('Delete this ledger entry?')) return;
+
+    setIsBusy(true);
+    try {
+      await tenantLedgerService.deleteEntry(entryId);
+      await loadLedger();
+    } catch (err: any) {
+      toast.error('Failed to delete entry', err?.message || 'Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">From</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">To</label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <button
+          onClick={loadLedger}
+          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition"
+          title="Refresh"
+        >
+          <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+        <div className="flex flex-wrap gap-2 ml-auto">
+          {manage && (
+            <button
+              onClick={() => setShowEntryForm(!showEntryForm)}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+            >
+              <Plus size={16} />
+              Add Entry
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={!ledger || isBusy}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+          >
+            <Download size={16} />
+            Statement
+          </button>
+          {manage && (
+            <button
+              onClick={handleSend}
+              disabled={!ledger || isBusy}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              <Mail size={16} />
+              Email Statement
+            </button>
+          )}
+        </div>
+      </div>
+
+      {manage && showEntryForm && (
+        <form onSubmit={handleAddEntry} className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-900">New Ledger Entry</h4>
+            <button
+              type="button"
+              onClick={() => setShowEntryForm(false)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X size={18} />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <select
+              value={entryType}
+              onChange={(e) => setEntryType(e.target.value as TenantLedgerManualEntryType)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="charge">Charge</option>
+              <option value="credit">Credit</option>
+              <option value="adjustment">Adjustment</option>
+            </select>
+            <input
+              type="date"
+              value={entryDate}
+              onChange={(e) => setEntryDate(e.target.value)}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              placeholder="Amount"
+              value={entryAmount}
+              onChange={(e) => setEntryAmount(e.target.value)}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <input
+            type="text"
+            placeholder="Description (shown on the tenant's statement)"
+            value={entryDescription}
+            onChange={(e) => setEntryDescription(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          {entryType === 'adjustment' && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={adjustmentReduces}
+                onChange={(e) => setAdjustmentReduces(e.target.checked)}
+              />
+              Reduces the balance owed
+            </label>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              Add Entry
+            </button>
+          </div>
+        </form>
+      )}
+
+      {ledger && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-600">Opening Balance</p>
+            <p className="font-semibold text-gray-900">{formatCents(ledger.opening_balance_cents)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-600">Charges</p>
+            <p className="font-semibold text-gray-900">{formatCents(ledger.total_charges_cents)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-600">Payments &amp; Credits</p>
+            <p className="font-semibold text-gray-900">
+              {formatCents(ledger.total_payments_cents + ledger.total_credits_cents)}
+            </p>
+          </div>
+          <div className={`p-3 rounded-lg ${ledger.closing_balance_cents > 0 ? 'bg-amber-50' : 'bg-green-50'}`}>
+            <p className="text-xs text-gray-600">
+              {ledger.closing_balance_cents < 0 ? 'Credit Balance' : 'Balance Due'}
+            </p>
+            <p className={`font-semibold ${ledger.closing_balance_cents > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+              {formatCents(Math.abs(ledger.closing_balance_cents))}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isLoading && !ledger ? (
+        <div className="py-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : ledger && (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">Date</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">Description</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">Charges</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">Credits</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">Balance</th>
+                {manage && <th className="px-3 py-2"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {ledger.start_date && (
+                <tr className="bg-gray-50/50">
+                  <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{formatDate(ledger.start_date)}</td>
+                  <td className="px-3 py-2 text-gray-600 italic">Opening balance</td>
+                  <td></td>
+                  <td></td>
+                  <td className="px-3 py-2 text-right font-medium text-gray-900">{formatCents(ledger.opening_balance_cents)}</td>
+                  {manage && <td></td>}
+                </tr>
+              )}
+              {ledger.lines.length === 0 ? (
+                <tr>
+                  <td colSpan={manage ? 6 : 5} className="px-3 py-6 text-center text-gray-500">
+                    No activity in this period
+                  </td>
+                </tr>
+              ) : (
+                ledger.lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{formatDate(line.entry_date)}</td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {line.description}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {TENANT_LEDGER_ENTRY_TYPE_LABELS[line.entry_type]}
+                        {line.reference && ` · ${line.reference}`}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">
+                      {line.amount_cents > 0 ? formatCents(line.amount_cents) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right text-green-700">
+                      {line.amount_cents < 0 ? formatCents(-line.amount_cents) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900">{formatCents(line.balance_cents)}</td>
+                    {manage && (
+                      <td className="px-3 py-2 text-right">
+                        {line.source === 'manual' && (
+                          <button
+                            onClick={() => handleDeleteEntry(line.source_id)}
+                            disabled={isBusy}
+                            className="text-gray-400 hover:text-red-600 transition"
+                            title="Delete entry"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
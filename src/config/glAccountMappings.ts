@@ -12,7 +12,14 @@
  * - 5000-6999: Expenses
  */
 
-import { ExpenseCategory, PaymentType } from '../types';
+import {
+  AccountingMethod,
+  DepositDeductionCategory,
+  ExpenseCategory,
+  LeaseRecurringChargeType,
+  MaintenanceCategory,
+  PaymentType,
+} from '../types';
 
 // ========================================
 // Account Number Constants
@@ -61,6 +68,8 @@ export const GL_ACCOUNTS = {
   DEPOSIT_FORFEITURES: '4100',
   INTEREST_INCOME: '4510',
   MISC_INCOME: '4520',
+  REALIZED_FX_GAIN_LOSS: '4530',
+  UNREALIZED_FX_GAIN_LOSS: '4540',
 
   // Expenses (5000-6999)
   REPAIRS_MAINTENANCE: '5100',
@@ -310,6 +319,97 @@ export const SPECIAL_MAPPINGS = {
   },
 };
 
+// ========================================
+// Security Deposit Mappings
+// ========================================
+
+/**
+ * Trust liability account per deposit type. Deposits are held in
+ * GL_ACCOUNTS.SECURITY_DEPOSIT_BANK.
+ */
+export const DEPOSIT_LIABILITY_ACCOUNTS = {
+  security: GL_ACCOUNTS.TENANT_SECURITY_DEPOSITS,
+  pet: GL_ACCOUNTS.PET_DEPOSITS,
+} as const;
+
+/**
+ * Interest credited to tenants on deposits
+ */
+export const DEPOSIT_INTEREST_EXPENSE_ACCOUNT = GL_ACCOUNTS.MISC_EXPENSE;
+
+/**
+ * Account credited for each move-out deduction category. Unpaid rent and
+ * late fees settle the receivable under accrual accounting and are income
+ * under cash accounting.
+ */
+export const DEPOSIT_DEDUCTION_MAPPINGS: Record<DepositDeductionCategory, Record<AccountingMethod, string>> = {
+  damage: { cash: GL_ACCOUNTS.REPAIRS_MAINTENANCE, accrual: GL_ACCOUNTS.REPAIRS_MAINTENANCE },
+  cleaning: { cash: GL_ACCOUNTS.CLEANING_JANITORIAL, accrual: GL_ACCOUNTS.CLEANING_JANITORIAL },
+  unpaid_rent: { cash: GL_ACCOUNTS.RENTAL_INCOME, accrual: GL_ACCOUNTS.RENT_RECEIVABLE },
+  late_fee: { cash: GL_ACCOUNTS.LATE_FEE_INCOME, accrual: GL_ACCOUNTS.OTHER_RECEIVABLES },
+  utilities: { cash: GL_ACCOUNTS.UTILITY_REIMBURSEMENT, accrual: GL_ACCOUNTS.UTILITY_REIMBURSEMENT },
+  other: { cash: GL_ACCOUNTS.DEPOSIT_FORFEITURES, accrual: GL_ACCOUNTS.DEPOSIT_FORFEITURES },
+};
+
+// ========================================
+// Accrual Mappings
+// ========================================
+
+/**
+ * Receivable a payment settles under accrual accounting, for payment types
+ * that are charged before they are paid. Other payment types post the same
+ * way under both methods.
+ */
+export const ACCRUAL_PAYMENT_RECEIVABLES: Partial<Record<PaymentType, string>> = {
+  rent: GL_ACCOUNTS.RENT_RECEIVABLE,
+  utility: GL_ACCOUNTS.RENT_RECEIVABLE,
+  other: GL_ACCOUNTS.RENT_RECEIVABLE,
+  late_fee: GL_ACCOUNTS.OTHER_RECEIVABLES,
+};
+
+/**
+ * Income account for a payment schedule row accrued on its due date, by
+ * the row's payment type (rent or a recurring charge type)
+ */
+export const SCHEDULE_CHARGE_ACCOUNTS: Record<'rent' | LeaseRecurringChargeType, string> = {
+  rent: GL_ACCOUNTS.RENTAL_INCOME,
+  parking: GL_ACCOUNTS.PARKING_INCOME,
+  storage: GL_ACCOUNTS.STORAGE_INCOME,
+  utilities: GL_ACCOUNTS.UTILITY_REIMBURSEMENT,
+  pet_rent: GL_ACCOUNTS.PET_FEE_INCOME,
+  other: GL_ACCOUNTS.MISC_INCOME,
+};
+
+/**
+ * Late fee accrued when assessed
+ */
+export const LATE_FEE_ACCRUAL_MAPPING: GLMapping = {
+  debit: GL_ACCOUNTS.OTHER_RECEIVABLES,
+  credit: GL_ACCOUNTS.LATE_FEE_INCOME,
+  descriptionTemplate: 'Late fee assessed - {tenant} - {unit}',
+};
+
+// ========================================
+// Accounts Payable Mappings
+// ========================================
+
+/**
+ * Default expense account for a bill raised from a maintenance request,
+ * used when the vendor has no default expense account
+ */
+export const MAINTENANCE_CATEGORY_ACCOUNTS: Record<MaintenanceCategory, string> = {
+  plumbing: GL_ACCOUNTS.PLUMBING,
+  electrical: GL_ACCOUNTS.ELECTRICAL,
+  hvac: GL_ACCOUNTS.HVAC,
+  appliance: GL_ACCOUNTS.APPLIANCE_REPAIR,
+  structural: GL_ACCOUNTS.GENERAL_REPAIRS,
+  pest_control: GL_ACCOUNTS.PEST_CONTROL,
+  landscaping: GL_ACCOUNTS.LANDSCAPING,
+  cleaning: GL_ACCOUNTS.CLEANING_JANITORIAL,
+  security: GL_ACCOUNTS.SECURITY,
+  other: GL_ACCOUNTS.REPAIRS_MAINTENANCE,
+};
+
 // ========================================
 // Utility Functions
 // ========================================
@@ -1,16 +1,23 @@
 import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
-import { FileText, CheckCircle, Download, AlertCircle, Loader } from 'lucide-react';
-import { agreementService, LeaseAgreement, AgreementSignature } from '../services/agreementService';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { FileText, CheckCircle, Clock, Download, AlertCircle, Loader, ShieldCheck } from 'lucide-react';
+import {
+  agreementService,
+  AgreementSigningSession,
+  AGREEMENT_SIGNER_ROLE_LABELS,
+} from '../services/agreementService';
 import { DigitalSignature } from '../components/DigitalSignature';
+import { AgreementHistory } from '../components/AgreementHistory';
 import { pdfGenerationService } from '../services/pdfGenerationService';
 import { useToast } from '../components/Toast';
 
 export default function AgreementSigning() {
   const { agreementId } = useParams<{ agreementId: string }>();
+  const [searchParams] = useSearchParams();
+  // Each signer gets their own link; without one the signer is matched by login
+  const signingToken = searchParams.get('signer') || undefined;
   const toast = useToast();
-  const [agreement, setAgreement] = useState<LeaseAgreement | null>(null);
-  const [signatures, setSignatures] = useState<AgreementSignature[]>([]);
+  const [session, setSession] = useState<AgreementSigningSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [showSignatureModal, setShowSignatureModal] = useState(false);
   // Note: signing state is managed but not currently displayed to user - could add loading state in future
@@ -18,23 +25,14 @@ export default function AgreementSigning() {
 
   useEffect(() => {
     loadAgreement();
-  }, [agreementId]);
+  }, [agreementId, signingToken]);
 
   const loadAgreement = async () => {
     try {
       setLoading(true);
-      // Use getAgreementForSigning which allows unauthenticated access for signing
-      const [agreementData, signaturesData] = await Promise.all([
-        agreementService.getAgreementForSigning(agreementId!),
-        agreementService.getSignatures(agreementId!),
-      ]);
-      setAgreement(agreementData);
-      setSignatures(signaturesData);
-
-      if (agreementData.status === 'sent') {
-        await agreementService.markAgreementViewed(agreementId!);
-        setAgreement(prev => prev ? { ...prev, status: 'viewed' } : null);
-      }
+      // The signing session allows unauthenticated access with a signing link
+      // and records the signer's first view
+      setSession(await agreementService.getSigningSession(agreementId!, signingToken));
     } catch (error) {
       // SECURITY: Don't expose error details to users
       if (import.meta.env.DEV) console.error('Error loading agreement:', error);
@@ -44,15 +42,31 @@ export default function AgreementSigning() {
     }
   };
 
+  const agreement = session?.agreement ?? null;
+  const signer = session?.signer ?? null;
+  const signatures = session?.signatures ?? [];
+
   const handleSign = async (signatureData: string, method: 'digital' | 'typed') => {
     try {
       setSigning(true);
-      await agreementService.signAgreement(agreementId!, 'tenant', signatureData, method);
+      await agreementService.signAsSigner(
+        agreementId!,
+        signingToken,
+        signatureData,
+        method,
+        agreement?.final_content ?? ''
+      );
       setShowSignatureModal(false);
       loadAgreement();
-    } catch (error) {
+    } catch (error: any) {
       if (import.meta.env.DEV) console.error('Error signing agreement:', error);
-      toast.error('Failed to sign agreement', 'Please try again or contact support.');
+      if (error?.message?.includes('changed after it was opened')) {
+        toast.error('Agreement was changed', 'Reload the page and review the agreement again before signing.');
+      } else if (error?.message?.includes('must sign first')) {
+        toast.error('Not your turn yet', 'Other parties need to sign before you.');
+      } else {
+        toast.error('Failed to sign agreement', 'Please try again or contact support.');
+      }
     } finally {
       setSigning(false);
     }
@@ -61,7 +75,11 @@ export default function AgreementSigning() {
   const handleDownloadPDF = async () => {
     if (!agreement) return;
     try {
-      await pdfGenerationService.generateAgreementPDF(agreement);
+      if (agreement.status === 'executed') {
+        await agreementService.downloadSignedPdf(agreement, signingToken);
+      } else {
+        await pdfGenerationService.generateAgreementPDF(agreement);
+      }
     } catch (error) {
       if (import.meta.env.DEV) console.error('Error generating PDF:', error);
       toast.error('Failed to generate PDF', 'Please try again.');
@@ -103,9 +121,10 @@ export default function AgreementSigning() {
     );
   }
 
-  const isSigned = agreement.tenant_signed;
-  const isFullyExecuted = agreement.landlord_signed && agreement.tenant_signed;
-  const canSign = !isSigned && ['sent', 'viewed'].includes(agreement.status);
+  const isSigned = !!signer?.signed_at;
+  const isFullyExecuted = agreement.status === 'executed';
+  const canSign = !!signer && !isSigned && !signer.waiting_on
+    && ['sent', 'viewed', 'signed'].includes(agreement.status);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -117,23 +136,38 @@ export default function AgreementSigning() {
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">Lease Agreement</h1>
                 <p className="text-sm text-gray-600">
-                  {isFullyExecuted ? 'Fully Executed' : isSigned ? 'Awaiting Landlord Signature' : 'Ready for Your Signature'}
+                  {isFullyExecuted
+                    ? 'Fully Executed'
+                    : isSigned || !signer
+                      ? 'Awaiting Signatures'
+                      : signer.waiting_on
+                        ? `Awaiting ${signer.waiting_on}`
+                        : 'Ready for Your Signature'}
                 </p>
               </div>
             </div>
             <div className="flex items-center gap-3">
-              {(isSigned || isFullyExecuted) && (
+              {isSigned && (
                 <div className="flex items-center gap-2 text-green-600">
                   <CheckCircle className="w-5 h-5" />
                   <span className="text-sm font-medium">You Signed</span>
                 </div>
               )}
+              {signatures.length > 0 && (
+                <Link
+                  to={`/agreement/${agreement.id}/verify`}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 flex items-center gap-2"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  Verify
+                </Link>
+              )}
               <button
                 onClick={handleDownloadPDF}
                 className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 flex items-center gap-2"
               >
                 <Download className="w-4 h-4" />
-                Download PDF
+                {isFullyExecuted ? 'Download Signed PDF' : 'Download PDF'}
               </button>
             </div>
           </div>
@@ -148,7 +182,7 @@ export default function AgreementSigning() {
                 <FileText className="w-6 h-6 text-blue-600" />
               </div>
               <div className="flex-1">
-                <h3 className="text-lg font-semibold text-blue-900 mb-2">Action Required: Sign Your Lease Agreement</h3>
+                <h3 className="text-lg font-semibold text-blue-900 mb-2">Action Required: Sign Your Lease {agreement.parent_agreement_id ? 'Amendment' : 'Agreement'}</h3>
                 <p className="text-blue-800 mb-4">
                   Please review the agreement below carefully. Once you're ready, click the "Sign Agreement" button to provide your electronic signature.
                 </p>
@@ -169,6 +203,54 @@ export default function AgreementSigning() {
           </div>
         )}
 
+        {signer && !isSigned && signer.waiting_on && !isFullyExecuted && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 mb-8">
+            <div className="flex items-start gap-4">
+              <Clock className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+              <div>
+                <h3 className="text-lg font-semibold text-yellow-900 mb-2">Waiting for Other Signers</h3>
+                <p className="text-yellow-800">
+                  This agreement is signed in order. {signer.waiting_on} must sign before you.
+                  You will receive an email when it is your turn.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {session && session.signers.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6 mb-8">
+            <h3 className="text-sm font-semibold text-gray-700 mb-4">Signing Progress</h3>
+            <div className="space-y-2">
+              {session.signers.map((party) => (
+                <div key={party.id} className="flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium text-gray-900">{party.name}</span>
+                    <span className="text-gray-500">
+                      {' '}&middot; {AGREEMENT_SIGNER_ROLE_LABELS[party.role]}
+                      {!party.is_required && ' (optional)'}
+                    </span>
+                    {party.id === signer?.id && <span className="text-blue-600"> &middot; You</span>}
+                  </div>
+                  {party.signed_at ? (
+                    <div className="flex items-center gap-1 text-green-600 flex-shrink-0">
+                      <CheckCircle className="w-4 h-4" />
+                      Signed {formatDate(party.signed_at)}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1 text-gray-500 flex-shrink-0">
+                      <Clock className="w-4 h-4" />
+                      {party.viewed_at ? 'Viewed' : 'Pending'}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <AgreementHistory agreementId={agreementId!} signingToken={signingToken} asCard />
+
         {isFullyExecuted && (
           <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-8">
             <div className="flex items-start gap-4">
@@ -225,7 +307,7 @@ export default function AgreementSigning() {
             <div className="mb-8 pb-8 border-b border-gray-200">
               <h3 className="text-sm font-semibold text-gray-700 mb-3">Lease Terms</h3>
               <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
-                <div><span className="font-medium">Start Date:</span> {formatDate(agreement.start_date)}</div>
+                <div><span className="font-medium">{agreement.parent_agreement_id ? 'Effective Date' : 'Start Date'}:</span> {formatDate(agreement.start_date)}</div>
                 <div><span className="font-medium">End Date:</span> {formatDate(agreement.end_date)}</div>
                 <div><span className="font-medium">Rent Amount:</span> {formatCurrency(agreement.rent_amount)}</div>
                 <div><span className="font-medium">Payment Frequency:</span> {agreement.payment_frequency}</div>
@@ -256,7 +338,7 @@ export default function AgreementSigning() {
                       <div className="flex items-start justify-between mb-3">
                         <div>
                           <div className="font-medium text-gray-900">{signature.signer_name}</div>
-                          <div className="text-sm text-gray-600">{signature.signer_type}</div>
+                          <div className="text-sm text-gray-600">{AGREEMENT_SIGNER_ROLE_LABELS[signature.signer_type] ?? signature.signer_type}</div>
                         </div>
                         <div className="flex items-center gap-2 text-green-600">
                           <CheckCircle className="w-5 h-5" />
@@ -269,13 +351,16 @@ export default function AgreementSigning() {
                           alt={`${signature.signer_name}'s signature`}
                           className="h-20 border-b border-gray-300"
                         />
-                      ) : (
+                      ) : signature.signature_data ? (
                         <div className="text-3xl font-serif italic border-b border-gray-300 py-2">
                           {signature.signature_data}
                         </div>
-                      )}
+                      ) : null}
                       <div className="text-xs text-gray-500 mt-2">
                         Signed on {formatDate(signature.signed_at)}
+                        {signature.content_hash && (
+                          <span className="block font-mono break-all">SHA-256 {signature.content_hash}</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -286,9 +371,9 @@ export default function AgreementSigning() {
         </div>
       </div>
 
-      {showSignatureModal && (
+      {showSignatureModal && signer && (
         <DigitalSignature
-          signerName={agreement.tenant_name}
+          signerName={signer.name}
           onSign={handleSign}
           onCancel={() => setShowSignatureModal(false)}
         />
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { ShieldCheck, ShieldAlert, AlertCircle, CheckCircle, XCircle, Loader, Upload } from 'lucide-react';
+import { agreementService, AgreementIntegrityStatus, AgreementVerification as Verification } from '../services/agreementService';
+import { sha256Hex } from '../utils/crypto';
+
+const STATUS_STYLES: Record<AgreementIntegrityStatus, { box: string; title: string; text: string }> = {
+  intact: {
+    box: 'bg-green-50 border-green-200 text-green-900',
+    title: 'Agreement is intact',
+    text: 'The agreement content is exactly what every party signed.',
+  },
+  tampered: {
+    box: 'bg-red-50 border-red-200 text-red-900',
+    title: 'Agreement has been changed',
+    text: 'The agreement content no longer matches what was signed. Do not rely on the current text; contact the landlord.',
+  },
+  unverified: {
+    box: 'bg-yellow-50 border-yellow-200 text-yellow-900',
+    title: 'Agreement cannot be fully verified',
+    text: 'Some signatures were made before content hashing was recorded, so they cannot be checked.',
+  },
+  unsigned: {
+    box: 'bg-gray-50 border-gray-200 text-gray-900',
+    title: 'Agreement has not been signed',
+    text: 'There are no signatures to verify yet.',
+  },
+};
+
+export default function AgreementVerification() {
+  const { agreementId } = useParams<{ agreementId: string }>();
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checkingFile, setCheckingFile] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadVerification();
+  }, [agreementId]);
+
+  const loadVerification = async () => {
+    try {
+      setLoading(true);
+      setVerification(await agreementService.verifyAgreement(agreementId!));
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Error verifying agreement:', err);
+      setVerification(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setCheckingFile(true);
+      setError(null);
+      const hash = await sha256Hex(new Uint8Array(await file.arrayBuffer()));
+      setVerification(await agreementService.verifyAgreement(agreementId!, hash));
+      setFileName(file.name);
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Error checking document:', err);
+      setError('Failed to check the document. Please try again.');
+    } finally {
+      setCheckingFile(false);
+    }
+  };
+
+  const formatTimestamp = (date: string) => {
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+      timeZoneName: 'short',
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!verification) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Agreement Not Found</h2>
+          <p className="text-gray-600">This agreement does not exist or the link is incorrect.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const style = STATUS_STYLES[verification.status];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="w-8 h-8 text-blue-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Verify Agreement</h1>
+              <p className="text-sm text-gray-600">{verification.agreement_title}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className={`border rounded-lg p-6 ${style.box}`}>
+          <div className="flex items-start gap-4">
+            {verification.status === 'intact' ? (
+              <ShieldCheck className="w-6 h-6 text-green-600 flex-shrink-0" />
+            ) : (
+              <ShieldAlert className="w-6 h-6 flex-shrink-0" />
+            )}
+            <div>
+              <h3 className="text-lg font-semibold mb-1">{style.title}</h3>
+              <p className="text-sm">{style.text}</p>
+              <p className="text-xs mt-2 opacity-75">Checked {formatTimestamp(verification.verified_at)}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">Document</h3>
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2 text-sm">
+            <dt className="font-medium text-gray-600">Agreement ID</dt>
+            <dd className="sm:col-span-2 font-mono text-xs text-gray-900 break-all">{verification.agreement_id}</dd>
+            <dt className="font-medium text-gray-600">Status</dt>
+            <dd className="sm:col-span-2 text-gray-900 capitalize">{verification.agreement_status}</dd>
+            {verification.executed_at && (
+              <>
+                <dt className="font-medium text-gray-600">Executed</dt>
+                <dd className="sm:col-span-2 text-gray-900">{formatTimestamp(verification.executed_at)}</dd>
+              </>
+            )}
+            <dt className="font-medium text-gray-600">Content SHA-256</dt>
+            <dd className="sm:col-span-2 font-mono text-xs text-gray-900 break-all">{verification.content_hash}</dd>
+          </dl>
+        </div>
+
+        {verification.signatures.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-sm font-semibold text-gray-700 mb-4">Signatures</h3>
+            <div className="space-y-3">
+              {verification.signatures.map((signature, index) => (
+                <div key={index} className="border border-gray-200 rounded-lg p-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">{signature.signer_name}</div>
+                    <div className="text-sm text-gray-600 capitalize">{signature.signer_type}</div>
+                    <div className="text-xs text-gray-500 mt-1">Signed {formatTimestamp(signature.signed_at)}</div>
+                    {signature.content_hash && (
+                      <div className="text-xs text-gray-500 font-mono break-all mt-1">{signature.content_hash}</div>
+                    )}
+                  </div>
+                  {signature.matches === true && (
+                    <div className="flex items-center gap-1 text-green-600 text-sm flex-shrink-0">
+                      <CheckCircle className="w-4 h-4" />
+                      Matches
+                    </div>
+                  )}
+                  {signature.matches === false && (
+                    <div className="flex items-center gap-1 text-red-600 text-sm flex-shrink-0">
+                      <XCircle className="w-4 h-4" />
+                      Content changed
+                    </div>
+                  )}
+                  {signature.matches === null && (
+                    <div className="text-yellow-700 text-sm flex-shrink-0">Not recorded</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Check a Signed PDF</h3>
+          {verification.signed_pdf_hash ? (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                Choose a copy of the signed PDF to check that it is the original, unaltered document.
+              </p>
+              <label className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 cursor-pointer">
+                {checkingFile ? <Loader className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Choose PDF
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  className="hidden"
+                  disabled={checkingFile}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {error && (
+                <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">{error}</div>
+              )}
+              {fileName && verification.document_matches === true && (
+                <div className="mt-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded text-sm flex items-center gap-2">
+                  <CheckCircle className="w-4 h-4" />
+                  {fileName} is the original signed PDF.
+                </div>
+              )}
+              {fileName && verification.document_matches === false && (
+                <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm flex items-center gap-2">
+                  <XCircle className="w-4 h-4" />
+                  {fileName} does not match the signed PDF on file. It may have been altered.
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">
+              The signed PDF is created once every party has signed.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
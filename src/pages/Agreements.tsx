@@ -1,9 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { FileText, Plus, Send, CheckCircle, Clock, Eye, Edit, Trash2, Download, Copy } from 'lucide-react';
+import { FileText, Plus, Send, CheckCircle, Clock, Eye, Edit, Trash2, Download, Copy, ShieldCheck, Users, FilePlus, History } from 'lucide-react';
 import { agreementService, AgreementTemplate, LeaseAgreement } from '../services/agreementService';
 import { AgreementBuilder } from '../components/AgreementBuilder';
 import { IssueAgreement } from '../components/IssueAgreement';
+import { AgreementSigners } from '../components/AgreementSigners';
+import { AmendAgreement } from '../components/AmendAgreement';
+import { AgreementHistory } from '../components/AgreementHistory';
 import { pdfGenerationService } from '../services/pdfGenerationService';
 import { EmptyStatePresets } from '../components/EmptyState';
 
@@ -19,6 +22,9 @@ export default function Agreements() {
   const [loading, setLoading] = useState(true);
   const [editingTemplateId, setEditingTemplateId] = useState<string | undefined>();
   const [issueTemplateId, setIssueTemplateId] = useState<string | undefined>();
+  const [expandedSignersId, setExpandedSignersId] = useState<string | null>(null);
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
+  const [amendingAgreement, setAmendingAgreement] = useState<LeaseAgreement | null>(null);
 
   useEffect(() => {
     loadData();
@@ -120,13 +126,26 @@ export default function Agreements() {
 
   const handleDownloadPDF = async (agreement: LeaseAgreement) => {
     try {
-      await pdfGenerationService.generateAgreementPDF(agreement);
+      if (agreement.status === 'executed') {
+        await agreementService.downloadSignedPdf(agreement);
+      } else {
+        await pdfGenerationService.generateAgreementPDF(agreement);
+      }
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF');
     }
   };
 
+  const handleVerifyAgreement = (agreementId: string) => {
+    navigate(`/agreement/${agreementId}/verify`);
+  };
+
+  const handleAmendmentCreated = () => {
+    setAmendingAgreement(null);
+    setViewMode('pending');
+  };
+
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -349,6 +368,7 @@ export default function Agreements() {
                             <span className={`px-2 py-1 rounded text-xs ${
                               agreement.status === 'sent' ? 'bg-yellow-100 text-yellow-800' :
                               agreement.status === 'viewed' ? 'bg-blue-100 text-blue-800' :
+                              agreement.status === 'signed' ? 'bg-green-100 text-green-800' :
                               'bg-gray-100 text-gray-800'
                             }`}>
                               {agreement.status}
@@ -375,6 +395,15 @@ export default function Agreements() {
                           <Eye className="w-4 h-4" />
                           <span className="hidden sm:inline">View</span>
                         </button>
+                        <button
+                          onClick={() => setExpandedSignersId(expandedSignersId === agreement.id ? null : agreement.id)}
+                          className={`px-3 sm:px-4 py-2 rounded flex items-center gap-2 ${
+                            expandedSignersId === agreement.id ? 'bg-gray-200 text-gray-800' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          <Users className="w-4 h-4" />
+                          <span className="hidden sm:inline">Signers</span>
+                        </button>
                         <button
                           onClick={() => handleDownloadPDF(agreement)}
                           className="bg-gray-50 text-gray-600 px-3 sm:px-4 py-2 rounded hover:bg-gray-100"
@@ -383,6 +412,11 @@ export default function Agreements() {
                         </button>
                       </div>
                     </div>
+                    {expandedSignersId === agreement.id && (
+                      <div className="mt-4 pt-2 border-t border-gray-200">
+                        <AgreementSigners agreement={agreement} />
+                      </div>
+                    )}
                   </div>
                 ))
               )}
@@ -445,6 +479,29 @@ export default function Agreements() {
                           <Eye className="w-4 h-4" />
                           <span className="hidden sm:inline">View</span>
                         </button>
+                        <button
+                          onClick={() => setAmendingAgreement(agreement)}
+                          className="bg-gray-50 text-gray-600 px-3 sm:px-4 py-2 rounded hover:bg-gray-100 flex items-center gap-2"
+                        >
+                          <FilePlus className="w-4 h-4" />
+                          <span className="hidden sm:inline">Amend</span>
+                        </button>
+                        <button
+                          onClick={() => setExpandedHistoryId(expandedHistoryId === agreement.id ? null : agreement.id)}
+                          className={`px-3 sm:px-4 py-2 rounded ${
+                            expandedHistoryId === agreement.id ? 'bg-gray-200 text-gray-800' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                          }`}
+                          title="Version history"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleVerifyAgreement(agreement.id)}
+                          className="bg-gray-50 text-gray-600 px-3 sm:px-4 py-2 rounded hover:bg-gray-100"
+                          title="Verify signatures"
+                        >
+                          <ShieldCheck className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleDownloadPDF(agreement)}
                           className="bg-gray-50 text-gray-600 px-3 sm:px-4 py-2 rounded hover:bg-gray-100"
@@ -453,6 +510,11 @@ export default function Agreements() {
                         </button>
                       </div>
                     </div>
+                    {expandedHistoryId === agreement.id && (
+                      <div className="mt-4 pt-2 border-t border-gray-200">
+                        <AgreementHistory agreementId={agreement.id} />
+                      </div>
+                    )}
                   </div>
                 ))
               )}
@@ -460,6 +522,14 @@ export default function Agreements() {
           )}
         </>
       )}
+
+      {amendingAgreement && (
+        <AmendAgreement
+          agreement={amendingAgreement}
+          onComplete={handleAmendmentCreated}
+          onCancel={() => setAmendingAgreement(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,1095 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import {
+  inspectionService,
+  InspectionReport,
+  INSPECTION_RATING_LABELS,
+  INSPECTION_TYPE_LABELS,
+  DEFAULT_INSPECTION_ROOMS,
+} from '../services/inspectionService';
+import { unitService } from '../services/unitService';
+import { propertyService } from '../services/propertyService';
+import { DigitalSignature } from '../components/DigitalSignature';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import {
+  InspectionConditionRating,
+  InspectionTemplate,
+  InspectionTemplateRoom,
+  InspectionType,
+  Unit,
+  UnitInspection,
+  UnitInspectionItem,
+} from '../types';
+import {
+  ClipboardCheck,
+  Plus,
+  ArrowLeft,
+  Camera,
+  Wrench,
+  Download,
+  Share2,
+  PenTool,
+  RotateCcw,
+  Trash2,
+  Settings,
+  CheckCircle,
+  AlertTriangle,
+  AlertCircle,
+  X,
+} from 'lucide-react';
+
+const RATINGS: InspectionConditionRating[] = ['excellent', 'good', 'fair', 'poor', 'damaged', 'not_applicable'];
+
+const RATING_STYLES: Record<InspectionConditionRating, string> = {
+  excellent: 'bg-green-600 text-white border-green-600',
+  good: 'bg-green-100 text-green-800 border-green-300',
+  fair: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  poor: 'bg-orange-100 text-orange-800 border-orange-300',
+  damaged: 'bg-red-600 text-white border-red-600',
+  not_applicable: 'bg-gray-200 text-gray-700 border-gray-300',
+};
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+export function Inspections() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [inspections, setInspections] = useState<UnitInspection[]>([]);
+  const [templates, setTemplates] = useState<InspectionTemplate[]>([]);
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [propertyNames, setPropertyNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [unitFilter, setUnitFilter] = useState(searchParams.get('unitId') || '');
+  const [typeFilter, setTypeFilter] = useState<InspectionType | ''>('');
+
+  const [report, setReport] = useState<InspectionReport | null>(null);
+  const [signingAs, setSigningAs] = useState<'inspector' | 'tenant' | null>(null);
+  const [tenantComments, setTenantComments] = useState('');
+  const [newItem, setNewItem] = useState<{ room: string; name: string } | null>(null);
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [createForm, setCreateForm] = useState({
+    unitId: searchParams.get('unitId') || '',
+    inspectionType: 'move_in' as InspectionType,
+    inspectionDate: today(),
+    templateId: '',
+  });
+
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<{
+    id?: string;
+    name: string;
+    is_default: boolean;
+    rooms: { name: string; items: string }[];
+  } | null>(null);
+
+  const inspection = report?.inspection || null;
+  const isEditable = inspection?.status === 'in_progress';
+
+  useEffect(() => {
+    if (currentBusiness) {
+      loadData();
+    }
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (currentBusiness) {
+      loadInspections();
+    }
+  }, [unitFilter, typeFilter]);
+
+  useEffect(() => {
+    const id = searchParams.get('inspection');
+    if (id && id !== inspection?.id) {
+      openInspection(id);
+    } else if (!id) {
+      setReport(null);
+    }
+  }, [searchParams]);
+
+  const loadData = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      const [unitList, properties, templateList] = await Promise.all([
+        unitService.getBusinessUnits(currentBusiness.id),
+        propertyService.getAllProperties(currentBusiness.id),
+        inspectionService.getTemplates(currentBusiness.id),
+      ]);
+      setUnits(unitList);
+      setPropertyNames(Object.fromEntries((properties || []).map((p: any) => [p.id, p.name])));
+      setTemplates(templateList);
+      await loadInspections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load inspections');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadInspections = async () => {
+    if (!currentBusiness) return;
+    try {
+      setInspections(await inspectionService.getInspections(currentBusiness.id, {
+        unitId: unitFilter || undefined,
+        inspectionType: typeFilter || undefined,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load inspections');
+    }
+  };
+
+  const openInspection = async (inspectionId: string) => {
+    try {
+      setReport(await inspectionService.getReport(inspectionId));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load inspection');
+    }
+  };
+
+  const selectInspection = (inspectionId: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (inspectionId) params.set('inspection', inspectionId);
+    else params.delete('inspection');
+    setSearchParams(params);
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      if (inspection) await openInspection(inspection.id);
+      await loadInspections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!currentBusiness || !userProfile) return;
+    setIsWorking(true);
+    try {
+      const created = await inspectionService.createInspection(currentBusiness.id, userProfile.id, {
+        unitId: createForm.unitId,
+        inspectionType: createForm.inspectionType,
+        inspectionDate: createForm.inspectionDate,
+        templateId: createForm.templateId || undefined,
+      });
+      setShowCreate(false);
+      await loadInspections();
+      selectInspection(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start inspection');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateItem = async (item: UnitInspectionItem, changes: Partial<UnitInspectionItem>) => {
+    if (!report) return;
+    setReport({
+      ...report,
+      inspection: {
+        ...report.inspection,
+        items: report.inspection.items?.map(i => (i.id === item.id ? { ...i, ...changes } : i)),
+      },
+    });
+    try {
+      await inspectionService.updateItem(item.id, changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save item');
+      await openInspection(report.inspection.id);
+    }
+  };
+
+  const handleAddItem = async () => {
+    if (!inspection || !newItem?.name.trim()) return;
+    await runAction(async () => {
+      await inspectionService.addItem(inspection, newItem.room, newItem.name);
+      setNewItem(null);
+    }, 'Failed to add item');
+  };
+
+  const handlePhotoUpload = async (item: UnitInspectionItem, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!inspection || !userProfile || files.length === 0) return;
+    await runAction(async () => {
+      for (const file of files) {
+        await inspectionService.uploadPhoto(inspection.id, item.id, file, userProfile.id);
+      }
+    }, 'Failed to upload photo');
+  };
+
+  const handleSign = async (signatureData: string, method: 'digital' | 'typed') => {
+    if (!inspection || !userProfile) return;
+    const role = signingAs;
+    setSigningAs(null);
+    await runAction(async () => {
+      if (role === 'inspector') {
+        await inspectionService.completeInspection(inspection, userProfile.id, inspectorName, signatureData, method);
+        setNotice('Inspection completed. The tenant can now co-sign.');
+      } else {
+        await inspectionService.recordTenantSignature(inspection.id, tenantName, signatureData, method, tenantComments);
+        setTenantComments('');
+        setNotice('Tenant signature recorded. The inspection is now locked.');
+      }
+    }, 'Failed to record signature');
+  };
+
+  const handleMaintenanceRequest = async (item: UnitInspectionItem) => {
+    if (!inspection) return;
+    await runAction(async () => {
+      await inspectionService.createMaintenanceRequest(inspection, item);
+      setNotice(`Maintenance request created for ${item.room_name}: ${item.item_name}`);
+    }, 'Failed to create maintenance request');
+  };
+
+  const handleShare = async () => {
+    if (!inspection || !userProfile || !currentBusiness) return;
+    await runAction(async () => {
+      await inspectionService.shareReportWithTenant(inspection, userProfile.id, currentBusiness.business_name);
+      setNotice("Report added to the tenant's documents");
+    }, 'Failed to share report');
+  };
+
+  const handleDownload = async () => {
+    if (!inspection || !currentBusiness) return;
+    try {
+      await inspectionService.downloadReport(inspection.id, currentBusiness.business_name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate report');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!inspection) return;
+    if (!window.confirm('Delete this inspection and its photos?')) return;
+    setIsWorking(true);
+    try {
+      await inspectionService.deleteInspection(inspection.id);
+      selectInspection(null);
+      await loadInspections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete inspection');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const editTemplate = (template?: InspectionTemplate) => {
+    const rooms = template?.rooms || DEFAULT_INSPECTION_ROOMS;
+    setEditingTemplate({
+      id: template?.id,
+      name: template?.name || '',
+      is_default: template?.is_default ?? templates.length === 0,
+      rooms: rooms.map(room => ({ name: room.name, items: room.items.join('\n') })),
+    });
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!currentBusiness || !userProfile || !editingTemplate) return;
+    setIsWorking(true);
+    try {
+      const rooms: InspectionTemplateRoom[] = editingTemplate.rooms.map(room => ({
+        name: room.name,
+        items: room.items.split('\n'),
+      }));
+      await inspectionService.saveTemplate(currentBusiness.id, userProfile.id, { ...editingTemplate, rooms });
+      setTemplates(await inspectionService.getTemplates(currentBusiness.id));
+      setEditingTemplate(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: InspectionTemplate) => {
+    if (!currentBusiness || !window.confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await inspectionService.deleteTemplate(template.id);
+      setTemplates(await inspectionService.getTemplates(currentBusiness.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const unitLabel = (unit?: { unit_number: string; property_id?: string; property?: { name: string } }) =>
+    unit ? `${unit.property?.name || propertyNames[unit.property_id || ''] || ''} · Unit ${unit.unit_number}` : '';
+
+  const getStatusBadge = (status: UnitInspection['status']) => {
+    const styles: Record<string, string> = {
+      in_progress: 'bg-yellow-100 text-yellow-700',
+      completed: 'bg-blue-100 text-blue-700',
+      signed: 'bg-green-100 text-green-700',
+    };
+    const labels: Record<string, string> = {
+      in_progress: 'In progress',
+      completed: 'Awaiting tenant',
+      signed: 'Signed',
+    };
+    return (
+      <span className={`px-2 py-1 rounded-full text-xs font-medium ${styles[status]}`}>{labels[status]}</span>
+    );
+  };
+
+  const inspectorName = userProfile ? `${userProfile.first_name || ''} ${userProfile.last_name || ''}`.trim() || 'Inspector' : '';
+  const tenantName = report?.tenantName || 'Tenant';
+  const beforeByItem = new Map((report?.rows || []).filter(r => r.after).map(r => [r.after!.id, r]));
+  const rooms = [...new Set((inspection?.items || []).map(i => i.room_name))];
+  const ratedCount = (inspection?.items || []).filter(i => i.condition_rating).length;
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6">
+          {inspection ? (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-start gap-3 min-w-0">
+                <button onClick={() => selectInspection(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg mt-1">
+                  <ArrowLeft size={20} />
+                </button>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-3">
+                    <h1 className="text-2xl font-bold text-gray-900">
+                      {INSPECTION_TYPE_LABELS[inspection.inspection_type]} Inspection
+                    </h1>
+                    {getStatusBadge(inspection.status)}
+                  </div>
+                  <p className="text-gray-600 mt-1">
+                    {report?.unitLabel} · {formatDate(inspection.inspection_date)}
+                    {report?.tenantName && ` · ${report.tenantName}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={handleDownload}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                >
+                  <Download size={18} />
+                  <span className="hidden sm:inline">{report?.previous ? 'Comparison PDF' : 'Report PDF'}</span>
+                </button>
+                {inspection.status !== 'in_progress' && inspection.tenant_id && (
+                  <button
+                    onClick={handleShare}
+                    disabled={isWorking}
+                    className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                  >
+                    <Share2 size={18} />
+                    <span className="hidden sm:inline">Share with Tenant</span>
+                  </button>
+                )}
+                {inspection.status === 'in_progress' && (
+                  <button
+                    onClick={() => setSigningAs('inspector')}
+                    disabled={isWorking}
+                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    <PenTool size={18} />
+                    <span>Complete & Sign</span>
+                  </button>
+                )}
+                {inspection.status === 'completed' && (
+                  <>
+                    <button
+                      onClick={() => runAction(() => inspectionService.reopenInspection(inspection.id), 'Failed to reopen inspection')}
+                      disabled={isWorking}
+                      className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                    >
+                      <RotateCcw size={18} />
+                      <span className="hidden sm:inline">Reopen</span>
+                    </button>
+                    <button
+                      onClick={() => setSigningAs('tenant')}
+                      disabled={isWorking}
+                      className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                    >
+                      <PenTool size={18} />
+                      <span>Tenant Co-Sign</span>
+                    </button>
+                  </>
+                )}
+                {inspection.status !== 'signed' && (
+                  <button
+                    onClick={handleDelete}
+                    disabled={isWorking}
+                    title="Delete inspection"
+                    className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Inspections</h1>
+                <p className="text-gray-600 mt-1">Move-in and move-out condition reports with photo evidence</p>
+              </div>
+              <div className="flex items-center gap-2 sm:gap-3">
+                <button
+                  onClick={() => setShowTemplates(true)}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                >
+                  <Settings size={18} />
+                  <span className="hidden sm:inline">Templates</span>
+                </button>
+                <button
+                  onClick={() => setShowCreate(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+                >
+                  <Plus size={18} />
+                  <span>New Inspection</span>
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {inspection ? (
+          <>
+            {report?.previous === null && inspection.inspection_type === 'move_out' && (
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2 text-sm text-yellow-800">
+                <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                No completed move-in inspection was found for this lease, so there is nothing to compare against.
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Inspection date</label>
+                  <input
+                    type="date"
+                    value={inspection.inspection_date}
+                    disabled={!isEditable}
+                    onChange={(e) => runAction(
+                      () => inspectionService.updateInspection(inspection.id, { inspection_date: e.target.value }),
+                      'Failed to update inspection'
+                    )}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">General notes</label>
+                  <textarea
+                    defaultValue={inspection.general_notes || ''}
+                    disabled={!isEditable}
+                    rows={2}
+                    onBlur={(e) => e.target.value !== (inspection.general_notes || '') && runAction(
+                      () => inspectionService.updateInspection(inspection.id, { general_notes: e.target.value }),
+                      'Failed to update inspection'
+                    )}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                  />
+                </div>
+                <div className="text-sm text-gray-600 sm:text-right">
+                  <p>{ratedCount} of {inspection.items?.length || 0} items rated</p>
+                  <p>{inspection.photos?.length || 0} photos</p>
+                </div>
+              </div>
+            </div>
+
+            {rooms.map(room => (
+              <div key={room} className="bg-white rounded-lg shadow">
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-gray-900">{room}</h2>
+                  {isEditable && (
+                    <button
+                      onClick={() => setNewItem({ room, name: '' })}
+                      className="text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      + Add item
+                    </button>
+                  )}
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {inspection.items?.filter(item => item.room_name === room).map(item => {
+                    const before = beforeByItem.get(item.id)?.before;
+                    const photos = inspection.photos?.filter(p => p.item_id === item.id) || [];
+                    const beforePhotos = report?.previous?.photos?.filter(p => before && p.item_id === before.id) || [];
+                    return (
+                      <div key={item.id} className={`px-6 py-4 ${beforeByItem.get(item.id)?.deteriorated ? 'bg-red-50' : ''}`}>
+                        <div className="flex flex-col lg:flex-row lg:items-start gap-4">
+                          <div className="lg:w-48 flex-shrink-0">
+                            <p className="font-medium text-gray-900">{item.item_name}</p>
+                            {report?.previous && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                Move-in: {before?.condition_rating ? INSPECTION_RATING_LABELS[before.condition_rating] : 'not inspected'}
+                                {before?.notes && ` · ${before.notes}`}
+                              </p>
+                            )}
+                            {isEditable && (
+                              <button
+                                onClick={() => window.confirm(`Remove ${item.item_name}?`) && runAction(
+                                  () => inspectionService.deleteItem(item.id),
+                                  'Failed to remove item'
+                                )}
+                                className="text-xs text-gray-400 hover:text-red-600 mt-1"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                          <div className="flex-1 space-y-3">
+                            <div className="flex flex-wrap gap-1">
+                              {RATINGS.map(rating => (
+                                <button
+                                  key={rating}
+                                  disabled={!isEditable}
+                                  onClick={() => updateItem(item, {
+                                    condition_rating: rating,
+                                    is_damage: rating === 'damaged' ? true : item.is_damage,
+                                  })}
+                                  className={`px-3 py-1 rounded-full text-xs font-medium border transition ${
+                                    item.condition_rating === rating
+                                      ? RATING_STYLES[rating]
+                                      : 'bg-white text-gray-600 border-gray-300 hover:border-gray-400'
+                                  } disabled:cursor-default`}
+                                >
+                                  {INSPECTION_RATING_LABELS[rating]}
+                                </button>
+                              ))}
+                            </div>
+                            <input
+                              type="text"
+                              defaultValue={item.notes || ''}
+                              disabled={!isEditable}
+                              placeholder="Notes"
+                              onBlur={(e) => e.target.value !== (item.notes || '') && updateItem(item, { notes: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm disabled:bg-gray-50"
+                            />
+                            {(photos.length > 0 || beforePhotos.length > 0 || isEditable) && (
+                              <div className="flex flex-wrap items-center gap-2">
+                                {beforePhotos.map(photo => (
+                                  <a key={photo.id} href={photo.file_url} target="_blank" rel="noopener noreferrer" title="Move-in photo">
+                                    <img src={photo.file_url} alt={photo.file_name} className="w-16 h-16 object-cover rounded border-2 border-gray-300 opacity-75" />
+                                  </a>
+                                ))}
+                                {photos.map(photo => (
+                                  <div key={photo.id} className="relative group">
+                                    <a href={photo.file_url} target="_blank" rel="noopener noreferrer">
+                                      <img src={photo.file_url} alt={photo.file_name} className="w-16 h-16 object-cover rounded border border-gray-200" />
+                                    </a>
+                                    {isEditable && (
+                                      <button
+                                        onClick={() => runAction(() => inspectionService.deletePhoto(photo.id), 'Failed to delete photo')}
+                                        className="absolute -top-2 -right-2 hidden group-hover:flex w-5 h-5 items-center justify-center bg-red-600 text-white rounded-full"
+                                      >
+                                        <X size={12} />
+                                      </button>
+                                    )}
+                                  </div>
+                                ))}
+                                {isEditable && (
+                                  <label className="w-16 h-16 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded text-gray-400 hover:text-blue-600 hover:border-blue-400 cursor-pointer">
+                                    <Camera size={18} />
+                                    <span className="text-[10px]">Add</span>
+                                    <input
+                                      type="file"
+                                      accept="image/*"
+                                      capture="environment"
+                                      multiple
+                                      onChange={(e) => handlePhotoUpload(item, e)}
+                                      className="hidden"
+                                    />
+                                  </label>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                          <div className="lg:w-64 flex-shrink-0 space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={item.is_damage}
+                                disabled={!isEditable}
+                                onChange={(e) => updateItem(item, { is_damage: e.target.checked })}
+                                className="w-4 h-4 text-red-600 border-gray-300 rounded"
+                              />
+                              Damage
+                            </label>
+                            {item.is_damage && (
+                              <>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-gray-500 w-20">Est. cost</span>
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    defaultValue={item.estimated_cost_cents != null ? (item.estimated_cost_cents / 100).toFixed(2) : ''}
+                                    onBlur={(e) => updateItem(item, {
+                                      estimated_cost_cents: e.target.value ? Math.round(parseFloat(e.target.value) * 100) : undefined,
+                                    })}
+                                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                                  />
+                                </div>
+                                {inspection.inspection_type === 'move_out' && (
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-xs text-gray-500 w-20">Charge deposit</span>
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      defaultValue={item.deposit_charge_cents != null ? (item.deposit_charge_cents / 100).toFixed(2) : ''}
+                                      onBlur={(e) => {
+                                        const cents = Math.round(parseFloat(e.target.value) * 100) || 0;
+                                        updateItem(item, { deposit_charge_cents: cents > 0 ? cents : undefined });
+                                      }}
+                                      className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                                    />
+                                  </div>
+                                )}
+                                {item.maintenance_request_id ? (
+                                  <Link to="/maintenance" className="flex items-center gap-1 text-xs text-green-700 hover:underline">
+                                    <CheckCircle size={14} />
+                                    Maintenance request created
+                                  </Link>
+                                ) : (
+                                  <button
+                                    onClick={() => handleMaintenanceRequest(item)}
+                                    disabled={isWorking}
+                                    className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                                  >
+                                    <Wrench size={14} />
+                                    Create maintenance request
+                                  </button>
+                                )}
+                                {item.deposit_charge_cents != null && (
+                                  <p className="text-xs text-gray-500">
+                                    {formatCurrency(item.deposit_charge_cents)} will be suggested as a deduction at deposit disposition
+                                  </p>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {newItem?.room === room && (
+                    <div className="px-6 py-4 flex gap-2">
+                      <input
+                        type="text"
+                        autoFocus
+                        value={newItem.name}
+                        onChange={(e) => setNewItem({ room, name: e.target.value })}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddItem()}
+                        placeholder="Item name"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                      <button
+                        onClick={handleAddItem}
+                        disabled={isWorking || !newItem.name.trim()}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                      <button onClick={() => setNewItem(null)} className="px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm">
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {inspection.status !== 'in_progress' && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Signatures</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                  {[
+                    { label: 'Inspector', name: inspection.inspector_name, data: inspection.inspector_signature, method: inspection.inspector_signature_method, at: inspection.inspector_signed_at },
+                    { label: 'Tenant', name: inspection.tenant_signer_name, data: inspection.tenant_signature, method: inspection.tenant_signature_method, at: inspection.tenant_signed_at },
+                  ].map(signature => (
+                    <div key={signature.label}>
+                      <p className="text-sm text-gray-500 mb-2">{signature.label}</p>
+                      {signature.data ? (
+                        <>
+                          {signature.method === 'digital' ? (
+                            <img src={signature.data} alt={`${signature.label} signature`} className="h-16 border-b border-gray-300" />
+                          ) : (
+                            <p className="text-2xl italic border-b border-gray-300 pb-2" style={{ fontFamily: 'Brush Script MT, cursive' }}>{signature.data}</p>
+                          )}
+                          <p className="text-sm text-gray-700 mt-2">{signature.name}</p>
+                          {signature.at && <p className="text-xs text-gray-500">{new Date(signature.at).toLocaleString('en-CA')}</p>}
+                        </>
+                      ) : (
+                        <p className="text-sm text-gray-400">Not signed yet</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {inspection.tenant_comments && (
+                  <p className="mt-4 text-sm text-gray-700"><strong>Tenant comments:</strong> {inspection.tenant_comments}</p>
+                )}
+                {inspection.status === 'completed' && (
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Tenant comments (optional)</label>
+                    <textarea
+                      value={tenantComments}
+                      onChange={(e) => setTenantComments(e.target.value)}
+                      rows={2}
+                      placeholder="Anything the tenant disagrees with or wants noted"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <select
+                value={unitFilter}
+                onChange={(e) => setUnitFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All units</option>
+                {units.map(unit => (
+                  <option key={unit.id} value={unit.id}>{unitLabel(unit)}</option>
+                ))}
+              </select>
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as InspectionType | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All types</option>
+                {(Object.keys(INSPECTION_TYPE_LABELS) as InspectionType[]).map(type => (
+                  <option key={type} value={type}>{INSPECTION_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            {inspections.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <ClipboardCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Inspections</h3>
+                <p className="text-gray-600">Record the condition of a unit when a tenant moves in, and again when they move out.</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Date</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Type</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Unit</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Tenant</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {inspections.map(item => (
+                      <tr
+                        key={item.id}
+                        onClick={() => selectInspection(item.id)}
+                        className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDate(item.inspection_date)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{INSPECTION_TYPE_LABELS[item.inspection_type]}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{unitLabel(item.unit)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {item.tenant ? `${item.tenant.first_name} ${item.tenant.last_name}` : '-'}
+                        </td>
+                        <td className="px-4 py-3">{getStatusBadge(item.status)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* New Inspection Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">New Inspection</h2>
+              <button onClick={() => setShowCreate(false)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                <select
+                  value={createForm.unitId}
+                  onChange={(e) => setCreateForm({ ...createForm, unitId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Select unit...</option>
+                  {units.map(unit => (
+                    <option key={unit.id} value={unit.id}>{unitLabel(unit)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={createForm.inspectionType}
+                    onChange={(e) => setCreateForm({ ...createForm, inspectionType: e.target.value as InspectionType })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(INSPECTION_TYPE_LABELS) as InspectionType[]).map(type => (
+                      <option key={type} value={type}>{INSPECTION_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                  <input
+                    type="date"
+                    value={createForm.inspectionDate}
+                    onChange={(e) => setCreateForm({ ...createForm, inspectionDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+                <select
+                  value={createForm.templateId}
+                  onChange={(e) => setCreateForm({ ...createForm, templateId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">{templates.some(t => t.is_default) ? 'Default template' : 'Standard checklist'}</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+                {createForm.inspectionType === 'move_out' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Move-out inspections repeat the items of the lease's move-in inspection when there is one.
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button onClick={() => setShowCreate(false)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isWorking || !createForm.unitId || !createForm.inspectionDate}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Start Inspection
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Templates Modal */}
+      {showTemplates && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{editingTemplate ? (editingTemplate.id ? 'Edit Template' : 'New Template') : 'Inspection Templates'}</h2>
+              <button
+                onClick={() => (editingTemplate ? setEditingTemplate(null) : setShowTemplates(false))}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+              >
+                <X size={20} />
+              </button>
+            </div>
+            {editingTemplate ? (
+              <>
+                <div className="p-6 space-y-4">
+                  <div className="flex gap-4 items-end">
+                    <div className="flex-1">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                      <input
+                        type="text"
+                        value={editingTemplate.name}
+                        onChange={(e) => setEditingTemplate({ ...editingTemplate, name: e.target.value })}
+                        placeholder="e.g. 2-bedroom apartment"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                      <input
+                        type="checkbox"
+                        checked={editingTemplate.is_default}
+                        onChange={(e) => setEditingTemplate({ ...editingTemplate, is_default: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      Default
+                    </label>
+                  </div>
+                  <div className="space-y-3">
+                    {editingTemplate.rooms.map((room, index) => (
+                      <div key={index} className="border border-gray-200 rounded-lg p-3">
+                        <div className="flex gap-2 mb-2">
+                          <input
+                            type="text"
+                            value={room.name}
+                            onChange={(e) => setEditingTemplate({
+                              ...editingTemplate,
+                              rooms: editingTemplate.rooms.map((r, i) => (i === index ? { ...r, name: e.target.value } : r)),
+                            })}
+                            placeholder="Room"
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm font-medium"
+                          />
+                          <button
+                            onClick={() => setEditingTemplate({
+                              ...editingTemplate,
+                              rooms: editingTemplate.rooms.filter((_, i) => i !== index),
+                            })}
+                            className="p-2 text-gray-400 hover:text-red-600 rounded"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                        <textarea
+                          value={room.items}
+                          onChange={(e) => setEditingTemplate({
+                            ...editingTemplate,
+                            rooms: editingTemplate.rooms.map((r, i) => (i === index ? { ...r, items: e.target.value } : r)),
+                          })}
+                          rows={4}
+                          placeholder="One item per line"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setEditingTemplate({ ...editingTemplate, rooms: [...editingTemplate.rooms, { name: '', items: '' }] })}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    + Add room
+                  </button>
+                </div>
+                <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+                  <button onClick={() => setEditingTemplate(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveTemplate}
+                    disabled={isWorking}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    Save Template
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="p-6 space-y-3">
+                {templates.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    No templates yet. Inspections use the standard checklist until you create one.
+                  </p>
+                )}
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {template.name}
+                        {template.is_default && <span className="ml-2 text-xs text-blue-600">Default</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {template.rooms.length} rooms · {template.rooms.reduce((sum, r) => sum + r.items.length, 0)} items
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <button onClick={() => editTemplate(template)} className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDeleteTemplate(template)} className="p-2 text-gray-400 hover:text-red-600 rounded">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  onClick={() => editTemplate()}
+                  className="w-full flex items-center justify-center gap-2 p-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-600"
+                >
+                  <Plus size={18} />
+                  New Template
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {signingAs && (
+        <DigitalSignature
+          signerName={signingAs === 'inspector' ? inspectorName : tenantName}
+          title={signingAs === 'inspector' ? 'Sign as Inspector' : 'Tenant Co-Signature'}
+          acknowledgement={
+            signingAs === 'inspector'
+              ? 'confirm that this inspection report accurately records the condition of the unit on the inspection date.'
+              : 'have reviewed this inspection report and agree that it records the condition of the unit, subject to any comments noted. I acknowledge that my electronic signature has the same effect as a handwritten signature.'
+          }
+          onSign={handleSign}
+          onCancel={() => setSigningAs(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,11 @@ import { useAuth } from '../context/AuthContext';
 import { maintenanceService, MaintenanceRequest } from '../services/maintenanceService';
 import { propertyService } from '../services/propertyService';
 import { tenantService } from '../services/tenantService';
+import { vendorService } from '../services/vendorService';
+import { accountsPayableService } from '../services/accountsPayableService';
+import { Vendor, VendorBill } from '../types';
 import { EmptyStatePresets } from '../components/EmptyState';
-import { Wrench, Plus, AlertCircle, Clock, CheckCircle, X, Calendar, Save } from 'lucide-react';
+import { Wrench, Plus, AlertCircle, Clock, CheckCircle, X, Calendar, Save, Receipt } from 'lucide-react';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { ExportButton } from '../components/ExportButton';
 import { exportMaintenanceRequests } from '../utils/exportHelpers';
@@ -12,10 +15,14 @@ import { ExportFormat } from '../services/dataExportService';
 import { SlidePanel } from '../components/SlidePanel';
 
 export function Maintenance() {
-  const { currentBusiness } = useAuth();
+  const { currentBusiness, userProfile } = useAuth();
   const [requests, setRequests] = useState<MaintenanceRequest[]>([]);
   const [properties, setProperties] = useState<any[]>([]);
   const [tenants, setTenants] = useState<any[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [bills, setBills] = useState<Map<string, VendorBill>>(new Map());
+  const [billingId, setBillingId] = useState<string | null>(null);
+  const [billError, setBillError] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingRequest, setEditingRequest] = useState<MaintenanceRequest | null>(null);
@@ -31,14 +38,19 @@ export function Maintenance() {
     if (!currentBusiness) return;
     setIsLoading(true);
     try {
-      const [requestsData, propertiesData, tenantsData] = await Promise.all([
+      const [requestsData, propertiesData, tenantsData, vendorsData] = await Promise.all([
         maintenanceService.getRequests(currentBusiness.id),
         propertyService.getAllProperties(currentBusiness.id),
         tenantService.getAllTenants(currentBusiness.id),
+        vendorService.getVendors(currentBusiness.id, { isActive: true }).catch(() => []),
       ]);
       setRequests(requestsData);
       setProperties(propertiesData);
       setTenants(tenantsData);
+      setVendors(vendorsData);
+      setBills(await accountsPayableService.getMaintenanceBills(
+        requestsData.filter(r => r.vendor_id).map(r => r.id)
+      ).catch(() => new Map()));
     } catch (err) {
       console.error('Failed to load maintenance data:', err);
     } finally {
@@ -61,6 +73,20 @@ export function Maintenance() {
     loadData();
   };
 
+  const handleCreateBill = async (request: MaintenanceRequest) => {
+    if (!currentBusiness || !userProfile) return;
+    setBillingId(request.id);
+    setBillError('');
+    try {
+      const bill = await accountsPayableService.createBillFromMaintenance(currentBusiness.id, userProfile.id, request.id);
+      setBills(new Map(bills).set(request.id, bill));
+    } catch (err) {
+      setBillError(err instanceof Error ? err.message : 'Failed to create bill');
+    } finally {
+      setBillingId(null);
+    }
+  };
+
   const filteredRequests = requests.filter(request => {
     if (filter === 'all') return true;
     return request.status === filter;
@@ -158,6 +184,15 @@ export function Maintenance() {
           />
         </div>
 
+        {billError && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <p className="text-red-800 text-sm">{billError}</p>
+            <button onClick={() => setBillError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
         {filteredRequests.length === 0 ? (
           filter === 'all' && requests.length === 0 ? (
             EmptyStatePresets.Maintenance(() => setShowForm(true))
@@ -206,6 +241,9 @@ export function Maintenance() {
                       {request.assigned_to && (
                         <span>Assigned: {request.assigned_to}</span>
                       )}
+                      {request.vendor_id && (
+                        <span>Vendor: {vendors.find(v => v.id === request.vendor_id)?.vendor_name}</span>
+                      )}
                     </div>
                   </div>
                   <div className="text-right ml-4">
@@ -217,6 +255,29 @@ export function Maintenance() {
                         Est: ${request.estimated_cost.toFixed(2)}
                       </div>
                     )}
+                    {request.actual_cost_cents ? (
+                      <div className="text-sm text-gray-900">
+                        Actual: ${(request.actual_cost_cents / 100).toFixed(2)}
+                      </div>
+                    ) : null}
+                    {bills.has(request.id) ? (
+                      <div className="mt-2 inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-700">
+                        <Receipt size={12} />
+                        Billed
+                      </div>
+                    ) : request.vendor_id && request.actual_cost_cents ? (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleCreateBill(request);
+                        }}
+                        disabled={billingId === request.id}
+                        className="mt-2 inline-flex items-center gap-1 px-3 py-1 text-xs font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition disabled:opacity-50"
+                      >
+                        <Receipt size={12} />
+                        {billingId === request.id ? 'Creating...' : 'Create Bill'}
+                      </button>
+                    ) : null}
                   </div>
                 </div>
               </div>
@@ -230,6 +291,7 @@ export function Maintenance() {
           request={editingRequest}
           properties={properties}
           tenants={tenants}
+          vendors={vendors}
           organizationId={currentBusiness?.id || ''}
           onClose={handleCloseForm}
           onSuccess={handleSaveSuccess}
@@ -268,6 +330,7 @@ function MaintenanceForm({
   request,
   properties,
   tenants,
+  vendors,
   organizationId,
   onClose,
   onSuccess,
@@ -275,6 +338,7 @@ function MaintenanceForm({
   request: MaintenanceRequest | null;
   properties: any[];
   tenants: any[];
+  vendors: Vendor[];
   organizationId: string;
   onClose: () => void;
   onSuccess: () => void;
@@ -288,7 +352,9 @@ function MaintenanceForm({
     priority: request?.priority || 'medium',
     status: request?.status || 'submitted',
     assigned_to: request?.assigned_to || '',
+    vendor_id: request?.vendor_id || '',
     estimated_cost: request?.estimated_cost?.toString() || '',
+    actual_cost: request?.actual_cost_cents ? (request.actual_cost_cents / 100).toFixed(2) : '',
     notes: request?.notes || '',
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -299,11 +365,14 @@ function MaintenanceForm({
     setIsSubmitting(true);
 
     try {
+      const { actual_cost, ...fields } = formData;
       const data: any = {
-        ...formData,
+        ...fields,
         organization_id: organizationId,
         estimated_cost: formData.estimated_cost ? parseFloat(formData.estimated_cost) : null,
+        actual_cost_cents: actual_cost ? Math.round(parseFloat(actual_cost) * 100) : null,
         tenant_id: formData.tenant_id || null,
+        vendor_id: formData.vendor_id || null,
       };
 
       if (request) {
@@ -503,6 +572,40 @@ function MaintenanceForm({
           </div>
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Vendor
+            </label>
+            <select
+              value={formData.vendor_id}
+              onChange={(e) => setFormData({ ...formData, vendor_id: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">No vendor</option>
+              {vendors.map((vendor) => (
+                <option key={vendor.id} value={vendor.id}>
+                  {vendor.vendor_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Actual Cost
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              value={formData.actual_cost}
+              onChange={(e) => setFormData({ ...formData, actual_cost: e.target.value })}
+              placeholder="0.00"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Notes
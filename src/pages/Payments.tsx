@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { paymentService } from '../services/paymentService';
+import { stripePaymentService } from '../services/stripePaymentService';
 import { Payment } from '../types';
 import { EmptyStatePresets } from '../components/EmptyState';
-import { Plus, DollarSign, Calendar, CheckCircle, Clock, AlertCircle, Search, Filter, X } from 'lucide-react';
+import { Plus, DollarSign, Calendar, CheckCircle, Clock, AlertCircle, Search, Filter, X, RotateCcw } from 'lucide-react';
 import { ExportButton } from '../components/ExportButton';
+import { ReconciliationExceptionsPanel } from '../components/ReconciliationExceptionsPanel';
 import { exportPayments } from '../utils/exportHelpers';
 import { ExportFormat } from '../services/dataExportService';
 import { AdvancedSearchFilter, useSearchAndFilter, FilterOption } from '../components/AdvancedSearchFilter';
@@ -13,6 +15,7 @@ export function Payments() {
   const [payments, setPayments] = useState<Payment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [refundingId, setRefundingId] = useState<string | null>(null);
   const { currentBusiness } = useAuth();
 
   const filterConfig: FilterOption[] = [
@@ -95,6 +98,35 @@ export function Payments() {
     }
   };
 
+  // Card payments taken through Stripe carry the PaymentIntent ID as reference
+  const isStripePayment = (payment: Payment) =>
+    payment.status === 'paid' && !!payment.payment_reference?.startsWith('pi_');
+
+  const handleRefund = async (payment: Payment) => {
+    if (!confirm(`Refund ${formatCurrency((payment.amount_cents || 0) / 100)} to the tenant's card? This cannot be undone.`)) {
+      return;
+    }
+
+    setRefundingId(payment.id);
+    try {
+      const charge = await stripePaymentService.getChargeForPayment(payment.id);
+      if (!charge) {
+        setError('No Stripe transaction was found for this payment');
+        return;
+      }
+
+      const result = await stripePaymentService.refundPayment(charge.id, undefined, 'requested_by_customer');
+      if (!result.success) {
+        setError(result.error || 'Refund failed');
+        return;
+      }
+
+      await loadPayments();
+    } finally {
+      setRefundingId(null);
+    }
+  };
+
   const getTotalPaid = () => {
     return payments
       .filter((p) => p.status === 'paid')
@@ -250,6 +282,10 @@ export function Payments() {
           </div>
         </div>
 
+        {currentBusiness?.organization_id && (
+          <ReconciliationExceptionsPanel organizationId={currentBusiness.organization_id} />
+        )}
+
         {filteredPayments.length === 0 ? (
           payments.length === 0 ? (
             EmptyStatePresets.Payments()
@@ -271,6 +307,7 @@ export function Payments() {
                   <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Amount</th>
                   <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Notes</th>
+                  <th className="px-6 py-3"></th>
                 </tr>
               </thead>
               <tbody>
@@ -300,6 +337,18 @@ export function Payments() {
                     <td className="px-6 py-4 text-sm text-gray-600 max-w-xs truncate">
                       {payment.notes || '-'}
                     </td>
+                    <td className="px-6 py-4 text-sm text-right">
+                      {isStripePayment(payment) && (
+                        <button
+                          onClick={() => handleRefund(payment)}
+                          disabled={refundingId === payment.id}
+                          className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition disabled:opacity-50"
+                        >
+                          <RotateCcw size={12} />
+                          {refundingId === payment.id ? 'Refunding...' : 'Refund'}
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
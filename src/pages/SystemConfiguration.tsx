@@ -4,8 +4,9 @@ import { systemSettingsService, PaymentGatewayConfig } from '../services/systemS
 import { superAdminService } from '../services/superAdminService';
 import { brandingService } from '../services/brandingService';
 import { systemConfigService } from '../services/systemConfigService';
-import { Settings, CreditCard, Key, ToggleLeft, ToggleRight, Save, Check, Zap, Mail, Palette, BarChart3 } from 'lucide-react';
+import { Settings, CreditCard, Key, ToggleLeft, ToggleRight, Save, Check, Zap, Mail, Palette, BarChart3, Clock } from 'lucide-react';
 import { SuperAdminLayout } from '../components/SuperAdminLayout';
+import { AutomationJobsPanel } from '../components/AutomationJobsPanel';
 
 export function SystemConfiguration() {
   const navigate = useNavigate();
@@ -13,7 +14,7 @@ export function SystemConfiguration() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [savedMessage, setSavedMessage] = useState('');
-  const [activeTab, setActiveTab] = useState<'gateways' | 'features' | 'branding' | 'analytics'>('gateways');
+  const [activeTab, setActiveTab] = useState<'gateways' | 'features' | 'branding' | 'analytics' | 'automation'>('gateways');
 
   const [gatewayConfig, setGatewayConfig] = useState<PaymentGatewayConfig>({
     stripe: { enabled: false },
@@ -21,9 +22,9 @@ export function SystemConfiguration() {
     paypal: { enabled: false },
   });
 
-  const [stripeKeys, setStripeKeys] = useState({ publishable_key: '', secret_key: '' });
-  const [squareKeys, setSquareKeys] = useState({ application_id: '', access_token: '', location_id: '' });
-  const [paypalKeys, setPaypalKeys] = useState({ client_id: '', client_secret: '' });
+  const [stripeKeys, setStripeKeys] = useState({ publishable_key: '', secret_key: '', webhook_secret: '' });
+  const [squareKeys, setSquareKeys] = useState({ application_id: '', access_token: '', location_id: '', webhook_signature_key: '' });
+  const [paypalKeys, setPaypalKeys] = useState({ client_id: '', client_secret: '', webhook_id: '' });
   const [featureFlags, setFeatureFlags] = useState<Record<string, boolean>>({});
   const [systemBranding, setSystemBranding] = useState({
     application_name: 'AI Rental Tools',
@@ -108,9 +109,9 @@ export function SystemConfiguration() {
       await systemSettingsService.savePaymentGatewayKeys(gateway, keys);
       showSavedMessage();
 
-      if (gateway === 'stripe') setStripeKeys({ publishable_key: '', secret_key: '' });
-      else if (gateway === 'square') setSquareKeys({ application_id: '', access_token: '', location_id: '' });
-      else if (gateway === 'paypal') setPaypalKeys({ client_id: '', client_secret: '' });
+      if (gateway === 'stripe') setStripeKeys({ publishable_key: '', secret_key: '', webhook_secret: '' });
+      else if (gateway === 'square') setSquareKeys({ application_id: '', access_token: '', location_id: '', webhook_signature_key: '' });
+      else if (gateway === 'paypal') setPaypalKeys({ client_id: '', client_secret: '', webhook_id: '' });
     } catch (error) {
       console.error('Failed to save keys:', error);
     } finally {
@@ -258,6 +259,19 @@ export function SystemConfiguration() {
                   Analytics
                 </div>
               </button>
+              <button
+                onClick={() => setActiveTab('automation')}
+                className={`px-6 py-4 font-semibold transition ${
+                  activeTab === 'automation'
+                    ? 'border-b-2 border-blue-600 text-blue-600'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <Clock size={18} />
+                  Automation
+                </div>
+              </button>
             </div>
           </div>
 
@@ -276,6 +290,7 @@ export function SystemConfiguration() {
                   fields={[
                     { key: 'publishable_key', label: 'Publishable Key', type: 'text' },
                     { key: 'secret_key', label: 'Secret Key', type: 'password' },
+                    { key: 'webhook_secret', label: 'Webhook Signing Secret', type: 'password' },
                   ]}
                 />
 
@@ -292,6 +307,7 @@ export function SystemConfiguration() {
                     { key: 'application_id', label: 'Application ID', type: 'text' },
                     { key: 'access_token', label: 'Access Token', type: 'password' },
                     { key: 'location_id', label: 'Location ID', type: 'text' },
+                    { key: 'webhook_signature_key', label: 'Webhook Signature Key', type: 'password' },
                   ]}
                 />
 
@@ -307,6 +323,7 @@ export function SystemConfiguration() {
                   fields={[
                     { key: 'client_id', label: 'Client ID', type: 'text' },
                     { key: 'client_secret', label: 'Client Secret', type: 'password' },
+                    { key: 'webhook_id', label: 'Webhook ID', type: 'text' },
                   ]}
                 />
               </div>
@@ -522,6 +539,8 @@ export function SystemConfiguration() {
                 </div>
               </div>
             )}
+
+            {activeTab === 'automation' && <AutomationJobsPanel />}
           </div>
         </div>
 
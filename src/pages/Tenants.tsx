@@ -11,6 +11,7 @@ import { exportTenants } from '../utils/exportHelpers';
 import { ExportFormat } from '../services/dataExportService';
 import { useBulkSelection, BulkActionBar, CommonBulkActions } from '../components/BulkActionBar';
 import { Checkbox } from '../components/Checkbox';
+import { TenantLedgerPanel } from '../components/TenantLedgerPanel';
 
 export function Tenants() {
   const [tenants, setTenants] = useState<Tenant[]>([]);
@@ -21,7 +22,7 @@ export function Tenants() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [selectedTenant, setSelectedTenant] = useState<Tenant | null>(null);
-  const { currentBusiness } = useAuth();
+  const { currentBusiness, userProfile } = useAuth();
   const bulkSelection = useBulkSelection(tenants);
 
   useEffect(() => {
@@ -317,6 +318,8 @@ export function Tenants() {
       {selectedTenant && (
         <TenantDetailsModal
           tenant={selectedTenant}
+          ledgerManage={currentBusiness && userProfile ? { businessId: currentBusiness.id, userId: userProfile.id } : undefined}
+          businessName={currentBusiness?.business_name || ''}
           onClose={() => setSelectedTenant(null)}
           onEdit={(tenant) => {
             setSelectedTenant(null);
@@ -341,10 +344,14 @@ export function Tenants() {
 
 function TenantDetailsModal({
   tenant,
+  businessName,
+  ledgerManage,
   onClose,
   onEdit,
 }: {
   tenant: Tenant;
+  businessName: string;
+  ledgerManage?: { businessId: string; userId: string };
   onClose: () => void;
   onEdit: (tenant: Tenant) => void;
 }) {
@@ -497,6 +504,11 @@ function TenantDetailsModal({
             <p className="text-sm text-gray-700 whitespace-pre-wrap">{tenant.notes}</p>
           </div>
         )}
+
+        <div className="pt-6 border-t border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Ledger</h3>
+          <TenantLedgerPanel tenantId={tenant.id} businessName={businessName} manage={ledgerManage} />
+        </div>
       </div>
     </SlidePanel>
   );
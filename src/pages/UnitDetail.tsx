@@ -7,13 +7,15 @@ import { applicationTemplateService, ApplicationTemplate } from '../services/app
 import { supabase } from '../lib/supabase';
 import { Breadcrumbs } from '../components/Breadcrumbs';
 import { TenantForm } from '../components/TenantForm';
-import { Unit, Tenant, AgreementTemplate } from '../types';
+import { LeaseChargesPanel } from '../components/LeaseChargesPanel';
+import { Unit, Tenant, AgreementTemplate, Lease } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../components/Toast';
 import {
   ArrowLeft, Users, ChevronRight, AlertCircle, Plus,
   DollarSign, Edit2, Wrench, FileText, Calendar,
-  CheckCircle, XCircle, Globe, ExternalLink, Trash2, ClipboardList, Eye, RefreshCw
+  CheckCircle, XCircle, Globe, ExternalLink, Trash2, ClipboardList, Eye, RefreshCw,
+  ClipboardCheck
 } from 'lucide-react';
 import { SlidePanel } from '../components/SlidePanel';
 import { OccupancyStatus } from '../types';
@@ -31,9 +33,10 @@ interface UnitStats {
 export function UnitDetail() {
   const { unitId } = useParams();
   const navigate = useNavigate();
-  const { currentBusiness } = useAuth();
+  const { currentBusiness, userProfile } = useAuth();
   const toast = useToast();
   const [unit, setUnit] = useState<Unit | null>(null);
+  const [lease, setLease] = useState<Lease | null>(null);
   const [property, setProperty] = useState<any>(null);
   const [tenants, setTenants] = useState<any[]>([]);
   const [listing, setListing] = useState<any>(null);
@@ -212,6 +215,7 @@ export function UnitDetail() {
         .maybeSingle();
 
       setListing(listingData);
+      setLease(await unitService.getUnitLease(unitId));
       setStats({
         tenantCount: tenantsList.length,
         currentTenant: tenantsList[0] || null,
@@ -913,6 +917,20 @@ export function UnitDetail() {
             <p className="text-sm text-gray-600">Agreements & files</p>
           </button>
 
+          <button
+            onClick={() => navigate(`/inspections?unitId=${unitId}`)}
+            className="group bg-white rounded-xl shadow-sm hover:shadow-md transition p-6 text-left border border-gray-100 hover:border-teal-200"
+          >
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 sm:gap-0 mb-4">
+              <div className="w-12 h-12 rounded-lg bg-teal-100 flex items-center justify-center group-hover:bg-teal-200 transition">
+                <ClipboardCheck className="w-6 h-6 text-teal-600" />
+              </div>
+              <ChevronRight className="w-5 h-5 text-gray-400 group-hover:text-teal-600 transition" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Inspections</h3>
+            <p className="text-sm text-gray-600">Move-in & move-out condition</p>
+          </button>
+
           {stats.hasActiveListing && (
             <button
               onClick={() => navigate(`/applications?unitId=${unitId}`)}
@@ -930,6 +948,16 @@ export function UnitDetail() {
           )}
         </div>
 
+        {/* Rent & Recurring Charges */}
+        {lease && currentBusiness && userProfile && (
+          <LeaseChargesPanel
+            lease={lease}
+            businessId={currentBusiness.id}
+            userId={userProfile.id}
+            onLeaseChange={setLease}
+          />
+        )}
+
         {/* Agreement Template Settings */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
           <div className="flex items-start gap-4">
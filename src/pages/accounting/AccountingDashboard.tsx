@@ -4,6 +4,7 @@ import { financialReportingService } from '../../services/financialReportingServ
 import { journalService } from '../../services/journalService';
 import { fiscalPeriodService } from '../../services/fiscalPeriodService';
 import { glAccountService } from '../../services/glAccountService';
+import { glPostingService } from '../../services/glPostingService';
 import { GLJournal, FiscalPeriod } from '../../types';
 import { Link } from 'react-router-dom';
 import {
@@ -21,6 +22,18 @@ import {
   PieChart,
   BarChart3,
   RefreshCw,
+  Landmark,
+  ShieldCheck,
+  ClipboardList,
+  Receipt,
+  HandCoins,
+  Target,
+  Scale,
+  FileWarning,
+  ArrowLeftRight,
+  FileSpreadsheet,
+  Lock,
+  Users,
 } from 'lucide-react';
 
 interface DashboardMetrics {
@@ -34,7 +47,7 @@ interface DashboardMetrics {
 }
 
 export function AccountingDashboard() {
-  const { currentBusiness } = useAuth();
+  const { currentBusiness, userProfile } = useAuth();
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [recentJournals, setRecentJournals] = useState<GLJournal[]>([]);
   const [currentPeriod, setCurrentPeriod] = useState<FiscalPeriod | null>(null);
@@ -42,6 +55,7 @@ export function AccountingDashboard() {
   const [error, setError] = useState('');
   const [hasChartOfAccounts, setHasChartOfAccounts] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
+  const [unpostedCount, setUnpostedCount] = useState(0);
 
   const today = new Date();
   const currentYear = today.getFullYear();
@@ -66,6 +80,17 @@ export function AccountingDashboard() {
         return;
       }
 
+      // Catch up auto-posting once a day without holding up the dashboard
+      const refreshUnposted = () =>
+        glPostingService.getUnpostedCount(businessId).then(setUnpostedCount).catch(() => setUnpostedCount(0));
+      if (userProfile?.id) {
+        glPostingService.runDailySweep(businessId)
+          .catch((err) => console.error('Auto-posting sweep failed:', err))
+          .finally(refreshUnposted);
+      } else {
+        refreshUnposted();
+      }
+
       // Load trial balance for current metrics
       const trialBalance = await financialReportingService.generateTrialBalance(
         businessId,
@@ -258,10 +283,13 @@ export function AccountingDashboard() {
             </div>
             <div className="flex items-center gap-3">
               {currentPeriod && (
-                <div className="flex items-center gap-2 px-3 py-2 bg-blue-50 text-blue-700 rounded-lg text-sm">
+                <Link
+                  to="/accounting/period-close"
+                  className="flex items-center gap-2 px-3 py-2 bg-blue-50 text-blue-700 rounded-lg text-sm hover:bg-blue-100 transition"
+                >
                   <Calendar className="w-4 h-4" />
                   <span>{currentPeriod.period_name}</span>
-                </div>
+                </Link>
               )}
             </div>
           </div>
@@ -276,6 +304,19 @@ export function AccountingDashboard() {
           </div>
         )}
 
+        {unpostedCount > 0 && (
+          <Link
+            to="/accounting/unposted"
+            className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2 hover:bg-yellow-100 transition"
+          >
+            <FileWarning className="w-5 h-5 text-yellow-600" />
+            <p className="text-yellow-800 text-sm flex-1">
+              {unpostedCount} transaction{unpostedCount === 1 ? '' : 's'} could not be posted to the general ledger
+            </p>
+            <ArrowRight className="w-4 h-4 text-yellow-600" />
+          </Link>
+        )}
+
         {/* Key Metrics */}
         {metrics && (
           <>
@@ -454,6 +495,150 @@ export function AccountingDashboard() {
                 <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-purple-600 transition" />
               </Link>
 
+              <Link
+                to="/accounting/statements"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <Scale className="w-6 h-6 text-indigo-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Financial Statements</p>
+                  <p className="text-xs text-gray-500">Balance sheet, income and cash flow</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-indigo-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/unposted"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <FileWarning className="w-6 h-6 text-yellow-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Unposted Transactions</p>
+                  <p className="text-xs text-gray-500">Auto-posting failures and accruals</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-yellow-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/exchange-rates"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <ArrowLeftRight className="w-6 h-6 text-cyan-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Exchange Rates</p>
+                  <p className="text-xs text-gray-500">Currency rates and FX revaluation</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-cyan-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/bank-reconciliation"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <Landmark className="w-6 h-6 text-teal-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Bank Reconciliation</p>
+                  <p className="text-xs text-gray-500">Import and match statements</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-teal-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/deposits"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <ShieldCheck className="w-6 h-6 text-indigo-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Security Deposits</p>
+                  <p className="text-xs text-gray-500">Trust balances, interest and refunds</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-indigo-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/rent-roll"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <ClipboardList className="w-6 h-6 text-cyan-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Rent Roll</p>
+                  <p className="text-xs text-gray-500">Units, rents and balances as of any date</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-cyan-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/receivables"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <HandCoins className="w-6 h-6 text-emerald-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Accounts Receivable</p>
+                  <p className="text-xs text-gray-500">Aging and collections</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-emerald-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/payables"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <Receipt className="w-6 h-6 text-rose-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Accounts Payable</p>
+                  <p className="text-xs text-gray-500">Bills, approvals and payment runs</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-rose-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/tax-forms"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <FileSpreadsheet className="w-6 h-6 text-orange-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Tax Forms</p>
+                  <p className="text-xs text-gray-500">Vendor 1099 and T5018 filing</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-orange-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/period-close"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <Lock className="w-6 h-6 text-slate-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Period Close</p>
+                  <p className="text-xs text-gray-500">Close checklist and year-end entries</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-slate-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/owner-statements"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <Users className="w-6 h-6 text-purple-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Owner Statements</p>
+                  <p className="text-xs text-gray-500">Owner distributions and management fees</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-purple-600 transition" />
+              </Link>
+
+              <Link
+                to="/accounting/budgets"
+                className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
+              >
+                <Target className="w-6 h-6 text-amber-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 text-sm">Budgets</p>
+                  <p className="text-xs text-gray-500">Monthly budgets and budget vs actual</p>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-amber-600 transition" />
+              </Link>
+
               <Link
                 to="/vendors"
                 className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
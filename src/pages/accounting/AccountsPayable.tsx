@@ -0,0 +1,1038 @@
+import { useState, useEffect, Fragment } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  accountsPayableService,
+  BillLineInput,
+  AGING_BUCKET_LABELS,
+  VENDOR_BILL_STATUS_LABELS,
+  VENDOR_PAYMENT_METHOD_LABELS,
+} from '../../services/accountsPayableService';
+import { vendorService } from '../../services/vendorService';
+import { glAccountService } from '../../services/glAccountService';
+import { propertyService } from '../../services/propertyService';
+import { unitService } from '../../services/unitService';
+import { ExportFormat } from '../../services/dataExportService';
+import {
+  AgedPayables,
+  AgingBucket,
+  GLAccount,
+  Property,
+  Unit,
+  Vendor,
+  VendorBill,
+  VendorBillPayment,
+  VendorBillStatus,
+  VendorPaymentRun,
+} from '../../types';
+import {
+  Receipt,
+  Plus,
+  Send,
+  Check,
+  Undo2,
+  Ban,
+  Trash2,
+  Edit2,
+  Download,
+  CreditCard,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+
+type Tab = 'bills' | 'pay' | 'runs' | 'aging';
+
+interface LineRow {
+  accountId: string;
+  propertyId: string;
+  unitId: string;
+  description: string;
+  amount: string;
+  tax: string;
+}
+
+const emptyLine = (accountId = ''): LineRow => ({
+  accountId,
+  propertyId: '',
+  unitId: '',
+  description: '',
+  amount: '',
+  tax: '',
+});
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const toCents = (value: string) => Math.round((parseFloat(value) || 0) * 100);
+
+const STATUS_STYLES: Record<VendorBillStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  pending_approval: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-blue-100 text-blue-700',
+  partially_paid: 'bg-indigo-100 text-indigo-700',
+  paid: 'bg-green-100 text-green-700',
+  void: 'bg-red-100 text-red-700',
+};
+
+export function AccountsPayable() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('bills');
+  const [bills, setBills] = useState<VendorBill[]>([]);
+  const [statusFilter, setStatusFilter] = useState<VendorBillStatus | ''>('');
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [accounts, setAccounts] = useState<GLAccount[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<GLAccount[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // Bill form
+  const [showBillForm, setShowBillForm] = useState(false);
+  const [editingBill, setEditingBill] = useState<VendorBill | null>(null);
+  const [billForm, setBillForm] = useState({ vendorId: '', billNumber: '', billDate: today(), dueDate: '', memo: '' });
+  const [lines, setLines] = useState<LineRow[]>([emptyLine()]);
+
+  // Pay bills
+  const [dueThrough, setDueThrough] = useState(today());
+  const [payForm, setPayForm] = useState({ paymentDate: today(), bankAccountId: '', firstCheckNumber: '', memo: '' });
+  const [selected, setSelected] = useState<Record<string, string>>({});
+
+  // Payment runs
+  const [runs, setRuns] = useState<VendorPaymentRun[]>([]);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [runPayments, setRunPayments] = useState<VendorBillPayment[]>([]);
+
+  // Aged payables
+  const [asOfDate, setAsOfDate] = useState(today());
+  const [aging, setAging] = useState<AgedPayables | null>(null);
+  const [expandedVendorId, setExpandedVendorId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentBusiness) return;
+    vendorService.getVendors(currentBusiness.id, { isActive: true }).then(setVendors).catch(() => setVendors([]));
+    glAccountService.getPostingAccounts(currentBusiness.id).then(setAccounts).catch(() => setAccounts([]));
+    glAccountService.getBankAccounts(currentBusiness.id).then(data => {
+      setBankAccounts(data);
+      setPayForm(form => ({ ...form, bankAccountId: form.bankAccountId || data[0]?.id || '' }));
+    }).catch(() => setBankAccounts([]));
+    propertyService.getAllProperties(currentBusiness.id).then(setProperties).catch(() => setProperties([]));
+    unitService.getBusinessUnits(currentBusiness.id).then(setUnits).catch(() => setUnits([]));
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    loadBills();
+  }, [currentBusiness?.id, statusFilter]);
+
+  useEffect(() => {
+    if (tab === 'runs') loadRuns();
+  }, [currentBusiness?.id, tab]);
+
+  useEffect(() => {
+    if (tab === 'aging') loadAging();
+  }, [currentBusiness?.id, tab, asOfDate]);
+
+  const loadBills = async () => {
+    if (!currentBusiness) return;
+    try {
+      setBills(await accountsPayableService.getBills(currentBusiness.id, {
+        status: statusFilter || undefined,
+      }));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bills');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadRuns = async () => {
+    if (!currentBusiness) return;
+    try {
+      setRuns(await accountsPayableService.getPaymentRuns(currentBusiness.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payment runs');
+    }
+  };
+
+  const loadAging = async () => {
+    if (!currentBusiness || !asOfDate) return;
+    try {
+      setAging(await accountsPayableService.getAgedPayables(currentBusiness.id, asOfDate));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load aged payables');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      await loadBills();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // ========================================
+  // Bills
+  // ========================================
+
+  const openBillForm = (bill?: VendorBill) => {
+    setEditingBill(bill || null);
+    if (bill) {
+      setBillForm({
+        vendorId: bill.vendor_id,
+        billNumber: bill.bill_number || '',
+        billDate: bill.bill_date,
+        dueDate: bill.due_date,
+        memo: bill.memo || '',
+      });
+      setLines((bill.lines || []).map(line => ({
+        accountId: line.account_id,
+        propertyId: line.property_id || '',
+        unitId: line.unit_id || '',
+        description: line.description || '',
+        amount: (line.amount_cents / 100).toFixed(2),
+        tax: line.tax_amount_cents ? (line.tax_amount_cents / 100).toFixed(2) : '',
+      })));
+    } else {
+      setBillForm({ vendorId: '', billNumber: '', billDate: today(), dueDate: '', memo: '' });
+      setLines([emptyLine()]);
+    }
+    setShowBillForm(true);
+  };
+
+  const handleVendorChange = (vendorId: string) => {
+    setBillForm({ ...billForm, vendorId });
+    const vendor = vendors.find(v => v.id === vendorId);
+    if (vendor?.default_expense_account_id) {
+      setLines(lines.map(line => (line.accountId ? line : { ...line, accountId: vendor.default_expense_account_id! })));
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<LineRow>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const linesTotal = lines.reduce((sum, line) => sum + toCents(line.amount) + toCents(line.tax), 0);
+
+  const handleSaveBill = async () => {
+    if (!currentBusiness || !userProfile) return;
+    const input = {
+      vendorId: billForm.vendorId,
+      billNumber: billForm.billNumber,
+      billDate: billForm.billDate,
+      dueDate: billForm.dueDate || undefined,
+      memo: billForm.memo,
+      lines: lines.map((line): BillLineInput => ({
+        accountId: line.accountId,
+        propertyId: line.propertyId || undefined,
+        unitId: line.unitId || undefined,
+        description: line.description,
+        amountCents: toCents(line.amount),
+        taxAmountCents: toCents(line.tax),
+      })),
+    };
+
+    await runAction(async () => {
+      if (editingBill) {
+        await accountsPayableService.updateBill(editingBill.id, input);
+      } else {
+        await accountsPayableService.createBill(currentBusiness.id, userProfile.id, input);
+      }
+      setShowBillForm(false);
+      setNotice(editingBill ? 'Bill updated' : 'Bill saved as draft');
+    }, 'Failed to save bill');
+  };
+
+  const handleSubmit = (bill: VendorBill) => runAction(async () => {
+    await accountsPayableService.submitForApproval(bill.id, userProfile!.id);
+    setNotice(`Bill ${bill.bill_number || ''} submitted for approval`);
+  }, 'Failed to submit bill');
+
+  const handleApprove = (bill: VendorBill) => runAction(async () => {
+    await accountsPayableService.approveBill(bill.id, userProfile!.id);
+    setNotice(`Bill ${bill.bill_number || ''} approved for payment`);
+  }, 'Failed to approve bill');
+
+  const handleReject = (bill: VendorBill) => {
+    const reason = window.prompt('Reason for sending this bill back?');
+    if (!reason) return;
+    runAction(async () => {
+      await accountsPayableService.rejectBill(bill.id, userProfile!.id, reason);
+    }, 'Failed to reject bill');
+  };
+
+  const handleVoid = (bill: VendorBill) => {
+    const reason = window.prompt('Reason for voiding this bill?');
+    if (!reason) return;
+    runAction(async () => {
+      await accountsPayableService.voidBill(bill.id, userProfile!.id, reason);
+    }, 'Failed to void bill');
+  };
+
+  const handleDelete = (bill: VendorBill) => {
+    if (!window.confirm('Delete this draft bill?')) return;
+    runAction(() => accountsPayableService.deleteBill(bill.id), 'Failed to delete bill');
+  };
+
+  // ========================================
+  // Payment Runs
+  // ========================================
+
+  const payable = bills.filter(b =>
+    (b.status === 'approved' || b.status === 'partially_paid') && b.due_date <= dueThrough
+  );
+
+  const selectedTotal = Object.values(selected).reduce((sum, amount) => sum + toCents(amount), 0);
+
+  const toggleBill = (bill: VendorBill) => {
+    const next = { ...selected };
+    if (next[bill.id] !== undefined) {
+      delete next[bill.id];
+    } else {
+      next[bill.id] = ((bill.total_cents - bill.amount_paid_cents) / 100).toFixed(2);
+    }
+    setSelected(next);
+  };
+
+  const handlePay = async () => {
+    if (!currentBusiness || !userProfile) return;
+    const payments = Object.entries(selected).map(([billId, amount]) => ({ billId, amountCents: toCents(amount) }));
+
+    await runAction(async () => {
+      const run = await accountsPayableService.createPaymentRun(currentBusiness.id, userProfile.id, {
+        paymentDate: payForm.paymentDate,
+        bankAccountId: payForm.bankAccountId,
+        memo: payForm.memo || undefined,
+        firstCheckNumber: payForm.firstCheckNumber ? parseInt(payForm.firstCheckNumber, 10) : undefined,
+        payments,
+      });
+      setSelected({});
+      setNotice(`Paid ${run.bill_count} bill${run.bill_count === 1 ? '' : 's'} totalling ${formatCurrency(run.total_cents)}`);
+    }, 'Failed to pay bills');
+  };
+
+  const toggleRun = async (run: VendorPaymentRun) => {
+    if (expandedRunId === run.id) {
+      setExpandedRunId(null);
+      return;
+    }
+    try {
+      setRunPayments(await accountsPayableService.getRunPayments(run.id));
+      setExpandedRunId(run.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payments');
+    }
+  };
+
+  const handleVoidRun = (run: VendorPaymentRun) => {
+    const reason = window.prompt('Reason for voiding this payment run? Its bills will be reopened.');
+    if (!reason) return;
+    runAction(async () => {
+      await accountsPayableService.voidPaymentRun(run.id, userProfile!.id, reason);
+      await loadRuns();
+    }, 'Failed to void payment run');
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!aging || !currentBusiness) return;
+    accountsPayableService.exportAgedPayables(aging, format, currentBusiness.business_name);
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 overflow-auto">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading bills...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const buckets = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[];
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'bills', label: 'Bills' },
+    { id: 'pay', label: 'Pay Bills' },
+    { id: 'runs', label: 'Payment Runs' },
+    { id: 'aging', label: 'Aged Payables' },
+  ];
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Accounts Payable</h1>
+              <p className="text-gray-600 mt-1">Vendor bills, approvals and payments</p>
+            </div>
+            <button
+              onClick={() => openBillForm()}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+            >
+              <Plus size={18} />
+              <span>New Bill</span>
+            </button>
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {/* Bills */}
+        {tab === 'bills' && (
+          <>
+            <div className="flex items-center gap-3">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as VendorBillStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All bills</option>
+                {(Object.keys(VENDOR_BILL_STATUS_LABELS) as VendorBillStatus[]).map(status => (
+                  <option key={status} value={status}>{VENDOR_BILL_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+
+            {bills.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <Receipt className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Bills</h3>
+                <p className="text-gray-600">Enter vendor invoices to approve and pay them.</p>
+              </div>
+            ) : (
+              <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Vendor</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Bill Date</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Due</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Total</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Balance</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bills.map(bill => {
+                      const isOverdue = (bill.status === 'approved' || bill.status === 'partially_paid') && bill.due_date < today();
+                      return (
+                        <tr key={bill.id} className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="px-4 py-3 text-sm">
+                            <p className="font-medium text-gray-900">{bill.vendor?.vendor_name}</p>
+                            <p className="text-xs text-gray-500">
+                              {bill.bill_number ? `#${bill.bill_number}` : 'No invoice number'}
+                              {bill.memo && ` · ${bill.memo}`}
+                            </p>
+                            {bill.status === 'draft' && bill.rejection_reason && (
+                              <p className="text-xs text-red-600">Sent back: {bill.rejection_reason}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDate(bill.bill_date)}</td>
+                          <td className={`px-4 py-3 text-sm whitespace-nowrap ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                            {formatDate(bill.due_date)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(bill.total_cents)}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">
+                            {bill.status === 'void' ? '' : formatCurrency(bill.total_cents - bill.amount_paid_cents)}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[bill.status]}`}>
+                              {VENDOR_BILL_STATUS_LABELS[bill.status]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <div className="flex items-center justify-end gap-1">
+                              {(bill.status === 'draft' || bill.status === 'pending_approval') && (
+                                <button onClick={() => openBillForm(bill)} disabled={isWorking} title="Edit" className="p-2 text-gray-500 hover:text-blue-600 rounded-lg">
+                                  <Edit2 size={16} />
+                                </button>
+                              )}
+                              {bill.status === 'draft' && (
+                                <button onClick={() => handleSubmit(bill)} disabled={isWorking} title="Submit for approval" className="p-2 text-gray-500 hover:text-blue-600 rounded-lg">
+                                  <Send size={16} />
+                                </button>
+                              )}
+                              {(bill.status === 'draft' || bill.status === 'pending_approval') && (
+                                <button onClick={() => handleApprove(bill)} disabled={isWorking} title="Approve" className="p-2 text-gray-500 hover:text-green-600 rounded-lg">
+                                  <Check size={16} />
+                                </button>
+                              )}
+                              {bill.status === 'pending_approval' && (
+                                <button onClick={() => handleReject(bill)} disabled={isWorking} title="Send back" className="p-2 text-gray-500 hover:text-orange-600 rounded-lg">
+                                  <Undo2 size={16} />
+                                </button>
+                              )}
+                              {bill.status === 'approved' && bill.amount_paid_cents === 0 && (
+                                <button onClick={() => handleVoid(bill)} disabled={isWorking} title="Void" className="p-2 text-gray-500 hover:text-red-600 rounded-lg">
+                                  <Ban size={16} />
+                                </button>
+                              )}
+                              {bill.status === 'draft' && (
+                                <button onClick={() => handleDelete(bill)} disabled={isWorking} title="Delete" className="p-2 text-gray-500 hover:text-red-600 rounded-lg">
+                                  <Trash2 size={16} />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Pay Bills */}
+        {tab === 'pay' && (
+          <>
+            <div className="bg-white rounded-lg shadow p-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Due through</label>
+                <input
+                  type="date"
+                  value={dueThrough}
+                  onChange={(e) => setDueThrough(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payment date</label>
+                <input
+                  type="date"
+                  value={payForm.paymentDate}
+                  onChange={(e) => setPayForm({ ...payForm, paymentDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pay from</label>
+                <select
+                  value={payForm.bankAccountId}
+                  onChange={(e) => setPayForm({ ...payForm, bankAccountId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">Select bank account</option>
+                  {bankAccounts.map(account => (
+                    <option key={account.id} value={account.id}>
+                      {account.account_number} - {account.account_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">First check #</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={payForm.firstCheckNumber}
+                  onChange={(e) => setPayForm({ ...payForm, firstCheckNumber: e.target.value })}
+                  placeholder="Optional"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Memo</label>
+                <input
+                  type="text"
+                  value={payForm.memo}
+                  onChange={(e) => setPayForm({ ...payForm, memo: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+
+            {payable.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <CreditCard className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Nothing to Pay</h3>
+                <p className="text-gray-600">No approved bills are due by this date.</p>
+              </div>
+            ) : (
+              <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 w-10"></th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Vendor</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Due</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Method</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Balance</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Pay</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payable.map(bill => (
+                      <tr key={bill.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selected[bill.id] !== undefined}
+                            onChange={() => toggleBill(bill)}
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <p className="font-medium text-gray-900">{bill.vendor?.vendor_name}</p>
+                          <p className="text-xs text-gray-500">{bill.bill_number ? `#${bill.bill_number}` : formatDate(bill.bill_date)}</p>
+                        </td>
+                        <td className={`px-4 py-3 text-sm whitespace-nowrap ${bill.due_date < today() ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                          {formatDate(bill.due_date)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {VENDOR_PAYMENT_METHOD_LABELS[bill.vendor?.accepts_ach ? 'ach' : bill.vendor?.accepts_check ? 'check' : 'other']}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">
+                          {formatCurrency(bill.total_cents - bill.amount_paid_cents)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <input
+                            type="number"
+                            min="0.01"
+                            step="0.01"
+                            value={selected[bill.id] ?? ''}
+                            disabled={selected[bill.id] === undefined}
+                            onChange={(e) => setSelected({ ...selected, [bill.id]: e.target.value })}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-right disabled:bg-gray-50"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="p-4 flex items-center justify-between border-t border-gray-200">
+                  <p className="text-sm text-gray-600">
+                    {Object.keys(selected).length} selected · <span className="font-semibold text-gray-900">{formatCurrency(selectedTotal)}</span>
+                  </p>
+                  <button
+                    onClick={handlePay}
+                    disabled={isWorking || Object.keys(selected).length === 0 || !payForm.bankAccountId}
+                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    <CreditCard size={18} />
+                    <span>Pay {Object.keys(selected).length} Bill{Object.keys(selected).length === 1 ? '' : 's'}</span>
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Payment Runs */}
+        {tab === 'runs' && (
+          runs.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-12 text-center">
+              <CreditCard className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Payment Runs</h3>
+              <p className="text-gray-600">Pay approved bills from the Pay Bills tab.</p>
+            </div>
+          ) : (
+            <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 w-10"></th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Date</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Bank Account</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Bills</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Total</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(run => (
+                    <Fragment key={run.id}>
+                      <tr className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <button onClick={() => toggleRun(run)} className="text-gray-400 hover:text-gray-600">
+                            {expandedRunId === run.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                          </button>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                          {formatDate(run.payment_date)}
+                          {run.memo && <span className="text-xs text-gray-500"> · {run.memo}</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {run.bank_account ? `${run.bank_account.account_number} - ${run.bank_account.account_name}` : ''}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">{run.bill_count}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(run.total_cents)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {run.status === 'void' ? (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700" title={run.void_reason}>Void</span>
+                          ) : (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">Completed</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {run.status === 'completed' && (
+                            <button onClick={() => handleVoidRun(run)} disabled={isWorking} title="Void run" className="p-2 text-gray-500 hover:text-red-600 rounded-lg">
+                              <Ban size={16} />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedRunId === run.id && (
+                        <tr className="bg-gray-50">
+                          <td></td>
+                          <td colSpan={6} className="px-4 py-3">
+                            <table className="w-full text-sm">
+                              <tbody>
+                                {runPayments.map(payment => (
+                                  <tr key={payment.id}>
+                                    <td className="py-1 text-gray-900">{payment.vendor?.vendor_name}</td>
+                                    <td className="py-1 text-gray-600">{payment.bill?.bill_number ? `#${payment.bill.bill_number}` : ''}</td>
+                                    <td className="py-1 text-gray-600">
+                                      {VENDOR_PAYMENT_METHOD_LABELS[payment.payment_method]}
+                                      {payment.reference && ` ${payment.reference}`}
+                                    </td>
+                                    <td className="py-1 text-right text-gray-900">{formatCurrency(payment.amount_cents)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+
+        {/* Aged Payables */}
+        {tab === 'aging' && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="date"
+                value={asOfDate}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={!aging || aging.rows.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <Download size={18} />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={() => handleExport('pdf')}
+                disabled={!aging || aging.rows.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <Download size={18} />
+                <span>PDF</span>
+              </button>
+            </div>
+
+            {!aging || aging.rows.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <Receipt className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Nothing Owed</h3>
+                <p className="text-gray-600">There were no unpaid approved bills as of this date.</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Vendor</th>
+                      {buckets.map(bucket => (
+                        <th key={bucket} className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">
+                          {AGING_BUCKET_LABELS[bucket]}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aging.rows.map(row => (
+                      <Fragment key={row.vendor_id}>
+                        <tr
+                          onClick={() => setExpandedVendorId(expandedVendorId === row.vendor_id ? null : row.vendor_id)}
+                          className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                        >
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.vendor_name}</td>
+                          {buckets.map(bucket => (
+                            <td key={bucket} className="px-4 py-3 text-sm text-right text-gray-600">
+                              {row.buckets[bucket] ? formatCurrency(row.buckets[bucket]) : ''}
+                            </td>
+                          ))}
+                          <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(row.total_cents)}</td>
+                        </tr>
+                        {expandedVendorId === row.vendor_id && row.bills.map(bill => (
+                          <tr key={bill.bill_id} className="bg-gray-50 text-xs">
+                            <td className="px-4 py-2 pl-8 text-gray-600">
+                              {bill.bill_number ? `#${bill.bill_number}` : formatDate(bill.bill_date)} · due {formatDate(bill.due_date)}
+                              {bill.days_past_due > 0 && ` · ${bill.days_past_due} days past due`}
+                            </td>
+                            {buckets.map(bucket => (
+                              <td key={bucket} className="px-4 py-2 text-right text-gray-600">
+                                {bill.bucket === bucket ? formatCurrency(bill.balance_cents) : ''}
+                              </td>
+                            ))}
+                            <td></td>
+                          </tr>
+                        ))}
+                      </Fragment>
+                    ))}
+                    <tr className="bg-gray-50 font-semibold">
+                      <td className="px-4 py-3 text-sm text-gray-900">Total</td>
+                      {buckets.map(bucket => (
+                        <td key={bucket} className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(aging.totals[bucket])}</td>
+                      ))}
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(aging.total_cents)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Bill Modal */}
+      {showBillForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{editingBill ? 'Edit Bill' : 'New Bill'}</h2>
+              <button onClick={() => setShowBillForm(false)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="lg:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Vendor</label>
+                  <select
+                    value={billForm.vendorId}
+                    onChange={(e) => handleVendorChange(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Select vendor</option>
+                    {vendors.map(vendor => (
+                      <option key={vendor.id} value={vendor.id}>{vendor.vendor_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="lg:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Invoice number</label>
+                  <input
+                    type="text"
+                    value={billForm.billNumber}
+                    onChange={(e) => setBillForm({ ...billForm, billNumber: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Bill date</label>
+                  <input
+                    type="date"
+                    value={billForm.billDate}
+                    onChange={(e) => setBillForm({ ...billForm, billDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Due date</label>
+                  <input
+                    type="date"
+                    value={billForm.dueDate}
+                    onChange={(e) => setBillForm({ ...billForm, dueDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leave blank to use the vendor's terms</p>
+                </div>
+                <div className="lg:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Memo</label>
+                  <input
+                    type="text"
+                    value={billForm.memo}
+                    onChange={(e) => setBillForm({ ...billForm, memo: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-medium text-gray-700">Lines</p>
+                  <button
+                    onClick={() => setLines([...lines, emptyLine(vendors.find(v => v.id === billForm.vendorId)?.default_expense_account_id)])}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus size={16} />
+                    Add line
+                  </button>
+                </div>
+                <div className="space-y-3">
+                  {lines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-1 sm:grid-cols-12 gap-2 p-3 bg-gray-50 rounded-lg">
+                      <select
+                        value={line.accountId}
+                        onChange={(e) => updateLine(index, { accountId: e.target.value })}
+                        className="sm:col-span-4 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">GL account</option>
+                        {accounts.map(account => (
+                          <option key={account.id} value={account.id}>
+                            {account.account_number} - {account.account_name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={line.propertyId}
+                        onChange={(e) => updateLine(index, { propertyId: e.target.value, unitId: '' })}
+                        className="sm:col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">No property</option>
+                        {properties.map(property => (
+                          <option key={property.id} value={property.id}>{property.name}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={line.unitId}
+                        onChange={(e) => updateLine(index, { unitId: e.target.value })}
+                        disabled={!line.propertyId}
+                        className="sm:col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+                      >
+                        <option value="">No unit</option>
+                        {units.filter(u => u.property_id === line.propertyId).map(unit => (
+                          <option key={unit.id} value={unit.id}>Unit {unit.unit_number}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        placeholder="Amount"
+                        value={line.amount}
+                        onChange={(e) => updateLine(index, { amount: e.target.value })}
+                        className="sm:col-span-1 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Tax"
+                        value={line.tax}
+                        onChange={(e) => updateLine(index, { tax: e.target.value })}
+                        className="sm:col-span-1 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <button
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        disabled={lines.length === 1}
+                        className="sm:col-span-1 p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                      <input
+                        type="text"
+                        placeholder="Description"
+                        value={line.description}
+                        onChange={(e) => updateLine(index, { description: e.target.value })}
+                        className="sm:col-span-12 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-right text-sm text-gray-600 mt-3">
+                  Total <span className="font-semibold text-gray-900">{formatCurrency(linesTotal)}</span>
+                </p>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowBillForm(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveBill}
+                disabled={isWorking || !billForm.vendorId || !billForm.billDate}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {editingBill ? 'Save Bill' : 'Save Draft'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,1397 @@
+import { useState, useEffect, Fragment } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  accountsReceivableService,
+  CollectionStepInput,
+  COLLECTION_ACTION_LABELS,
+  COLLECTION_CASE_STATUS_LABELS,
+  COLLECTION_RESOLUTION_LABELS,
+  CONTACT_METHOD_LABELS,
+  CONTACT_OUTCOME_LABELS,
+} from '../../services/accountsReceivableService';
+import { AGING_BUCKET_LABELS } from '../../services/accountsPayableService';
+import {
+  paymentPlanService,
+  PAYMENT_PLAN_STATUS_LABELS,
+  PAYMENT_PLAN_FREQUENCY_LABELS,
+  INSTALLMENT_STATUS_LABELS,
+} from '../../services/paymentPlanService';
+import { propertyService } from '../../services/propertyService';
+import { ExportFormat } from '../../services/dataExportService';
+import {
+  AgingBucket,
+  CollectionActionType,
+  CollectionCase,
+  CollectionCaseStatus,
+  CollectionContact,
+  CollectionContactMethod,
+  CollectionContactOutcome,
+  CollectionResolution,
+  CollectionStep,
+  PaymentPlan,
+  PaymentPlanFrequency,
+  PaymentPlanInstallmentStatus,
+  PaymentPlanStatus,
+  Property,
+  ReceivablesAging,
+} from '../../types';
+import {
+  HandCoins,
+  RefreshCw,
+  Play,
+  MessageSquare,
+  CheckSquare,
+  CalendarClock,
+  Ban,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Plus,
+  Edit2,
+  Trash2,
+  CheckCircle,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+
+type Tab = 'aging' | 'collections' | 'plans' | 'steps';
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const STATUS_STYLES: Record<CollectionCaseStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-700',
+  handed_off: 'bg-red-100 text-red-700',
+  resolved: 'bg-green-100 text-green-700',
+};
+
+const PLAN_STATUS_STYLES: Record<PaymentPlanStatus, string> = {
+  proposed: 'bg-blue-100 text-blue-700',
+  active: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  defaulted: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+const INSTALLMENT_STATUS_STYLES: Record<PaymentPlanInstallmentStatus, string> = {
+  pending: 'text-gray-600',
+  met: 'text-green-600',
+  missed: 'text-red-600 font-medium',
+};
+
+const emptyContact = {
+  contactMethod: 'phone' as CollectionContactMethod,
+  direction: 'outbound' as 'outbound' | 'inbound',
+  outcome: 'spoke' as CollectionContactOutcome,
+  promisedAmount: '',
+  promisedDate: '',
+  notes: '',
+};
+
+export function AccountsReceivable() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('aging');
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // Aging
+  const [asOfDate, setAsOfDate] = useState(today());
+  const [propertyId, setPropertyId] = useState('');
+  const [aging, setAging] = useState<ReceivablesAging | null>(null);
+  const [isLoadingAging, setIsLoadingAging] = useState(true);
+
+  // Collections
+  const [caseFilter, setCaseFilter] = useState<CollectionCaseStatus>('open');
+  const [cases, setCases] = useState<CollectionCase[]>([]);
+  const [steps, setSteps] = useState<CollectionStep[]>([]);
+  const [expandedCaseId, setExpandedCaseId] = useState<string | null>(null);
+  const [contacts, setContacts] = useState<CollectionContact[]>([]);
+  const [contactCase, setContactCase] = useState<CollectionCase | null>(null);
+  const [contactForm, setContactForm] = useState(emptyContact);
+  const [resolveCase, setResolveCase] = useState<CollectionCase | null>(null);
+  const [resolveForm, setResolveForm] = useState({ resolution: 'paid' as CollectionResolution, notes: '' });
+
+  // Payment plans
+  const [planFilter, setPlanFilter] = useState<PaymentPlanStatus | ''>('');
+  const [plans, setPlans] = useState<PaymentPlan[]>([]);
+  const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null);
+  const [planCase, setPlanCase] = useState<CollectionCase | null>(null);
+  const [planForm, setPlanForm] = useState({
+    total: '',
+    installmentCount: '3',
+    frequency: 'monthly' as PaymentPlanFrequency,
+    firstDueDate: '',
+    graceDays: '3',
+    expiresOn: '',
+    terms: '',
+  });
+
+  // Steps
+  const [editingStep, setEditingStep] = useState<CollectionStep | null>(null);
+  const [showStepForm, setShowStepForm] = useState(false);
+  const [stepForm, setStepForm] = useState({
+    stepOrder: '',
+    name: '',
+    actionType: 'reminder' as CollectionActionType,
+    daysPastDue: '',
+    minBalance: '',
+    isActive: true,
+  });
+
+  useEffect(() => {
+    if (!currentBusiness) return;
+    propertyService.getAllProperties(currentBusiness.id).then(setProperties).catch(() => setProperties([]));
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (tab === 'aging') loadAging();
+  }, [currentBusiness?.id, tab, asOfDate, propertyId]);
+
+  useEffect(() => {
+    if (tab === 'collections') loadCases();
+  }, [currentBusiness?.id, tab, caseFilter]);
+
+  useEffect(() => {
+    if (tab === 'plans') loadPlans();
+  }, [currentBusiness?.id, tab, planFilter]);
+
+  useEffect(() => {
+    if (tab === 'steps' || tab === 'collections') loadSteps();
+  }, [currentBusiness?.id, tab]);
+
+  const loadAging = async () => {
+    if (!currentBusiness || !asOfDate) return;
+    setIsLoadingAging(true);
+    try {
+      setAging(await accountsReceivableService.getReceivablesAging(currentBusiness.id, asOfDate, propertyId || undefined));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load receivables aging');
+    } finally {
+      setIsLoadingAging(false);
+    }
+  };
+
+  const loadCases = async () => {
+    if (!currentBusiness) return;
+    try {
+      setCases(await accountsReceivableService.getCases(currentBusiness.id, caseFilter));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collections');
+    }
+  };
+
+  const loadPlans = async () => {
+    if (!currentBusiness) return;
+    try {
+      setPlans(await paymentPlanService.getPlans(currentBusiness.id, { status: planFilter || undefined }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payment plans');
+    }
+  };
+
+  const loadSteps = async () => {
+    if (!currentBusiness) return;
+    try {
+      setSteps(await accountsReceivableService.getSteps(currentBusiness.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load escalation steps');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // ========================================
+  // Collections
+  // ========================================
+
+  const handleRefresh = () => runAction(async () => {
+    const result = await accountsReceivableService.refreshQueue(currentBusiness!.id);
+    setNotice(`Queue refreshed: ${result.opened} opened, ${result.updated} updated, ${result.resolved} resolved`);
+    await Promise.all([loadCases(), loadSteps()]);
+  }, 'Failed to refresh the queue');
+
+  const handleRunEscalations = () => {
+    if (!window.confirm('Take the next due step on every open case? Tenants will be emailed.')) return;
+    runAction(async () => {
+      const result = await accountsReceivableService.runEscalations(currentBusiness!.id, userProfile?.id || null);
+      setNotice(`${result.processed} step${result.processed === 1 ? '' : 's'} taken, ${result.skipped} case${result.skipped === 1 ? '' : 's'} not due`);
+      if (result.errors.length > 0) setError(result.errors.join('; '));
+      await loadCases();
+    }, 'Failed to run escalations');
+  };
+
+  const nextStep = (c: CollectionCase) =>
+    steps.find(s => s.is_active && s.step_order > c.current_step_order);
+
+  const handleTakeStep = (c: CollectionCase, step: CollectionStep) => {
+    if (!window.confirm(`Take "${step.name}" now for ${c.tenant?.first_name} ${c.tenant?.last_name}?`)) return;
+    runAction(async () => {
+      await accountsReceivableService.takeStep(c.id, step.id, userProfile?.id || null);
+      setNotice(`${step.name} sent`);
+      await loadCases();
+      if (expandedCaseId === c.id) setContacts(await accountsReceivableService.getContacts(c.tenant_id));
+    }, 'Failed to take step');
+  };
+
+  const toggleCase = async (c: CollectionCase) => {
+    if (expandedCaseId === c.id) {
+      setExpandedCaseId(null);
+      return;
+    }
+    try {
+      setContacts(await accountsReceivableService.getContacts(c.tenant_id));
+      setExpandedCaseId(c.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load contact log');
+    }
+  };
+
+  const handleLogContact = () => {
+    if (!contactCase || !currentBusiness) return;
+    runAction(async () => {
+      await accountsReceivableService.logContact({
+        businessId: currentBusiness.id,
+        tenantId: contactCase.tenant_id,
+        caseId: contactCase.id,
+        contactMethod: contactForm.contactMethod,
+        direction: contactForm.direction,
+        outcome: contactForm.outcome,
+        promisedAmountCents: contactForm.promisedAmount ? Math.round(parseFloat(contactForm.promisedAmount) * 100) : undefined,
+        promisedDate: contactForm.promisedDate || undefined,
+        notes: contactForm.notes,
+      }, userProfile?.id || null);
+      setContactCase(null);
+      await loadCases();
+      if (expandedCaseId === contactCase.id) setContacts(await accountsReceivableService.getContacts(contactCase.tenant_id));
+    }, 'Failed to log contact');
+  };
+
+  const handleResolve = () => {
+    if (!resolveCase || !userProfile) return;
+    runAction(async () => {
+      await accountsReceivableService.resolveCase(resolveCase.id, userProfile.id, resolveForm.resolution, resolveForm.notes);
+      setResolveCase(null);
+      await loadCases();
+    }, 'Failed to resolve case');
+  };
+
+  // ========================================
+  // Payment Plans
+  // ========================================
+
+  const openPlanForm = (c: CollectionCase) => {
+    setPlanForm({
+      total: (c.past_due_cents / 100).toFixed(2),
+      installmentCount: '3',
+      frequency: 'monthly',
+      firstDueDate: '',
+      graceDays: '3',
+      expiresOn: '',
+      terms: '',
+    });
+    setPlanCase(c);
+  };
+
+  const planPreview = paymentPlanService.previewInstallments(
+    Math.round((parseFloat(planForm.total) || 0) * 100),
+    parseInt(planForm.installmentCount, 10) || 0,
+    planForm.frequency,
+    planForm.firstDueDate
+  );
+
+  const handleProposePlan = () => {
+    if (!planCase || !currentBusiness || !userProfile) return;
+    runAction(async () => {
+      await paymentPlanService.proposePlan({
+        businessId: currentBusiness.id,
+        tenantId: planCase.tenant_id,
+        collectionCaseId: planCase.id,
+        totalCents: Math.round((parseFloat(planForm.total) || 0) * 100),
+        installmentCount: parseInt(planForm.installmentCount, 10) || 0,
+        frequency: planForm.frequency,
+        firstDueDate: planForm.firstDueDate,
+        graceDays: parseInt(planForm.graceDays, 10) || 0,
+        expiresOn: planForm.expiresOn || undefined,
+        terms: planForm.terms,
+      }, userProfile.id);
+      setPlanCase(null);
+      setNotice(`Payment plan offered to ${planCase.tenant?.first_name} ${planCase.tenant?.last_name}`);
+    }, 'Failed to propose payment plan');
+  };
+
+  const handleCancelPlan = (plan: PaymentPlan) => {
+    const reason = window.prompt(
+      plan.status === 'proposed'
+        ? 'Withdraw this offer? Enter a reason:'
+        : 'End this plan? Late fees and collections resume. Enter a reason:'
+    );
+    if (reason === null || !userProfile) return;
+    runAction(async () => {
+      await paymentPlanService.cancelPlan(plan.id, userProfile.id, reason);
+      await loadPlans();
+    }, 'Failed to cancel payment plan');
+  };
+
+  const handleEvaluatePlans = () => runAction(async () => {
+    const changed = await paymentPlanService.evaluatePlans(currentBusiness!.id);
+    setNotice(`Plans checked: ${changed} plan${changed === 1 ? '' : 's'} changed status`);
+    await loadPlans();
+  }, 'Failed to check payment plans');
+
+  // ========================================
+  // Steps
+  // ========================================
+
+  const openStepForm = (step?: CollectionStep) => {
+    setEditingStep(step || null);
+    setStepForm(step
+      ? {
+          stepOrder: String(step.step_order),
+          name: step.name,
+          actionType: step.action_type,
+          daysPastDue: String(step.days_past_due),
+          minBalance: step.min_balance_cents ? (step.min_balance_cents / 100).toFixed(2) : '',
+          isActive: step.is_active,
+        }
+      : {
+          stepOrder: String((steps[steps.length - 1]?.step_order || 0) + 1),
+          name: '',
+          actionType: 'reminder',
+          daysPastDue: '',
+          minBalance: '',
+          isActive: true,
+        });
+    setShowStepForm(true);
+  };
+
+  const handleSaveStep = () => {
+    if (!currentBusiness) return;
+    const input: CollectionStepInput = {
+      stepOrder: parseInt(stepForm.stepOrder, 10) || 1,
+      name: stepForm.name,
+      actionType: stepForm.actionType,
+      daysPastDue: parseInt(stepForm.daysPastDue, 10) || 0,
+      minBalanceCents: Math.round((parseFloat(stepForm.minBalance) || 0) * 100),
+      isActive: stepForm.isActive,
+    };
+    runAction(async () => {
+      await accountsReceivableService.saveStep(currentBusiness.id, input, editingStep?.id);
+      setShowStepForm(false);
+      await loadSteps();
+    }, 'Failed to save step');
+  };
+
+  const handleDeleteStep = (step: CollectionStep) => {
+    if (!window.confirm(`Delete the step "${step.name}"?`)) return;
+    runAction(async () => {
+      await accountsReceivableService.deleteStep(step.id);
+      await loadSteps();
+    }, 'Failed to delete step');
+  };
+
+  const handleUseDefaults = () => runAction(async () => {
+    setSteps(await accountsReceivableService.ensureDefaultSteps(currentBusiness!.id));
+  }, 'Failed to create steps');
+
+  const handleExport = (format: ExportFormat) => {
+    if (!aging || !currentBusiness) return;
+    accountsReceivableService.exportReceivablesAging(aging, format, currentBusiness.business_name);
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const buckets = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[];
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'aging', label: 'Aging' },
+    { id: 'collections', label: 'Collections' },
+    { id: 'plans', label: 'Payment Plans' },
+    { id: 'steps', label: 'Escalation Steps' },
+  ];
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Accounts Receivable</h1>
+            <p className="text-gray-600 mt-1">What tenants owe, how long it has been owing, and collections</p>
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {/* Aging */}
+        {tab === 'aging' && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="date"
+                value={asOfDate}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <select
+                value={propertyId}
+                onChange={(e) => setPropertyId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All properties</option>
+                {properties.map(property => (
+                  <option key={property.id} value={property.id}>{property.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={!aging || aging.rows.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <Download size={18} />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={() => handleExport('pdf')}
+                disabled={!aging || aging.rows.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <Download size={18} />
+                <span>PDF</span>
+              </button>
+            </div>
+
+            {isLoadingAging ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-500">Building aging from tenant ledgers...</p>
+              </div>
+            ) : !aging || aging.rows.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <HandCoins className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Nothing Owing</h3>
+                <p className="text-gray-600">No tenant had a balance as of this date.</p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                  {buckets.map(bucket => (
+                    <div key={bucket} className="bg-white rounded-lg shadow p-4">
+                      <p className="text-xs text-gray-500">{AGING_BUCKET_LABELS[bucket]}</p>
+                      <p className={`text-lg font-bold ${bucket === 'days_over_90' && aging.totals[bucket] > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatCurrency(aging.totals[bucket])}
+                      </p>
+                    </div>
+                  ))}
+                  <div className="bg-white rounded-lg shadow p-4">
+                    <p className="text-xs text-gray-500">Total Owing</p>
+                    <p className="text-lg font-bold text-gray-900">{formatCurrency(aging.total_cents)}</p>
+                    {aging.unapplied_credit_cents > 0 && (
+                      <p className="text-xs text-gray-500">{formatCurrency(aging.unapplied_credit_cents)} in credits</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg shadow overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="bg-gray-50 border-b border-gray-200">
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Tenant</th>
+                        {buckets.map(bucket => (
+                          <th key={bucket} className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">
+                            {AGING_BUCKET_LABELS[bucket]}
+                          </th>
+                        ))}
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {aging.properties.map(property => (
+                        <Fragment key={property.property_id || 'none'}>
+                          <tr className="bg-gray-50 border-b border-gray-200">
+                            <td className="px-4 py-2 text-sm font-semibold text-gray-900">{property.property_name}</td>
+                            {buckets.map(bucket => (
+                              <td key={bucket} className="px-4 py-2 text-sm text-right font-semibold text-gray-900">
+                                {property.buckets[bucket] ? formatCurrency(property.buckets[bucket]) : ''}
+                              </td>
+                            ))}
+                            <td className="px-4 py-2 text-sm text-right font-semibold text-gray-900">{formatCurrency(property.total_cents)}</td>
+                          </tr>
+                          {aging.rows.filter(r => (r.property_id || '') === (property.property_id || '')).map(row => (
+                            <tr key={row.tenant_id} className="border-b border-gray-100 hover:bg-gray-50">
+                              <td className="px-4 py-3 pl-8 text-sm">
+                                <p className="font-medium text-gray-900">
+                                  {row.tenant_name}
+                                  {!row.is_current_tenant && <span className="ml-2 text-xs text-gray-500">(former)</span>}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  Unit {row.unit_number}
+                                  {row.unapplied_credit_cents > 0 && ` · ${formatCurrency(row.unapplied_credit_cents)} credit`}
+                                </p>
+                              </td>
+                              {buckets.map(bucket => (
+                                <td key={bucket} className="px-4 py-3 text-sm text-right text-gray-600">
+                                  {row.buckets[bucket] ? formatCurrency(row.buckets[bucket]) : ''}
+                                </td>
+                              ))}
+                              <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(row.total_cents)}</td>
+                            </tr>
+                          ))}
+                        </Fragment>
+                      ))}
+                      <tr className="bg-gray-100 font-semibold">
+                        <td className="px-4 py-3 text-sm text-gray-900">Total</td>
+                        {buckets.map(bucket => (
+                          <td key={bucket} className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(aging.totals[bucket])}</td>
+                        ))}
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(aging.total_cents)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        {/* Collections */}
+        {tab === 'collections' && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={caseFilter}
+                onChange={(e) => setCaseFilter(e.target.value as CollectionCaseStatus)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                {(Object.keys(COLLECTION_CASE_STATUS_LABELS) as CollectionCaseStatus[]).map(status => (
+                  <option key={status} value={status}>{COLLECTION_CASE_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleRefresh}
+                disabled={isWorking}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <RefreshCw size={18} />
+                <span>Refresh Queue</span>
+              </button>
+              <button
+                onClick={handleRunEscalations}
+                disabled={isWorking}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                <Play size={18} />
+                <span>Run Escalations</span>
+              </button>
+            </div>
+
+            {cases.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <HandCoins className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No {COLLECTION_CASE_STATUS_LABELS[caseFilter]} Cases</h3>
+                <p className="text-gray-600">Refresh the queue to pick up tenants with past-due balances.</p>
+              </div>
+            ) : (
+              <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 w-10"></th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Tenant</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Past Due</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Days</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Last Step</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cases.map(c => {
+                      const next = nextStep(c);
+                      return (
+                        <Fragment key={c.id}>
+                          <tr className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="px-4 py-3">
+                              <button onClick={() => toggleCase(c)} className="text-gray-400 hover:text-gray-600">
+                                {expandedCaseId === c.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                              </button>
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <p className="font-medium text-gray-900">{c.tenant?.first_name} {c.tenant?.last_name}</p>
+                              <p className="text-xs text-gray-500">
+                                {[c.tenant?.unit?.property?.name, c.tenant?.unit ? `Unit ${c.tenant.unit.unit_number}` : ''].filter(Boolean).join(' - ')}
+                              </p>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right">
+                              <p className="font-medium text-gray-900">{formatCurrency(c.past_due_cents)}</p>
+                              {c.balance_cents !== c.past_due_cents && (
+                                <p className="text-xs text-gray-500">{formatCurrency(c.balance_cents)} total</p>
+                              )}
+                            </td>
+                            <td className={`px-4 py-3 text-sm text-right ${c.days_past_due > 60 ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                              {c.days_past_due}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              {c.current_step ? c.current_step.name : 'None yet'}
+                              {c.last_action_at && <p className="text-xs text-gray-500">{formatDate(c.last_action_at)}</p>}
+                              {c.paused_until && c.paused_until >= today() && (
+                                <p className="text-xs text-blue-600">Paused until {formatDate(c.paused_until)}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[c.status]}`}>
+                                {COLLECTION_CASE_STATUS_LABELS[c.status]}
+                              </span>
+                              {c.resolution && (
+                                <p className="text-xs text-gray-500 mt-1">{COLLECTION_RESOLUTION_LABELS[c.resolution]}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              {c.status !== 'resolved' && (
+                                <div className="flex items-center justify-end gap-1">
+                                  {c.status === 'open' && next && (
+                                    <button
+                                      onClick={() => handleTakeStep(c, next)}
+                                      disabled={isWorking}
+                                      title={`Take next step: ${next.name}`}
+                                      className="p-2 text-gray-500 hover:text-blue-600 rounded-lg"
+                                    >
+                                      <Play size={16} />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => {
+                                      setContactForm(emptyContact);
+                                      setContactCase(c);
+                                    }}
+                                    disabled={isWorking}
+                                    title="Log contact"
+                                    className="p-2 text-gray-500 hover:text-blue-600 rounded-lg"
+                                  >
+                                    <MessageSquare size={16} />
+                                  </button>
+                                  {c.status === 'open' && (
+                                    <button
+                                      onClick={() => openPlanForm(c)}
+                                      disabled={isWorking}
+                                      title="Offer payment plan"
+                                      className="p-2 text-gray-500 hover:text-blue-600 rounded-lg"
+                                    >
+                                      <CalendarClock size={16} />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => {
+                                      setResolveForm({ resolution: 'paid', notes: '' });
+                                      setResolveCase(c);
+                                    }}
+                                    disabled={isWorking}
+                                    title="Resolve"
+                                    className="p-2 text-gray-500 hover:text-green-600 rounded-lg"
+                                  >
+                                    <CheckSquare size={16} />
+                                  </button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                          {expandedCaseId === c.id && (
+                            <tr className="bg-gray-50">
+                              <td></td>
+                              <td colSpan={6} className="px-4 py-3">
+                                {contacts.length === 0 ? (
+                                  <p className="text-sm text-gray-500">No contacts logged yet.</p>
+                                ) : (
+                                  <table className="w-full text-sm">
+                                    <tbody>
+                                      {contacts.map(contact => (
+                                        <tr key={contact.id} className="align-top">
+                                          <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">{formatDate(contact.contact_date)}</td>
+                                          <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">
+                                            {CONTACT_METHOD_LABELS[contact.contact_method]}
+                                            {contact.direction === 'inbound' && ' (from tenant)'}
+                                          </td>
+                                          <td className="py-1 pr-4 text-gray-900 whitespace-nowrap">{CONTACT_OUTCOME_LABELS[contact.outcome]}</td>
+                                          <td className="py-1 text-gray-600">
+                                            {contact.notes}
+                                            {contact.promised_date && (
+                                              <span className="text-blue-600">
+                                                {' '}Promised {contact.promised_amount_cents ? formatCurrency(contact.promised_amount_cents) : 'payment'} by {formatDate(contact.promised_date)}
+                                              </span>
+                                            )}
+                                          </td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                )}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Payment Plans */}
+        {tab === 'plans' && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={planFilter}
+                onChange={(e) => setPlanFilter(e.target.value as PaymentPlanStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All Plans</option>
+                {(Object.keys(PAYMENT_PLAN_STATUS_LABELS) as PaymentPlanStatus[]).map(status => (
+                  <option key={status} value={status}>{PAYMENT_PLAN_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleEvaluatePlans}
+                disabled={isWorking}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <RefreshCw size={18} />
+                <span>Check Installments</span>
+              </button>
+              <p className="text-sm text-gray-600">Offer a plan from an open case on the Collections tab.</p>
+            </div>
+
+            {plans.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <CalendarClock className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Payment Plans</h3>
+                <p className="text-gray-600">Plans offered to tenants with past-due balances appear here.</p>
+              </div>
+            ) : (
+              <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 w-10"></th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Tenant</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Amount</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Schedule</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Progress</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plans.map(plan => {
+                      const installments = plan.installments || [];
+                      const met = installments.filter(i => i.status === 'met').length;
+                      return (
+                        <Fragment key={plan.id}>
+                          <tr className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="px-4 py-3">
+                              <button
+                                onClick={() => setExpandedPlanId(expandedPlanId === plan.id ? null : plan.id)}
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                {expandedPlanId === plan.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                              </button>
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <p className="font-medium text-gray-900">{plan.tenant?.first_name} {plan.tenant?.last_name}</p>
+                              <p className="text-xs text-gray-500">
+                                {[plan.tenant?.unit?.property?.name, plan.tenant?.unit ? `Unit ${plan.tenant.unit.unit_number}` : ''].filter(Boolean).join(' - ')}
+                              </p>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(plan.total_cents)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              {plan.installment_count} x {PAYMENT_PLAN_FREQUENCY_LABELS[plan.frequency].toLowerCase()}
+                              <p className="text-xs text-gray-500">From {formatDate(plan.first_due_date)}</p>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              {met} of {installments.length} met
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${PLAN_STATUS_STYLES[plan.status]}`}>
+                                {PAYMENT_PLAN_STATUS_LABELS[plan.status]}
+                              </span>
+                              {plan.status === 'proposed' && plan.expires_on && (
+                                <p className="text-xs text-gray-500 mt-1">Offer expires {formatDate(plan.expires_on)}</p>
+                              )}
+                              {plan.cancel_reason && (
+                                <p className="text-xs text-gray-500 mt-1">{plan.cancel_reason}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              {(plan.status === 'proposed' || plan.status === 'active') && (
+                                <div className="flex items-center justify-end gap-1">
+                                  <button
+                                    onClick={() => handleCancelPlan(plan)}
+                                    disabled={isWorking}
+                                    title={plan.status === 'proposed' ? 'Withdraw offer' : 'End plan'}
+                                    className="p-2 text-gray-500 hover:text-red-600 rounded-lg"
+                                  >
+                                    <Ban size={16} />
+                                  </button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                          {expandedPlanId === plan.id && (
+                            <tr className="bg-gray-50">
+                              <td></td>
+                              <td colSpan={6} className="px-4 py-3">
+                                <table className="w-full text-sm">
+                                  <tbody>
+                                    {installments.map(i => (
+                                      <tr key={i.id}>
+                                        <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">#{i.installment_number}</td>
+                                        <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">{formatDate(i.due_date)}</td>
+                                        <td className="py-1 pr-4 text-gray-900 whitespace-nowrap">{formatCurrency(i.amount_cents)}</td>
+                                        <td className={`py-1 ${INSTALLMENT_STATUS_STYLES[i.status]}`}>
+                                          {INSTALLMENT_STATUS_LABELS[i.status]}
+                                          {i.reminder_notification_id && i.status === 'pending' && (
+                                            <span className="text-gray-500"> (reminder sent)</span>
+                                          )}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                                {plan.terms && <p className="text-sm text-gray-600 mt-2">{plan.terms}</p>}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Escalation Steps */}
+        {tab === 'steps' && (
+          <>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Steps are taken in order, one per run, once a case is far enough past due.
+              </p>
+              <button
+                onClick={() => openStepForm()}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+              >
+                <Plus size={18} />
+                <span>Add Step</span>
+              </button>
+            </div>
+
+            {steps.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <HandCoins className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Escalation Steps</h3>
+                <p className="text-gray-600 mb-4">Start with a reminder, formal notice, payment plan offer and handoff.</p>
+                <button
+                  onClick={handleUseDefaults}
+                  disabled={isWorking}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  Use Default Steps
+                </button>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">#</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Step</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Action</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Days Past Due</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Minimum</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {steps.map(step => (
+                      <tr key={step.id} className={`border-b border-gray-100 hover:bg-gray-50 ${step.is_active ? '' : 'opacity-50'}`}>
+                        <td className="px-4 py-3 text-sm text-gray-600">{step.step_order}</td>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {step.name}
+                          {!step.is_active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{COLLECTION_ACTION_LABELS[step.action_type]}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">{step.days_past_due}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">
+                          {step.min_balance_cents ? formatCurrency(step.min_balance_cents) : ''}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center justify-end gap-1">
+                            <button onClick={() => openStepForm(step)} title="Edit" className="p-2 text-gray-500 hover:text-blue-600 rounded-lg">
+                              <Edit2 size={16} />
+                            </button>
+                            <button onClick={() => handleDeleteStep(step)} disabled={isWorking} title="Delete" className="p-2 text-gray-500 hover:text-red-600 rounded-lg">
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Log Contact Modal */}
+      {contactCase && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">
+                Log Contact: {contactCase.tenant?.first_name} {contactCase.tenant?.last_name}
+              </h2>
+              <button onClick={() => setContactCase(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                  <select
+                    value={contactForm.contactMethod}
+                    onChange={(e) => setContactForm({ ...contactForm, contactMethod: e.target.value as CollectionContactMethod })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {(Object.keys(CONTACT_METHOD_LABELS) as CollectionContactMethod[]).map(method => (
+                      <option key={method} value={method}>{CONTACT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Direction</label>
+                  <select
+                    value={contactForm.direction}
+                    onChange={(e) => setContactForm({ ...contactForm, direction: e.target.value as 'outbound' | 'inbound' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="outbound">We contacted the tenant</option>
+                    <option value="inbound">The tenant contacted us</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Outcome</label>
+                <select
+                  value={contactForm.outcome}
+                  onChange={(e) => setContactForm({ ...contactForm, outcome: e.target.value as CollectionContactOutcome })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {(Object.keys(CONTACT_OUTCOME_LABELS) as CollectionContactOutcome[]).map(outcome => (
+                    <option key={outcome} value={outcome}>{CONTACT_OUTCOME_LABELS[outcome]}</option>
+                  ))}
+                </select>
+              </div>
+              {contactForm.outcome === 'promised_to_pay' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Amount promised</label>
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={contactForm.promisedAmount}
+                      onChange={(e) => setContactForm({ ...contactForm, promisedAmount: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">By</label>
+                    <input
+                      type="date"
+                      value={contactForm.promisedDate}
+                      onChange={(e) => setContactForm({ ...contactForm, promisedDate: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500">Escalation is paused until this date.</p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={contactForm.notes}
+                  onChange={(e) => setContactForm({ ...contactForm, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setContactCase(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleLogContact}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Log Contact
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Resolve Modal */}
+      {resolveCase && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Resolve Case</h2>
+              <button onClick={() => setResolveCase(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Resolution</label>
+                <select
+                  value={resolveForm.resolution}
+                  onChange={(e) => setResolveForm({ ...resolveForm, resolution: e.target.value as CollectionResolution })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {(Object.keys(COLLECTION_RESOLUTION_LABELS) as CollectionResolution[]).map(resolution => (
+                    <option key={resolution} value={resolution}>{COLLECTION_RESOLUTION_LABELS[resolution]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={resolveForm.notes}
+                  onChange={(e) => setResolveForm({ ...resolveForm, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                If the tenant still has a past-due balance, the next queue refresh opens a new case.
+              </p>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setResolveCase(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleResolve}
+                disabled={isWorking}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+              >
+                Resolve
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Payment Plan Modal */}
+      {planCase && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">
+                Payment Plan: {planCase.tenant?.first_name} {planCase.tenant?.last_name}
+              </h2>
+              <button onClick={() => setPlanCase(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={planForm.total}
+                    onChange={(e) => setPlanForm({ ...planForm, total: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Installments</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={planForm.installmentCount}
+                    onChange={(e) => setPlanForm({ ...planForm, installmentCount: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+                  <select
+                    value={planForm.frequency}
+                    onChange={(e) => setPlanForm({ ...planForm, frequency: e.target.value as PaymentPlanFrequency })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {(Object.keys(PAYMENT_PLAN_FREQUENCY_LABELS) as PaymentPlanFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{PAYMENT_PLAN_FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">First installment due</label>
+                  <input
+                    type="date"
+                    min={today()}
+                    value={planForm.firstDueDate}
+                    onChange={(e) => setPlanForm({ ...planForm, firstDueDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Grace days</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={planForm.graceDays}
+                    onChange={(e) => setPlanForm({ ...planForm, graceDays: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Offer expires</label>
+                  <input
+                    type="date"
+                    min={today()}
+                    max={planForm.firstDueDate || undefined}
+                    value={planForm.expiresOn}
+                    onChange={(e) => setPlanForm({ ...planForm, expiresOn: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Terms</label>
+                <textarea
+                  value={planForm.terms}
+                  onChange={(e) => setPlanForm({ ...planForm, terms: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              {planPreview.length > 0 && (
+                <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                  {planPreview.map(i => (
+                    <div key={i.installment_number} className="flex justify-between text-gray-600">
+                      <span>#{i.installment_number} on {formatDate(i.due_date)}</span>
+                      <span className="text-gray-900">{formatCurrency(i.amount_cents)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                The tenant accepts the plan in their portal. Installments are due on top of regular rent. An installment not
+                covered within the grace days ends the plan, and late fees and collections resume.
+              </p>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setPlanCase(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleProposePlan}
+                disabled={isWorking || planPreview.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Offer Plan
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Step Modal */}
+      {showStepForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{editingStep ? 'Edit Step' : 'Add Step'}</h2>
+              <button onClick={() => setShowStepForm(false)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Order</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={stepForm.stepOrder}
+                    onChange={(e) => setStepForm({ ...stepForm, stepOrder: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div className="col-span-3">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={stepForm.name}
+                    onChange={(e) => setStepForm({ ...stepForm, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                <select
+                  value={stepForm.actionType}
+                  onChange={(e) => setStepForm({ ...stepForm, actionType: e.target.value as CollectionActionType })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {(Object.keys(COLLECTION_ACTION_LABELS) as CollectionActionType[]).map(action => (
+                    <option key={action} value={action}>{COLLECTION_ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+                {stepForm.actionType === 'handoff' && (
+                  <p className="text-xs text-gray-500 mt-1">Marks the case handed off. It is no longer escalated or resolved automatically.</p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Days past due</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={stepForm.daysPastDue}
+                    onChange={(e) => setStepForm({ ...stepForm, daysPastDue: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Minimum past due</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={stepForm.minBalance}
+                    onChange={(e) => setStepForm({ ...stepForm, minBalance: e.target.value })}
+                    placeholder="0.00"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={stepForm.isActive}
+                  onChange={(e) => setStepForm({ ...stepForm, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowStepForm(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveStep}
+                disabled={isWorking || !stepForm.name.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save Step
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
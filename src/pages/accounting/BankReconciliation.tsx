@@ -0,0 +1,963 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  bankReconciliationService,
+  BankLedgerEntry,
+  ReconciliationReport,
+} from '../../services/bankReconciliationService';
+import { glAccountService } from '../../services/glAccountService';
+import { BankReconciliation as BankReconciliationRecord, BankStatement, BankStatementLine, GLAccount } from '../../types';
+import { exportBankReconciliation } from '../../utils/exportHelpers';
+import {
+  Landmark,
+  Upload,
+  Wand2,
+  Link2,
+  Unlink,
+  Plus,
+  Ban,
+  RotateCcw,
+  CheckCircle,
+  Download,
+  X,
+  AlertCircle,
+  Lock,
+  Trash2,
+} from 'lucide-react';
+
+type LineView = 'unmatched' | 'matched' | 'excluded' | 'all';
+
+export function BankReconciliation() {
+  const { currentBusiness, userProfile } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [bankAccounts, setBankAccounts] = useState<GLAccount[]>([]);
+  const [postingAccounts, setPostingAccounts] = useState<GLAccount[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<BankLedgerEntry[]>([]);
+  const [reconciliations, setReconciliations] = useState<BankReconciliationRecord[]>([]);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [lineView, setLineView] = useState<LineView>('unmatched');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [matchLine, setMatchLine] = useState<BankStatementLine | null>(null);
+  const [matchAmounts, setMatchAmounts] = useState<Record<string, string>>({});
+  const [journalLine, setJournalLine] = useState<BankStatementLine | null>(null);
+  const [journalMemo, setJournalMemo] = useState('');
+  const [splits, setSplits] = useState<{ accountId: string; amount: string }[]>([]);
+  const [showStartForm, setShowStartForm] = useState(false);
+  const [startForm, setStartForm] = useState({ statementId: '', periodStart: '', periodEnd: '', endingBalance: '' });
+
+  const activeReconciliation = reconciliations.find(r => r.status === 'in_progress') || null;
+
+  useEffect(() => {
+    loadAccounts();
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (accountId) {
+      loadAccountData();
+    }
+  }, [accountId]);
+
+  const loadAccounts = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      const [banks, posting] = await Promise.all([
+        glAccountService.getBankAccounts(currentBusiness.id),
+        glAccountService.getPostingAccounts(currentBusiness.id),
+      ]);
+      setBankAccounts(banks);
+      setPostingAccounts(posting);
+      if (banks.length > 0 && !banks.some(a => a.id === accountId)) {
+        setAccountId(banks[0]!.id);
+      }
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bank accounts');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAccountData = async () => {
+    try {
+      const [stmts, stmtLines, entries, recs] = await Promise.all([
+        bankReconciliationService.getStatements(accountId),
+        bankReconciliationService.getStatementLines(accountId),
+        bankReconciliationService.getBankLedgerEntries(accountId),
+        bankReconciliationService.getReconciliations(accountId),
+      ]);
+      setStatements(stmts);
+      setLines(stmtLines);
+      setLedgerEntries(entries);
+      setReconciliations(recs);
+
+      const active = recs.find(r => r.status === 'in_progress');
+      setReport(active ? await bankReconciliationService.getReconciliationReport(active.id) : null);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reconciliation data');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      await loadAccountData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentBusiness || !userProfile) return;
+
+    await runAction(async () => {
+      const content = await file.text();
+      const result = await bankReconciliationService.importStatement(
+        currentBusiness.id,
+        userProfile.id,
+        accountId,
+        file.name,
+        content
+      );
+      setNotice(
+        `Imported ${result.imported} transaction${result.imported === 1 ? '' : 's'} from ${file.name}` +
+          (result.duplicates > 0 ? ` (${result.duplicates} already imported, skipped)` : '')
+      );
+    }, 'Failed to import statement');
+  };
+
+  const handleAutoMatch = async () => {
+    if (!currentBusiness || !userProfile) return;
+    await runAction(async () => {
+      const matched = await bankReconciliationService.autoMatch(
+        currentBusiness.id,
+        userProfile.id,
+        accountId,
+        activeReconciliation?.period_end
+      );
+      setNotice(`Auto-matched ${matched} transaction${matched === 1 ? '' : 's'}`);
+    }, 'Failed to auto-match transactions');
+  };
+
+  const openMatchModal = (line: BankStatementLine) => {
+    setMatchLine(line);
+    setMatchAmounts({});
+  };
+
+  const handleMatch = async () => {
+    if (!matchLine || !currentBusiness || !userProfile) return;
+    const allocations = Object.entries(matchAmounts)
+      .map(([journalEntryId, amount]) => ({ journalEntryId, amountCents: Math.round(parseFloat(amount) * 100) }))
+      .filter(a => !isNaN(a.amountCents) && a.amountCents !== 0);
+
+    await runAction(async () => {
+      await bankReconciliationService.matchLine(currentBusiness.id, userProfile.id, matchLine, allocations);
+      setMatchLine(null);
+    }, 'Failed to match transaction');
+  };
+
+  const openJournalModal = (line: BankStatementLine) => {
+    setJournalLine(line);
+    setJournalMemo(line.description || '');
+    setSplits([{ accountId: '', amount: (Math.abs(line.amount_cents) / 100).toFixed(2) }]);
+  };
+
+  const handleCreateJournal = async () => {
+    if (!journalLine || !currentBusiness || !userProfile) return;
+    if (splits.some(s => !s.accountId)) {
+      setError('Select an account for each split');
+      return;
+    }
+
+    await runAction(async () => {
+      await bankReconciliationService.createJournalForLine(
+        currentBusiness.id,
+        userProfile.id,
+        journalLine,
+        splits.map(s => ({ accountId: s.accountId, amountCents: Math.round(parseFloat(s.amount) * 100) })),
+        journalMemo
+      );
+      setJournalLine(null);
+    }, 'Failed to create journal');
+  };
+
+  const openStartForm = () => {
+    const latest = statements[0];
+    const lastCompleted = reconciliations.find(r => r.status === 'completed');
+    setStartForm({
+      statementId: latest?.id || '',
+      periodStart: latest?.statement_start_date || lastCompleted?.period_end || '',
+      periodEnd: latest?.statement_end_date || '',
+      endingBalance: latest?.closing_balance_cents != null ? (latest.closing_balance_cents / 100).toFixed(2) : '',
+    });
+    setShowStartForm(true);
+  };
+
+  const handleStatementChange = (statementId: string) => {
+    const statement = statements.find(s => s.id === statementId);
+    setStartForm(prev => ({
+      ...prev,
+      statementId,
+      periodStart: statement?.statement_start_date || prev.periodStart,
+      periodEnd: statement?.statement_end_date || prev.periodEnd,
+      endingBalance: statement?.closing_balance_cents != null
+        ? (statement.closing_balance_cents / 100).toFixed(2)
+        : prev.endingBalance,
+    }));
+  };
+
+  const handleStartReconciliation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentBusiness || !userProfile) return;
+    await runAction(async () => {
+      await bankReconciliationService.startReconciliation(currentBusiness.id, userProfile.id, {
+        accountId,
+        statementId: startForm.statementId || undefined,
+        periodStart: startForm.periodStart,
+        periodEnd: startForm.periodEnd,
+        statementEndingBalanceCents: Math.round(parseFloat(startForm.endingBalance) * 100),
+      });
+      setShowStartForm(false);
+    }, 'Failed to start reconciliation');
+  };
+
+  const handleComplete = async () => {
+    if (!activeReconciliation) return;
+    if (!window.confirm('Complete this reconciliation? Matched journal entries will be locked.')) return;
+    await runAction(async () => {
+      await bankReconciliationService.completeReconciliation(activeReconciliation.id);
+      setNotice('Reconciliation completed');
+    }, 'Failed to complete reconciliation');
+  };
+
+  const handleCancel = async () => {
+    if (!activeReconciliation) return;
+    if (!window.confirm('Discard this reconciliation? Matches are kept.')) return;
+    await runAction(
+      () => bankReconciliationService.cancelReconciliation(activeReconciliation.id),
+      'Failed to cancel reconciliation'
+    );
+  };
+
+  const handleReopen = async (reconciliation: BankReconciliationRecord) => {
+    if (!window.confirm(`Reopen the reconciliation ending ${reconciliation.period_end}? Its entries will be unlocked.`)) return;
+    await runAction(async () => {
+      await bankReconciliationService.reopenReconciliation(reconciliation.id);
+    }, 'Failed to reopen reconciliation');
+  };
+
+  const handleExport = async (reconciliationId: string, format: 'csv' | 'pdf') => {
+    try {
+      const data = await bankReconciliationService.getReconciliationReport(reconciliationId);
+      exportBankReconciliation(data, format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export reconciliation');
+    }
+  };
+
+  const handleDeleteStatement = async (statement: BankStatement) => {
+    if (!window.confirm(`Delete ${statement.file_name || 'this statement'} and its ${statement.line_count} transactions?`)) return;
+    await runAction(
+      () => bankReconciliationService.deleteStatement(statement.id),
+      'Failed to delete statement'
+    );
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const getLineStatusBadge = (line: BankStatementLine) => {
+    const styles: Record<string, string> = {
+      unmatched: 'bg-yellow-100 text-yellow-700',
+      matched: 'bg-green-100 text-green-700',
+      excluded: 'bg-gray-100 text-gray-600',
+    };
+    const matchType = line.matches?.[0]?.match_type;
+    return (
+      <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${styles[line.status]}`}>
+        {line.status}
+        {line.status === 'matched' && matchType && matchType !== 'manual' && ` (${matchType})`}
+      </span>
+    );
+  };
+
+  const visibleLines = lineView === 'all' ? lines : lines.filter(l => l.status === lineView);
+  const matchTotal = Object.values(matchAmounts)
+    .reduce((sum, amount) => sum + (Math.round(parseFloat(amount) * 100) || 0), 0);
+  const splitTotal = splits.reduce((sum, s) => sum + (Math.round(parseFloat(s.amount) * 100) || 0), 0);
+  const latestCompletedId = reconciliations.find(r => r.status === 'completed')?.id;
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 overflow-auto">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading bank accounts...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Bank Reconciliation</h1>
+              <p className="text-gray-600 mt-1">Import bank statements and match them to the ledger</p>
+            </div>
+            {bankAccounts.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+                <select
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                >
+                  {bankAccounts.map(account => (
+                    <option key={account.id} value={account.id}>
+                      {account.account_number} - {account.account_name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".ofx,.qfx,.csv"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isWorking}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  <Upload size={18} />
+                  <span className="hidden sm:inline">Import Statement</span>
+                </button>
+                <button
+                  onClick={handleAutoMatch}
+                  disabled={isWorking}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  <Wand2 size={18} />
+                  <span className="hidden sm:inline">Auto-Match</span>
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {bankAccounts.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <Landmark className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No Bank Accounts</h3>
+            <p className="text-gray-600">
+              Mark a cash account as a bank account in the Chart of Accounts to reconcile it.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Current Reconciliation */}
+            <div className="bg-white rounded-lg shadow p-6">
+              {activeReconciliation && report ? (
+                <>
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">
+                        Reconciling {formatDate(activeReconciliation.period_start)} – {formatDate(activeReconciliation.period_end)}
+                      </h2>
+                      <p className="text-sm text-gray-500">
+                        {report.summary.unmatchedLineCount} unmatched statement line{report.summary.unmatchedLineCount === 1 ? '' : 's'} in this period
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleExport(activeReconciliation.id, 'pdf')}
+                        className="flex items-center gap-2 px-3 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition text-sm"
+                      >
+                        <Download size={16} />
+                        Report
+                      </button>
+                      <button
+                        onClick={handleCancel}
+                        disabled={isWorking}
+                        className="px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition text-sm disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleComplete}
+                        disabled={isWorking || report.summary.differenceCents !== 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm disabled:opacity-50"
+                      >
+                        <Lock size={16} />
+                        Complete
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <p className="text-sm text-gray-600">Statement Ending Balance</p>
+                      <p className="text-xl font-bold text-gray-900">{formatCurrency(report.summary.statementEndingBalanceCents)}</p>
+                    </div>
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <p className="text-sm text-gray-600">Cleared Balance</p>
+                      <p className="text-xl font-bold text-gray-900">{formatCurrency(report.summary.clearedBalanceCents)}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Opening {formatCurrency(report.summary.openingBalanceCents)}, +{formatCurrency(report.summary.clearedDepositsCents)} / -{formatCurrency(report.summary.clearedWithdrawalsCents)}
+                      </p>
+                    </div>
+                    <div className={`p-4 rounded-lg ${report.summary.differenceCents === 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                      <p className={`text-sm ${report.summary.differenceCents === 0 ? 'text-green-600' : 'text-red-600'}`}>Difference</p>
+                      <p className={`text-xl font-bold ${report.summary.differenceCents === 0 ? 'text-green-700' : 'text-red-700'}`}>
+                        {formatCurrency(report.summary.differenceCents)}
+                      </p>
+                    </div>
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <p className="text-sm text-gray-600">Book Balance</p>
+                      <p className="text-xl font-bold text-gray-900">{formatCurrency(report.summary.bookBalanceCents)}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        In transit {formatCurrency(report.summary.outstandingDepositsCents)}, outstanding {formatCurrency(report.summary.outstandingWithdrawalsCents)}
+                      </p>
+                    </div>
+                  </div>
+                </>
+              ) : showStartForm ? (
+                <form onSubmit={handleStartReconciliation} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Statement</label>
+                    <select
+                      value={startForm.statementId}
+                      onChange={(e) => handleStatementChange(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                    >
+                      <option value="">None</option>
+                      {statements.map(s => (
+                        <option key={s.id} value={s.id}>
+                          {s.file_name || s.file_format.toUpperCase()} ({s.statement_end_date})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Period Start</label>
+                    <input
+                      type="date"
+                      required
+                      value={startForm.periodStart}
+                      onChange={(e) => setStartForm(prev => ({ ...prev, periodStart: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Period End</label>
+                    <input
+                      type="date"
+                      required
+                      value={startForm.periodEnd}
+                      onChange={(e) => setStartForm(prev => ({ ...prev, periodEnd: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Ending Balance</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      required
+                      value={startForm.endingBalance}
+                      onChange={(e) => setStartForm(prev => ({ ...prev, endingBalance: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setShowStartForm(false)}
+                      className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition text-sm"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isWorking}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm disabled:opacity-50"
+                    >
+                      Start
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">No reconciliation in progress</h2>
+                    <p className="text-sm text-gray-500">
+                      {reconciliations[0]
+                        ? `Last reconciled through ${formatDate(reconciliations[0].period_end)}`
+                        : 'This account has not been reconciled yet'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={openStartForm}
+                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+                  >
+                    <Plus size={18} />
+                    Start Reconciliation
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Statement Lines */}
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-gray-900">Statement Transactions</h2>
+                <div className="flex gap-1">
+                  {(['unmatched', 'matched', 'excluded', 'all'] as LineView[]).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setLineView(view)}
+                      className={`px-3 py-1 rounded-lg text-sm capitalize ${lineView === view ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+                    >
+                      {view} ({view === 'all' ? lines.length : lines.filter(l => l.status === view).length})
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {visibleLines.length === 0 ? (
+                <p className="p-8 text-center text-gray-500">
+                  {lines.length === 0 ? 'Import an OFX, QFX or CSV statement to get started.' : 'No transactions in this view.'}
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="bg-gray-50 border-b border-gray-200">
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Date</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Description</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Reference</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Amount</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleLines.map(line => (
+                        <tr key={line.id} className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDate(line.transaction_date)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900 max-w-xs truncate">{line.description || '-'}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{line.reference || '-'}</td>
+                          <td className={`px-4 py-3 text-right font-mono text-sm ${line.amount_cents < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                            {formatCurrency(line.amount_cents)}
+                          </td>
+                          <td className="px-4 py-3">{getLineStatusBadge(line)}</td>
+                          <td className="px-4 py-3 text-right">
+                            <div className="flex items-center justify-end gap-1">
+                              {line.status === 'unmatched' && (
+                                <>
+                                  <button
+                                    onClick={() => openMatchModal(line)}
+                                    className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                                    title="Match to ledger entries"
+                                  >
+                                    <Link2 className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => openJournalModal(line)}
+                                    className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded"
+                                    title="Create journal"
+                                  >
+                                    <Plus className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => runAction(() => bankReconciliationService.setLineExcluded(line.id, true), 'Failed to exclude transaction')}
+                                    className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded"
+                                    title="Exclude"
+                                  >
+                                    <Ban className="w-4 h-4" />
+                                  </button>
+                                </>
+                              )}
+                              {line.status === 'matched' && (
+                                <button
+                                  onClick={() => runAction(() => bankReconciliationService.unmatchLine(line.id), 'Failed to unmatch transaction')}
+                                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                                  title="Unmatch"
+                                >
+                                  <Unlink className="w-4 h-4" />
+                                </button>
+                              )}
+                              {line.status === 'excluded' && (
+                                <button
+                                  onClick={() => runAction(() => bankReconciliationService.setLineExcluded(line.id, false), 'Failed to include transaction')}
+                                  className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                                  title="Include again"
+                                >
+                                  <RotateCcw className="w-4 h-4" />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Outstanding Ledger Entries */}
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">Unmatched Ledger Entries</h2>
+                <p className="text-sm text-gray-500">Posted entries on this account not yet matched to the bank statement</p>
+              </div>
+              {ledgerEntries.filter(e => e.amount_cents !== e.matched_cents).length === 0 ? (
+                <p className="p-8 text-center text-gray-500">All posted entries are matched.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="bg-gray-50 border-b border-gray-200">
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Journal #</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Date</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Description</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Unmatched</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ledgerEntries.filter(e => e.amount_cents !== e.matched_cents).map(entry => (
+                        <tr key={entry.id} className="border-b border-gray-100">
+                          <td className="px-4 py-3 font-mono text-sm text-blue-600">{entry.journal_number}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDate(entry.journal_date)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900 max-w-xs truncate">
+                            {entry.description || entry.memo || '-'}
+                            {entry.reference && <span className="text-gray-500"> · {entry.reference}</span>}
+                          </td>
+                          <td className={`px-4 py-3 text-right font-mono text-sm ${entry.amount_cents < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                            {formatCurrency(entry.amount_cents - entry.matched_cents)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Statements and History */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900">Imported Statements</h2>
+                </div>
+                {statements.length === 0 ? (
+                  <p className="p-6 text-center text-gray-500">No statements imported.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {statements.map(statement => (
+                      <li key={statement.id} className="px-6 py-3 flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{statement.file_name || statement.file_format.toUpperCase()}</p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(statement.statement_start_date)} – {formatDate(statement.statement_end_date)} · {statement.line_count} transactions
+                            {statement.duplicate_count > 0 && `, ${statement.duplicate_count} duplicates skipped`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleDeleteStatement(statement)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                          title="Delete statement"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900">Reconciliation History</h2>
+                </div>
+                {reconciliations.filter(r => r.status === 'completed').length === 0 ? (
+                  <p className="p-6 text-center text-gray-500">No completed reconciliations.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {reconciliations.filter(r => r.status === 'completed').map(rec => (
+                      <li key={rec.id} className="px-6 py-3 flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {formatDate(rec.period_start)} – {formatDate(rec.period_end)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Ending balance {formatCurrency(rec.statement_ending_balance_cents)}
+                            {rec.completed_at && ` · completed ${new Date(rec.completed_at).toLocaleDateString('en-CA')}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => handleExport(rec.id, 'csv')}
+                            className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                            title="Export CSV"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                          {rec.id === latestCompletedId && !activeReconciliation && (
+                            <button
+                              onClick={() => handleReopen(rec)}
+                              className="p-1.5 text-gray-400 hover:text-yellow-600 hover:bg-yellow-50 rounded"
+                              title="Reopen"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Match Modal */}
+      {matchLine && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Match Transaction</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {formatDate(matchLine.transaction_date)} · {matchLine.description} · {formatCurrency(matchLine.amount_cents)}
+                </p>
+              </div>
+              <button onClick={() => setMatchLine(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6">
+              <p className="text-sm text-gray-600 mb-4">
+                Enter the amount to match against each ledger entry. Split a deposit across several entries, or part of an entry across several deposits.
+              </p>
+              {ledgerEntries.filter(e => e.amount_cents !== e.matched_cents && Math.sign(e.amount_cents) === Math.sign(matchLine.amount_cents)).length === 0 ? (
+                <p className="text-center text-gray-500 py-6">No unmatched ledger entries in this direction.</p>
+              ) : (
+                <table className="w-full">
+                  <tbody>
+                    {ledgerEntries
+                      .filter(e => e.amount_cents !== e.matched_cents && Math.sign(e.amount_cents) === Math.sign(matchLine.amount_cents))
+                      .map(entry => {
+                        const remaining = entry.amount_cents - entry.matched_cents;
+                        return (
+                          <tr key={entry.id} className="border-b border-gray-100">
+                            <td className="py-2 text-sm">
+                              <span className="font-mono text-blue-600">{entry.journal_number}</span>
+                              <span className="text-gray-500 ml-2">{formatDate(entry.journal_date)}</span>
+                              <p className="text-gray-700 truncate max-w-xs">{entry.description || entry.memo || '-'}</p>
+                            </td>
+                            <td className="py-2 text-right font-mono text-sm text-gray-600">{formatCurrency(remaining)}</td>
+                            <td className="py-2 pl-4 w-36">
+                              <div className="flex gap-1">
+                                <input
+                                  type="number"
+                                  step="0.01"
+                                  value={matchAmounts[entry.id] || ''}
+                                  onChange={(e) => setMatchAmounts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                                  className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                                />
+                                <button
+                                  type="button"
+                                  onClick={() => setMatchAmounts(prev => ({
+                                    ...prev,
+                                    [entry.id]: (Math.sign(remaining) * Math.min(Math.abs(remaining), Math.abs(matchLine.amount_cents - matchTotal)) / 100).toFixed(2),
+                                  }))}
+                                  className="px-2 text-xs text-blue-600 hover:bg-blue-50 rounded"
+                                >
+                                  Fill
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                  </tbody>
+                </table>
+              )}
+              <div className="mt-4 flex justify-between text-sm">
+                <span className="text-gray-600">Matched {formatCurrency(matchTotal)} of {formatCurrency(matchLine.amount_cents)}</span>
+                <span className={matchTotal === matchLine.amount_cents ? 'text-green-600' : 'text-red-600'}>
+                  Remaining {formatCurrency(matchLine.amount_cents - matchTotal)}
+                </span>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button onClick={() => setMatchLine(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleMatch}
+                disabled={isWorking || matchTotal !== matchLine.amount_cents}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Match
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create Journal Modal */}
+      {journalLine && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Create Journal</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {journalLine.amount_cents > 0 ? 'Deposit' : 'Withdrawal'} of {formatCurrency(Math.abs(journalLine.amount_cents))} on {formatDate(journalLine.transaction_date)}
+                </p>
+              </div>
+              <button onClick={() => setJournalLine(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Memo</label>
+                <input
+                  type="text"
+                  value={journalMemo}
+                  onChange={(e) => setJournalMemo(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {journalLine.amount_cents > 0 ? 'Credit to' : 'Debit to'}
+                </label>
+                <div className="space-y-2">
+                  {splits.map((split, index) => (
+                    <div key={index} className="flex gap-2">
+                      <select
+                        value={split.accountId}
+                        onChange={(e) => setSplits(prev => prev.map((s, i) => i === index ? { ...s, accountId: e.target.value } : s))}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        <option value="">Select account...</option>
+                        {postingAccounts.filter(a => a.id !== journalLine.account_id).map(account => (
+                          <option key={account.id} value={account.id}>
+                            {account.account_number} - {account.account_name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={split.amount}
+                        onChange={(e) => setSplits(prev => prev.map((s, i) => i === index ? { ...s, amount: e.target.value } : s))}
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                      {splits.length > 1 && (
+                        <button
+                          onClick={() => setSplits(prev => prev.filter((_, i) => i !== index))}
+                          className="p-2 text-gray-400 hover:text-red-600 rounded"
+                        >
+                          <X size={16} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setSplits(prev => [
+                    ...prev,
+                    { accountId: '', amount: Math.max(0, (Math.abs(journalLine.amount_cents) - splitTotal) / 100).toFixed(2) },
+                  ])}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  + Add split
+                </button>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Allocated {formatCurrency(splitTotal)}</span>
+                <span className={splitTotal === Math.abs(journalLine.amount_cents) ? 'text-green-600' : 'text-red-600'}>
+                  Remaining {formatCurrency(Math.abs(journalLine.amount_cents) - splitTotal)}
+                </span>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button onClick={() => setJournalLine(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleCreateJournal}
+                disabled={isWorking || splitTotal !== Math.abs(journalLine.amount_cents)}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+              >
+                Post Journal
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
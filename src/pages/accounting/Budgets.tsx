@@ -0,0 +1,1103 @@
+import { useState, useEffect, Fragment } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { budgetService, BudgetVarianceReport, BUDGET_STATUS_LABELS } from '../../services/budgetService';
+import { accountingPermissionService } from '../../services/accountingPermissionService';
+import { glAccountService } from '../../services/glAccountService';
+import { journalService } from '../../services/journalService';
+import { propertyService } from '../../services/propertyService';
+import { Budget, BudgetStatus, GLAccount, GLLedgerEntry, Property } from '../../types';
+import {
+  Target,
+  Plus,
+  Save,
+  Copy,
+  CheckCircle,
+  Lock,
+  Trash2,
+  Split,
+  ChevronDown,
+  ChevronRight,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+
+type Tab = 'budgets' | 'grid' | 'variance';
+type BudgetSource = 'accounts' | 'actuals' | 'copy' | 'blank';
+type Distribution = 'even' | 'winter_heavy' | 'summer_heavy' | 'quarterly_spike';
+
+// Ledger rows come back with their journal joined
+type LedgerLine = GLLedgerEntry & {
+  posting_date?: string;
+  description?: string;
+  gl_journals?: { journal_number: string; memo?: string };
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const STATUS_STYLES: Record<BudgetStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  pending_approval: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-green-100 text-green-700',
+  active: 'bg-green-100 text-green-700',
+  closed: 'bg-blue-100 text-blue-700',
+  archived: 'bg-gray-100 text-gray-500',
+};
+
+const DISTRIBUTION_LABELS: Record<Distribution, string> = {
+  even: 'Evenly',
+  winter_heavy: 'Heavier in winter',
+  summer_heavy: 'Heavier in summer',
+  quarterly_spike: 'Quarterly',
+};
+
+const SOURCE_LABELS: Record<BudgetSource, string> = {
+  accounts: 'Every revenue and expense account, starting at zero',
+  actuals: "Last year's actuals",
+  copy: 'Copy an existing budget',
+  blank: 'Empty budget',
+};
+
+const toDollars = (cents: number) => (cents ? (cents / 100).toFixed(2) : '');
+const toCents = (value: string) => Math.round((parseFloat(value) || 0) * 100);
+
+export function Budgets() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('budgets');
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [accounts, setAccounts] = useState<GLAccount[]>([]);
+  const [currencyCode, setCurrencyCode] = useState('CAD');
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [yearFilter, setYearFilter] = useState('');
+  const [selectedBudgetId, setSelectedBudgetId] = useState('');
+
+  // Create
+  const [showCreate, setShowCreate] = useState(false);
+  const [createForm, setCreateForm] = useState({
+    name: '',
+    fiscalYear: String(new Date().getFullYear() + 1),
+    propertyId: '',
+    source: 'accounts' as BudgetSource,
+    sourceYear: String(new Date().getFullYear()),
+    sourceBudgetId: '',
+    adjustment: '',
+  });
+
+  // Grid
+  const [rows, setRows] = useState<Record<string, string[]>>({});
+  const [itemIds, setItemIds] = useState<Record<string, string>>({});
+  const [isDirty, setIsDirty] = useState(false);
+  const [addAccountId, setAddAccountId] = useState('');
+  const [spreadAccountId, setSpreadAccountId] = useState<string | null>(null);
+  const [spreadForm, setSpreadForm] = useState({ annual: '', distribution: 'even' as Distribution });
+
+  // Variance
+  const [periodNumber, setPeriodNumber] = useState('');
+  const [variance, setVariance] = useState<BudgetVarianceReport | null>(null);
+  const [summary, setSummary] = useState<Awaited<ReturnType<typeof budgetService.getVarianceSummaryByType>> | null>(null);
+  const [expandedAccountId, setExpandedAccountId] = useState<string | null>(null);
+  const [ledgerLines, setLedgerLines] = useState<LedgerLine[]>([]);
+
+  const selectedBudget = budgets.find(b => b.id === selectedBudgetId) || null;
+  const isEditable = !!selectedBudget && selectedBudget.status === 'draft' && canManage;
+  const accountMap = new Map(accounts.map(a => [a.id, a]));
+
+  useEffect(() => {
+    if (!currentBusiness) return;
+    propertyService.getAllProperties(currentBusiness.id).then(setProperties).catch(() => setProperties([]));
+    glAccountService.getAccounts(currentBusiness.id, { isActive: true, isHeaderAccount: false })
+      .then(data => setAccounts(data.filter(a => a.account_type === 'revenue' || a.account_type === 'expense')))
+      .catch(() => setAccounts([]));
+    glAccountService.getAccountingSettings(currentBusiness.id)
+      .then(settings => setCurrencyCode(settings?.base_currency || 'CAD'))
+      .catch(() => setCurrencyCode('CAD'));
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (!currentBusiness || !userProfile) return;
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_manage_budgets')
+      .then(setCanManage)
+      .catch(() => setCanManage(false));
+  }, [currentBusiness?.id, userProfile?.id]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [currentBusiness?.id, yearFilter]);
+
+  useEffect(() => {
+    if (tab === 'grid') loadGrid();
+  }, [tab, selectedBudgetId]);
+
+  useEffect(() => {
+    if (tab === 'variance') loadVariance();
+  }, [tab, selectedBudgetId, periodNumber]);
+
+  const loadBudgets = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      const data = await budgetService.getBudgets(currentBusiness.id, {
+        fiscalYear: yearFilter ? parseInt(yearFilter, 10) : undefined,
+      });
+      setBudgets(data);
+      if (!selectedBudgetId && data[0]) setSelectedBudgetId(data[0].id);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load budgets');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadGrid = async () => {
+    if (!selectedBudgetId) return;
+    try {
+      const result = await budgetService.getBudgetById(selectedBudgetId);
+      const nextRows: Record<string, string[]> = {};
+      const nextIds: Record<string, string> = {};
+      for (const item of result?.items || []) {
+        nextRows[item.account_id] = Array.from({ length: 12 }, (_, i) =>
+          toDollars(item[`period_${i + 1}_cents` as keyof typeof item] as number)
+        );
+        nextIds[item.account_id] = item.id;
+      }
+      setRows(nextRows);
+      setItemIds(nextIds);
+      setIsDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load budget');
+    }
+  };
+
+  const loadVariance = async () => {
+    if (!selectedBudgetId) return;
+    setExpandedAccountId(null);
+    try {
+      const period = periodNumber ? parseInt(periodNumber, 10) : undefined;
+      const [report, byType] = await Promise.all([
+        budgetService.calculateVariance(selectedBudgetId, { periodNumber: period }),
+        budgetService.getVarianceSummaryByType(selectedBudgetId, period),
+      ]);
+      setVariance(report);
+      setSummary(byType);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load variance');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const openBudget = (budget: Budget, target: Tab) => {
+    if (isDirty && budget.id !== selectedBudgetId && !window.confirm('Discard unsaved changes?')) return;
+    setSelectedBudgetId(budget.id);
+    setTab(target);
+  };
+
+  // ========================================
+  // Budgets
+  // ========================================
+
+  const openCreate = (source?: Budget) => {
+    const year = source ? source.fiscal_year + 1 : new Date().getFullYear() + 1;
+    setCreateForm({
+      name: source ? `${source.budget_name} - ${year}` : '',
+      fiscalYear: String(year),
+      propertyId: source?.property_id || '',
+      source: source ? 'copy' : 'accounts',
+      sourceYear: String(year - 1),
+      sourceBudgetId: source?.id || budgets[0]?.id || '',
+      adjustment: '',
+    });
+    setShowCreate(true);
+  };
+
+  const handleCreate = () => {
+    if (!currentBusiness) return;
+    const fiscalYear = parseInt(createForm.fiscalYear, 10);
+    const adjustmentPercent = parseFloat(createForm.adjustment) || 0;
+    const propertyId = createForm.propertyId || undefined;
+
+    runAction(async () => {
+      let budget: Budget;
+      switch (createForm.source) {
+        case 'accounts':
+          budget = await budgetService.createBudgetFromAccounts(
+            currentBusiness.id, fiscalYear, createForm.name, currencyCode, propertyId
+          );
+          break;
+        case 'actuals':
+          budget = await budgetService.createBudgetFromActuals(currentBusiness.id, fiscalYear, createForm.name, currencyCode, {
+            sourceYear: parseInt(createForm.sourceYear, 10),
+            adjustmentPercent,
+            propertyId,
+          });
+          break;
+        case 'copy':
+          budget = await budgetService.copyBudget(createForm.sourceBudgetId, fiscalYear, adjustmentPercent);
+          if (createForm.name && createForm.name !== budget.budget_name) {
+            budget = await budgetService.updateBudget(budget.id, { budget_name: createForm.name });
+          }
+          break;
+        default:
+          budget = await budgetService.createBudget(currentBusiness.id, {
+            budgetName: createForm.name,
+            fiscalYear,
+            propertyId,
+            currencyCode,
+          });
+      }
+      setShowCreate(false);
+      await loadBudgets();
+      setSelectedBudgetId(budget.id);
+      setTab('grid');
+    }, 'Failed to create budget');
+  };
+
+  const handleApprove = (budget: Budget) => {
+    if (!userProfile) return;
+    if (!window.confirm(`Approve "${budget.budget_name}"? Approved budgets can no longer be edited.`)) return;
+    runAction(async () => {
+      await budgetService.approveBudget(budget.id, userProfile.id);
+      setNotice(`${budget.budget_name} approved`);
+      await loadBudgets();
+    }, 'Failed to approve budget');
+  };
+
+  const handleClose = (budget: Budget) => {
+    if (!window.confirm(`Close "${budget.budget_name}"? Do this once the fiscal year is over.`)) return;
+    runAction(async () => {
+      await budgetService.closeBudget(budget.id);
+      setNotice(`${budget.budget_name} closed`);
+      await loadBudgets();
+    }, 'Failed to close budget');
+  };
+
+  const handleDelete = (budget: Budget) => {
+    if (!window.confirm(`Delete the draft budget "${budget.budget_name}"?`)) return;
+    runAction(async () => {
+      await budgetService.deleteBudget(budget.id);
+      if (selectedBudgetId === budget.id) setSelectedBudgetId('');
+      await loadBudgets();
+    }, 'Failed to delete budget');
+  };
+
+  // ========================================
+  // Grid
+  // ========================================
+
+  const setCell = (accountId: string, period: number, value: string) => {
+    setRows(prev => ({
+      ...prev,
+      [accountId]: prev[accountId]!.map((v, i) => (i === period ? value : v)),
+    }));
+    setIsDirty(true);
+  };
+
+  const handleAddAccount = () => {
+    if (!addAccountId) return;
+    setRows(prev => ({ ...prev, [addAccountId]: new Array(12).fill('') }));
+    setAddAccountId('');
+    setIsDirty(true);
+  };
+
+  const handleRemoveAccount = (accountId: string) => {
+    const account = accountMap.get(accountId);
+    if (!window.confirm(`Remove ${account?.account_name || 'this account'} from the budget?`)) return;
+    runAction(async () => {
+      if (itemIds[accountId]) {
+        await budgetService.deleteBudgetItem(itemIds[accountId]!);
+      }
+      const { [accountId]: _, ...rest } = rows;
+      setRows(rest);
+    }, 'Failed to remove account');
+  };
+
+  const handleSpread = () => {
+    if (!spreadAccountId) return;
+    const annual = toCents(spreadForm.annual);
+    const amounts = spreadForm.distribution === 'even'
+      ? budgetService.spreadAnnualAmount(annual)
+      : budgetService.applySeasonalDistribution(annual, spreadForm.distribution);
+    setRows(prev => ({ ...prev, [spreadAccountId]: amounts.map(toDollars) }));
+    setSpreadAccountId(null);
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (!selectedBudget) return;
+    runAction(async () => {
+      await budgetService.upsertBudgetItems(
+        selectedBudget.id,
+        Object.entries(rows).map(([accountId, values]) => ({
+          accountId,
+          periodAmounts: values.map(toCents),
+        }))
+      );
+      setNotice('Budget saved');
+      await loadGrid();
+    }, 'Failed to save budget');
+  };
+
+  // ========================================
+  // Variance
+  // ========================================
+
+  const toggleAccount = async (accountId: string) => {
+    if (expandedAccountId === accountId) {
+      setExpandedAccountId(null);
+      return;
+    }
+    if (!variance) return;
+    try {
+      setLedgerLines(await journalService.getAccountLedger(accountId, {
+        startDate: variance.startDate,
+        endDate: variance.endDate,
+        propertyId: variance.budget.property_id || undefined,
+      }));
+      setExpandedAccountId(accountId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ledger entries');
+    }
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: selectedBudget?.currency_code || currencyCode,
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const propertyName = (propertyId?: string) =>
+    propertyId ? properties.find(p => p.id === propertyId)?.name || 'Property' : 'Whole business';
+
+  const rowTotal = (values: string[]) => values.reduce((sum, v) => sum + toCents(v), 0);
+
+  const gridSections = (['revenue', 'expense'] as const).map(type => {
+    const accountIds = Object.keys(rows)
+      .filter(id => accountMap.get(id)?.account_type === type)
+      .sort((a, b) => accountMap.get(a)!.account_number.localeCompare(accountMap.get(b)!.account_number));
+    const periodTotals = Array.from({ length: 12 }, (_, i) =>
+      accountIds.reduce((sum, id) => sum + toCents(rows[id]![i] || ''), 0)
+    );
+    return { type, accountIds, periodTotals };
+  });
+  const netByPeriod = Array.from({ length: 12 }, (_, i) =>
+    gridSections[0]!.periodTotals[i]! - gridSections[1]!.periodTotals[i]!
+  );
+  const availableAccounts = accounts.filter(a => !rows[a.id]);
+  const years = [...new Set(budgets.map(b => b.fiscal_year))].sort((a, b) => b - a);
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'budgets', label: 'Budgets' },
+    { id: 'grid', label: 'Monthly Grid' },
+    { id: 'variance', label: 'Budget vs Actual' },
+  ];
+
+  const budgetPicker = (
+    <select
+      value={selectedBudgetId}
+      onChange={(e) => {
+        const budget = budgets.find(b => b.id === e.target.value);
+        if (budget) openBudget(budget, tab);
+      }}
+      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+    >
+      {budgets.map(b => (
+        <option key={b.id} value={b.id}>{b.budget_name} ({b.fiscal_year})</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Budgets</h1>
+              <p className="text-gray-600 mt-1">Plan revenue and expenses by month and track them against actuals</p>
+            </div>
+            {canManage && (
+              <button
+                onClick={() => openCreate()}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+              >
+                <Plus size={18} />
+                <span>New Budget</span>
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {/* Budgets */}
+        {tab === 'budgets' && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={yearFilter}
+                onChange={(e) => setYearFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All Years</option>
+                {years.map(year => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+              {!canManage && (
+                <p className="text-sm text-gray-600">You can view budgets. Creating, editing and approving them needs budget management permission.</p>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : budgets.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <Target className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Budgets</h3>
+                <p className="text-gray-600">Start a budget from your chart of accounts or last year's actuals.</p>
+              </div>
+            ) : (
+              <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Budget</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Year</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Scope</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {budgets.map(budget => (
+                      <tr key={budget.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm">
+                          <button onClick={() => openBudget(budget, 'grid')} className="font-medium text-blue-600 hover:text-blue-800">
+                            {budget.budget_name}
+                          </button>
+                          {budget.notes && <p className="text-xs text-gray-500">{budget.notes}</p>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{budget.fiscal_year}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{propertyName(budget.property_id)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[budget.status]}`}>
+                            {BUDGET_STATUS_LABELS[budget.status]}
+                          </span>
+                          {budget.approved_at && (
+                            <p className="text-xs text-gray-500 mt-1">Approved {formatDate(budget.approved_at)}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center justify-end gap-1">
+                            <button
+                              onClick={() => openBudget(budget, 'variance')}
+                              className="px-3 py-1 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+                            >
+                              Variance
+                            </button>
+                            {canManage && (
+                              <>
+                                {budget.status === 'draft' && (
+                                  <button
+                                    onClick={() => handleApprove(budget)}
+                                    disabled={isWorking}
+                                    title="Approve"
+                                    className="p-2 text-gray-500 hover:text-green-600 rounded-lg"
+                                  >
+                                    <CheckCircle size={16} />
+                                  </button>
+                                )}
+                                {budget.status === 'approved' && (
+                                  <button
+                                    onClick={() => handleClose(budget)}
+                                    disabled={isWorking}
+                                    title="Close"
+                                    className="p-2 text-gray-500 hover:text-blue-600 rounded-lg"
+                                  >
+                                    <Lock size={16} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => openCreate(budget)}
+                                  disabled={isWorking}
+                                  title="Copy to a new year"
+                                  className="p-2 text-gray-500 hover:text-blue-600 rounded-lg"
+                                >
+                                  <Copy size={16} />
+                                </button>
+                                {budget.status === 'draft' && (
+                                  <button
+                                    onClick={() => handleDelete(budget)}
+                                    disabled={isWorking}
+                                    title="Delete"
+                                    className="p-2 text-gray-500 hover:text-red-600 rounded-lg"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Monthly Grid */}
+        {tab === 'grid' && (
+          !selectedBudget ? (
+            <div className="bg-white rounded-lg shadow p-12 text-center">
+              <Target className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Budget Selected</h3>
+              <p className="text-gray-600">Create a budget or pick one on the Budgets tab.</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                {budgetPicker}
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[selectedBudget.status]}`}>
+                  {BUDGET_STATUS_LABELS[selectedBudget.status]}
+                </span>
+                <span className="text-sm text-gray-600">{propertyName(selectedBudget.property_id)}</span>
+                {isEditable && (
+                  <div className="flex items-center gap-3 ml-auto">
+                    <select
+                      value={addAccountId}
+                      onChange={(e) => setAddAccountId(e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">Add an account...</option>
+                      {availableAccounts.map(a => (
+                        <option key={a.id} value={a.id}>{a.account_number} - {a.account_name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleAddAccount}
+                      disabled={!addAccountId}
+                      className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                    >
+                      <Plus size={18} />
+                      <span>Add</span>
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={isWorking || !isDirty}
+                      className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                    >
+                      <Save size={18} />
+                      <span>Save</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {!isEditable && (
+                <p className="text-sm text-gray-600">
+                  {selectedBudget.status === 'draft'
+                    ? 'You can view this budget. Editing it needs budget management permission.'
+                    : 'Only draft budgets can be edited. Copy this budget to plan another year.'}
+                </p>
+              )}
+
+              <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-3 py-3 text-left text-xs font-semibold text-gray-700 uppercase sticky left-0 bg-gray-50 min-w-[220px]">Account</th>
+                      {MONTHS.map(month => (
+                        <th key={month} className="px-2 py-3 text-right text-xs font-semibold text-gray-700 uppercase">{month}</th>
+                      ))}
+                      <th className="px-3 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Total</th>
+                      {isEditable && <th className="px-2 py-3"></th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {gridSections.map(section => (
+                      <Fragment key={section.type}>
+                        <tr className="bg-gray-50 border-b border-gray-200">
+                          <td colSpan={isEditable ? 15 : 14} className="px-3 py-2 text-xs font-semibold text-gray-700 uppercase sticky left-0 bg-gray-50">
+                            {section.type === 'revenue' ? 'Revenue' : 'Expenses'}
+                          </td>
+                        </tr>
+                        {section.accountIds.map(accountId => {
+                          const account = accountMap.get(accountId)!;
+                          const values = rows[accountId]!;
+                          return (
+                            <tr key={accountId} className="border-b border-gray-100">
+                              <td className="px-3 py-1 text-gray-900 sticky left-0 bg-white">
+                                <span className="text-gray-500">{account.account_number}</span> {account.account_name}
+                              </td>
+                              {values.map((value, i) => (
+                                <td key={i} className="px-1 py-1">
+                                  {isEditable ? (
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      value={value}
+                                      onChange={(e) => setCell(accountId, i, e.target.value)}
+                                      className="w-24 px-2 py-1 border border-gray-200 rounded text-right text-sm focus:ring-2 focus:ring-blue-500"
+                                    />
+                                  ) : (
+                                    <span className="block w-24 px-2 text-right text-gray-700">{value ? formatCurrency(toCents(value)) : ''}</span>
+                                  )}
+                                </td>
+                              ))}
+                              <td className="px-3 py-1 text-right font-medium text-gray-900 whitespace-nowrap">
+                                {formatCurrency(rowTotal(values))}
+                              </td>
+                              {isEditable && (
+                                <td className="px-2 py-1 whitespace-nowrap">
+                                  <button
+                                    onClick={() => {
+                                      setSpreadForm({ annual: (rowTotal(values) / 100).toFixed(2), distribution: 'even' });
+                                      setSpreadAccountId(accountId);
+                                    }}
+                                    title="Spread an annual amount"
+                                    className="p-1 text-gray-500 hover:text-blue-600 rounded"
+                                  >
+                                    <Split size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleRemoveAccount(accountId)}
+                                    disabled={isWorking}
+                                    title="Remove"
+                                    className="p-1 text-gray-500 hover:text-red-600 rounded"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })}
+                        <tr className="border-b border-gray-200 bg-gray-50 font-medium">
+                          <td className="px-3 py-2 text-gray-900 sticky left-0 bg-gray-50">
+                            Total {section.type === 'revenue' ? 'Revenue' : 'Expenses'}
+                          </td>
+                          {section.periodTotals.map((total, i) => (
+                            <td key={i} className="px-2 py-2 text-right text-gray-900 whitespace-nowrap">{formatCurrency(total)}</td>
+                          ))}
+                          <td className="px-3 py-2 text-right text-gray-900 whitespace-nowrap">
+                            {formatCurrency(section.periodTotals.reduce((a, b) => a + b, 0))}
+                          </td>
+                          {isEditable && <td></td>}
+                        </tr>
+                      </Fragment>
+                    ))}
+                    <tr className="bg-gray-100 font-semibold">
+                      <td className="px-3 py-2 text-gray-900 sticky left-0 bg-gray-100">Net Income</td>
+                      {netByPeriod.map((net, i) => (
+                        <td key={i} className={`px-2 py-2 text-right whitespace-nowrap ${net < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          {formatCurrency(net)}
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right text-gray-900 whitespace-nowrap">
+                        {formatCurrency(netByPeriod.reduce((a, b) => a + b, 0))}
+                      </td>
+                      {isEditable && <td></td>}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )
+        )}
+
+        {/* Budget vs Actual */}
+        {tab === 'variance' && (
+          !selectedBudget ? (
+            <div className="bg-white rounded-lg shadow p-12 text-center">
+              <Target className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Budget Selected</h3>
+              <p className="text-gray-600">Create a budget or pick one on the Budgets tab.</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                {budgetPicker}
+                <select
+                  value={periodNumber}
+                  onChange={(e) => setPeriodNumber(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                >
+                  <option value="">Full Year</option>
+                  {MONTHS.map((month, i) => (
+                    <option key={month} value={i + 1}>{month} {selectedBudget.fiscal_year}</option>
+                  ))}
+                </select>
+                <span className="text-sm text-gray-600">{propertyName(selectedBudget.property_id)}</span>
+              </div>
+
+              {summary && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  {([
+                    ['Revenue', summary.revenue, true],
+                    ['Expenses', summary.expense, false],
+                    ['Net Income', summary.netIncome, true],
+                  ] as const).map(([label, totals, higherIsBetter]) => {
+                    const favorable = higherIsBetter ? totals.actual >= totals.budgeted : totals.actual <= totals.budgeted;
+                    return (
+                      <div key={label} className="bg-white rounded-lg shadow p-4">
+                        <p className="text-sm text-gray-500">{label}</p>
+                        <p className="text-2xl font-bold text-gray-900">{formatCurrency(totals.actual)}</p>
+                        <p className="text-sm text-gray-600">
+                          of {formatCurrency(totals.budgeted)} budgeted
+                        </p>
+                        <p className={`text-sm font-medium ${favorable ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(Math.abs(totals.actual - totals.budgeted))} {favorable ? 'favorable' : 'unfavorable'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {variance && (
+                variance.items.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow p-12 text-center">
+                    <Target className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Nothing Budgeted</h3>
+                    <p className="text-gray-600">Add accounts to this budget on the Monthly Grid tab.</p>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-gray-50 border-b border-gray-200">
+                          <th className="px-4 py-3 w-10"></th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Account</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Budget</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actual</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Variance</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">%</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {variance.items.map(item => (
+                          <Fragment key={item.accountId}>
+                            <tr
+                              onClick={() => toggleAccount(item.accountId)}
+                              className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                            >
+                              <td className="px-4 py-3 text-gray-400">
+                                {expandedAccountId === item.accountId ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                              </td>
+                              <td className="px-4 py-3 text-sm">
+                                <span className="text-gray-500">{item.accountNumber}</span>{' '}
+                                <span className="text-gray-900">{item.accountName}</span>
+                                <span className="ml-2 text-xs text-gray-500">{item.accountType === 'revenue' ? 'Revenue' : 'Expense'}</span>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-right text-gray-600">{formatCurrency(item.budgetedCents)}</td>
+                              <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(item.actualCents)}</td>
+                              <td className={`px-4 py-3 text-sm text-right font-medium ${
+                                item.actualCents === item.budgetedCents ? 'text-gray-600' : item.isFavorable ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {formatCurrency(item.varianceCents)}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-right text-gray-600">
+                                {item.budgetedCents ? `${item.variancePercent.toFixed(1)}%` : ''}
+                              </td>
+                            </tr>
+                            {expandedAccountId === item.accountId && (
+                              <tr className="bg-gray-50">
+                                <td></td>
+                                <td colSpan={5} className="px-4 py-3">
+                                  {ledgerLines.length === 0 ? (
+                                    <p className="text-sm text-gray-500">No ledger entries in this period.</p>
+                                  ) : (
+                                    <table className="w-full text-sm">
+                                      <tbody>
+                                        {ledgerLines.map(line => (
+                                          <tr key={line.id}>
+                                            <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">
+                                              {formatDate(line.posting_date || line.transaction_date)}
+                                            </td>
+                                            <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">{line.gl_journals?.journal_number}</td>
+                                            <td className="py-1 pr-4 text-gray-900">{line.description || line.gl_journals?.memo}</td>
+                                            <td className="py-1 pr-4 text-right text-gray-900 whitespace-nowrap">
+                                              {line.debit_cents ? formatCurrency(line.debit_cents) : ''}
+                                            </td>
+                                            <td className="py-1 text-right text-gray-900 whitespace-nowrap">
+                                              {line.credit_cents ? `(${formatCurrency(line.credit_cents)})` : ''}
+                                            </td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="bg-gray-50 font-medium">
+                          <td></td>
+                          <td className="px-4 py-3 text-sm text-gray-900">Total</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(variance.totalBudgeted)}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(variance.totalActual)}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(variance.totalVariance)}</td>
+                          <td></td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                )
+              )}
+            </>
+          )
+        )}
+      </div>
+
+      {/* New Budget Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">New Budget</h2>
+              <button onClick={() => setShowCreate(false)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={createForm.name}
+                    onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Fiscal year</label>
+                  <input
+                    type="number"
+                    value={createForm.fiscalYear}
+                    onChange={(e) => setCreateForm({ ...createForm, fiscalYear: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start from</label>
+                <select
+                  value={createForm.source}
+                  onChange={(e) => setCreateForm({ ...createForm, source: e.target.value as BudgetSource })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {(Object.keys(SOURCE_LABELS) as BudgetSource[]).map(source => (
+                    <option key={source} value={source} disabled={source === 'copy' && budgets.length === 0}>
+                      {SOURCE_LABELS[source]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {createForm.source === 'copy' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Budget to copy</label>
+                  <select
+                    value={createForm.sourceBudgetId}
+                    onChange={(e) => setCreateForm({ ...createForm, sourceBudgetId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {budgets.map(b => (
+                      <option key={b.id} value={b.id}>{b.budget_name} ({b.fiscal_year})</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">The copy covers the same property as the original.</p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Property</label>
+                  <select
+                    value={createForm.propertyId}
+                    onChange={(e) => setCreateForm({ ...createForm, propertyId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Whole business</option>
+                    {properties.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {(createForm.source === 'actuals' || createForm.source === 'copy') && (
+                <div className="grid grid-cols-2 gap-4">
+                  {createForm.source === 'actuals' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Actuals from</label>
+                      <input
+                        type="number"
+                        value={createForm.sourceYear}
+                        onChange={(e) => setCreateForm({ ...createForm, sourceYear: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Adjust by %</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={createForm.adjustment}
+                      onChange={(e) => setCreateForm({ ...createForm, adjustment: e.target.value })}
+                      placeholder="0"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowCreate(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={
+                  isWorking
+                  || !createForm.fiscalYear
+                  || (createForm.source === 'copy' ? !createForm.sourceBudgetId : !createForm.name.trim())
+                }
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Create Budget
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Spread Modal */}
+      {spreadAccountId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">
+                Spread: {accountMap.get(spreadAccountId)?.account_name}
+              </h2>
+              <button onClick={() => setSpreadAccountId(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Annual amount</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={spreadForm.annual}
+                  onChange={(e) => setSpreadForm({ ...spreadForm, annual: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Spread</label>
+                <select
+                  value={spreadForm.distribution}
+                  onChange={(e) => setSpreadForm({ ...spreadForm, distribution: e.target.value as Distribution })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {(Object.keys(DISTRIBUTION_LABELS) as Distribution[]).map(d => (
+                    <option key={d} value={d}>{DISTRIBUTION_LABELS[d]}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">Replaces the monthly amounts on this row.</p>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setSpreadAccountId(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSpread}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+              >
+                Spread
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
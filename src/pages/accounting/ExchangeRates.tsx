@@ -0,0 +1,1097 @@
+import { useState, useEffect, useRef, Fragment } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { currencyService, EXCHANGE_RATE_SOURCE_LABELS } from '../../services/currencyService';
+import {
+  fxRevaluationService,
+  FxRevaluationPreview,
+  FX_REVALUATION_KIND_LABELS,
+} from '../../services/fxRevaluationService';
+import {
+  exchangeRateImportService,
+  JournalRateAuditEntry,
+  EXCHANGE_RATE_IMPORT_TRIGGER_LABELS,
+} from '../../services/exchangeRateImportService';
+import { glAccountService } from '../../services/glAccountService';
+import { journalService } from '../../services/journalService';
+import { propertyService } from '../../services/propertyService';
+import { accountingPermissionService } from '../../services/accountingPermissionService';
+import {
+  BusinessAccountingSettings,
+  Currency,
+  ExchangeRate,
+  ExchangeRateImport,
+  ExchangeRateProvider,
+  FxRevaluation,
+  Property,
+} from '../../types';
+import { RATE_PROVIDERS, isAllowedRateFeedUrl } from '../../utils/exchangeRateParser';
+import {
+  ArrowLeftRight,
+  Plus,
+  Edit2,
+  Trash2,
+  Save,
+  Eye,
+  Play,
+  CheckCircle,
+  X,
+  AlertCircle,
+  AlertTriangle,
+  Upload,
+  Download,
+} from 'lucide-react';
+
+type Tab = 'rates' | 'imports' | 'audit' | 'revaluation';
+
+interface ProviderForm {
+  provider: ExchangeRateProvider | '';
+  url: string;
+  autoImport: boolean;
+}
+
+interface RateForm {
+  id?: string;
+  fromCurrency: string;
+  toCurrency: string;
+  effectiveDate: string;
+  rate: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+// Last day of the previous month, the usual revaluation date
+const lastMonthEnd = () => {
+  const d = new Date();
+  return new Date(Date.UTC(d.getFullYear(), d.getMonth(), 0)).toISOString().split('T')[0]!;
+};
+
+export function ExchangeRates() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('rates');
+  const [settings, setSettings] = useState<BusinessAccountingSettings | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState('');
+  const [hasJournals, setHasJournals] = useState(false);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [pairFilter, setPairFilter] = useState('');
+  const [revaluationDate, setRevaluationDate] = useState(lastMonthEnd);
+  const [preview, setPreview] = useState<FxRevaluationPreview | null>(null);
+  const [revaluations, setRevaluations] = useState<FxRevaluation[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [canModifySettings, setCanModifySettings] = useState(false);
+  const [canPost, setCanPost] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [rateForm, setRateForm] = useState<RateForm | null>(null);
+  const [imports, setImports] = useState<ExchangeRateImport[]>([]);
+  const [uploadProvider, setUploadProvider] = useState<ExchangeRateProvider>('csv');
+  const [providerForm, setProviderForm] = useState<ProviderForm>({ provider: '', url: '', autoImport: false });
+  const [auditEntries, setAuditEntries] = useState<JournalRateAuditEntry[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadSetup();
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (tab === 'rates') loadRates();
+    else if (tab === 'imports') loadImports();
+    else if (tab === 'audit') loadAudit();
+    else loadRevaluations();
+  }, [currentBusiness?.id, tab]);
+
+  useEffect(() => {
+    if (!currentBusiness || !userProfile) return;
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_modify_settings')
+      .then(setCanModifySettings)
+      .catch(() => setCanModifySettings(false));
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_post_journals')
+      .then(setCanPost)
+      .catch(() => setCanPost(false));
+  }, [currentBusiness?.id, userProfile?.id]);
+
+  const loadSetup = async () => {
+    if (!currentBusiness) return;
+    try {
+      const [data, active, businessProperties, counts] = await Promise.all([
+        glAccountService.getAccountingSettings(currentBusiness.id),
+        currencyService.getActiveCurrencies(),
+        propertyService.getAllProperties(currentBusiness.id),
+        journalService.getJournalCountsByStatus(currentBusiness.id),
+      ]);
+      setSettings(data);
+      setBaseCurrency(data?.base_currency || 'CAD');
+      setProviderForm({
+        provider: data?.rate_provider || '',
+        url: data?.rate_provider_url || '',
+        autoImport: data?.rate_auto_import || false,
+      });
+      setCurrencies(active);
+      setProperties(businessProperties);
+      setHasJournals(Object.values(counts).some(count => count > 0));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load currency settings');
+    }
+  };
+
+  const loadRates = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      setRates(await currencyService.getExchangeRates({ businessId: currentBusiness.id }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load exchange rates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadImports = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      setImports(await exchangeRateImportService.getImports(currentBusiness.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rate imports');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAudit = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      setAuditEntries(await exchangeRateImportService.getJournalRateAudit(currentBusiness.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load converted journals');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadRevaluations = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      setRevaluations(await fxRevaluationService.getRevaluations(currentBusiness.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revaluations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // ========================================
+  // Base currency & rates
+  // ========================================
+
+  const handleSaveBaseCurrency = () => runAction(async () => {
+    const updated = await glAccountService.upsertAccountingSettings(currentBusiness!.id, {
+      base_currency: baseCurrency,
+    });
+    setSettings(updated);
+    setNotice(`Base currency set to ${baseCurrency}`);
+  }, 'Failed to save the base currency');
+
+  const openRateForm = (rate?: ExchangeRate) => {
+    const foreign = properties.find(p => p.currency_code && p.currency_code !== baseCurrency)?.currency_code;
+    setRateForm(rate
+      ? {
+          id: rate.id,
+          fromCurrency: rate.from_currency,
+          toCurrency: rate.to_currency,
+          effectiveDate: rate.effective_date,
+          rate: String(rate.rate),
+        }
+      : {
+          fromCurrency: foreign || (baseCurrency === 'USD' ? 'CAD' : 'USD'),
+          toCurrency: baseCurrency,
+          effectiveDate: today(),
+          rate: '',
+        });
+  };
+
+  const handleSaveRate = () => {
+    if (!rateForm) return;
+    runAction(async () => {
+      const rate = parseFloat(rateForm.rate);
+      if (!(rate > 0)) throw new Error('Enter a rate greater than zero');
+      if (rateForm.fromCurrency === rateForm.toCurrency) throw new Error('Choose two different currencies');
+      if (!rateForm.effectiveDate) throw new Error('Choose the date the rate applies from');
+
+      if (rateForm.id) {
+        // An edited import or filled rate becomes a manual one
+        await currencyService.updateExchangeRate(rateForm.id, {
+          rate,
+          effective_date: rateForm.effectiveDate,
+          source: 'manual',
+          filled_from_date: null,
+        });
+      } else {
+        await currencyService.createExchangeRate(
+          rateForm.fromCurrency,
+          rateForm.toCurrency,
+          rate,
+          rateForm.effectiveDate,
+          'manual',
+          currentBusiness!.id
+        );
+      }
+      setRateForm(null);
+      setNotice('Exchange rate saved');
+      await loadRates();
+    }, 'Failed to save exchange rate');
+  };
+
+  const handleDeleteRate = (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.from_currency}/${rate.to_currency} rate for ${formatDate(rate.effective_date)}?`)) return;
+    runAction(async () => {
+      await currencyService.deleteExchangeRate(rate.id);
+      setNotice('Exchange rate deleted');
+      await loadRates();
+    }, 'Failed to delete exchange rate');
+  };
+
+  // ========================================
+  // Imports
+  // ========================================
+
+  const importSummary = (record: ExchangeRateImport) => {
+    let summary = `Imported ${record.rates_imported} rate${record.rates_imported === 1 ? '' : 's'}`;
+    if (record.start_date && record.end_date) {
+      summary += ` from ${formatDate(record.start_date)} to ${formatDate(record.end_date)}`;
+    }
+    if (record.rates_filled > 0) {
+      summary += `, and filled ${record.rates_filled} for weekends and holidays`;
+    }
+    if (record.skipped_currencies.length > 0) {
+      summary += `. Skipped ${record.skipped_currencies.join(', ')}`;
+    }
+    return summary;
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentBusiness || !userProfile) return;
+
+    await runAction(async () => {
+      try {
+        const content = await file.text();
+        const record = await exchangeRateImportService.importRates(
+          currentBusiness.id,
+          userProfile.id,
+          uploadProvider,
+          content,
+          { trigger: 'upload', fileName: file.name }
+        );
+        setNotice(`${importSummary(record)}.`);
+      } finally {
+        await loadImports();
+      }
+    }, 'Failed to import rates');
+  };
+
+  const handleFetch = () => runAction(async () => {
+    try {
+      const record = await exchangeRateImportService.fetchRates(currentBusiness!.id, userProfile!.id);
+      setNotice(`${importSummary(record)}.`);
+    } finally {
+      await loadImports();
+    }
+  }, 'Failed to download rates');
+
+  const handleSaveProvider = () => runAction(async () => {
+    const url = providerForm.provider ? providerForm.url.trim() : '';
+    if (providerForm.provider && url && !isAllowedRateFeedUrl(providerForm.provider, url)) {
+      const provider = RATE_PROVIDERS[providerForm.provider];
+      throw new Error(`Download From must be an https address on ${new URL(provider.defaultUrl!).host}`);
+    }
+
+    const updated = await glAccountService.upsertAccountingSettings(currentBusiness!.id, {
+      rate_provider: providerForm.provider || null,
+      rate_provider_url: url || null,
+      rate_auto_import: providerForm.provider ? providerForm.autoImport : false,
+    });
+    setSettings(updated);
+    setNotice('Rate provider saved');
+  }, 'Failed to save the rate provider');
+
+  // ========================================
+  // Revaluation
+  // ========================================
+
+  const handlePreview = () => runAction(async () => {
+    setPreview(await fxRevaluationService.previewRevaluation(currentBusiness!.id, revaluationDate));
+  }, 'Failed to preview revaluation');
+
+  const handleRevalue = () => runAction(async () => {
+    const revaluation = await fxRevaluationService.revalue(currentBusiness!.id, revaluationDate, userProfile!.id);
+    setPreview(null);
+    setNotice(revaluation
+      ? `Revaluation posted as of ${formatDate(revaluationDate)}`
+      : 'Foreign currency balances are already carried at the closing rate. Nothing was posted.');
+    await loadRevaluations();
+  }, 'Failed to post revaluation');
+
+  const formatCurrency = (cents: number, currency = settings?.base_currency || 'CAD') => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency,
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const pairs = [...new Set(rates.map(r => `${r.from_currency}/${r.to_currency}`))].sort();
+  const visibleRates = pairFilter ? rates.filter(r => `${r.from_currency}/${r.to_currency}` === pairFilter) : rates;
+  const savedBase = settings?.base_currency || 'CAD';
+  const foreignProperties = properties.filter(p => p.currency_code && p.currency_code !== savedBase);
+  const propertyCurrencies = [...new Set(foreignProperties.map(p => p.currency_code!))];
+
+  const providerChanged = providerForm.provider !== (settings?.rate_provider || '')
+    || providerForm.url !== (settings?.rate_provider_url || '')
+    || providerForm.autoImport !== (settings?.rate_auto_import || false);
+
+  const rateOrigin = (rate: ExchangeRate) => {
+    const origin = rate.source !== 'manual' && rate.provider
+      ? RATE_PROVIDERS[rate.provider].name
+      : EXCHANGE_RATE_SOURCE_LABELS[rate.source];
+    return rate.filled_from_date ? `${origin}, carried from ${formatDate(rate.filled_from_date)}` : origin;
+  };
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'rates', label: 'Rates' },
+    { id: 'imports', label: 'Imports' },
+    { id: 'audit', label: 'Converted Journals' },
+    { id: 'revaluation', label: 'Revaluation' },
+  ];
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Exchange Rates</h1>
+              <p className="text-gray-600 mt-1">Rates for converting foreign currency transactions and revaluing balances</p>
+            </div>
+            {tab === 'rates' && canModifySettings && (
+              <button
+                onClick={() => openRateForm()}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+              >
+                <Plus size={18} />
+                <span>Add Rate</span>
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {/* Currency settings */}
+        {settings && (
+          <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-6">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Base Currency</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={baseCurrency}
+                  onChange={(e) => setBaseCurrency(e.target.value)}
+                  disabled={!canModifySettings || hasJournals}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm disabled:bg-gray-50"
+                >
+                  {currencies.map(currency => (
+                    <option key={currency.code} value={currency.code}>{currency.code} - {currency.name}</option>
+                  ))}
+                </select>
+                {canModifySettings && !hasJournals && baseCurrency !== savedBase && (
+                  <button
+                    onClick={handleSaveBaseCurrency}
+                    disabled={isWorking}
+                    className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                  >
+                    <Save size={16} />
+                    <span>Save</span>
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Properties in Other Currencies</p>
+              <p className="font-medium text-gray-900">
+                {foreignProperties.length === 0
+                  ? 'None'
+                  : propertyCurrencies
+                      .map(code => `${foreignProperties.filter(p => p.currency_code === code).length} in ${code}`)
+                      .join(', ')}
+              </p>
+            </div>
+            {hasJournals && (
+              <p className="text-sm text-gray-500">The base currency cannot change once journals have been recorded.</p>
+            )}
+          </div>
+        )}
+
+        {tab === 'rates' && (
+          <>
+            {pairs.length > 1 && (
+              <select
+                value={pairFilter}
+                onChange={(e) => setPairFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All currency pairs</option>
+                {pairs.map(pair => (
+                  <option key={pair} value={pair}>{pair}</option>
+                ))}
+              </select>
+            )}
+
+            {isLoading ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-500">Loading exchange rates...</p>
+              </div>
+            ) : visibleRates.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <ArrowLeftRight className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Exchange Rates</h3>
+                <p className="text-gray-600">
+                  Add a rate for each currency your properties use. Transactions in a currency without a rate cannot be posted.
+                </p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Effective</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Pair</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Rate</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Inverse</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Source</th>
+                      {canModifySettings && (
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visibleRates.map(rate => (
+                      <tr key={rate.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{formatDate(rate.effective_date)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          1 {rate.from_currency} = {rate.to_currency}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">{Number(rate.rate).toFixed(6)}</td>
+                        <td className="px-4 py-3 text-sm text-right font-mono text-gray-500">{(1 / Number(rate.rate)).toFixed(6)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {rateOrigin(rate)}
+                          {!rate.business_id && (
+                            <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">System</span>
+                          )}
+                        </td>
+                        {canModifySettings && (
+                          <td className="px-4 py-3 text-right whitespace-nowrap">
+                            {rate.business_id && (
+                              <>
+                                <button
+                                  onClick={() => openRateForm(rate)}
+                                  disabled={isWorking}
+                                  className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition disabled:opacity-50"
+                                  title="Edit"
+                                >
+                                  <Edit2 size={16} />
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteRate(rate)}
+                                  disabled={isWorking}
+                                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50"
+                                  title="Delete"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Journals use the latest rate on or before their date. Your own rates take priority over system rates for the same day.
+              Changing a rate does not change journals already posted.
+            </p>
+          </>
+        )}
+
+        {tab === 'imports' && (
+          <>
+            {canModifySettings && (
+              <div className="bg-white rounded-lg shadow p-4 space-y-4">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Rate Provider</label>
+                    <select
+                      value={providerForm.provider}
+                      onChange={(e) => setProviderForm({ ...providerForm, provider: e.target.value as ExchangeRateProvider | '' })}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                    >
+                      <option value="">None</option>
+                      {Object.values(RATE_PROVIDERS).filter(p => p.defaultUrl).map(p => (
+                        <option key={p.code} value={p.code}>{p.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {providerForm.provider && (
+                    <>
+                      <div className="flex-1 min-w-[16rem]">
+                        <label className="block text-xs text-gray-500 mb-1">Download From</label>
+                        <input
+                          type="url"
+                          value={providerForm.url}
+                          onChange={(e) => setProviderForm({ ...providerForm, url: e.target.value })}
+                          placeholder={RATE_PROVIDERS[providerForm.provider].defaultUrl}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                        />
+                      </div>
+                      <label className="flex items-center gap-2 py-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={providerForm.autoImport}
+                          onChange={(e) => setProviderForm({ ...providerForm, autoImport: e.target.checked })}
+                          className="rounded border-gray-300"
+                        />
+                        Import daily
+                      </label>
+                    </>
+                  )}
+                  {providerChanged && (
+                    <button
+                      onClick={handleSaveProvider}
+                      disabled={isWorking}
+                      className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                    >
+                      <Save size={16} />
+                      <span>Save</span>
+                    </button>
+                  )}
+                  {settings?.rate_provider && !providerChanged && (
+                    <button
+                      onClick={handleFetch}
+                      disabled={isWorking || !userProfile}
+                      className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                    >
+                      <Download size={16} />
+                      <span>Download Now</span>
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Leave the address blank to use the provider's published feed. Daily imports run with the other scheduled jobs each morning.
+                </p>
+
+                <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-gray-200">
+                  <select
+                    value={uploadProvider}
+                    onChange={(e) => setUploadProvider(e.target.value as ExchangeRateProvider)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                  >
+                    {Object.values(RATE_PROVIDERS).map(p => (
+                      <option key={p.code} value={p.code}>{p.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,.xml,.txt"
+                    onChange={handleUpload}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isWorking}
+                    className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                  >
+                    <Upload size={18} />
+                    <span>Upload File</span>
+                  </button>
+                  <p className="text-sm text-gray-500">{RATE_PROVIDERS[uploadProvider].description}</p>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-500">Loading imports...</p>
+              </div>
+            ) : imports.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <Upload className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Imports</h3>
+                <p className="text-gray-600">Upload a rate file or choose a provider to download rates from.</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">When</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Provider</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">From</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Dates</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Rates</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Filled</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {imports.map(record => (
+                      <tr key={record.id} className="hover:bg-gray-50 align-top">
+                        <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                          {new Date(record.created_at).toLocaleString('en-CA')}
+                          <p className="text-xs text-gray-500">{EXCHANGE_RATE_IMPORT_TRIGGER_LABELS[record.trigger_source]}</p>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{RATE_PROVIDERS[record.provider].name}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600 break-all max-w-xs">{record.file_name || record.source_url || '—'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                          {record.start_date && record.end_date
+                            ? `${formatDate(record.start_date)} – ${formatDate(record.end_date)}`
+                            : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{record.rates_imported}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">{record.rates_filled}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {record.status === 'succeeded' ? (
+                            <span className="text-green-700">Imported</span>
+                          ) : (
+                            <span className="text-red-600">{record.error_message || 'Failed'}</span>
+                          )}
+                          {record.skipped_currencies.length > 0 && (
+                            <p className="text-xs text-gray-500">Skipped {record.skipped_currencies.join(', ')}</p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Imported rates are restated against {savedBase}. Days with no published rate, such as weekends and holidays, get the previous published rate
+              for up to 7 days. A filled day never replaces a rate that was published or entered for that day.
+            </p>
+          </>
+        )}
+
+        {tab === 'audit' && (
+          isLoading ? (
+            <div className="bg-white rounded-lg shadow p-12 text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-500">Loading converted journals...</p>
+            </div>
+          ) : auditEntries.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-12 text-center">
+              <ArrowLeftRight className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Converted Journals</h3>
+              <p className="text-gray-600">Journals recorded in a currency other than {savedBase} are listed here with the rate they used.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Journal</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Date</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Amount</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Rate Used</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">In {savedBase}</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Rate Source</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {auditEntries.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {entry.journal_number}
+                        <p className="text-xs text-gray-500 capitalize">{entry.status.replace('_', ' ')}</p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{formatDate(entry.journal_date)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">
+                        {formatCurrency(entry.total_debit_cents, entry.transaction_currency)} {entry.transaction_currency}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">
+                        {Number(entry.exchange_rate).toFixed(6)}
+                        {entry.exchange_rate_date && (
+                          <p className="text-xs text-gray-500 font-sans">of {formatDate(entry.exchange_rate_date)}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">{formatCurrency(entry.base_total_debit_cents)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {entry.rate ? (
+                          <>
+                            {rateOrigin(entry.rate)}
+                            {!entry.rate.business_id && ' (system)'}
+                            {entry.exchange_rate_inverted && (
+                              <span className="text-gray-500"> · inverse of {entry.rate.from_currency}/{entry.rate.to_currency}</span>
+                            )}
+                            {entry.rate.import && (
+                              <p className="text-xs text-gray-500 break-all">
+                                {entry.rate.import.file_name || entry.rate.import.source_url},{' '}
+                                {new Date(entry.rate.import.created_at).toLocaleDateString('en-CA')}
+                              </p>
+                            )}
+                            {entry.rateChanged && (
+                              <p className="text-xs text-yellow-700">The rate has changed since this journal was posted</p>
+                            )}
+                          </>
+                        ) : entry.exchange_rate_date ? (
+                          <span className="text-gray-500">Rate no longer on file</span>
+                        ) : (
+                          <span className="text-gray-500">Rate entered on the journal</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+
+        {tab === 'revaluation' && (
+          <>
+            <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Revalue As Of</label>
+                <input
+                  type="date"
+                  value={revaluationDate}
+                  onChange={(e) => {
+                    setRevaluationDate(e.target.value);
+                    setPreview(null);
+                  }}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                />
+              </div>
+              <button
+                onClick={handlePreview}
+                disabled={isWorking || !revaluationDate}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <Eye size={16} />
+                <span>Preview</span>
+              </button>
+              {canPost && preview && preview.lines.length > 0 && preview.missingRates.length === 0 && (
+                <button
+                  onClick={handleRevalue}
+                  disabled={isWorking || !userProfile}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  <Play size={16} />
+                  <span>Post Revaluation</span>
+                </button>
+              )}
+              <p className="text-sm text-gray-500 flex-1 min-w-[16rem]">
+                Closing a fiscal period revalues automatically as of its last day.
+              </p>
+            </div>
+
+            {preview && (
+              <>
+                {preview.missingRates.length > 0 && (
+                  <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                    <p className="text-yellow-800 text-sm">
+                      No rate to {preview.baseCurrency} on or before {formatDate(preview.revaluationDate)} for{' '}
+                      {preview.missingRates.join(', ')}. Add one on the Rates tab before revaluing.
+                    </p>
+                  </div>
+                )}
+
+                {preview.lines.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow p-8 text-center text-gray-600">
+                    Nothing to adjust. Foreign currency balances are already carried at the closing rate.
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-gray-50 border-b border-gray-200">
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Account</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Type</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Foreign Balance</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Carried At</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Closing Rate</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Revalued</th>
+                          <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Gain (Loss)</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {preview.lines.map(line => (
+                          <tr key={`${line.accountId}-${line.currencyCode}`} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 text-sm text-gray-900">
+                              <span className="text-gray-500">{line.accountNumber}</span> {line.accountName}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">{FX_REVALUATION_KIND_LABELS[line.kind]}</td>
+                            <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">
+                              {formatCurrency(line.foreignBalanceCents, line.currencyCode)} {line.currencyCode}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right font-mono text-gray-600">{formatCurrency(line.bookedBaseCents)}</td>
+                            <td className="px-4 py-3 text-sm text-right font-mono text-gray-600">
+                              {line.closingRate != null ? line.closingRate.toFixed(6) : '—'}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">{formatCurrency(line.revaluedBaseCents)}</td>
+                            <td className={`px-4 py-3 text-sm text-right font-mono ${line.adjustmentCents < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                              {formatCurrency(line.adjustmentCents)}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr className="bg-gray-50 font-semibold">
+                          <td colSpan={6} className="px-4 py-3 text-sm text-gray-900">
+                            Realized {formatCurrency(preview.realizedCents)} · Unrealized {formatCurrency(preview.unrealizedCents)}, reversed on {formatDate(preview.reversalDate)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">
+                            {formatCurrency(preview.realizedCents + preview.unrealizedCents)}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <div className="px-4 py-3 border-b border-gray-200">
+                <h2 className="font-semibold text-gray-900">Revaluation History</h2>
+              </div>
+              {isLoading ? (
+                <div className="p-8 text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                </div>
+              ) : revaluations.length === 0 ? (
+                <p className="p-8 text-center text-gray-600">No revaluations have been posted.</p>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">As Of</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Realized</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Unrealized</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Reversed On</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Posted</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {revaluations.map(revaluation => (
+                      <Fragment key={revaluation.id}>
+                        <tr
+                          onClick={() => setExpandedId(expandedId === revaluation.id ? null : revaluation.id)}
+                          className="hover:bg-gray-50 cursor-pointer"
+                        >
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatDate(revaluation.revaluation_date)}</td>
+                          <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">
+                            {formatCurrency(revaluation.realized_cents, revaluation.base_currency)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">
+                            {formatCurrency(revaluation.unrealized_cents, revaluation.base_currency)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {revaluation.unrealized_journal_id ? formatDate(revaluation.reversal_date) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{formatDate(revaluation.created_at)}</td>
+                        </tr>
+                        {expandedId === revaluation.id && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={5} className="px-4 py-3">
+                              <table className="w-full text-sm">
+                                <tbody>
+                                  {(revaluation.lines || []).map(line => (
+                                    <tr key={line.id}>
+                                      <td className="py-1 pr-4 text-gray-900">
+                                        <span className="text-gray-500">{line.account?.account_number}</span> {line.account?.account_name}
+                                      </td>
+                                      <td className="py-1 pr-4 text-gray-600">{FX_REVALUATION_KIND_LABELS[line.kind]}</td>
+                                      <td className="py-1 pr-4 text-right font-mono text-gray-600">
+                                        {formatCurrency(line.foreign_balance_cents, line.currency_code)} {line.currency_code}
+                                      </td>
+                                      <td className="py-1 pr-4 text-right font-mono text-gray-600">
+                                        {line.closing_rate != null ? Number(line.closing_rate).toFixed(6) : '—'}
+                                      </td>
+                                      <td className="py-1 text-right font-mono text-gray-900">
+                                        {formatCurrency(line.adjustment_cents, revaluation.base_currency)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Revaluation journals are listed in <Link to="/accounting/journals" className="text-blue-600 hover:text-blue-700">Journal Entries</Link>.
+              Gains and losses post to 4530 Realized and 4540 Unrealized Foreign Exchange Gain/Loss.
+            </p>
+          </>
+        )}
+      </div>
+
+      {rateForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{rateForm.id ? 'Edit Exchange Rate' : 'Add Exchange Rate'}</h2>
+              <button onClick={() => setRateForm(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <select
+                    value={rateForm.fromCurrency}
+                    onChange={(e) => setRateForm({ ...rateForm, fromCurrency: e.target.value })}
+                    disabled={!!rateForm.id}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  >
+                    {currencies.map(currency => (
+                      <option key={currency.code} value={currency.code}>{currency.code}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <select
+                    value={rateForm.toCurrency}
+                    onChange={(e) => setRateForm({ ...rateForm, toCurrency: e.target.value })}
+                    disabled={!!rateForm.id}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  >
+                    {currencies.map(currency => (
+                      <option key={currency.code} value={currency.code}>{currency.code}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Effective Date</label>
+                <input
+                  type="date"
+                  value={rateForm.effectiveDate}
+                  onChange={(e) => setRateForm({ ...rateForm, effectiveDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Rate (1 {rateForm.fromCurrency} = ? {rateForm.toCurrency})
+                </label>
+                <input
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  value={rateForm.rate}
+                  onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setRateForm(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveRate}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save Rate
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
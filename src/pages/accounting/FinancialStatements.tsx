@@ -0,0 +1,659 @@
+import { useState, useEffect, Fragment } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  financialReportingService,
+  ComparativeStatement,
+  PropertyComparisonRow,
+  StatementType,
+  STATEMENT_TYPE_LABELS,
+} from '../../services/financialReportingService';
+import { accountingPermissionService } from '../../services/accountingPermissionService';
+import { glAccountService } from '../../services/glAccountService';
+import { currencyService } from '../../services/currencyService';
+import { journalService } from '../../services/journalService';
+import { propertyService } from '../../services/propertyService';
+import { ExportFormat } from '../../services/dataExportService';
+import { ExportButton } from '../../components/ExportButton';
+import { Currency, GLLedgerEntry, Property, Unit } from '../../types';
+import {
+  Scale,
+  ChevronDown,
+  ChevronRight,
+  X,
+  AlertCircle,
+  AlertTriangle,
+} from 'lucide-react';
+
+type Tab = StatementType | 'comparison';
+type PeriodPreset =
+  | 'this_month'
+  | 'last_month'
+  | 'this_quarter'
+  | 'last_quarter'
+  | 'year_to_date'
+  | 'last_year'
+  | 'custom';
+
+// Ledger rows come back with their journal joined
+type LedgerLine = GLLedgerEntry & {
+  posting_date?: string;
+  base_debit_cents?: number;
+  base_credit_cents?: number;
+  description?: string;
+  gl_journals?: { journal_number: string; memo?: string };
+};
+
+const PERIOD_PRESET_LABELS: Record<PeriodPreset, string> = {
+  this_month: 'This Month',
+  last_month: 'Last Month',
+  this_quarter: 'This Quarter',
+  last_quarter: 'Last Quarter',
+  year_to_date: 'Fiscal Year to Date',
+  last_year: 'Last Fiscal Year',
+  custom: 'Custom Dates',
+};
+
+// Month is zero-based and may run past either end of the year
+const isoDate = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day)).toISOString().split('T')[0]!;
+
+/**
+ * Date range for a preset. Quarters and years follow the fiscal year.
+ */
+function presetRange(preset: PeriodPreset, fiscalStartMonth: number): { startDate: string; endDate: string } {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const monthsIntoYear = (month - (fiscalStartMonth - 1) + 12) % 12;
+  const quarterStart = month - (monthsIntoYear % 3);
+  const yearStart = month - monthsIntoYear;
+
+  switch (preset) {
+    case 'last_month':
+      return { startDate: isoDate(year, month - 1, 1), endDate: isoDate(year, month, 0) };
+    case 'this_quarter':
+      return { startDate: isoDate(year, quarterStart, 1), endDate: isoDate(year, quarterStart + 3, 0) };
+    case 'last_quarter':
+      return { startDate: isoDate(year, quarterStart - 3, 1), endDate: isoDate(year, quarterStart, 0) };
+    case 'year_to_date':
+      return { startDate: isoDate(year, yearStart, 1), endDate: isoDate(year, month, today.getDate()) };
+    case 'last_year':
+      return { startDate: isoDate(year, yearStart - 12, 1), endDate: isoDate(year, yearStart, 0) };
+    default:
+      return { startDate: isoDate(year, month, 1), endDate: isoDate(year, month + 1, 0) };
+  }
+}
+
+export function FinancialStatements() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('balance_sheet');
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [fiscalStartMonth, setFiscalStartMonth] = useState(1);
+  const [baseCurrency, setBaseCurrency] = useState('CAD');
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [canExport, setCanExport] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Filters
+  const [preset, setPreset] = useState<PeriodPreset>('this_month');
+  const [range, setRange] = useState(() => presetRange('this_month', 1));
+  const [comparePriorPeriod, setComparePriorPeriod] = useState(false);
+  const [comparePriorYear, setComparePriorYear] = useState(false);
+  const [propertyId, setPropertyId] = useState('');
+  const [unitId, setUnitId] = useState('');
+  // Empty presents in the base currency
+  const [presentationCurrency, setPresentationCurrency] = useState('');
+
+  // Results
+  const [statement, setStatement] = useState<ComparativeStatement | null>(null);
+  const [comparison, setComparison] = useState<PropertyComparisonRow[]>([]);
+
+  // Drill-down
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [activity, setActivity] = useState<Array<{ debits: number; credits: number }>>([]);
+  const [ledgerLines, setLedgerLines] = useState<LedgerLine[]>([]);
+
+  useEffect(() => {
+    if (!currentBusiness) return;
+    propertyService.getAllProperties(currentBusiness.id).then(setProperties).catch(() => setProperties([]));
+    glAccountService.getAccountingSettings(currentBusiness.id)
+      .then(settings => {
+        const startMonth = settings?.fiscal_year_start_month || 1;
+        setFiscalStartMonth(startMonth);
+        setBaseCurrency(settings?.base_currency || 'CAD');
+        setRange(current => (preset === 'custom' ? current : presetRange(preset, startMonth)));
+      })
+      .catch(() => setFiscalStartMonth(1));
+    currencyService.getActiveCurrencies().then(setCurrencies).catch(() => setCurrencies([]));
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (!currentBusiness || !userProfile) return;
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_export')
+      .then(setCanExport)
+      .catch(() => setCanExport(false));
+  }, [currentBusiness?.id, userProfile?.id]);
+
+  useEffect(() => {
+    setUnitId('');
+    if (!propertyId) {
+      setUnits([]);
+      return;
+    }
+    propertyService.getPropertyUnits(propertyId).then(setUnits).catch(() => setUnits([]));
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadReport();
+  }, [
+    currentBusiness?.id, tab, range.startDate, range.endDate, comparePriorPeriod, comparePriorYear,
+    propertyId, unitId, presentationCurrency, properties.length,
+  ]);
+
+  const loadReport = async () => {
+    if (!currentBusiness || !range.startDate || !range.endDate) return;
+    if (range.startDate > range.endDate) {
+      setError('The start date must be on or before the end date');
+      return;
+    }
+
+    setIsLoading(true);
+    setExpandedKey(null);
+    try {
+      if (tab === 'comparison') {
+        setComparison(
+          properties.length > 0
+            ? await financialReportingService.generatePropertyComparison(
+                currentBusiness.id,
+                properties.map(p => p.id),
+                range.startDate,
+                range.endDate
+              )
+            : []
+        );
+      } else {
+        const columns = financialReportingService.getStatementColumns(range.startDate, range.endDate, {
+          comparePriorPeriod,
+          comparePriorYear,
+        });
+        setStatement(await financialReportingService.generateComparativeStatement(currentBusiness.id, tab, columns, {
+          propertyId: propertyId || undefined,
+          unitId: unitId || undefined,
+          presentationCurrency: presentationCurrency || undefined,
+        }));
+      }
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePreset = (value: PeriodPreset) => {
+    setPreset(value);
+    if (value !== 'custom') setRange(presetRange(value, fiscalStartMonth));
+  };
+
+  // ========================================
+  // Drill-down
+  // ========================================
+
+  const toggleLine = async (key: string, accountId: string) => {
+    if (expandedKey === key) {
+      setExpandedKey(null);
+      return;
+    }
+    if (!currentBusiness || !statement) return;
+    const current = statement.columns[0]!;
+    try {
+      const [periodActivity, lines] = await Promise.all([
+        Promise.all(statement.columns.map(column =>
+          financialReportingService.getAccountActivity(
+            currentBusiness.id,
+            column.startDate,
+            column.endDate,
+            propertyId || undefined,
+            unitId || undefined,
+            tab === 'balance_sheet'
+          )
+        )),
+        journalService.getAccountLedger(accountId, {
+          startDate: current.startDate,
+          endDate: current.endDate,
+          propertyId: propertyId || undefined,
+          unitId: unitId || undefined,
+          excludeClosingEntries: tab !== 'balance_sheet',
+        }),
+      ]);
+      setActivity(periodActivity.map(map => map.get(accountId) || { debits: 0, credits: 0 }));
+      setLedgerLines(lines);
+      setExpandedKey(key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load account activity');
+    }
+  };
+
+  // ========================================
+  // Export
+  // ========================================
+
+  const filterLabel = () => {
+    const property = properties.find(p => p.id === propertyId);
+    const unit = units.find(u => u.id === unitId);
+    if (!property) return 'All properties';
+    return unit ? `${property.name} - Unit ${unit.unit_number}` : property.name;
+  };
+
+  const periodLabel = () =>
+    tab === 'balance_sheet'
+      ? `As of ${formatDate(range.endDate)}`
+      : `${formatDate(range.startDate)} - ${formatDate(range.endDate)}`;
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!currentBusiness) return;
+    if (tab === 'comparison') {
+      financialReportingService.exportPropertyComparison(
+        comparisonRows,
+        format,
+        currentBusiness.business_name,
+        `${range.startDate} to ${range.endDate}`
+      );
+      return;
+    }
+    if (!statement) return;
+    await financialReportingService.exportStatement(
+      statement,
+      format,
+      currentBusiness.business_name,
+      [periodLabel(), filterLabel(), translationLabel()].filter(Boolean).join(' | ')
+    );
+  };
+
+  const translationLabel = () =>
+    statement?.translationRates
+      ? `Presented in ${statement.currencyCode}, translated from ${statement.baseCurrencyCode} at ${statement.columns
+          .map((c, i) => `${statement.translationRates![i]!.toFixed(4)} (${c.endDate})`)
+          .join(', ')}`
+      : '';
+
+  // Drill-down amounts come from the ledger in base currency
+  const translate = (cents: number, column: number) =>
+    Math.round(cents * (statement?.translationRates?.[column] ?? 1));
+
+  const formatCurrency = (cents: number, currency = statement?.currencyCode || baseCurrency) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency,
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const comparisonRows = comparison
+    .map(row => ({ ...row, propertyName: properties.find(p => p.id === row.propertyId)?.name || 'Property' }))
+    .sort((a, b) => a.propertyName.localeCompare(b.propertyName));
+  const comparisonTotals = comparison.reduce(
+    (sum, r) => ({
+      revenue: sum.revenue + r.revenue,
+      expenses: sum.expenses + r.expenses,
+      noi: sum.noi + r.noi,
+      netIncome: sum.netIncome + r.netIncome,
+    }),
+    { revenue: 0, expenses: 0, noi: 0, netIncome: 0 }
+  );
+  const unbalancedColumns = statement?.isBalanced
+    ?.map((balanced, i) => (balanced ? null : statement.columns[i]))
+    .filter(Boolean) || [];
+  const hasResults = tab === 'comparison' ? comparison.length > 0 : !!statement && statement.lines.length > 0;
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'balance_sheet', label: STATEMENT_TYPE_LABELS.balance_sheet },
+    { id: 'income_statement', label: STATEMENT_TYPE_LABELS.income_statement },
+    { id: 'cash_flow', label: 'Cash Flow' },
+    { id: 'comparison', label: 'Property Comparison' },
+  ];
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Financial Statements</h1>
+              <p className="text-gray-600 mt-1">Balance sheet, income statement and cash flow from the general ledger</p>
+            </div>
+            {canExport && (
+              <ExportButton
+                onExport={handleExport}
+                disabled={!hasResults || isLoading}
+                formats={['csv', 'excel-csv', 'pdf']}
+                variant="secondary"
+                size="md"
+              />
+            )}
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={preset}
+            onChange={(e) => handlePreset(e.target.value as PeriodPreset)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            {(Object.keys(PERIOD_PRESET_LABELS) as PeriodPreset[]).map(value => (
+              <option key={value} value={value}>{PERIOD_PRESET_LABELS[value]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={range.startDate}
+            onChange={(e) => {
+              setPreset('custom');
+              setRange({ ...range, startDate: e.target.value });
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={range.endDate}
+            onChange={(e) => {
+              setPreset('custom');
+              setRange({ ...range, endDate: e.target.value });
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+          {tab !== 'comparison' && (
+            <>
+              <select
+                value={propertyId}
+                onChange={(e) => setPropertyId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">All properties</option>
+                {properties.map(property => (
+                  <option key={property.id} value={property.id}>{property.name}</option>
+                ))}
+              </select>
+              {propertyId && (
+                <select
+                  value={unitId}
+                  onChange={(e) => setUnitId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                >
+                  <option value="">All units</option>
+                  {units.map(unit => (
+                    <option key={unit.id} value={unit.id}>Unit {unit.unit_number}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={comparePriorPeriod}
+                  onChange={(e) => setComparePriorPeriod(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Prior period
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={comparePriorYear}
+                  onChange={(e) => setComparePriorYear(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Prior year
+              </label>
+              <select
+                value={presentationCurrency}
+                onChange={(e) => setPresentationCurrency(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                title="Currency the statement is presented in"
+              >
+                <option value="">{baseCurrency} (base)</option>
+                {currencies.filter(c => c.code !== baseCurrency).map(currency => (
+                  <option key={currency.code} value={currency.code}>{currency.code}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+
+        {tab === 'balance_sheet' && (
+          <p className="text-sm text-gray-600">
+            Balances are as of the end date. Account activity in the drill-down covers the whole period.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : tab === 'comparison' ? (
+          comparison.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-12 text-center">
+              <Scale className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Properties</h3>
+              <p className="text-gray-600">Add properties to compare their results side by side.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Property</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Revenue</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Operating Expenses</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">NOI</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Margin</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Net Income</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisonRows.map(row => (
+                    <tr
+                      key={row.propertyId}
+                      onClick={() => {
+                        setPropertyId(row.propertyId);
+                        setTab('income_statement');
+                      }}
+                      className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      title="Open this property's income statement"
+                    >
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.propertyName}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(row.revenue, baseCurrency)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{formatCurrency(row.expenses, baseCurrency)}</td>
+                      <td className={`px-4 py-3 text-sm text-right font-medium ${row.noi < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatCurrency(row.noi, baseCurrency)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {row.revenue ? `${((row.noi / row.revenue) * 100).toFixed(1)}%` : ''}
+                      </td>
+                      <td className={`px-4 py-3 text-sm text-right ${row.netIncome < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatCurrency(row.netIncome, baseCurrency)}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-semibold">
+                    <td className="px-4 py-3 text-sm text-gray-900">Total</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(comparisonTotals.revenue, baseCurrency)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(comparisonTotals.expenses, baseCurrency)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(comparisonTotals.noi, baseCurrency)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-600">
+                      {comparisonTotals.revenue ? `${((comparisonTotals.noi / comparisonTotals.revenue) * 100).toFixed(1)}%` : ''}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(comparisonTotals.netIncome, baseCurrency)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : statement && (
+          <>
+            {unbalancedColumns.length > 0 && (
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                <p className="text-yellow-800 text-sm">
+                  Assets do not equal liabilities plus equity as of{' '}
+                  {unbalancedColumns.map(c => formatDate(c!.endDate)).join(', ')}. Check for unposted or one-sided entries.
+                </p>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <div className="px-4 py-3 border-b border-gray-200">
+                <h2 className="font-semibold text-gray-900">{statement.title}</h2>
+                <p className="text-sm text-gray-600">{periodLabel()} · {filterLabel()}</p>
+                {statement.translationRates && (
+                  <p className="text-xs text-gray-500 mt-1">{translationLabel()}</p>
+                )}
+              </div>
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Account</th>
+                    {statement.columns.map(column => (
+                      <th key={column.label} className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">
+                        {column.label}
+                        <span className="block font-normal normal-case text-gray-500">
+                          {statement.type === 'balance_sheet'
+                            ? formatDate(column.endDate)
+                            : `${formatDate(column.startDate)} - ${formatDate(column.endDate)}`}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {statement.lines.map(line => (
+                    <Fragment key={line.key}>
+                      <tr
+                        onClick={line.accountId ? () => toggleLine(line.key, line.accountId!) : undefined}
+                        className={`border-b border-gray-100 ${
+                          line.kind === 'grand_total' ? 'bg-gray-100' : line.accountId ? 'hover:bg-gray-50 cursor-pointer' : ''
+                        }`}
+                      >
+                        <td
+                          className={`px-4 py-2 text-sm ${
+                            line.kind === 'account' || line.kind === 'item' ? 'text-gray-900' : 'font-semibold text-gray-900'
+                          }`}
+                          style={{ paddingLeft: `${16 + line.depth * 20}px` }}
+                        >
+                          <span className="inline-flex items-center gap-1">
+                            {line.accountId && (
+                              <span className="text-gray-400">
+                                {expandedKey === line.key ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                              </span>
+                            )}
+                            {line.accountNumber && <span className="text-gray-500">{line.accountNumber}</span>}
+                            {line.label}
+                          </span>
+                        </td>
+                        {line.kind !== 'heading' && line.amounts.map((amount, i) => (
+                          <td
+                            key={i}
+                            className={`px-4 py-2 text-sm text-right whitespace-nowrap ${
+                              line.kind === 'total' || line.kind === 'grand_total' ? 'font-semibold' : ''
+                            } ${amount < 0 ? 'text-red-600' : 'text-gray-900'}`}
+                          >
+                            {formatCurrency(amount)}
+                          </td>
+                        ))}
+                        {line.kind === 'heading' && <td colSpan={statement.columns.length}></td>}
+                      </tr>
+                      {expandedKey === line.key && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={statement.columns.length + 1} className="px-4 py-3">
+                            <div className="flex flex-wrap gap-6 mb-3 text-sm">
+                              {statement.columns.map((column, i) => (
+                                <div key={column.label}>
+                                  <p className="text-gray-500">
+                                    {column.label}: {formatDate(column.startDate)} - {formatDate(column.endDate)}
+                                  </p>
+                                  <p className="text-gray-900">
+                                    Debits {formatCurrency(translate(activity[i]?.debits || 0, i))} · Credits {formatCurrency(translate(activity[i]?.credits || 0, i))}
+                                  </p>
+                                </div>
+                              ))}
+                            </div>
+                            {ledgerLines.length === 0 ? (
+                              <p className="text-sm text-gray-500">No ledger entries in the current period.</p>
+                            ) : (
+                              <table className="w-full text-sm">
+                                <tbody>
+                                  {ledgerLines.map(entry => (
+                                    <tr key={entry.id}>
+                                      <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">
+                                        {formatDate(entry.posting_date || entry.transaction_date)}
+                                      </td>
+                                      <td className="py-1 pr-4 text-gray-600 whitespace-nowrap">{entry.gl_journals?.journal_number}</td>
+                                      <td className="py-1 pr-4 text-gray-900">{entry.description || entry.gl_journals?.memo}</td>
+                                      <td className="py-1 pr-4 text-right text-gray-900 whitespace-nowrap">
+                                        {entry.base_debit_cents ?? entry.debit_cents
+                                          ? formatCurrency(translate(entry.base_debit_cents ?? entry.debit_cents, 0))
+                                          : ''}
+                                      </td>
+                                      <td className="py-1 text-right text-gray-900 whitespace-nowrap">
+                                        {entry.base_credit_cents ?? entry.credit_cents
+                                          ? `(${formatCurrency(translate(entry.base_credit_cents ?? entry.credit_cents, 0))})`
+                                          : ''}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
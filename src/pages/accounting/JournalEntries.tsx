@@ -17,6 +17,7 @@ import {
   Download,
 } from 'lucide-react';
 import { accountingExportService } from '../../services/accountingExportService';
+import { glAccountService } from '../../services/glAccountService';
 
 export function JournalEntries() {
   const { currentBusiness, userProfile } = useAuth();
@@ -29,6 +30,7 @@ export function JournalEntries() {
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
   const [selectedJournal, setSelectedJournal] = useState<GLJournal | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [baseCurrency, setBaseCurrency] = useState('CAD');
   const [statusCounts, setStatusCounts] = useState<Record<JournalStatus, number>>({
     draft: 0,
     pending_approval: 0,
@@ -41,6 +43,7 @@ export function JournalEntries() {
   useEffect(() => {
     loadJournals();
     loadStatusCounts();
+    loadBaseCurrency();
   }, [currentBusiness?.id]);
 
   const loadJournals = async () => {
@@ -74,6 +77,16 @@ export function JournalEntries() {
     }
   };
 
+  const loadBaseCurrency = async () => {
+    if (!currentBusiness) return;
+    try {
+      const settings = await glAccountService.getAccountingSettings(currentBusiness.id);
+      setBaseCurrency(settings?.base_currency || 'CAD');
+    } catch (err) {
+      console.error('Failed to load base currency:', err);
+    }
+  };
+
   useEffect(() => {
     if (currentBusiness) {
       loadJournals();
@@ -191,10 +204,10 @@ export function JournalEntries() {
     );
   };
 
-  const formatCurrency = (cents: number) => {
+  const formatCurrency = (cents: number, currency = 'CAD') => {
     return new Intl.NumberFormat('en-CA', {
       style: 'currency',
-      currency: 'CAD',
+      currency,
     }).format(cents / 100);
   };
 
@@ -442,10 +455,10 @@ export function JournalEntries() {
                         {journal.memo || '-'}
                       </td>
                       <td className="px-4 py-3 text-right font-mono text-sm text-gray-900">
-                        {formatCurrency(journal.total_debit_cents)}
+                        {formatCurrency(journal.total_debit_cents, journal.transaction_currency)}
                       </td>
                       <td className="px-4 py-3 text-right font-mono text-sm text-gray-900">
-                        {formatCurrency(journal.total_credit_cents)}
+                        {formatCurrency(journal.total_credit_cents, journal.transaction_currency)}
                       </td>
                       <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
                         <div className="flex items-center justify-end gap-1">
@@ -523,7 +536,12 @@ export function JournalEntries() {
                 </div>
                 <div>
                   <label className="text-xs font-medium text-gray-500 uppercase">Exchange Rate</label>
-                  <p className="mt-1 text-gray-900">{selectedJournal.exchange_rate}</p>
+                  <p className="mt-1 text-gray-900">
+                    {selectedJournal.exchange_rate}
+                    {selectedJournal.exchange_rate_date && (
+                      <span className="text-sm text-gray-500"> (rate of {formatDate(`${selectedJournal.exchange_rate_date}T00:00:00`)})</span>
+                    )}
+                  </p>
                 </div>
               </div>
 
@@ -542,14 +560,24 @@ export function JournalEntries() {
                   <div className="bg-green-50 p-4 rounded-lg">
                     <p className="text-sm text-green-600 font-medium">Total Debits</p>
                     <p className="text-2xl font-bold text-green-700">
-                      {formatCurrency(selectedJournal.total_debit_cents)}
+                      {formatCurrency(selectedJournal.total_debit_cents, selectedJournal.transaction_currency)}
                     </p>
+                    {selectedJournal.transaction_currency !== baseCurrency && (
+                      <p className="text-xs text-green-600 mt-1">
+                        {formatCurrency(selectedJournal.base_total_debit_cents, baseCurrency)} {baseCurrency}
+                      </p>
+                    )}
                   </div>
                   <div className="bg-red-50 p-4 rounded-lg">
                     <p className="text-sm text-red-600 font-medium">Total Credits</p>
                     <p className="text-2xl font-bold text-red-700">
-                      {formatCurrency(selectedJournal.total_credit_cents)}
+                      {formatCurrency(selectedJournal.total_credit_cents, selectedJournal.transaction_currency)}
                     </p>
+                    {selectedJournal.transaction_currency !== baseCurrency && (
+                      <p className="text-xs text-red-600 mt-1">
+                        {formatCurrency(selectedJournal.base_total_credit_cents, baseCurrency)} {baseCurrency}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,718 @@
+import { useState, useEffect, Fragment } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  ownerStatementService,
+  MANAGEMENT_FEE_TYPE_LABELS,
+  OWNER_STATEMENT_STATUS_LABELS,
+} from '../../services/ownerStatementService';
+import { propertyService } from '../../services/propertyService';
+import { pdfGenerationService } from '../../services/pdfGenerationService';
+import { accountingPermissionService } from '../../services/accountingPermissionService';
+import {
+  ManagementFeeType,
+  OwnerStatement,
+  OwnerStatementStatus,
+  Property,
+  PropertyManagementTerms,
+} from '../../types';
+import {
+  FileText,
+  Download,
+  Send,
+  Trash2,
+  Ban,
+  Edit2,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+
+type Tab = 'statements' | 'terms';
+
+interface TermsForm {
+  property: Property;
+  feeType: ManagementFeeType;
+  feePercentage: string;
+  feeFlat: string;
+  reserveTarget: string;
+  notes: string;
+}
+
+const STATUS_STYLES: Record<OwnerStatementStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-700',
+  published: 'bg-green-100 text-green-700',
+  void: 'bg-gray-100 text-gray-700',
+};
+
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export function OwnerStatements() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('statements');
+  const [month, setMonth] = useState(previousMonth);
+  const [statements, setStatements] = useState<OwnerStatement[]>([]);
+  const [details, setDetails] = useState<Record<string, OwnerStatement>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [terms, setTerms] = useState<PropertyManagementTerms[]>([]);
+  const [canPost, setCanPost] = useState(false);
+  const [canVoid, setCanVoid] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [termsForm, setTermsForm] = useState<TermsForm | null>(null);
+  const [voidTarget, setVoidTarget] = useState<OwnerStatement | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+
+  useEffect(() => {
+    loadStatements();
+  }, [currentBusiness?.id, month]);
+
+  useEffect(() => {
+    loadTerms();
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (!currentBusiness || !userProfile) return;
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_post_journals')
+      .then(setCanPost)
+      .catch(() => setCanPost(false));
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_void_journals')
+      .then(setCanVoid)
+      .catch(() => setCanVoid(false));
+  }, [currentBusiness?.id, userProfile?.id]);
+
+  const loadStatements = async () => {
+    if (!currentBusiness || !month) return;
+    setIsLoading(true);
+    try {
+      setStatements(await ownerStatementService.getStatements(currentBusiness.id, { periodStart: `${month}-01` }));
+      setDetails({});
+      setExpandedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load owner statements');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadTerms = async () => {
+    if (!currentBusiness) return;
+    try {
+      const [propertyData, termsData] = await Promise.all([
+        propertyService.getAllProperties(currentBusiness.id),
+        ownerStatementService.getManagementTerms(currentBusiness.id),
+      ]);
+      setProperties(propertyData);
+      setTerms(termsData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load management terms');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // ========================================
+  // Actions
+  // ========================================
+
+  const toggleDetails = (statement: OwnerStatement) => {
+    if (expandedId === statement.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(statement.id);
+    if (!details[statement.id]) {
+      runAction(async () => {
+        const detail = await ownerStatementService.getStatement(statement.id);
+        if (detail) setDetails(prev => ({ ...prev, [statement.id]: detail }));
+      }, 'Failed to load the statement');
+    }
+  };
+
+  const handleGenerate = () => runAction(async () => {
+    const result = await ownerStatementService.generateStatements(currentBusiness!.id, month, userProfile!.id);
+    setNotice(
+      result.created + result.updated === 0 && result.skipped === 0
+        ? 'No property has an owner for this month. Add owners to properties first.'
+        : `${result.created} statement${result.created === 1 ? '' : 's'} created, ${result.updated} recalculated`
+          + (result.skipped > 0 ? `, ${result.skipped} already published` : '')
+    );
+    await loadStatements();
+  }, 'Failed to calculate owner statements');
+
+  const handlePublish = (statement: OwnerStatement) => runAction(async () => {
+    await ownerStatementService.publishStatement(statement.id, userProfile!.id);
+    setNotice(`Statement for ${ownerName(statement)} published. The distribution journal is posted and the owner can see it in the owner portal.`);
+    await loadStatements();
+  }, 'Failed to publish the statement');
+
+  const handleDelete = (statement: OwnerStatement) => {
+    if (!confirm(`Delete the draft statement for ${ownerName(statement)}?`)) return;
+    runAction(async () => {
+      await ownerStatementService.deleteDraft(statement.id);
+      await loadStatements();
+    }, 'Failed to delete the statement');
+  };
+
+  const handleVoid = () => {
+    if (!voidTarget) return;
+    runAction(async () => {
+      await ownerStatementService.voidStatement(voidTarget.id, userProfile!.id, voidReason.trim());
+      setNotice(`Statement for ${ownerName(voidTarget)} voided and its distribution journal voided`);
+      setVoidTarget(null);
+      setVoidReason('');
+      await loadStatements();
+    }, 'Failed to void the statement');
+  };
+
+  const handleDownload = (statement: OwnerStatement) => runAction(async () => {
+    const blob = await ownerStatementService.generateStatementPDF(statement.id);
+    pdfGenerationService.downloadPDF(
+      blob,
+      `owner-statement-${ownerName(statement).replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${month}.pdf`
+    );
+  }, 'Failed to generate the PDF');
+
+  const openTerms = (property: Property) => {
+    const current = terms.find(t => t.property_id === property.id);
+    setTermsForm({
+      property,
+      feeType: current?.fee_type ?? 'percentage',
+      feePercentage: current ? String(Number(current.fee_percentage)) : '',
+      feeFlat: current?.fee_flat_cents ? (current.fee_flat_cents / 100).toFixed(2) : '',
+      reserveTarget: current?.reserve_target_cents ? (current.reserve_target_cents / 100).toFixed(2) : '',
+      notes: current?.notes ?? '',
+    });
+  };
+
+  const handleSaveTerms = () => {
+    if (!termsForm) return;
+    runAction(async () => {
+      await ownerStatementService.saveManagementTerms(
+        currentBusiness!.id,
+        termsForm.property.id,
+        {
+          feeType: termsForm.feeType,
+          feePercentage: parseFloat(termsForm.feePercentage) || 0,
+          feeFlatCents: Math.round((parseFloat(termsForm.feeFlat) || 0) * 100),
+          reserveTargetCents: Math.round((parseFloat(termsForm.reserveTarget) || 0) * 100),
+          notes: termsForm.notes.trim() || undefined,
+        },
+        userProfile!.id
+      );
+      setNotice(`Management terms for ${termsForm.property.name} saved. They apply to statements calculated from now on.`);
+      setTermsForm(null);
+      await loadTerms();
+    }, 'Failed to save the management terms');
+  };
+
+  const ownerName = (statement: OwnerStatement) =>
+    statement.owner
+      ? statement.owner.company_name || `${statement.owner.first_name} ${statement.owner.last_name}`
+      : 'owner';
+
+  const formatCurrency = (cents: number, currency: string) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency,
+    }).format(cents / 100);
+  };
+
+  const describeFee = (property: Property) => {
+    const current = terms.find(t => t.property_id === property.id);
+    if (!current || current.fee_type === 'none') return 'No fee';
+    return current.fee_type === 'percentage'
+      ? `${Number(current.fee_percentage)}% of income`
+      : `${formatCurrency(current.fee_flat_cents, property.currency_code || currentBusiness?.currency || 'CAD')} per month`;
+  };
+
+  const live = statements.filter(s => s.status !== 'void');
+  const totalsByCurrency = Object.entries(
+    live.reduce<Record<string, { distribution: number; fees: number }>>((acc, s) => {
+      const entry = acc[s.currency_code] ?? { distribution: 0, fees: 0 };
+      entry.distribution += s.distribution_cents;
+      entry.fees += s.management_fee_cents;
+      acc[s.currency_code] = entry;
+      return acc;
+    }, {})
+  );
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'statements', label: 'Statements' },
+    { id: 'terms', label: 'Management Terms' },
+  ];
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Owner Statements</h1>
+              <p className="text-gray-600 mt-1">Monthly owner statements, management fees, reserves and distributions</p>
+            </div>
+            {tab === 'statements' && (
+              <div className="flex items-center gap-3">
+                <input
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                />
+                {canPost && (
+                  <button
+                    onClick={handleGenerate}
+                    disabled={isWorking || !month}
+                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50 whitespace-nowrap"
+                  >
+                    <RefreshCw size={18} />
+                    <span>Calculate</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {tab === 'terms' ? (
+          properties.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <p className="text-gray-600">Add properties to set their management terms.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Property</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Management Fee</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Reserve Target</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Notes</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {properties.map(property => {
+                    const current = terms.find(t => t.property_id === property.id);
+                    return (
+                      <tr key={property.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{property.name}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{describeFee(property)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 text-right whitespace-nowrap">
+                          {current?.reserve_target_cents
+                            ? formatCurrency(current.reserve_target_cents, property.currency_code || currentBusiness?.currency || 'CAD')
+                            : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{current?.notes || '-'}</td>
+                        <td className="px-4 py-3 text-right">
+                          {canPost && (
+                            <button
+                              onClick={() => openTerms(property)}
+                              className="p-2 text-gray-400 hover:text-blue-600 rounded-lg"
+                              title="Edit terms"
+                            >
+                              <Edit2 size={16} />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : statements.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No statements for this month</h3>
+            <p className="text-gray-600">
+              Calculate the month to create a draft statement for each owner from collected rent and paid expenses.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Statements</p>
+                <p className="text-2xl font-bold text-gray-900">{live.length}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Drafts</p>
+                <p className={`text-2xl font-bold ${live.some(s => s.status === 'draft') ? 'text-yellow-600' : 'text-gray-900'}`}>
+                  {live.filter(s => s.status === 'draft').length}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Distributions</p>
+                {totalsByCurrency.map(([currency, totals]) => (
+                  <p key={currency} className="text-2xl font-bold text-gray-900">{formatCurrency(totals.distribution, currency)}</p>
+                ))}
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Management Fees</p>
+                {totalsByCurrency.map(([currency, totals]) => (
+                  <p key={currency} className="text-2xl font-bold text-gray-900">{formatCurrency(totals.fees, currency)}</p>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 w-8"></th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Owner</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Income</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Expenses</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Fees</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Reserve</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Distribution</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {statements.map(statement => {
+                    const money = (cents: number) => formatCurrency(cents, statement.currency_code);
+                    const detail = details[statement.id];
+
+                    return (
+                      <Fragment key={statement.id}>
+                        <tr className="hover:bg-gray-50">
+                          <td className="px-4 py-3">
+                            <button onClick={() => toggleDetails(statement)} className="text-gray-400 hover:text-gray-600">
+                              {expandedId === statement.id ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+                            </button>
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <p className="font-medium text-gray-900">{ownerName(statement)}</p>
+                            <p className="text-xs text-gray-500">
+                              {statement.currency_code}
+                              {statement.closing_balance_cents < 0 && ` · ${money(-statement.closing_balance_cents)} shortfall carried forward`}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900 text-right whitespace-nowrap">{money(statement.income_cents)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900 text-right whitespace-nowrap">{money(statement.expense_cents)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900 text-right whitespace-nowrap">{money(statement.management_fee_cents)}</td>
+                          <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                            <p className="text-gray-900">{money(statement.reserve_change_cents)}</p>
+                            <p className="text-xs text-gray-500">{money(statement.reserve_balance_cents)} held</p>
+                          </td>
+                          <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right whitespace-nowrap">
+                            {money(statement.distribution_cents)}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[statement.status]}`}>
+                              {OWNER_STATEMENT_STATUS_LABELS[statement.status]}
+                            </span>
+                            {statement.void_reason && (
+                              <p className="text-xs text-gray-500 mt-1">{statement.void_reason}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-right whitespace-nowrap">
+                            <div className="flex items-center justify-end gap-1">
+                              <button
+                                onClick={() => handleDownload(statement)}
+                                disabled={isWorking}
+                                className="p-2 text-gray-400 hover:text-blue-600 rounded-lg disabled:opacity-50"
+                                title="Download PDF"
+                              >
+                                <Download size={16} />
+                              </button>
+                              {canPost && statement.status === 'draft' && (
+                                <>
+                                  <button
+                                    onClick={() => handleDelete(statement)}
+                                    disabled={isWorking}
+                                    className="p-2 text-gray-400 hover:text-red-600 rounded-lg disabled:opacity-50"
+                                    title="Delete draft"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handlePublish(statement)}
+                                    disabled={isWorking}
+                                    className="inline-flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                                  >
+                                    <Send size={14} />
+                                    Publish
+                                  </button>
+                                </>
+                              )}
+                              {canVoid && statement.status === 'published' && (
+                                <button
+                                  onClick={() => setVoidTarget(statement)}
+                                  disabled={isWorking}
+                                  className="p-2 text-gray-400 hover:text-red-600 rounded-lg disabled:opacity-50"
+                                  title="Void"
+                                >
+                                  <Ban size={16} />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                        {expandedId === statement.id && (
+                          <tr>
+                            <td></td>
+                            <td colSpan={8} className="px-4 py-4 bg-gray-50">
+                              {!detail ? (
+                                <p className="text-sm text-gray-500">Loading the statement...</p>
+                              ) : (detail.lines || []).length === 0 ? (
+                                <p className="text-sm text-gray-500">No properties on this statement.</p>
+                              ) : (
+                                <table className="w-full text-sm">
+                                  <thead>
+                                    <tr className="text-xs text-gray-500 uppercase">
+                                      <th className="py-1 text-left">Property</th>
+                                      <th className="py-1 text-right">Share</th>
+                                      <th className="py-1 text-right">Income</th>
+                                      <th className="py-1 text-right">Expenses</th>
+                                      <th className="py-1 text-right">Fees</th>
+                                      <th className="py-1 text-right">Brought Forward</th>
+                                      <th className="py-1 text-right">Reserve</th>
+                                      <th className="py-1 text-right">Carried Forward</th>
+                                      <th className="py-1 text-right">Distribution</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {detail.lines!.map(line => (
+                                      <tr key={line.id}>
+                                        <td className="py-1 text-gray-900">
+                                          {line.property_name}
+                                          <span className="block text-xs text-gray-500">
+                                            {(line.details.income || []).length} income, {(line.details.expenses || []).length} expense items
+                                          </span>
+                                        </td>
+                                        <td className="py-1 text-right text-gray-600">{Number(line.ownership_percentage)}%</td>
+                                        <td className="py-1 text-right">{money(line.income_cents)}</td>
+                                        <td className="py-1 text-right">{money(line.expense_cents)}</td>
+                                        <td className="py-1 text-right">{money(line.management_fee_cents)}</td>
+                                        <td className="py-1 text-right">{money(line.opening_balance_cents)}</td>
+                                        <td className="py-1 text-right">
+                                          {money(line.reserve_change_cents)}
+                                          <span className="block text-xs text-gray-500">{money(line.reserve_balance_cents)} held</span>
+                                        </td>
+                                        <td className="py-1 text-right">{money(line.closing_balance_cents)}</td>
+                                        <td className="py-1 text-right font-medium">{money(line.distribution_cents)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      {termsForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{termsForm.property.name}</h2>
+              <button onClick={() => setTermsForm(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Management fee</label>
+                <select
+                  value={termsForm.feeType}
+                  onChange={(e) => setTermsForm({ ...termsForm, feeType: e.target.value as ManagementFeeType })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {(Object.keys(MANAGEMENT_FEE_TYPE_LABELS) as ManagementFeeType[]).map(type => (
+                    <option key={type} value={type}>{MANAGEMENT_FEE_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              {termsForm.feeType === 'percentage' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Percentage of collected income</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={termsForm.feePercentage}
+                    onChange={(e) => setTermsForm({ ...termsForm, feePercentage: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              )}
+              {termsForm.feeType === 'flat' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Monthly fee</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={termsForm.feeFlat}
+                    onChange={(e) => setTermsForm({ ...termsForm, feeFlat: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reserve target</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={termsForm.reserveTarget}
+                  onChange={(e) => setTermsForm({ ...termsForm, reserveTarget: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Held back from distributions until reached, and shared between owners by ownership percentage.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+                <textarea
+                  value={termsForm.notes}
+                  onChange={(e) => setTermsForm({ ...termsForm, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setTermsForm(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveTerms}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {voidTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Void Statement</h2>
+              <button onClick={() => setVoidTarget(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                The statement for {ownerName(voidTarget)} is withdrawn from the owner portal and its distribution
+                journal is voided. The month can then be calculated again.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <textarea
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setVoidTarget(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleVoid}
+                disabled={isWorking || !voidReason.trim()}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+              >
+                Void Statement
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,631 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import {
+  fiscalPeriodService,
+  CloseChecklistItem,
+  CloseChecklistKey,
+  FiscalYearSummary,
+  FISCAL_PERIOD_STATUS_LABELS,
+  PERIOD_EVENT_LABELS,
+} from '../../services/fiscalPeriodService';
+import { accountingPermissionService } from '../../services/accountingPermissionService';
+import { FiscalPeriod, FiscalPeriodEvent, FiscalPeriodStatus } from '../../types';
+import {
+  Lock,
+  Unlock,
+  CheckCircle,
+  Circle,
+  ChevronDown,
+  ChevronRight,
+  X,
+  AlertCircle,
+  AlertTriangle,
+} from 'lucide-react';
+
+type Tab = 'periods' | 'history';
+
+interface ReasonForm {
+  kind: 'close' | 'reopen' | 'year_end';
+  period?: FiscalPeriod;
+  checklist: CloseChecklistItem[];
+  reason: string;
+}
+
+const STATUS_STYLES: Record<FiscalPeriodStatus, string> = {
+  future: 'bg-blue-100 text-blue-700',
+  open: 'bg-green-100 text-green-700',
+  closing: 'bg-yellow-100 text-yellow-700',
+  closed: 'bg-gray-100 text-gray-700',
+};
+
+const CHECKLIST_LINKS: Record<CloseChecklistKey, string> = {
+  unposted_journals: '/accounting/journals',
+  pending_approvals: '/accounting/journals',
+  draft_bills: '/accounting/payables',
+  unposted_transactions: '/accounting/unposted',
+  unreconciled_bank_accounts: '/accounting/bank-reconciliation',
+};
+
+export function PeriodClose() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('periods');
+  const [years, setYears] = useState<FiscalYearSummary[]>([]);
+  const [fiscalYear, setFiscalYear] = useState<number | null>(null);
+  const [periods, setPeriods] = useState<FiscalPeriod[]>([]);
+  const [events, setEvents] = useState<FiscalPeriodEvent[]>([]);
+  const [checklists, setChecklists] = useState<Record<string, CloseChecklistItem[]>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [canClose, setCanClose] = useState(false);
+  const [canReopen, setCanReopen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [reasonForm, setReasonForm] = useState<ReasonForm | null>(null);
+
+  useEffect(() => {
+    loadYears();
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (fiscalYear !== null) loadPeriods();
+  }, [currentBusiness?.id, fiscalYear]);
+
+  useEffect(() => {
+    if (!currentBusiness || !userProfile) return;
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_close_periods')
+      .then(setCanClose)
+      .catch(() => setCanClose(false));
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_reopen_periods')
+      .then(setCanReopen)
+      .catch(() => setCanReopen(false));
+  }, [currentBusiness?.id, userProfile?.id]);
+
+  const loadYears = async () => {
+    if (!currentBusiness) return;
+    try {
+      const data = await fiscalPeriodService.getFiscalYears(currentBusiness.id);
+      setYears(data);
+      // Start on the earliest year with periods left to close
+      const unfinished = data.filter(y => y.closedPeriods < y.periodsCount);
+      setFiscalYear(current => current
+        ?? unfinished[unfinished.length - 1]?.fiscalYear
+        ?? data.find(y => y.isCurrentYear)?.fiscalYear
+        ?? data[0]?.fiscalYear
+        ?? null);
+      if (data.length === 0) setIsLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load fiscal years');
+      setIsLoading(false);
+    }
+  };
+
+  const loadPeriods = async () => {
+    if (!currentBusiness || fiscalYear === null) return;
+    setIsLoading(true);
+    try {
+      const data = (await fiscalPeriodService.getFiscalPeriods(currentBusiness.id, { fiscalYear }))
+        .sort((a, b) => a.period_number - b.period_number);
+      setPeriods(data);
+      setEvents(await fiscalPeriodService.getPeriodEvents(currentBusiness.id, data.map(p => p.id)));
+      setChecklists({});
+      setExpandedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load fiscal periods');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const loadChecklist = async (period: FiscalPeriod) => {
+    const checklist = await fiscalPeriodService.getCloseChecklist(period);
+    setChecklists(prev => ({ ...prev, [period.id]: checklist }));
+    return checklist;
+  };
+
+  const regularPeriods = periods.filter(p => !p.is_adjusting_period);
+  const adjustingPeriod = periods.find(p => p.is_adjusting_period);
+  const yearClosed = adjustingPeriod?.status === 'closed';
+  // Periods close in order, and only the latest closed one can be reopened
+  const nextToClose = regularPeriods.find(p => p.status !== 'closed');
+  const lastClosed = [...regularPeriods].reverse().find(p => p.status === 'closed');
+  const periodNames = new Map(periods.map(p => [p.id, p.period_name]));
+
+  // ========================================
+  // Actions
+  // ========================================
+
+  const toggleChecklist = (period: FiscalPeriod) => {
+    if (expandedId === period.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(period.id);
+    if (!checklists[period.id]) {
+      runAction(async () => {
+        await loadChecklist(period);
+      }, 'Failed to load the close checklist');
+    }
+  };
+
+  const handleStartClose = (period: FiscalPeriod) => runAction(async () => {
+    await fiscalPeriodService.startClose(period.id, userProfile!.id);
+    setNotice(`${period.period_name} is locked for closing. Nothing can be posted to it until it is closed or the close is cancelled.`);
+    await loadPeriods();
+    setExpandedId(period.id);
+    await loadChecklist(period);
+  }, 'Failed to start the close');
+
+  const handleCancelClose = (period: FiscalPeriod) => runAction(async () => {
+    await fiscalPeriodService.cancelClose(period.id, userProfile!.id);
+    setNotice(`${period.period_name} is open again`);
+    await loadPeriods();
+  }, 'Failed to cancel the close');
+
+  const openClose = (period: FiscalPeriod) => runAction(async () => {
+    const checklist = await loadChecklist(period);
+    setReasonForm({ kind: 'close', period, checklist, reason: '' });
+  }, 'Failed to load the close checklist');
+
+  const openYearEnd = () => runAction(async () => {
+    // Periods still to close are checked as they close
+    const checklist = nextToClose ? await loadChecklist(nextToClose) : [];
+    setReasonForm({ kind: 'year_end', checklist, reason: '' });
+  }, 'Failed to load the close checklist');
+
+  const handleSubmitReason = () => {
+    if (!reasonForm) return;
+    runAction(async () => {
+      const reason = reasonForm.reason.trim();
+      if (reasonForm.kind === 'close') {
+        await fiscalPeriodService.closePeriod(reasonForm.period!.id, userProfile!.id, reason || undefined);
+        setNotice(`${reasonForm.period!.period_name} closed`);
+      } else if (reasonForm.kind === 'reopen') {
+        await fiscalPeriodService.reopenPeriod(reasonForm.period!.id, userProfile!.id, reason);
+        setNotice(
+          reasonForm.period!.is_adjusting_period && reasonForm.period!.closing_journal_id
+            ? `${reasonForm.period!.period_name} reopened and the closing journal reversed`
+            : `${reasonForm.period!.period_name} reopened`
+        );
+      } else {
+        const result = await fiscalPeriodService.closeFiscalYear(
+          currentBusiness!.id,
+          fiscalYear!,
+          userProfile!.id,
+          reason || undefined
+        );
+        setNotice(
+          `Fiscal year ${fiscalYear} closed.`
+          + (result.yearEndJournalId
+            ? ' Revenue and expenses were closed to retained earnings.'
+            : ' There was no revenue or expense to close to retained earnings.')
+        );
+      }
+      setReasonForm(null);
+      await loadPeriods();
+      await loadYears();
+    }, 'Failed to update the period');
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatDateTime = (date: string) => {
+    return new Date(date).toLocaleString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const openItems = (checklist: CloseChecklistItem[]) => checklist.filter(item => item.count > 0);
+  const reasonRequired = reasonForm?.kind === 'reopen' || (!!reasonForm && openItems(reasonForm.checklist).length > 0);
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'periods', label: 'Periods' },
+    { id: 'history', label: 'History' },
+  ];
+
+  const renderChecklist = (checklist: CloseChecklistItem[]) => (
+    <ul className="space-y-2">
+      {checklist.map(item => (
+        <li key={item.key} className="flex items-start gap-2 text-sm">
+          {item.count === 0 ? (
+            <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+          ) : (
+            <Circle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="flex-1">
+            <div className="flex items-center gap-2">
+              <span className={item.count === 0 ? 'text-gray-600' : 'font-medium text-gray-900'}>{item.label}</span>
+              {item.count > 0 && (
+                <>
+                  <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded text-xs">{item.count}</span>
+                  <Link to={CHECKLIST_LINKS[item.key]} className="text-xs text-blue-600 hover:text-blue-800">
+                    Review
+                  </Link>
+                </>
+              )}
+            </div>
+            {item.details.length > 0 && (
+              <ul className="mt-1 text-xs text-gray-500 space-y-0.5">
+                {item.details.map((detail, i) => (
+                  <li key={i}>{detail}</li>
+                ))}
+                {item.count > item.details.length && <li>and {item.count - item.details.length} more</li>}
+              </ul>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Period Close</h1>
+              <p className="text-gray-600 mt-1">Month-end checklist, period locking and year-end closing entries</p>
+            </div>
+            {years.length > 0 && (
+              <select
+                value={fiscalYear ?? ''}
+                onChange={(e) => setFiscalYear(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                {years.map(year => (
+                  <option key={year.fiscalYear} value={year.fiscalYear}>Fiscal {year.fiscalYear}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : periods.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <Lock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No fiscal periods</h3>
+            <p className="text-gray-600">Fiscal periods are created when accounting is set up from the accounting dashboard.</p>
+          </div>
+        ) : tab === 'periods' ? (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Closed</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {regularPeriods.filter(p => p.status === 'closed').length} of {regularPeriods.length}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Next to Close</p>
+                <p className="text-2xl font-bold text-gray-900">{nextToClose?.period_name ?? '-'}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Being Closed</p>
+                <p className={`text-2xl font-bold ${periods.some(p => p.status === 'closing') ? 'text-yellow-600' : 'text-gray-900'}`}>
+                  {periods.filter(p => p.status === 'closing').length}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Year-End</p>
+                <p className="text-2xl font-bold text-gray-900">{yearClosed ? 'Closed' : 'Open'}</p>
+              </div>
+            </div>
+
+            {canClose && !yearClosed && (
+              <div className="p-4 bg-white rounded-lg shadow flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">Close fiscal year {fiscalYear}</p>
+                  <p className="text-sm text-gray-600">
+                    Closes the remaining periods, posts the closing journal moving revenue and expenses into retained
+                    earnings, then closes the adjusting period.
+                  </p>
+                </div>
+                <button
+                  onClick={openYearEnd}
+                  disabled={isWorking}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50 whitespace-nowrap"
+                >
+                  <Lock size={18} />
+                  <span>Close Year</span>
+                </button>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 w-8"></th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Period</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Dates</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Closed</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {periods.map(period => {
+                    const isNext = period.id === nextToClose?.id;
+                    const canReopenThis = period.is_adjusting_period
+                      ? period.status === 'closed'
+                      : period.id === lastClosed?.id && !yearClosed && nextToClose?.status !== 'closing';
+
+                    return (
+                      <Fragment key={period.id}>
+                        <tr className="hover:bg-gray-50">
+                          <td className="px-4 py-3">
+                            {!period.is_adjusting_period && (
+                              <button onClick={() => toggleChecklist(period)} className="text-gray-400 hover:text-gray-600">
+                                {expandedId === period.id ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+                              </button>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <p className="font-medium text-gray-900">{period.period_name}</p>
+                            {period.closing_journal_id && (
+                              <Link to="/accounting/journals" className="text-xs text-blue-600 hover:text-blue-800">
+                                Closing journal posted
+                              </Link>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                            {formatDate(period.start_date)} - {formatDate(period.end_date)}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[period.status]}`}>
+                              {FISCAL_PERIOD_STATUS_LABELS[period.status]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                            {period.closed_at ? formatDate(period.closed_at) : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-right whitespace-nowrap space-x-2">
+                            {canClose && isNext && period.status === 'open' && (
+                              <button
+                                onClick={() => handleStartClose(period)}
+                                disabled={isWorking}
+                                className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                              >
+                                Start Close
+                              </button>
+                            )}
+                            {canClose && isNext && period.status === 'closing' && (
+                              <button
+                                onClick={() => handleCancelClose(period)}
+                                disabled={isWorking}
+                                className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                              >
+                                Cancel Close
+                              </button>
+                            )}
+                            {canClose && isNext && (
+                              <button
+                                onClick={() => openClose(period)}
+                                disabled={isWorking}
+                                className="inline-flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                              >
+                                <Lock size={14} />
+                                Close
+                              </button>
+                            )}
+                            {canReopen && canReopenThis && (
+                              <button
+                                onClick={() => setReasonForm({ kind: 'reopen', period, checklist: [], reason: '' })}
+                                disabled={isWorking}
+                                className="inline-flex items-center gap-1 px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                              >
+                                <Unlock size={14} />
+                                Reopen
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {expandedId === period.id && (
+                          <tr>
+                            <td></td>
+                            <td colSpan={5} className="px-4 py-4 bg-gray-50">
+                              {checklists[period.id] ? (
+                                renderChecklist(checklists[period.id]!)
+                              ) : (
+                                <p className="text-sm text-gray-500">Checking the period...</p>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : events.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <p className="text-gray-600">No periods of fiscal {fiscalYear} have been closed or reopened yet.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">When</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Period</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">By</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Reason</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Open Items</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {events.map(event => (
+                  <tr key={event.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDateTime(event.created_at)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{periodNames.get(event.period_id) ?? '-'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{PERIOD_EVENT_LABELS[event.action]}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{event.created_by_name || '-'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{event.reason || '-'}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {event.checklist?.length ? (
+                        <div className="flex flex-wrap gap-1">
+                          {event.checklist.map(item => (
+                            <span key={item.key} className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded text-xs">
+                              {item.label}: {item.count}
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-gray-500">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {reasonForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">
+                {reasonForm.kind === 'close'
+                  ? `Close ${reasonForm.period!.period_name}`
+                  : reasonForm.kind === 'reopen'
+                    ? `Reopen ${reasonForm.period!.period_name}`
+                    : `Close Fiscal ${fiscalYear}`}
+              </h2>
+              <button onClick={() => setReasonForm(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              {reasonForm.kind === 'reopen' ? (
+                <p className="text-sm text-gray-600">
+                  {reasonForm.period!.is_adjusting_period && reasonForm.period!.closing_journal_id
+                    ? 'The year-end closing journal will be reversed. It is posted again when the year is closed.'
+                    : 'The period can be posted to again until it is closed.'}
+                </p>
+              ) : (
+                <>
+                  {openItems(reasonForm.checklist).length > 0 ? (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-2">
+                      <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+                      <p className="text-yellow-800 text-sm">
+                        {reasonForm.kind === 'year_end' ? `${nextToClose?.period_name} has` : 'There are'} open checklist
+                        items. Resolve them first, or give a reason to close anyway.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600">
+                      {reasonForm.kind === 'year_end'
+                        ? 'Each remaining period is checked as it closes. Nothing can be posted to the year once it is closed.'
+                        : 'The checklist is complete. Nothing can be posted to the period once it is closed.'}
+                    </p>
+                  )}
+                  {reasonForm.checklist.length > 0 && renderChecklist(reasonForm.checklist)}
+                </>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason{reasonRequired ? '' : ' (optional)'}
+                </label>
+                <textarea
+                  value={reasonForm.reason}
+                  onChange={(e) => setReasonForm({ ...reasonForm, reason: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setReasonForm(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitReason}
+                disabled={isWorking || (reasonRequired && !reasonForm.reason.trim())}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {reasonForm.kind === 'reopen' ? 'Reopen' : reasonForm.kind === 'year_end' ? 'Close Year' : 'Close Period'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
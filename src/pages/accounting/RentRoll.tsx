@@ -0,0 +1,463 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { rentRollService } from '../../services/rentRollService';
+import { propertyService } from '../../services/propertyService';
+import { ExportFormat } from '../../services/dataExportService';
+import { Property, RentRoll as RentRollReport, RentRollSnapshot } from '../../types';
+import {
+  ClipboardList,
+  Camera,
+  Download,
+  Eye,
+  Share2,
+  Trash2,
+  ArrowLeft,
+  CheckCircle,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+export function RentRoll() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [asOfDate, setAsOfDate] = useState(today());
+  const [rentRoll, setRentRoll] = useState<RentRollReport | null>(null);
+  const [viewingSnapshot, setViewingSnapshot] = useState<RentRollSnapshot | null>(null);
+  const [snapshots, setSnapshots] = useState<RentRollSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [showSave, setShowSave] = useState(false);
+  const [saveForm, setSaveForm] = useState({ notes: '', sharedWithOwners: false });
+
+  useEffect(() => {
+    if (currentBusiness) {
+      propertyService.getAllProperties(currentBusiness.id).then(setProperties).catch(() => setProperties([]));
+      loadSnapshots();
+    }
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    loadRentRoll();
+  }, [currentBusiness?.id, propertyId, asOfDate]);
+
+  const loadRentRoll = async () => {
+    if (!currentBusiness || !asOfDate) return;
+    setIsWorking(true);
+    try {
+      setRentRoll(await rentRollService.generateRentRoll(currentBusiness.id, {
+        asOfDate,
+        propertyId: propertyId || undefined,
+      }));
+      setViewingSnapshot(null);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate rent roll');
+    } finally {
+      setIsWorking(false);
+      setIsLoading(false);
+    }
+  };
+
+  const loadSnapshots = async () => {
+    if (!currentBusiness) return;
+    try {
+      setSnapshots(await rentRollService.getSnapshots(currentBusiness.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      await loadSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveSnapshot = async () => {
+    if (!rentRoll || !userProfile) return;
+    await runAction(async () => {
+      await rentRollService.saveSnapshot(rentRoll, userProfile.id, saveForm);
+      setShowSave(false);
+      setSaveForm({ notes: '', sharedWithOwners: false });
+      setNotice(`Snapshot saved for ${formatDate(rentRoll.as_of_date)}`);
+    }, 'Failed to save snapshot');
+  };
+
+  const handleDeleteSnapshot = async (snapshot: RentRollSnapshot) => {
+    if (!window.confirm(`Delete the rent roll snapshot as of ${formatDate(snapshot.as_of_date)}?`)) return;
+    await runAction(async () => {
+      await rentRollService.deleteSnapshot(snapshot.id);
+      if (viewingSnapshot?.id === snapshot.id) await loadRentRoll();
+    }, 'Failed to delete snapshot');
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!rentRoll || !currentBusiness) return;
+    rentRollService.exportRentRoll(rentRoll, format, currentBusiness.business_name);
+  };
+
+  const viewSnapshot = (snapshot: RentRollSnapshot) => {
+    setRentRoll(rentRollService.fromSnapshot(snapshot));
+    setViewingSnapshot(snapshot);
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 overflow-auto">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading rent roll...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = rentRoll?.summary;
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Rent Roll</h1>
+              <p className="text-gray-600 mt-1">Units, tenants, rents, deposits and balances as of any date</p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+              <select
+                value={propertyId}
+                onChange={(e) => setPropertyId(e.target.value)}
+                disabled={!!viewingSnapshot}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm disabled:bg-gray-50"
+              >
+                <option value="">All properties</option>
+                {properties.map(property => (
+                  <option key={property.id} value={property.id}>{property.name}</option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={asOfDate}
+                max={today()}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                disabled={!!viewingSnapshot}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm disabled:bg-gray-50"
+              />
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={!rentRoll || rentRoll.rows.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <Download size={18} />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={() => handleExport('pdf')}
+                disabled={!rentRoll || rentRoll.rows.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <Download size={18} />
+                <span>PDF</span>
+              </button>
+              {!viewingSnapshot && (
+                <button
+                  onClick={() => setShowSave(true)}
+                  disabled={isWorking || !rentRoll || rentRoll.rows.length === 0}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  <Camera size={18} />
+                  <span className="hidden sm:inline">Save Snapshot</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {viewingSnapshot && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-4">
+            <p className="text-blue-800 text-sm">
+              Snapshot of {viewingSnapshot.property?.name || 'all properties'} as of {formatDate(viewingSnapshot.as_of_date)},
+              saved {new Date(viewingSnapshot.created_at).toLocaleString('en-CA')}
+              {viewingSnapshot.notes && ` · ${viewingSnapshot.notes}`}
+            </p>
+            <button
+              onClick={loadRentRoll}
+              className="flex items-center gap-1 text-sm text-blue-700 hover:text-blue-900 whitespace-nowrap"
+            >
+              <ArrowLeft size={16} />
+              Back to live
+            </button>
+          </div>
+        )}
+
+        {summary && (
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">Occupancy</p>
+              <p className="text-2xl font-bold text-gray-900">{summary.occupancy_rate}%</p>
+              <p className="text-xs text-gray-500">{summary.occupied_units} of {summary.total_units} units</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">Lease Rent</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.total_lease_rent_cents)}</p>
+              <p className="text-xs text-gray-500">Market {formatCurrency(summary.total_market_rent_cents)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">Loss to Lease / Vacancy</p>
+              <p className="text-2xl font-bold text-orange-600">
+                {formatCurrency(summary.loss_to_lease_cents + summary.vacancy_loss_cents)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatCurrency(summary.loss_to_lease_cents)} / {formatCurrency(summary.vacancy_loss_cents)}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">Deposits Held</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.total_deposits_held_cents)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">Balance Owed</p>
+              <p className={`text-2xl font-bold ${summary.total_balance_owed_cents > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatCurrency(summary.total_balance_owed_cents)}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {!rentRoll || rentRoll.rows.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <ClipboardList className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No Units</h3>
+            <p className="text-gray-600">There were no units on the rent roll as of this date.</p>
+          </div>
+        ) : (
+          <div className={`bg-white rounded-lg shadow overflow-x-auto ${isWorking ? 'opacity-60' : ''}`}>
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Unit</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Tenant</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Lease</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Market Rent</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Lease Rent</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Deposits</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Balance</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Days Vacant</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rentRoll.rows.map(row => (
+                  <tr key={row.unit_id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <p className="font-medium text-gray-900">Unit {row.unit_number}</p>
+                      <p className="text-xs text-gray-500">
+                        {row.property_name}
+                        {row.bedrooms != null && ` · ${row.bedrooms} bd`}
+                        {row.square_feet != null && ` · ${row.square_feet} sq ft`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {row.occupancy === 'vacant' ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Vacant</span>
+                      ) : (
+                        <span className="text-gray-900">{row.tenant_name || 'Unknown tenant'}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {row.lease_start_date && (
+                        <>
+                          {formatDate(row.lease_start_date)} – {row.lease_end_date ? formatDate(row.lease_end_date) : 'ongoing'}
+                          {row.is_holdover && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-700">Holdover</span>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-600">{formatCurrency(row.market_rent_cents)}</td>
+                    <td className={`px-4 py-3 text-sm text-right ${
+                      row.occupancy === 'occupied' && row.lease_rent_cents < row.market_rent_cents ? 'text-orange-600' : 'text-gray-900'
+                    }`}>
+                      {row.occupancy === 'occupied' ? formatCurrency(row.lease_rent_cents) : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-600">
+                      {row.deposits_held_cents ? formatCurrency(row.deposits_held_cents) : '-'}
+                    </td>
+                    <td className={`px-4 py-3 text-sm text-right font-medium ${
+                      row.balance_owed_cents > 0 ? 'text-red-600' : row.balance_owed_cents < 0 ? 'text-green-600' : 'text-gray-600'
+                    }`}>
+                      {row.balance_owed_cents ? formatCurrency(row.balance_owed_cents) : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-600">{row.days_vacant ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Saved Snapshots</h2>
+            <p className="text-sm text-gray-500">Rent rolls kept exactly as reported. Shared snapshots appear in the owner portal.</p>
+          </div>
+          {snapshots.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">No snapshots saved yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {snapshots.map(snapshot => (
+                <div key={snapshot.id} className="px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {formatDate(snapshot.as_of_date)} · {snapshot.property?.name || 'All properties'}
+                      {snapshot.shared_with_owners && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700">Shared with owners</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {snapshot.summary.occupied_units}/{snapshot.summary.total_units} occupied ·{' '}
+                      {formatCurrency(snapshot.summary.total_lease_rent_cents)} lease rent · saved{' '}
+                      {new Date(snapshot.created_at).toLocaleDateString('en-CA')}
+                      {snapshot.notes && ` · ${snapshot.notes}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => viewSnapshot(snapshot)}
+                      title="View"
+                      className="p-2 text-gray-500 hover:text-blue-600 rounded-lg"
+                    >
+                      <Eye size={18} />
+                    </button>
+                    <button
+                      onClick={() => runAction(
+                        () => rentRollService.setSnapshotShared(snapshot.id, !snapshot.shared_with_owners),
+                        'Failed to update snapshot'
+                      )}
+                      disabled={isWorking}
+                      title={snapshot.shared_with_owners ? 'Stop sharing with owners' : 'Share with owners'}
+                      className={`p-2 rounded-lg ${snapshot.shared_with_owners ? 'text-purple-600' : 'text-gray-500 hover:text-purple-600'}`}
+                    >
+                      <Share2 size={18} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSnapshot(snapshot)}
+                      disabled={isWorking}
+                      title="Delete"
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Save Snapshot Modal */}
+      {showSave && rentRoll && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Save Snapshot</h2>
+              <button onClick={() => setShowSave(false)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Saves the rent roll for {rentRoll.property_name || 'all properties'} as of {formatDate(rentRoll.as_of_date)} exactly as shown.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={saveForm.notes}
+                  onChange={(e) => setSaveForm({ ...saveForm, notes: e.target.value })}
+                  placeholder="e.g. Sent to lender for refinancing"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={saveForm.sharedWithOwners}
+                  onChange={(e) => setSaveForm({ ...saveForm, sharedWithOwners: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                />
+                Share with property owners
+              </label>
+            </div>
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button onClick={() => setShowSave(false)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveSnapshot}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save Snapshot
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,738 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  securityDepositService,
+  DepositDeductionInput,
+  DEPOSIT_DEDUCTION_LABELS,
+} from '../../services/securityDepositService';
+import { DepositDeductionCategory, LeaseDeposit, LeaseDepositStatus, LeaseDepositTransaction } from '../../types';
+import {
+  ShieldCheck,
+  RefreshCw,
+  Percent,
+  Plus,
+  LogOut,
+  History,
+  FileText,
+  CheckCircle,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+
+interface DeductionRow {
+  category: DepositDeductionCategory;
+  description: string;
+  amount: string;
+  lateFeeId?: string;
+  paymentScheduleId?: string;
+  inspectionItemId?: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+export function SecurityDeposits() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [deposits, setDeposits] = useState<LeaseDeposit[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LeaseDepositStatus>('held');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [interestDate, setInterestDate] = useState(today());
+
+  const [receiptDeposit, setReceiptDeposit] = useState<LeaseDeposit | null>(null);
+  const [receiptForm, setReceiptForm] = useState({ amount: '', receivedDate: today(), paymentMethod: '', reference: '' });
+  const [unrecordedPayments, setUnrecordedPayments] = useState<any[]>([]);
+
+  const [historyDeposit, setHistoryDeposit] = useState<LeaseDeposit | null>(null);
+  const [transactions, setTransactions] = useState<LeaseDepositTransaction[]>([]);
+
+  const [disposeDeposit, setDisposeDeposit] = useState<LeaseDeposit | null>(null);
+  const [moveOutDate, setMoveOutDate] = useState(today());
+  const [interestToMoveOut, setInterestToMoveOut] = useState(0);
+  const [deductions, setDeductions] = useState<DeductionRow[]>([]);
+  const [refundForm, setRefundForm] = useState({ method: '', reference: '', notes: '' });
+
+  useEffect(() => {
+    loadDeposits();
+  }, [currentBusiness?.id, statusFilter]);
+
+  useEffect(() => {
+    if (disposeDeposit && moveOutDate) {
+      securityDepositService
+        .calculateInterest(disposeDeposit, moveOutDate)
+        .then(result => setInterestToMoveOut(result.interestCents))
+        .catch(() => setInterestToMoveOut(0));
+    }
+  }, [disposeDeposit?.id, moveOutDate]);
+
+  const loadDeposits = async () => {
+    if (!currentBusiness) return;
+    try {
+      setDeposits(await securityDepositService.getDeposits(currentBusiness.id, statusFilter));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deposits');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      await loadDeposits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSync = async () => {
+    if (!currentBusiness || !userProfile) return;
+    await runAction(async () => {
+      const created = await securityDepositService.syncLeaseDeposits(currentBusiness.id, userProfile.id);
+      setNotice(created > 0 ? `Added ${created} deposit${created === 1 ? '' : 's'} from leases` : 'All lease deposits are already tracked');
+    }, 'Failed to sync lease deposits');
+  };
+
+  const handleAccrueInterest = async () => {
+    if (!currentBusiness || !userProfile) return;
+    await runAction(async () => {
+      const result = await securityDepositService.accrueInterestForBusiness(currentBusiness.id, userProfile.id, interestDate);
+      setNotice(
+        `Credited ${formatCurrency(result.totalCents)} interest on ${result.accrued} deposit${result.accrued === 1 ? '' : 's'} through ${formatDate(interestDate)}` +
+          (result.missingRates.length > 0 ? `. No rate on file for: ${result.missingRates.join(', ')}` : '')
+      );
+    }, 'Failed to accrue interest');
+  };
+
+  const openReceipt = async (deposit: LeaseDeposit) => {
+    setReceiptDeposit(deposit);
+    setReceiptForm({
+      amount: (Math.max(0, deposit.required_cents - deposit.balance_cents) / 100).toFixed(2),
+      receivedDate: today(),
+      paymentMethod: '',
+      reference: '',
+    });
+    try {
+      setUnrecordedPayments(await securityDepositService.getUnrecordedDepositPayments(deposit));
+    } catch {
+      setUnrecordedPayments([]);
+    }
+  };
+
+  const handleRecordReceipt = async (rentPayment?: any) => {
+    if (!currentBusiness || !userProfile || !receiptDeposit) return;
+    await runAction(async () => {
+      await securityDepositService.recordReceipt(currentBusiness.id, userProfile.id, receiptDeposit, rentPayment
+        ? {
+            amountCents: rentPayment.amount_cents,
+            receivedDate: rentPayment.payment_date,
+            paymentMethod: rentPayment.payment_method,
+            reference: rentPayment.payment_reference,
+            rentPaymentId: rentPayment.id,
+          }
+        : {
+            amountCents: Math.round(parseFloat(receiptForm.amount) * 100) || 0,
+            receivedDate: receiptForm.receivedDate,
+            paymentMethod: receiptForm.paymentMethod || undefined,
+            reference: receiptForm.reference || undefined,
+          });
+      setReceiptDeposit(null);
+      setNotice('Deposit receipt recorded');
+    }, 'Failed to record receipt');
+  };
+
+  const openHistory = async (deposit: LeaseDeposit) => {
+    setHistoryDeposit(deposit);
+    try {
+      setTransactions(await securityDepositService.getTransactions(deposit.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deposit history');
+    }
+  };
+
+  const openDispose = async (deposit: LeaseDeposit) => {
+    const date = deposit.lease?.end_date && deposit.lease.end_date < today() ? deposit.lease.end_date : today();
+    setDisposeDeposit(deposit);
+    setMoveOutDate(date);
+    setRefundForm({ method: '', reference: '', notes: '' });
+    try {
+      const suggested = await securityDepositService.getSuggestedDeductions(deposit, date);
+      setDeductions(suggested.map(d => ({ ...d, amount: (d.amountCents / 100).toFixed(2) })));
+    } catch {
+      setDeductions([]);
+    }
+  };
+
+  const handleDispose = async () => {
+    if (!currentBusiness || !userProfile || !disposeDeposit) return;
+    const items: DepositDeductionInput[] = deductions.map(d => ({
+      category: d.category,
+      description: d.description,
+      amountCents: Math.round(parseFloat(d.amount) * 100) || 0,
+      lateFeeId: d.lateFeeId,
+      paymentScheduleId: d.paymentScheduleId,
+      inspectionItemId: d.inspectionItemId,
+    }));
+
+    await runAction(async () => {
+      const disposed = await securityDepositService.disposeDeposit(currentBusiness.id, userProfile.id, disposeDeposit, {
+        moveOutDate,
+        deductions: items,
+        refundMethod: refundForm.method || undefined,
+        refundReference: refundForm.reference || undefined,
+        notes: refundForm.notes || undefined,
+      });
+      setDisposeDeposit(null);
+      setNotice(`Deposit disposed. Refund due to tenant: ${formatCurrency(disposed.refund_cents || 0)}`);
+    }, 'Failed to dispose deposit');
+  };
+
+  const handleDownloadStatement = async (deposit: LeaseDeposit) => {
+    if (!currentBusiness) return;
+    try {
+      await securityDepositService.downloadStatement(deposit.id, currentBusiness.business_name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate statement');
+    }
+  };
+
+  const updateDeduction = (index: number, changes: Partial<DeductionRow>) => {
+    setDeductions(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const tenantName = (deposit: LeaseDeposit) =>
+    deposit.tenant ? `${deposit.tenant.first_name} ${deposit.tenant.last_name}` : 'No tenant';
+
+  const unitLabel = (deposit: LeaseDeposit) =>
+    `${deposit.unit?.property?.name || 'Unknown property'}${deposit.unit?.unit_number ? ` · Unit ${deposit.unit.unit_number}` : ''}`;
+
+  const getTransactionBadge = (type: string) => {
+    const styles: Record<string, string> = {
+      receipt: 'bg-green-100 text-green-700',
+      interest: 'bg-blue-100 text-blue-700',
+      deduction: 'bg-orange-100 text-orange-700',
+      refund: 'bg-gray-100 text-gray-700',
+    };
+    return (
+      <span className={`px-2 py-1 rounded-full text-xs font-medium ${styles[type] || styles.refund}`}>{type}</span>
+    );
+  };
+
+  const totalHeld = deposits.reduce((sum, d) => sum + d.balance_cents, 0);
+  const totalShortfall = deposits.reduce((sum, d) => sum + Math.max(0, d.required_cents - d.balance_cents), 0);
+  const deductionTotal = deductions.reduce((sum, d) => sum + (Math.round(parseFloat(d.amount) * 100) || 0), 0);
+  const heldAtMoveOut = (disposeDeposit?.balance_cents || 0) + interestToMoveOut;
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 overflow-auto">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading deposits...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Security Deposits</h1>
+              <p className="text-gray-600 mt-1">Deposits held in trust, interest owed, and move-out dispositions</p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+              <button
+                onClick={handleSync}
+                disabled={isWorking}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <RefreshCw size={18} />
+                <span className="hidden sm:inline">Sync Leases</span>
+              </button>
+              <input
+                type="date"
+                value={interestDate}
+                onChange={(e) => setInterestDate(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <button
+                onClick={handleAccrueInterest}
+                disabled={isWorking || !interestDate}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                <Percent size={18} />
+                <span className="hidden sm:inline">Accrue Interest</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">{statusFilter === 'held' ? 'Held in Trust' : 'Balance'}</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalHeld)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">Not Yet Collected</p>
+            <p className="text-2xl font-bold text-orange-600">{formatCurrency(totalShortfall)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">Deposits</p>
+            <p className="text-2xl font-bold text-gray-900">{deposits.length}</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200 flex gap-2">
+            {(['held', 'disposed'] as LeaseDepositStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+                  statusFilter === status ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {status === 'held' ? 'Held' : 'Disposed'}
+              </button>
+            ))}
+          </div>
+
+          {deposits.length === 0 ? (
+            <div className="p-12 text-center">
+              <ShieldCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Deposits</h3>
+              <p className="text-gray-600">
+                {statusFilter === 'held'
+                  ? 'Sync leases to track the security and pet deposits they require.'
+                  : 'Deposits appear here once they are disposed at move-out.'}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Tenant</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Unit</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Type</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Required</th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">
+                      {statusFilter === 'held' ? 'Held' : 'Refunded'}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                      {statusFilter === 'held' ? 'Interest Through' : 'Move-Out'}
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deposits.map(deposit => (
+                    <tr key={deposit.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm text-gray-900">{tenantName(deposit)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{unitLabel(deposit)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 capitalize">
+                        {deposit.deposit_type}
+                        {deposit.jurisdiction && (
+                          <span className="ml-2 text-xs text-gray-400">
+                            {deposit.jurisdiction}{deposit.region_code ? `-${deposit.region_code}` : ''}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono text-sm">{formatCurrency(deposit.required_cents)}</td>
+                      <td className={`px-4 py-3 text-right font-mono text-sm ${
+                        statusFilter === 'held' && deposit.balance_cents < deposit.required_cents ? 'text-orange-600' : 'text-gray-900'
+                      }`}>
+                        {formatCurrency(statusFilter === 'held' ? deposit.balance_cents : deposit.refund_cents || 0)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {statusFilter === 'held'
+                          ? deposit.interest_accrued_through ? formatDate(deposit.interest_accrued_through) : '-'
+                          : deposit.move_out_date ? formatDate(deposit.move_out_date) : '-'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-1">
+                          {deposit.status === 'held' && (
+                            <>
+                              <button
+                                onClick={() => openReceipt(deposit)}
+                                title="Record receipt"
+                                className="p-2 text-gray-400 hover:text-green-600 rounded"
+                              >
+                                <Plus size={16} />
+                              </button>
+                              <button
+                                onClick={() => openDispose(deposit)}
+                                title="Move-out disposition"
+                                className="p-2 text-gray-400 hover:text-orange-600 rounded"
+                              >
+                                <LogOut size={16} />
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() => openHistory(deposit)}
+                            title="History"
+                            className="p-2 text-gray-400 hover:text-blue-600 rounded"
+                          >
+                            <History size={16} />
+                          </button>
+                          {deposit.status === 'disposed' && (
+                            <button
+                              onClick={() => handleDownloadStatement(deposit)}
+                              title="Deduction statement (PDF)"
+                              className="p-2 text-gray-400 hover:text-blue-600 rounded"
+                            >
+                              <FileText size={16} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Record Receipt Modal */}
+      {receiptDeposit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Record Deposit Receipt</h2>
+                <p className="text-sm text-gray-500 mt-1">{tenantName(receiptDeposit)} · {unitLabel(receiptDeposit)}</p>
+              </div>
+              <button onClick={() => setReceiptDeposit(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              {unrecordedPayments.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Deposit payments already collected</p>
+                  <div className="space-y-2">
+                    {unrecordedPayments.map(payment => (
+                      <div key={payment.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="text-sm">
+                          <span className="font-mono">{formatCurrency(payment.amount_cents)}</span>
+                          <span className="text-gray-500"> · {formatDate(payment.payment_date)}</span>
+                        </div>
+                        <button
+                          onClick={() => handleRecordReceipt(payment)}
+                          disabled={isWorking}
+                          className="text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                        >
+                          Record
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={receiptForm.amount}
+                    onChange={(e) => setReceiptForm({ ...receiptForm, amount: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Received</label>
+                  <input
+                    type="date"
+                    value={receiptForm.receivedDate}
+                    onChange={(e) => setReceiptForm({ ...receiptForm, receivedDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                  <input
+                    type="text"
+                    value={receiptForm.paymentMethod}
+                    onChange={(e) => setReceiptForm({ ...receiptForm, paymentMethod: e.target.value })}
+                    placeholder="e-Transfer, cheque..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                  <input
+                    type="text"
+                    value={receiptForm.reference}
+                    onChange={(e) => setReceiptForm({ ...receiptForm, reference: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button onClick={() => setReceiptDeposit(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition">
+                Cancel
+              </button>
+              <button
+                onClick={() => handleRecordReceipt()}
+                disabled={isWorking || !(parseFloat(receiptForm.amount) > 0) || !receiptForm.receivedDate}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+              >
+                Record Receipt
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Disposition Modal */}
+      {disposeDeposit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Move-Out Disposition</h2>
+                <p className="text-sm text-gray-500 mt-1">{tenantName(disposeDeposit)} · {unitLabel(disposeDeposit)}</p>
+              </div>
+              <button onClick={() => setDisposeDeposit(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Move-out date</label>
+                  <input
+                    type="date"
+                    value={moveOutDate}
+                    onChange={(e) => setMoveOutDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Deposit held</p>
+                  <p className="text-lg font-semibold font-mono">{formatCurrency(disposeDeposit.balance_cents)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Interest to move-out</p>
+                  <p className="text-lg font-semibold font-mono">{formatCurrency(interestToMoveOut)}</p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Deductions</label>
+                <div className="space-y-2">
+                  {deductions.map((deduction, index) => (
+                    <div key={index} className="flex gap-2">
+                      <select
+                        value={deduction.category}
+                        onChange={(e) => updateDeduction(index, { category: e.target.value as DepositDeductionCategory })}
+                        className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        {(Object.keys(DEPOSIT_DEDUCTION_LABELS) as DepositDeductionCategory[]).map(category => (
+                          <option key={category} value={category}>{DEPOSIT_DEDUCTION_LABELS[category]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={deduction.description}
+                        onChange={(e) => updateDeduction(index, { description: e.target.value })}
+                        placeholder="Description"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={deduction.amount}
+                        onChange={(e) => updateDeduction(index, { amount: e.target.value })}
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                      <button
+                        onClick={() => setDeductions(prev => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-600 rounded"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setDeductions(prev => [...prev, { category: 'damage', description: '', amount: '' }])}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  + Add deduction
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Refund method</label>
+                  <input
+                    type="text"
+                    value={refundForm.method}
+                    onChange={(e) => setRefundForm({ ...refundForm, method: e.target.value })}
+                    placeholder="e-Transfer, cheque..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Refund reference</label>
+                  <input
+                    type="text"
+                    value={refundForm.reference}
+                    onChange={(e) => setRefundForm({ ...refundForm, reference: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes for the statement</label>
+                <textarea
+                  value={refundForm.notes}
+                  onChange={(e) => setRefundForm({ ...refundForm, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Held incl. interest</span>
+                  <span className="font-mono">{formatCurrency(heldAtMoveOut)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Deductions</span>
+                  <span className="font-mono">-{formatCurrency(deductionTotal)}</span>
+                </div>
+                <div className={`flex justify-between font-semibold ${deductionTotal > heldAtMoveOut ? 'text-red-600' : 'text-gray-900'}`}>
+                  <span>Refund to tenant</span>
+                  <span className="font-mono">{formatCurrency(heldAtMoveOut - deductionTotal)}</span>
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button onClick={() => setDisposeDeposit(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleDispose}
+                disabled={isWorking || !moveOutDate || deductionTotal > heldAtMoveOut}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+              >
+                Dispose Deposit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* History Modal */}
+      {historyDeposit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Deposit History</h2>
+                <p className="text-sm text-gray-500 mt-1">{tenantName(historyDeposit)} · {unitLabel(historyDeposit)}</p>
+              </div>
+              <button onClick={() => setHistoryDeposit(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6">
+              {transactions.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No transactions recorded</p>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="py-2 text-left text-xs font-semibold text-gray-700 uppercase">Date</th>
+                      <th className="py-2 text-left text-xs font-semibold text-gray-700 uppercase">Type</th>
+                      <th className="py-2 text-left text-xs font-semibold text-gray-700 uppercase">Description</th>
+                      <th className="py-2 text-right text-xs font-semibold text-gray-700 uppercase">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {transactions.map(t => (
+                      <tr key={t.id} className="border-b border-gray-100">
+                        <td className="py-2 text-sm text-gray-600 whitespace-nowrap">{formatDate(t.transaction_date)}</td>
+                        <td className="py-2">{getTransactionBadge(t.transaction_type)}</td>
+                        <td className="py-2 text-sm text-gray-900">
+                          {t.description || '-'}
+                          {t.reference && <span className="text-gray-500"> · {t.reference}</span>}
+                        </td>
+                        <td className={`py-2 text-right font-mono text-sm ${
+                          t.transaction_type === 'deduction' || t.transaction_type === 'refund' ? 'text-red-600' : 'text-green-700'
+                        }`}>
+                          {t.transaction_type === 'deduction' || t.transaction_type === 'refund' ? '-' : ''}
+                          {formatCurrency(t.amount_cents)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
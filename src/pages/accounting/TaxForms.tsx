@@ -0,0 +1,1196 @@
+import { useState, useEffect, Fragment } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  vendorTaxFormService,
+  TaxFormFamily,
+  TaxFormReviewRow,
+  TAX_FORM_STATUS_LABELS,
+  TAX_FORM_SENT_METHOD_LABELS,
+} from '../../services/vendorTaxFormService';
+import { vendorService } from '../../services/vendorService';
+import { glAccountService } from '../../services/glAccountService';
+import { pdfGenerationService } from '../../services/pdfGenerationService';
+import { accountingExportService } from '../../services/accountingExportService';
+import { accountingPermissionService } from '../../services/accountingPermissionService';
+import {
+  BusinessAccountingSettings,
+  Vendor,
+  VendorTaxForm,
+  VendorTaxFormHistory,
+  VendorTaxFormSentMethod,
+  VendorTaxFormStatus,
+  VendorTaxFormType,
+  VendorTaxIdType,
+} from '../../types';
+import {
+  FileSpreadsheet,
+  Play,
+  Download,
+  Send,
+  CheckCircle,
+  Edit2,
+  RotateCcw,
+  History,
+  Save,
+  X,
+  AlertCircle,
+  AlertTriangle,
+} from 'lucide-react';
+
+type Tab = TaxFormFamily | 'setup';
+
+interface TaxDetailsForm {
+  vendor: Vendor;
+  legalName: string;
+  taxId: string;
+  taxIdType: VendorTaxIdType | '';
+  form1099Type: VendorTaxFormType;
+  w9OnFile: boolean;
+  w9ReceivedDate: string;
+  addressLine1: string;
+  addressLine2: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+}
+
+interface SetupForm {
+  payerName: string;
+  irsPayerTin: string;
+  transmitterControlCode: string;
+  craPayerAccount: string;
+  craTransmitterNumber: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string;
+}
+
+interface ExportForm {
+  correction: boolean;
+  test: boolean;
+}
+
+const STATUS_STYLES: Record<VendorTaxFormStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  generated: 'bg-blue-100 text-blue-700',
+  sent: 'bg-indigo-100 text-indigo-700',
+  filed: 'bg-green-100 text-green-700',
+  corrected: 'bg-yellow-100 text-yellow-700',
+};
+
+const TAX_ID_TYPES: Record<TaxFormFamily, Array<{ value: VendorTaxIdType; label: string }>> = {
+  '1099': [
+    { value: 'ein', label: 'EIN' },
+    { value: 'ssn', label: 'SSN' },
+  ],
+  T5018: [
+    { value: 'bn', label: 'Business number' },
+    { value: 'gst', label: 'GST/HST number' },
+    { value: 'sin', label: 'SIN' },
+  ],
+};
+
+// Forms are prepared early in the year for the year just ended
+const defaultTaxYear = () => new Date().getFullYear() - 1;
+
+const maskTin = (tin?: string) => {
+  const value = (tin || '').replace(/[\s-]/g, '');
+  return value ? `•••${value.slice(-4)}` : '';
+};
+
+export function TaxForms() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [tab, setTab] = useState<Tab>('1099');
+  const [taxYear, setTaxYear] = useState(defaultTaxYear);
+  const [settings, setSettings] = useState<BusinessAccountingSettings | null>(null);
+  const [rows, setRows] = useState<TaxFormReviewRow[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<VendorTaxFormHistory[]>([]);
+  const [canExport, setCanExport] = useState(false);
+  const [canManageVendors, setCanManageVendors] = useState(false);
+  const [canModifySettings, setCanModifySettings] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [vendorForm, setVendorForm] = useState<TaxDetailsForm | null>(null);
+  const [setupForm, setSetupForm] = useState<SetupForm | null>(null);
+  const [exportForm, setExportForm] = useState<ExportForm | null>(null);
+  const [sentMethod, setSentMethod] = useState<VendorTaxFormSentMethod | null>(null);
+  const [filingForms, setFilingForms] = useState<VendorTaxForm[] | null>(null);
+  const [filingReference, setFilingReference] = useState('');
+  const [correctionRow, setCorrectionRow] = useState<TaxFormReviewRow | null>(null);
+  const [correctionReason, setCorrectionReason] = useState('');
+
+  const family: TaxFormFamily = tab === 'T5018' ? 'T5018' : '1099';
+
+  useEffect(() => {
+    loadSettings();
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    if (tab !== 'setup') loadReview();
+  }, [currentBusiness?.id, tab, taxYear]);
+
+  useEffect(() => {
+    if (!currentBusiness || !userProfile) return;
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_export_tax_forms')
+      .then(setCanExport)
+      .catch(() => setCanExport(false));
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_manage_vendors')
+      .then(setCanManageVendors)
+      .catch(() => setCanManageVendors(false));
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_modify_settings')
+      .then(setCanModifySettings)
+      .catch(() => setCanModifySettings(false));
+  }, [currentBusiness?.id, userProfile?.id]);
+
+  const loadSettings = async () => {
+    if (!currentBusiness) return;
+    try {
+      const data = await glAccountService.getAccountingSettings(currentBusiness.id);
+      setSettings(data);
+      setSetupForm({
+        payerName: data?.tax_payer_name || '',
+        irsPayerTin: data?.irs_payer_tin || '',
+        transmitterControlCode: data?.irs_transmitter_control_code || '',
+        craPayerAccount: data?.cra_payer_account || '',
+        craTransmitterNumber: data?.cra_transmitter_number || '',
+        contactName: data?.tax_contact_name || '',
+        contactPhone: data?.tax_contact_phone || '',
+        contactEmail: data?.tax_contact_email || '',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load filing settings');
+    }
+  };
+
+  const loadReview = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      setRows(await vendorTaxFormService.getReview(currentBusiness.id, taxYear, family));
+      setSelected(new Set());
+      setExpandedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tax forms');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const payer = currentBusiness ? vendorTaxFormService.getPayer(currentBusiness, settings) : null;
+  const payerIssues = payer ? vendorTaxFormService.getPayerIssues(payer, family) : [];
+  const forms = rows.map(r => r.form).filter((f): f is VendorTaxForm => !!f);
+  const selectedForms = rows
+    .filter(r => r.form && selected.has(r.vendor.id))
+    .map(r => r.form!);
+
+  // ========================================
+  // Forms
+  // ========================================
+
+  const handleGenerate = () => runAction(async () => {
+    const generated = await vendorTaxFormService.generateForms(currentBusiness!.id, taxYear, family, userProfile!.id);
+    const locked = generated.filter(f => f.status !== 'generated').length;
+    setNotice(
+      `${generated.length - locked} form${generated.length - locked === 1 ? '' : 's'} generated for ${taxYear}.`
+      + (locked > 0 ? ` ${locked} already sent or filed ${locked === 1 ? 'was' : 'were'} left unchanged.` : '')
+    );
+    await loadReview();
+  }, 'Failed to generate forms');
+
+  const handleDownloadSlips = () => runAction(async () => {
+    const toPrint = selectedForms.length > 0 ? selectedForms : forms;
+    const blob = await vendorTaxFormService.generateSlips(toPrint, payer!, taxYear);
+    pdfGenerationService.downloadPDF(blob, `${family === '1099' ? '1099' : 'T5018'}_${taxYear}.pdf`);
+  }, 'Failed to create the PDF');
+
+  const handleExport = () => {
+    if (!exportForm) return;
+    runAction(async () => {
+      const result = family === '1099'
+        ? await vendorTaxFormService.exportFireFile(currentBusiness!.id, userProfile!.id, forms, payer!, {
+            taxYear,
+            test: exportForm.test,
+            correction: exportForm.correction,
+          })
+        : await vendorTaxFormService.exportT5018Xml(currentBusiness!.id, userProfile!.id, forms, payer!, {
+            taxYear,
+            amended: exportForm.correction,
+          });
+
+      accountingExportService.downloadFile({ ...result, recordCount: result.forms.length });
+      setExportForm(null);
+      if (!exportForm.test) {
+        // Offer to record the filing once the file has been accepted
+        setFilingReference('');
+        setFilingForms(result.forms);
+      }
+    }, 'Failed to export the filing');
+  };
+
+  const handleMarkSent = () => {
+    if (!sentMethod) return;
+    runAction(async () => {
+      await vendorTaxFormService.markSent(selectedForms, sentMethod, userProfile!.id);
+      setSentMethod(null);
+      setNotice(`${selectedForms.length} form${selectedForms.length === 1 ? '' : 's'} marked as sent`);
+      await loadReview();
+    }, 'Failed to mark forms as sent');
+  };
+
+  const handleMarkFiled = () => {
+    if (!filingForms) return;
+    runAction(async () => {
+      await vendorTaxFormService.markFiled(filingForms, filingReference.trim(), userProfile!.id);
+      setNotice(`${filingForms.length} form${filingForms.length === 1 ? '' : 's'} marked as filed`);
+      setFilingForms(null);
+      await loadReview();
+    }, 'Failed to mark forms as filed');
+  };
+
+  const handleCorrect = () => {
+    if (!correctionRow?.form) return;
+    runAction(async () => {
+      await vendorTaxFormService.correctForm(correctionRow.form!, correctionReason, userProfile!.id);
+      setCorrectionRow(null);
+      setNotice(`Correction issued for ${correctionRow.vendor.vendor_name}. Send the corrected copy and file it as a ${family === '1099' ? 'corrected' : 'amended'} return.`);
+      await loadReview();
+    }, 'Failed to issue the correction');
+  };
+
+  const toggleHistory = (row: TaxFormReviewRow) => {
+    if (expandedId === row.vendor.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(row.vendor.id);
+    setHistory([]);
+    vendorService.getTaxFormHistory(row.form!.id)
+      .then(setHistory)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load form history'));
+  };
+
+  const toggleSelected = (vendorId: string) => {
+    const next = new Set(selected);
+    if (next.has(vendorId)) next.delete(vendorId);
+    else next.add(vendorId);
+    setSelected(next);
+  };
+
+  // ========================================
+  // Vendor details
+  // ========================================
+
+  const openVendorForm = (vendor: Vendor) => {
+    setVendorForm({
+      vendor,
+      legalName: vendor.legal_name || '',
+      taxId: vendor.tax_id || '',
+      taxIdType: vendor.tax_id_type || '',
+      form1099Type: vendor.form_1099_type || '1099-NEC',
+      w9OnFile: vendor.w9_on_file,
+      w9ReceivedDate: vendor.w9_received_date || '',
+      addressLine1: vendor.address_line1 || '',
+      addressLine2: vendor.address_line2 || '',
+      city: vendor.city || '',
+      region: vendor.state_province || '',
+      postalCode: vendor.postal_code || '',
+      country: vendor.country || (family === '1099' ? 'US' : 'CA'),
+    });
+  };
+
+  const handleSaveVendor = () => {
+    if (!vendorForm) return;
+    runAction(async () => {
+      await vendorService.updateVendor(vendorForm.vendor.id, {
+        legal_name: vendorForm.legalName.trim() || undefined,
+        tax_id: vendorForm.taxId.trim() || undefined,
+        tax_id_type: vendorForm.taxIdType || undefined,
+        ...(family === '1099'
+          ? {
+              form_1099_type: vendorForm.form1099Type,
+              w9_on_file: vendorForm.w9OnFile,
+              w9_received_date: vendorForm.w9OnFile ? vendorForm.w9ReceivedDate || undefined : undefined,
+            }
+          : {}),
+        address_line1: vendorForm.addressLine1.trim() || undefined,
+        address_line2: vendorForm.addressLine2.trim() || undefined,
+        city: vendorForm.city.trim() || undefined,
+        state_province: vendorForm.region.trim().toUpperCase() || undefined,
+        postal_code: vendorForm.postalCode.trim() || undefined,
+        country: vendorForm.country.trim().toUpperCase() || vendorForm.vendor.country,
+      });
+      setVendorForm(null);
+      setNotice(`Tax details saved for ${vendorForm.vendor.vendor_name}`);
+      await loadReview();
+    }, 'Failed to save vendor details');
+  };
+
+  // ========================================
+  // Filing setup
+  // ========================================
+
+  const handleSaveSetup = () => {
+    if (!setupForm) return;
+    runAction(async () => {
+      const updated = await glAccountService.upsertAccountingSettings(currentBusiness!.id, {
+        tax_payer_name: setupForm.payerName.trim() || null,
+        irs_payer_tin: setupForm.irsPayerTin.trim() || null,
+        irs_transmitter_control_code: setupForm.transmitterControlCode.trim().toUpperCase() || null,
+        cra_payer_account: setupForm.craPayerAccount.replace(/\s/g, '').toUpperCase() || null,
+        cra_transmitter_number: setupForm.craTransmitterNumber.trim().toUpperCase() || null,
+        tax_contact_name: setupForm.contactName.trim() || null,
+        tax_contact_phone: setupForm.contactPhone.trim() || null,
+        tax_contact_email: setupForm.contactEmail.trim() || null,
+      });
+      setSettings(updated);
+      setNotice('Filing details saved');
+    }, 'Failed to save filing details');
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: family === '1099' ? 'USD' : 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const statusLabel = (form: VendorTaxForm) =>
+    form.status === 'filed' && form.correction_count > 0 ? 'Filed (corrected)' : TAX_FORM_STATUS_LABELS[form.status];
+
+  const reportable = rows.filter(r => !r.belowThreshold);
+  const needingAttention = rows.filter(r => r.issues.length > 0 || r.isStale || r.needsCorrection).length;
+  const originals = vendorTaxFormService.getFormsToFile(forms, false).length;
+  const corrections = vendorTaxFormService.getFormsToFile(forms, true).length;
+  const years = Array.from({ length: 5 }, (_, i) => defaultTaxYear() + 1 - i);
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: '1099', label: '1099 (IRS)' },
+    { id: 'T5018', label: 'T5018 (CRA)' },
+    { id: 'setup', label: 'Filing Setup' },
+  ];
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Tax Forms</h1>
+              <p className="text-gray-600 mt-1">Year-end 1099 and T5018 reporting of vendor payments</p>
+            </div>
+            {tab !== 'setup' && (
+              <select
+                value={taxYear}
+                onChange={(e) => setTaxYear(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                {years.map(year => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  tab === t.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {tab !== 'setup' && (
+          <>
+            {payerIssues.length > 0 && (
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                  <p className="text-yellow-800 text-sm">
+                    Before filing, complete: {payerIssues.join(', ')}. The business address comes from your business profile.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setTab('setup')}
+                  className="text-sm font-medium text-yellow-800 hover:text-yellow-900 whitespace-nowrap"
+                >
+                  Filing Setup
+                </button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Vendors to Report</p>
+                <p className="text-2xl font-bold text-gray-900">{reportable.length}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Total Reportable</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(reportable.reduce((sum, r) => sum + r.summary.totalPaymentsCents, 0))}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Need Attention</p>
+                <p className={`text-2xl font-bold ${needingAttention > 0 ? 'text-yellow-600' : 'text-gray-900'}`}>{needingAttention}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs text-gray-500">Filed</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {forms.filter(f => f.status === 'filed').length} of {forms.length}
+                </p>
+              </div>
+            </div>
+
+            {canExport && (
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={handleGenerate}
+                  disabled={isWorking || reportable.length === 0}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  <Play size={18} />
+                  <span>Generate Forms</span>
+                </button>
+                <button
+                  onClick={handleDownloadSlips}
+                  disabled={isWorking || forms.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  <Download size={18} />
+                  <span>{selectedForms.length > 0 ? `PDF (${selectedForms.length})` : 'PDF'}</span>
+                </button>
+                <button
+                  onClick={() => setExportForm({ correction: originals === 0 && corrections > 0, test: false })}
+                  disabled={isWorking || originals + corrections === 0}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  <FileSpreadsheet size={18} />
+                  <span>{family === '1099' ? 'FIRE File' : 'T5018 XML'}</span>
+                </button>
+                <button
+                  onClick={() => setSentMethod('mail')}
+                  disabled={isWorking || selectedForms.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  <Send size={18} />
+                  <span>Mark Sent</span>
+                </button>
+                <button
+                  onClick={() => {
+                    setFilingReference('');
+                    setFilingForms(selectedForms);
+                  }}
+                  disabled={isWorking || selectedForms.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  <CheckCircle size={18} />
+                  <span>Mark Filed</span>
+                </button>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-500">Loading tax forms...</p>
+              </div>
+            ) : rows.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <FileSpreadsheet className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Vendors to Report for {taxYear}</h3>
+                <p className="text-gray-600">
+                  {family === '1099'
+                    ? 'Vendors marked 1099 eligible and paid $600 or more in the year are listed here.'
+                    : 'Vendors marked T5018 eligible and paid $500 or more in the year are listed here.'}
+                </p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      {canExport && <th className="px-4 py-3 w-8"></th>}
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Vendor</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Form</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Payments</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">TIN</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Details</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Status</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rows.map(row => (
+                      <Fragment key={row.vendor.id}>
+                        <tr className="hover:bg-gray-50">
+                          {canExport && (
+                            <td className="px-4 py-3">
+                              {row.form && (
+                                <input
+                                  type="checkbox"
+                                  checked={selected.has(row.vendor.id)}
+                                  onChange={() => toggleSelected(row.vendor.id)}
+                                />
+                              )}
+                            </td>
+                          )}
+                          <td className="px-4 py-3 text-sm">
+                            <p className="font-medium text-gray-900">{row.vendor.vendor_name}</p>
+                            {row.vendor.legal_name && row.vendor.legal_name !== row.vendor.vendor_name && (
+                              <p className="text-xs text-gray-500">{row.vendor.legal_name}</p>
+                            )}
+                            {row.belowThreshold && (
+                              <p className="text-xs text-gray-500">Now below the reporting threshold</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{row.formType}</td>
+                          <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                            <p className="font-medium text-gray-900">{formatCurrency(row.summary.totalPaymentsCents)}</p>
+                            <p className="text-xs text-gray-500">
+                              {row.summary.paymentCount} payment{row.summary.paymentCount === 1 ? '' : 's'}
+                            </p>
+                            {row.form && row.form.total_payments_cents !== row.summary.totalPaymentsCents && (
+                              <p className="text-xs text-yellow-700">On form: {formatCurrency(row.form.total_payments_cents)}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm font-mono text-gray-600">{maskTin(row.vendor.tax_id) || '-'}</td>
+                          <td className="px-4 py-3 text-sm">
+                            {row.issues.length === 0 ? (
+                              <span className="text-green-700">Complete</span>
+                            ) : (
+                              <div className="flex flex-wrap gap-1">
+                                {row.issues.map(issue => (
+                                  <span key={issue} className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded text-xs">{issue}</span>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {row.form ? (
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[row.form.status]}`}>
+                                {statusLabel(row.form)}
+                              </span>
+                            ) : (
+                              <span className="text-gray-500">No form</span>
+                            )}
+                            {row.isStale && <p className="text-xs text-yellow-700 mt-1">Changed since generated</p>}
+                            {row.needsCorrection && <p className="text-xs text-red-700 mt-1">Changed since sent - needs correction</p>}
+                          </td>
+                          <td className="px-4 py-3 text-right whitespace-nowrap">
+                            {canManageVendors && (
+                              <button
+                                onClick={() => openVendorForm(row.vendor)}
+                                disabled={isWorking}
+                                className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition disabled:opacity-50"
+                                title="Edit tax details"
+                              >
+                                <Edit2 size={16} />
+                              </button>
+                            )}
+                            {canExport && row.form && ['sent', 'filed', 'corrected'].includes(row.form.status) && (
+                              <button
+                                onClick={() => {
+                                  setCorrectionReason('');
+                                  setCorrectionRow(row);
+                                }}
+                                disabled={isWorking}
+                                className="p-2 text-gray-400 hover:text-yellow-600 hover:bg-yellow-50 rounded-lg transition disabled:opacity-50"
+                                title="Issue correction"
+                              >
+                                <RotateCcw size={16} />
+                              </button>
+                            )}
+                            {row.form && (
+                              <button
+                                onClick={() => toggleHistory(row)}
+                                className="p-2 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition"
+                                title="History"
+                              >
+                                <History size={16} />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {expandedId === row.vendor.id && row.form && (
+                          <tr>
+                            <td colSpan={canExport ? 8 : 7} className="px-4 py-3 bg-gray-50">
+                              <div className="text-sm space-y-1">
+                                {row.form.sent_at && (
+                                  <p className="text-gray-600">
+                                    Sent {formatDate(row.form.sent_at)}
+                                    {row.form.sent_method && ` by ${TAX_FORM_SENT_METHOD_LABELS[row.form.sent_method].toLowerCase()}`}
+                                  </p>
+                                )}
+                                {row.form.filed_at && (
+                                  <p className="text-gray-600">
+                                    Filed {formatDate(row.form.filed_at)}
+                                    {row.form.filing_reference && `, reference ${row.form.filing_reference}`}
+                                  </p>
+                                )}
+                                {history.map(entry => (
+                                  <div key={entry.id} className="flex items-baseline gap-3">
+                                    <span className="text-gray-500 whitespace-nowrap">{formatDate(entry.created_at)}</span>
+                                    <span className="text-gray-900">
+                                      {entry.from_status && entry.from_status !== entry.to_status
+                                        ? `${TAX_FORM_STATUS_LABELS[entry.from_status]} → ${TAX_FORM_STATUS_LABELS[entry.to_status]}`
+                                        : TAX_FORM_STATUS_LABELS[entry.to_status]}
+                                    </span>
+                                    <span className="text-gray-600">{formatCurrency(entry.total_payments_cents)}</span>
+                                    {entry.note && <span className="text-gray-500">{entry.note}</span>}
+                                  </div>
+                                ))}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Totals include paid expenses and bill payments dated in {taxYear}. Forms that have been sent or filed are not
+              regenerated; issue a correction when a vendor's payments or details change after that.
+            </p>
+          </>
+        )}
+
+        {tab === 'setup' && setupForm && (
+          <div className="bg-white rounded-lg shadow p-6 space-y-6 max-w-3xl">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payer Name</label>
+              <input
+                type="text"
+                value={setupForm.payerName}
+                onChange={(e) => setSetupForm({ ...setupForm, payerName: e.target.value })}
+                placeholder={currentBusiness?.legal_name || currentBusiness?.business_name}
+                disabled={!canModifySettings}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                The payer address is the business address: {payer && [payer.addressLine1, payer.city, payer.region, payer.postalCode].filter(Boolean).join(', ') || 'not set'}
+              </p>
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-3">IRS (1099)</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Payer EIN</label>
+                  <input
+                    type="text"
+                    value={setupForm.irsPayerTin}
+                    onChange={(e) => setSetupForm({ ...setupForm, irsPayerTin: e.target.value })}
+                    placeholder="12-3456789"
+                    disabled={!canModifySettings}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono disabled:bg-gray-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">FIRE Transmitter Control Code</label>
+                  <input
+                    type="text"
+                    value={setupForm.transmitterControlCode}
+                    onChange={(e) => setSetupForm({ ...setupForm, transmitterControlCode: e.target.value })}
+                    maxLength={5}
+                    disabled={!canModifySettings}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono disabled:bg-gray-50"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-3">CRA (T5018)</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">RZ Program Account</label>
+                  <input
+                    type="text"
+                    value={setupForm.craPayerAccount}
+                    onChange={(e) => setSetupForm({ ...setupForm, craPayerAccount: e.target.value })}
+                    placeholder="123456789RZ0001"
+                    disabled={!canModifySettings}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono disabled:bg-gray-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Transmitter Number</label>
+                  <input
+                    type="text"
+                    value={setupForm.craTransmitterNumber}
+                    onChange={(e) => setSetupForm({ ...setupForm, craTransmitterNumber: e.target.value })}
+                    placeholder="MM555555"
+                    maxLength={8}
+                    disabled={!canModifySettings}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono disabled:bg-gray-50"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-3">Filing Contact</h3>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={setupForm.contactName}
+                    onChange={(e) => setSetupForm({ ...setupForm, contactName: e.target.value })}
+                    disabled={!canModifySettings}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                  <input
+                    type="tel"
+                    value={setupForm.contactPhone}
+                    onChange={(e) => setSetupForm({ ...setupForm, contactPhone: e.target.value })}
+                    placeholder={currentBusiness?.phone}
+                    disabled={!canModifySettings}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={setupForm.contactEmail}
+                    onChange={(e) => setSetupForm({ ...setupForm, contactEmail: e.target.value })}
+                    placeholder={currentBusiness?.email}
+                    disabled={!canModifySettings}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {canModifySettings && (
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSaveSetup}
+                  disabled={isWorking}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  <Save size={18} />
+                  <span>Save</span>
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {vendorForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Tax Details: {vendorForm.vendor.vendor_name}</h2>
+              <button onClick={() => setVendorForm(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Legal Name</label>
+                <input
+                  type="text"
+                  value={vendorForm.legalName}
+                  onChange={(e) => setVendorForm({ ...vendorForm, legalName: e.target.value })}
+                  placeholder={vendorForm.vendor.vendor_name}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ID Type</label>
+                  <select
+                    value={vendorForm.taxIdType}
+                    onChange={(e) => setVendorForm({ ...vendorForm, taxIdType: e.target.value as VendorTaxIdType | '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Choose...</option>
+                    {TAX_ID_TYPES[family].map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tax ID</label>
+                  <input
+                    type="text"
+                    value={vendorForm.taxId}
+                    onChange={(e) => setVendorForm({ ...vendorForm, taxId: e.target.value })}
+                    placeholder={family === '1099' ? '12-3456789' : '123456789RT0001'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+                  />
+                </div>
+              </div>
+              {family === '1099' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Form</label>
+                    <select
+                      value={vendorForm.form1099Type}
+                      onChange={(e) => setVendorForm({ ...vendorForm, form1099Type: e.target.value as VendorTaxFormType })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="1099-NEC">1099-NEC (services)</option>
+                      <option value="1099-MISC">1099-MISC (rents)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                      <input
+                        type="checkbox"
+                        checked={vendorForm.w9OnFile}
+                        onChange={(e) => setVendorForm({ ...vendorForm, w9OnFile: e.target.checked })}
+                        className="rounded border-gray-300"
+                      />
+                      W-9 on file
+                    </label>
+                    {vendorForm.w9OnFile && (
+                      <input
+                        type="date"
+                        value={vendorForm.w9ReceivedDate}
+                        onChange={(e) => setVendorForm({ ...vendorForm, w9ReceivedDate: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                <input
+                  type="text"
+                  value={vendorForm.addressLine1}
+                  onChange={(e) => setVendorForm({ ...vendorForm, addressLine1: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm mb-2"
+                />
+                <input
+                  type="text"
+                  value={vendorForm.addressLine2}
+                  onChange={(e) => setVendorForm({ ...vendorForm, addressLine2: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                  <input
+                    type="text"
+                    value={vendorForm.city}
+                    onChange={(e) => setVendorForm({ ...vendorForm, city: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{family === '1099' ? 'State' : 'Province'}</label>
+                  <input
+                    type="text"
+                    value={vendorForm.region}
+                    onChange={(e) => setVendorForm({ ...vendorForm, region: e.target.value })}
+                    maxLength={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{family === '1099' ? 'ZIP Code' : 'Postal Code'}</label>
+                  <input
+                    type="text"
+                    value={vendorForm.postalCode}
+                    onChange={(e) => setVendorForm({ ...vendorForm, postalCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+                  <input
+                    type="text"
+                    value={vendorForm.country}
+                    onChange={(e) => setVendorForm({ ...vendorForm, country: e.target.value })}
+                    maxLength={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setVendorForm(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveVendor}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save Details
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {exportForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">{family === '1099' ? 'Export FIRE File' : 'Export T5018 XML'}</h2>
+              <button onClick={() => setExportForm(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={!exportForm.correction}
+                  onChange={() => setExportForm({ ...exportForm, correction: false })}
+                  disabled={originals === 0}
+                />
+                Original return ({originals} form{originals === 1 ? '' : 's'} not yet filed)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={exportForm.correction}
+                  onChange={() => setExportForm({ ...exportForm, correction: true })}
+                  disabled={corrections === 0}
+                />
+                {family === '1099' ? 'Corrected return' : 'Amended return'} ({corrections} correction{corrections === 1 ? '' : 's'})
+              </label>
+              {family === '1099' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={exportForm.test}
+                    onChange={(e) => setExportForm({ ...exportForm, test: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  Test file for the FIRE test system
+                </label>
+              )}
+              {payerIssues.length > 0 && (
+                <p className="text-sm text-yellow-700">Complete the filing setup first: {payerIssues.join(', ')}.</p>
+              )}
+              {rows.some(r => r.form && r.issues.length > 0) && (
+                <p className="text-sm text-yellow-700">Some vendors have missing or invalid details. Fix them and regenerate before filing.</p>
+              )}
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setExportForm(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Export
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {sentMethod && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Mark {selectedForms.length} Sent</h2>
+              <button onClick={() => setSentMethod(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sent By</label>
+              <select
+                value={sentMethod}
+                onChange={(e) => setSentMethod(e.target.value as VendorTaxFormSentMethod)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {Object.entries(TAX_FORM_SENT_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setSentMethod(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMarkSent}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Mark Sent
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {filingForms && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Mark {filingForms.length} Filed</h2>
+              <button onClick={() => setFilingForms(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Once the file has been accepted by the {family === '1099' ? 'IRS' : 'CRA'}, record the filing here.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {family === '1099' ? 'FIRE Receipt ID' : 'Confirmation Number'}
+                </label>
+                <input
+                  type="text"
+                  value={filingReference}
+                  onChange={(e) => setFilingReference(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setFilingForms(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Later
+              </button>
+              <button
+                onClick={handleMarkFiled}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Mark Filed
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {correctionRow && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Issue Correction</h2>
+              <button onClick={() => setCorrectionRow(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                The {correctionRow.formType} for {correctionRow.vendor.vendor_name} will be updated to{' '}
+                {formatCurrency(correctionRow.summary.totalPaymentsCents)} and the vendor's current details.
+                {correctionRow.form?.total_payments_cents !== correctionRow.summary.totalPaymentsCents &&
+                  ` It currently reports ${formatCurrency(correctionRow.form!.total_payments_cents)}.`}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <textarea
+                  value={correctionReason}
+                  onChange={(e) => setCorrectionReason(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setCorrectionRow(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCorrect}
+                disabled={isWorking || !correctionReason.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Issue Correction
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
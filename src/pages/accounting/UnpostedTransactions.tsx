@@ -0,0 +1,397 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import {
+  glPostingService,
+  POSTING_SOURCE_LABELS,
+  UNPOSTED_STATUS_LABELS,
+} from '../../services/glPostingService';
+import { glAccountService } from '../../services/glAccountService';
+import { accountingPermissionService } from '../../services/accountingPermissionService';
+import {
+  BusinessAccountingSettings,
+  UnpostedTransaction,
+  UnpostedTransactionStatus,
+} from '../../types';
+import {
+  FileWarning,
+  Play,
+  RotateCcw,
+  Ban,
+  Save,
+  CheckCircle,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+
+const STATUS_TABS: UnpostedTransactionStatus[] = ['pending', 'dismissed', 'resolved'];
+
+export function UnpostedTransactions() {
+  const { currentBusiness, userProfile } = useAuth();
+  const [status, setStatus] = useState<UnpostedTransactionStatus>('pending');
+  const [items, setItems] = useState<UnpostedTransaction[]>([]);
+  const [settings, setSettings] = useState<BusinessAccountingSettings | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [canPost, setCanPost] = useState(false);
+  const [canModifySettings, setCanModifySettings] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [dismissItem, setDismissItem] = useState<UnpostedTransaction | null>(null);
+  const [dismissReason, setDismissReason] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, [currentBusiness?.id]);
+
+  useEffect(() => {
+    loadItems();
+  }, [currentBusiness?.id, status]);
+
+  useEffect(() => {
+    if (!currentBusiness || !userProfile) return;
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_post_journals')
+      .then(setCanPost)
+      .catch(() => setCanPost(false));
+    accountingPermissionService.hasPermission(currentBusiness.id, userProfile.id, 'can_modify_settings')
+      .then(setCanModifySettings)
+      .catch(() => setCanModifySettings(false));
+  }, [currentBusiness?.id, userProfile?.id]);
+
+  const loadSettings = async () => {
+    if (!currentBusiness) return;
+    try {
+      const data = await glAccountService.getAccountingSettings(currentBusiness.id);
+      setSettings(data);
+      setStartDate(data?.auto_post_start_date || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load accounting settings');
+    }
+  };
+
+  const loadItems = async () => {
+    if (!currentBusiness) return;
+    setIsLoading(true);
+    try {
+      setItems(await glPostingService.getUnpostedTransactions(currentBusiness.id, status));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load unposted transactions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRunSweep = () => runAction(async () => {
+    const result = await glPostingService.runPostingSweep(currentBusiness!.id);
+    setNotice(`Checked ${result.checked} transaction${result.checked === 1 ? '' : 's'}: ${result.posted} posted or reversed, ${result.failed} could not be posted`);
+    await Promise.all([loadItems(), loadSettings()]);
+  }, 'Failed to run auto-posting');
+
+  const handleRetry = (item: UnpostedTransaction) => runAction(async () => {
+    const posted = await glPostingService.retryUnposted(item);
+    if (posted) {
+      setNotice(`${POSTING_SOURCE_LABELS[item.source_type]} posted`);
+    } else {
+      setError(`${POSTING_SOURCE_LABELS[item.source_type]} still could not be posted. See the error in the list.`);
+    }
+    await loadItems();
+  }, 'Failed to retry posting');
+
+  const handleDismiss = () => {
+    if (!dismissItem) return;
+    runAction(async () => {
+      await glPostingService.dismissUnposted(dismissItem.id, userProfile!.id, dismissReason);
+      setDismissItem(null);
+      setDismissReason('');
+      setNotice('Transaction dismissed. It will not be posted automatically.');
+      await loadItems();
+    }, 'Failed to dismiss transaction');
+  };
+
+  const handleSaveStartDate = () => runAction(async () => {
+    if (!startDate) throw new Error('Choose a start date');
+    const updated = await glAccountService.upsertAccountingSettings(currentBusiness!.id, {
+      auto_post_start_date: startDate,
+    });
+    setSettings(updated);
+    setNotice('Posting start date saved');
+  }, 'Failed to save the posting start date');
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: settings?.base_currency || 'CAD',
+    }).format(cents / 100);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const autoPostingOff = settings && !settings.auto_post_rent_payments && !settings.auto_post_expenses;
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-4 sm:pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Unposted Transactions</h1>
+              <p className="text-gray-600 mt-1">Payments, expenses, late fees and charges that could not be posted automatically</p>
+            </div>
+            {canPost && (
+              <button
+                onClick={handleRunSweep}
+                disabled={isWorking || !userProfile}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                <Play size={18} />
+                <span>Run Posting Now</span>
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-4 mt-4 border-b -mb-px">
+            {STATUS_TABS.map(s => (
+              <button
+                key={s}
+                onClick={() => setStatus(s)}
+                className={`px-4 py-2 font-medium text-sm border-b-2 -mb-px transition ${
+                  status === s
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {UNPOSTED_STATUS_LABELS[s]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-800 text-sm">{notice}</p>
+            </div>
+            <button onClick={() => setNotice('')} className="text-green-600 hover:text-green-800">
+              <X size={20} />
+            </button>
+          </div>
+        )}
+
+        {/* Posting settings */}
+        {settings && (
+          <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-6">
+            <div>
+              <p className="text-xs text-gray-500">Accounting Method</p>
+              <p className="font-medium text-gray-900 capitalize">{settings.accounting_method}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Auto-Posting</p>
+              <p className="font-medium text-gray-900">
+                {[
+                  settings.auto_post_rent_payments && 'Tenant payments and charges',
+                  settings.auto_post_expenses && 'Expenses',
+                ].filter(Boolean).join(', ') || 'Off'}
+              </p>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Post From</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  disabled={!canModifySettings}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm disabled:bg-gray-50"
+                />
+                {canModifySettings && startDate !== (settings.auto_post_start_date || '') && (
+                  <button
+                    onClick={handleSaveStartDate}
+                    disabled={isWorking}
+                    className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                  >
+                    <Save size={16} />
+                    <span>Save</span>
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Last Run</p>
+              <p className="font-medium text-gray-900">
+                {settings.last_posting_sweep_at ? formatDate(settings.last_posting_sweep_at) : 'Never'}
+              </p>
+            </div>
+            {autoPostingOff && (
+              <p className="text-sm text-yellow-700">Auto-posting is off, so nothing is posted automatically.</p>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading transactions...</p>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <FileWarning className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              {status === 'pending' ? 'Everything Is Posted' : `No ${UNPOSTED_STATUS_LABELS[status]} Transactions`}
+            </h3>
+            <p className="text-gray-600">
+              {status === 'pending'
+                ? 'Transactions that fail to post, for example into a closed period, appear here.'
+                : 'Nothing to show.'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Type</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Description</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Amount</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                    {status === 'dismissed' ? 'Reason' : 'Error'}
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase">Attempts</th>
+                  {canPost && status !== 'resolved' && (
+                    <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase">Actions</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map(item => (
+                  <tr key={item.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                      {item.transaction_date ? formatDate(item.transaction_date) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{POSTING_SOURCE_LABELS[item.source_type]}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{item.description || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-right font-mono text-gray-900">
+                      {item.amount_cents != null ? formatCurrency(item.amount_cents) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 max-w-md">
+                      {status === 'dismissed' ? item.dismiss_reason || '—' : item.error_message}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {item.attempts}
+                      {item.last_attempt_at && (
+                        <span className="text-xs text-gray-400"> · {formatDate(item.last_attempt_at)}</span>
+                      )}
+                    </td>
+                    {canPost && status !== 'resolved' && (
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleRetry(item)}
+                          disabled={isWorking}
+                          className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition disabled:opacity-50"
+                          title="Retry"
+                        >
+                          <RotateCcw size={16} />
+                        </button>
+                        {status === 'pending' && (
+                          <button
+                            onClick={() => { setDismissItem(item); setDismissReason(''); }}
+                            disabled={isWorking}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50"
+                            title="Dismiss"
+                          >
+                            <Ban size={16} />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Posted journals are listed in <Link to="/accounting/journals" className="text-blue-600 hover:text-blue-700">Journal Entries</Link>.
+          A closed period has to be reopened, or the transaction dated into an open period, before it can post.
+        </p>
+      </div>
+
+      {dismissItem && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">Dismiss Transaction</h2>
+              <button onClick={() => setDismissItem(null)} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <textarea
+                  value={dismissReason}
+                  onChange={(e) => setDismissReason(e.target.value)}
+                  rows={3}
+                  placeholder="e.g. Entered manually in journal JE-00042"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Dismissed transactions are skipped by auto-posting. You can still retry them from the Dismissed tab.
+              </p>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setDismissItem(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDismiss}
+                disabled={isWorking}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
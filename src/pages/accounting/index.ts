@@ -1,3 +1,15 @@
 export { AccountingDashboard } from './AccountingDashboard';
 export { ChartOfAccounts } from './ChartOfAccounts';
 export { JournalEntries } from './JournalEntries';
+export { BankReconciliation } from './BankReconciliation';
+export { SecurityDeposits } from './SecurityDeposits';
+export { RentRoll } from './RentRoll';
+export { AccountsReceivable } from './AccountsReceivable';
+export { AccountsPayable } from './AccountsPayable';
+export { Budgets } from './Budgets';
+export { FinancialStatements } from './FinancialStatements';
+export { UnpostedTransactions } from './UnpostedTransactions';
+export { ExchangeRates } from './ExchangeRates';
+export { TaxForms } from './TaxForms';
+export { PeriodClose } from './PeriodClose';
+export { OwnerStatements } from './OwnerStatements';
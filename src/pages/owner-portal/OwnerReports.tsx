@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
 import { propertyOwnerService } from '../../services/propertyOwnerService';
+import { rentRollService } from '../../services/rentRollService';
+import { ownerStatementService } from '../../services/ownerStatementService';
+import { pdfGenerationService } from '../../services/pdfGenerationService';
+import { OwnerStatement, RentRollSnapshot } from '../../types';
 import { supabase } from '../../lib/supabase';
 import {
   FileText,
@@ -11,6 +15,7 @@ import {
   Loader2,
   ArrowUpRight,
   ArrowDownRight,
+  ClipboardList,
 } from 'lucide-react';
 
 interface MonthlyData {
@@ -33,6 +38,11 @@ export function OwnerReports() {
   const [loading, setLoading] = useState(true);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [recentPayments, setRecentPayments] = useState<PaymentRecord[]>([]);
+  const [rentRolls, setRentRolls] = useState<RentRollSnapshot[]>([]);
+  const [selectedRentRoll, setSelectedRentRoll] = useState<RentRollSnapshot | null>(null);
+  const [statements, setStatements] = useState<OwnerStatement[]>([]);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [businessName, setBusinessName] = useState('');
   const [selectedPeriod, setSelectedPeriod] = useState('6months');
   const [totals, setTotals] = useState({
     totalIncome: 0,
@@ -59,6 +69,24 @@ export function OwnerReports() {
           return;
         }
 
+        setBusinessName((ownerBusinesses[0] as any).business_name || '');
+
+        // Rent rolls the manager has shared with owners
+        try {
+          const snapshots = await rentRollService.getSnapshots(businessId, { sharedOnly: true });
+          setRentRolls(snapshots);
+          setSelectedRentRoll(snapshots[0] || null);
+        } catch (rentRollError) {
+          console.error('Error loading rent rolls:', rentRollError);
+        }
+
+        // Statements the manager has published to this owner
+        try {
+          setStatements(await ownerStatementService.getMyStatements(businessId));
+        } catch (statementsError) {
+          console.error('Error loading owner statements:', statementsError);
+        }
+
         // Get payments for the period
         const months = selectedPeriod === '12months' ? 12 : selectedPeriod === '6months' ? 6 : 3;
         const startDate = new Date();
@@ -194,6 +222,21 @@ export function OwnerReports() {
     }
   };
 
+  const downloadStatement = async (statement: OwnerStatement) => {
+    try {
+      setDownloadingId(statement.id);
+      const blob = await ownerStatementService.generateStatementPDF(statement.id);
+      pdfGenerationService.downloadPDF(blob, `owner-statement-${statement.period_start.slice(0, 7)}.pdf`);
+    } catch (error) {
+      console.error('Error generating statement PDF:', error);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const formatStatementAmount = (cents: number, currency: string) =>
+    new Intl.NumberFormat('en-CA', { style: 'currency', currency }).format(cents / 100);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -277,6 +320,77 @@ export function OwnerReports() {
         </div>
       </div>
 
+      {/* Owner Statements */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Owner Statements</h2>
+        {statements.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <FileText className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+            No statements have been published yet
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Month</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Income</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Expenses</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Management Fees</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Reserve Held</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Distribution</th>
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {statements.map(statement => (
+                  <tr key={statement.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        <Calendar size={16} className="text-gray-400" />
+                        <span className="font-medium text-gray-900">
+                          {new Date(`${statement.period_start}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                        </span>
+                      </div>
+                      {statement.closing_balance_cents < 0 && (
+                        <span className="block text-xs text-orange-600 mt-1">
+                          {formatStatementAmount(-statement.closing_balance_cents, statement.currency_code)} shortfall carried forward
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-right py-3 px-4 text-green-600 font-medium">
+                      {formatStatementAmount(statement.income_cents, statement.currency_code)}
+                    </td>
+                    <td className="text-right py-3 px-4 text-red-600 font-medium">
+                      {formatStatementAmount(statement.expense_cents, statement.currency_code)}
+                    </td>
+                    <td className="text-right py-3 px-4 text-gray-600">
+                      {formatStatementAmount(statement.management_fee_cents, statement.currency_code)}
+                    </td>
+                    <td className="text-right py-3 px-4 text-gray-600">
+                      {formatStatementAmount(statement.reserve_balance_cents, statement.currency_code)}
+                    </td>
+                    <td className="text-right py-3 px-4 font-semibold text-gray-900">
+                      {formatStatementAmount(statement.distribution_cents, statement.currency_code)}
+                    </td>
+                    <td className="text-right py-3 px-4">
+                      <button
+                        onClick={() => downloadStatement(statement)}
+                        disabled={downloadingId === statement.id}
+                        className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                      >
+                        {downloadingId === statement.id ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                        PDF
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Monthly Breakdown */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Monthly Breakdown</h2>
@@ -323,6 +437,106 @@ export function OwnerReports() {
         )}
       </div>
 
+      {/* Rent Roll */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Rent Roll</h2>
+          {selectedRentRoll && (
+            <div className="flex items-center gap-2">
+              <select
+                value={selectedRentRoll.id}
+                onChange={(e) => setSelectedRentRoll(rentRolls.find(r => r.id === e.target.value) || null)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 text-sm"
+              >
+                {rentRolls.map(r => (
+                  <option key={r.id} value={r.id}>
+                    As of {new Date(`${r.as_of_date}T00:00:00`).toLocaleDateString()} · {r.property?.name || 'All properties'}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => rentRollService.exportRentRoll(rentRollService.fromSnapshot(selectedRentRoll), 'csv', businessName)}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+              >
+                <Download size={16} />
+                CSV
+              </button>
+              <button
+                onClick={() => rentRollService.exportRentRoll(rentRollService.fromSnapshot(selectedRentRoll), 'pdf', businessName)}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+              >
+                <Download size={16} />
+                PDF
+              </button>
+            </div>
+          )}
+        </div>
+        {!selectedRentRoll ? (
+          <div className="text-center py-8 text-gray-500">
+            <ClipboardList className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+            No rent rolls have been shared yet
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div>
+                <p className="text-sm text-gray-500">Occupancy</p>
+                <p className="text-xl font-bold text-gray-900">{selectedRentRoll.summary.occupancy_rate}%</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Lease Rent</p>
+                <p className="text-xl font-bold text-gray-900">${(selectedRentRoll.summary.total_lease_rent_cents / 100).toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Deposits Held</p>
+                <p className="text-xl font-bold text-gray-900">${(selectedRentRoll.summary.total_deposits_held_cents / 100).toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Balance Owed</p>
+                <p className="text-xl font-bold text-red-600">${(selectedRentRoll.summary.total_balance_owed_cents / 100).toLocaleString()}</p>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Unit</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Tenant</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-gray-500">Lease Ends</th>
+                    <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Market Rent</th>
+                    <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Lease Rent</th>
+                    <th className="text-right py-3 px-4 text-sm font-medium text-gray-500">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedRentRoll.rows.map(row => (
+                    <tr key={row.unit_id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-gray-900">
+                        {row.unit_number}
+                        <span className="block text-xs text-gray-500">{row.property_name}</span>
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">
+                        {row.occupancy === 'vacant' ? `Vacant ${row.days_vacant ?? 0} days` : row.tenant_name || '-'}
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">
+                        {row.lease_end_date ? new Date(`${row.lease_end_date}T00:00:00`).toLocaleDateString() : row.lease_id ? 'Ongoing' : '-'}
+                      </td>
+                      <td className="text-right py-3 px-4 text-gray-600">${(row.market_rent_cents / 100).toLocaleString()}</td>
+                      <td className="text-right py-3 px-4 text-gray-900">
+                        {row.occupancy === 'occupied' ? `$${(row.lease_rent_cents / 100).toLocaleString()}` : '-'}
+                      </td>
+                      <td className={`text-right py-3 px-4 ${row.balance_owed_cents > 0 ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                        {row.balance_owed_cents ? `$${(row.balance_owed_cents / 100).toLocaleString()}` : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
       {/* Recent Payments */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Recent Payments</h2>
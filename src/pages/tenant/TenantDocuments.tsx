@@ -10,6 +10,8 @@ import {
   FolderOpen,
   Search,
   ExternalLink,
+  ClipboardCheck,
+  Receipt,
 } from 'lucide-react';
 
 export function TenantDocuments() {
@@ -53,6 +55,10 @@ export function TenantDocuments() {
         return <FileText className="w-6 h-6 text-blue-600" />;
       case 'agreement':
         return <FileText className="w-6 h-6 text-green-600" />;
+      case 'inspection':
+        return <ClipboardCheck className="w-6 h-6 text-orange-600" />;
+      case 'statement':
+        return <Receipt className="w-6 h-6 text-purple-600" />;
       default:
         return <File className="w-6 h-6 text-gray-600" />;
     }
@@ -62,6 +68,8 @@ export function TenantDocuments() {
     const labels: Record<string, string> = {
       lease: 'Lease Agreement',
       agreement: 'Signed Agreement',
+      inspection: 'Inspection Report',
+      statement: 'Statement of Account',
       id: 'Identification',
       proof_of_income: 'Proof of Income',
       reference_letter: 'Reference Letter',
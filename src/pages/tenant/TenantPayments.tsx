@@ -2,6 +2,13 @@ import { useEffect, useState } from 'react';
 import { useTenant } from '../../context/TenantContext';
 import { tenantPortalService, TenantPayment, PaymentSummary } from '../../services/tenantPortalService';
 import { PaymentModal } from '../../components/PaymentModal';
+import { TenantLedgerPanel } from '../../components/TenantLedgerPanel';
+import {
+  paymentPlanService,
+  PAYMENT_PLAN_FREQUENCY_LABELS,
+  INSTALLMENT_STATUS_LABELS,
+} from '../../services/paymentPlanService';
+import { PaymentPlan, PaymentPlanInstallment } from '../../types';
 import {
   CreditCard,
   Calendar,
@@ -15,6 +22,7 @@ import {
   Banknote,
   Building,
   ArrowRight,
+  CalendarClock,
 } from 'lucide-react';
 
 export function TenantPayments() {
@@ -25,6 +33,10 @@ export function TenantPayments() {
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [expandedPayment, setExpandedPayment] = useState<string | null>(null);
+  const [plan, setPlan] = useState<PaymentPlan | null>(null);
+  const [planInstallment, setPlanInstallment] = useState<PaymentPlanInstallment | null>(null);
+  const [isRespondingToPlan, setIsRespondingToPlan] = useState(false);
+  const [planError, setPlanError] = useState('');
 
   useEffect(() => {
     if (tenantData) {
@@ -37,13 +49,15 @@ export function TenantPayments() {
 
     setIsLoading(true);
     try {
-      const [paymentData, summaryData] = await Promise.all([
+      const [paymentData, summaryData, planData] = await Promise.all([
         tenantPortalService.getPaymentHistory(tenantData.tenant_id),
         tenantPortalService.getPaymentSummary(tenantData.tenant_id, tenantData.unit_id),
+        paymentPlanService.getTenantPlans(tenantData.tenant_id),
       ]);
 
       setPayments(paymentData);
       setPaymentSummary(summaryData);
+      setPlan(planData.find(p => p.status === 'proposed' || p.status === 'active') || null);
     } catch (error) {
       console.error('Error loading payments:', error);
     } finally {
@@ -51,6 +65,26 @@ export function TenantPayments() {
     }
   };
 
+  const handlePlanResponse = async (accept: boolean) => {
+    if (!plan) return;
+    if (!accept && !window.confirm('Decline this payment plan?')) return;
+
+    setIsRespondingToPlan(true);
+    setPlanError('');
+    try {
+      const updated = accept
+        ? await paymentPlanService.acceptPlan(plan.id)
+        : await paymentPlanService.declinePlan(plan.id);
+      setPlan(updated.status === 'active' ? updated : null);
+    } catch (error) {
+      setPlanError(error instanceof Error ? error.message : 'Failed to respond to the payment plan');
+    } finally {
+      setIsRespondingToPlan(false);
+    }
+  };
+
+  const nextInstallment = plan?.installments?.find(i => i.status === 'pending');
+
   const formatCurrency = (cents: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -241,6 +275,92 @@ export function TenantPayments() {
           </div>
         )}
 
+        {/* Payment Plan */}
+        {plan && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+            <div className="px-6 py-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div className="flex items-start gap-4">
+                <div className="w-10 h-10 rounded-lg bg-blue-100 flex items-center justify-center flex-shrink-0">
+                  <CalendarClock className="w-5 h-5 text-blue-600" />
+                </div>
+                <div>
+                  <h2 className="font-semibold text-gray-900">
+                    {plan.status === 'proposed' ? 'Payment Plan Offered' : 'Your Payment Plan'}
+                  </h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {formatCurrency(plan.total_cents)} in {plan.installment_count} {PAYMENT_PLAN_FREQUENCY_LABELS[plan.frequency].toLowerCase()} installments,
+                    due on top of your regular rent. No late fees are charged while the plan is in good standing.
+                  </p>
+                </div>
+              </div>
+              {plan.status === 'proposed' ? (
+                <div className="flex gap-3 flex-shrink-0">
+                  <button
+                    onClick={() => handlePlanResponse(false)}
+                    disabled={isRespondingToPlan}
+                    className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => handlePlanResponse(true)}
+                    disabled={isRespondingToPlan}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    Accept Plan
+                  </button>
+                </div>
+              ) : nextInstallment && (
+                <button
+                  onClick={() => {
+                    setPlanInstallment(nextInstallment);
+                    setShowPaymentModal(true);
+                  }}
+                  className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition flex-shrink-0"
+                >
+                  Pay Installment
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {planError && (
+              <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{planError}</div>
+            )}
+
+            <div className="px-6 py-4 space-y-2">
+              {(plan.installments || []).map(i => (
+                <div key={i.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600">
+                    Installment {i.installment_number} - due {formatDate(`${i.due_date}T00:00:00`)}
+                  </span>
+                  <span className="flex items-center gap-3">
+                    <span className="font-medium text-gray-900">{formatCurrency(i.amount_cents)}</span>
+                    {plan.status === 'active' && (
+                      <span className={`text-xs font-medium ${
+                        i.status === 'met' ? 'text-green-600' : i.status === 'missed' ? 'text-red-600' : 'text-gray-500'
+                      }`}>
+                        {INSTALLMENT_STATUS_LABELS[i.status]}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              ))}
+              {plan.terms && <p className="text-sm text-gray-600 pt-2">{plan.terms}</p>}
+              {plan.status === 'proposed' && plan.expires_on && (
+                <p className="text-xs text-gray-500 pt-2">This offer expires on {formatDate(`${plan.expires_on}T00:00:00`)}.</p>
+              )}
+              {plan.status === 'active' && (
+                <p className="text-xs text-gray-500 pt-2">
+                  An installment counts as met once your payments since the plan started cover it, the installments before
+                  it and any rent due by then. If an installment is not met within {plan.grace_days} days of its due date,
+                  the plan ends and late fees resume.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Payment History */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100">
           <div className="px-6 py-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -334,6 +454,21 @@ export function TenantPayments() {
           )}
         </div>
 
+        {/* Account Ledger */}
+        {tenantData && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+            <div className="px-6 py-4 border-b border-gray-100">
+              <h2 className="font-semibold text-gray-900">Account Ledger</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Charges, payments and credits on your account. Download a statement of account for any period.
+              </p>
+            </div>
+            <div className="p-6">
+              <TenantLedgerPanel tenantId={tenantData.tenant_id} businessName={tenantData.organization_name} />
+            </div>
+          </div>
+        )}
+
         {/* Payment Methods Info */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
           <h2 className="font-semibold text-gray-900 mb-4">Accepted Payment Methods</h2>
@@ -367,19 +502,25 @@ export function TenantPayments() {
       {showPaymentModal && tenantData && (
         <PaymentModal
           isOpen={showPaymentModal}
-          onClose={() => setShowPaymentModal(false)}
+          onClose={() => {
+            setShowPaymentModal(false);
+            setPlanInstallment(null);
+          }}
           onSuccess={(paymentId, method) => {
             setShowPaymentModal(false);
+            setPlanInstallment(null);
             // Reload payments to show the new payment
             loadPayments();
           }}
-          amountCents={paymentSummary?.current_balance_cents || 0}
+          amountCents={planInstallment ? planInstallment.amount_cents : paymentSummary?.current_balance_cents || 0}
           currency="USD"
           organizationId={tenantData.organization_id}
           tenantId={tenantData.tenant_id}
           leaseId={tenantData.lease_id || undefined}
           paymentType="rent"
-          description={`Rent payment for ${tenantData.unit_name}`}
+          description={planInstallment && plan
+            ? `Payment plan installment ${planInstallment.installment_number} of ${plan.installment_count}`
+            : `Rent payment for ${tenantData.unit_name}`}
         />
       )}
     </div>
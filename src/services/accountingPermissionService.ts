@@ -0,0 +1,61 @@
+import { supabase } from '../lib/supabase';
+import { AccountingPermissions } from '../types';
+
+export type AccountingPermission = {
+  [K in keyof AccountingPermissions]-?: AccountingPermissions[K] extends boolean ? K : never;
+}[keyof AccountingPermissions];
+
+// Organization roles with every accounting permission, as in the RLS policies
+const FULL_ACCESS_ROLES = ['owner', 'admin', 'accounting'];
+
+export const accountingPermissionService = {
+  /**
+   * Get a user's granted accounting permissions for a business, if any.
+   * Expired grants are ignored.
+   */
+  async getPermissions(businessId: string, userId: string): Promise<AccountingPermissions | null> {
+    const { data, error } = await supabase
+      .from('accounting_permissions')
+      .select('*')
+      .eq('business_id', businessId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || (data.expires_at && data.expires_at < new Date().toISOString())) return null;
+    return data;
+  },
+
+  /**
+   * Whether a user holds an accounting permission on a business. The
+   * business owner and organization owners, admins and accounting members
+   * hold them all; anyone else needs a grant.
+   */
+  async hasPermission(businessId: string, userId: string, permission: AccountingPermission): Promise<boolean> {
+    const { data: business, error } = await supabase
+      .from('businesses')
+      .select('owner_user_id, organization_id')
+      .eq('id', businessId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!business) return false;
+    if (business.owner_user_id === userId) return true;
+
+    if (business.organization_id) {
+      const { data: member, error: memberError } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', business.organization_id)
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (memberError) throw memberError;
+      if (member && FULL_ACCESS_ROLES.includes(member.role)) return true;
+    }
+
+    const permissions = await this.getPermissions(businessId, userId);
+    return !!permissions?.[permission];
+  },
+};
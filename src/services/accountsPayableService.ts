@@ -0,0 +1,989 @@
+import { supabase } from '../lib/supabase';
+import {
+  AccountingMethod,
+  AgedPayables,
+  AgedPayablesRow,
+  AgingBucket,
+  GLJournal,
+  MaintenanceCategory,
+  Vendor,
+  VendorBill,
+  VendorBillLine,
+  VendorBillPayment,
+  VendorBillStatus,
+  VendorPaymentMethod,
+  VendorPaymentRun,
+} from '../types';
+import { journalService, JournalEntryInput } from './journalService';
+import { glAccountService } from './glAccountService';
+import { fiscalPeriodService } from './fiscalPeriodService';
+import { vendorService } from './vendorService';
+import { dataExportService, ExportColumn, ExportFormat } from './dataExportService';
+import { GL_ACCOUNTS, MAINTENANCE_CATEGORY_ACCOUNTS } from '../config/glAccountMappings';
+
+export interface BillLineInput {
+  accountId: string;
+  propertyId?: string;
+  unitId?: string;
+  description?: string;
+  amountCents: number;
+  taxRateId?: string;
+  taxAmountCents?: number;
+}
+
+export interface VendorBillInput {
+  vendorId: string;
+  billNumber?: string;
+  billDate: string;
+  // Calculated from the vendor's payment terms when omitted
+  dueDate?: string;
+  currencyCode?: string;
+  memo?: string;
+  maintenanceRequestId?: string;
+  lines: BillLineInput[];
+}
+
+export interface VendorBillFilters {
+  status?: VendorBillStatus | VendorBillStatus[];
+  vendorId?: string;
+  dueThrough?: string;
+}
+
+export interface PaymentRunInput {
+  paymentDate: string;
+  bankAccountId: string;
+  memo?: string;
+  // Check payments are numbered from here, one check per vendor
+  firstCheckNumber?: number;
+  payments: Array<{
+    billId: string;
+    amountCents: number;
+    // Defaults to ACH when the vendor accepts it, otherwise check
+    paymentMethod?: VendorPaymentMethod;
+  }>;
+}
+
+export const VENDOR_BILL_STATUS_LABELS: Record<VendorBillStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Pending Approval',
+  approved: 'Approved',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+export const VENDOR_PAYMENT_METHOD_LABELS: Record<VendorPaymentMethod, string> = {
+  ach: 'ACH',
+  check: 'Check',
+  other: 'Other',
+};
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  days_1_30: '1-30 Days',
+  days_31_60: '31-60 Days',
+  days_61_90: '61-90 Days',
+  days_over_90: 'Over 90 Days',
+};
+
+const formatAmount = (cents: number | null | undefined) =>
+  cents == null ? '' : (cents / 100).toFixed(2);
+
+export const AGED_PAYABLES_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'vendor_name', label: 'Vendor', format: v => v || '' },
+  ...(Object.keys(AGING_BUCKET_LABELS) as AgingBucket[]).map(bucket => ({
+    key: bucket,
+    label: AGING_BUCKET_LABELS[bucket],
+    format: formatAmount,
+  })),
+  { key: 'total_cents', label: 'Total', format: formatAmount },
+];
+
+const BILL_SELECT = `
+  *,
+  vendor:vendors(id, vendor_name, email, payment_terms, custom_payment_days, accepts_ach, accepts_check, currency_code),
+  lines:vendor_bill_lines(
+    *,
+    account:gl_accounts(id, account_number, account_name),
+    property:properties(id, name),
+    unit:units(id, unit_number)
+  )
+`;
+
+const OPEN_STATUSES: VendorBillStatus[] = ['approved', 'partially_paid'];
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  days_1_30: 0,
+  days_31_60: 0,
+  days_61_90: 0,
+  days_over_90: 0,
+});
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+const agingBucket = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days_1_30';
+  if (daysPastDue <= 60) return 'days_31_60';
+  if (daysPastDue <= 90) return 'days_61_90';
+  return 'days_over_90';
+};
+
+const billLabel = (bill: VendorBill) =>
+  [bill.vendor?.vendor_name, bill.bill_number ? `#${bill.bill_number}` : ''].filter(Boolean).join(' ');
+
+const sortLines = (bill: VendorBill): VendorBill => ({
+  ...bill,
+  lines: [...(bill.lines || [])].sort((a, b) => a.line_number - b.line_number),
+});
+
+/**
+ * Whether AP journals should be posted for a business, and its accounting method
+ */
+async function getPostingSettings(businessId: string): Promise<{ post: boolean; method: AccountingMethod }> {
+  const settings = await glAccountService.getAccountingSettings(businessId);
+  const hasAccounts = settings ? await glAccountService.hasChartOfAccounts(businessId) : false;
+  return {
+    post: !!settings?.auto_post_expenses && hasAccounts,
+    method: settings?.accounting_method || 'cash',
+  };
+}
+
+/**
+ * Resolve a GL account number to its ID, failing when it is missing
+ */
+async function resolveAccount(businessId: string, number: string): Promise<string> {
+  const account = await glAccountService.getAccountByNumber(businessId, number);
+  if (!account) {
+    throw new Error(`GL accounts not found. Ensure chart of accounts is initialized. Missing: ${number}`);
+  }
+  return account.id;
+}
+
+/**
+ * Expense (and recoverable tax) debits for a share of a bill. Under cash
+ * accounting a partial payment expenses each line in proportion; the last
+ * line absorbs rounding.
+ */
+function expenseEntries(
+  bill: VendorBill,
+  amountCents: number,
+  taxAccountId: string | null
+): JournalEntryInput[] {
+  const lines = bill.lines || [];
+  const lineTotal = (line: VendorBillLine) => line.amount_cents + (line.tax_amount_cents || 0);
+  const entries: JournalEntryInput[] = [];
+  let remaining = amountCents;
+
+  lines.forEach((line, index) => {
+    const share = index === lines.length - 1
+      ? remaining
+      : Math.round((amountCents * lineTotal(line)) / bill.total_cents);
+    remaining -= share;
+
+    const tax = line.tax_amount_cents && taxAccountId
+      ? Math.round((share * line.tax_amount_cents) / lineTotal(line))
+      : 0;
+    const description = line.description || `Bill ${billLabel(bill)}`;
+
+    entries.push({
+      accountId: line.account_id,
+      debitCents: share - tax,
+      propertyId: line.property_id,
+      unitId: line.unit_id,
+      vendorId: bill.vendor_id,
+      description,
+    });
+
+    if (tax > 0) {
+      entries.push({
+        accountId: taxAccountId!,
+        debitCents: tax,
+        propertyId: line.property_id,
+        vendorId: bill.vendor_id,
+        taxRateId: line.tax_rate_id,
+        taxAmountCents: tax,
+        description: `Tax on ${description}`,
+      });
+    }
+  });
+
+  return entries.filter(e => (e.debitCents || 0) > 0);
+}
+
+/**
+ * Validate bill lines and total them
+ */
+function totalLines(lines: BillLineInput[]): { subtotal: number; tax: number } {
+  if (lines.length === 0) {
+    throw new Error('A bill needs at least one line');
+  }
+
+  for (const line of lines) {
+    if (!line.accountId) {
+      throw new Error('Every line needs a GL account');
+    }
+    if (!line.amountCents || line.amountCents <= 0) {
+      throw new Error('Line amounts must be greater than zero');
+    }
+    if ((line.taxAmountCents || 0) < 0) {
+      throw new Error('Tax cannot be negative');
+    }
+  }
+
+  return {
+    subtotal: lines.reduce((sum, l) => sum + l.amountCents, 0),
+    tax: lines.reduce((sum, l) => sum + (l.taxAmountCents || 0), 0),
+  };
+}
+
+async function insertLines(businessId: string, billId: string, lines: BillLineInput[]): Promise<void> {
+  const { error } = await supabase
+    .from('vendor_bill_lines')
+    .insert(lines.map((line, index) => ({
+      bill_id: billId,
+      business_id: businessId,
+      line_number: index + 1,
+      account_id: line.accountId,
+      property_id: line.propertyId || null,
+      unit_id: line.unitId || null,
+      description: line.description || null,
+      amount_cents: line.amountCents,
+      tax_rate_id: line.taxRateId || null,
+      tax_amount_cents: line.taxAmountCents || 0,
+    })));
+
+  if (error) throw error;
+}
+
+export const accountsPayableService = {
+  // ========================================
+  // Bills
+  // ========================================
+
+  /**
+   * Get bills for a business with vendor and lines, soonest due first
+   */
+  async getBills(businessId: string, filters?: VendorBillFilters): Promise<VendorBill[]> {
+    let query = supabase
+      .from('vendor_bills')
+      .select(BILL_SELECT)
+      .eq('business_id', businessId)
+      .order('due_date', { ascending: true });
+
+    if (filters?.status) {
+      query = Array.isArray(filters.status)
+        ? query.in('status', filters.status)
+        : query.eq('status', filters.status);
+    }
+
+    if (filters?.vendorId) {
+      query = query.eq('vendor_id', filters.vendorId);
+    }
+
+    if (filters?.dueThrough) {
+      query = query.lte('due_date', filters.dueThrough);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(sortLines);
+  },
+
+  /**
+   * Get a single bill
+   */
+  async getBill(billId: string): Promise<VendorBill | null> {
+    const { data, error } = await supabase
+      .from('vendor_bills')
+      .select(BILL_SELECT)
+      .eq('id', billId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? sortLines(data) : null;
+  },
+
+  /**
+   * Enter a vendor bill as a draft. The due date defaults from the vendor's
+   * payment terms.
+   */
+  async createBill(businessId: string, userId: string, input: VendorBillInput): Promise<VendorBill> {
+    const { subtotal, tax } = totalLines(input.lines);
+
+    const vendor = await vendorService.getVendorById(input.vendorId);
+    if (!vendor) throw new Error('Vendor not found');
+
+    const dueDate = input.dueDate
+      || vendorService.calculateDueDate(input.billDate, vendor.payment_terms, vendor.custom_payment_days);
+    if (dueDate < input.billDate) {
+      throw new Error('The due date cannot be before the bill date');
+    }
+
+    const { data: bill, error } = await supabase
+      .from('vendor_bills')
+      .insert({
+        business_id: businessId,
+        vendor_id: input.vendorId,
+        bill_number: input.billNumber?.trim() || null,
+        bill_date: input.billDate,
+        due_date: dueDate,
+        currency_code: input.currencyCode || vendor.currency_code || 'CAD',
+        subtotal_cents: subtotal,
+        tax_cents: tax,
+        total_cents: subtotal + tax,
+        memo: input.memo || null,
+        maintenance_request_id: input.maintenanceRequestId || null,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    try {
+      await insertLines(businessId, bill.id, input.lines);
+    } catch (lineError) {
+      await supabase.from('vendor_bills').delete().eq('id', bill.id);
+      throw lineError;
+    }
+
+    return (await this.getBill(bill.id))!;
+  },
+
+  /**
+   * Replace a bill's details and lines while it is a draft or awaiting approval
+   */
+  async updateBill(billId: string, input: VendorBillInput): Promise<VendorBill> {
+    const existing = await this.getBill(billId);
+    if (!existing) throw new Error('Bill not found');
+    if (existing.status !== 'draft' && existing.status !== 'pending_approval') {
+      throw new Error('Only draft bills or bills awaiting approval can be edited');
+    }
+
+    const { subtotal, tax } = totalLines(input.lines);
+
+    let dueDate = input.dueDate;
+    if (!dueDate) {
+      const vendor = await vendorService.getVendorById(input.vendorId);
+      if (!vendor) throw new Error('Vendor not found');
+      dueDate = vendorService.calculateDueDate(input.billDate, vendor.payment_terms, vendor.custom_payment_days);
+    }
+    if (dueDate < input.billDate) {
+      throw new Error('The due date cannot be before the bill date');
+    }
+
+    const { error } = await supabase
+      .from('vendor_bills')
+      .update({
+        vendor_id: input.vendorId,
+        bill_number: input.billNumber?.trim() || null,
+        bill_date: input.billDate,
+        due_date: dueDate,
+        currency_code: input.currencyCode || existing.currency_code,
+        subtotal_cents: subtotal,
+        tax_cents: tax,
+        total_cents: subtotal + tax,
+        memo: input.memo || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', billId);
+
+    if (error) throw error;
+
+    const { error: deleteError } = await supabase
+      .from('vendor_bill_lines')
+      .delete()
+      .eq('bill_id', billId);
+
+    if (deleteError) throw deleteError;
+    await insertLines(existing.business_id, billId, input.lines);
+
+    return (await this.getBill(billId))!;
+  },
+
+  /**
+   * Delete a draft bill
+   */
+  async deleteBill(billId: string): Promise<void> {
+    const { error } = await supabase
+      .from('vendor_bills')
+      .delete()
+      .eq('id', billId)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // Approval
+  // ========================================
+
+  /**
+   * Submit a draft bill for approval
+   */
+  async submitForApproval(billId: string, userId: string): Promise<VendorBill> {
+    const { data, error } = await supabase
+      .from('vendor_bills')
+      .update({
+        status: 'pending_approval',
+        submitted_by: userId,
+        submitted_at: new Date().toISOString(),
+        rejected_by: null,
+        rejected_at: null,
+        rejection_reason: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', billId)
+      .eq('status', 'draft')
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Approve a bill for payment. Under accrual accounting the bill is posted
+   * to accounts payable (Dr expense, Cr accounts payable) on its bill date.
+   */
+  async approveBill(billId: string, userId: string): Promise<VendorBill> {
+    const bill = await this.getBill(billId);
+    if (!bill) throw new Error('Bill not found');
+    if (bill.status !== 'draft' && bill.status !== 'pending_approval') {
+      throw new Error(`Cannot approve a bill with status: ${VENDOR_BILL_STATUS_LABELS[bill.status]}`);
+    }
+
+    const { post, method } = await getPostingSettings(bill.business_id);
+    const accrue = post && method === 'accrual';
+    if (accrue) {
+      await fiscalPeriodService.validatePostingDate(bill.business_id, bill.bill_date);
+    }
+
+    // Approve first: the database checks the approver's permission
+    const { error } = await supabase
+      .from('vendor_bills')
+      .update({
+        status: 'approved',
+        approved_by: userId,
+        approved_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', billId);
+
+    if (error) throw error;
+
+    if (accrue) {
+      const journal = await this.postBillJournal(bill, userId);
+      const { error: linkError } = await supabase
+        .from('vendor_bills')
+        .update({ journal_id: journal.id })
+        .eq('id', billId);
+
+      if (linkError) throw linkError;
+    }
+
+    return (await this.getBill(billId))!;
+  },
+
+  /**
+   * Send a bill back to draft with the reason
+   */
+  async rejectBill(billId: string, userId: string, reason: string): Promise<VendorBill> {
+    const { data, error } = await supabase
+      .from('vendor_bills')
+      .update({
+        status: 'draft',
+        rejected_by: userId,
+        rejected_at: new Date().toISOString(),
+        rejection_reason: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', billId)
+      .eq('status', 'pending_approval')
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Void an unpaid bill. Its accounts payable journal is reversed on the
+   * void date.
+   */
+  async voidBill(billId: string, userId: string, reason: string, voidDate: string = today()): Promise<VendorBill> {
+    const bill = await this.getBill(billId);
+    if (!bill) throw new Error('Bill not found');
+    if (bill.amount_paid_cents > 0) {
+      throw new Error('Void the payments on this bill first');
+    }
+    if (bill.status === 'void') return bill;
+
+    if (bill.journal_id) {
+      await fiscalPeriodService.validatePostingDate(bill.business_id, voidDate);
+      await journalService.createReversingJournal(bill.journal_id, userId, voidDate);
+    }
+
+    const { error } = await supabase
+      .from('vendor_bills')
+      .update({
+        status: 'void',
+        voided_by: userId,
+        voided_at: new Date().toISOString(),
+        void_reason: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', billId);
+
+    if (error) throw error;
+    return (await this.getBill(billId))!;
+  },
+
+  /**
+   * Post the accrual journal for a bill
+   */
+  async postBillJournal(bill: VendorBill, userId: string): Promise<GLJournal> {
+    const taxAccountId = bill.tax_cents > 0
+      ? await resolveAccount(bill.business_id, GL_ACCOUNTS.GST_HST_PAYABLE)
+      : null;
+    const payableAccountId = await resolveAccount(bill.business_id, GL_ACCOUNTS.ACCOUNTS_PAYABLE);
+    const description = `Bill ${billLabel(bill)}`;
+
+    return journalService.createJournal(bill.business_id, userId, {
+      journalDate: bill.bill_date,
+      journalType: 'purchases',
+      sourceType: 'vendor_bill',
+      sourceId: bill.id,
+      transactionCurrency: bill.currency_code,
+      memo: bill.memo || description,
+      reference: bill.bill_number,
+      entries: [
+        ...expenseEntries(bill, bill.total_cents, taxAccountId),
+        {
+          accountId: payableAccountId,
+          creditCents: bill.total_cents,
+          vendorId: bill.vendor_id,
+          description,
+        },
+      ],
+      autoPost: true,
+    });
+  },
+
+  // ========================================
+  // Maintenance
+  // ========================================
+
+  /**
+   * Raise a draft bill for the vendor assigned to a maintenance request,
+   * for its actual cost. The line is coded to the vendor's default expense
+   * account, or the account for the request's category.
+   */
+  async createBillFromMaintenance(businessId: string, userId: string, requestId: string): Promise<VendorBill> {
+    const { data: request, error } = await supabase
+      .from('maintenance_requests')
+      .select('id, title, category, property_id, unit_id, vendor_id, actual_cost_cents, completed_date')
+      .eq('id', requestId)
+      .single();
+
+    if (error) throw error;
+    if (!request.vendor_id) {
+      throw new Error('Assign a vendor to this request first');
+    }
+    if (!request.actual_cost_cents || request.actual_cost_cents <= 0) {
+      throw new Error('Enter the actual cost of the work first');
+    }
+
+    const { data: existing } = await supabase
+      .from('vendor_bills')
+      .select('id')
+      .eq('maintenance_request_id', requestId)
+      .neq('status', 'void')
+      .limit(1);
+
+    if (existing && existing.length > 0) {
+      throw new Error('A bill already exists for this request');
+    }
+
+    const vendor: Vendor | null = await vendorService.getVendorById(request.vendor_id);
+    if (!vendor) throw new Error('Vendor not found');
+
+    const accountId = vendor.default_expense_account_id || await resolveAccount(
+      businessId,
+      MAINTENANCE_CATEGORY_ACCOUNTS[request.category as MaintenanceCategory] || GL_ACCOUNTS.REPAIRS_MAINTENANCE
+    );
+
+    return this.createBill(businessId, userId, {
+      vendorId: vendor.id,
+      billDate: request.completed_date ? String(request.completed_date).split('T')[0]! : today(),
+      memo: `Maintenance: ${request.title}`,
+      maintenanceRequestId: request.id,
+      lines: [{
+        accountId,
+        propertyId: request.property_id,
+        unitId: request.unit_id || undefined,
+        description: request.title,
+        amountCents: request.actual_cost_cents,
+      }],
+    });
+  },
+
+  /**
+   * Bills raised from maintenance requests, keyed by request
+   */
+  async getMaintenanceBills(requestIds: string[]): Promise<Map<string, VendorBill>> {
+    const bills = new Map<string, VendorBill>();
+    if (requestIds.length === 0) return bills;
+
+    const { data, error } = await supabase
+      .from('vendor_bills')
+      .select('*')
+      .in('maintenance_request_id', requestIds)
+      .neq('status', 'void');
+
+    if (error) throw error;
+    for (const bill of data || []) {
+      bills.set(bill.maintenance_request_id, bill);
+    }
+    return bills;
+  },
+
+  // ========================================
+  // Payment Runs
+  // ========================================
+
+  /**
+   * Get payment runs for a business, most recent first
+   */
+  async getPaymentRuns(businessId: string): Promise<VendorPaymentRun[]> {
+    const { data, error } = await supabase
+      .from('vendor_payment_runs')
+      .select('*, bank_account:gl_accounts(id, account_number, account_name)')
+      .eq('business_id', businessId)
+      .order('payment_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Get the payments of a run with their bills and vendors
+   */
+  async getRunPayments(runId: string): Promise<VendorBillPayment[]> {
+    const { data, error } = await supabase
+      .from('vendor_bill_payments')
+      .select('*, bill:vendor_bills(id, bill_number, bill_date, due_date, total_cents), vendor:vendors(id, vendor_name)')
+      .eq('payment_run_id', runId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Pay a batch of approved bills from one bank account and post the run as
+   * one journal: Dr accounts payable under accrual accounting, Dr the bills'
+   * expense accounts under cash accounting; Cr the bank account.
+   */
+  async createPaymentRun(businessId: string, userId: string, input: PaymentRunInput): Promise<VendorPaymentRun> {
+    if (input.payments.length === 0) {
+      throw new Error('Select at least one bill to pay');
+    }
+
+    if (new Set(input.payments.map(p => p.billId)).size !== input.payments.length) {
+      throw new Error('A bill can only be paid once per run');
+    }
+
+    const bills = await this.getBills(businessId, { status: OPEN_STATUSES });
+    const billsById = new Map(bills.map(b => [b.id, b]));
+    const selected = input.payments.map(p => {
+      const bill = billsById.get(p.billId);
+      if (!bill) throw new Error('Only approved, unpaid bills can be paid');
+      if (p.amountCents <= 0 || p.amountCents > bill.total_cents - bill.amount_paid_cents) {
+        throw new Error(`Payment for ${billLabel(bill)} must be between zero and its balance`);
+      }
+      return { ...p, bill };
+    });
+
+    const currencies = new Set(selected.map(s => s.bill.currency_code));
+    if (currencies.size > 1) {
+      throw new Error('Bills in a payment run must share one currency');
+    }
+
+    const { post, method } = await getPostingSettings(businessId);
+    if (post) {
+      await fiscalPeriodService.validatePostingDate(businessId, input.paymentDate);
+    }
+
+    const total = selected.reduce((sum, s) => sum + s.amountCents, 0);
+
+    const { data: run, error } = await supabase
+      .from('vendor_payment_runs')
+      .insert({
+        business_id: businessId,
+        payment_date: input.paymentDate,
+        bank_account_id: input.bankAccountId,
+        bill_count: selected.length,
+        total_cents: total,
+        memo: input.memo || null,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // One check per vendor covers all of its bills in the run
+    const checkNumbers = new Map<string, string>();
+    let nextCheck = input.firstCheckNumber;
+    const paymentRows = selected.map(s => {
+      const vendor = s.bill.vendor;
+      const paymentMethod: VendorPaymentMethod = s.paymentMethod
+        || (vendor?.accepts_ach ? 'ach' : vendor?.accepts_check ? 'check' : 'other');
+
+      let reference: string | null = null;
+      if (paymentMethod === 'check' && nextCheck !== undefined) {
+        if (!checkNumbers.has(s.bill.vendor_id)) {
+          checkNumbers.set(s.bill.vendor_id, String(nextCheck++));
+        }
+        reference = checkNumbers.get(s.bill.vendor_id)!;
+      }
+
+      return {
+        business_id: businessId,
+        bill_id: s.bill.id,
+        vendor_id: s.bill.vendor_id,
+        payment_run_id: run.id,
+        payment_date: input.paymentDate,
+        amount_cents: s.amountCents,
+        payment_method: paymentMethod,
+        reference,
+        created_by: userId,
+      };
+    });
+
+    const { error: paymentError } = await supabase
+      .from('vendor_bill_payments')
+      .insert(paymentRows);
+
+    if (paymentError) {
+      await supabase.from('vendor_payment_runs').delete().eq('id', run.id);
+      throw paymentError;
+    }
+
+    const byVendor = new Map<string, number>();
+    for (const s of selected) {
+      byVendor.set(s.bill.vendor_id, (byVendor.get(s.bill.vendor_id) || 0) + s.amountCents);
+    }
+    for (const [vendorId, amount] of byVendor) {
+      await vendorService.updateVendorPaymentStats(vendorId, amount, input.paymentDate);
+    }
+
+    if (!post) return run;
+
+    const description = `Vendor payment run ${input.paymentDate}`;
+    const entries: JournalEntryInput[] = [];
+
+    if (method === 'accrual') {
+      const payableAccountId = await resolveAccount(businessId, GL_ACCOUNTS.ACCOUNTS_PAYABLE);
+      for (const s of selected) {
+        entries.push({
+          accountId: payableAccountId,
+          debitCents: s.amountCents,
+          vendorId: s.bill.vendor_id,
+          description: `Payment - ${billLabel(s.bill)}`,
+        });
+      }
+    } else {
+      const needsTax = selected.some(s => s.bill.tax_cents > 0);
+      const taxAccountId = needsTax ? await resolveAccount(businessId, GL_ACCOUNTS.GST_HST_PAYABLE) : null;
+      for (const s of selected) {
+        entries.push(...expenseEntries(s.bill, s.amountCents, taxAccountId));
+      }
+    }
+
+    entries.push({
+      accountId: input.bankAccountId,
+      creditCents: total,
+      description,
+    });
+
+    const journal = await journalService.createJournal(businessId, userId, {
+      journalDate: input.paymentDate,
+      journalType: 'cash_payments',
+      sourceType: 'bill_payment',
+      sourceId: run.id,
+      transactionCurrency: selected[0]!.bill.currency_code,
+      memo: input.memo || description,
+      entries,
+      autoPost: true,
+    });
+
+    const { data: linked, error: linkError } = await supabase
+      .from('vendor_payment_runs')
+      .update({ journal_id: journal.id })
+      .eq('id', run.id)
+      .select()
+      .single();
+
+    if (linkError) throw linkError;
+    return linked;
+  },
+
+  /**
+   * Void a payment run: its payments are voided, the bills reopen and the
+   * run's journal is reversed on the void date
+   */
+  async voidPaymentRun(runId: string, userId: string, reason: string, voidDate: string = today()): Promise<VendorPaymentRun> {
+    const { data: run, error } = await supabase
+      .from('vendor_payment_runs')
+      .select('*')
+      .eq('id', runId)
+      .single();
+
+    if (error) throw error;
+    if (run.status === 'void') return run;
+
+    if (run.journal_id) {
+      await fiscalPeriodService.validatePostingDate(run.business_id, voidDate);
+      await journalService.createReversingJournal(run.journal_id, userId, voidDate);
+    }
+
+    const payments = (await this.getRunPayments(runId)).filter(p => !p.is_void);
+
+    const { error: paymentError } = await supabase
+      .from('vendor_bill_payments')
+      .update({ is_void: true })
+      .eq('payment_run_id', runId);
+
+    if (paymentError) throw paymentError;
+
+    const byVendor = new Map<string, number>();
+    for (const p of payments) {
+      byVendor.set(p.vendor_id, (byVendor.get(p.vendor_id) || 0) + p.amount_cents);
+    }
+    for (const [vendorId, amount] of byVendor) {
+      await vendorService.updateVendorPaymentStats(vendorId, -amount, run.payment_date);
+    }
+
+    const { data: voided, error: voidError } = await supabase
+      .from('vendor_payment_runs')
+      .update({
+        status: 'void',
+        voided_by: userId,
+        voided_at: new Date().toISOString(),
+        void_reason: reason,
+      })
+      .eq('id', runId)
+      .select()
+      .single();
+
+    if (voidError) throw voidError;
+    return voided;
+  },
+
+  // ========================================
+  // Reporting
+  // ========================================
+
+  /**
+   * Aged payables as of a date: approved bills dated on or before the date,
+   * less payments made by then, bucketed by days past due
+   */
+  async getAgedPayables(businessId: string, asOfDate: string = today()): Promise<AgedPayables> {
+    const { data: bills, error } = await supabase
+      .from('vendor_bills')
+      .select('id, vendor_id, bill_number, bill_date, due_date, total_cents, vendor:vendors(vendor_name)')
+      .eq('business_id', businessId)
+      .in('status', ['approved', 'partially_paid', 'paid'])
+      .lte('bill_date', asOfDate);
+
+    if (error) throw error;
+
+    const billIds = (bills || []).map(b => b.id);
+    const paid = new Map<string, number>();
+
+    if (billIds.length > 0) {
+      const { data: payments, error: paymentError } = await supabase
+        .from('vendor_bill_payments')
+        .select('bill_id, amount_cents')
+        .in('bill_id', billIds)
+        .eq('is_void', false)
+        .lte('payment_date', asOfDate);
+
+      if (paymentError) throw paymentError;
+      for (const p of payments || []) {
+        paid.set(p.bill_id, (paid.get(p.bill_id) || 0) + p.amount_cents);
+      }
+    }
+
+    const rows = new Map<string, AgedPayablesRow>();
+    const totals = emptyBuckets();
+
+    for (const bill of (bills || []) as any[]) {
+      const balance = bill.total_cents - (paid.get(bill.id) || 0);
+      if (balance <= 0) continue;
+
+      const daysPastDue = daysBetween(bill.due_date, asOfDate);
+      const bucket = agingBucket(daysPastDue);
+
+      let row = rows.get(bill.vendor_id);
+      if (!row) {
+        row = {
+          vendor_id: bill.vendor_id,
+          vendor_name: bill.vendor?.vendor_name || 'Unknown vendor',
+          buckets: emptyBuckets(),
+          total_cents: 0,
+          bills: [],
+        };
+        rows.set(bill.vendor_id, row);
+      }
+
+      row.buckets[bucket] += balance;
+      row.total_cents += balance;
+      row.bills.push({
+        bill_id: bill.id,
+        bill_number: bill.bill_number || undefined,
+        bill_date: bill.bill_date,
+        due_date: bill.due_date,
+        days_past_due: Math.max(daysPastDue, 0),
+        bucket,
+        balance_cents: balance,
+      });
+      totals[bucket] += balance;
+    }
+
+    const sortedRows = [...rows.values()].sort((a, b) => a.vendor_name.localeCompare(b.vendor_name));
+    for (const row of sortedRows) {
+      row.bills.sort((a, b) => a.due_date.localeCompare(b.due_date));
+    }
+
+    return {
+      business_id: businessId,
+      as_of_date: asOfDate,
+      rows: sortedRows,
+      totals,
+      total_cents: sortedRows.reduce((sum, r) => sum + r.total_cents, 0),
+    };
+  },
+
+  /**
+   * Export aged payables as CSV, Excel CSV or PDF, with a totals row
+   */
+  exportAgedPayables(report: AgedPayables, format: ExportFormat, businessName: string): void {
+    const rows = report.rows.map(row => ({ vendor_name: row.vendor_name, ...row.buckets, total_cents: row.total_cents }));
+    const totals = { vendor_name: 'Total', ...report.totals, total_cents: report.total_cents };
+
+    dataExportService.export([...rows, totals], AGED_PAYABLES_EXPORT_COLUMNS, {
+      filename: `Aged Payables - ${businessName} - ${report.as_of_date}`,
+      format,
+      orientation: 'landscape',
+    });
+  },
+};
@@ -0,0 +1,746 @@
+import { supabase } from '../lib/supabase';
+import {
+  AgingBucket,
+  CollectionActionType,
+  CollectionCase,
+  CollectionCaseStatus,
+  CollectionContact,
+  CollectionContactMethod,
+  CollectionContactOutcome,
+  CollectionResolution,
+  CollectionStep,
+  ReceivablesAging,
+  ReceivablesAgingProperty,
+  ReceivablesAgingRow,
+  TenantLedgerLine,
+} from '../types';
+import { tenantLedgerService } from './tenantLedgerService';
+import { notificationService, NotificationType } from './notificationService';
+import { AGING_BUCKET_LABELS } from './accountsPayableService';
+import { dataExportService, ExportColumn, ExportFormat } from './dataExportService';
+
+export interface CollectionStepInput {
+  stepOrder: number;
+  name: string;
+  actionType: CollectionActionType;
+  daysPastDue: number;
+  minBalanceCents?: number;
+  isActive?: boolean;
+}
+
+export interface CollectionContactInput {
+  businessId: string;
+  tenantId: string;
+  caseId?: string;
+  contactMethod: CollectionContactMethod;
+  direction?: 'outbound' | 'inbound';
+  outcome: CollectionContactOutcome;
+  contactDate?: string;
+  // A promise to pay holds escalation until the promised date
+  promisedAmountCents?: number;
+  promisedDate?: string;
+  notes?: string;
+}
+
+export interface CollectionRunResult {
+  processed: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+export const COLLECTION_ACTION_LABELS: Record<CollectionActionType, string> = {
+  reminder: 'Reminder',
+  formal_notice: 'Formal Notice',
+  payment_plan_offer: 'Payment Plan Offer',
+  handoff: 'Handoff',
+};
+
+export const COLLECTION_CASE_STATUS_LABELS: Record<CollectionCaseStatus, string> = {
+  open: 'Open',
+  handed_off: 'Handed Off',
+  resolved: 'Resolved',
+};
+
+export const COLLECTION_RESOLUTION_LABELS: Record<CollectionResolution, string> = {
+  paid: 'Paid',
+  payment_plan: 'Payment Plan',
+  written_off: 'Written Off',
+  other: 'Other',
+};
+
+export const CONTACT_METHOD_LABELS: Record<CollectionContactMethod, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  sms: 'Text Message',
+  letter: 'Letter',
+  in_person: 'In Person',
+  other: 'Other',
+};
+
+export const CONTACT_OUTCOME_LABELS: Record<CollectionContactOutcome, string> = {
+  sent: 'Sent',
+  not_sent: 'Not Sent',
+  no_answer: 'No Answer',
+  left_message: 'Left Message',
+  spoke: 'Spoke With Tenant',
+  promised_to_pay: 'Promised to Pay',
+  disputed: 'Disputed',
+  paid: 'Paid',
+  other: 'Other',
+};
+
+// Created for a business the first time its queue is refreshed
+export const DEFAULT_COLLECTION_STEPS: CollectionStepInput[] = [
+  { stepOrder: 1, name: 'Friendly reminder', actionType: 'reminder', daysPastDue: 5 },
+  { stepOrder: 2, name: 'Formal notice', actionType: 'formal_notice', daysPastDue: 15 },
+  { stepOrder: 3, name: 'Offer a payment plan', actionType: 'payment_plan_offer', daysPastDue: 30 },
+  { stepOrder: 4, name: 'Hand off to collections', actionType: 'handoff', daysPastDue: 60 },
+];
+
+const ACTION_NOTIFICATION_TYPES: Record<CollectionActionType, NotificationType> = {
+  reminder: 'rent_overdue',
+  formal_notice: 'collections_notice',
+  payment_plan_offer: 'payment_plan_offer',
+  handoff: 'collections_handoff',
+};
+
+const formatAmount = (cents: number | null | undefined) =>
+  cents == null ? '' : (cents / 100).toFixed(2);
+
+export const RECEIVABLES_AGING_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'property_name', label: 'Property', format: v => v || '' },
+  { key: 'unit_number', label: 'Unit', format: v => v || '' },
+  { key: 'tenant_name', label: 'Tenant', format: v => v || '' },
+  ...(Object.keys(AGING_BUCKET_LABELS) as AgingBucket[]).map(bucket => ({
+    key: bucket,
+    label: AGING_BUCKET_LABELS[bucket],
+    format: formatAmount,
+  })),
+  { key: 'total_cents', label: 'Total', format: formatAmount },
+];
+
+const CASE_SELECT = `
+  *,
+  tenant:tenants(id, first_name, last_name, email, phone, unit_id, unit:units(id, unit_number, property:properties(id, name))),
+  current_step:collection_steps(*)
+`;
+
+// Ledgers are built a few tenants at a time
+const LEDGER_BATCH_SIZE = 10;
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  days_1_30: 0,
+  days_31_60: 0,
+  days_61_90: 0,
+  days_over_90: 0,
+});
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+const agingBucket = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days_1_30';
+  if (daysPastDue <= 60) return 'days_31_60';
+  if (daysPastDue <= 90) return 'days_61_90';
+  return 'days_over_90';
+};
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(cents / 100);
+
+/**
+ * Unpaid charges left after applying payments and credits oldest first, and
+ * any payments and credits left over once every charge is paid
+ */
+function openCharges(lines: TenantLedgerLine[]): { charges: Array<{ date: string; cents: number }>; unappliedCents: number } {
+  const charges: Array<{ date: string; cents: number }> = [];
+  let unapplied = 0;
+
+  for (const line of lines) {
+    if (line.amount_cents > 0) {
+      const applied = Math.min(unapplied, line.amount_cents);
+      unapplied -= applied;
+      if (line.amount_cents > applied) {
+        charges.push({ date: line.entry_date, cents: line.amount_cents - applied });
+      }
+      continue;
+    }
+
+    let remaining = -line.amount_cents;
+    while (remaining > 0 && charges.length > 0) {
+      const oldest = charges[0]!;
+      const applied = Math.min(remaining, oldest.cents);
+      oldest.cents -= applied;
+      remaining -= applied;
+      if (oldest.cents === 0) charges.shift();
+    }
+    unapplied += remaining;
+  }
+
+  return { charges, unappliedCents: unapplied };
+}
+
+export const accountsReceivableService = {
+  // ========================================
+  // Aging
+  // ========================================
+
+  /**
+   * A/R aging as of a date, from each tenant's ledger. Payments and credits
+   * are applied to the oldest charges first; what is left of each charge is
+   * aged by days since it was due. Current and former tenants are included,
+   * optionally for one property only.
+   */
+  async getReceivablesAging(
+    businessId: string,
+    asOfDate: string = today(),
+    propertyId?: string
+  ): Promise<ReceivablesAging> {
+    let propertyQuery = supabase
+      .from('properties')
+      .select('id, name')
+      .eq('business_id', businessId);
+
+    if (propertyId) {
+      propertyQuery = propertyQuery.eq('id', propertyId);
+    }
+
+    const { data: properties, error: propertyError } = await propertyQuery;
+    if (propertyError) throw propertyError;
+
+    const rows: ReceivablesAgingRow[] = [];
+
+    if (properties && properties.length > 0) {
+      const { data: tenants, error: tenantError } = await supabase
+        .from('tenants')
+        .select('id, is_active, unit:units!inner(id, unit_number, property_id)')
+        .in('unit.property_id', properties.map(p => p.id));
+
+      if (tenantError) throw tenantError;
+
+      const propertyNames = new Map<string, string>(properties.map(p => [p.id, p.name]));
+      const list = (tenants || []) as any[];
+
+      for (let i = 0; i < list.length; i += LEDGER_BATCH_SIZE) {
+        const batch = list.slice(i, i + LEDGER_BATCH_SIZE);
+        const ledgers = await Promise.all(
+          batch.map(t => tenantLedgerService.getLedger(t.id, { endDate: asOfDate }))
+        );
+
+        ledgers.forEach((ledger, index) => {
+          const tenant = batch[index];
+          const { charges, unappliedCents } = openCharges(ledger.lines);
+          if (charges.length === 0 && unappliedCents === 0) return;
+
+          const buckets = emptyBuckets();
+          for (const charge of charges) {
+            buckets[agingBucket(daysBetween(charge.date, asOfDate))] += charge.cents;
+          }
+
+          const oldest = charges[0]?.date;
+          rows.push({
+            tenant_id: ledger.tenant_id,
+            tenant_name: ledger.tenant_name,
+            tenant_email: ledger.tenant_email,
+            is_current_tenant: tenant.is_active !== false,
+            property_id: tenant.unit?.property_id,
+            property_name: propertyNames.get(tenant.unit?.property_id) || '',
+            unit_id: tenant.unit?.id,
+            unit_number: tenant.unit?.unit_number || '',
+            buckets,
+            total_cents: charges.reduce((sum, c) => sum + c.cents, 0),
+            unapplied_credit_cents: unappliedCents,
+            oldest_due_date: oldest,
+            days_past_due: oldest ? Math.max(daysBetween(oldest, asOfDate), 0) : 0,
+          });
+        });
+      }
+    }
+
+    rows.sort((a, b) =>
+      a.property_name.localeCompare(b.property_name)
+      || a.unit_number.localeCompare(b.unit_number, undefined, { numeric: true })
+      || a.tenant_name.localeCompare(b.tenant_name)
+    );
+
+    const byProperty = new Map<string, ReceivablesAgingProperty>();
+    const totals = emptyBuckets();
+
+    for (const row of rows) {
+      const key = row.property_id || '';
+      let property = byProperty.get(key);
+      if (!property) {
+        property = { property_id: row.property_id, property_name: row.property_name, buckets: emptyBuckets(), total_cents: 0 };
+        byProperty.set(key, property);
+      }
+
+      for (const bucket of Object.keys(totals) as AgingBucket[]) {
+        property.buckets[bucket] += row.buckets[bucket];
+        totals[bucket] += row.buckets[bucket];
+      }
+      property.total_cents += row.total_cents;
+    }
+
+    return {
+      business_id: businessId,
+      as_of_date: asOfDate,
+      property_id: propertyId,
+      rows,
+      properties: [...byProperty.values()],
+      totals,
+      total_cents: rows.reduce((sum, r) => sum + r.total_cents, 0),
+      unapplied_credit_cents: rows.reduce((sum, r) => sum + r.unapplied_credit_cents, 0),
+    };
+  },
+
+  /**
+   * Export the aging as CSV, Excel CSV or PDF, with property subtotals and
+   * a totals row
+   */
+  exportReceivablesAging(report: ReceivablesAging, format: ExportFormat, businessName: string): void {
+    const rows: Record<string, any>[] = [];
+
+    for (const property of report.properties) {
+      for (const row of report.rows.filter(r => (r.property_id || '') === (property.property_id || ''))) {
+        rows.push({
+          property_name: row.property_name,
+          unit_number: row.unit_number,
+          tenant_name: row.tenant_name,
+          ...row.buckets,
+          total_cents: row.total_cents,
+        });
+      }
+      if (report.properties.length > 1) {
+        rows.push({ property_name: `${property.property_name} total`, ...property.buckets, total_cents: property.total_cents });
+      }
+    }
+
+    rows.push({ property_name: 'Total', ...report.totals, total_cents: report.total_cents });
+
+    dataExportService.export(rows, RECEIVABLES_AGING_EXPORT_COLUMNS, {
+      filename: `Receivables Aging - ${businessName} - ${report.as_of_date}`,
+      format,
+      orientation: 'landscape',
+    });
+  },
+
+  // ========================================
+  // Escalation Steps
+  // ========================================
+
+  /**
+   * Get a business's escalation steps in order
+   */
+  async getSteps(businessId: string): Promise<CollectionStep[]> {
+    const { data, error } = await supabase
+      .from('collection_steps')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('step_order');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Create the default steps for a business that has none
+   */
+  async ensureDefaultSteps(businessId: string): Promise<CollectionStep[]> {
+    const existing = await this.getSteps(businessId);
+    if (existing.length > 0) return existing;
+
+    const { data, error } = await supabase
+      .from('collection_steps')
+      .insert(DEFAULT_COLLECTION_STEPS.map(step => ({
+        business_id: businessId,
+        step_order: step.stepOrder,
+        name: step.name,
+        action_type: step.actionType,
+        days_past_due: step.daysPastDue,
+      })))
+      .select()
+      .order('step_order');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Create or update an escalation step
+   */
+  async saveStep(businessId: string, input: CollectionStepInput, stepId?: string): Promise<CollectionStep> {
+    if (!input.name.trim()) {
+      throw new Error('A step name is required');
+    }
+    if (input.daysPastDue < 0) {
+      throw new Error('Days past due cannot be negative');
+    }
+
+    const fields = {
+      step_order: input.stepOrder,
+      name: input.name.trim(),
+      action_type: input.actionType,
+      days_past_due: input.daysPastDue,
+      min_balance_cents: input.minBalanceCents || 0,
+      is_active: input.isActive ?? true,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = stepId
+      ? await supabase.from('collection_steps').update(fields).eq('id', stepId).select().single()
+      : await supabase.from('collection_steps').insert({ business_id: businessId, ...fields }).select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`Another step is already number ${input.stepOrder}`);
+      }
+      throw error;
+    }
+    return data;
+  },
+
+  /**
+   * Delete an escalation step. Cases already past it are not affected.
+   */
+  async deleteStep(stepId: string): Promise<void> {
+    const { error } = await supabase
+      .from('collection_steps')
+      .delete()
+      .eq('id', stepId);
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // Collections Queue
+  // ========================================
+
+  /**
+   * Get collection cases, most past due first
+   */
+  async getCases(businessId: string, status?: CollectionCaseStatus | CollectionCaseStatus[]): Promise<CollectionCase[]> {
+    let query = supabase
+      .from('collection_cases')
+      .select(CASE_SELECT)
+      .eq('business_id', businessId);
+
+    if (Array.isArray(status)) {
+      query = query.in('status', status);
+    } else if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query
+      .order('days_past_due', { ascending: false })
+      .order('past_due_cents', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Bring the queue up to date with today's aging: open a case for each
+   * tenant with a past-due balance, refresh the balances on active cases and
+   * resolve open cases that have been paid. Tenants on an active payment
+   * plan are left to the plan. Handed-off cases stay with the collector
+   * until resolved by hand.
+   */
+  async refreshQueue(businessId: string): Promise<{ opened: number; updated: number; resolved: number }> {
+    await this.ensureDefaultSteps(businessId);
+
+    const asOf = today();
+    const aging = await this.getReceivablesAging(businessId, asOf);
+    const active = await this.getCases(businessId, ['open', 'handed_off']);
+    const byTenant = new Map(active.map(c => [c.tenant_id, c]));
+    const now = new Date().toISOString();
+    const result = { opened: 0, updated: 0, resolved: 0 };
+
+    const { data: plans, error: planError } = await supabase
+      .from('payment_plans')
+      .select('tenant_id')
+      .eq('business_id', businessId)
+      .eq('status', 'active');
+
+    if (planError) throw planError;
+    const onPlan = new Set((plans || []).map(p => p.tenant_id as string));
+
+    for (const row of aging.rows) {
+      const pastDue = row.total_cents - row.buckets.current;
+      const existing = byTenant.get(row.tenant_id);
+      byTenant.delete(row.tenant_id);
+
+      if (onPlan.has(row.tenant_id)) {
+        if (existing) byTenant.set(row.tenant_id, existing);
+        continue;
+      }
+
+      const fields = {
+        balance_cents: row.total_cents,
+        past_due_cents: pastDue,
+        oldest_due_date: row.oldest_due_date || null,
+        days_past_due: row.days_past_due,
+        updated_at: now,
+      };
+
+      if (existing) {
+        if (pastDue <= 0 && existing.status === 'open') {
+          byTenant.set(row.tenant_id, existing);
+          continue;
+        }
+        const { error } = await supabase.from('collection_cases').update(fields).eq('id', existing.id);
+        if (error) throw error;
+        result.updated++;
+      } else if (pastDue > 0) {
+        const { error } = await supabase
+          .from('collection_cases')
+          .insert({ business_id: businessId, tenant_id: row.tenant_id, ...fields });
+        if (error) throw error;
+        result.opened++;
+      }
+    }
+
+    // Whatever is left no longer has anything past due, or is on a plan
+    for (const c of byTenant.values()) {
+      if (c.status !== 'open') continue;
+
+      const { error } = await supabase
+        .from('collection_cases')
+        .update({
+          status: 'resolved',
+          resolved_at: now,
+          ...(onPlan.has(c.tenant_id)
+            ? { resolution: 'payment_plan' }
+            : { resolution: 'paid', past_due_cents: 0, days_past_due: 0 }),
+          updated_at: now,
+        })
+        .eq('id', c.id);
+
+      if (error) throw error;
+      result.resolved++;
+    }
+
+    return result;
+  },
+
+  /**
+   * Refresh the queue, then take the next due step on every open case that
+   * is not paused by a promise to pay. One step is taken per case per run,
+   * so a tenant always gets the earlier notices first.
+   */
+  async runEscalations(businessId: string, userId: string | null): Promise<CollectionRunResult> {
+    await this.refreshQueue(businessId);
+
+    const steps = (await this.getSteps(businessId)).filter(s => s.is_active);
+    const cases = await this.getCases(businessId, 'open');
+    const asOf = today();
+    const result: CollectionRunResult = { processed: 0, skipped: 0, failed: 0, errors: [] };
+
+    for (const c of cases) {
+      if (c.paused_until && c.paused_until >= asOf) {
+        result.skipped++;
+        continue;
+      }
+
+      const next = steps.find(s =>
+        s.step_order > c.current_step_order
+        && s.days_past_due <= c.days_past_due
+        && s.min_balance_cents <= c.past_due_cents
+      );
+
+      if (!next) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await this.takeStep(c.id, next.id, userId);
+        result.processed++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push(
+          `${c.tenant ? `${c.tenant.first_name} ${c.tenant.last_name}` : c.tenant_id}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Take an escalation step on a case now: schedule the step's notification
+   * to the tenant, log the contact and move the case to that step. A handoff
+   * step also marks the case handed off.
+   */
+  async takeStep(caseId: string, stepId: string, userId: string | null): Promise<CollectionCase> {
+    const [{ data: c, error: caseError }, { data: step, error: stepError }] = await Promise.all([
+      supabase.from('collection_cases').select(CASE_SELECT).eq('id', caseId).single(),
+      supabase.from('collection_steps').select('*').eq('id', stepId).single(),
+    ]);
+
+    if (caseError) throw caseError;
+    if (stepError) throw stepError;
+    if (c.status === 'resolved') {
+      throw new Error('This case has been resolved');
+    }
+
+    const { data: business } = await supabase
+      .from('businesses')
+      .select('business_name')
+      .eq('id', c.business_id)
+      .maybeSingle();
+
+    const tenant = c.tenant;
+    const tenantName = tenant ? `${tenant.first_name} ${tenant.last_name}` : 'Tenant';
+    let notificationId: string | undefined;
+
+    if (tenant?.email) {
+      const notification = await notificationService.scheduleNotification(
+        c.business_id,
+        ACTION_NOTIFICATION_TYPES[step.action_type as CollectionActionType],
+        tenant.email,
+        tenantName,
+        {
+          tenant_name: tenantName,
+          amount: formatCents(c.past_due_cents),
+          balance: formatCents(c.balance_cents),
+          due_date: c.oldest_due_date ? new Date(`${c.oldest_due_date}T00:00:00`).toLocaleDateString() : '',
+          days_overdue: c.days_past_due,
+          property_name: tenant.unit?.property?.name || 'Your Property',
+          unit_number: tenant.unit?.unit_number || '',
+          organization_name: business?.business_name || 'Your Property Management',
+          collection_case_id: c.id,
+          collection_step: step.name,
+        }
+      );
+      notificationId = notification?.id;
+    }
+
+    await this.logContact({
+      businessId: c.business_id,
+      tenantId: c.tenant_id,
+      caseId: c.id,
+      contactMethod: 'email',
+      outcome: notificationId ? 'sent' : 'not_sent',
+      notes: notificationId
+        ? `${step.name}: ${COLLECTION_ACTION_LABELS[step.action_type as CollectionActionType].toLowerCase()} scheduled`
+        : `${step.name}: ${tenant?.email ? 'notification could not be scheduled' : 'no email address on file'}`,
+    }, userId, { stepId: step.id, notificationId });
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('collection_cases')
+      .update({
+        current_step_id: step.id,
+        current_step_order: step.step_order,
+        last_action_at: now,
+        ...(step.action_type === 'handoff' ? { status: 'handed_off', handed_off_at: now } : {}),
+        updated_at: now,
+      })
+      .eq('id', c.id)
+      .select(CASE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Close a case by hand: settled, moved to a payment plan, written off
+   */
+  async resolveCase(
+    caseId: string,
+    userId: string,
+    resolution: CollectionResolution,
+    notes?: string
+  ): Promise<CollectionCase> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('collection_cases')
+      .update({
+        status: 'resolved',
+        resolution,
+        resolution_notes: notes || null,
+        resolved_at: now,
+        resolved_by: userId,
+        updated_at: now,
+      })
+      .eq('id', caseId)
+      .select(CASE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // ========================================
+  // Contact Log
+  // ========================================
+
+  /**
+   * Log a contact attempt with a tenant. A promise to pay with a date holds
+   * escalation on the case until that date.
+   */
+  async logContact(
+    input: CollectionContactInput,
+    userId: string | null,
+    links?: { stepId?: string; notificationId?: string }
+  ): Promise<CollectionContact> {
+    if (input.outcome === 'promised_to_pay' && !input.promisedDate) {
+      throw new Error('Enter the date the tenant promised to pay by');
+    }
+
+    const { data, error } = await supabase
+      .from('collection_contacts')
+      .insert({
+        business_id: input.businessId,
+        tenant_id: input.tenantId,
+        case_id: input.caseId || null,
+        step_id: links?.stepId || null,
+        contact_date: input.contactDate || new Date().toISOString(),
+        contact_method: input.contactMethod,
+        direction: input.direction || 'outbound',
+        outcome: input.outcome,
+        notification_id: links?.notificationId || null,
+        promised_amount_cents: input.promisedAmountCents || null,
+        promised_date: input.promisedDate || null,
+        notes: input.notes?.trim() || null,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (input.caseId && input.outcome === 'promised_to_pay') {
+      const { error: pauseError } = await supabase
+        .from('collection_cases')
+        .update({ paused_until: input.promisedDate, updated_at: new Date().toISOString() })
+        .eq('id', input.caseId);
+
+      if (pauseError) throw pauseError;
+    }
+
+    return data;
+  },
+
+  /**
+   * Every contact logged with a tenant, most recent first
+   */
+  async getContacts(tenantId: string): Promise<CollectionContact[]> {
+    const { data, error } = await supabase
+      .from('collection_contacts')
+      .select('*, step:collection_steps(id, name, action_type)')
+      .eq('tenant_id', tenantId)
+      .order('contact_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+};
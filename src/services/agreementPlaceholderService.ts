@@ -4,14 +4,41 @@
  * Handles placeholder variables in agreement templates.
  * Placeholders use the format {{PLACEHOLDER_NAME}} and are replaced
  * with actual values when generating an agreement from a template.
+ *
+ * Templates can also include blocks:
+ * - {{#if PETS_ALLOWED}}...{{else if ...}}...{{else}}...{{/if}}, where the
+ *   condition is NAME, !NAME, NAME == "value", NAME != "value" or
+ *   NAME in "value1, value2" (comparisons ignore case)
+ * - {{#each CO_TENANTS}}...{{/each}}, where the item's fields (such as
+ *   {{NAME}} and {{INDEX}}) are available inside the block
+ * A block tag on a line of its own leaves no blank line behind.
  */
 
 export interface PlaceholderDefinition {
   key: string;
   label: string;
   description: string;
-  category: 'landlord' | 'tenant' | 'property' | 'lease' | 'dates';
+  category: 'landlord' | 'tenant' | 'property' | 'lease' | 'computed' | 'dates';
   example: string;
+  type?: 'text' | 'flag' | 'list'; // Defaults to text
+  itemFields?: string[]; // Fields of each item in a list
+}
+
+export interface AgreementCoTenant {
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface AgreementAdditionalCharge {
+  name: string;
+  amount: number; // in cents
+  frequency: 'monthly' | 'one_time';
+}
+
+export interface TemplateSyntaxError {
+  line: number;
+  message: string;
 }
 
 export interface PlaceholderContext {
@@ -28,6 +55,7 @@ export interface PlaceholderContext {
   property_city?: string;
   property_state?: string;
   property_postal_code?: string;
+  property_country?: string;
   unit_number?: string;
   bedrooms?: number;
   bathrooms?: number;
@@ -39,6 +67,7 @@ export interface PlaceholderContext {
   tenant_last_name?: string;
   tenant_email?: string;
   tenant_phone?: string;
+  co_tenants?: AgreementCoTenant[];
 
   // Lease terms
   start_date?: string;
@@ -50,6 +79,9 @@ export interface PlaceholderContext {
   payment_due_day?: number;
   late_fee_amount?: number;
   late_fee_grace_days?: number;
+  pets_allowed?: boolean;
+  pet_deposit?: number; // in cents
+  additional_charges?: AgreementAdditionalCharge[];
 
   // Dates
   current_date?: string;
@@ -135,6 +167,22 @@ export const PLACEHOLDERS: PlaceholderDefinition[] = [
     category: 'tenant',
     example: '(555) 987-6543',
   },
+  {
+    key: 'CO_TENANTS',
+    label: 'Co-tenants',
+    description: 'Co-tenants on the agreement, for use in {{#each CO_TENANTS}}',
+    category: 'tenant',
+    example: 'John Doe, Mary Roe',
+    type: 'list',
+    itemFields: ['NAME', 'EMAIL', 'PHONE', 'INDEX'],
+  },
+  {
+    key: 'CO_TENANT_NAMES',
+    label: 'Co-tenant Names',
+    description: 'Names of all co-tenants, separated by commas',
+    category: 'tenant',
+    example: 'John Doe and Mary Roe',
+  },
 
   // Property
   {
@@ -151,6 +199,34 @@ export const PLACEHOLDERS: PlaceholderDefinition[] = [
     category: 'property',
     example: '123 Main St, Apt 4B, Toronto, ON M5V 1A1',
   },
+  {
+    key: 'PROPERTY_CITY',
+    label: 'Property City',
+    description: 'City the property is in',
+    category: 'property',
+    example: 'Toronto',
+  },
+  {
+    key: 'PROPERTY_STATE',
+    label: 'Property Province/State',
+    description: 'Province or state the property is in, for jurisdiction-specific clauses',
+    category: 'property',
+    example: 'ON',
+  },
+  {
+    key: 'PROPERTY_POSTAL_CODE',
+    label: 'Property Postal Code',
+    description: 'Postal or ZIP code of the property',
+    category: 'property',
+    example: 'M5V 1A1',
+  },
+  {
+    key: 'PROPERTY_COUNTRY',
+    label: 'Property Country',
+    description: 'Country the property is in',
+    category: 'property',
+    example: 'CA',
+  },
   {
     key: 'UNIT_NUMBER',
     label: 'Unit Number',
@@ -244,6 +320,75 @@ export const PLACEHOLDERS: PlaceholderDefinition[] = [
     category: 'lease',
     example: '5',
   },
+  {
+    key: 'PETS_ALLOWED',
+    label: 'Pets Allowed',
+    description: 'Whether pets are allowed, for use in {{#if PETS_ALLOWED}}',
+    category: 'lease',
+    example: 'Yes',
+    type: 'flag',
+  },
+  {
+    key: 'PET_DEPOSIT',
+    label: 'Pet Deposit',
+    description: 'Pet deposit amount (formatted with currency)',
+    category: 'lease',
+    example: '$300.00',
+  },
+  {
+    key: 'ADDITIONAL_CHARGES',
+    label: 'Additional Charges',
+    description: 'Parking, storage and other charges, for use in {{#each ADDITIONAL_CHARGES}}',
+    category: 'lease',
+    example: 'Parking: $75.00 monthly',
+    type: 'list',
+    itemFields: ['NAME', 'AMOUNT', 'FREQUENCY', 'INDEX'],
+  },
+
+  // Computed
+  {
+    key: 'PRORATED_FIRST_MONTH',
+    label: 'Prorated First Month',
+    description: 'Rent for the first month, prorated from the start date to the end of that month',
+    category: 'computed',
+    example: '$825.00',
+  },
+  {
+    key: 'PRORATED_DAYS',
+    label: 'Prorated Days',
+    description: 'Number of days charged in the first month',
+    category: 'computed',
+    example: '17',
+  },
+  {
+    key: 'FIRST_MONTH_PRORATED',
+    label: 'First Month Prorated',
+    description: 'Whether the lease starts after the first of the month, for use in {{#if FIRST_MONTH_PRORATED}}',
+    category: 'computed',
+    example: 'Yes',
+    type: 'flag',
+  },
+  {
+    key: 'TOTAL_DEPOSIT',
+    label: 'Total Deposit',
+    description: 'Security deposit plus the pet deposit when pets are allowed',
+    category: 'computed',
+    example: '$1,800.00',
+  },
+  {
+    key: 'TOTAL_MONTHLY_CHARGES',
+    label: 'Total Monthly Charges',
+    description: 'Rent plus all monthly additional charges',
+    category: 'computed',
+    example: '$1,575.00',
+  },
+  {
+    key: 'MOVE_IN_TOTAL',
+    label: 'Move-in Total',
+    description: 'Prorated first month, total deposit and one-time charges due at move-in',
+    category: 'computed',
+    example: '$2,625.00',
+  },
 
   // Policies
   {
@@ -332,6 +477,442 @@ function formatDayWithOrdinal(day: number | undefined): string {
   return day + suffix;
 }
 
+/**
+ * Join names as "A", "A and B" or "A, B and C"
+ */
+function joinNames(names: string[]): string {
+  if (names.length <= 1) return names[0] || '';
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Rent for the first month, prorated from the start date to the end of that
+ * month. Only monthly rent is prorated.
+ */
+function prorateFirstMonth(context: PlaceholderContext): {
+  amount?: number;
+  days?: number;
+  prorated: boolean;
+} {
+  const rent = context.rent_amount;
+  const start = context.start_date ? new Date(context.start_date) : null;
+  if (
+    rent === undefined ||
+    !start ||
+    isNaN(start.getTime()) ||
+    (context.payment_frequency || 'monthly') !== 'monthly'
+  ) {
+    return { amount: rent, prorated: false };
+  }
+
+  const daysInMonth = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  const days = daysInMonth - start.getUTCDate() + 1;
+  return {
+    amount: Math.round((rent * days) / daysInMonth),
+    days,
+    prorated: days < daysInMonth,
+  };
+}
+
+// ============================================================================
+// TEMPLATE ENGINE
+// ============================================================================
+
+interface TemplateScalar {
+  text: string;
+  truthy: boolean;
+}
+
+type TemplateItem = Record<string, TemplateScalar>;
+type TemplateScope = Record<string, TemplateScalar | TemplateItem[]>;
+
+interface TemplateCondition {
+  key: string;
+  negate: boolean;
+  operator?: '==' | '!=' | 'in';
+  operand?: string;
+}
+
+interface TemplateIfNode {
+  kind: 'if';
+  line: number;
+  // A branch without a condition is the {{else}} branch
+  branches: { condition: TemplateCondition | null; body: TemplateNode[] }[];
+}
+
+interface TemplateEachNode {
+  kind: 'each';
+  key: string;
+  line: number;
+  body: TemplateNode[];
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; key: string; tag: string; line: number }
+  | TemplateIfNode
+  | TemplateEachNode;
+
+type TemplateToken =
+  | { kind: 'text'; text: string }
+  | { kind: 'tag'; body: string; tag: string; line: number };
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+const PLACEHOLDERS_BY_KEY = new Map(PLACEHOLDERS.map((p) => [p.key, p]));
+
+function isBlockTag(body: string): boolean {
+  return body.startsWith('#') || body.startsWith('/') || body === 'else' || body.startsWith('else ');
+}
+
+/**
+ * Split a template into text and {{tags}}, with the line each tag is on
+ */
+function tokenizeTemplate(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  const trailingWhitespace = /[ \t]*(?:\r?\n|$)/y;
+  let cursor = 0;
+  let line = 1;
+  let lineCountedTo = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    for (let i = lineCountedTo; i < start; i++) {
+      if (template[i] === '\n') line++;
+    }
+    lineCountedTo = start;
+
+    const body = (match[1] ?? '').trim();
+    let textEnd = start;
+    let next = end;
+
+    // A block tag alone on its line takes the whole line with it
+    if (isBlockTag(body)) {
+      const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+      trailingWhitespace.lastIndex = end;
+      const after = trailingWhitespace.exec(template);
+      if (lineStart >= cursor && /^[ \t]*$/.test(template.slice(lineStart, start)) && after) {
+        textEnd = lineStart;
+        next = end + after[0].length;
+      }
+    }
+
+    if (textEnd > cursor) tokens.push({ kind: 'text', text: template.slice(cursor, textEnd) });
+    tokens.push({ kind: 'tag', body, tag: match[0], line });
+    cursor = next;
+  }
+
+  if (cursor < template.length) tokens.push({ kind: 'text', text: template.slice(cursor) });
+  return tokens;
+}
+
+function parseCondition(
+  expression: string,
+  line: number,
+  errors: TemplateSyntaxError[]
+): TemplateCondition {
+  let match = /^(!?)\s*([A-Z][A-Z0-9_]*)$/.exec(expression);
+  if (match) return { key: match[2]!, negate: match[1] === '!' };
+
+  match = /^([A-Z][A-Z0-9_]*)\s*(==|!=)\s*"([^"]*)"$/.exec(expression);
+  if (match) {
+    return { key: match[1]!, negate: false, operator: match[2] as '==' | '!=', operand: match[3] };
+  }
+
+  match = /^([A-Z][A-Z0-9_]*)\s+in\s+"([^"]*)"$/.exec(expression);
+  if (match) return { key: match[1]!, negate: false, operator: 'in', operand: match[2] };
+
+  errors.push({
+    line,
+    message: expression
+      ? `Invalid condition "${expression}". Use NAME, !NAME, NAME == "value", NAME != "value" or NAME in "value1, value2"`
+      : '{{#if}} needs a condition, for example {{#if PETS_ALLOWED}}',
+  });
+  return { key: '', negate: false };
+}
+
+/**
+ * Parse a template into nodes. Syntax errors are collected rather than
+ * thrown; the template still renders as closely as possible to what was meant.
+ */
+function parseTemplate(template: string): { nodes: TemplateNode[]; errors: TemplateSyntaxError[] } {
+  const nodes: TemplateNode[] = [];
+  const errors: TemplateSyntaxError[] = [];
+  // Open blocks, innermost last, with the body new nodes are added to
+  const stack: { node: TemplateIfNode | TemplateEachNode; body: TemplateNode[]; hasElse: boolean }[] = [];
+  const current = () => stack[stack.length - 1]?.body ?? nodes;
+
+  for (const token of tokenizeTemplate(template)) {
+    if (token.kind === 'text') {
+      current().push(token);
+      continue;
+    }
+
+    const { body, tag, line } = token;
+    const open = stack[stack.length - 1];
+
+    if (body === '#if' || body.startsWith('#if ')) {
+      const node: TemplateIfNode = {
+        kind: 'if',
+        line,
+        branches: [{ condition: parseCondition(body.slice(3).trim(), line, errors), body: [] }],
+      };
+      current().push(node);
+      stack.push({ node, body: node.branches[0]!.body, hasElse: false });
+    } else if (body === '#each' || body.startsWith('#each ')) {
+      const key = body.slice(5).trim();
+      if (!NAME_PATTERN.test(key)) {
+        errors.push({ line, message: '{{#each}} needs a list name, for example {{#each CO_TENANTS}}' });
+      }
+      const node: TemplateEachNode = { kind: 'each', key, line, body: [] };
+      current().push(node);
+      stack.push({ node, body: node.body, hasElse: false });
+    } else if (body === 'else' || body.startsWith('else if ')) {
+      if (!open || open.node.kind !== 'if') {
+        errors.push({ line, message: `${tag} is not inside an {{#if}} block` });
+      } else if (open.hasElse) {
+        errors.push({ line, message: `${tag} comes after the {{else}} of the {{#if}} on line ${open.node.line}` });
+      } else {
+        const condition = body === 'else' ? null : parseCondition(body.slice(8).trim(), line, errors);
+        const branch = { condition, body: [] as TemplateNode[] };
+        open.node.branches.push(branch);
+        open.body = branch.body;
+        open.hasElse = condition === null;
+      }
+    } else if (body === '/if' || body === '/each') {
+      const kind = body.slice(1);
+      let index = stack.length - 1;
+      while (index >= 0 && stack[index]!.node.kind !== kind) index--;
+      if (index === -1) {
+        errors.push({ line, message: `${tag} has no matching {{#${kind}}}` });
+        continue;
+      }
+      for (const unclosed of stack.splice(index + 1)) {
+        errors.push({
+          line: unclosed.node.line,
+          message: `{{#${unclosed.node.kind}}} is not closed before ${tag} on line ${line}`,
+        });
+      }
+      stack.pop();
+    } else if (isBlockTag(body)) {
+      errors.push({ line, message: `Unknown block ${tag}. Use {{#if}}, {{else}} or {{#each}}` });
+    } else if (NAME_PATTERN.test(body)) {
+      current().push({ kind: 'value', key: body, tag, line });
+    } else {
+      errors.push({
+        line,
+        message: `Invalid placeholder ${tag}. Placeholder names use capital letters and underscores`,
+      });
+      current().push({ kind: 'text', text: tag });
+    }
+  }
+
+  for (const unclosed of stack) {
+    errors.push({
+      line: unclosed.node.line,
+      message: `{{#${unclosed.node.kind}}} is never closed with {{/${unclosed.node.kind}}}`,
+    });
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { nodes, errors };
+}
+
+function lookupValue(scopes: TemplateScope[], key: string): TemplateScalar | TemplateItem[] | undefined {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const value = scopes[i]![key];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function evaluateCondition(condition: TemplateCondition, scopes: TemplateScope[]): boolean {
+  const value = lookupValue(scopes, condition.key);
+
+  if (!condition.operator) {
+    const truthy = Array.isArray(value) ? value.length > 0 : !!value?.truthy;
+    return condition.negate ? !truthy : truthy;
+  }
+
+  const text = value && !Array.isArray(value) ? value.text.trim().toLowerCase() : '';
+  const operand = (condition.operand ?? '').trim().toLowerCase();
+  switch (condition.operator) {
+    case '==':
+      return text === operand;
+    case '!=':
+      return text !== operand;
+    case 'in':
+      return operand.split(',').map((o) => o.trim()).includes(text);
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateScope[]): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.text;
+    } else if (node.kind === 'value') {
+      const value = lookupValue(scopes, node.key);
+      // Unknown placeholders are left in place so they stand out
+      output += value && !Array.isArray(value) ? value.text : node.tag;
+    } else if (node.kind === 'if') {
+      const branch = node.branches.find(
+        (b) => b.condition === null || evaluateCondition(b.condition, scopes)
+      );
+      if (branch) output += renderNodes(branch.body, scopes);
+    } else {
+      const items = lookupValue(scopes, node.key);
+      if (Array.isArray(items)) {
+        for (const item of items) output += renderNodes(node.body, [...scopes, item]);
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Check the names used in a template against the known placeholders and,
+ * inside {{#each}} blocks, the list's item fields
+ */
+function checkTemplateNames(
+  nodes: TemplateNode[],
+  itemFields: string[][],
+  used: Set<string>,
+  unknown: Set<string>,
+  errors: TemplateSyntaxError[]
+): void {
+  const check = (key: string, line: number, usage: 'value' | 'condition' | 'list') => {
+    if (!key || itemFields.some((fields) => fields.includes(key))) return;
+    const placeholder = PLACEHOLDERS_BY_KEY.get(key);
+    if (!placeholder) {
+      unknown.add(key);
+      return;
+    }
+    used.add(key);
+    if (usage === 'value' && placeholder.type === 'list') {
+      errors.push({ line, message: `${key} is a list. Use {{#each ${key}}}...{{/each}}` });
+    } else if (usage === 'list' && placeholder.type !== 'list') {
+      errors.push({ line, message: `${key} is not a list and cannot be used in {{#each}}` });
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.kind === 'value') {
+      check(node.key, node.line, 'value');
+    } else if (node.kind === 'if') {
+      for (const branch of node.branches) {
+        if (branch.condition) check(branch.condition.key, node.line, 'condition');
+        checkTemplateNames(branch.body, itemFields, used, unknown, errors);
+      }
+    } else if (node.kind === 'each') {
+      check(node.key, node.line, 'list');
+      const fields = PLACEHOLDERS_BY_KEY.get(node.key)?.itemFields ?? [];
+      checkTemplateNames(node.body, [...itemFields, fields], used, unknown, errors);
+    }
+  }
+}
+
+/**
+ * Values for every placeholder, formatted for display. Conditions use
+ * `truthy`, so an amount of zero or an empty field counts as false.
+ */
+function buildTemplateValues(context: PlaceholderContext): TemplateScope {
+  const text = (value: string | undefined): TemplateScalar => ({ text: value || '', truthy: !!value });
+  const money = (cents: number | undefined): TemplateScalar => ({
+    text: formatCurrency(cents),
+    truthy: !!cents,
+  });
+  const count = (value: number | undefined): TemplateScalar => ({
+    text: value?.toString() || '',
+    truthy: !!value,
+  });
+  const flag = (value: boolean): TemplateScalar => ({ text: value ? 'Yes' : 'No', truthy: value });
+
+  const coTenants = context.co_tenants || [];
+  const charges = context.additional_charges || [];
+  const chargeTotal = (frequency: AgreementAdditionalCharge['frequency']) =>
+    charges.filter((c) => c.frequency === frequency).reduce((sum, c) => sum + (c.amount || 0), 0);
+
+  const firstMonth = prorateFirstMonth(context);
+  const petsAllowed = !!context.pets_allowed;
+  const totalDeposit = (context.security_deposit || 0) + (petsAllowed ? context.pet_deposit || 0 : 0);
+
+  return {
+    // Landlord/Business
+    LANDLORD_NAME: text(context.landlord_name),
+    LANDLORD_EMAIL: text(context.landlord_email),
+    LANDLORD_PHONE: text(context.landlord_phone),
+    BUSINESS_NAME: text(context.business_name),
+
+    // Tenant
+    TENANT_NAME: text(context.tenant_name),
+    TENANT_FIRST_NAME: text(context.tenant_first_name),
+    TENANT_LAST_NAME: text(context.tenant_last_name),
+    TENANT_EMAIL: text(context.tenant_email),
+    TENANT_PHONE: text(context.tenant_phone),
+    CO_TENANTS: coTenants.map((tenant, index) => ({
+      NAME: text(tenant.name),
+      EMAIL: text(tenant.email),
+      PHONE: text(tenant.phone),
+      INDEX: count(index + 1),
+    })),
+    CO_TENANT_NAMES: text(joinNames(coTenants.map((t) => t.name))),
+
+    // Property
+    PROPERTY_NAME: text(context.property_name),
+    PROPERTY_ADDRESS: text(context.property_address),
+    PROPERTY_CITY: text(context.property_city),
+    PROPERTY_STATE: text(context.property_state),
+    PROPERTY_POSTAL_CODE: text(context.property_postal_code),
+    PROPERTY_COUNTRY: text(context.property_country),
+    UNIT_NUMBER: text(context.unit_number),
+    BEDROOMS: count(context.bedrooms),
+    BATHROOMS: count(context.bathrooms),
+    SQUARE_FEET: count(context.square_feet),
+
+    // Lease Terms
+    START_DATE: text(formatDate(context.start_date)),
+    END_DATE: text(formatDate(context.end_date)),
+    RENT_AMOUNT: money(context.rent_amount),
+    SECURITY_DEPOSIT: money(context.security_deposit),
+    PAYMENT_FREQUENCY: text(context.payment_frequency || 'monthly'),
+    LEASE_TERM_MONTHS: count(context.lease_term_months),
+    PAYMENT_DUE_DAY: text(formatDayWithOrdinal(context.payment_due_day)),
+    LATE_FEE_AMOUNT: money(context.late_fee_amount),
+    LATE_FEE_GRACE_DAYS: count(context.late_fee_grace_days),
+    PETS_ALLOWED: flag(petsAllowed),
+    PET_DEPOSIT: money(context.pet_deposit),
+    ADDITIONAL_CHARGES: charges.map((charge, index) => ({
+      NAME: text(charge.name),
+      AMOUNT: money(charge.amount),
+      FREQUENCY: text(charge.frequency === 'one_time' ? 'one-time' : 'monthly'),
+      INDEX: count(index + 1),
+    })),
+
+    // Computed
+    PRORATED_FIRST_MONTH: money(firstMonth.amount),
+    PRORATED_DAYS: count(firstMonth.days),
+    FIRST_MONTH_PRORATED: flag(firstMonth.prorated),
+    TOTAL_DEPOSIT: money(totalDeposit),
+    TOTAL_MONTHLY_CHARGES: money((context.rent_amount || 0) + chargeTotal('monthly')),
+    MOVE_IN_TOTAL: money((firstMonth.amount || 0) + totalDeposit + chargeTotal('one_time')),
+
+    // Policies
+    PET_POLICY: text(context.pet_policy),
+    HOUSE_RULES: text(context.house_rules),
+    PARKING_DETAILS: text(context.parking_details),
+    MAX_OCCUPANTS: count(context.max_occupants),
+
+    // Dates
+    CURRENT_DATE: text(formatDate(context.current_date || new Date().toISOString())),
+    SIGNATURE_DEADLINE: text(formatDate(context.signature_deadline)),
+  };
+}
+
 export const agreementPlaceholderService = {
   /**
    * Get all available placeholders grouped by category
@@ -356,112 +937,60 @@ export const agreementPlaceholderService = {
   },
 
   /**
-   * Get the placeholder syntax for inserting into template
+   * Get the placeholder syntax for inserting into template. Flags insert an
+   * {{#if}} block and lists an {{#each}} block.
    */
   getPlaceholderSyntax(key: string): string {
+    const placeholder = PLACEHOLDERS_BY_KEY.get(key);
+    if (placeholder?.type === 'flag') {
+      return `{{#if ${key}}}\n\n{{/if}}`;
+    }
+    if (placeholder?.type === 'list') {
+      return `{{#each ${key}}}\n{{${placeholder.itemFields?.[0] ?? 'INDEX'}}}\n{{/each}}`;
+    }
     return `{{${key}}}`;
   },
 
   /**
-   * Substitute all placeholders in a template with actual values
+   * Substitute all placeholders in a template with actual values, including
+   * {{#if}} and {{#each}} blocks and computed amounts
    */
   substitutePlaceholders(template: string, context: PlaceholderContext): string {
-    let result = template;
-
-    // Build substitution map
-    const substitutions: Record<string, string> = {
-      // Landlord/Business
-      LANDLORD_NAME: context.landlord_name || '',
-      LANDLORD_EMAIL: context.landlord_email || '',
-      LANDLORD_PHONE: context.landlord_phone || '',
-      BUSINESS_NAME: context.business_name || '',
-
-      // Tenant
-      TENANT_NAME: context.tenant_name || '',
-      TENANT_FIRST_NAME: context.tenant_first_name || '',
-      TENANT_LAST_NAME: context.tenant_last_name || '',
-      TENANT_EMAIL: context.tenant_email || '',
-      TENANT_PHONE: context.tenant_phone || '',
-
-      // Property
-      PROPERTY_NAME: context.property_name || '',
-      PROPERTY_ADDRESS: context.property_address || '',
-      UNIT_NUMBER: context.unit_number || '',
-      BEDROOMS: context.bedrooms?.toString() || '',
-      BATHROOMS: context.bathrooms?.toString() || '',
-      SQUARE_FEET: context.square_feet?.toString() || '',
-
-      // Lease Terms
-      START_DATE: formatDate(context.start_date),
-      END_DATE: formatDate(context.end_date),
-      RENT_AMOUNT: formatCurrency(context.rent_amount),
-      SECURITY_DEPOSIT: formatCurrency(context.security_deposit),
-      PAYMENT_FREQUENCY: context.payment_frequency || 'monthly',
-      LEASE_TERM_MONTHS: context.lease_term_months?.toString() || '',
-      PAYMENT_DUE_DAY: formatDayWithOrdinal(context.payment_due_day),
-      LATE_FEE_AMOUNT: formatCurrency(context.late_fee_amount),
-      LATE_FEE_GRACE_DAYS: context.late_fee_grace_days?.toString() || '',
-
-      // Policies
-      PET_POLICY: context.pet_policy || '',
-      HOUSE_RULES: context.house_rules || '',
-      PARKING_DETAILS: context.parking_details || '',
-      MAX_OCCUPANTS: context.max_occupants?.toString() || '',
-
-      // Dates
-      CURRENT_DATE: formatDate(context.current_date || new Date().toISOString()),
-      SIGNATURE_DEADLINE: formatDate(context.signature_deadline),
-    };
-
-    // Replace all placeholders
-    for (const [key, value] of Object.entries(substitutions)) {
-      const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-      result = result.replace(regex, value);
-    }
-
-    return result;
+    const { nodes } = parseTemplate(template);
+    return renderNodes(nodes, [buildTemplateValues(context)]);
   },
 
   /**
-   * Validate that all placeholders in a template are recognized
-   * Returns list of unknown placeholders if any
+   * Validate the template syntax and that all placeholders are recognized.
+   * Returns syntax errors with their line numbers and the list of unknown
+   * placeholders, if any
    */
   validateTemplatePlaceholders(template: string): {
     valid: boolean;
+    errors: TemplateSyntaxError[];
     unknownPlaceholders: string[];
     usedPlaceholders: string[];
   } {
-    const placeholderRegex = /\{\{([A-Z_]+)\}\}/g;
-    const validKeys = new Set(PLACEHOLDERS.map((p) => p.key));
-    const unknownPlaceholders: string[] = [];
-    const usedPlaceholders: string[] = [];
-
-    let match;
-    while ((match = placeholderRegex.exec(template)) !== null) {
-      const key = match[1];
-      if (!key) continue;
-      if (validKeys.has(key)) {
-        if (!usedPlaceholders.includes(key)) {
-          usedPlaceholders.push(key);
-        }
-      } else {
-        if (!unknownPlaceholders.includes(key)) {
-          unknownPlaceholders.push(key);
-        }
-      }
-    }
+    const { nodes, errors } = parseTemplate(template);
+    const used = new Set<string>();
+    const unknown = new Set<string>();
+    const nameErrors: TemplateSyntaxError[] = [];
+    checkTemplateNames(nodes, [], used, unknown, nameErrors);
 
+    const allErrors = [...errors, ...nameErrors].sort((a, b) => a.line - b.line);
     return {
-      valid: unknownPlaceholders.length === 0,
-      unknownPlaceholders,
-      usedPlaceholders,
+      valid: allErrors.length === 0 && unknown.size === 0,
+      errors: allErrors,
+      unknownPlaceholders: [...unknown],
+      usedPlaceholders: [...used],
     };
   },
 
   /**
-   * Get a preview of the template with sample data
+   * Get a preview of the template with sample data, optionally overriding
+   * parts of it (such as the template's own pet and charge settings)
    */
-  getPreviewWithSampleData(template: string): string {
+  getPreviewWithSampleData(template: string, overrides: Partial<PlaceholderContext> = {}): string {
     const sampleContext: PlaceholderContext = {
       landlord_name: 'John Smith',
       landlord_email: 'landlord@example.com',
@@ -469,6 +998,11 @@ export const agreementPlaceholderService = {
       business_name: 'Smith Property Management',
       property_name: 'Maple Grove Apartments',
       property_address: '123 Main Street, Unit 4B, Toronto, ON M5V 1A1',
+      property_address_line1: '123 Main Street',
+      property_city: 'Toronto',
+      property_state: 'ON',
+      property_postal_code: 'M5V 1A1',
+      property_country: 'CA',
       unit_number: '4B',
       bedrooms: 2,
       bathrooms: 1,
@@ -478,6 +1012,7 @@ export const agreementPlaceholderService = {
       tenant_last_name: 'Doe',
       tenant_email: 'tenant@example.com',
       tenant_phone: '(555) 987-6543',
+      co_tenants: [{ name: 'John Doe', email: 'john@example.com', phone: '(555) 987-6544' }],
       start_date: new Date().toISOString(),
       end_date: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
       rent_amount: 150000, // $1,500.00
@@ -487,7 +1022,13 @@ export const agreementPlaceholderService = {
       payment_due_day: 1,
       late_fee_amount: 5000, // $50.00
       late_fee_grace_days: 5,
-      pet_policy: 'No pets allowed',
+      pets_allowed: true,
+      pet_deposit: 30000, // $300.00
+      additional_charges: [
+        { name: 'Parking', amount: 7500, frequency: 'monthly' },
+        { name: 'Key deposit', amount: 5000, frequency: 'one_time' },
+      ],
+      pet_policy: 'One cat or small dog allowed',
       house_rules: 'Quiet hours 10pm-7am. No smoking indoors.',
       parking_details: 'One assigned parking spot included',
       max_occupants: 4,
@@ -495,7 +1036,7 @@ export const agreementPlaceholderService = {
       signature_deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
     };
 
-    return this.substitutePlaceholders(template, sampleContext);
+    return this.substitutePlaceholders(template, { ...sampleContext, ...overrides });
   },
 
   /**
@@ -504,7 +1045,7 @@ export const agreementPlaceholderService = {
    */
   highlightPlaceholders(template: string): string {
     return template.replace(
-      /\{\{([A-Z_]+)\}\}/g,
+      /\{\{([^{}]+)\}\}/g,
       '<span class="bg-blue-100 text-blue-800 px-1 rounded font-mono text-sm">{{$1}}</span>'
     );
   },
@@ -518,6 +1059,7 @@ export const agreementPlaceholderService = {
     property?: any;
     unit?: any;
     tenant?: any;
+    coTenants?: any[];
     application?: any;
     leaseDetails?: {
       start_date: string;
@@ -525,11 +1067,23 @@ export const agreementPlaceholderService = {
       rent_amount: number;
       security_deposit?: number;
       payment_due_day?: number;
+      pets_allowed?: boolean;
+      pet_deposit?: number;
+      additional_charges?: AgreementAdditionalCharge[];
     };
     template?: any;
   }): PlaceholderContext {
-    const { business, businessOwner, property, unit, tenant, application, leaseDetails, template } =
-      data;
+    const {
+      business,
+      businessOwner,
+      property,
+      unit,
+      tenant,
+      coTenants,
+      application,
+      leaseDetails,
+      template,
+    } = data;
 
     // Build property address
     let propertyAddress = '';
@@ -576,6 +1130,7 @@ export const agreementPlaceholderService = {
       property_city: property?.city || '',
       property_state: property?.state || '',
       property_postal_code: property?.postal_code || '',
+      property_country: property?.country || '',
       unit_number: unit?.unit_number || '',
       bedrooms: unit?.bedrooms,
       bathrooms: unit?.bathrooms,
@@ -587,6 +1142,11 @@ export const agreementPlaceholderService = {
       tenant_last_name: tenantLastName,
       tenant_email: tenantEmail,
       tenant_phone: tenantPhone,
+      co_tenants: (coTenants || []).map((t) => ({
+        name: `${t.first_name || ''} ${t.last_name || ''}`.trim(),
+        email: t.email || undefined,
+        phone: t.phone || undefined,
+      })),
 
       // Lease terms
       start_date: leaseDetails?.start_date,
@@ -598,6 +1158,9 @@ export const agreementPlaceholderService = {
       payment_due_day: leaseDetails?.payment_due_day || 1,
       late_fee_amount: template?.late_fee_amount,
       late_fee_grace_days: template?.late_fee_grace_days || 5,
+      pets_allowed: leaseDetails?.pets_allowed ?? template?.pets_allowed ?? false,
+      pet_deposit: leaseDetails?.pet_deposit ?? template?.default_pet_deposit,
+      additional_charges: leaseDetails?.additional_charges ?? template?.additional_charges ?? [],
 
       // Policies from template
       pet_policy: template?.pet_policy,
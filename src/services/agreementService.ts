@@ -1,9 +1,12 @@
 import { supabase } from '../lib/supabase';
 import {
   agreementPlaceholderService,
+  AgreementAdditionalCharge,
   PlaceholderContext,
 } from './agreementPlaceholderService';
 import { emailService } from './emailService';
+import { pdfGenerationService } from './pdfGenerationService';
+import { sha256Hex } from '../utils/crypto';
 
 export interface AgreementTemplate {
   id: string;
@@ -22,6 +25,9 @@ export interface AgreementTemplate {
   default_security_deposit?: number; // in cents
   payment_frequency: 'daily' | 'weekly' | 'bi-weekly' | 'monthly';
   pet_policy?: string;
+  pets_allowed: boolean;
+  default_pet_deposit?: number; // in cents
+  additional_charges: AgreementAdditionalCharge[];
   house_rules?: string;
   cancellation_policy?: string;
   damage_policy?: string;
@@ -81,19 +87,70 @@ export interface LeaseAgreement {
   tenant_signed_at?: string;
   pdf_url?: string;
   signed_pdf_url?: string;
+  content_hash?: string; // SHA-256 of final_content when executed
+  signed_pdf_path?: string; // In the signed-agreements storage bucket
+  signed_pdf_hash?: string;
+  signed_pdf_generated_at?: string;
   auto_sent_on_approval?: boolean;
   reminder_sent_at?: string;
   reminder_count: number;
+  // Amendments point at the original agreement and are numbered from 1
+  parent_agreement_id?: string;
+  amendment_number?: number;
+  amendment_type?: LeaseAmendmentType;
+  amendment_changes?: LeaseAmendmentChanges;
+  amendment_effective_date?: string;
+  amendment_applied_at?: string; // When the executed amendment updated the lease
   created_by: string;
   created_at: string;
   updated_at: string;
 }
 
+export type AgreementSignerRole = 'landlord' | 'tenant' | 'co_tenant' | 'guarantor' | 'witness';
+
+export const AGREEMENT_SIGNER_ROLE_LABELS: Record<AgreementSignerRole, string> = {
+  landlord: 'Landlord',
+  tenant: 'Tenant',
+  co_tenant: 'Co-tenant',
+  guarantor: 'Guarantor',
+  witness: 'Witness',
+};
+
+export interface AgreementSigner {
+  id: string;
+  agreement_id: string;
+  role: AgreementSignerRole;
+  name: string;
+  email: string;
+  tenant_id?: string;
+  signing_order: number; // Same order = parallel; lower orders sign first
+  is_required: boolean;
+  signing_token: string;
+  invited_at?: string;
+  viewed_at?: string;
+  signed_at?: string;
+  signature_id?: string;
+  last_reminded_at?: string;
+  reminder_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AgreementSignerInput {
+  id?: string;
+  role: AgreementSignerRole;
+  name: string;
+  email: string;
+  tenant_id?: string;
+  signing_order: number;
+  is_required: boolean;
+}
+
 export interface AgreementSignature {
   id: string;
   agreement_id: string;
   signer_id?: string;
-  signer_type: 'landlord' | 'tenant' | 'guarantor' | 'witness';
+  signer_type: AgreementSignerRole;
   signer_name: string;
   signer_email: string;
   signer_ip?: string;
@@ -104,6 +161,7 @@ export interface AgreementSignature {
   consent_agreed: boolean;
   user_agent?: string;
   device_info?: any;
+  content_hash?: string; // SHA-256 of final_content at the time of signing
   created_at: string;
 }
 
@@ -124,6 +182,115 @@ export interface AgreementAuditLog {
   created_at: string;
 }
 
+export interface AgreementSigningSession {
+  agreement: LeaseAgreement;
+  // The signer the visitor signs as, from their signing link or login
+  signer: (Pick<AgreementSigner, 'id' | 'role' | 'name' | 'email' | 'signing_order' | 'is_required' | 'viewed_at' | 'signed_at'> & {
+    waiting_on: string | null; // Required signers who must sign first
+  }) | null;
+  signers: Pick<AgreementSigner, 'id' | 'role' | 'name' | 'signing_order' | 'is_required' | 'viewed_at' | 'signed_at'>[];
+  // signature_data is only sent for the visitor's own signature
+  signatures: Pick<AgreementSignature, 'id' | 'signer_type' | 'signer_name' | 'signature_method' | 'signature_data' | 'signed_at' | 'content_hash'>[];
+}
+
+export type AgreementIntegrityStatus = 'intact' | 'tampered' | 'unverified' | 'unsigned';
+
+export interface AgreementVerification {
+  agreement_id: string;
+  agreement_title: string;
+  agreement_status: LeaseAgreement['status'];
+  executed_at?: string;
+  // 'unverified' when a signature predates content hashing
+  status: AgreementIntegrityStatus;
+  is_intact: boolean;
+  content_hash: string;
+  executed_content_hash?: string;
+  signatures: {
+    signer_type: AgreementSignature['signer_type'];
+    signer_name: string;
+    signed_at: string;
+    content_hash?: string;
+    matches: boolean | null;
+  }[];
+  signed_pdf_hash?: string;
+  document_hash?: string;
+  // Null when no document was checked or no signed PDF is on file
+  document_matches: boolean | null;
+  verified_at: string;
+}
+
+export type LeaseAmendmentType = 'rent_change' | 'add_occupant' | 'pet_addendum' | 'term_extension';
+
+export const LEASE_AMENDMENT_TYPE_LABELS: Record<LeaseAmendmentType, string> = {
+  rent_change: 'Rent Change',
+  add_occupant: 'Add Occupant',
+  pet_addendum: 'Pet Addendum',
+  term_extension: 'Term Extension',
+};
+
+// What an amendment changes; which fields apply depends on the type. Amounts
+// are in cents. The server fills in previous_rent_cents and previous_end_date.
+export interface LeaseAmendmentChanges {
+  effective_date?: string; // Not used by term extensions, which start after the current end date
+  // rent_change
+  monthly_rent_cents?: number | null; // Also the rent for a term extension, if it changes
+  previous_rent_cents?: number;
+  reason?: string | null;
+  // add_occupant
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string | null;
+  occupant_type?: 'occupant' | 'co_tenant'; // Co-tenants also sign the amendment
+  // pet_addendum
+  pet_description?: string;
+  pet_deposit_cents?: number;
+  monthly_pet_rent_cents?: number;
+  // term_extension
+  new_end_date?: string;
+  previous_end_date?: string;
+}
+
+export interface LeaseAmendmentInput {
+  type: LeaseAmendmentType;
+  changes: LeaseAmendmentChanges;
+  signatureDeadline?: string;
+  autoSend?: boolean;
+}
+
+export interface AgreementHistoryEntry {
+  id: string;
+  version: number; // The original agreement is version 1
+  amendment_number: number | null;
+  amendment_type: LeaseAmendmentType | null;
+  amendment_changes: LeaseAmendmentChanges | null;
+  amendment_effective_date: string | null;
+  amendment_applied_at: string | null;
+  agreement_title: string;
+  status: LeaseAgreement['status'];
+  start_date: string;
+  end_date: string;
+  rent_amount: number;
+  created_at: string;
+  sent_at: string | null;
+  executed_at: string | null;
+  content_hash: string | null;
+  signing_token: string | null; // The viewer's own signing link for this document
+}
+
+function formatAmendmentCents(cents: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+}
+
+function formatAmendmentDate(date: string): string {
+  // Date-only strings are parsed as local dates so they don't shift a day
+  return new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
 class AgreementService {
   async createTemplate(template: Partial<AgreementTemplate>): Promise<AgreementTemplate> {
     const { data, error } = await supabase
@@ -392,24 +559,93 @@ class AgreementService {
 
   async signAgreement(
     agreementId: string,
-    signerType: 'landlord' | 'tenant',
+    signerType: AgreementSignerRole,
     signatureData: string,
-    signatureMethod: 'digital' | 'typed' | 'esign_service' = 'digital'
+    signatureMethod: 'digital' | 'typed' | 'esign_service' = 'digital',
+    reviewedContent?: string
   ): Promise<void> {
-    // TODO: SECURITY - Implement signature integrity verification
-    // 1. Hash the agreement content at time of signing to detect tampering
-    // 2. Store hash with signature for later verification
-    // 3. Consider using a third-party e-signature service (DocuSign, HelloSign)
-    //    for legally binding signatures with audit trails
-    // 4. Implement timestamp from a trusted time source
-    const { error } = await supabase.rpc('sign_agreement', {
+    // The server hashes final_content itself and rejects the signature if it
+    // no longer matches what the signer reviewed. IP, user agent and the
+    // signing time are taken from the request on the server.
+    const { data, error } = await supabase.rpc('sign_agreement', {
       p_agreement_id: agreementId,
       p_signer_type: signerType,
       p_signature_data: signatureData,
-      p_signature_method: signatureMethod
+      p_signature_method: signatureMethod,
+      p_content_hash: reviewedContent !== undefined ? await sha256Hex(reviewedContent) : null,
     });
 
     if (error) throw error;
+    await this.afterSigning(agreementId, data?.status);
+  }
+
+  async signAsSigner(
+    agreementId: string,
+    signingToken: string | undefined,
+    signatureData: string,
+    signatureMethod: 'digital' | 'typed' | 'esign_service',
+    reviewedContent: string
+  ): Promise<void> {
+    const { data, error } = await supabase.rpc('sign_agreement_as_signer', {
+      p_agreement_id: agreementId,
+      p_token: signingToken ?? null,
+      p_signature_data: signatureData,
+      p_signature_method: signatureMethod,
+      p_content_hash: await sha256Hex(reviewedContent),
+    });
+
+    if (error) throw error;
+    await this.afterSigning(agreementId, data?.status, signingToken);
+  }
+
+  async afterSigning(agreementId: string, status?: string, signingToken?: string): Promise<void> {
+    if (status !== 'executed') return;
+
+    try {
+      await this.generateSignedPdf(agreementId, signingToken);
+    } catch (pdfError) {
+      // The agreement is executed either way; the signed PDF is generated on the next download
+      console.error('Error generating signed PDF:', pdfError);
+    }
+  }
+
+  async getSigningSession(agreementId: string, signingToken?: string): Promise<AgreementSigningSession> {
+    const { data, error } = await supabase.rpc('get_agreement_signing_session', {
+      p_agreement_id: agreementId,
+      p_token: signingToken ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async verifyAgreement(agreementId: string, documentHash?: string): Promise<AgreementVerification> {
+    const { data, error } = await supabase.rpc('verify_agreement_integrity', {
+      p_agreement_id: agreementId,
+      p_document_hash: documentHash ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // The signed PDF is built, hashed and stored on the server the first time
+  // it is requested. Returns a download URL that expires after a few minutes.
+  async generateSignedPdf(agreementId: string, signingToken?: string): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('generate-signed-agreement-pdf', {
+      body: { agreement_id: agreementId, signing_token: signingToken },
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Failed to generate the signed PDF');
+    return data.url;
+  }
+
+  async downloadSignedPdf(agreement: LeaseAgreement, signingToken?: string): Promise<void> {
+    const pdfUrl = await this.generateSignedPdf(agreement.id, signingToken);
+    const blob = await (await fetch(pdfUrl)).blob();
+    const filename = `signed-lease-agreement-${agreement.tenant_name.replace(/\s+/g, '-')}.pdf`;
+    pdfGenerationService.downloadPDF(blob, filename);
   }
 
   async getSignatures(agreementId: string): Promise<AgreementSignature[]> {
@@ -449,7 +685,7 @@ class AgreementService {
     const { data, error } = await supabase
       .from('lease_agreements')
       .select('*')
-      .in('status', ['sent', 'viewed'])
+      .in('status', ['sent', 'viewed', 'signed'])
       .order('sent_at', { ascending: false });
 
     if (error) throw error;
@@ -480,6 +716,271 @@ class AgreementService {
     return data || [];
   }
 
+  // ============================================================================
+  // SIGNER METHODS
+  // ============================================================================
+
+  async getSigners(agreementId: string): Promise<AgreementSigner[]> {
+    const { data, error } = await supabase
+      .from('agreement_signers')
+      .select('*')
+      .eq('agreement_id', agreementId)
+      .order('signing_order')
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async setSigners(agreementId: string, signers: AgreementSignerInput[]): Promise<void> {
+    const { error } = await supabase.rpc('set_agreement_signers', {
+      p_agreement_id: agreementId,
+      p_signers: signers,
+    });
+
+    if (error) throw error;
+  }
+
+  getSigningUrl(agreementId: string, signer: Pick<AgreementSigner, 'signing_token'>): string {
+    return `${window.location.origin}/agreement/${agreementId}?signer=${signer.signing_token}`;
+  }
+
+  // Unsigned signers whose turn it is: everyone up to the earliest group
+  // that still has a required signer outstanding
+  getSignersDue<T extends Pick<AgreementSigner, 'signing_order' | 'is_required' | 'signed_at'>>(signers: T[]): T[] {
+    const outstanding = signers.filter(s => s.is_required && !s.signed_at);
+    if (outstanding.length === 0) return [];
+    const currentOrder = Math.min(...outstanding.map(s => s.signing_order));
+    return signers.filter(s => !s.signed_at && s.signing_order <= currentOrder);
+  }
+
+  async sendSigningInvitations(agreementId: string): Promise<number> {
+    const { data: agreement, error } = await supabase
+      .from('lease_agreements')
+      .select('*')
+      .eq('id', agreementId)
+      .single();
+
+    if (error) throw error;
+    const signers = await this.getSigners(agreementId);
+
+    let sent = 0;
+    for (const signer of this.getSignersDue(signers).filter(s => !s.invited_at)) {
+      if (await this.emailSigner(agreement, signer, false)) {
+        await supabase
+          .from('agreement_signers')
+          .update({ invited_at: new Date().toISOString() })
+          .eq('id', signer.id);
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  async sendSignerReminder(agreement: LeaseAgreement, signer: AgreementSigner): Promise<void> {
+    if (!(await this.emailSigner(agreement, signer, true))) {
+      throw new Error(`Failed to send the reminder to ${signer.email}`);
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('agreement_signers')
+      .update({
+        invited_at: signer.invited_at || now,
+        last_reminded_at: now,
+        reminder_count: signer.reminder_count + 1,
+      })
+      .eq('id', signer.id);
+
+    if (error) throw error;
+
+    const { error: agreementError } = await supabase
+      .from('lease_agreements')
+      .update({ reminder_sent_at: now, reminder_count: (agreement.reminder_count || 0) + 1 })
+      .eq('id', agreement.id);
+
+    if (agreementError) throw agreementError;
+  }
+
+  async emailSigner(agreement: LeaseAgreement, signer: AgreementSigner, isReminder: boolean): Promise<boolean> {
+    try {
+      const result = await emailService.sendAgreementSignerInvitation(signer.email, {
+        signerName: signer.name,
+        roleLabel: AGREEMENT_SIGNER_ROLE_LABELS[signer.role].toLowerCase(),
+        landlordName: agreement.landlord_name,
+        propertyAddress: agreement.property_address,
+        agreementTitle: agreement.agreement_title,
+        signingUrl: this.getSigningUrl(agreement.id, signer),
+        signatureDeadline: agreement.signature_deadline,
+        isReminder,
+      });
+
+      if (!result.success) {
+        console.warn(`Signing email to ${signer.email} for agreement ${agreement.id} failed: ${result.message}`);
+      }
+      return result.success;
+    } catch (emailError) {
+      // Log but don't fail the operation; the scheduled job retries invitations
+      console.error(`Failed to send signing email for ${agreement.id}:`, emailError);
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // AMENDMENT METHODS
+  // ============================================================================
+
+  async getAmendments(agreementId: string): Promise<LeaseAgreement[]> {
+    const { data, error } = await supabase
+      .from('lease_agreements')
+      .select('*')
+      .eq('parent_agreement_id', agreementId)
+      .order('amendment_number');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Get the original agreement and its amendments, oldest first, from any
+   * document in the family (by login or signing link)
+   */
+  async getAgreementHistory(agreementId: string, signingToken?: string): Promise<AgreementHistoryEntry[]> {
+    const { data, error } = await supabase.rpc('get_agreement_history', {
+      p_agreement_id: agreementId,
+      p_token: signingToken ?? null,
+    });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Describe an amendment's changes, one sentence each
+   */
+  describeAmendment(type: LeaseAmendmentType, changes: LeaseAmendmentChanges): string[] {
+    const effective = changes.effective_date ? `Effective ${formatAmendmentDate(changes.effective_date)}, ` : '';
+
+    switch (type) {
+      case 'rent_change':
+        return [
+          `${effective}the monthly rent is ${formatAmendmentCents(changes.monthly_rent_cents ?? 0)}.`,
+          ...(changes.reason ? [`Reason for the change: ${changes.reason}.`] : []),
+        ];
+      case 'term_extension':
+        return [
+          `The term of the Agreement is extended to end on ${formatAmendmentDate(changes.new_end_date ?? '')}.`,
+          ...(changes.monthly_rent_cents
+            ? [`For the extended term, the monthly rent is ${formatAmendmentCents(changes.monthly_rent_cents)}.`]
+            : []),
+        ];
+      case 'add_occupant': {
+        const name = `${changes.first_name ?? ''} ${changes.last_name ?? ''}`.trim();
+        return changes.occupant_type === 'co_tenant'
+          ? [`${effective}${name} is added as a co-tenant and is jointly responsible with the Tenant for all obligations under the Agreement.`]
+          : [`${effective}${name} is added as an authorized occupant of the property.`];
+      }
+      case 'pet_addendum':
+        return [
+          `${effective}the Tenant may keep the following pet at the property: ${changes.pet_description ?? ''}.`,
+          ...(changes.pet_deposit_cents
+            ? [`The Tenant will pay a pet deposit of ${formatAmendmentCents(changes.pet_deposit_cents)}.`]
+            : []),
+          ...(changes.monthly_pet_rent_cents
+            ? [`Pet rent of ${formatAmendmentCents(changes.monthly_pet_rent_cents)} per month is added to the rent.`]
+            : []),
+          'The Tenant is responsible for any damage or disturbance caused by the pet.',
+        ];
+    }
+  }
+
+  /**
+   * Build the text of an amendment to an original agreement
+   */
+  buildAmendmentContent(
+    original: LeaseAgreement,
+    amendmentNumber: number,
+    type: LeaseAmendmentType,
+    changes: LeaseAmendmentChanges
+  ): string {
+    const executed = original.executed_at ? ` executed on ${formatAmendmentDate(original.executed_at)}` : '';
+    const earlier = amendmentNumber > 1 ? ', as amended by any earlier amendments' : '';
+    const clauses = this.describeAmendment(type, changes)
+      .map((sentence, index) => `${index + 1}. ${sentence}`)
+      .join('\n');
+
+    return [
+      `AMENDMENT NO. ${amendmentNumber} TO ${original.agreement_title.toUpperCase()}`,
+      `${LEASE_AMENDMENT_TYPE_LABELS[type]}`,
+      `This amendment is made between ${original.landlord_name} ("Landlord") and ${original.tenant_name} ("Tenant") ` +
+        `for the property at ${original.property_address}. It amends the agreement "${original.agreement_title}"` +
+        `${executed}${earlier} (the "Agreement").`,
+      `The parties agree as follows:\n\n${clauses}`,
+      'Except as changed by this amendment, all terms of the Agreement remain in full force and effect. ' +
+        'If this amendment conflicts with the Agreement, this amendment controls.',
+    ].join('\n\n');
+  }
+
+  /**
+   * Create an amendment of an executed agreement. The original agreement's
+   * signers sign it (with a new co-tenant), and once executed it updates the
+   * lease and its payment schedule.
+   */
+  async createAmendment(agreement: LeaseAgreement, input: LeaseAmendmentInput): Promise<LeaseAgreement> {
+    // Amendments are always filed under the original agreement
+    const original = agreement.parent_agreement_id
+      ? await this.getAgreement(agreement.parent_agreement_id)
+      : agreement;
+    const amendments = await this.getAmendments(original.id);
+    const amendmentNumber = Math.max(0, ...amendments.map(a => a.amendment_number ?? 0)) + 1;
+
+    const { data: amendment, error } = await supabase.rpc('create_lease_amendment', {
+      p_agreement_id: original.id,
+      p_amendment_type: input.type,
+      p_changes: input.changes,
+      p_amendment_number: amendmentNumber,
+      p_final_content: this.buildAmendmentContent(original, amendmentNumber, input.type, input.changes),
+      p_signature_deadline: input.signatureDeadline ?? null,
+    });
+
+    if (error) throw error;
+
+    const signers: AgreementSignerInput[] = (await this.getSigners(original.id)).map(s => ({
+      role: s.role,
+      name: s.name,
+      email: s.email,
+      tenant_id: s.tenant_id,
+      signing_order: s.signing_order,
+      is_required: s.is_required,
+    }));
+
+    const { changes } = input;
+    if (
+      input.type === 'add_occupant' &&
+      changes.occupant_type === 'co_tenant' &&
+      changes.email &&
+      !signers.some(s => s.email.toLowerCase() === changes.email!.toLowerCase())
+    ) {
+      signers.push({
+        role: 'co_tenant',
+        name: `${changes.first_name ?? ''} ${changes.last_name ?? ''}`.trim(),
+        email: changes.email,
+        signing_order: signers.find(s => s.role === 'tenant')?.signing_order ?? 1,
+        is_required: true,
+      });
+    }
+
+    if (signers.some(s => s.role === 'landlord') && signers.some(s => s.role === 'tenant')) {
+      await this.setSigners(amendment.id, signers);
+    }
+
+    if (input.autoSend) {
+      await this.sendAgreementToTenant(amendment.id);
+    }
+
+    return amendment;
+  }
+
   // ============================================================================
   // UNIT TEMPLATE ASSIGNMENT METHODS
   // ============================================================================
@@ -553,6 +1054,8 @@ class AgreementService {
       securityDeposit?: number; // in cents
       paymentDueDay?: number;
       autoSend?: boolean;
+      // Defaults to the landlord and tenant signing in parallel
+      signers?: AgreementSignerInput[];
     }
   ): Promise<LeaseAgreement> {
     // Get the template
@@ -634,6 +1137,10 @@ class AgreementService {
 
     if (error) throw error;
 
+    if (options.signers) {
+      await this.setSigners(data.id, options.signers);
+    }
+
     // If auto-send is enabled, send immediately
     if (options.autoSend && data.id) {
       await this.sendAgreementToTenant(data.id);
@@ -643,47 +1150,18 @@ class AgreementService {
   }
 
   /**
-   * Send an agreement to the tenant (updates status to 'sent' and sends email)
+   * Send an agreement for signing (updates status to 'sent' and emails each
+   * signer whose turn it is their signing link)
    */
   async sendAgreementToTenant(agreementId: string): Promise<void> {
-    // First get the agreement details for the email
-    const { data: agreement, error: fetchError } = await supabase
-      .from('lease_agreements')
-      .select('id, tenant_name, tenant_email, landlord_name, property_address, agreement_title, signature_deadline')
-      .eq('id', agreementId)
-      .single();
-
-    if (fetchError) throw fetchError;
-    if (!agreement) throw new Error('Agreement not found');
-
-    // Update the status to 'sent'
     const { error } = await supabase.rpc('send_agreement_to_tenant', {
       p_agreement_id: agreementId,
     });
 
     if (error) throw error;
 
-    // Send email notification to tenant
-    try {
-      const emailResult = await emailService.sendAgreementSigningEmail(
-        agreement.tenant_email,
-        {
-          tenantName: agreement.tenant_name,
-          landlordName: agreement.landlord_name,
-          propertyAddress: agreement.property_address,
-          agreementTitle: agreement.agreement_title,
-          agreementId: agreementId,
-          signatureDeadline: agreement.signature_deadline,
-        }
-      );
-
-      if (!emailResult.success) {
-        console.warn(`Agreement ${agreementId} status updated to sent, but email failed: ${emailResult.message}`);
-      }
-    } catch (emailError) {
-      // Log but don't fail the operation if email fails
-      console.error(`Failed to send agreement email for ${agreementId}:`, emailError);
-    }
+    // Signers who could not be emailed now are invited by the scheduled job
+    await this.sendSigningInvitations(agreementId);
   }
 
   /**
@@ -705,6 +1183,9 @@ class AgreementService {
       rent_amount: number;
       security_deposit?: number;
       payment_due_day?: number;
+      pets_allowed?: boolean;
+      pet_deposit?: number;
+      additional_charges?: AgreementAdditionalCharge[];
     },
     templateId?: string
   ): Promise<PlaceholderContext> {
@@ -729,7 +1210,7 @@ class AgreementService {
     // Get property info
     const { data: property } = await supabase
       .from('properties')
-      .select('name, address_line1, address_line2, city, state, postal_code')
+      .select('name, address_line1, address_line2, city, state, postal_code, country')
       .eq('id', propertyId)
       .single();
 
@@ -740,6 +1221,16 @@ class AgreementService {
       .eq('id', unitId)
       .single();
 
+    // Co-tenants on the unit, for {{#each CO_TENANTS}}
+    const { data: coTenants } = await supabase
+      .from('tenants')
+      .select('first_name, last_name, email, phone')
+      .eq('unit_id', unitId)
+      .eq('tenant_type', 'co_tenant')
+      .eq('is_active', true)
+      .neq('email', tenantData.email)
+      .order('last_name');
+
     // Get template if provided
     let template = null;
     if (templateId) {
@@ -762,6 +1253,7 @@ class AgreementService {
         email: tenantData.email,
         phone: tenantData.phone,
       },
+      coTenants: coTenants || [],
       leaseDetails,
       template,
     });
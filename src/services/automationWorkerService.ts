@@ -1,24 +1,29 @@
 /**
  * Automation Worker Service
  *
- * This service handles automated tasks that should run periodically:
+ * Automated tasks run periodically in the run-scheduled-jobs edge function:
  * - Processing scheduled notifications
+ * - Generating recurring charges (payment schedules) ahead
  * - Assessing late fees
  * - Scheduling rent reminders
  * - Scheduling lease expiration reminders
  *
- * IMPORTANT: This service should be called by a cron job or similar scheduler.
- * It can be invoked from a backend API endpoint or Edge Function.
+ * This service triggers them manually and reports on their runs.
+ *
+ * Scheduled runs happen server-side in the run-scheduled-jobs edge function,
+ * which pg_cron invokes every 15 minutes. It runs the daily tasks for each
+ * business once its local time (businesses.timezone) passes
+ * businesses.automation_run_hour, and records every run in automation_job_runs.
+ * runDailyTasks() here is the manual trigger; it asks the same edge function
+ * to run right away, so both paths share one lock and never overlap.
+ *
+ * Notifications are delivered through the configured email provider. Failed
+ * deliveries are retried with exponential backoff and dead-lettered after
+ * max_attempts so they show up in Settings > Notifications.
  *
- * Recommended schedule:
- * - Every 5 minutes: processScheduledNotifications()
- * - Daily at 6 AM: scheduleRentReminders(), assessLateFees()
- * - Daily at 7 AM: scheduleLeaseExpirationReminders()
  */
 
 import { supabase } from '../lib/supabase';
-import { notificationService } from './notificationService';
-import { lateFeeService } from './lateFeeService';
 
 export interface WorkerRunResult {
   success: boolean;
@@ -29,298 +34,76 @@ export interface WorkerRunResult {
   timestamp: string;
 }
 
-export const automationWorkerService = {
-  /**
-   * Process all pending notifications that are scheduled to be sent
-   * Should run frequently (every 5-15 minutes)
-   */
-  async processScheduledNotifications(): Promise<WorkerRunResult> {
-    const result: WorkerRunResult = {
-      success: true,
-      task: 'processScheduledNotifications',
-      processed: 0,
-      failed: 0,
-      errors: [],
-      timestamp: new Date().toISOString(),
-    };
-
-    try {
-      // Get pending notifications that are due
-      const notifications = await notificationService.getPendingNotifications();
-
-      for (const notification of notifications) {
-        try {
-          // In a real implementation, this would call the actual email service
-          // For now, we'll just mark it as sent
-          // TODO: Integrate with actual email sending service
-
-          console.log('Processing notification:', {
-            id: notification.id,
-            type: notification.notification_type,
-            to: notification.recipient_email,
-            subject: notification.subject,
-          });
+export type AutomationJobRunStatus = 'running' | 'succeeded' | 'partial' | 'failed' | 'skipped';
 
-          // Simulate email sending
-          const emailSent = await this.sendNotificationEmail(notification);
-
-          if (emailSent) {
-            await notificationService.markAsSent(notification.id);
-            result.processed++;
-          } else {
-            await notificationService.markAsFailed(
-              notification.id,
-              'Email sending failed'
-            );
-            result.failed++;
-            result.errors.push(`Failed to send notification ${notification.id}`);
-          }
-        } catch (error) {
-          result.failed++;
-          result.errors.push(
-            `Error processing notification ${notification.id}: ${
-              error instanceof Error ? error.message : 'Unknown error'
-            }`
-          );
-
-          await notificationService.markAsFailed(
-            notification.id,
-            error instanceof Error ? error.message : 'Unknown error'
-          );
-        }
-      }
-    } catch (error) {
-      result.success = false;
-      result.errors.push(
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-    }
-
-    return result;
-  },
-
-  /**
-   * Schedule rent reminders for all active businesses
-   * Should run once daily (e.g., 6 AM)
-   */
-  async scheduleRentReminders(): Promise<WorkerRunResult> {
-    const result: WorkerRunResult = {
-      success: true,
-      task: 'scheduleRentReminders',
-      processed: 0,
-      failed: 0,
-      errors: [],
-      timestamp: new Date().toISOString(),
-    };
-
-    try {
-      // Get all active businesses
-      const { data: businesses } = await supabase
-        .from('businesses')
-        .select('id, business_name')
-        .eq('is_active', true);
-
-      if (!businesses) {
-        return result;
-      }
-
-      for (const business of businesses) {
-        try {
-          const count = await notificationService.scheduleRentReminders(
-            business.id
-          );
-          result.processed += count;
-        } catch (error) {
-          result.failed++;
-          result.errors.push(
-            `Error scheduling rent reminders for business ${business.id}: ${
-              error instanceof Error ? error.message : 'Unknown error'
-            }`
-          );
-        }
-      }
-    } catch (error) {
-      result.success = false;
-      result.errors.push(
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-    }
-
-    return result;
-  },
-
-  /**
-   * Schedule lease expiration reminders for all active businesses
-   * Should run once daily (e.g., 7 AM)
-   */
-  async scheduleLeaseExpirationReminders(): Promise<WorkerRunResult> {
-    const result: WorkerRunResult = {
-      success: true,
-      task: 'scheduleLeaseExpirationReminders',
-      processed: 0,
-      failed: 0,
-      errors: [],
-      timestamp: new Date().toISOString(),
-    };
-
-    try {
-      // Get all active businesses
-      const { data: businesses } = await supabase
-        .from('businesses')
-        .select('id, business_name')
-        .eq('is_active', true);
-
-      if (!businesses) {
-        return result;
-      }
-
-      for (const business of businesses) {
-        try {
-          const count = await notificationService.scheduleLeaseExpirationReminders(
-            business.id
-          );
-          result.processed += count;
-        } catch (error) {
-          result.failed++;
-          result.errors.push(
-            `Error scheduling lease reminders for business ${business.id}: ${
-              error instanceof Error ? error.message : 'Unknown error'
-            }`
-          );
-        }
-      }
-    } catch (error) {
-      result.success = false;
-      result.errors.push(
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-    }
-
-    return result;
-  },
+export interface AutomationJobRun {
+  id: string;
+  business_id: string | null;
+  task: string;
+  trigger_source: 'cron' | 'manual';
+  status: AutomationJobRunStatus;
+  local_run_date: string | null;
+  processed: number;
+  failed: number;
+  errors: string[];
+  started_at: string;
+  finished_at: string | null;
+  created_at: string;
+}
 
+export const automationWorkerService = {
   /**
-   * Assess late fees for all businesses with overdue payments
-   * Should run once daily (e.g., 6 AM)
+   * Run all daily tasks now (manual trigger)
+   * Runs in the run-scheduled-jobs edge function, which holds the automation
+   * lock; skipped when a scheduled or manual run is already in progress
    */
-  async assessLateFees(): Promise<WorkerRunResult> {
-    const result: WorkerRunResult = {
-      success: true,
-      task: 'assessLateFees',
-      processed: 0,
-      failed: 0,
-      errors: [],
-      timestamp: new Date().toISOString(),
-    };
-
-    try {
-      // Get all active businesses
-      const { data: businesses } = await supabase
-        .from('businesses')
-        .select('id, business_name')
-        .eq('is_active', true);
-
-      if (!businesses) {
-        return result;
-      }
-
-      for (const business of businesses) {
-        try {
-          const lateFeesAssessed = await lateFeeService.assessLateFees(
-            business.id
-          );
-          result.processed += lateFeesAssessed.length;
-
-          // Schedule late fee notifications for each assessed fee
-          for (const lateFee of lateFeesAssessed) {
-            try {
-              // Get tenant info
-              const { data: tenant } = await supabase
-                .from('tenants')
-                .select('first_name, last_name, email')
-                .eq('id', lateFee.late_fee_id)
-                .maybeSingle();
-
-              if (tenant && tenant.email) {
-                await notificationService.scheduleNotification(
-                  business.id,
-                  'rent_overdue',
-                  tenant.email,
-                  `${tenant.first_name} ${tenant.last_name}`,
-                  {
-                    tenant_name: `${tenant.first_name} ${tenant.last_name}`,
-                    amount: `$${(lateFee.late_fee_cents / 100).toFixed(2)}`,
-                    late_fee: `$${(lateFee.late_fee_cents / 100).toFixed(2)}`,
-                    days_overdue: 1, // Calculate actual days
-                    organization_name: business.business_name,
-                  }
-                );
-              }
-            } catch (error) {
-              console.error('Error scheduling late fee notification:', error);
-            }
-          }
-        } catch (error) {
-          result.failed++;
-          result.errors.push(
-            `Error assessing late fees for business ${business.id}: ${
-              error instanceof Error ? error.message : 'Unknown error'
-            }`
-          );
-        }
-      }
-    } catch (error) {
-      result.success = false;
-      result.errors.push(
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-    }
-
-    return result;
-  },
+  async runDailyTasks(): Promise<{ results: WorkerRunResult[]; skipped?: boolean }> {
+    const { data, error } = await supabase.functions.invoke('run-scheduled-jobs', {
+      body: { trigger: 'manual' },
+    });
 
-  /**
-   * Run all daily tasks
-   * Convenience method to run all automation tasks at once
-   */
-  async runDailyTasks(): Promise<{
-    rentReminders: WorkerRunResult;
-    leaseReminders: WorkerRunResult;
-    lateFees: WorkerRunResult;
-  }> {
-    const [rentReminders, leaseReminders, lateFees] = await Promise.all([
-      this.scheduleRentReminders(),
-      this.scheduleLeaseExpirationReminders(),
-      this.assessLateFees(),
-    ]);
+    if (error) throw error;
+    if (data?.success === false && data?.error) throw new Error(data.error);
 
     return {
-      rentReminders,
-      leaseReminders,
-      lateFees,
+      results: (data?.results || []) as WorkerRunResult[],
+      skipped: data?.skipped,
     };
   },
 
   /**
-   * Simulate sending a notification email
-   * In production, this would integrate with the actual email service
+   * Get automation job run history, most recent first
    */
-  private async sendNotificationEmail(notification: any): Promise<boolean> {
-    // TODO: Integrate with actual email service
-    // This would call the email service configured in the system
+  async getJobRunHistory(filters?: {
+    businessId?: string;
+    task?: string;
+    status?: AutomationJobRunStatus;
+    limit?: number;
+  }): Promise<AutomationJobRun[]> {
+    let query = supabase
+      .from('automation_job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(filters?.limit || 50);
+
+    if (filters?.businessId) {
+      query = query.eq('business_id', filters.businessId);
+    }
+    if (filters?.task) {
+      query = query.eq('task', filters.task);
+    }
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
 
-    // For now, just log to console
-    console.log('📧 Sending email notification:', {
-      to: notification.recipient_email,
-      subject: notification.subject,
-      body: notification.body.substring(0, 100) + '...',
-    });
+    const { data, error } = await query;
 
-    // Simulate async email sending
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    if (error) {
+      console.error('Error fetching automation job runs:', error);
+      return [];
+    }
 
-    // Simulate 95% success rate
-    return Math.random() > 0.05;
+    return data || [];
   },
 
   /**
@@ -331,7 +114,11 @@ export const automationWorkerService = {
     last_notification_run: string | null;
     pending_notifications: number;
     failed_notifications_24h: number;
+    dead_letter_notifications: number;
     scheduled_for_today: number;
+    last_daily_run: AutomationJobRun | null;
+    failed_runs_24h: number;
+    recent_runs: AutomationJobRun[];
   }> {
     // Get last successful notification run
     const { data: lastRun } = await supabase
@@ -349,15 +136,22 @@ export const automationWorkerService = {
       .eq('status', 'pending')
       .lte('scheduled_for', new Date().toISOString());
 
-    // Get failed notifications in last 24 hours
+    // Get notifications with a failed delivery attempt in the last 24 hours
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
 
     const { count: failedCount } = await supabase
       .from('scheduled_notifications')
       .select('id', { count: 'exact', head: true })
-      .eq('status', 'failed')
-      .gte('created_at', yesterday.toISOString());
+      .in('status', ['pending', 'dead_letter'])
+      .gt('attempt_count', 0)
+      .gte('last_attempt_at', yesterday.toISOString());
+
+    // Get notifications that exhausted their retries
+    const { count: deadLetterCount } = await supabase
+      .from('scheduled_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'dead_letter');
 
     // Get notifications scheduled for today
     const today = new Date().toISOString().split('T')[0];
@@ -371,11 +165,33 @@ export const automationWorkerService = {
       .gte('scheduled_for', today)
       .lt('scheduled_for', tomorrowStr);
 
+    // Get job run history
+    const recentRuns = await this.getJobRunHistory({ limit: 20 });
+
+    const { data: lastDailyRun } = await supabase
+      .from('automation_job_runs')
+      .select('*')
+      .eq('task', 'assessLateFees')
+      .neq('status', 'running')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { count: failedRunsCount } = await supabase
+      .from('automation_job_runs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'failed')
+      .gte('started_at', yesterday.toISOString());
+
     return {
       last_notification_run: lastRun?.sent_at || null,
       pending_notifications: pendingCount || 0,
       failed_notifications_24h: failedCount || 0,
+      dead_letter_notifications: deadLetterCount || 0,
       scheduled_for_today: todayCount || 0,
+      last_daily_run: lastDailyRun || null,
+      failed_runs_24h: failedRunsCount || 0,
+      recent_runs: recentRuns,
     };
   },
 };
@@ -0,0 +1,785 @@
+import { supabase } from '../lib/supabase';
+import {
+  BankStatement,
+  BankStatementLine,
+  BankStatementLineStatus,
+  BankReconciliation,
+  GLAccount,
+} from '../types';
+import { journalService } from './journalService';
+import { fiscalPeriodService } from './fiscalPeriodService';
+import { glAccountService } from './glAccountService';
+import { parseBankStatement, CSVParseOptions } from '../utils/bankStatementParser';
+
+/**
+ * A posted journal entry on a bank account, as seen from the bank's side:
+ * positive amounts are deposits (debits), negative are withdrawals (credits)
+ */
+export interface BankLedgerEntry {
+  id: string;
+  journal_id: string;
+  journal_number: string;
+  journal_date: string;
+  amount_cents: number;
+  matched_cents: number;
+  description?: string;
+  reference?: string;
+  memo?: string;
+  is_reconciled: boolean;
+}
+
+export interface StatementLineFilters {
+  startDate?: string;
+  endDate?: string;
+  status?: BankStatementLineStatus;
+  includeReconciled?: boolean;
+}
+
+export interface StatementImportResult {
+  statement: BankStatement;
+  imported: number;
+  duplicates: number;
+}
+
+export interface MatchAllocation {
+  journalEntryId: string;
+  amountCents: number;
+}
+
+export interface JournalAllocation {
+  accountId: string;
+  amountCents: number; // Positive portion of the line amount
+  description?: string;
+  propertyId?: string;
+}
+
+export interface ReconciliationSummary {
+  openingBalanceCents: number;
+  clearedDepositsCents: number;
+  clearedWithdrawalsCents: number;
+  clearedBalanceCents: number;
+  statementEndingBalanceCents: number;
+  differenceCents: number;
+  bookBalanceCents: number;
+  outstandingDepositsCents: number;
+  outstandingWithdrawalsCents: number;
+  unmatchedLineCount: number;
+}
+
+export interface ReconciliationReport {
+  reconciliation: BankReconciliation;
+  account: GLAccount | null;
+  summary: ReconciliationSummary;
+  clearedLines: BankStatementLine[];
+  unmatchedLines: BankStatementLine[];
+  outstandingEntries: BankLedgerEntry[];
+}
+
+// Auto-matching: statement and book dates may differ by a few days
+// (cheques clearing, weekend deposits)
+export const BANK_MATCH_DATE_WINDOW_DAYS = 7;
+export const BANK_MATCH_MIN_CONFIDENCE = 0.6;
+
+const daysBetween = (a: string, b: string) =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length >= 3));
+
+/**
+ * Score how well a statement line matches a ledger entry (0-1).
+ * The amount must match exactly; date proximity and reference/description
+ * similarity decide between candidates.
+ */
+function scoreMatch(line: BankStatementLine, entry: BankLedgerEntry): number {
+  if (entry.amount_cents - entry.matched_cents !== line.amount_cents) return 0;
+
+  const days = daysBetween(line.transaction_date, entry.journal_date);
+  if (days > BANK_MATCH_DATE_WINDOW_DAYS) return 0;
+  const dateScore = 1 - days / (BANK_MATCH_DATE_WINDOW_DAYS + 1);
+
+  const entryText = [entry.reference, entry.description, entry.memo].filter(Boolean).join(' ');
+  let textScore = 0;
+  if (line.reference && entryText.toLowerCase().includes(line.reference.toLowerCase())) {
+    textScore = 1;
+  } else {
+    const lineWords = words(`${line.description || ''} ${line.reference || ''}`);
+    const entryWords = words(entryText);
+    const shared = [...lineWords].filter(w => entryWords.has(w)).length;
+    const total = new Set([...lineWords, ...entryWords]).size;
+    textScore = total > 0 ? shared / total : 0;
+  }
+
+  return 0.5 + 0.3 * dateScore + 0.2 * textScore;
+}
+
+export const bankReconciliationService = {
+  // ========================================
+  // Statement Import
+  // ========================================
+
+  /**
+   * Import an OFX/QFX or CSV statement for a bank account. Transactions
+   * already imported (same bank transaction ID) are skipped.
+   */
+  async importStatement(
+    businessId: string,
+    userId: string,
+    accountId: string,
+    fileName: string,
+    content: string,
+    csvOptions?: CSVParseOptions
+  ): Promise<StatementImportResult> {
+    const parsed = parseBankStatement(fileName, content, csvOptions);
+
+    const { data: statement, error: statementError } = await supabase
+      .from('bank_statements')
+      .insert({
+        business_id: businessId,
+        account_id: accountId,
+        statement_start_date: parsed.startDate,
+        statement_end_date: parsed.endDate,
+        opening_balance_cents: parsed.openingBalanceCents ?? null,
+        closing_balance_cents: parsed.closingBalanceCents ?? null,
+        currency_code: parsed.currency || null,
+        file_name: fileName,
+        file_format: parsed.format,
+        imported_by: userId,
+      })
+      .select()
+      .single();
+
+    if (statementError) throw statementError;
+
+    const { data: inserted, error: linesError } = await supabase
+      .from('bank_statement_lines')
+      .upsert(
+        parsed.transactions.map(t => ({
+          statement_id: statement.id,
+          business_id: businessId,
+          account_id: accountId,
+          transaction_date: t.date,
+          amount_cents: t.amountCents,
+          description: t.description,
+          reference: t.reference || null,
+          external_id: t.externalId,
+        })),
+        { onConflict: 'account_id,external_id', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (linesError) throw linesError;
+
+    const imported = inserted?.length || 0;
+    const duplicates = parsed.transactions.length - imported;
+
+    const { data: updated, error: updateError } = await supabase
+      .from('bank_statements')
+      .update({ line_count: imported, duplicate_count: duplicates })
+      .eq('id', statement.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    return { statement: updated, imported, duplicates };
+  },
+
+  /**
+   * Get imported statements for a bank account, newest first
+   */
+  async getStatements(accountId: string): Promise<BankStatement[]> {
+    const { data, error } = await supabase
+      .from('bank_statements')
+      .select('*')
+      .eq('account_id', accountId)
+      .order('statement_end_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Delete an imported statement and its lines. Not allowed once any of its
+   * lines are part of a completed reconciliation.
+   */
+  async deleteStatement(statementId: string): Promise<void> {
+    const { count, error: countError } = await supabase
+      .from('bank_statement_lines')
+      .select('id', { count: 'exact', head: true })
+      .eq('statement_id', statementId)
+      .not('reconciliation_id', 'is', null);
+
+    if (countError) throw countError;
+    if (count && count > 0) {
+      throw new Error('This statement has reconciled transactions and cannot be deleted');
+    }
+
+    const { error } = await supabase.from('bank_statements').delete().eq('id', statementId);
+    if (error) throw error;
+  },
+
+  /**
+   * Get statement lines for a bank account with their matches
+   */
+  async getStatementLines(accountId: string, filters?: StatementLineFilters): Promise<BankStatementLine[]> {
+    let query = supabase
+      .from('bank_statement_lines')
+      .select('*, matches:bank_statement_matches(*)')
+      .eq('account_id', accountId)
+      .order('transaction_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (filters?.startDate) {
+      query = query.gte('transaction_date', filters.startDate);
+    }
+
+    if (filters?.endDate) {
+      query = query.lte('transaction_date', filters.endDate);
+    }
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (!filters?.includeReconciled) {
+      query = query.is('reconciliation_id', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // ========================================
+  // Ledger Side
+  // ========================================
+
+  /**
+   * Get posted, unreconciled journal entries on a bank account, with the
+   * amount already matched to statement lines
+   */
+  async getBankLedgerEntries(accountId: string, endDate?: string): Promise<BankLedgerEntry[]> {
+    let query = supabase
+      .from('gl_journal_entries')
+      .select('id, journal_id, debit_cents, credit_cents, description, reference, is_reconciled, gl_journals!inner(journal_number, journal_date, status, memo, reference)')
+      .eq('account_id', accountId)
+      .eq('is_reconciled', false)
+      .eq('gl_journals.status', 'posted');
+
+    if (endDate) {
+      query = query.lte('gl_journals.journal_date', endDate);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    if (!data || data.length === 0) return [];
+
+    const { data: matches, error: matchError } = await supabase
+      .from('bank_statement_matches')
+      .select('journal_entry_id, amount_cents')
+      .in('journal_entry_id', data.map(e => e.id));
+
+    if (matchError) throw matchError;
+
+    const matched = new Map<string, number>();
+    for (const match of matches || []) {
+      matched.set(match.journal_entry_id, (matched.get(match.journal_entry_id) || 0) + match.amount_cents);
+    }
+
+    return data
+      .map((entry: any) => ({
+        id: entry.id,
+        journal_id: entry.journal_id,
+        journal_number: entry.gl_journals.journal_number,
+        journal_date: entry.gl_journals.journal_date,
+        amount_cents: entry.debit_cents - entry.credit_cents,
+        matched_cents: matched.get(entry.id) || 0,
+        description: entry.description || undefined,
+        reference: entry.reference || entry.gl_journals.reference || undefined,
+        memo: entry.gl_journals.memo || undefined,
+        is_reconciled: entry.is_reconciled,
+      }))
+      .sort((a, b) => a.journal_date.localeCompare(b.journal_date));
+  },
+
+  // ========================================
+  // Matching
+  // ========================================
+
+  /**
+   * Match unmatched statement lines to ledger entries of the same amount.
+   * Each line and entry is used at most once; the best-scoring pairs win.
+   * Returns the number of lines matched.
+   */
+  async autoMatch(
+    businessId: string,
+    userId: string,
+    accountId: string,
+    endDate?: string
+  ): Promise<number> {
+    const lines = await this.getStatementLines(accountId, { endDate, status: 'unmatched' });
+    const entries = (await this.getBankLedgerEntries(accountId))
+      .filter(e => e.matched_cents === 0);
+
+    const candidates: Array<{ line: BankStatementLine; entry: BankLedgerEntry; score: number }> = [];
+    for (const line of lines) {
+      for (const entry of entries) {
+        const score = scoreMatch(line, entry);
+        if (score >= BANK_MATCH_MIN_CONFIDENCE) {
+          candidates.push({ line, entry, score });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    const usedLines = new Set<string>();
+    const usedEntries = new Set<string>();
+    const matches: any[] = [];
+
+    for (const { line, entry, score } of candidates) {
+      if (usedLines.has(line.id) || usedEntries.has(entry.id)) continue;
+      usedLines.add(line.id);
+      usedEntries.add(entry.id);
+      matches.push({
+        line_id: line.id,
+        journal_entry_id: entry.id,
+        business_id: businessId,
+        amount_cents: line.amount_cents,
+        match_type: 'auto',
+        confidence: Math.round(score * 1000) / 1000,
+        matched_by: userId,
+      });
+    }
+
+    if (matches.length === 0) return 0;
+
+    const { error } = await supabase.from('bank_statement_matches').insert(matches);
+    if (error) throw error;
+
+    const { error: statusError } = await supabase
+      .from('bank_statement_lines')
+      .update({ status: 'matched' })
+      .in('id', [...usedLines]);
+
+    if (statusError) throw statusError;
+    return matches.length;
+  },
+
+  /**
+   * Match a statement line to one or more ledger entries. The allocations
+   * must add up to the line amount; an entry can be split across lines.
+   */
+  async matchLine(
+    businessId: string,
+    userId: string,
+    line: BankStatementLine,
+    allocations: MatchAllocation[]
+  ): Promise<void> {
+    if (line.status !== 'unmatched') {
+      throw new Error('Statement line is already matched or excluded');
+    }
+
+    const total = allocations.reduce((sum, a) => sum + a.amountCents, 0);
+    if (total !== line.amount_cents) {
+      throw new Error(
+        `Matched amounts must equal the statement amount. Statement: ${line.amount_cents}, Matched: ${total}`
+      );
+    }
+
+    const entries = await this.getBankLedgerEntries(line.account_id);
+    for (const allocation of allocations) {
+      const entry = entries.find(e => e.id === allocation.journalEntryId);
+      if (!entry) {
+        throw new Error('Journal entry is not an unreconciled entry on this bank account');
+      }
+
+      const remaining = entry.amount_cents - entry.matched_cents;
+      if (Math.sign(allocation.amountCents) !== Math.sign(remaining) || Math.abs(allocation.amountCents) > Math.abs(remaining)) {
+        throw new Error(`Journal ${entry.journal_number} has only ${remaining} cents left to match`);
+      }
+    }
+
+    const { error } = await supabase.from('bank_statement_matches').insert(
+      allocations.map(a => ({
+        line_id: line.id,
+        journal_entry_id: a.journalEntryId,
+        business_id: businessId,
+        amount_cents: a.amountCents,
+        match_type: 'manual',
+        matched_by: userId,
+      }))
+    );
+
+    if (error) throw error;
+
+    const { error: statusError } = await supabase
+      .from('bank_statement_lines')
+      .update({ status: 'matched' })
+      .eq('id', line.id);
+
+    if (statusError) throw statusError;
+  },
+
+  /**
+   * Remove all matches from a statement line
+   */
+  async unmatchLine(lineId: string): Promise<void> {
+    const { error } = await supabase
+      .from('bank_statement_matches')
+      .delete()
+      .eq('line_id', lineId);
+
+    if (error) throw error;
+
+    const { error: statusError } = await supabase
+      .from('bank_statement_lines')
+      .update({ status: 'unmatched' })
+      .eq('id', lineId)
+      .is('reconciliation_id', null);
+
+    if (statusError) throw statusError;
+  },
+
+  /**
+   * Exclude a statement line from reconciliation (e.g. a duplicate the bank
+   * reported twice), or include it again
+   */
+  async setLineExcluded(lineId: string, excluded: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('bank_statement_lines')
+      .update({ status: excluded ? 'excluded' : 'unmatched' })
+      .eq('id', lineId)
+      .neq('status', 'matched');
+
+    if (error) throw error;
+  },
+
+  /**
+   * Create and post a journal for a statement line that has no book entry
+   * (bank fees, interest, direct debits), split across one or more offset
+   * accounts, and match the line to it
+   */
+  async createJournalForLine(
+    businessId: string,
+    userId: string,
+    line: BankStatementLine,
+    allocations: JournalAllocation[],
+    memo?: string
+  ): Promise<void> {
+    if (line.status !== 'unmatched') {
+      throw new Error('Statement line is already matched or excluded');
+    }
+
+    const lineAmount = Math.abs(line.amount_cents);
+    const total = allocations.reduce((sum, a) => sum + a.amountCents, 0);
+    if (total !== lineAmount) {
+      throw new Error(
+        `Split amounts must equal the statement amount. Statement: ${lineAmount}, Split: ${total}`
+      );
+    }
+
+    await fiscalPeriodService.validatePostingDate(businessId, line.transaction_date);
+
+    const isDeposit = line.amount_cents > 0;
+    const description = memo || line.description || 'Bank transaction';
+
+    const journal = await journalService.createJournal(businessId, userId, {
+      journalDate: line.transaction_date,
+      journalType: isDeposit ? 'cash_receipts' : 'cash_payments',
+      sourceType: 'import',
+      sourceId: line.id,
+      memo: description,
+      reference: line.reference,
+      entries: [
+        {
+          accountId: line.account_id,
+          debitCents: isDeposit ? lineAmount : 0,
+          creditCents: isDeposit ? 0 : lineAmount,
+          description,
+        },
+        ...allocations.map(a => ({
+          accountId: a.accountId,
+          debitCents: isDeposit ? 0 : a.amountCents,
+          creditCents: isDeposit ? a.amountCents : 0,
+          propertyId: a.propertyId,
+          description: a.description || description,
+        })),
+      ],
+      autoPost: true,
+    });
+
+    const created = await journalService.getJournalById(journal.id);
+    const bankEntry = created?.entries.find(e => e.account_id === line.account_id);
+    if (!bankEntry) {
+      throw new Error('Journal was created but its bank entry could not be found');
+    }
+
+    const { error } = await supabase.from('bank_statement_matches').insert({
+      line_id: line.id,
+      journal_entry_id: bankEntry.id,
+      business_id: businessId,
+      amount_cents: line.amount_cents,
+      match_type: 'created',
+      matched_by: userId,
+    });
+
+    if (error) throw error;
+
+    const { error: statusError } = await supabase
+      .from('bank_statement_lines')
+      .update({ status: 'matched' })
+      .eq('id', line.id);
+
+    if (statusError) throw statusError;
+  },
+
+  // ========================================
+  // Reconciliations
+  // ========================================
+
+  /**
+   * Get reconciliations for a bank account, newest period first
+   */
+  async getReconciliations(accountId: string): Promise<BankReconciliation[]> {
+    const { data, error } = await supabase
+      .from('bank_reconciliations')
+      .select('*')
+      .eq('account_id', accountId)
+      .order('period_end', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Get the reconciliation in progress for a bank account, if any
+   */
+  async getActiveReconciliation(accountId: string): Promise<BankReconciliation | null> {
+    const { data, error } = await supabase
+      .from('bank_reconciliations')
+      .select('*')
+      .eq('account_id', accountId)
+      .eq('status', 'in_progress')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Start reconciling a bank account for a statement period
+   */
+  async startReconciliation(
+    businessId: string,
+    userId: string,
+    input: {
+      accountId: string;
+      statementId?: string;
+      periodStart: string;
+      periodEnd: string;
+      statementEndingBalanceCents: number;
+    }
+  ): Promise<BankReconciliation> {
+    const { data: latest } = await supabase
+      .from('bank_reconciliations')
+      .select('period_end')
+      .eq('account_id', input.accountId)
+      .eq('status', 'completed')
+      .order('period_end', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest && input.periodEnd <= latest.period_end) {
+      throw new Error(`This account is already reconciled through ${latest.period_end}`);
+    }
+
+    const { data, error } = await supabase
+      .from('bank_reconciliations')
+      .insert({
+        business_id: businessId,
+        account_id: input.accountId,
+        statement_id: input.statementId || null,
+        period_start: input.periodStart,
+        period_end: input.periodEnd,
+        statement_ending_balance_cents: input.statementEndingBalanceCents,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a reconciliation that has not been completed
+   */
+  async cancelReconciliation(reconciliationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('bank_reconciliations')
+      .delete()
+      .eq('id', reconciliationId)
+      .eq('status', 'in_progress');
+
+    if (error) throw error;
+  },
+
+  /**
+   * Calculate cleared, book and outstanding balances for a reconciliation
+   */
+  async getReconciliationSummary(reconciliation: BankReconciliation): Promise<ReconciliationSummary> {
+    const report = await this.getReconciliationReport(reconciliation.id);
+    return report.summary;
+  },
+
+  /**
+   * Build the reconciliation report: cleared statement lines, unmatched
+   * lines and outstanding book entries (deposits in transit, uncleared
+   * cheques) as of the period end
+   */
+  async getReconciliationReport(reconciliationId: string): Promise<ReconciliationReport> {
+    const { data: reconciliation, error } = await supabase
+      .from('bank_reconciliations')
+      .select('*')
+      .eq('id', reconciliationId)
+      .single();
+
+    if (error) throw error;
+
+    const accountId = reconciliation.account_id;
+    const periodEnd = reconciliation.period_end;
+    const isCompleted = reconciliation.status === 'completed';
+
+    // Opening balance is where the previous reconciliation left off
+    const { data: previous } = await supabase
+      .from('bank_reconciliations')
+      .select('statement_ending_balance_cents')
+      .eq('account_id', accountId)
+      .eq('status', 'completed')
+      .lt('period_end', reconciliation.period_start)
+      .order('period_end', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let openingBalanceCents = previous?.statement_ending_balance_cents;
+    if (openingBalanceCents === undefined && reconciliation.statement_id) {
+      const { data: statement } = await supabase
+        .from('bank_statements')
+        .select('opening_balance_cents')
+        .eq('id', reconciliation.statement_id)
+        .maybeSingle();
+      openingBalanceCents = statement?.opening_balance_cents ?? undefined;
+    }
+
+    let clearedQuery = supabase
+      .from('bank_statement_lines')
+      .select('*, matches:bank_statement_matches(*)')
+      .eq('account_id', accountId)
+      .eq('status', 'matched')
+      .order('transaction_date', { ascending: true });
+
+    clearedQuery = isCompleted
+      ? clearedQuery.eq('reconciliation_id', reconciliationId)
+      : clearedQuery.is('reconciliation_id', null).lte('transaction_date', periodEnd);
+
+    const { data: clearedLines, error: clearedError } = await clearedQuery;
+    if (clearedError) throw clearedError;
+
+    const unmatchedLines = isCompleted
+      ? []
+      : await this.getStatementLines(accountId, { endDate: periodEnd, status: 'unmatched' });
+
+    // Book balance from every posted entry on the account up to the period end
+    const { data: bookEntries, error: bookError } = await supabase
+      .from('gl_journal_entries')
+      .select('debit_cents, credit_cents, gl_journals!inner(status, journal_date)')
+      .eq('account_id', accountId)
+      .eq('gl_journals.status', 'posted')
+      .lte('gl_journals.journal_date', periodEnd);
+
+    if (bookError) throw bookError;
+
+    const bookBalanceCents = (bookEntries || [])
+      .reduce((sum: number, e: any) => sum + e.debit_cents - e.credit_cents, 0);
+
+    const outstandingEntries = isCompleted
+      ? []
+      : (await this.getBankLedgerEntries(accountId, periodEnd))
+          .filter(e => e.amount_cents !== e.matched_cents);
+
+    let clearedDepositsCents = 0;
+    let clearedWithdrawalsCents = 0;
+    for (const line of clearedLines || []) {
+      if (line.amount_cents > 0) clearedDepositsCents += line.amount_cents;
+      else clearedWithdrawalsCents += -line.amount_cents;
+    }
+
+    let outstandingDepositsCents = 0;
+    let outstandingWithdrawalsCents = 0;
+    for (const entry of outstandingEntries) {
+      const remaining = entry.amount_cents - entry.matched_cents;
+      if (remaining > 0) outstandingDepositsCents += remaining;
+      else outstandingWithdrawalsCents += -remaining;
+    }
+
+    const clearedBalanceCents = (openingBalanceCents || 0) + clearedDepositsCents - clearedWithdrawalsCents;
+
+    return {
+      reconciliation,
+      account: await glAccountService.getAccountById(accountId),
+      summary: {
+        openingBalanceCents: openingBalanceCents || 0,
+        clearedDepositsCents,
+        clearedWithdrawalsCents,
+        clearedBalanceCents,
+        statementEndingBalanceCents: reconciliation.statement_ending_balance_cents,
+        differenceCents: reconciliation.statement_ending_balance_cents - clearedBalanceCents,
+        bookBalanceCents: isCompleted ? reconciliation.book_balance_cents ?? bookBalanceCents : bookBalanceCents,
+        outstandingDepositsCents,
+        outstandingWithdrawalsCents,
+        unmatchedLineCount: unmatchedLines.length,
+      },
+      clearedLines: clearedLines || [],
+      unmatchedLines,
+      outstandingEntries,
+    };
+  },
+
+  /**
+   * Complete a reconciliation. The cleared balance must equal the statement
+   * ending balance; matched entries are then marked reconciled and locked.
+   */
+  async completeReconciliation(reconciliationId: string): Promise<BankReconciliation> {
+    const { summary } = await this.getReconciliationReport(reconciliationId);
+
+    if (summary.differenceCents !== 0) {
+      throw new Error(
+        `Cleared balance does not equal the statement ending balance. Difference: ${summary.differenceCents}`
+      );
+    }
+
+    const { data, error } = await supabase.rpc('complete_bank_reconciliation', {
+      p_reconciliation_id: reconciliationId,
+      p_book_balance_cents: summary.bookBalanceCents,
+      p_cleared_balance_cents: summary.clearedBalanceCents,
+    });
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Reopen the latest completed reconciliation of an account, unlocking its entries
+   */
+  async reopenReconciliation(reconciliationId: string): Promise<BankReconciliation> {
+    const { data, error } = await supabase.rpc('reopen_bank_reconciliation', {
+      p_reconciliation_id: reconciliationId,
+    });
+
+    if (error) throw error;
+    return data;
+  },
+};
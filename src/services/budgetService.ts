@@ -38,6 +38,15 @@ export interface BudgetVarianceReport {
   totalVariance: number;
 }
 
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Pending Approval',
+  approved: 'Approved',
+  active: 'Active',
+  closed: 'Closed',
+  archived: 'Archived',
+};
+
 export const budgetService = {
   // ========================================
   // Budget CRUD Operations
@@ -442,14 +451,21 @@ export const budgetService = {
       endDate = `${budget.fiscal_year}-12-31`;
     }
 
-    // Get actual amounts from GL ledger
-    const { data: actuals, error: actualsError } = await supabase
+    // Get actual amounts from GL ledger, for the budget's property if it has one
+    let actualsQuery = supabase
       .from('gl_ledger')
       .select('account_id, debit_cents, credit_cents')
       .eq('business_id', businessId)
+      .eq('is_closing_entry', false)
       .gte('posting_date', startDate)
       .lte('posting_date', endDate);
 
+    if (budget.property_id) {
+      actualsQuery = actualsQuery.eq('property_id', budget.property_id);
+    }
+
+    const { data: actuals, error: actualsError } = await actualsQuery;
+
     if (actualsError) throw actualsError;
 
     // Aggregate actuals by account
@@ -626,6 +642,87 @@ export const budgetService = {
     return budget;
   },
 
+  /**
+   * Create a budget from a prior year's actuals, month by month, for the
+   * revenue and expense accounts that had activity. Amounts can be adjusted
+   * by a percentage, e.g. 3 for a 3% increase.
+   */
+  async createBudgetFromActuals(
+    businessId: string,
+    fiscalYear: number,
+    budgetName: string,
+    currencyCode: string,
+    options?: {
+      sourceYear?: number;
+      adjustmentPercent?: number;
+      propertyId?: string;
+    }
+  ): Promise<Budget> {
+    const sourceYear = options?.sourceYear ?? fiscalYear - 1;
+    const multiplier = 1 + (options?.adjustmentPercent || 0) / 100;
+
+    const accounts = await glAccountService.getAccounts(businessId, {
+      isActive: true,
+      isHeaderAccount: false,
+    });
+    const budgetable = new Map(
+      accounts
+        .filter((a) => a.account_type === 'expense' || a.account_type === 'revenue')
+        .map((a) => [a.id, a])
+    );
+
+    let query = supabase
+      .from('gl_ledger')
+      .select('account_id, posting_date, debit_cents, credit_cents')
+      .eq('business_id', businessId)
+      .eq('is_closing_entry', false)
+      .gte('posting_date', `${sourceYear}-01-01`)
+      .lte('posting_date', `${sourceYear}-12-31`);
+
+    if (options?.propertyId) {
+      query = query.eq('property_id', options.propertyId);
+    }
+
+    const { data: actuals, error } = await query;
+    if (error) throw error;
+
+    // Net activity per account per month, in the account's normal direction
+    const byAccount = new Map<string, number[]>();
+    for (const entry of actuals || []) {
+      const account = budgetable.get(entry.account_id);
+      if (!account) continue;
+
+      const month = parseInt(String(entry.posting_date).slice(5, 7), 10) - 1;
+      let amount = entry.debit_cents - entry.credit_cents;
+      if (account.normal_balance === 'credit') {
+        amount = -amount;
+      }
+
+      const periods = byAccount.get(entry.account_id) || new Array(12).fill(0);
+      periods[month] += amount;
+      byAccount.set(entry.account_id, periods);
+    }
+
+    const budget = await this.createBudget(businessId, {
+      budgetName,
+      fiscalYear,
+      currencyCode,
+      propertyId: options?.propertyId,
+      notes: `Based on ${sourceYear} actuals${options?.adjustmentPercent ? ` with ${options.adjustmentPercent}% adjustment` : ''}`,
+    });
+
+    const items: BudgetItemInput[] = [...byAccount.entries()].map(([accountId, periods]) => ({
+      accountId,
+      periodAmounts: periods.map((amount) => Math.round(amount * multiplier)),
+    }));
+
+    if (items.length > 0) {
+      await this.upsertBudgetItems(budget.id, items);
+    }
+
+    return budget;
+  },
+
   /**
    * Spread annual amount evenly across periods
    */
@@ -1,17 +1,57 @@
 import { supabase } from '../lib/supabase';
-import { Currency, ExchangeRate } from '../types';
+import { Currency, ExchangeRate, ExchangeRateProvider, ExchangeRateSource, ResolvedExchangeRate } from '../types';
 
 export interface CurrencyFilters {
   isActive?: boolean;
 }
 
 export interface ExchangeRateFilters {
+  // Business rates plus system-wide ones
+  businessId?: string;
   fromCurrency?: string;
   toCurrency?: string;
   startDate?: string;
   endDate?: string;
 }
 
+export const EXCHANGE_RATE_SOURCE_LABELS: Record<ExchangeRateSource, string> = {
+  manual: 'Manual',
+  api: 'Downloaded',
+  bank: 'Bank',
+  import: 'File import',
+};
+
+/**
+ * Most recent rate for a pair on or before a date. A business's own rate
+ * wins over a system-wide rate with the same date.
+ */
+async function latestRate(
+  fromCurrency: string,
+  toCurrency: string,
+  date: string,
+  businessId?: string
+): Promise<{ id: string; rate: number; effective_date: string } | null> {
+  let query = supabase
+    .from('exchange_rates')
+    .select('id, rate, effective_date')
+    .eq('from_currency', fromCurrency)
+    .eq('to_currency', toCurrency)
+    .lte('effective_date', date);
+
+  query = businessId
+    ? query.or(`business_id.eq.${businessId},business_id.is.null`)
+    : query.is('business_id', null);
+
+  const { data, error } = await query
+    .order('effective_date', { ascending: false })
+    .order('business_id', { ascending: true, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
 export const currencyService = {
   // ========================================
   // Currency Operations
@@ -70,6 +110,10 @@ export const currencyService = {
       .select('*')
       .order('effective_date', { ascending: false });
 
+    if (filters?.businessId) {
+      query = query.or(`business_id.eq.${filters.businessId},business_id.is.null`);
+    }
+
     if (filters?.fromCurrency) {
       query = query.eq('from_currency', filters.fromCurrency);
     }
@@ -93,57 +137,72 @@ export const currencyService = {
   },
 
   /**
-   * Get the exchange rate for a specific currency pair on a specific date
-   * Returns the most recent rate on or before the given date
+   * Find the rate for a currency pair on a date: the most recent rate on
+   * or before it, using the inverse pair when only that exists. Returns
+   * null when there is no rate.
    */
-  async getExchangeRate(
+  async findExchangeRate(
     fromCurrency: string,
     toCurrency: string,
-    date?: string
-  ): Promise<number> {
-    // Same currency = 1
+    date?: string,
+    businessId?: string
+  ): Promise<ResolvedExchangeRate | null> {
+    const effectiveDate = date || new Date().toISOString().split('T')[0]!;
+
     if (fromCurrency === toCurrency) {
-      return 1;
+      return { rate: 1, effectiveDate, rateId: '', inverted: false };
     }
 
-    const effectiveDate = date || new Date().toISOString().split('T')[0];
-
-    // Try direct rate
-    const { data: directRate, error: directError } = await supabase
-      .from('exchange_rates')
-      .select('rate')
-      .eq('from_currency', fromCurrency)
-      .eq('to_currency', toCurrency)
-      .lte('effective_date', effectiveDate)
-      .order('effective_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    const direct = await latestRate(fromCurrency, toCurrency, effectiveDate, businessId);
+    const inverse = await latestRate(toCurrency, fromCurrency, effectiveDate, businessId);
 
-    if (directError) throw directError;
+    // Prefer whichever pair was quoted more recently
+    if (direct && (!inverse || direct.effective_date >= inverse.effective_date)) {
+      return { rate: Number(direct.rate), effectiveDate: direct.effective_date, rateId: direct.id, inverted: false };
+    }
 
-    if (directRate) {
-      return Number(directRate.rate);
+    if (inverse) {
+      return { rate: 1 / Number(inverse.rate), effectiveDate: inverse.effective_date, rateId: inverse.id, inverted: true };
     }
 
-    // Try inverse rate
-    const { data: inverseRate, error: inverseError } = await supabase
-      .from('exchange_rates')
-      .select('rate')
-      .eq('from_currency', toCurrency)
-      .eq('to_currency', fromCurrency)
-      .lte('effective_date', effectiveDate)
-      .order('effective_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    return null;
+  },
 
-    if (inverseError) throw inverseError;
+  /**
+   * Find the rate for a currency pair on a date, or throw when there is none
+   */
+  async requireExchangeRate(
+    fromCurrency: string,
+    toCurrency: string,
+    date: string,
+    businessId?: string
+  ): Promise<ResolvedExchangeRate> {
+    const rate = await this.findExchangeRate(fromCurrency, toCurrency, date, businessId);
+    if (!rate) {
+      throw new Error(
+        `No ${fromCurrency} to ${toCurrency} exchange rate on or before ${date}. Add one under Accounting > Exchange Rates.`
+      );
+    }
+    return rate;
+  },
 
-    if (inverseRate) {
-      return 1 / Number(inverseRate.rate);
+  /**
+   * Get the exchange rate for a specific currency pair on a specific date
+   * Returns the most recent rate on or before the given date
+   */
+  async getExchangeRate(
+    fromCurrency: string,
+    toCurrency: string,
+    date?: string,
+    businessId?: string
+  ): Promise<number> {
+    const found = await this.findExchangeRate(fromCurrency, toCurrency, date, businessId);
+    if (found) {
+      return found.rate;
     }
 
     // No rate found - default to 1 (should log warning in production)
-    console.warn(`No exchange rate found for ${fromCurrency} to ${toCurrency} on ${effectiveDate}`);
+    console.warn(`No exchange rate found for ${fromCurrency} to ${toCurrency} on ${date}`);
     return 1;
   },
 
@@ -155,11 +214,13 @@ export const currencyService = {
     toCurrency: string,
     rate: number,
     effectiveDate: string,
-    source: 'manual' | 'api' | 'bank' = 'manual'
+    source: ExchangeRateSource = 'manual',
+    businessId?: string
   ): Promise<ExchangeRate> {
     const { data, error } = await supabase
       .from('exchange_rates')
       .insert({
+        business_id: businessId ?? null,
         from_currency: fromCurrency,
         to_currency: toCurrency,
         rate,
@@ -178,7 +239,7 @@ export const currencyService = {
    */
   async updateExchangeRate(
     id: string,
-    updates: { rate?: number; effective_date?: string; source?: string }
+    updates: { rate?: number; effective_date?: string; source?: ExchangeRateSource; filled_from_date?: string | null }
   ): Promise<ExchangeRate> {
     const { data, error } = await supabase
       .from('exchange_rates')
@@ -215,9 +276,10 @@ export const currencyService = {
     amountCents: number,
     fromCurrency: string,
     toCurrency: string,
-    date?: string
+    date?: string,
+    businessId?: string
   ): Promise<{ amountCents: number; rate: number }> {
-    const rate = await this.getExchangeRate(fromCurrency, toCurrency, date);
+    const rate = await this.getExchangeRate(fromCurrency, toCurrency, date, businessId);
     const convertedAmount = Math.round(amountCents * rate);
 
     return {
@@ -274,7 +336,8 @@ export const currencyService = {
    */
   async convertToBaseCurrency(
     amounts: Array<{ amountCents: number; currency: string; date?: string }>,
-    baseCurrency: string
+    baseCurrency: string,
+    businessId?: string
   ): Promise<{ totalCents: number; conversions: Array<{ original: number; converted: number; rate: number }> }> {
     const conversions: Array<{ original: number; converted: number; rate: number }> = [];
     let totalCents = 0;
@@ -284,7 +347,8 @@ export const currencyService = {
         item.amountCents,
         item.currency,
         baseCurrency,
-        item.date
+        item.date,
+        businessId
       );
 
       conversions.push({
@@ -318,7 +382,8 @@ export const currencyService = {
   },
 
   /**
-   * Bulk create exchange rates (e.g., from API import)
+   * Bulk create exchange rates (e.g., from API import). Rates already
+   * entered for the same pair and date are replaced.
    */
   async bulkCreateExchangeRates(
     rates: Array<{
@@ -326,20 +391,27 @@ export const currencyService = {
       toCurrency: string;
       rate: number;
       effectiveDate: string;
+      filledFromDate?: string;
     }>,
-    source: 'manual' | 'api' | 'bank' = 'api'
+    source: ExchangeRateSource = 'api',
+    businessId?: string,
+    origin?: { provider: ExchangeRateProvider; importId: string }
   ): Promise<ExchangeRate[]> {
     const { data, error } = await supabase
       .from('exchange_rates')
       .upsert(
         rates.map((r) => ({
+          business_id: businessId ?? null,
           from_currency: r.fromCurrency,
           to_currency: r.toCurrency,
           rate: r.rate,
           effective_date: r.effectiveDate,
           source,
+          provider: origin?.provider ?? null,
+          import_id: origin?.importId ?? null,
+          filled_from_date: r.filledFromDate ?? null,
         })),
-        { onConflict: 'from_currency,to_currency,effective_date' }
+        { onConflict: 'business_id,from_currency,to_currency,effective_date' }
       )
       .select();
 
@@ -17,7 +17,7 @@ export interface ExportOptions {
   pageSize?: 'a4' | 'letter' | 'legal';
 }
 
-interface ExportColumn {
+export interface ExportColumn {
   key: string;
   label: string;
   format?: (value: any) => string;
@@ -608,6 +608,38 @@ export const emailService = {
     });
   },
 
+  /**
+   * Send a signer their individual signing link, or a reminder to sign
+   */
+  async sendAgreementSignerInvitation(
+    to: string,
+    data: {
+      signerName: string;
+      roleLabel: string;
+      landlordName: string;
+      propertyAddress: string;
+      agreementTitle: string;
+      signingUrl: string;
+      signatureDeadline?: string;
+      isReminder?: boolean;
+    }
+  ): Promise<{ success: boolean; message: string }> {
+    const deadlineText = data.signatureDeadline
+      ? `\n\nPlease sign by: ${data.signatureDeadline}`
+      : '';
+    const intro = data.isReminder
+      ? `This is a reminder that ${data.agreementTitle} is waiting for your signature as ${data.roleLabel}.`
+      : `${data.landlordName} has asked you to sign ${data.agreementTitle} as ${data.roleLabel}.`;
+
+    return this.sendEmail(to, 'notification', {
+      subject: `${data.isReminder ? 'Reminder: ' : 'Action Required: '}Please Sign ${data.agreementTitle} - ${data.propertyAddress}`,
+      name: data.signerName,
+      message: `${intro}\n\nProperty: ${data.propertyAddress}${deadlineText}\n\nThis link is for you only. Please do not forward it.`,
+      action_url: data.signingUrl,
+      action_text: 'Review & Sign Agreement',
+    });
+  },
+
   /**
    * Send agreement signed confirmation to tenant
    */
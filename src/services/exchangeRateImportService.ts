@@ -0,0 +1,311 @@
+import { supabase } from '../lib/supabase';
+import {
+  ExchangeRate,
+  ExchangeRateImport,
+  ExchangeRateImportTrigger,
+  ExchangeRateProvider,
+  GLJournal,
+} from '../types';
+import { glAccountService } from './glAccountService';
+import { currencyService } from './currencyService';
+import {
+  RATE_PROVIDERS,
+  ParsedExchangeRate,
+  isAllowedRateFeedUrl,
+  quoteInBaseCurrency,
+  fillRateGaps,
+} from '../utils/exchangeRateParser';
+
+export interface ImportRatesOptions {
+  trigger: ExchangeRateImportTrigger;
+  fileName?: string;
+  sourceUrl?: string;
+}
+
+export type JournalRateAuditEntry = Pick<
+  GLJournal,
+  | 'id'
+  | 'journal_number'
+  | 'journal_date'
+  | 'status'
+  | 'transaction_currency'
+  | 'exchange_rate'
+  | 'exchange_rate_date'
+  | 'exchange_rate_inverted'
+  | 'total_debit_cents'
+  | 'base_total_debit_cents'
+> & {
+  rate: (ExchangeRate & {
+    import?: Pick<ExchangeRateImport, 'id' | 'provider' | 'trigger_source' | 'file_name' | 'source_url' | 'created_at'> | null;
+  }) | null;
+  // The rate row has been edited or replaced since the journal used it
+  rateChanged: boolean;
+};
+
+export const EXCHANGE_RATE_IMPORT_TRIGGER_LABELS: Record<ExchangeRateImportTrigger, string> = {
+  upload: 'File upload',
+  fetch: 'Downloaded',
+  scheduled: 'Scheduled',
+};
+
+const UPSERT_BATCH_SIZE = 500;
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+/**
+ * Download a provider's rate file
+ */
+async function fetchRateFile(url: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new Error(`Could not reach ${url}: ${err instanceof Error ? err.message : 'network error'}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Rate download from ${url} failed with status ${response.status}`);
+  }
+  return response.text();
+}
+
+export const exchangeRateImportService = {
+  // ========================================
+  // Import
+  // ========================================
+
+  /**
+   * Read a rate file in a provider's format
+   */
+  parseRateFile(provider: ExchangeRateProvider, content: string): ParsedExchangeRate[] {
+    const rates = RATE_PROVIDERS[provider].parse(content);
+    if (rates.length === 0) {
+      throw new Error(`No rates found. Check the file is in the ${RATE_PROVIDERS[provider].name} format.`);
+    }
+    return rates;
+  },
+
+  /**
+   * Import a rate file into the business's rates. Rates are restated
+   * against the base currency and carried forward over weekends and
+   * holidays. Every import is recorded, including failed ones.
+   */
+  async importRates(
+    businessId: string,
+    userId: string | null,
+    provider: ExchangeRateProvider,
+    content: string,
+    options: ImportRatesOptions
+  ): Promise<ExchangeRateImport> {
+    const record = {
+      business_id: businessId,
+      provider,
+      trigger_source: options.trigger,
+      file_name: options.fileName,
+      source_url: options.sourceUrl,
+      created_by: userId,
+    };
+
+    const fail = async (err: unknown, importId?: string): Promise<never> => {
+      const message = err instanceof Error ? err.message : 'Import failed';
+      if (importId) {
+        await supabase
+          .from('exchange_rate_imports')
+          .update({ status: 'failed', error_message: message, rates_imported: 0, rates_filled: 0 })
+          .eq('id', importId);
+      } else {
+        await supabase.from('exchange_rate_imports').insert({ ...record, status: 'failed', error_message: message });
+      }
+      throw err;
+    };
+
+    let published: ParsedExchangeRate[];
+    let skipped: string[];
+    let baseCurrency: string;
+    try {
+      const settings = await glAccountService.getAccountingSettings(businessId);
+      baseCurrency = settings?.base_currency || 'CAD';
+      const active = new Set((await currencyService.getActiveCurrencies()).map(c => c.code));
+
+      const parsed = this.parseRateFile(provider, content);
+      published = quoteInBaseCurrency(parsed, baseCurrency).filter(r => active.has(r.fromCurrency));
+
+      const imported = new Set(published.map(r => r.fromCurrency));
+      skipped = [...new Set(parsed.flatMap(r => [r.fromCurrency, r.toCurrency]))]
+        .filter(code => code !== baseCurrency && !imported.has(code))
+        .sort();
+
+      if (published.length === 0) {
+        throw new Error(`None of the rates in the file could be quoted in ${baseCurrency} for an active currency`);
+      }
+    } catch (err) {
+      return fail(err);
+    }
+
+    // The same pair and date twice in one file would fail the upsert
+    const unique = new Map(published.map(r => [`${r.fromCurrency}:${r.effectiveDate}`, r]));
+    const filled = fillRateGaps([...unique.values()], today());
+    const dates = filled.map(r => r.effectiveDate).sort();
+    const startDate = dates[0]!;
+    const endDate = dates[dates.length - 1]!;
+
+    const { data: importRow, error } = await supabase
+      .from('exchange_rate_imports')
+      .insert({
+        ...record,
+        status: 'succeeded',
+        start_date: startDate,
+        end_date: endDate,
+        skipped_currencies: skipped,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    try {
+      // Filled days never replace a rate that was published or entered for that day
+      const { data: existing, error: existingError } = await supabase
+        .from('exchange_rates')
+        .select('from_currency, effective_date')
+        .eq('business_id', businessId)
+        .eq('to_currency', baseCurrency)
+        .is('filled_from_date', null)
+        .gte('effective_date', startDate)
+        .lte('effective_date', endDate);
+
+      if (existingError) throw existingError;
+
+      const taken = new Set((existing || []).map(r => `${r.from_currency}:${r.effective_date}`));
+      const rates = filled.filter(r => !r.filledFromDate || !taken.has(`${r.fromCurrency}:${r.effectiveDate}`));
+
+      for (let i = 0; i < rates.length; i += UPSERT_BATCH_SIZE) {
+        await currencyService.bulkCreateExchangeRates(
+          rates.slice(i, i + UPSERT_BATCH_SIZE),
+          options.trigger === 'upload' ? 'import' : 'api',
+          businessId,
+          { provider, importId: importRow.id }
+        );
+      }
+
+      const ratesFilled = rates.filter(r => r.filledFromDate).length;
+      const { data, error: updateError } = await supabase
+        .from('exchange_rate_imports')
+        .update({ rates_imported: rates.length - ratesFilled, rates_filled: ratesFilled })
+        .eq('id', importRow.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+      return data;
+    } catch (err) {
+      return fail(err, importRow.id);
+    }
+  },
+
+  /**
+   * Download the latest rates from the business's provider feed, or from
+   * the URL it has been pointed at instead
+   */
+  async fetchRates(
+    businessId: string,
+    userId: string | null,
+    trigger: ExchangeRateImportTrigger = 'fetch'
+  ): Promise<ExchangeRateImport> {
+    const settings = await glAccountService.getAccountingSettings(businessId);
+    const provider = settings?.rate_provider;
+    if (!provider) {
+      throw new Error('Choose a rate provider before downloading rates');
+    }
+
+    const url = settings.rate_provider_url || RATE_PROVIDERS[provider].defaultUrl;
+    if (!url) {
+      throw new Error(`${RATE_PROVIDERS[provider].name} has no download address. Upload a file instead.`);
+    }
+    if (!isAllowedRateFeedUrl(provider, url)) {
+      throw new Error(`${RATE_PROVIDERS[provider].name} rates can only be downloaded over https from ${new URL(RATE_PROVIDERS[provider].defaultUrl!).host}`);
+    }
+
+    let content: string;
+    try {
+      content = await fetchRateFile(url);
+    } catch (err) {
+      await supabase.from('exchange_rate_imports').insert({
+        business_id: businessId,
+        provider,
+        trigger_source: trigger,
+        source_url: url,
+        status: 'failed',
+        error_message: err instanceof Error ? err.message : 'Download failed',
+        created_by: userId,
+      });
+      throw err;
+    }
+
+    return this.importRates(businessId, userId, provider, content, { trigger, sourceUrl: url });
+  },
+
+  /**
+   * Recent imports for a business, newest first
+   */
+  async getImports(businessId: string, limit = 20): Promise<ExchangeRateImport[]> {
+    const { data, error } = await supabase
+      .from('exchange_rate_imports')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // ========================================
+  // Audit
+  // ========================================
+
+  /**
+   * Journals converted from another currency, with the rate each used and
+   * where that rate came from
+   */
+  async getJournalRateAudit(
+    businessId: string,
+    filters?: { startDate?: string; endDate?: string; currency?: string }
+  ): Promise<JournalRateAuditEntry[]> {
+    const settings = await glAccountService.getAccountingSettings(businessId);
+
+    let query = supabase
+      .from('gl_journals')
+      .select(`
+        id, journal_number, journal_date, status, transaction_currency,
+        exchange_rate, exchange_rate_date, exchange_rate_inverted,
+        total_debit_cents, base_total_debit_cents,
+        rate:exchange_rates(*, import:exchange_rate_imports(id, provider, trigger_source, file_name, source_url, created_at))
+      `)
+      .eq('business_id', businessId)
+      .neq('transaction_currency', settings?.base_currency || 'CAD')
+      .order('journal_date', { ascending: false })
+      .order('journal_number', { ascending: false })
+      .limit(500);
+
+    if (filters?.startDate) query = query.gte('journal_date', filters.startDate);
+    if (filters?.endDate) query = query.lte('journal_date', filters.endDate);
+    if (filters?.currency) query = query.eq('transaction_currency', filters.currency);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).map((journal: any) => {
+      const rate = journal.rate;
+      const current = rate ? (journal.exchange_rate_inverted ? 1 / Number(rate.rate) : Number(rate.rate)) : null;
+      return {
+        ...journal,
+        rateChanged: !!rate && (
+          rate.effective_date !== journal.exchange_rate_date
+          || Math.abs(current! - Number(journal.exchange_rate)) > 1e-8
+        ),
+      };
+    });
+  },
+};
@@ -10,11 +10,15 @@ import {
   CashFlowStatement,
 } from '../types';
 import { glAccountService } from './glAccountService';
+import { currencyService } from './currencyService';
+import { dataExportService, ExportColumn, ExportFormat } from './dataExportService';
+import { pdfGenerationService } from './pdfGenerationService';
 
 export interface ReportFilters {
   startDate?: string;
   endDate?: string;
   propertyId?: string;
+  unitId?: string;
   asOfDate?: string;
   comparePriorPeriod?: boolean;
   comparePriorYear?: boolean;
@@ -30,6 +34,182 @@ export interface AccountBalance {
   netBalance: number;
 }
 
+export type StatementType = 'balance_sheet' | 'income_statement' | 'cash_flow';
+
+export interface StatementColumn {
+  label: string;
+  startDate: string;
+  // Balance sheets are as of this date
+  endDate: string;
+}
+
+export interface StatementLine {
+  key: string;
+  label: string;
+  kind: 'heading' | 'account' | 'item' | 'total' | 'grand_total';
+  depth: number;
+  // Set on lines backed by a GL account, for drill-down
+  accountId?: string;
+  accountNumber?: string;
+  // One amount per column; headings have none
+  amounts: number[];
+}
+
+export interface ComparativeStatement {
+  type: StatementType;
+  title: string;
+  // Currency the amounts are presented in
+  currencyCode: string;
+  baseCurrencyCode: string;
+  // Set when presented in another currency: the rate from base currency
+  // used for each column, as of the column's end date
+  translationRates?: number[];
+  columns: StatementColumn[];
+  lines: StatementLine[];
+  // Balance sheets only, one flag per column
+  isBalanced?: boolean[];
+  generatedAt: string;
+}
+
+export interface PropertyComparisonRow {
+  propertyId: string;
+  revenue: number;
+  expenses: number;
+  netIncome: number;
+  noi: number;
+}
+
+export const STATEMENT_TYPE_LABELS: Record<StatementType, string> = {
+  balance_sheet: 'Balance Sheet',
+  income_statement: 'Income Statement',
+  cash_flow: 'Cash Flow Statement',
+};
+
+type SectionLike = {
+  title: string;
+  accounts: Array<{
+    account_id: string;
+    account_number: string;
+    account_name: string;
+    balance_cents?: number;
+    amount_cents?: number;
+  }>;
+  total_cents: number;
+  subsections?: SectionLike[];
+};
+
+type CashFlowItem = { description: string; amount_cents: number };
+
+const formatAmount = (cents: number | null | undefined) =>
+  cents == null ? '' : (cents / 100).toFixed(2);
+
+const shiftDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0]!;
+};
+
+// Same day of the month, or the last day of shorter months
+const shiftMonths = (date: string, months: number) => {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0]!;
+};
+
+const isMonthEnd = (date: string) => shiftDays(date, 1).endsWith('-01');
+
+const monthEnd = (date: string) => shiftDays(shiftMonths(`${date.slice(0, 7)}-01`, 1), -1);
+
+/**
+ * Narrow a gl_ledger query to a property and/or unit
+ */
+function filterDimensions<T extends { eq: (column: string, value: string) => T }>(
+  query: T,
+  propertyId?: string,
+  unitId?: string
+): T {
+  let filtered = query;
+  if (propertyId) filtered = filtered.eq('property_id', propertyId);
+  if (unitId) filtered = filtered.eq('unit_id', unitId);
+  return filtered;
+}
+
+/**
+ * Flatten the same section taken from each column's statement into lines.
+ * Subsections with no accounts in any column are left out.
+ */
+function sectionLines(
+  key: string,
+  sections: Array<SectionLike | undefined>,
+  depth: number
+): StatementLine[] {
+  const first = sections.find(Boolean);
+  if (!first) return [];
+
+  const lines: StatementLine[] = [{ key, label: first.title, kind: 'heading', depth, amounts: [] }];
+
+  if (first.subsections?.length) {
+    first.subsections.forEach((_, i) => {
+      const subLines = sectionLines(`${key}/${i}`, sections.map(s => s?.subsections?.[i]), depth + 1);
+      if (subLines.some(l => l.kind === 'account')) lines.push(...subLines);
+    });
+  } else {
+    const accounts = new Map<string, SectionLike['accounts'][number]>();
+    for (const section of sections) {
+      for (const account of section?.accounts || []) {
+        if (!accounts.has(account.account_id)) accounts.set(account.account_id, account);
+      }
+    }
+
+    [...accounts.values()]
+      .sort((a, b) => a.account_number.localeCompare(b.account_number))
+      .forEach(account => {
+        lines.push({
+          key: `${key}/${account.account_id}`,
+          label: account.account_name,
+          kind: 'account',
+          depth: depth + 1,
+          // Current year earnings is calculated, not a real account
+          accountId: account.account_id === 'current_year_earnings' ? undefined : account.account_id,
+          accountNumber: account.account_number,
+          amounts: sections.map(s => {
+            const match = s?.accounts.find(a => a.account_id === account.account_id);
+            return match?.balance_cents ?? match?.amount_cents ?? 0;
+          }),
+        });
+      });
+  }
+
+  lines.push({
+    key: `${key}/total`,
+    label: `Total ${first.title}`,
+    kind: 'total',
+    depth,
+    amounts: sections.map(s => s?.total_cents ?? 0),
+  });
+
+  return lines;
+}
+
+/**
+ * Cash flow items matched across columns by description
+ */
+function itemLines(key: string, lists: CashFlowItem[][], depth: number, sign = 1): StatementLine[] {
+  const descriptions = [...new Set(lists.flatMap(items => items.map(i => i.description)))];
+
+  return descriptions.map(description => ({
+    key: `${key}/${description}`,
+    label: description,
+    kind: 'item' as const,
+    depth,
+    amounts: lists.map(items =>
+      sign * items.filter(i => i.description === description).reduce((sum, i) => sum + i.amount_cents, 0)
+    ),
+  }));
+}
+
 export const financialReportingService = {
   // ========================================
   // Trial Balance
@@ -163,6 +343,7 @@ export const financialReportingService = {
     asOfDate: string,
     options?: {
       propertyId?: string;
+      unitId?: string;
       comparePriorYear?: boolean;
     }
   ): Promise<BalanceSheet> {
@@ -170,7 +351,8 @@ export const financialReportingService = {
     const accountBalances = await this.getAccountBalances(
       businessId,
       asOfDate,
-      options?.propertyId
+      options?.propertyId,
+      options?.unitId
     );
 
     // Group accounts into sections
@@ -206,7 +388,8 @@ export const financialReportingService = {
       businessId,
       `${new Date(asOfDate).getFullYear()}-01-01`,
       asOfDate,
-      options?.propertyId
+      options?.propertyId,
+      options?.unitId
     );
 
     for (const balance of accountBalances) {
@@ -279,7 +462,7 @@ export const financialReportingService = {
       const priorBalance = await this.generateBalanceSheet(
         businessId,
         priorAsOfDate,
-        { propertyId: options.propertyId }
+        { propertyId: options.propertyId, unitId: options.unitId }
       );
 
       priorYearAssets = priorBalance.total_assets_cents;
@@ -323,6 +506,7 @@ export const financialReportingService = {
     endDate: string,
     options?: {
       propertyId?: string;
+      unitId?: string;
       comparePriorPeriod?: boolean;
       comparePriorYear?: boolean;
     }
@@ -332,7 +516,8 @@ export const financialReportingService = {
       businessId,
       startDate,
       endDate,
-      options?.propertyId
+      options?.propertyId,
+      options?.unitId
     );
 
     // Get all accounts
@@ -407,6 +592,7 @@ export const financialReportingService = {
         revenue.total_cents += netActivity;
       } else if (account.account_type === 'expense') {
         const accNum = parseInt(account.account_number);
+        const isOtherExpense = accNum >= 6000;
 
         if (accNum >= 5100 && accNum < 5200 && opExpSubsections[0]) {
           opExpSubsections[0].accounts.push(accountInfo);
@@ -420,7 +606,7 @@ export const financialReportingService = {
         } else if (accNum >= 5500 && accNum < 6000 && opExpSubsections[3]) {
           opExpSubsections[3].accounts.push(accountInfo);
           opExpSubsections[3].total_cents += netActivity;
-        } else if (accNum >= 6000) {
+        } else if (isOtherExpense) {
           otherExpenses.accounts.push(accountInfo);
           otherExpenses.total_cents += netActivity;
         } else if (opExpSubsections[4]) {
@@ -428,7 +614,10 @@ export const financialReportingService = {
           opExpSubsections[4].total_cents += netActivity;
         }
 
-        operatingExpenses.total_cents += netActivity;
+        // Other expenses are reported below operating income
+        if (!isOtherExpense) {
+          operatingExpenses.total_cents += netActivity;
+        }
       }
     }
 
@@ -442,21 +631,14 @@ export const financialReportingService = {
     let priorYearRevenue: IncomeStatementSection | undefined;
     let priorYearExpenses: IncomeStatementSection | undefined;
 
-    if (options?.comparePriorPeriod) {
-      const periodDays = Math.ceil(
-        (new Date(endDate).getTime() - new Date(startDate).getTime()) /
-          (1000 * 60 * 60 * 24)
-      );
-      const priorStart = new Date(startDate);
-      priorStart.setDate(priorStart.getDate() - periodDays - 1);
-      const priorEnd = new Date(startDate);
-      priorEnd.setDate(priorEnd.getDate() - 1);
+    const comparisons = this.getComparisonPeriods(startDate, endDate);
 
+    if (options?.comparePriorPeriod) {
       const priorStatement = await this.generateIncomeStatement(
         businessId,
-        priorStart.toISOString().slice(0, 10),
-        priorEnd.toISOString().slice(0, 10),
-        { propertyId: options.propertyId }
+        comparisons.priorPeriod.startDate,
+        comparisons.priorPeriod.endDate,
+        { propertyId: options.propertyId, unitId: options.unitId }
       );
 
       priorPeriodRevenue = priorStatement.revenue;
@@ -464,16 +646,11 @@ export const financialReportingService = {
     }
 
     if (options?.comparePriorYear) {
-      const priorYearStart = new Date(startDate);
-      priorYearStart.setFullYear(priorYearStart.getFullYear() - 1);
-      const priorYearEnd = new Date(endDate);
-      priorYearEnd.setFullYear(priorYearEnd.getFullYear() - 1);
-
       const priorStatement = await this.generateIncomeStatement(
         businessId,
-        priorYearStart.toISOString().slice(0, 10),
-        priorYearEnd.toISOString().slice(0, 10),
-        { propertyId: options.propertyId }
+        comparisons.priorYear.startDate,
+        comparisons.priorYear.endDate,
+        { propertyId: options.propertyId, unitId: options.unitId }
       );
 
       priorYearRevenue = priorStatement.revenue;
@@ -525,24 +702,29 @@ export const financialReportingService = {
     endDate: string,
     options?: {
       propertyId?: string;
+      unitId?: string;
     }
   ): Promise<CashFlowStatement> {
     // Get all cash/bank account IDs
     const bankAccounts = await glAccountService.getBankAccounts(businessId);
     const bankAccountIds = bankAccounts.map((a) => a.id);
 
-    // Get opening cash balance
+    // Get opening cash balance, as at the close of the day before the period
     const openingBalance = await this.getCashBalance(
       businessId,
-      startDate,
-      bankAccountIds
+      shiftDays(startDate, -1),
+      bankAccountIds,
+      options?.propertyId,
+      options?.unitId
     );
 
     // Get closing cash balance
     const closingBalance = await this.getCashBalance(
       businessId,
       endDate,
-      bankAccountIds
+      bankAccountIds,
+      options?.propertyId,
+      options?.unitId
     );
 
     // Get cash receipts and payments
@@ -556,9 +738,7 @@ export const financialReportingService = {
       .gte('posting_date', startDate)
       .lte('posting_date', endDate);
 
-    if (options?.propertyId) {
-      query = query.eq('property_id', options.propertyId);
-    }
+    query = filterDimensions(query, options?.propertyId, options?.unitId);
 
     const { data: cashEntries, error } = await query;
 
@@ -614,18 +794,12 @@ export const financialReportingService = {
           break;
 
         case 'special_transaction':
-          // Could be financing (owner draw/contribution)
-          if (netReceipts > 0) {
-            financing.items.push({
-              description: 'Owner Contributions',
-              amount_cents: netReceipts,
-            });
-          } else {
-            financing.items.push({
-              description: 'Owner Draws',
-              amount_cents: -netReceipts,
-            });
-          }
+          // Could be financing (owner draw/contribution). Amounts are signed
+          // so the items add up to the section total.
+          financing.items.push({
+            description: netReceipts > 0 ? 'Owner Contributions' : 'Owner Draws',
+            amount_cents: netReceipts,
+          });
           financing.total_cents += netReceipts;
           break;
 
@@ -691,16 +865,8 @@ export const financialReportingService = {
     propertyIds: string[],
     startDate: string,
     endDate: string
-  ): Promise<
-    Array<{
-      propertyId: string;
-      revenue: number;
-      expenses: number;
-      netIncome: number;
-      noi: number;
-    }>
-  > {
-    const results = [];
+  ): Promise<PropertyComparisonRow[]> {
+    const results: PropertyComparisonRow[] = [];
 
     for (const propertyId of propertyIds) {
       const statement = await this.generateIncomeStatement(
@@ -724,6 +890,300 @@ export const financialReportingService = {
     return results;
   },
 
+  /**
+   * Export a property comparison. Property names are looked up by the
+   * caller since the comparison only carries IDs.
+   */
+  exportPropertyComparison(
+    rows: Array<PropertyComparisonRow & { propertyName: string }>,
+    format: ExportFormat,
+    businessName: string,
+    period: string
+  ): void {
+    const totals = rows.reduce(
+      (sum, r) => ({
+        revenue: sum.revenue + r.revenue,
+        expenses: sum.expenses + r.expenses,
+        noi: sum.noi + r.noi,
+        netIncome: sum.netIncome + r.netIncome,
+      }),
+      { revenue: 0, expenses: 0, noi: 0, netIncome: 0 }
+    );
+
+    const columns: ExportColumn[] = [
+      { key: 'propertyName', label: 'Property', format: v => v || '' },
+      { key: 'revenue', label: 'Revenue', format: formatAmount },
+      { key: 'expenses', label: 'Operating Expenses', format: formatAmount },
+      { key: 'noi', label: 'Net Operating Income', format: formatAmount },
+      { key: 'netIncome', label: 'Net Income', format: formatAmount },
+    ];
+
+    dataExportService.export([...rows, { propertyName: 'Total', ...totals }], columns, {
+      filename: `Property Comparison - ${businessName} - ${period}`,
+      format,
+    });
+  },
+
+  // ========================================
+  // Comparative Statements
+  // ========================================
+
+  /**
+   * The periods a statement is compared against: the period of the same
+   * length just before it (whole months move by months), and the same
+   * dates a year earlier
+   */
+  getComparisonPeriods(
+    startDate: string,
+    endDate: string
+  ): {
+    priorPeriod: { startDate: string; endDate: string };
+    priorYear: { startDate: string; endDate: string };
+  } {
+    let priorStart: string;
+    if (startDate.endsWith('-01') && isMonthEnd(endDate)) {
+      const months =
+        (parseInt(endDate.slice(0, 4)) - parseInt(startDate.slice(0, 4))) * 12 +
+        parseInt(endDate.slice(5, 7)) - parseInt(startDate.slice(5, 7)) + 1;
+      priorStart = shiftMonths(startDate, -months);
+    } else {
+      const days = Math.round(
+        (new Date(`${endDate}T00:00:00Z`).getTime() - new Date(`${startDate}T00:00:00Z`).getTime()) /
+          (1000 * 60 * 60 * 24)
+      ) + 1;
+      priorStart = shiftDays(startDate, -days);
+    }
+
+    const yearAgoEnd = shiftMonths(endDate, -12);
+
+    return {
+      priorPeriod: { startDate: priorStart, endDate: shiftDays(startDate, -1) },
+      priorYear: {
+        startDate: shiftMonths(startDate, -12),
+        endDate: isMonthEnd(endDate) ? monthEnd(yearAgoEnd) : yearAgoEnd,
+      },
+    };
+  },
+
+  /**
+   * Columns for a statement over a period with the requested comparisons
+   */
+  getStatementColumns(
+    startDate: string,
+    endDate: string,
+    options?: {
+      comparePriorPeriod?: boolean;
+      comparePriorYear?: boolean;
+    }
+  ): StatementColumn[] {
+    const { priorPeriod, priorYear } = this.getComparisonPeriods(startDate, endDate);
+    const columns: StatementColumn[] = [{ label: 'Current Period', startDate, endDate }];
+
+    if (options?.comparePriorPeriod) {
+      columns.push({ label: 'Prior Period', ...priorPeriod });
+    }
+    if (options?.comparePriorYear) {
+      columns.push({ label: 'Prior Year', ...priorYear });
+    }
+
+    return columns;
+  },
+
+  /**
+   * Generate a statement for each column and line them up side by side.
+   * Accounts that only have activity in some columns show zero in the rest.
+   */
+  async generateComparativeStatement(
+    businessId: string,
+    type: StatementType,
+    columns: StatementColumn[],
+    options?: {
+      propertyId?: string;
+      unitId?: string;
+      // Present the statement in another currency
+      presentationCurrency?: string;
+    }
+  ): Promise<ComparativeStatement> {
+    const filters = { propertyId: options?.propertyId, unitId: options?.unitId };
+    const settings = await glAccountService.getAccountingSettings(businessId);
+    const baseCurrency = settings?.base_currency || 'CAD';
+    const presentationCurrency = options?.presentationCurrency || baseCurrency;
+    const lines: StatementLine[] = [];
+    let isBalanced: boolean[] | undefined;
+
+    if (type === 'balance_sheet') {
+      const sheets = await Promise.all(
+        columns.map(c => this.generateBalanceSheet(businessId, c.endDate, filters))
+      );
+
+      lines.push(
+        ...sectionLines('assets', sheets.map(s => s.assets), 0),
+        ...sectionLines('liabilities', sheets.map(s => s.liabilities), 0),
+        ...sectionLines('equity', sheets.map(s => s.equity), 0),
+        {
+          key: 'liabilities_and_equity',
+          label: 'Total Liabilities and Equity',
+          kind: 'grand_total',
+          depth: 0,
+          amounts: sheets.map(s => s.total_liabilities_and_equity_cents),
+        }
+      );
+      isBalanced = sheets.map(s => s.is_balanced);
+    } else if (type === 'income_statement') {
+      const statements = await Promise.all(
+        columns.map(c => this.generateIncomeStatement(businessId, c.startDate, c.endDate, filters))
+      );
+
+      lines.push(
+        ...sectionLines('revenue', statements.map(s => s.revenue), 0),
+        ...sectionLines('operating_expenses', statements.map(s => s.operating_expenses), 0),
+        {
+          key: 'operating_income',
+          label: 'Net Operating Income',
+          kind: 'grand_total',
+          depth: 0,
+          amounts: statements.map(s => s.operating_income_cents ?? 0),
+        },
+        ...sectionLines('other_expenses', statements.map(s => s.other_expenses), 0),
+        {
+          key: 'net_income',
+          label: 'Net Income',
+          kind: 'grand_total',
+          depth: 0,
+          amounts: statements.map(s => s.net_income_cents),
+        }
+      );
+    } else {
+      const statements = await Promise.all(
+        columns.map(c => this.generateCashFlowStatement(businessId, c.startDate, c.endDate, filters))
+      );
+      const operating = statements.map(s => s.operating_activities);
+
+      lines.push(
+        { key: 'operating', label: 'Operating Activities', kind: 'heading', depth: 0, amounts: [] },
+        ...itemLines('operating/receipts', operating.map(o => o.receipts.items), 1),
+        // Payments are reported as positive amounts; show them as outflows
+        ...itemLines('operating/payments', operating.map(o => o.payments.items), 1, -1),
+        {
+          key: 'operating/total',
+          label: 'Net Cash from Operating Activities',
+          kind: 'total',
+          depth: 0,
+          amounts: operating.map(o => o.net_cents),
+        },
+        { key: 'investing', label: 'Investing Activities', kind: 'heading', depth: 0, amounts: [] },
+        ...itemLines('investing', statements.map(s => s.investing_activities.items), 1),
+        {
+          key: 'investing/total',
+          label: 'Net Cash from Investing Activities',
+          kind: 'total',
+          depth: 0,
+          amounts: statements.map(s => s.investing_activities.total_cents),
+        },
+        { key: 'financing', label: 'Financing Activities', kind: 'heading', depth: 0, amounts: [] },
+        ...itemLines('financing', statements.map(s => s.financing_activities.items), 1),
+        {
+          key: 'financing/total',
+          label: 'Net Cash from Financing Activities',
+          kind: 'total',
+          depth: 0,
+          amounts: statements.map(s => s.financing_activities.total_cents),
+        },
+        {
+          key: 'net_change',
+          label: 'Net Change in Cash',
+          kind: 'grand_total',
+          depth: 0,
+          amounts: statements.map(s => s.net_change_cents),
+        },
+        {
+          key: 'opening_cash',
+          label: 'Cash at Beginning of Period',
+          kind: 'item',
+          depth: 0,
+          amounts: statements.map(s => s.opening_cash_cents),
+        },
+        {
+          key: 'closing_cash',
+          label: 'Cash at End of Period',
+          kind: 'grand_total',
+          depth: 0,
+          amounts: statements.map(s => s.closing_cash_cents),
+        }
+      );
+    }
+
+    // Translate each column at the rate as of its end date
+    let translationRates: number[] | undefined;
+    if (presentationCurrency !== baseCurrency) {
+      translationRates = await Promise.all(
+        columns.map(async c =>
+          (await currencyService.requireExchangeRate(baseCurrency, presentationCurrency, c.endDate, businessId)).rate
+        )
+      );
+      for (const line of lines) {
+        line.amounts = line.amounts.map((amount, i) => Math.round(amount * translationRates![i]!));
+      }
+    }
+
+    return {
+      type,
+      title: STATEMENT_TYPE_LABELS[type],
+      currencyCode: presentationCurrency,
+      baseCurrencyCode: baseCurrency,
+      translationRates,
+      columns,
+      lines,
+      isBalanced,
+      generatedAt: new Date().toISOString(),
+    };
+  },
+
+  /**
+   * Export a comparative statement. PDFs keep the statement layout;
+   * spreadsheet formats get one row per line with amounts in dollars.
+   */
+  async exportStatement(
+    statement: ComparativeStatement,
+    format: ExportFormat,
+    businessName: string,
+    subtitle?: string
+  ): Promise<void> {
+    const current = statement.columns[0]!;
+    const filename = `${statement.title} - ${businessName} - ${current.endDate}`;
+
+    if (format === 'pdf') {
+      const blob = await pdfGenerationService.generateFinancialStatement(statement, {
+        title: statement.title,
+        organizationName: businessName,
+        period: subtitle,
+        generatedDate: new Date().toLocaleDateString(),
+      });
+      pdfGenerationService.downloadPDF(blob, `${filename}.pdf`);
+      return;
+    }
+
+    const rows = statement.lines.map(line => ({
+      account_number: line.accountNumber,
+      label: `${'  '.repeat(line.depth)}${line.label}`,
+      ...Object.fromEntries(line.amounts.map((amount, i) => [`column_${i}`, amount])),
+    }));
+
+    const columns: ExportColumn[] = [
+      { key: 'account_number', label: 'Account', format: v => v || '' },
+      { key: 'label', label: 'Line', format: v => v || '' },
+      ...statement.columns.map((column, i) => ({
+        key: `column_${i}`,
+        label: statement.type === 'balance_sheet'
+          ? `${column.label} (${column.endDate})`
+          : `${column.label} (${column.startDate} to ${column.endDate})`,
+        format: formatAmount,
+      })),
+    ];
+
+    dataExportService.export(rows, columns, { filename, format });
+  },
+
   // ========================================
   // Helper Methods
   // ========================================
@@ -734,7 +1194,8 @@ export const financialReportingService = {
   async getAccountBalances(
     businessId: string,
     asOfDate: string,
-    propertyId?: string
+    propertyId?: string,
+    unitId?: string
   ): Promise<AccountBalance[]> {
     const accounts = await glAccountService.getAccounts(businessId, {
       isActive: true,
@@ -747,9 +1208,7 @@ export const financialReportingService = {
       .eq('business_id', businessId)
       .lte('posting_date', asOfDate);
 
-    if (propertyId) {
-      query = query.eq('property_id', propertyId);
-    }
+    query = filterDimensions(query, propertyId, unitId);
 
     const { data: ledgerEntries, error } = await query;
 
@@ -803,13 +1262,16 @@ export const financialReportingService = {
   },
 
   /**
-   * Get account activity for a period
+   * Get account activity for a period. Year-end closing entries are left out
+   * unless asked for, so revenue and expenses show what happened in the period.
    */
   async getAccountActivity(
     businessId: string,
     startDate: string,
     endDate: string,
-    propertyId?: string
+    propertyId?: string,
+    unitId?: string,
+    includeClosingEntries = false
   ): Promise<Map<string, { debits: number; credits: number }>> {
     let query = supabase
       .from('gl_ledger')
@@ -818,10 +1280,12 @@ export const financialReportingService = {
       .gte('posting_date', startDate)
       .lte('posting_date', endDate);
 
-    if (propertyId) {
-      query = query.eq('property_id', propertyId);
+    if (!includeClosingEntries) {
+      query = query.eq('is_closing_entry', false);
     }
 
+    query = filterDimensions(query, propertyId, unitId);
+
     const { data: ledgerEntries, error } = await query;
 
     if (error) throw error;
@@ -842,13 +1306,15 @@ export const financialReportingService = {
   },
 
   /**
-   * Calculate net income for a period
+   * Calculate net income for a period not yet closed to retained earnings.
+   * Once the year is closed its net income is carried by retained earnings.
    */
   async calculateNetIncome(
     businessId: string,
     startDate: string,
     endDate: string,
-    propertyId?: string
+    propertyId?: string,
+    unitId?: string
   ): Promise<number> {
     const accounts = await glAccountService.getAccounts(businessId, {
       isActive: true,
@@ -859,7 +1325,9 @@ export const financialReportingService = {
       businessId,
       startDate,
       endDate,
-      propertyId
+      propertyId,
+      unitId,
+      true
     );
 
     let revenue = 0;
@@ -890,17 +1358,21 @@ export const financialReportingService = {
   async getCashBalance(
     businessId: string,
     asOfDate: string,
-    bankAccountIds: string[]
+    bankAccountIds: string[],
+    propertyId?: string,
+    unitId?: string
   ): Promise<number> {
     if (bankAccountIds.length === 0) return 0;
 
-    const { data, error } = await supabase
+    const query = supabase
       .from('gl_ledger')
       .select('base_debit_cents, base_credit_cents')
       .eq('business_id', businessId)
       .in('account_id', bankAccountIds)
       .lte('posting_date', asOfDate);
 
+    const { data, error } = await filterDimensions(query, propertyId, unitId);
+
     if (error) throw error;
 
     let balance = 0;
@@ -1,6 +1,15 @@
 import { supabase } from '../lib/supabase';
-import { FiscalPeriod, FiscalPeriodStatus } from '../types';
+import {
+  FiscalPeriod,
+  FiscalPeriodEvent,
+  FiscalPeriodEventAction,
+  FiscalPeriodStatus,
+  GLAccount,
+} from '../types';
 import { glAccountService } from './glAccountService';
+import { fxRevaluationService } from './fxRevaluationService';
+import { journalService, JournalEntryInput } from './journalService';
+import { GL_ACCOUNTS } from '../config/glAccountMappings';
 
 export interface FiscalPeriodFilters {
   fiscalYear?: number;
@@ -18,6 +27,170 @@ export interface FiscalYearSummary {
   isCurrentYear: boolean;
 }
 
+export type CloseChecklistKey =
+  | 'unposted_journals'
+  | 'pending_approvals'
+  | 'draft_bills'
+  | 'unposted_transactions'
+  | 'unreconciled_bank_accounts';
+
+export interface CloseChecklistItem {
+  key: CloseChecklistKey;
+  label: string;
+  // Things still to deal with; the check passes at zero
+  count: number;
+  // The first few of them, for display
+  details: string[];
+}
+
+export const CLOSE_CHECKLIST_LABELS: Record<CloseChecklistKey, string> = {
+  unposted_journals: 'Draft journals',
+  pending_approvals: 'Pending approvals',
+  draft_bills: 'Draft bills',
+  unposted_transactions: 'Transactions waiting to post',
+  unreconciled_bank_accounts: 'Bank accounts not reconciled',
+};
+
+export const FISCAL_PERIOD_STATUS_LABELS: Record<FiscalPeriodStatus, string> = {
+  future: 'Future',
+  open: 'Open',
+  closing: 'Closing',
+  closed: 'Closed',
+};
+
+export const PERIOD_EVENT_LABELS: Record<FiscalPeriodEventAction, string> = {
+  start_close: 'Close started',
+  cancel_close: 'Close cancelled',
+  close: 'Closed',
+  reopen: 'Reopened',
+  year_end_close: 'Year-end close',
+};
+
+const CHECKLIST_DETAIL_LIMIT = 5;
+const LEDGER_PAGE_SIZE = 1000;
+
+const checklistItem = (key: CloseChecklistKey, count: number, details: string[]): CloseChecklistItem => ({
+  key,
+  label: CLOSE_CHECKLIST_LABELS[key],
+  count,
+  details: details.slice(0, CHECKLIST_DETAIL_LIMIT),
+});
+
+/**
+ * Record a close, reopen or year-end close against a period
+ */
+async function recordEvent(
+  period: FiscalPeriod,
+  action: FiscalPeriodEventAction,
+  toStatus: FiscalPeriodStatus,
+  userId: string,
+  details?: { reason?: string; checklist?: CloseChecklistItem[]; journalId?: string }
+): Promise<void> {
+  const openItems = details?.checklist?.filter((item) => item.count > 0);
+
+  const { error } = await supabase.from('fiscal_period_events').insert({
+    business_id: period.business_id,
+    period_id: period.id,
+    action,
+    from_status: period.status,
+    to_status: toStatus,
+    reason: details?.reason || null,
+    checklist: openItems?.length
+      ? openItems.map(({ key, label, count }) => ({ key, label, count }))
+      : null,
+    journal_id: details?.journalId || null,
+    created_by: userId,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Revenue and expense activity for a date range, debit-positive, by account
+ * and property. Earlier closing entries are left out.
+ */
+async function incomeStatementBalances(
+  businessId: string,
+  startDate: string,
+  endDate: string,
+  accountIds: string[]
+): Promise<Map<string, { accountId: string; propertyId?: string; amountCents: number }>> {
+  const balances = new Map<string, { accountId: string; propertyId?: string; amountCents: number }>();
+
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('gl_ledger')
+      .select('id, account_id, property_id, base_debit_cents, base_credit_cents')
+      .eq('business_id', businessId)
+      .eq('is_closing_entry', false)
+      .in('account_id', accountIds)
+      .gte('posting_date', startDate)
+      .lte('posting_date', endDate)
+      .order('id')
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const key = `${row.account_id}:${row.property_id || ''}`;
+      const existing = balances.get(key) || {
+        accountId: row.account_id,
+        propertyId: row.property_id || undefined,
+        amountCents: 0,
+      };
+      existing.amountCents += row.base_debit_cents - row.base_credit_cents;
+      balances.set(key, existing);
+    }
+
+    if (!data || data.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  return balances;
+}
+
+/**
+ * Journal lines zeroing each revenue and expense balance, with the net
+ * income or loss of each property going to retained earnings
+ */
+function closingEntries(
+  balances: Array<{ accountId: string; propertyId?: string; amountCents: number }>,
+  accounts: Map<string, GLAccount>,
+  retainedEarningsId: string
+): JournalEntryInput[] {
+  const entries: JournalEntryInput[] = [];
+  const netByProperty = new Map<string, number>();
+
+  for (const balance of balances) {
+    if (balance.amountCents === 0) continue;
+    const account = accounts.get(balance.accountId);
+
+    entries.push({
+      accountId: balance.accountId,
+      debitCents: balance.amountCents < 0 ? -balance.amountCents : 0,
+      creditCents: balance.amountCents > 0 ? balance.amountCents : 0,
+      propertyId: balance.propertyId,
+      description: `Close ${account?.account_name || 'account'} to retained earnings`,
+    });
+
+    const property = balance.propertyId || '';
+    netByProperty.set(property, (netByProperty.get(property) || 0) + balance.amountCents);
+  }
+
+  for (const [property, net] of netByProperty) {
+    if (net === 0) continue;
+    entries.push({
+      accountId: retainedEarningsId,
+      // Debit-positive net is a loss
+      debitCents: net > 0 ? net : 0,
+      creditCents: net < 0 ? -net : 0,
+      propertyId: property || undefined,
+      description: net < 0 ? 'Net income for the year' : 'Net loss for the year',
+    });
+  }
+
+  return entries;
+}
+
 export const fiscalPeriodService = {
   // ========================================
   // Fiscal Period CRUD Operations
@@ -232,11 +405,152 @@ export const fiscalPeriodService = {
   // ========================================
 
   /**
-   * Close a fiscal period
+   * Check what is still outstanding in a period before it is closed:
+   * unposted journals, approvals, draft bills, transactions that failed to
+   * post and bank accounts not reconciled through the period end
+   */
+  async getCloseChecklist(period: FiscalPeriod): Promise<CloseChecklistItem[]> {
+    const businessId = period.business_id;
+
+    const [journals, bills, unposted, bankAccounts] = await Promise.all([
+      supabase
+        .from('gl_journals')
+        .select('journal_number, journal_date, status, memo')
+        .eq('business_id', businessId)
+        .in('status', ['draft', 'pending_approval'])
+        .gte('journal_date', period.start_date)
+        .lte('journal_date', period.end_date)
+        .order('journal_date'),
+      supabase
+        .from('vendor_bills')
+        .select('bill_number, bill_date, status, vendor:vendors(vendor_name)')
+        .eq('business_id', businessId)
+        .in('status', ['draft', 'pending_approval'])
+        .gte('bill_date', period.start_date)
+        .lte('bill_date', period.end_date)
+        .order('bill_date'),
+      supabase
+        .from('gl_unposted_transactions')
+        .select('transaction_date, description, error_message')
+        .eq('business_id', businessId)
+        .eq('status', 'pending')
+        .gte('transaction_date', period.start_date)
+        .lte('transaction_date', period.end_date)
+        .order('transaction_date'),
+      glAccountService.getBankAccounts(businessId),
+    ]);
+
+    if (journals.error) throw journals.error;
+    if (bills.error) throw bills.error;
+    if (unposted.error) throw unposted.error;
+
+    const journalLabel = (j: any) => `${j.journal_number} · ${j.journal_date}${j.memo ? ` · ${j.memo}` : ''}`;
+    const billLabel = (b: any) =>
+      [b.vendor?.vendor_name || 'Vendor', b.bill_number].filter(Boolean).join(' ') + ` · ${b.bill_date}`;
+
+    const draftJournals = (journals.data || []).filter((j) => j.status === 'draft');
+    const pendingJournals = (journals.data || []).filter((j) => j.status === 'pending_approval');
+    const draftBills = (bills.data || []).filter((b) => b.status === 'draft');
+    const pendingBills = (bills.data || []).filter((b) => b.status === 'pending_approval');
+
+    // Bank accounts with activity through the period end that are not
+    // reconciled that far
+    const unreconciled: string[] = [];
+    for (const account of bankAccounts) {
+      const [{ data: latest, error: recError }, { count, error: countError }] = await Promise.all([
+        supabase
+          .from('bank_reconciliations')
+          .select('period_end')
+          .eq('account_id', account.id)
+          .eq('status', 'completed')
+          .order('period_end', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('gl_ledger')
+          .select('id', { count: 'exact', head: true })
+          .eq('account_id', account.id)
+          .lte('posting_date', period.end_date),
+      ]);
+
+      if (recError) throw recError;
+      if (countError) throw countError;
+
+      if ((count || 0) > 0 && (!latest || latest.period_end < period.end_date)) {
+        unreconciled.push(
+          `${account.account_number} ${account.account_name} · ${latest ? `reconciled through ${latest.period_end}` : 'never reconciled'}`
+        );
+      }
+    }
+
+    return [
+      checklistItem('unposted_journals', draftJournals.length, draftJournals.map(journalLabel)),
+      checklistItem('pending_approvals', pendingJournals.length + pendingBills.length, [
+        ...pendingJournals.map((j) => `Journal ${journalLabel(j)}`),
+        ...pendingBills.map((b) => `Bill ${billLabel(b)}`),
+      ]),
+      checklistItem('draft_bills', draftBills.length, draftBills.map(billLabel)),
+      checklistItem(
+        'unposted_transactions',
+        unposted.data?.length || 0,
+        (unposted.data || []).map((t) => `${t.transaction_date} · ${t.description || t.error_message}`)
+      ),
+      checklistItem('unreconciled_bank_accounts', unreconciled.length, unreconciled),
+    ];
+  },
+
+  /**
+   * Start closing a period. Foreign currency balances are revalued, then
+   * the period is locked against posting while the checklist is reviewed.
+   */
+  async startClose(periodId: string, userId: string): Promise<FiscalPeriod> {
+    const period = await this.getFiscalPeriod(periodId);
+    if (!period) {
+      throw new Error('Fiscal period not found');
+    }
+
+    if (period.status !== 'open') {
+      throw new Error(`Period is ${period.status === 'closing' ? 'already being closed' : 'not open'}`);
+    }
+
+    await this.assertPreviousClosed(period);
+
+    // Revalue while the period can still be posted to
+    await fxRevaluationService.revaluePeriod(period, userId);
+
+    const checklist = await this.getCloseChecklist(period);
+    const updated = await this.setStatus(periodId, 'closing');
+    await recordEvent(period, 'start_close', 'closing', userId, { checklist });
+    return updated;
+  },
+
+  /**
+   * Unlock a period that is being closed, so it can be posted to again
+   */
+  async cancelClose(periodId: string, userId: string, reason?: string): Promise<FiscalPeriod> {
+    const period = await this.getFiscalPeriod(periodId);
+    if (!period) {
+      throw new Error('Fiscal period not found');
+    }
+
+    if (period.status !== 'closing') {
+      throw new Error('Period is not being closed');
+    }
+
+    const updated = await this.setStatus(periodId, 'open');
+    await recordEvent(period, 'cancel_close', 'open', userId, { reason });
+    return updated;
+  },
+
+  /**
+   * Close a fiscal period. Outstanding checklist items block the close
+   * unless a reason for closing anyway is given. A period closed straight
+   * from open has its foreign currency balances revalued first.
    */
   async closePeriod(
     periodId: string,
-    userId: string
+    userId: string,
+    reason?: string
   ): Promise<FiscalPeriod> {
     // Get the period
     const period = await this.getFiscalPeriod(periodId);
@@ -244,23 +558,28 @@ export const fiscalPeriodService = {
       throw new Error('Fiscal period not found');
     }
 
-    if (period.status !== 'open') {
+    if (period.status === 'closed') {
       throw new Error('Period is already closed');
     }
 
-    // Check if previous periods are closed (except for period 1)
-    if (period.period_number > 1 && !period.is_adjusting_period) {
-      const previousPeriod = await this.getPreviousPeriod(
-        period.business_id,
-        period.fiscal_year,
-        period.period_number
+    if (period.status === 'future') {
+      throw new Error('Period is not open yet');
+    }
+
+    await this.assertPreviousClosed(period);
+
+    const checklist = await this.getCloseChecklist(period);
+    const openItems = checklist.filter((item) => item.count > 0);
+    if (openItems.length > 0 && !reason?.trim()) {
+      throw new Error(
+        `${period.period_name} has open checklist items (${openItems
+          .map((item) => `${item.label}: ${item.count}`)
+          .join(', ')}). Resolve them or give a reason to close anyway.`
       );
+    }
 
-      if (previousPeriod && previousPeriod.status === 'open') {
-        throw new Error(
-          `Previous period (${previousPeriod.period_name}) must be closed first`
-        );
-      }
+    if (period.status === 'open') {
+      await fxRevaluationService.revaluePeriod(period, userId);
     }
 
     // Close the period
@@ -270,40 +589,57 @@ export const fiscalPeriodService = {
         status: 'closed' as FiscalPeriodStatus,
         closed_at: new Date().toISOString(),
         closed_by: userId,
+        updated_at: new Date().toISOString(),
       })
       .eq('id', periodId)
       .select()
       .single();
 
     if (error) throw error;
+
+    await recordEvent(period, 'close', 'closed', userId, { reason: reason?.trim(), checklist });
     return data;
   },
 
   /**
-   * Reopen a closed fiscal period
-   * Only allows reopening if subsequent periods are still closed
+   * Reopen a closed fiscal period. Only the latest closed period can be
+   * reopened, and a reason is required. Reopening the adjusting period
+   * reverses the year-end closing journal.
    */
-  async reopenPeriod(periodId: string): Promise<FiscalPeriod> {
+  async reopenPeriod(periodId: string, userId: string, reason: string): Promise<FiscalPeriod> {
     const period = await this.getFiscalPeriod(periodId);
     if (!period) {
       throw new Error('Fiscal period not found');
     }
 
-    if (period.status === 'open') {
-      throw new Error('Period is already open');
+    if (period.status !== 'closed') {
+      throw new Error(period.status === 'closing' ? 'Period is being closed. Cancel the close instead.' : 'Period is not closed');
     }
 
-    // Check if subsequent periods are closed
-    if (period.period_number < 13) {
+    if (!reason.trim()) {
+      throw new Error('A reason is required to reopen a period');
+    }
+
+    if (period.is_adjusting_period) {
+      const nextYear = await this.getNextPeriod(period.business_id, period.fiscal_year, 12);
+      if (nextYear && nextYear.status === 'closed') {
+        throw new Error(`Cannot reopen - ${nextYear.period_name} is closed`);
+      }
+    } else {
+      const adjusting = await this.getAdjustingPeriod(period.business_id, period.fiscal_year);
+      if (adjusting && adjusting.status === 'closed') {
+        throw new Error(`Cannot reopen - reopen ${adjusting.period_name} first`);
+      }
+
       const nextPeriod = await this.getNextPeriod(
         period.business_id,
         period.fiscal_year,
         period.period_number
       );
 
-      if (nextPeriod && nextPeriod.status === 'open') {
+      if (nextPeriod && nextPeriod.status !== 'open' && nextPeriod.status !== 'future') {
         throw new Error(
-          `Cannot reopen - subsequent period (${nextPeriod.period_name}) is open`
+          `Cannot reopen - subsequent period (${nextPeriod.period_name}) must be reopened first`
         );
       }
     }
@@ -314,45 +650,284 @@ export const fiscalPeriodService = {
         status: 'open' as FiscalPeriodStatus,
         closed_at: null,
         closed_by: null,
+        updated_at: new Date().toISOString(),
       })
       .eq('id', periodId)
       .select()
       .single();
 
     if (error) throw error;
-    return data;
+
+    let reversalId: string | undefined;
+    if (period.closing_journal_id) {
+      try {
+        reversalId = await this.reverseClosingJournal(period, userId);
+      } catch (err) {
+        await this.setStatus(periodId, 'closed');
+        throw err;
+      }
+    }
+
+    await recordEvent(period, 'reopen', 'open', userId, { reason: reason.trim(), journalId: reversalId });
+    return reversalId ? { ...data, closing_journal_id: undefined, closing_balances: undefined } : data;
   },
 
   /**
-   * Close entire fiscal year
+   * Close an entire fiscal year: close the remaining periods, post the
+   * closing journal moving revenue and expenses into retained earnings,
+   * then close the adjusting period
    */
   async closeFiscalYear(
     businessId: string,
     fiscalYear: number,
-    userId: string
+    userId: string,
+    reason?: string
   ): Promise<{ closedPeriods: number; yearEndJournalId?: string }> {
     const periods = await this.getFiscalPeriods(businessId, { fiscalYear });
-    const openPeriods = periods.filter((p) => p.status === 'open' && !p.is_adjusting_period);
+    const regularPeriods = periods
+      .filter((p) => !p.is_adjusting_period)
+      .sort((a, b) => a.period_number - b.period_number);
+    const openPeriods = regularPeriods.filter((p) => p.status !== 'closed');
+
+    const adjustingPeriod = periods.find((p) => p.is_adjusting_period);
+    if (!adjustingPeriod || regularPeriods.length === 0) {
+      throw new Error(`Fiscal year ${fiscalYear} has no periods`);
+    }
+
+    if (adjustingPeriod.status === 'closed') {
+      throw new Error(`Fiscal year ${fiscalYear} is already closed`);
+    }
 
     // Close all open periods
     for (const period of openPeriods) {
-      await this.closePeriod(period.id, userId);
+      await this.closePeriod(period.id, userId, reason);
     }
 
-    // Close adjusting period if open
-    const adjustingPeriod = periods.find((p) => p.is_adjusting_period && p.status === 'open');
-    if (adjustingPeriod) {
-      await this.closePeriod(adjustingPeriod.id, userId);
+    // Post the closing journal to the adjusting period while it is open
+    let adjusting = adjustingPeriod;
+    if (adjusting.status === 'closing') {
+      adjusting = await this.setStatus(adjusting.id, 'open');
     }
 
-    // TODO: Create year-end closing journal entry
-    // This would transfer net income to retained earnings
+    const yearEndJournalId = await this.postClosingJournal(
+      adjusting,
+      regularPeriods[0]!.start_date,
+      regularPeriods[regularPeriods.length - 1]!.end_date,
+      userId
+    );
+
+    await this.closePeriod(adjusting.id, userId, reason);
+    await recordEvent(adjusting, 'year_end_close', 'closed', userId, {
+      reason: reason?.trim(),
+      journalId: yearEndJournalId,
+    });
 
     return {
-      closedPeriods: openPeriods.length + (adjustingPeriod ? 1 : 0),
+      closedPeriods: openPeriods.length + 1,
+      yearEndJournalId,
     };
   },
 
+  /**
+   * Post the journal closing a year's revenue and expense balances to
+   * retained earnings, and keep it against the adjusting period. Returns
+   * nothing when there is nothing to close.
+   */
+  async postClosingJournal(
+    adjustingPeriod: FiscalPeriod,
+    startDate: string,
+    endDate: string,
+    userId: string
+  ): Promise<string | undefined> {
+    const businessId = adjustingPeriod.business_id;
+
+    const retainedEarnings = await glAccountService.getAccountByNumber(businessId, GL_ACCOUNTS.RETAINED_EARNINGS);
+    if (!retainedEarnings) {
+      throw new Error(
+        `GL accounts not found. Ensure chart of accounts is initialized. Missing: ${GL_ACCOUNTS.RETAINED_EARNINGS}`
+      );
+    }
+
+    // Inactive accounts can still carry a balance for the year
+    const accounts = new Map(
+      (await glAccountService.getAccounts(businessId, { isHeaderAccount: false }))
+        .filter((a) => a.account_type === 'revenue' || a.account_type === 'expense')
+        .map((a) => [a.id, a])
+    );
+    if (accounts.size === 0) return undefined;
+
+    const balances = await incomeStatementBalances(businessId, startDate, endDate, [...accounts.keys()]);
+    const entries = closingEntries([...balances.values()], accounts, retainedEarnings.id);
+    if (entries.length === 0) return undefined;
+
+    const closingBalances: Record<string, number> = {};
+    for (const balance of balances.values()) {
+      closingBalances[balance.accountId] = (closingBalances[balance.accountId] || 0) + balance.amountCents;
+    }
+
+    const journal = await journalService.createJournal(businessId, userId, {
+      journalDate: endDate,
+      journalType: 'closing',
+      sourceType: 'year_end_close',
+      sourceId: adjustingPeriod.id,
+      memo: `Year-end close ${adjustingPeriod.fiscal_year}`,
+      entries,
+      autoPost: true,
+    });
+
+    const { error } = await supabase
+      .from('fiscal_periods')
+      .update({
+        closing_journal_id: journal.id,
+        closing_balances: closingBalances,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', adjustingPeriod.id);
+
+    if (error) throw error;
+    return journal.id;
+  },
+
+  /**
+   * Reverse a year-end closing journal when its adjusting period is reopened.
+   * The reversal is a closing entry too, so income statements are unchanged.
+   */
+  async reverseClosingJournal(adjustingPeriod: FiscalPeriod, userId: string): Promise<string> {
+    const existing = await journalService.getJournalById(adjustingPeriod.closing_journal_id!);
+    if (!existing) {
+      throw new Error('Closing journal not found');
+    }
+
+    const reversal = await journalService.createJournal(adjustingPeriod.business_id, userId, {
+      journalDate: existing.journal.journal_date,
+      journalType: 'closing',
+      sourceType: 'year_end_close',
+      sourceId: adjustingPeriod.id,
+      memo: `Reversal of ${existing.journal.journal_number}`,
+      entries: existing.entries.map((entry) => ({
+        accountId: entry.account_id,
+        debitCents: entry.credit_cents,
+        creditCents: entry.debit_cents,
+        propertyId: entry.property_id || undefined,
+        description: `Reversal of ${existing.journal.journal_number}: ${entry.description || ''}`,
+      })),
+      autoPost: true,
+    });
+
+    const { error: journalError } = await supabase
+      .from('gl_journals')
+      .update({ status: 'reversed', updated_at: new Date().toISOString() })
+      .eq('id', existing.journal.id);
+
+    if (journalError) throw journalError;
+
+    const { error } = await supabase
+      .from('fiscal_periods')
+      .update({ closing_journal_id: null, closing_balances: null, updated_at: new Date().toISOString() })
+      .eq('id', adjustingPeriod.id);
+
+    if (error) throw error;
+    return reversal.id;
+  },
+
+  /**
+   * Fail unless the period before (or, for the adjusting period, every
+   * period of the year) is closed
+   */
+  async assertPreviousClosed(period: FiscalPeriod): Promise<void> {
+    if (period.is_adjusting_period) {
+      const regular = await this.getFiscalPeriods(period.business_id, {
+        fiscalYear: period.fiscal_year,
+        isAdjustingPeriod: false,
+      });
+      const notClosed = regular.filter((p) => p.status !== 'closed');
+      if (notClosed.length > 0) {
+        throw new Error(`${notClosed.map((p) => p.period_name).join(', ')} must be closed first`);
+      }
+      return;
+    }
+
+    const previousPeriod = await this.getPreviousPeriod(
+      period.business_id,
+      period.fiscal_year,
+      period.period_number
+    );
+
+    if (previousPeriod && previousPeriod.status !== 'closed') {
+      throw new Error(
+        `Previous period (${previousPeriod.period_name}) must be closed first`
+      );
+    }
+  },
+
+  /**
+   * Set a period's status without closing details
+   */
+  async setStatus(periodId: string, status: FiscalPeriodStatus): Promise<FiscalPeriod> {
+    const { data, error } = await supabase
+      .from('fiscal_periods')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', periodId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Close, reopen and year-end close history, newest first
+   */
+  async getPeriodEvents(
+    businessId: string,
+    periodIds?: string[]
+  ): Promise<FiscalPeriodEvent[]> {
+    let query = supabase
+      .from('fiscal_period_events')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: false });
+
+    if (periodIds) {
+      query = query.in('period_id', periodIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const userIds = [...new Set((data || []).map((e) => e.created_by).filter(Boolean))];
+    if (userIds.length === 0) return data || [];
+
+    const { data: profiles, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('id, first_name, last_name')
+      .in('id', userIds);
+
+    if (profileError) throw profileError;
+
+    const names = new Map(
+      (profiles || []).map((p) => [p.id, `${p.first_name || ''} ${p.last_name || ''}`.trim()])
+    );
+    return (data || []).map((e) => ({ ...e, created_by_name: names.get(e.created_by) || undefined }));
+  },
+
+  /**
+   * Get the adjusting period (period 13) of a fiscal year
+   */
+  async getAdjustingPeriod(businessId: string, fiscalYear: number): Promise<FiscalPeriod | null> {
+    const { data, error } = await supabase
+      .from('fiscal_periods')
+      .select('*')
+      .eq('business_id', businessId)
+      .eq('fiscal_year', fiscalYear)
+      .eq('is_adjusting_period', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
   /**
    * Get the previous period
    */
@@ -420,7 +995,8 @@ export const fiscalPeriodService = {
   // ========================================
 
   /**
-   * Check if posting is allowed for a date
+   * Check if posting is allowed for a date. Closed periods and periods
+   * being closed are locked.
    */
   async canPostToDate(businessId: string, date: string): Promise<boolean> {
     const period = await this.getFiscalPeriodForDate(businessId, date);
@@ -442,7 +1018,7 @@ export const fiscalPeriodService = {
     if (!canPost) {
       const period = await this.getFiscalPeriodForDate(businessId, date);
       throw new Error(
-        `Cannot post to ${date}. Fiscal period ${period?.period_name || 'unknown'} is closed.`
+        `Cannot post to ${date}. Fiscal period ${period?.period_name || 'unknown'} is ${period?.status === 'closing' ? 'being closed' : 'closed'}.`
       );
     }
   },
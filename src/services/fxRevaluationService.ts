@@ -0,0 +1,350 @@
+import { supabase } from '../lib/supabase';
+import { FiscalPeriod, FxRevaluation, FxRevaluationKind } from '../types';
+import { journalService, JournalEntryInput } from './journalService';
+import { glAccountService } from './glAccountService';
+import { currencyService } from './currencyService';
+import { GL_ACCOUNTS } from '../config/glAccountMappings';
+
+export interface FxRevaluationLineInput {
+  accountId: string;
+  accountNumber: string;
+  accountName: string;
+  currencyCode: string;
+  kind: FxRevaluationKind;
+  // Debit-positive, as in the ledger
+  foreignBalanceCents: number;
+  bookedBaseCents: number;
+  closingRate: number | null;
+  revaluedBaseCents: number;
+  adjustmentCents: number;
+}
+
+export interface FxRevaluationPreview {
+  baseCurrency: string;
+  revaluationDate: string;
+  reversalDate: string;
+  lines: FxRevaluationLineInput[];
+  // Positive is a gain
+  realizedCents: number;
+  unrealizedCents: number;
+  // Currencies with open balances but no rate on or before the date
+  missingRates: string[];
+}
+
+export const FX_REVALUATION_KIND_LABELS: Record<FxRevaluationKind, string> = {
+  realized: 'Realized',
+  unrealized: 'Unrealized',
+};
+
+const nextDay = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0]!;
+};
+
+/**
+ * Fail when a date falls in a fiscal period that is not open
+ */
+async function assertPeriodOpen(businessId: string, date: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('fiscal_periods')
+    .select('period_name, status')
+    .eq('business_id', businessId)
+    .eq('is_adjusting_period', false)
+    .lte('start_date', date)
+    .gte('end_date', date)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data && data.status !== 'open') {
+    throw new Error(
+      `Cannot post to ${date}. Fiscal period ${data.period_name} is ${data.status === 'closing' ? 'being closed' : 'closed'}.`
+    );
+  }
+}
+
+/**
+ * Journal lines adjusting each account, offset per currency against the
+ * gain/loss account
+ */
+function revaluationEntries(lines: FxRevaluationLineInput[], gainLossAccountId: string): JournalEntryInput[] {
+  const entries: JournalEntryInput[] = [];
+  const offsets = new Map<string, number>();
+
+  for (const line of lines) {
+    const description = line.kind === 'realized'
+      ? `${line.currencyCode} balance settled`
+      : `${line.currencyCode} revalued at ${line.closingRate}`;
+
+    entries.push({
+      accountId: line.accountId,
+      debitCents: line.adjustmentCents > 0 ? line.adjustmentCents : 0,
+      creditCents: line.adjustmentCents < 0 ? -line.adjustmentCents : 0,
+      description,
+    });
+    offsets.set(line.currencyCode, (offsets.get(line.currencyCode) || 0) + line.adjustmentCents);
+  }
+
+  for (const [currencyCode, amount] of offsets) {
+    if (amount === 0) continue;
+    entries.push({
+      accountId: gainLossAccountId,
+      debitCents: amount < 0 ? -amount : 0,
+      creditCents: amount > 0 ? amount : 0,
+      description: `${currencyCode} exchange ${amount > 0 ? 'gain' : 'loss'}`,
+    });
+  }
+
+  return entries;
+}
+
+export const fxRevaluationService = {
+  // ========================================
+  // Exposure & Preview
+  // ========================================
+
+  /**
+   * Work out the adjustments a revaluation on a date would post. Settled
+   * balances are realized; open ones are revalued at the closing rate.
+   */
+  async previewRevaluation(businessId: string, revaluationDate: string): Promise<FxRevaluationPreview> {
+    const settings = await glAccountService.getAccountingSettings(businessId);
+    const baseCurrency = settings?.base_currency || 'CAD';
+
+    const { data: exposure, error } = await supabase.rpc('get_fx_exposure', {
+      p_business_id: businessId,
+      p_as_of: revaluationDate,
+    });
+
+    if (error) throw error;
+
+    const rows = (exposure || []) as Array<{
+      account_id: string;
+      currency_code: string;
+      foreign_balance_cents: number;
+      booked_base_cents: number;
+    }>;
+
+    const accountIds = [...new Set(rows.map(r => r.account_id))];
+    const accounts = new Map<string, { account_number: string; account_name: string }>();
+    if (accountIds.length > 0) {
+      const { data: accountRows, error: accountError } = await supabase
+        .from('gl_accounts')
+        .select('id, account_number, account_name')
+        .in('id', accountIds);
+
+      if (accountError) throw accountError;
+      for (const a of accountRows || []) accounts.set(a.id, a);
+    }
+
+    const rates = new Map<string, number | null>();
+    const lines: FxRevaluationLineInput[] = [];
+
+    for (const row of rows) {
+      const foreign = Number(row.foreign_balance_cents);
+      const booked = Number(row.booked_base_cents);
+      let kind: FxRevaluationKind = 'realized';
+      let closingRate: number | null = null;
+      let revalued = 0;
+
+      if (foreign !== 0) {
+        if (!rates.has(row.currency_code)) {
+          const found = await currencyService.findExchangeRate(
+            row.currency_code,
+            baseCurrency,
+            revaluationDate,
+            businessId
+          );
+          rates.set(row.currency_code, found?.rate ?? null);
+        }
+        closingRate = rates.get(row.currency_code) ?? null;
+        if (closingRate === null) continue;
+
+        kind = 'unrealized';
+        revalued = Math.round(foreign * closingRate);
+      }
+
+      const adjustment = revalued - booked;
+      if (adjustment === 0) continue;
+
+      const account = accounts.get(row.account_id);
+      lines.push({
+        accountId: row.account_id,
+        accountNumber: account?.account_number || '',
+        accountName: account?.account_name || '',
+        currencyCode: row.currency_code,
+        kind,
+        foreignBalanceCents: foreign,
+        bookedBaseCents: booked,
+        closingRate,
+        revaluedBaseCents: revalued,
+        adjustmentCents: adjustment,
+      });
+    }
+
+    lines.sort((a, b) =>
+      a.currencyCode.localeCompare(b.currencyCode) || a.accountNumber.localeCompare(b.accountNumber)
+    );
+
+    const total = (kind: FxRevaluationKind) =>
+      lines.filter(l => l.kind === kind).reduce((sum, l) => sum + l.adjustmentCents, 0);
+
+    return {
+      baseCurrency,
+      revaluationDate,
+      reversalDate: nextDay(revaluationDate),
+      lines,
+      realizedCents: total('realized'),
+      unrealizedCents: total('unrealized'),
+      missingRates: [...rates].filter(([, rate]) => rate === null).map(([code]) => code),
+    };
+  },
+
+  // ========================================
+  // Posting
+  // ========================================
+
+  /**
+   * Revalue foreign currency balances as of a date. Realized differences
+   * post permanently; unrealized ones post on the date and reverse the
+   * next day. Returns null when there is nothing to adjust.
+   */
+  async revalue(
+    businessId: string,
+    revaluationDate: string,
+    userId: string,
+    fiscalPeriodId?: string
+  ): Promise<FxRevaluation | null> {
+    const preview = await this.previewRevaluation(businessId, revaluationDate);
+
+    if (preview.missingRates.length > 0) {
+      throw new Error(
+        `No closing rate to ${preview.baseCurrency} on or before ${revaluationDate} for ${preview.missingRates.join(', ')}. Add one under Accounting > Exchange Rates.`
+      );
+    }
+
+    if (preview.lines.length === 0) return null;
+
+    const realizedLines = preview.lines.filter(l => l.kind === 'realized');
+    const unrealizedLines = preview.lines.filter(l => l.kind === 'unrealized');
+
+    // Check everything that can fail before anything posts
+    await assertPeriodOpen(businessId, revaluationDate);
+    if (unrealizedLines.length > 0) await assertPeriodOpen(businessId, preview.reversalDate);
+
+    const accountId = async (number: string) => {
+      const account = await glAccountService.getAccountByNumber(businessId, number);
+      if (!account) {
+        throw new Error(`GL accounts not found. Ensure chart of accounts is initialized. Missing: ${number}`);
+      }
+      return account.id;
+    };
+    const realizedAccountId = realizedLines.length > 0 ? await accountId(GL_ACCOUNTS.REALIZED_FX_GAIN_LOSS) : '';
+    const unrealizedAccountId = unrealizedLines.length > 0 ? await accountId(GL_ACCOUNTS.UNREALIZED_FX_GAIN_LOSS) : '';
+
+    const { data: revaluation, error } = await supabase
+      .from('fx_revaluations')
+      .insert({
+        business_id: businessId,
+        fiscal_period_id: fiscalPeriodId,
+        base_currency: preview.baseCurrency,
+        revaluation_date: revaluationDate,
+        reversal_date: preview.reversalDate,
+        realized_cents: preview.realizedCents,
+        unrealized_cents: preview.unrealizedCents,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    try {
+      const updates: Partial<FxRevaluation> = {};
+
+      if (realizedLines.length > 0) {
+        const journal = await journalService.createJournal(businessId, userId, {
+          journalDate: revaluationDate,
+          journalType: 'adjusting',
+          sourceType: 'fx_revaluation',
+          sourceId: revaluation.id,
+          memo: `Realized foreign exchange ${revaluationDate}`,
+          entries: revaluationEntries(realizedLines, realizedAccountId),
+          autoPost: true,
+        });
+        updates.realized_journal_id = journal.id;
+      }
+
+      if (unrealizedLines.length > 0) {
+        const journal = await journalService.createJournal(businessId, userId, {
+          journalDate: revaluationDate,
+          journalType: 'adjusting',
+          sourceType: 'fx_revaluation',
+          sourceId: revaluation.id,
+          memo: `Unrealized foreign exchange ${revaluationDate}`,
+          entries: revaluationEntries(unrealizedLines, unrealizedAccountId),
+          autoPost: true,
+        });
+        const reversal = await journalService.createReversingJournal(journal.id, userId, preview.reversalDate);
+        updates.unrealized_journal_id = journal.id;
+        updates.reversal_journal_id = reversal.id;
+      }
+
+      const { error: lineError } = await supabase.from('fx_revaluation_lines').insert(
+        preview.lines.map(line => ({
+          revaluation_id: revaluation.id,
+          account_id: line.accountId,
+          currency_code: line.currencyCode,
+          kind: line.kind,
+          foreign_balance_cents: line.foreignBalanceCents,
+          booked_base_cents: line.bookedBaseCents,
+          closing_rate: line.closingRate,
+          revalued_base_cents: line.revaluedBaseCents,
+          adjustment_cents: line.adjustmentCents,
+        }))
+      );
+
+      if (lineError) throw lineError;
+
+      const { data, error: updateError } = await supabase
+        .from('fx_revaluations')
+        .update(updates)
+        .eq('id', revaluation.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+      return data;
+    } catch (err) {
+      await supabase.from('fx_revaluations').delete().eq('id', revaluation.id);
+      throw err;
+    }
+  },
+
+  /**
+   * Revalue at the end of a fiscal period, as part of closing it
+   */
+  async revaluePeriod(period: FiscalPeriod, userId: string): Promise<FxRevaluation | null> {
+    if (period.is_adjusting_period) return null;
+    return this.revalue(period.business_id, period.end_date, userId, period.id);
+  },
+
+  // ========================================
+  // History
+  // ========================================
+
+  /**
+   * Revaluations for a business, newest first, with their lines
+   */
+  async getRevaluations(businessId: string): Promise<FxRevaluation[]> {
+    const { data, error } = await supabase
+      .from('fx_revaluations')
+      .select('*, lines:fx_revaluation_lines(*, account:gl_accounts(account_number, account_name))')
+      .eq('business_id', businessId)
+      .order('revaluation_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+};
@@ -0,0 +1,682 @@
+import { supabase } from '../lib/supabase';
+import {
+  AccountingMethod,
+  GLJournal,
+  GLJournalEntry,
+  JournalSourceType,
+  LeaseRecurringChargeType,
+  PaymentType,
+  PostingSourceType,
+  PostingSweepResult,
+  UnpostedTransaction,
+  UnpostedTransactionStatus,
+} from '../types';
+import { journalService, CreateJournalInput, JournalEntryInput } from './journalService';
+import { glAccountService } from './glAccountService';
+import { RECURRING_CHARGE_TYPE_LABELS } from './recurringChargeService';
+import {
+  GL_ACCOUNTS,
+  LATE_FEE_ACCRUAL_MAPPING,
+  SCHEDULE_CHARGE_ACCOUNTS,
+  formatDescription,
+  getExpenseMapping,
+} from '../config/glAccountMappings';
+
+export const POSTING_SOURCE_LABELS: Record<PostingSourceType, string> = {
+  rent_payment: 'Payment',
+  expense: 'Expense',
+  late_fee: 'Late Fee',
+  rent_charge: 'Scheduled Charge',
+};
+
+export const UNPOSTED_STATUS_LABELS: Record<UnpostedTransactionStatus, string> = {
+  pending: 'Unposted',
+  resolved: 'Posted',
+  dismissed: 'Dismissed',
+};
+
+// Payment statuses that mean money was received, as on the tenant ledger
+const RECEIVED_PAYMENT_STATUSES = ['paid', 'partial', 'refunded'];
+const PAID_EXPENSE_STATUSES = ['paid', 'reimbursed'];
+
+interface PostingSettings {
+  postTenantActivity: boolean;
+  postExpenses: boolean;
+  method: AccountingMethod;
+  startDate: string | null;
+  lastSweepAt: string | null;
+}
+
+interface PostingTarget {
+  sourceType: JournalSourceType;
+  input: CreateJournalInput | null;
+}
+
+interface SourceDetails {
+  transactionDate?: string;
+  amountCents?: number;
+  description?: string;
+}
+
+type SyncStatus = 'posted' | 'unchanged' | 'skipped' | 'failed';
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+/**
+ * Auto-posting settings, or null when the business has no accounting
+ * settings or chart of accounts yet
+ */
+async function getPostingSettings(businessId: string): Promise<PostingSettings | null> {
+  const settings = await glAccountService.getAccountingSettings(businessId);
+  if (!settings || !(await glAccountService.hasChartOfAccounts(businessId))) return null;
+
+  return {
+    postTenantActivity: !!settings.auto_post_rent_payments,
+    postExpenses: !!settings.auto_post_expenses,
+    method: settings.accounting_method || 'cash',
+    startDate: settings.auto_post_start_date || null,
+    lastSweepAt: settings.last_posting_sweep_at || null,
+  };
+}
+
+/**
+ * Resolve a GL account number to its ID, failing when it is missing
+ */
+async function resolveAccount(businessId: string, number: string): Promise<string> {
+  const account = await glAccountService.getAccountByNumber(businessId, number);
+  if (!account) {
+    throw new Error(`GL accounts not found. Ensure chart of accounts is initialized. Missing: ${number}`);
+  }
+  return account.id;
+}
+
+/**
+ * What posting compares to decide whether a journal is still right: the
+ * date and each line's account, amounts and property/unit
+ */
+function signature(
+  journalDate: string,
+  lines: { accountId: string; debit: number; credit: number; propertyId?: string | null; unitId?: string | null }[]
+): string {
+  return [
+    journalDate,
+    ...lines
+      .map(l => [l.accountId, l.debit, l.credit, l.propertyId || '', l.unitId || ''].join(':'))
+      .sort(),
+  ].join('|');
+}
+
+function inputSignature(input: CreateJournalInput): string {
+  return signature(input.journalDate, input.entries.map(e => ({
+    accountId: e.accountId,
+    debit: e.debitCents || 0,
+    credit: e.creditCents || 0,
+    propertyId: e.propertyId,
+    unitId: e.unitId,
+  })));
+}
+
+function journalSignature(journal: GLJournal, entries: GLJournalEntry[]): string {
+  return signature(journal.journal_date, entries.map(e => ({
+    accountId: e.account_id,
+    debit: e.debit_cents,
+    credit: e.credit_cents,
+    propertyId: e.property_id,
+    unitId: e.unit_id,
+  })));
+}
+
+/**
+ * Two-line journal debiting one account and crediting another
+ */
+function simpleJournal(
+  base: Omit<CreateJournalInput, 'entries' | 'autoPost'>,
+  debitAccountId: string,
+  creditAccountId: string,
+  amountCents: number,
+  dimensions: Pick<JournalEntryInput, 'propertyId' | 'unitId' | 'tenantId'>
+): CreateJournalInput {
+  const line = { ...dimensions, description: base.memo };
+  return {
+    ...base,
+    entries: [
+      { ...line, accountId: debitAccountId, debitCents: amountCents, creditCents: 0 },
+      { ...line, accountId: creditAccountId, debitCents: 0, creditCents: amountCents },
+    ],
+    autoPost: true,
+  };
+}
+
+/**
+ * Bring one source's journal in line with what it should be. Returns
+ * whether the ledger changed and the active journal afterwards. The old
+ * journal is reversed and the new one posted together in the database, so
+ * a failure leaves the ledger as it was.
+ */
+async function applyJournal(
+  businessId: string,
+  sourceId: string,
+  target: PostingTarget
+): Promise<{ changed: boolean; journal: GLJournal | null }> {
+  const existing = await journalService.getJournalBySource(businessId, target.sourceType, sourceId);
+
+  if (existing) {
+    const detail = await journalService.getJournalById(existing.id);
+    if (target.input && detail && journalSignature(existing, detail.entries) === inputSignature(target.input)) {
+      return { changed: false, journal: existing };
+    }
+  }
+
+  if (!existing && !target.input) return { changed: false, journal: null };
+
+  const journal = await journalService.replaceSourceJournal(businessId, target.sourceType, sourceId, target.input);
+  return { changed: true, journal };
+}
+
+async function loadSource(sourceType: PostingSourceType, sourceId: string): Promise<any | null> {
+  const table = {
+    rent_payment: 'rent_payments',
+    expense: 'expenses',
+    late_fee: 'late_fees',
+    rent_charge: 'payment_schedules',
+  }[sourceType];
+
+  const { data, error } = await supabase
+    .from(table)
+    .select(sourceType === 'rent_charge' ? '*, leases(unit_id)' : '*')
+    .eq('id', sourceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+function describeSource(sourceType: PostingSourceType, row: any | null): SourceDetails {
+  if (!row) return { description: `${POSTING_SOURCE_LABELS[sourceType]} (deleted)` };
+
+  switch (sourceType) {
+    case 'rent_payment':
+      return { transactionDate: row.payment_date, amountCents: row.amount_cents, description: row.description || undefined };
+    case 'expense':
+      return { transactionDate: row.expense_date, amountCents: row.amount_cents, description: row.description || row.vendor_name };
+    case 'late_fee':
+      return { transactionDate: row.assessed_date, amountCents: row.late_fee_cents, description: row.notes || undefined };
+    case 'rent_charge':
+      return {
+        transactionDate: row.payment_date,
+        amountCents: Math.round((row.due_amount || 0) * 100),
+        description: row.description || undefined,
+      };
+  }
+}
+
+/**
+ * Unit number, property and the property's currency for a unit, used to
+ * tag and describe lines
+ */
+async function getUnitContext(
+  unitId: string | null | undefined
+): Promise<{ unitName?: string; propertyId?: string; currency?: string }> {
+  if (!unitId) return {};
+  const { data } = await supabase
+    .from('units')
+    .select('unit_number, property_id, properties(currency_code)')
+    .eq('id', unitId)
+    .maybeSingle();
+  const property = data?.properties as { currency_code?: string | null } | null | undefined;
+  return {
+    unitName: data?.unit_number,
+    propertyId: data?.property_id,
+    currency: property?.currency_code || undefined,
+  };
+}
+
+/**
+ * Currency a property transacts in, when it differs from the business's
+ */
+async function getPropertyCurrency(propertyId: string | null | undefined): Promise<string | undefined> {
+  if (!propertyId) return undefined;
+  const { data } = await supabase
+    .from('properties')
+    .select('currency_code')
+    .eq('id', propertyId)
+    .maybeSingle();
+  return data?.currency_code || undefined;
+}
+
+async function getTenantName(tenantId: string | null | undefined): Promise<string | undefined> {
+  if (!tenantId) return undefined;
+  const { data } = await supabase
+    .from('tenants')
+    .select('first_name, last_name')
+    .eq('id', tenantId)
+    .maybeSingle();
+  return data ? `${data.first_name} ${data.last_name}` : undefined;
+}
+
+/**
+ * The journals a source should have under the business's settings, or
+ * null when auto-posting is off for it. A deleted source (null row) should
+ * have none.
+ */
+async function buildTargets(
+  businessId: string,
+  sourceType: PostingSourceType,
+  row: any | null,
+  settings: PostingSettings
+): Promise<PostingTarget[] | null> {
+  const accrual = settings.method === 'accrual';
+
+  switch (sourceType) {
+    case 'rent_payment': {
+      if (!settings.postTenantActivity) return null;
+      if (!row || !RECEIVED_PAYMENT_STATUSES.includes(row.status)) {
+        return [{ sourceType: 'rent_payment', input: null }];
+      }
+
+      const unit = await getUnitContext(row.unit_id);
+      const input = await journalService.buildRentPaymentJournal(businessId, {
+        id: row.id,
+        amountCents: row.amount_cents || 0,
+        paymentDate: row.payment_date,
+        paymentType: (row.payment_type as PaymentType) || 'rent',
+        tenantId: row.tenant_id || undefined,
+        tenantName: await getTenantName(row.tenant_id),
+        unitId: row.unit_id || undefined,
+        unitName: unit.unitName,
+        propertyId: unit.propertyId,
+        currency: row.currency || unit.currency,
+      }, settings.method);
+      return [{ sourceType: 'rent_payment', input }];
+    }
+
+    case 'expense': {
+      if (!settings.postExpenses) return null;
+      const live = !!row && row.status !== 'cancelled';
+      const paid = live && PAID_EXPENSE_STATUSES.includes(row.status);
+      const paidDate = paid ? row.paid_date || row.expense_date : null;
+
+      const source = live
+        ? {
+            id: row.id,
+            amountCents: row.amount_cents || 0,
+            expenseDate: accrual ? row.expense_date : paidDate || row.expense_date,
+            category: row.category,
+            vendorName: row.vendor_name || undefined,
+            propertyId: row.property_id || undefined,
+            unitId: row.unit_id || undefined,
+            currency: await getPropertyCurrency(row.property_id),
+          }
+        : null;
+
+      // Under cash accounting an expense posts once paid, against the bank
+      if (!accrual) {
+        return [
+          { sourceType: 'expense', input: paid && source ? await journalService.buildExpenseJournal(businessId, source) : null },
+          { sourceType: 'expense_payment', input: null },
+        ];
+      }
+
+      // Under accrual it is payable from its date and the payment clears it
+      const targets: PostingTarget[] = [
+        { sourceType: 'expense', input: source ? await journalService.buildExpenseJournal(businessId, source, true) : null },
+        { sourceType: 'expense_payment', input: null },
+      ];
+
+      if (paid && source) {
+        const mapping = getExpenseMapping(row.category);
+        const description = `Payment - ${formatDescription(mapping.descriptionTemplate, { vendor: source.vendorName })}`;
+        targets[1]!.input = simpleJournal(
+          {
+            journalDate: paidDate!,
+            journalType: 'cash_payments',
+            sourceType: 'expense_payment',
+            sourceId: row.id,
+            transactionCurrency: source.currency,
+            memo: description,
+          },
+          await resolveAccount(businessId, GL_ACCOUNTS.ACCOUNTS_PAYABLE),
+          await resolveAccount(businessId, mapping.credit),
+          source.amountCents,
+          { propertyId: source.propertyId, unitId: source.unitId }
+        );
+      }
+
+      return targets;
+    }
+
+    case 'late_fee': {
+      if (!settings.postTenantActivity) return null;
+      if (!accrual || !row || row.status === 'waived' || !(row.late_fee_cents > 0)) {
+        return [{ sourceType: 'late_fee', input: null }];
+      }
+
+      const unit = await getUnitContext(row.unit_id);
+      const description = formatDescription(LATE_FEE_ACCRUAL_MAPPING.descriptionTemplate, {
+        tenant: await getTenantName(row.tenant_id),
+        unit: unit.unitName,
+      });
+      return [{
+        sourceType: 'late_fee',
+        input: simpleJournal(
+          {
+            journalDate: row.assessed_date,
+            journalType: 'sales',
+            sourceType: 'late_fee',
+            sourceId: row.id,
+            transactionCurrency: unit.currency,
+            memo: description,
+          },
+          await resolveAccount(businessId, LATE_FEE_ACCRUAL_MAPPING.debit),
+          await resolveAccount(businessId, LATE_FEE_ACCRUAL_MAPPING.credit),
+          row.late_fee_cents,
+          { propertyId: unit.propertyId, unitId: row.unit_id, tenantId: row.tenant_id || undefined }
+        ),
+      }];
+    }
+
+    case 'rent_charge': {
+      if (!settings.postTenantActivity) return null;
+      const amountCents = row ? Math.round((row.due_amount || 0) * 100) : 0;
+      if (!accrual || !row || amountCents <= 0) {
+        return [{ sourceType: 'rent_charge', input: null }];
+      }
+
+      const chargeType = (row.payment_type || 'rent') as 'rent' | LeaseRecurringChargeType;
+      const unitId = row.leases?.unit_id;
+      const unit = await getUnitContext(unitId);
+      const chargeLabel = row.description
+        || (chargeType === 'rent' ? 'Rent' : RECURRING_CHARGE_TYPE_LABELS[chargeType])
+        || 'Charge';
+      const description = `${chargeLabel} due${unit.unitName ? ` - ${unit.unitName}` : ''}`;
+
+      return [{
+        sourceType: 'rent_charge',
+        input: simpleJournal(
+          {
+            journalDate: row.payment_date,
+            journalType: 'sales',
+            sourceType: 'rent_charge',
+            sourceId: row.id,
+            transactionCurrency: unit.currency,
+            memo: description,
+          },
+          await resolveAccount(businessId, GL_ACCOUNTS.RENT_RECEIVABLE),
+          await resolveAccount(businessId, SCHEDULE_CHARGE_ACCOUNTS[chargeType] || GL_ACCOUNTS.MISC_INCOME),
+          amountCents,
+          { propertyId: unit.propertyId, unitId }
+        ),
+      }];
+    }
+  }
+}
+
+/**
+ * Queue a transaction that failed to post, or count another attempt
+ */
+async function recordFailure(
+  businessId: string,
+  sourceType: PostingSourceType,
+  sourceId: string,
+  details: SourceDetails,
+  message: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { data: existing } = await supabase
+    .from('gl_unposted_transactions')
+    .select('id, attempts')
+    .eq('business_id', businessId)
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  const fields = {
+    transaction_date: details.transactionDate || null,
+    amount_cents: details.amountCents ?? null,
+    description: details.description || null,
+    error_message: message,
+    last_attempt_at: now,
+    updated_at: now,
+  };
+
+  const { error } = existing
+    ? await supabase
+        .from('gl_unposted_transactions')
+        .update({ ...fields, attempts: existing.attempts + 1 })
+        .eq('id', existing.id)
+    : await supabase
+        .from('gl_unposted_transactions')
+        .insert({ ...fields, business_id: businessId, source_type: sourceType, source_id: sourceId });
+
+  if (error) console.error('Failed to queue unposted transaction:', error);
+}
+
+async function clearFailure(businessId: string, sourceType: PostingSourceType, sourceId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await supabase
+    .from('gl_unposted_transactions')
+    .update({ status: 'resolved', resolved_at: now, updated_at: now })
+    .eq('business_id', businessId)
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+    .eq('status', 'pending');
+}
+
+/**
+ * Post, repost or reverse a source's journals. Failures are queued rather
+ * than thrown.
+ */
+async function syncSource(
+  businessId: string,
+  sourceType: PostingSourceType,
+  sourceId: string,
+  settings: PostingSettings
+): Promise<{ status: SyncStatus; journal: GLJournal | null }> {
+  let details: SourceDetails = {};
+
+  try {
+    const row = await loadSource(sourceType, sourceId);
+    details = describeSource(sourceType, row);
+
+    const targets = await buildTargets(businessId, sourceType, row, settings);
+    if (!targets) return { status: 'skipped', journal: null };
+
+    let changed = false;
+    let journal: GLJournal | null = null;
+
+    // Payments after their charges: reverse a stale payment journal before
+    // reversing the journal it settled
+    for (const target of [...targets].reverse()) {
+      const result = await applyJournal(businessId, sourceId, target);
+      changed = changed || result.changed;
+      if (target === targets[0]) journal = result.journal;
+    }
+
+    await clearFailure(businessId, sourceType, sourceId);
+    return { status: changed ? 'posted' : 'unchanged', journal };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to post to the general ledger';
+    console.error(`Failed to post ${sourceType} ${sourceId} to GL:`, err);
+    await recordFailure(businessId, sourceType, sourceId, details, message);
+    return { status: 'failed', journal: null };
+  }
+}
+
+export const glPostingService = {
+  // ========================================
+  // Transaction Posting
+  // ========================================
+
+  /**
+   * Post a payment, expense, late fee or scheduled charge to the general
+   * ledger after it is created, changed or deleted. An out-of-date journal
+   * is reversed and posted again. Never throws: a transaction that cannot
+   * be posted is added to the unposted queue. Returns the source's main
+   * journal, if it has one.
+   */
+  async syncTransaction(
+    businessId: string,
+    sourceType: PostingSourceType,
+    sourceId: string,
+    userId?: string
+  ): Promise<GLJournal | null> {
+    try {
+      const postingUserId = userId || (await supabase.auth.getUser()).data.user?.id;
+      if (!postingUserId) return null;
+
+      const settings = await getPostingSettings(businessId);
+      if (!settings) return null;
+
+      return (await syncSource(businessId, sourceType, sourceId, settings)).journal;
+    } catch (err) {
+      console.error('Failed to post transaction to GL:', err);
+      return null;
+    }
+  },
+
+  /**
+   * Accrue charges and late fees that have fallen due, pick up transactions
+   * changed or deleted outside the app, and retry the unposted queue. Only
+   * transactions dated on or after the posting start date are swept.
+   */
+  async runPostingSweep(businessId: string): Promise<PostingSweepResult> {
+    const result: PostingSweepResult = { checked: 0, posted: 0, failed: 0 };
+    const settings = await getPostingSettings(businessId);
+    if (!settings) return result;
+
+    const { data: candidates, error } = await supabase.rpc('get_gl_posting_candidates', {
+      p_business_id: businessId,
+      p_from: settings.startDate || today(),
+      p_through: today(),
+    });
+
+    if (error) throw error;
+
+    const { data: queued, error: queueError } = await supabase
+      .from('gl_unposted_transactions')
+      .select('source_type, source_id, status')
+      .eq('business_id', businessId)
+      .in('status', ['pending', 'dismissed']);
+
+    if (queueError) throw queueError;
+
+    const key = (type: string, id: string) => `${type}:${id}`;
+    const dismissed = new Set(
+      (queued || []).filter(q => q.status === 'dismissed').map(q => key(q.source_type, q.source_id))
+    );
+    const work = new Map<string, { type: PostingSourceType; id: string }>();
+
+    for (const q of (queued || []).filter(q => q.status === 'pending')) {
+      work.set(key(q.source_type, q.source_id), { type: q.source_type, id: q.source_id });
+    }
+    for (const c of candidates || []) {
+      const k = key(c.candidate_type, c.candidate_id);
+      if (!dismissed.has(k)) work.set(k, { type: c.candidate_type, id: c.candidate_id });
+    }
+
+    for (const item of work.values()) {
+      result.checked++;
+      const { status } = await syncSource(businessId, item.type, item.id, settings);
+      if (status === 'posted') result.posted++;
+      if (status === 'failed') result.failed++;
+    }
+
+    await glAccountService.upsertAccountingSettings(businessId, {
+      last_posting_sweep_at: new Date().toISOString(),
+    });
+
+    return result;
+  },
+
+  /**
+   * Run the sweep if it has not run today. Used when the accounting
+   * dashboard opens; returns null when it was skipped.
+   */
+  async runDailySweep(businessId: string): Promise<PostingSweepResult | null> {
+    const settings = await getPostingSettings(businessId);
+    if (!settings || (settings.lastSweepAt && settings.lastSweepAt.split('T')[0] === today())) return null;
+    return this.runPostingSweep(businessId);
+  },
+
+  // ========================================
+  // Unposted Queue
+  // ========================================
+
+  /**
+   * Get queued transactions, newest first
+   */
+  async getUnpostedTransactions(
+    businessId: string,
+    status: UnpostedTransactionStatus = 'pending'
+  ): Promise<UnpostedTransaction[]> {
+    const { data, error } = await supabase
+      .from('gl_unposted_transactions')
+      .select('*')
+      .eq('business_id', businessId)
+      .eq('status', status)
+      .order('last_attempt_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Number of transactions waiting to post
+   */
+  async getUnpostedCount(businessId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('gl_unposted_transactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('business_id', businessId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  /**
+   * Try posting a queued or dismissed transaction again. Returns whether it
+   * posted; on failure the transaction is (back) in the queue with the
+   * latest error.
+   */
+  async retryUnposted(item: UnpostedTransaction): Promise<boolean> {
+    const settings = await getPostingSettings(item.business_id);
+    if (!settings) throw new Error('Set up the chart of accounts and accounting settings first');
+
+    const { status } = await syncSource(item.business_id, item.source_type, item.source_id, settings);
+    if (status === 'failed') return false;
+
+    // A dismissed entry that now posts is no longer dismissed
+    if (item.status === 'dismissed') {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('gl_unposted_transactions')
+        .update({ status: 'resolved', resolved_at: now, updated_at: now })
+        .eq('id', item.id);
+
+      if (error) throw error;
+    }
+    return true;
+  },
+
+  /**
+   * Stop trying to post a transaction, e.g. one entered by hand instead
+   */
+  async dismissUnposted(itemId: string, userId: string, reason: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('gl_unposted_transactions')
+      .update({
+        status: 'dismissed',
+        dismissed_by: userId,
+        dismissed_at: now,
+        dismiss_reason: reason.trim() || null,
+        updated_at: now,
+      })
+      .eq('id', itemId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+  },
+};
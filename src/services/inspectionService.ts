@@ -0,0 +1,747 @@
+import { supabase } from '../lib/supabase';
+import {
+  InspectionConditionRating,
+  InspectionPhoto,
+  InspectionTemplate,
+  InspectionTemplateRoom,
+  InspectionType,
+  UnitInspection,
+  UnitInspectionItem,
+} from '../types';
+import { fileStorageService } from './fileStorageService';
+import { maintenanceService } from './maintenanceService';
+import { pdfGenerationService } from './pdfGenerationService';
+
+export interface InspectionFilters {
+  unitId?: string;
+  leaseId?: string;
+  inspectionType?: InspectionType;
+}
+
+export interface CreateInspectionInput {
+  unitId: string;
+  inspectionType: InspectionType;
+  inspectionDate: string;
+  templateId?: string;
+}
+
+export interface InspectionComparisonRow {
+  roomName: string;
+  itemName: string;
+  before?: UnitInspectionItem;
+  after?: UnitInspectionItem;
+  deteriorated: boolean;
+}
+
+export interface InspectionReport {
+  inspection: UnitInspection;
+  previous: UnitInspection | null;
+  rows: InspectionComparisonRow[];
+  unitLabel: string;
+  tenantName: string;
+}
+
+export const INSPECTION_TYPE_LABELS: Record<InspectionType, string> = {
+  move_in: 'Move-In',
+  move_out: 'Move-Out',
+  periodic: 'Periodic',
+};
+
+export const INSPECTION_RATING_LABELS: Record<InspectionConditionRating, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  damaged: 'Damaged',
+  not_applicable: 'N/A',
+};
+
+/**
+ * Rooms used when a business has no inspection template
+ */
+export const DEFAULT_INSPECTION_ROOMS: InspectionTemplateRoom[] = [
+  { name: 'Entrance', items: ['Door & lock', 'Walls', 'Floor', 'Closet', 'Lighting'] },
+  { name: 'Living Room', items: ['Walls', 'Ceiling', 'Floor', 'Windows & screens', 'Window coverings', 'Lighting & outlets'] },
+  { name: 'Kitchen', items: ['Walls', 'Floor', 'Cabinets & counters', 'Sink & faucet', 'Refrigerator', 'Stove & oven', 'Range hood', 'Dishwasher'] },
+  { name: 'Bedroom', items: ['Walls', 'Ceiling', 'Floor', 'Windows & screens', 'Closet', 'Lighting & outlets'] },
+  { name: 'Bathroom', items: ['Walls', 'Floor', 'Toilet', 'Sink & vanity', 'Tub / shower', 'Exhaust fan', 'Mirror & fixtures'] },
+  { name: 'General', items: ['Smoke & CO detectors', 'Heating / cooling', 'Keys & fobs', 'Balcony / patio'] },
+];
+
+// Worst last; not_applicable is never compared
+const RATING_ORDER: InspectionConditionRating[] = ['excellent', 'good', 'fair', 'poor', 'damaged'];
+
+const INSPECTION_SELECT = `
+  *,
+  unit:units(id, unit_number, property:properties(id, name, address_line1)),
+  tenant:tenants(id, first_name, last_name, email)
+`;
+
+const tenantName = (inspection: UnitInspection) =>
+  inspection.tenant ? `${inspection.tenant.first_name} ${inspection.tenant.last_name}`.trim() : '';
+
+const unitLabel = (inspection: UnitInspection) =>
+  [inspection.unit?.property?.name, inspection.unit?.unit_number ? `Unit ${inspection.unit.unit_number}` : '']
+    .filter(Boolean)
+    .join(' - ');
+
+const itemKey = (roomName: string, itemName: string) =>
+  `${roomName.trim().toLowerCase()}|${itemName.trim().toLowerCase()}`;
+
+/**
+ * Pair the items of two inspections by room and item name. Rows follow the
+ * order of the later inspection, then items only found in the earlier one.
+ */
+export function compareInspectionItems(
+  before: UnitInspectionItem[],
+  after: UnitInspectionItem[]
+): InspectionComparisonRow[] {
+  const beforeByKey = new Map(before.map(item => [itemKey(item.room_name, item.item_name), item]));
+  const seen = new Set<string>();
+
+  const isWorse = (b?: UnitInspectionItem, a?: UnitInspectionItem) => {
+    if (a?.is_damage) return true;
+    const beforeRank = b?.condition_rating ? RATING_ORDER.indexOf(b.condition_rating) : -1;
+    const afterRank = a?.condition_rating ? RATING_ORDER.indexOf(a.condition_rating) : -1;
+    return beforeRank >= 0 && afterRank > beforeRank;
+  };
+
+  const rows: InspectionComparisonRow[] = after.map(item => {
+    const key = itemKey(item.room_name, item.item_name);
+    seen.add(key);
+    const match = beforeByKey.get(key);
+    return {
+      roomName: item.room_name,
+      itemName: item.item_name,
+      before: match,
+      after: item,
+      deteriorated: isWorse(match, item),
+    };
+  });
+
+  for (const item of before) {
+    if (!seen.has(itemKey(item.room_name, item.item_name))) {
+      rows.push({ roomName: item.room_name, itemName: item.item_name, before: item, deteriorated: false });
+    }
+  }
+
+  return rows;
+}
+
+export const inspectionService = {
+  // ========================================
+  // Templates
+  // ========================================
+
+  /**
+   * Get inspection templates for a business, default first
+   */
+  async getTemplates(businessId: string): Promise<InspectionTemplate[]> {
+    const { data, error } = await supabase
+      .from('inspection_templates')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('is_default', { ascending: false })
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Create or update a template. Making a template the default clears the
+   * flag on the business's other templates.
+   */
+  async saveTemplate(
+    businessId: string,
+    userId: string,
+    template: Pick<InspectionTemplate, 'name' | 'rooms' | 'is_default'> & { id?: string; description?: string }
+  ): Promise<InspectionTemplate> {
+    const rooms = template.rooms
+      .map(room => ({ name: room.name.trim(), items: room.items.map(i => i.trim()).filter(Boolean) }))
+      .filter(room => room.name && room.items.length > 0);
+
+    if (!template.name.trim()) {
+      throw new Error('Template name is required');
+    }
+    if (rooms.length === 0) {
+      throw new Error('A template needs at least one room with items');
+    }
+
+    if (template.is_default) {
+      const { error } = await supabase
+        .from('inspection_templates')
+        .update({ is_default: false })
+        .eq('business_id', businessId)
+        .eq('is_default', true)
+        .neq('id', template.id || '00000000-0000-0000-0000-000000000000');
+
+      if (error) throw error;
+    }
+
+    const row = {
+      name: template.name.trim(),
+      description: template.description || null,
+      rooms,
+      is_default: template.is_default,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = template.id
+      ? await supabase.from('inspection_templates').update(row).eq('id', template.id).select().single()
+      : await supabase
+          .from('inspection_templates')
+          .insert({ ...row, business_id: businessId, created_by: userId })
+          .select()
+          .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a template. Inspections built from it keep their items.
+   */
+  async deleteTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('inspection_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // Inspections
+  // ========================================
+
+  /**
+   * Get inspections for a business, newest first
+   */
+  async getInspections(businessId: string, filters: InspectionFilters = {}): Promise<UnitInspection[]> {
+    let query = supabase
+      .from('unit_inspections')
+      .select(INSPECTION_SELECT)
+      .eq('business_id', businessId)
+      .order('inspection_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (filters.unitId) {
+      query = query.eq('unit_id', filters.unitId);
+    }
+    if (filters.leaseId) {
+      query = query.eq('lease_id', filters.leaseId);
+    }
+    if (filters.inspectionType) {
+      query = query.eq('inspection_type', filters.inspectionType);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Get an inspection with its items and photos
+   */
+  async getInspection(inspectionId: string): Promise<UnitInspection | null> {
+    const { data, error } = await supabase
+      .from('unit_inspections')
+      .select(`
+        ${INSPECTION_SELECT},
+        items:unit_inspection_items(*),
+        photos:inspection_photos(*)
+      `)
+      .eq('id', inspectionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    data.items = (data.items || []).sort((a: UnitInspectionItem, b: UnitInspectionItem) => a.sort_order - b.sort_order);
+    data.photos = (data.photos || []).sort((a: InspectionPhoto, b: InspectionPhoto) => a.uploaded_at.localeCompare(b.uploaded_at));
+    return data;
+  },
+
+  /**
+   * Start an inspection of a unit for its current lease and primary tenant.
+   * A move-out inspection repeats the items of the lease's move-in inspection
+   * so the two can be compared; otherwise items come from the template.
+   */
+  async createInspection(businessId: string, userId: string, input: CreateInspectionInput): Promise<UnitInspection> {
+    const [{ data: lease }, { data: tenant }] = await Promise.all([
+      supabase
+        .from('leases')
+        .select('id')
+        .eq('unit_id', input.unitId)
+        .in('status', ['active', 'pending_signature', 'expired', 'terminated'])
+        .order('start_date', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('tenants')
+        .select('id')
+        .eq('unit_id', input.unitId)
+        .eq('tenant_type', 'primary')
+        .eq('is_active', true)
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    let rooms: InspectionTemplateRoom[] = DEFAULT_INSPECTION_ROOMS;
+    let templateId: string | null = input.templateId || null;
+
+    const moveIn = input.inspectionType === 'move_out'
+      ? await this.findMoveInInspection(input.unitId, lease?.id || null, input.inspectionDate)
+      : null;
+
+    if (moveIn) {
+      const full = await this.getInspection(moveIn.id);
+      const grouped = new Map<string, string[]>();
+      for (const item of full?.items || []) {
+        grouped.set(item.room_name, [...(grouped.get(item.room_name) || []), item.item_name]);
+      }
+      rooms = [...grouped].map(([name, items]) => ({ name, items }));
+      templateId = moveIn.template_id || templateId;
+    } else {
+      const templates = await this.getTemplates(businessId);
+      const template = templates.find(t => t.id === input.templateId) || templates.find(t => t.is_default);
+      if (template) {
+        rooms = template.rooms;
+        templateId = template.id;
+      }
+    }
+
+    const { data: inspection, error } = await supabase
+      .from('unit_inspections')
+      .insert({
+        business_id: businessId,
+        unit_id: input.unitId,
+        lease_id: lease?.id || null,
+        tenant_id: tenant?.id || null,
+        template_id: templateId,
+        inspection_type: input.inspectionType,
+        inspection_date: input.inspectionDate,
+        inspector_id: userId,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    let sortOrder = 0;
+    const items = rooms.flatMap(room =>
+      room.items.map(itemName => ({
+        inspection_id: inspection.id,
+        room_name: room.name,
+        item_name: itemName,
+        sort_order: sortOrder++,
+      }))
+    );
+
+    if (items.length > 0) {
+      const { error: itemsError } = await supabase.from('unit_inspection_items').insert(items);
+      if (itemsError) throw itemsError;
+    }
+
+    return inspection;
+  },
+
+  /**
+   * Update the date or general notes of an inspection
+   */
+  async updateInspection(
+    inspectionId: string,
+    updates: Partial<Pick<UnitInspection, 'inspection_date' | 'general_notes'>>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('unit_inspections')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', inspectionId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Delete an inspection that has not been signed
+   */
+  async deleteInspection(inspectionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('unit_inspections')
+      .delete()
+      .eq('id', inspectionId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Find the move-in inspection a move-out is compared against: the latest
+   * finished move-in for the lease (or the unit, without a lease) on or
+   * before the given date
+   */
+  async findMoveInInspection(unitId: string, leaseId: string | null, beforeDate: string): Promise<UnitInspection | null> {
+    let query = supabase
+      .from('unit_inspections')
+      .select(INSPECTION_SELECT)
+      .eq('unit_id', unitId)
+      .eq('inspection_type', 'move_in')
+      .in('status', ['completed', 'signed'])
+      .lte('inspection_date', beforeDate)
+      .order('inspection_date', { ascending: false })
+      .limit(1);
+
+    if (leaseId) {
+      query = query.eq('lease_id', leaseId);
+    }
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  // ========================================
+  // Items and Photos
+  // ========================================
+
+  /**
+   * Update the findings or damage follow-up of an item
+   */
+  async updateItem(
+    itemId: string,
+    updates: Partial<Pick<UnitInspectionItem,
+      'condition_rating' | 'notes' | 'is_damage' | 'estimated_cost_cents' | 'deposit_charge_cents'
+    >>
+  ): Promise<UnitInspectionItem> {
+    const { data, error } = await supabase
+      .from('unit_inspection_items')
+      .update(updates)
+      .eq('id', itemId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Add an item to a room, after the room's last item
+   */
+  async addItem(inspection: UnitInspection, roomName: string, itemName: string): Promise<UnitInspectionItem> {
+    const items = inspection.items || [];
+    const roomItems = items.filter(i => i.room_name === roomName);
+    const after = roomItems.length > 0 ? roomItems[roomItems.length - 1]!.sort_order : items.length;
+
+    // Make room after the insertion point
+    for (const item of items.filter(i => i.sort_order > after)) {
+      await supabase
+        .from('unit_inspection_items')
+        .update({ sort_order: item.sort_order + 1 })
+        .eq('id', item.id);
+    }
+
+    const { data, error } = await supabase
+      .from('unit_inspection_items')
+      .insert({
+        inspection_id: inspection.id,
+        room_name: roomName.trim(),
+        item_name: itemName.trim(),
+        sort_order: after + 1,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Remove an item from an inspection
+   */
+  async deleteItem(itemId: string): Promise<void> {
+    const { error } = await supabase
+      .from('unit_inspection_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Attach a photo to an inspection item (stored as a data URL, like
+   * application documents)
+   */
+  async uploadPhoto(
+    inspectionId: string,
+    itemId: string | null,
+    file: File,
+    userId: string
+  ): Promise<InspectionPhoto> {
+    if (!file.type.startsWith('image/')) {
+      throw new Error('Only image files can be attached to an inspection');
+    }
+    const validation = fileStorageService.validateFile(file);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    const fileUrl = await fileStorageService.fileToBase64(file);
+
+    const { data, error } = await supabase
+      .from('inspection_photos')
+      .insert({
+        inspection_id: inspectionId,
+        item_id: itemId,
+        file_name: file.name,
+        file_url: fileUrl,
+        file_size: file.size,
+        mime_type: file.type,
+        uploaded_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a photo
+   */
+  async deletePhoto(photoId: string): Promise<void> {
+    const { error } = await supabase
+      .from('inspection_photos')
+      .delete()
+      .eq('id', photoId);
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // Signing
+  // ========================================
+
+  /**
+   * Finish an inspection with the inspector's signature. Every item must be rated.
+   */
+  async completeInspection(
+    inspection: UnitInspection,
+    userId: string,
+    signerName: string,
+    signatureData: string,
+    method: 'digital' | 'typed'
+  ): Promise<void> {
+    const unrated = (inspection.items || []).filter(item => !item.condition_rating);
+    if (unrated.length > 0) {
+      throw new Error(`${unrated.length} item${unrated.length === 1 ? ' has' : 's have'} no condition rating`);
+    }
+
+    const { error } = await supabase
+      .from('unit_inspections')
+      .update({
+        status: 'completed',
+        inspector_id: userId,
+        inspector_name: signerName,
+        inspector_signature: signatureData,
+        inspector_signature_method: method,
+        inspector_signed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', inspection.id)
+      .eq('status', 'in_progress');
+
+    if (error) throw error;
+  },
+
+  /**
+   * Record the tenant's co-signature, which locks the inspection
+   */
+  async recordTenantSignature(
+    inspectionId: string,
+    signerName: string,
+    signatureData: string,
+    method: 'digital' | 'typed',
+    comments?: string
+  ): Promise<void> {
+    const { data, error } = await supabase
+      .from('unit_inspections')
+      .update({
+        status: 'signed',
+        tenant_signer_name: signerName,
+        tenant_signature: signatureData,
+        tenant_signature_method: method,
+        tenant_signed_at: new Date().toISOString(),
+        tenant_comments: comments || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', inspectionId)
+      .eq('status', 'completed')
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error('The inspector must sign before the tenant co-signs');
+    }
+  },
+
+  /**
+   * Return a completed inspection to editing, clearing the inspector's signature
+   */
+  async reopenInspection(inspectionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('unit_inspections')
+      .update({
+        status: 'in_progress',
+        inspector_signature: null,
+        inspector_signature_method: null,
+        inspector_signed_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', inspectionId)
+      .eq('status', 'completed');
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // Damage Follow-Up
+  // ========================================
+
+  /**
+   * Open a maintenance request for a damaged item and link it to the item
+   */
+  async createMaintenanceRequest(inspection: UnitInspection, item: UnitInspectionItem): Promise<string> {
+    const { data: unit, error: unitError } = await supabase
+      .from('units')
+      .select('id, property:properties(id, organization_id, portfolio_id)')
+      .eq('id', inspection.unit_id)
+      .single();
+
+    if (unitError) throw unitError;
+
+    const property = unit.property as any;
+    const photos = (inspection.photos || []).filter(p => p.item_id === item.id).map(p => p.file_url);
+    const request = await maintenanceService.createRequest({
+      organization_id: property?.organization_id || null,
+      portfolio_id: property?.portfolio_id || null,
+      property_id: property?.id,
+      unit_id: inspection.unit_id,
+      tenant_id: inspection.tenant_id,
+      title: `${item.room_name}: ${item.item_name}`,
+      description: [
+        `Found during ${INSPECTION_TYPE_LABELS[inspection.inspection_type].toLowerCase()} inspection on ${inspection.inspection_date}.`,
+        item.notes,
+      ].filter(Boolean).join('\n'),
+      category: 'other',
+      priority: 'medium',
+      status: 'submitted',
+      estimated_cost_cents: item.estimated_cost_cents,
+      images: photos,
+      entry_allowed: true,
+    } as any);
+
+    const { error } = await supabase
+      .from('unit_inspection_items')
+      .update({ maintenance_request_id: request.id })
+      .eq('id', item.id);
+
+    if (error) throw error;
+    return request.id;
+  },
+
+  // ========================================
+  // Reports
+  // ========================================
+
+  /**
+   * Build the report of an inspection. Move-out inspections are compared
+   * side by side with the move-in inspection.
+   */
+  async getReport(inspectionId: string): Promise<InspectionReport> {
+    const inspection = await this.getInspection(inspectionId);
+    if (!inspection) {
+      throw new Error('Inspection not found');
+    }
+
+    let previous: UnitInspection | null = null;
+    if (inspection.inspection_type === 'move_out') {
+      const moveIn = await this.findMoveInInspection(inspection.unit_id, inspection.lease_id || null, inspection.inspection_date);
+      previous = moveIn ? await this.getInspection(moveIn.id) : null;
+    }
+
+    return {
+      inspection,
+      previous,
+      rows: compareInspectionItems(previous?.items || [], inspection.items || []),
+      unitLabel: unitLabel(inspection),
+      tenantName: tenantName(inspection),
+    };
+  },
+
+  /**
+   * Generate the report PDF
+   */
+  async generateReportPDF(inspectionId: string, businessName: string): Promise<{ blob: Blob; fileName: string }> {
+    const report = await this.getReport(inspectionId);
+    const { inspection } = report;
+    const title = report.previous
+      ? 'Move-In / Move-Out Inspection Comparison'
+      : `${INSPECTION_TYPE_LABELS[inspection.inspection_type]} Inspection Report`;
+
+    const blob = await pdfGenerationService.generateInspectionReport(report, {
+      title,
+      organizationName: businessName,
+      period: report.unitLabel,
+      generatedDate: new Date().toISOString().split('T')[0]!,
+    });
+
+    const fileName = `inspection-${inspection.inspection_type.replace('_', '-')}-${inspection.inspection_date}.pdf`;
+    return { blob, fileName };
+  },
+
+  /**
+   * Download the report PDF
+   */
+  async downloadReport(inspectionId: string, businessName: string): Promise<void> {
+    const { blob, fileName } = await this.generateReportPDF(inspectionId, businessName);
+    pdfGenerationService.downloadPDF(blob, fileName);
+  },
+
+  /**
+   * Add the report to the tenant's documents, replacing an earlier copy
+   */
+  async shareReportWithTenant(
+    inspection: UnitInspection,
+    userId: string,
+    businessName: string
+  ): Promise<void> {
+    if (!inspection.tenant_id) {
+      throw new Error('This inspection has no tenant to share it with');
+    }
+
+    const { blob, fileName } = await this.generateReportPDF(inspection.id, businessName);
+    const fileUrl = await fileStorageService.fileToBase64(new File([blob], fileName, { type: 'application/pdf' }));
+
+    const { error: deleteError } = await supabase
+      .from('tenant_documents')
+      .delete()
+      .eq('source_type', 'inspection')
+      .eq('source_id', inspection.id);
+
+    if (deleteError) throw deleteError;
+
+    const { error } = await supabase.from('tenant_documents').insert({
+      business_id: inspection.business_id,
+      tenant_id: inspection.tenant_id,
+      unit_id: inspection.unit_id,
+      document_type: 'inspection',
+      file_name: fileName,
+      file_url: fileUrl,
+      source_type: 'inspection',
+      source_id: inspection.id,
+      uploaded_by: userId,
+    });
+
+    if (error) throw error;
+  },
+};
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import {
+  AccountingMethod,
   GLJournal,
   GLJournalEntry,
   GLLedgerEntry,
@@ -15,6 +16,7 @@ import {
   getSpecialMapping,
   formatDescription,
   GL_ACCOUNTS,
+  ACCRUAL_PAYMENT_RECEIVABLES,
 } from '../config/glAccountMappings';
 
 export interface JournalFilters {
@@ -48,12 +50,135 @@ export interface CreateJournalInput {
   sourceId?: string;
   transactionCurrency?: string;
   exchangeRate?: number;
+  // Date and row of the rate used, when exchangeRate is given
+  exchangeRateDate?: string;
+  exchangeRateId?: string | null;
+  exchangeRateInverted?: boolean;
   memo?: string;
   reference?: string;
   entries: JournalEntryInput[];
   autoPost?: boolean;
 }
 
+export interface RentPaymentJournalSource {
+  id: string;
+  paymentDate: string;
+  amountCents: number;
+  paymentType: 'rent' | 'security_deposit' | 'pet_deposit' | 'late_fee' | 'utility' | 'maintenance' | 'other';
+  tenantName?: string;
+  unitName?: string;
+  propertyId?: string;
+  unitId?: string;
+  tenantId?: string;
+  currency?: string;
+}
+
+export interface ExpenseJournalSource {
+  id: string;
+  expenseDate: string;
+  amountCents: number;
+  category: string;
+  vendorName?: string;
+  propertyName?: string;
+  propertyId?: string;
+  unitId?: string;
+  vendorId?: string;
+  currency?: string;
+  taxAmountCents?: number;
+  taxRateId?: string;
+}
+
+/**
+ * Convert each line to base currency. Rounding lines separately can leave
+ * base debits and credits a cent or two apart, so the difference goes on
+ * the largest line of the lighter side to keep the journal balanced.
+ */
+function toBaseAmounts(
+  entries: JournalEntryInput[],
+  exchangeRate: number
+): Array<{ baseDebitCents: number; baseCreditCents: number }> {
+  const lines = entries.map((entry) => ({
+    baseDebitCents: Math.round((entry.debitCents || 0) * exchangeRate),
+    baseCreditCents: Math.round((entry.creditCents || 0) * exchangeRate),
+  }));
+
+  const difference = lines.reduce((sum, line) => sum + line.baseDebitCents - line.baseCreditCents, 0);
+  if (difference !== 0) {
+    const side = difference > 0 ? 'baseCreditCents' : 'baseDebitCents';
+    const target = lines.reduce((largest, line) => (line[side] > largest[side] ? line : largest));
+    target[side] += Math.abs(difference);
+  }
+
+  return lines;
+}
+
+interface JournalRate {
+  exchangeRate: number;
+  exchangeRateDate?: string;
+  exchangeRateId: string | null;
+  exchangeRateInverted: boolean;
+}
+
+/**
+ * The rate a journal converts at: the one given, or else the rate in
+ * effect on the journal date
+ */
+async function resolveJournalRate(
+  businessId: string,
+  input: CreateJournalInput,
+  transactionCurrency: string,
+  baseCurrency: string
+): Promise<JournalRate> {
+  if (transactionCurrency === baseCurrency || input.exchangeRate) {
+    return {
+      exchangeRate: input.exchangeRate || 1,
+      exchangeRateDate: input.exchangeRateDate,
+      exchangeRateId: input.exchangeRateId || null,
+      exchangeRateInverted: input.exchangeRateInverted || false,
+    };
+  }
+
+  const resolved = await currencyService.requireExchangeRate(
+    transactionCurrency,
+    baseCurrency,
+    input.journalDate,
+    businessId
+  );
+  return {
+    exchangeRate: resolved.rate,
+    exchangeRateDate: resolved.effectiveDate,
+    exchangeRateId: resolved.rateId,
+    exchangeRateInverted: resolved.inverted,
+  };
+}
+
+/**
+ * Fail when a journal date falls in a fiscal period that is closed or being
+ * closed. Closing journals post to the year's adjusting period instead of
+ * the last regular period.
+ */
+async function assertPeriodOpen(
+  businessId: string,
+  date: string,
+  sourceType: JournalSourceType | undefined
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('fiscal_periods')
+    .select('period_name, status')
+    .eq('business_id', businessId)
+    .eq('is_adjusting_period', sourceType === 'year_end_close')
+    .lte('start_date', date)
+    .gte('end_date', date)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data && data.status !== 'open') {
+    throw new Error(
+      `Cannot post to ${date}. Fiscal period ${data.period_name} is ${data.status === 'closing' ? 'being closed' : 'closed'}.`
+    );
+  }
+}
+
 export const journalService = {
   // ========================================
   // Journal CRUD Operations
@@ -72,16 +197,14 @@ export const journalService = {
     const baseCurrency = settings?.base_currency || 'CAD';
     const transactionCurrency = input.transactionCurrency || baseCurrency;
 
-    // Get exchange rate if different currency
-    let exchangeRate = input.exchangeRate || 1;
-    if (transactionCurrency !== baseCurrency && !input.exchangeRate) {
-      exchangeRate = await currencyService.getExchangeRate(
-        transactionCurrency,
-        baseCurrency,
-        input.journalDate
-      );
+    // Don't leave a draft behind when it can't be posted
+    if (input.autoPost) {
+      await assertPeriodOpen(businessId, input.journalDate, input.sourceType);
     }
 
+    const { exchangeRate, exchangeRateDate, exchangeRateId, exchangeRateInverted } =
+      await resolveJournalRate(businessId, input, transactionCurrency, baseCurrency);
+
     // Calculate totals
     let totalDebitCents = 0;
     let totalCreditCents = 0;
@@ -98,9 +221,10 @@ export const journalService = {
       );
     }
 
-    // Calculate base currency totals
-    const baseTotalDebitCents = Math.round(totalDebitCents * exchangeRate);
-    const baseTotalCreditCents = Math.round(totalCreditCents * exchangeRate);
+    // Calculate base currency amounts
+    const baseLines = toBaseAmounts(input.entries, exchangeRate);
+    const baseTotalDebitCents = baseLines.reduce((sum, line) => sum + line.baseDebitCents, 0);
+    const baseTotalCreditCents = baseLines.reduce((sum, line) => sum + line.baseCreditCents, 0);
 
     // Get next journal number
     const { data: journalNumber, error: numError } = await supabase.rpc(
@@ -122,6 +246,9 @@ export const journalService = {
         source_id: input.sourceId,
         transaction_currency: transactionCurrency,
         exchange_rate: exchangeRate,
+        exchange_rate_date: transactionCurrency !== baseCurrency ? exchangeRateDate : null,
+        exchange_rate_id: transactionCurrency !== baseCurrency ? exchangeRateId : null,
+        exchange_rate_inverted: transactionCurrency !== baseCurrency && exchangeRateInverted,
         status: 'draft',
         total_debit_cents: totalDebitCents,
         total_credit_cents: totalCreditCents,
@@ -143,8 +270,8 @@ export const journalService = {
       line_number: index + 1,
       debit_cents: entry.debitCents || 0,
       credit_cents: entry.creditCents || 0,
-      base_debit_cents: Math.round((entry.debitCents || 0) * exchangeRate),
-      base_credit_cents: Math.round((entry.creditCents || 0) * exchangeRate),
+      base_debit_cents: baseLines[index]!.baseDebitCents,
+      base_credit_cents: baseLines[index]!.baseCreditCents,
       property_id: entry.propertyId,
       unit_id: entry.unitId,
       tenant_id: entry.tenantId,
@@ -245,7 +372,8 @@ export const journalService = {
   },
 
   /**
-   * Get journal by source reference
+   * Get the active journal for a source reference. Reversed and void
+   * journals are skipped, since a source is posted again after it changes.
    */
   async getJournalBySource(
     businessId: string,
@@ -258,6 +386,9 @@ export const journalService = {
       .eq('business_id', businessId)
       .eq('source_type', sourceType)
       .eq('source_id', sourceId)
+      .not('status', 'in', '(reversed,void)')
+      .order('created_at', { ascending: false })
+      .limit(1)
       .maybeSingle();
 
     if (error) throw error;
@@ -306,11 +437,11 @@ export const journalService = {
         );
       }
 
-      const exchangeRate = existing.journal.exchange_rate;
+      const baseLines = toBaseAmounts(updates.entries, existing.journal.exchange_rate);
       headerUpdates.total_debit_cents = totalDebitCents;
       headerUpdates.total_credit_cents = totalCreditCents;
-      headerUpdates.base_total_debit_cents = Math.round(totalDebitCents * exchangeRate);
-      headerUpdates.base_total_credit_cents = Math.round(totalCreditCents * exchangeRate);
+      headerUpdates.base_total_debit_cents = baseLines.reduce((sum, line) => sum + line.baseDebitCents, 0);
+      headerUpdates.base_total_credit_cents = baseLines.reduce((sum, line) => sum + line.baseCreditCents, 0);
 
       // Delete existing entries and insert new ones
       await supabase.from('gl_journal_entries').delete().eq('journal_id', journalId);
@@ -321,8 +452,8 @@ export const journalService = {
         line_number: index + 1,
         debit_cents: entry.debitCents || 0,
         credit_cents: entry.creditCents || 0,
-        base_debit_cents: Math.round((entry.debitCents || 0) * exchangeRate),
-        base_credit_cents: Math.round((entry.creditCents || 0) * exchangeRate),
+        base_debit_cents: baseLines[index]!.baseDebitCents,
+        base_credit_cents: baseLines[index]!.baseCreditCents,
         property_id: entry.propertyId,
         unit_id: entry.unitId,
         tenant_id: entry.tenantId,
@@ -396,6 +527,9 @@ export const journalService = {
     // Get the business ID for fiscal period lookup
     const businessId = existing.journal.business_id;
     const journalDate = existing.journal.journal_date;
+    const isClosingEntry = existing.journal.source_type === 'year_end_close';
+
+    await assertPeriodOpen(businessId, journalDate, existing.journal.source_type);
 
     // Get fiscal period for the journal date
     const { data: fiscalPeriod, error: periodError } = await supabase.rpc('get_fiscal_period', {
@@ -412,8 +546,9 @@ export const journalService = {
       journal_id: journalId,
       journal_entry_id: entry.id,
       fiscal_year: fiscalPeriod?.fiscal_year || new Date(journalDate).getFullYear(),
-      fiscal_period: fiscalPeriod?.period_number || new Date(journalDate).getMonth() + 1,
+      fiscal_period: isClosingEntry ? 13 : fiscalPeriod?.period_number || new Date(journalDate).getMonth() + 1,
       posting_date: journalDate,
+      is_closing_entry: isClosingEntry,
       debit_cents: entry.debit_cents,
       credit_cents: entry.credit_cents,
       base_debit_cents: entry.base_debit_cents,
@@ -529,6 +664,10 @@ export const journalService = {
       throw new Error('Can only void posted journals');
     }
 
+    if (existing.entries.some((entry) => entry.is_reconciled)) {
+      throw new Error('Cannot void a journal with bank-reconciled entries. Reopen the bank reconciliation first.');
+    }
+
     // Reverse account balances
     for (const entry of existing.entries) {
       const account = await glAccountService.getAccountById(entry.account_id);
@@ -592,6 +731,10 @@ export const journalService = {
       throw new Error('Can only reverse posted journals');
     }
 
+    if (existing.entries.some((entry) => entry.is_reconciled)) {
+      throw new Error('Cannot reverse a journal with bank-reconciled entries. Reopen the bank reconciliation first.');
+    }
+
     // Create reversed entries (swap debits and credits)
     const reversedEntries: JournalEntryInput[] = existing.entries.map((entry) => ({
       accountId: entry.account_id,
@@ -615,6 +758,9 @@ export const journalService = {
         sourceId: journalId,
         transactionCurrency: existing.journal.transaction_currency,
         exchangeRate: existing.journal.exchange_rate,
+        exchangeRateDate: existing.journal.exchange_rate_date,
+        exchangeRateId: existing.journal.exchange_rate_id,
+        exchangeRateInverted: existing.journal.exchange_rate_inverted,
         memo: `Reversal of ${existing.journal.journal_number}`,
         reference: existing.journal.reference,
         entries: reversedEntries,
@@ -634,45 +780,94 @@ export const journalService = {
     return reversingJournal;
   },
 
+  /**
+   * Replace the auto-posted journal of a transaction in one database
+   * transaction: its current journal is deleted (draft) or reversed, and the
+   * new one, if given, is posted. When any step fails nothing changes.
+   */
+  async replaceSourceJournal(
+    businessId: string,
+    sourceType: JournalSourceType,
+    sourceId: string,
+    input: CreateJournalInput | null
+  ): Promise<GLJournal | null> {
+    let journal = null;
+
+    if (input) {
+      const settings = await glAccountService.getAccountingSettings(businessId);
+      const baseCurrency = settings?.base_currency || 'CAD';
+      const transactionCurrency = input.transactionCurrency || baseCurrency;
+      const foreign = transactionCurrency !== baseCurrency;
+      const rate = await resolveJournalRate(businessId, input, transactionCurrency, baseCurrency);
+      const baseLines = toBaseAmounts(input.entries, rate.exchangeRate);
+
+      journal = {
+        journal_date: input.journalDate,
+        journal_type: input.journalType,
+        transaction_currency: transactionCurrency,
+        exchange_rate: rate.exchangeRate,
+        exchange_rate_date: foreign ? rate.exchangeRateDate || null : null,
+        exchange_rate_id: foreign ? rate.exchangeRateId || null : null,
+        exchange_rate_inverted: foreign && rate.exchangeRateInverted,
+        memo: input.memo || null,
+        lines: input.entries.map((entry, index) => ({
+          account_id: entry.accountId,
+          debit_cents: entry.debitCents || 0,
+          credit_cents: entry.creditCents || 0,
+          base_debit_cents: baseLines[index]!.baseDebitCents,
+          base_credit_cents: baseLines[index]!.baseCreditCents,
+          property_id: entry.propertyId || null,
+          unit_id: entry.unitId || null,
+          tenant_id: entry.tenantId || null,
+          vendor_id: entry.vendorId || null,
+          tax_rate_id: entry.taxRateId || null,
+          tax_amount_cents: entry.taxAmountCents || 0,
+          description: entry.description || null,
+        })),
+      };
+    }
+
+    const { data: journalId, error } = await supabase.rpc('replace_gl_source_journal', {
+      p_business_id: businessId,
+      p_source_type: sourceType,
+      p_source_id: sourceId,
+      p_journal: journal,
+    });
+
+    // Keep the database's reason, e.g. a closed period, for the unposted queue
+    if (error) throw new Error(error.message);
+    if (!journalId) return null;
+
+    return (await this.getJournalById(journalId))?.journal || null;
+  },
+
   // ========================================
   // Auto-Posting from Transactions
   // ========================================
 
   /**
-   * Create journal from a rent payment
+   * Build the journal for a rent payment. Under accrual accounting,
+   * payment types that were accrued as charges settle the receivable
+   * instead of crediting income.
    */
-  async createFromRentPayment(
+  async buildRentPaymentJournal(
     businessId: string,
-    userId: string,
-    payment: {
-      id: string;
-      paymentDate: string;
-      amountCents: number;
-      paymentType: 'rent' | 'security_deposit' | 'pet_deposit' | 'late_fee' | 'utility' | 'maintenance' | 'other';
-      tenantName?: string;
-      unitName?: string;
-      propertyId?: string;
-      unitId?: string;
-      tenantId?: string;
-      currency?: string;
-    }
-  ): Promise<GLJournal> {
-    // Check if journal already exists for this payment
-    const existing = await this.getJournalBySource(businessId, 'rent_payment', payment.id);
-    if (existing) {
-      throw new Error('Journal already exists for this payment');
-    }
-
+    payment: RentPaymentJournalSource,
+    accountingMethod: AccountingMethod = 'cash'
+  ): Promise<CreateJournalInput> {
     // Get GL mapping for payment type
     const mapping = getPaymentMapping(payment.paymentType);
+    const creditNumber = accountingMethod === 'accrual'
+      ? ACCRUAL_PAYMENT_RECEIVABLES[payment.paymentType] || mapping.credit
+      : mapping.credit;
 
     // Get account IDs from account numbers
     const debitAccount = await glAccountService.getAccountByNumber(businessId, mapping.debit);
-    const creditAccount = await glAccountService.getAccountByNumber(businessId, mapping.credit);
+    const creditAccount = await glAccountService.getAccountByNumber(businessId, creditNumber);
 
     if (!debitAccount || !creditAccount) {
       throw new Error(
-        `GL accounts not found. Ensure chart of accounts is initialized. Missing: ${!debitAccount ? mapping.debit : ''} ${!creditAccount ? mapping.credit : ''}`
+        `GL accounts not found. Ensure chart of accounts is initialized. Missing: ${!debitAccount ? mapping.debit : ''} ${!creditAccount ? creditNumber : ''}`
       );
     }
 
@@ -704,7 +899,7 @@ export const journalService = {
       },
     ];
 
-    return this.createJournal(businessId, userId, {
+    return {
       journalDate: payment.paymentDate,
       journalType: 'cash_receipts',
       sourceType: 'rent_payment',
@@ -713,46 +908,48 @@ export const journalService = {
       memo: description,
       entries,
       autoPost: true,
-    });
+    };
   },
 
   /**
-   * Create journal from an expense
+   * Create journal from a rent payment
    */
-  async createFromExpense(
+  async createFromRentPayment(
     businessId: string,
     userId: string,
-    expense: {
-      id: string;
-      expenseDate: string;
-      amountCents: number;
-      category: string;
-      vendorName?: string;
-      propertyName?: string;
-      propertyId?: string;
-      unitId?: string;
-      vendorId?: string;
-      currency?: string;
-      taxAmountCents?: number;
-      taxRateId?: string;
-    }
+    payment: RentPaymentJournalSource,
+    accountingMethod: AccountingMethod = 'cash'
   ): Promise<GLJournal> {
-    // Check if journal already exists for this expense
-    const existing = await this.getJournalBySource(businessId, 'expense', expense.id);
+    // Check if journal already exists for this payment
+    const existing = await this.getJournalBySource(businessId, 'rent_payment', payment.id);
     if (existing) {
-      throw new Error('Journal already exists for this expense');
+      throw new Error('Journal already exists for this payment');
     }
 
+    const input = await this.buildRentPaymentJournal(businessId, payment, accountingMethod);
+    return this.createJournal(businessId, userId, input);
+  },
+
+  /**
+   * Build the journal for an expense. A payable expense (accrual
+   * accounting) credits Accounts Payable instead of the bank.
+   */
+  async buildExpenseJournal(
+    businessId: string,
+    expense: ExpenseJournalSource,
+    payable = false
+  ): Promise<CreateJournalInput> {
     // Get GL mapping for expense category
     const mapping = getExpenseMapping(expense.category as any);
+    const creditNumber = payable ? GL_ACCOUNTS.ACCOUNTS_PAYABLE : mapping.credit;
 
     // Get account IDs from account numbers
     const debitAccount = await glAccountService.getAccountByNumber(businessId, mapping.debit);
-    const creditAccount = await glAccountService.getAccountByNumber(businessId, mapping.credit);
+    const creditAccount = await glAccountService.getAccountByNumber(businessId, creditNumber);
 
     if (!debitAccount || !creditAccount) {
       throw new Error(
-        `GL accounts not found. Ensure chart of accounts is initialized. Missing: ${!debitAccount ? mapping.debit : ''} ${!creditAccount ? mapping.credit : ''}`
+        `GL accounts not found. Ensure chart of accounts is initialized. Missing: ${!debitAccount ? mapping.debit : ''} ${!creditAccount ? creditNumber : ''}`
       );
     }
 
@@ -797,7 +994,7 @@ export const journalService = {
       }
     }
 
-    // Credit to bank/cash
+    // Credit to bank/cash, or to payables
     const totalDebit = entries.reduce((sum, e) => sum + (e.debitCents || 0), 0);
     entries.push({
       accountId: creditAccount.id,
@@ -808,16 +1005,35 @@ export const journalService = {
       description,
     });
 
-    return this.createJournal(businessId, userId, {
+    return {
       journalDate: expense.expenseDate,
-      journalType: 'cash_payments',
+      journalType: payable ? 'purchases' : 'cash_payments',
       sourceType: 'expense',
       sourceId: expense.id,
       transactionCurrency: expense.currency,
       memo: description,
       entries,
       autoPost: true,
-    });
+    };
+  },
+
+  /**
+   * Create journal from an expense
+   */
+  async createFromExpense(
+    businessId: string,
+    userId: string,
+    expense: ExpenseJournalSource,
+    payable = false
+  ): Promise<GLJournal> {
+    // Check if journal already exists for this expense
+    const existing = await this.getJournalBySource(businessId, 'expense', expense.id);
+    if (existing) {
+      throw new Error('Journal already exists for this expense');
+    }
+
+    const input = await this.buildExpenseJournal(businessId, expense, payable);
+    return this.createJournal(businessId, userId, input);
   },
 
   /**
@@ -925,6 +1141,9 @@ export const journalService = {
     filters?: {
       startDate?: string;
       endDate?: string;
+      propertyId?: string;
+      unitId?: string;
+      excludeClosingEntries?: boolean;
       limit?: number;
     }
   ): Promise<GLLedgerEntry[]> {
@@ -943,6 +1162,18 @@ export const journalService = {
       query = query.lte('posting_date', filters.endDate);
     }
 
+    if (filters?.propertyId) {
+      query = query.eq('property_id', filters.propertyId);
+    }
+
+    if (filters?.unitId) {
+      query = query.eq('unit_id', filters.unitId);
+    }
+
+    if (filters?.excludeClosingEntries) {
+      query = query.eq('is_closing_entry', false);
+    }
+
     if (filters?.limit) {
       query = query.limit(filters.limit);
     }
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { glPostingService } from './glPostingService';
 
 export interface LateFee {
   id: string;
@@ -136,6 +137,12 @@ export const lateFeeService = {
       return [];
     }
 
+    // Accrue the new fees under accrual accounting. Fees assessed by the
+    // scheduled run are picked up by the posting sweep.
+    for (const fee of data || []) {
+      await glPostingService.syncTransaction(businessId, 'late_fee', fee.late_fee_id);
+    }
+
     return data || [];
   },
 
@@ -237,6 +244,9 @@ export const lateFeeService = {
       return null;
     }
 
+    // Reverse the accrued fee under accrual accounting
+    await glPostingService.syncTransaction(data.business_id, 'late_fee', data.id);
+
     return data;
   },
 
@@ -342,6 +352,9 @@ export const lateFeeService = {
       return null;
     }
 
+    // Accrue the fee under accrual accounting
+    await glPostingService.syncTransaction(data.business_id, 'late_fee', data.id);
+
     return data;
   },
 };
@@ -16,7 +16,12 @@ export type NotificationType =
   | 'agreement_signed'
   | 'announcement'
   | 'application_submitted'
-  | 'new_applicant';
+  | 'new_applicant'
+  | 'collections_notice'
+  | 'payment_plan_offer'
+  | 'collections_handoff'
+  | 'payment_plan_proposed'
+  | 'payment_plan_installment';
 
 export interface NotificationTemplate {
   id: string;
@@ -30,6 +35,8 @@ export interface NotificationTemplate {
   updated_at: string;
 }
 
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed' | 'dead_letter';
+
 export interface ScheduledNotification {
   id: string;
   organization_id: string;
@@ -40,8 +47,12 @@ export interface ScheduledNotification {
   body: string;
   scheduled_for: string;
   sent_at: string | null;
-  status: 'pending' | 'sent' | 'failed';
+  status: NotificationDeliveryStatus;
   error_message: string | null;
+  attempt_count: number;
+  max_attempts: number;
+  last_attempt_at: string | null;
+  next_attempt_at: string | null;
   metadata: Record<string, any>;
   created_at: string;
 }
@@ -349,6 +360,94 @@ Thank you,
 AI Rental Tools`,
         is_active: true,
       },
+      {
+        type: 'collections_notice',
+        name: 'Formal Notice of Arrears',
+        subject_template: 'Formal Notice: Past-Due Balance of {{amount}}',
+        body_template: `Dear {{tenant_name}},
+
+Our records show a past-due balance of {{amount}} on your account. The oldest unpaid amount was due on {{due_date}}, {{days_overdue}} days ago.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+Past Due: {{amount}}
+Total Balance: {{balance}}
+
+Please pay the past-due balance in full or contact us within 7 days to make arrangements. If we do not hear from you, we may take further steps to collect the amount owing.
+
+{{organization_name}}`,
+        is_active: true,
+      },
+      {
+        type: 'payment_plan_offer',
+        name: 'Payment Plan Offer',
+        subject_template: "Let's Set Up a Payment Plan",
+        body_template: `Dear {{tenant_name}},
+
+Your account has a past-due balance of {{amount}}. If paying it all at once is difficult, we can set up a payment plan to pay it off in installments alongside your regular rent.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+Past Due: {{amount}}
+
+Please contact us to discuss a plan that works for you.
+
+Thank you,
+{{organization_name}}`,
+        is_active: true,
+      },
+      {
+        type: 'collections_handoff',
+        name: 'Account Referred to Collections',
+        subject_template: 'Your Account Has Been Referred for Collection',
+        body_template: `Dear {{tenant_name}},
+
+Despite our previous notices, your account still has a past-due balance of {{amount}}, the oldest amount due on {{due_date}}.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+Past Due: {{amount}}
+
+Your account has been referred for further collection action. To resolve it, please pay the balance or contact us as soon as possible.
+
+{{organization_name}}`,
+        is_active: true,
+      },
+      {
+        type: 'payment_plan_proposed',
+        name: 'Payment Plan Proposed',
+        subject_template: 'A Payment Plan Is Ready for You',
+        body_template: `Dear {{tenant_name}},
+
+We have set up a payment plan for the past-due balance on your account: {{amount}} in {{installment_count}} installments, the first due on {{due_date}}.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+
+Please review and accept the plan under Payments in your tenant portal. While the plan is in good standing, no late fees are charged.
+
+Thank you,
+{{organization_name}}`,
+        is_active: true,
+      },
+      {
+        type: 'payment_plan_installment',
+        name: 'Payment Plan Installment Reminder',
+        subject_template: 'Payment Plan Installment {{installment_number}} of {{installment_count}} Due {{due_date}}',
+        body_template: `Dear {{tenant_name}},
+
+This is a reminder that installment {{installment_number}} of {{installment_count}} on your payment plan, {{amount}}, is due on {{due_date}}, along with any regular rent due by then.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+
+Missing an installment ends the plan, and late fees and collections resume.
+
+Thank you,
+{{organization_name}}`,
+        is_active: true,
+        send_days_before: 3,
+      },
     ];
 
     // Insert any missing templates
@@ -430,13 +529,15 @@ AI Rental Tools`,
     return result;
   },
 
-  // Get pending notifications
+  // Get pending notifications whose retry window (if any) has opened
   async getPendingNotifications(): Promise<ScheduledNotification[]> {
+    const now = new Date().toISOString();
     const { data, error } = await supabase
       .from('scheduled_notifications')
       .select('*')
       .eq('status', 'pending')
-      .lte('scheduled_for', new Date().toISOString())
+      .lte('scheduled_for', now)
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`)
       .order('scheduled_for');
 
     if (error) {
@@ -447,16 +548,62 @@ AI Rental Tools`,
   },
 
   // Mark notification as sent
-  async markAsSent(notificationId: string): Promise<void> {
+  async markAsSent(notificationId: string, attemptCount?: number): Promise<void> {
+    const now = new Date().toISOString();
     await supabase
       .from('scheduled_notifications')
       .update({
         status: 'sent',
-        sent_at: new Date().toISOString(),
+        sent_at: now,
+        last_attempt_at: now,
+        next_attempt_at: null,
+        error_message: null,
+        ...(attemptCount !== undefined && { attempt_count: attemptCount }),
       })
       .eq('id', notificationId);
   },
 
+  // Get notifications that exhausted their delivery attempts
+  async getDeadLetterNotifications(organizationId: string): Promise<ScheduledNotification[]> {
+    const { data, error } = await supabase
+      .from('scheduled_notifications')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('status', 'dead_letter')
+      .order('last_attempt_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching dead-letter notifications:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  // Put a dead-lettered notification back in the queue with a fresh attempt budget
+  async requeueNotification(notificationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('scheduled_notifications')
+      .update({
+        status: 'pending',
+        attempt_count: 0,
+        next_attempt_at: null,
+        error_message: null,
+      })
+      .eq('id', notificationId);
+
+    if (error) throw error;
+  },
+
+  // Give up on a dead-lettered notification without retrying it
+  async dismissNotification(notificationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('scheduled_notifications')
+      .update({ status: 'failed' })
+      .eq('id', notificationId);
+
+    if (error) throw error;
+  },
+
   // Mark notification as failed
   async markAsFailed(notificationId: string, errorMessage: string): Promise<void> {
     await supabase
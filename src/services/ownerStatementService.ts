@@ -0,0 +1,809 @@
+import { supabase } from '../lib/supabase';
+import {
+  ManagementFeeType,
+  OwnerStatement,
+  OwnerStatementItem,
+  OwnerStatementLine,
+  OwnerStatementStatus,
+  PropertyManagementTerms,
+} from '../types';
+import { glAccountService } from './glAccountService';
+import { journalService, JournalEntryInput } from './journalService';
+import { brandingService } from './brandingService';
+import { pdfGenerationService, type PDFBranding } from './pdfGenerationService';
+import { GL_ACCOUNTS } from '../config/glAccountMappings';
+
+export interface ManagementTermsInput {
+  feeType: ManagementFeeType;
+  feePercentage: number;
+  feeFlatCents: number;
+  reserveTargetCents: number;
+  notes?: string;
+}
+
+export interface OwnerStatementFilters {
+  periodStart?: string;
+  ownerId?: string;
+  status?: OwnerStatementStatus;
+}
+
+export interface OwnerStatementRunResult {
+  created: number;
+  updated: number;
+  // Already published for the month, left as they are
+  skipped: number;
+}
+
+export const MANAGEMENT_FEE_TYPE_LABELS: Record<ManagementFeeType, string> = {
+  percentage: 'Percentage of income',
+  flat: 'Flat monthly fee',
+  none: 'No fee',
+};
+
+export const OWNER_STATEMENT_STATUS_LABELS: Record<OwnerStatementStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  void: 'Void',
+};
+
+// Deposits are held for the tenant and are not owner income
+const OWNER_INCOME_PAYMENT_TYPES = ['rent', 'late_fee', 'utility', 'maintenance', 'other'];
+
+const OWNER_STATEMENT_SELECT = `
+  *,
+  owner:property_owners(id, first_name, last_name, company_name, email, address_line1, address_line2, city, state, postal_code)
+`;
+
+interface PropertyActivity {
+  income: OwnerStatementItem[];
+  expenses: OwnerStatementItem[];
+}
+
+interface StatementProperty {
+  id: string;
+  name: string;
+  currency: string;
+}
+
+const sumItems = (items: OwnerStatementItem[]) => items.reduce((sum, item) => sum + item.amount_cents, 0);
+
+/**
+ * First and last day of a month given as YYYY-MM
+ */
+function monthRange(month: string): { start: string; end: string } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year!, monthNumber!, 0)).getUTCDate();
+  return {
+    start: `${month}-01`,
+    end: `${month}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+/**
+ * Management fee for a whole property for the month
+ */
+function managementFee(terms: PropertyManagementTerms | undefined, grossIncomeCents: number): number {
+  if (!terms) return 0;
+  if (terms.fee_type === 'flat') return terms.fee_flat_cents;
+  if (terms.fee_type === 'percentage') {
+    return Math.round(Math.max(grossIncomeCents, 0) * Number(terms.fee_percentage) / 100);
+  }
+  return 0;
+}
+
+/**
+ * Collected income and paid expenses per property for the month. Bill
+ * payments are split over the bill's properties in proportion to its lines.
+ * Expenses recorded as management fees are left out for properties whose
+ * terms charge a fee, since the statement charges it.
+ */
+async function propertyActivity(
+  businessId: string,
+  propertyIds: string[],
+  start: string,
+  end: string,
+  feeCharged: Set<string>
+): Promise<Map<string, PropertyActivity>> {
+  const activity = new Map<string, PropertyActivity>(
+    propertyIds.map((id) => [id, { income: [], expenses: [] }])
+  );
+  if (propertyIds.length === 0) return activity;
+
+  const { data: units, error: unitsError } = await supabase
+    .from('units')
+    .select('id, unit_number, property_id')
+    .in('property_id', propertyIds);
+
+  if (unitsError) throw unitsError;
+  const unitsById = new Map((units || []).map((unit) => [unit.id, unit]));
+
+  if (unitsById.size > 0) {
+    const { data: payments, error } = await supabase
+      .from('rent_payments')
+      .select('id, unit_id, amount_cents, payment_date, payment_type, description')
+      .in('unit_id', [...unitsById.keys()])
+      .eq('status', 'paid')
+      .in('payment_type', OWNER_INCOME_PAYMENT_TYPES)
+      .gte('payment_date', start)
+      .lte('payment_date', end)
+      .order('payment_date');
+
+    if (error) throw error;
+
+    for (const payment of payments || []) {
+      const unit = unitsById.get(payment.unit_id)!;
+      activity.get(unit.property_id)!.income.push({
+        date: payment.payment_date,
+        description: payment.description || `${payment.payment_type === 'rent' ? 'Rent' : 'Payment'} - Unit ${unit.unit_number}`,
+        amount_cents: payment.amount_cents,
+      });
+    }
+  }
+
+  const { data: expenses, error: expensesError } = await supabase
+    .from('expenses')
+    .select('id, property_id, amount_cents, expense_date, category, vendor_name, description')
+    .in('property_id', propertyIds)
+    .in('status', ['paid', 'reimbursed'])
+    .gte('expense_date', start)
+    .lte('expense_date', end)
+    .order('expense_date');
+
+  if (expensesError) throw expensesError;
+
+  for (const expense of expenses || []) {
+    if (expense.category === 'management_fee' && feeCharged.has(expense.property_id)) continue;
+    activity.get(expense.property_id)!.expenses.push({
+      date: expense.expense_date,
+      description: expense.vendor_name ? `${expense.description} - ${expense.vendor_name}` : expense.description,
+      amount_cents: expense.amount_cents,
+    });
+  }
+
+  const { data: billPayments, error: billPaymentsError } = await supabase
+    .from('vendor_bill_payments')
+    .select(`
+      id, amount_cents, payment_date,
+      vendor:vendors(vendor_name),
+      bill:vendor_bills(bill_number, lines:vendor_bill_lines(property_id, amount_cents, tax_amount_cents))
+    `)
+    .eq('business_id', businessId)
+    .eq('is_void', false)
+    .gte('payment_date', start)
+    .lte('payment_date', end)
+    .order('payment_date');
+
+  if (billPaymentsError) throw billPaymentsError;
+
+  for (const payment of (billPayments || []) as any[]) {
+    const lines: Array<{ property_id?: string; amount_cents: number; tax_amount_cents: number }> = payment.bill?.lines || [];
+    const billTotal = lines.reduce((sum, line) => sum + line.amount_cents + line.tax_amount_cents, 0);
+    if (billTotal <= 0) continue;
+
+    const byProperty = new Map<string, number>();
+    for (const line of lines) {
+      if (!line.property_id || !activity.has(line.property_id)) continue;
+      byProperty.set(line.property_id, (byProperty.get(line.property_id) || 0) + line.amount_cents + line.tax_amount_cents);
+    }
+
+    for (const [propertyId, lineTotal] of byProperty) {
+      activity.get(propertyId)!.expenses.push({
+        date: payment.payment_date,
+        description: [payment.vendor?.vendor_name, payment.bill?.bill_number ? `Bill ${payment.bill.bill_number}` : 'Bill payment']
+          .filter(Boolean)
+          .join(' - '),
+        amount_cents: Math.round(payment.amount_cents * lineTotal / billTotal),
+      });
+    }
+  }
+
+  for (const entry of activity.values()) {
+    entry.expenses.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return activity;
+}
+
+/**
+ * Owner's share of one property for the month. The reserve is topped up to
+ * the owner's share of the target from what is left after expenses and fees;
+ * a shortfall is covered from the reserve first and otherwise carried to the
+ * next statement.
+ */
+function statementLine(
+  property: StatementProperty,
+  ownershipPercentage: number,
+  activity: PropertyActivity,
+  terms: PropertyManagementTerms | undefined,
+  previous: { reserve_balance_cents: number; closing_balance_cents: number } | undefined
+) {
+  const share = ownershipPercentage / 100;
+  const grossIncome = sumItems(activity.income);
+  const grossExpense = sumItems(activity.expenses);
+  const grossFee = managementFee(terms, grossIncome);
+
+  const income = Math.round(grossIncome * share);
+  const expense = Math.round(grossExpense * share);
+  const fee = Math.round(grossFee * share);
+  const opening = previous?.closing_balance_cents || 0;
+  const previousReserve = previous?.reserve_balance_cents || 0;
+  const reserveTarget = Math.round((terms?.reserve_target_cents || 0) * share);
+
+  const funds = previousReserve + income - expense - fee + opening;
+  const reserveBalance = funds < 0 ? 0 : Math.min(funds, reserveTarget);
+
+  return {
+    property_id: property.id,
+    property_name: property.name,
+    ownership_percentage: ownershipPercentage,
+    gross_income_cents: grossIncome,
+    gross_expense_cents: grossExpense,
+    gross_management_fee_cents: grossFee,
+    income_cents: income,
+    expense_cents: expense,
+    management_fee_cents: fee,
+    opening_balance_cents: opening,
+    reserve_change_cents: reserveBalance - previousReserve,
+    reserve_balance_cents: reserveBalance,
+    closing_balance_cents: funds < 0 ? funds : 0,
+    distribution_cents: funds < 0 ? 0 : funds - reserveBalance,
+    details: { income: activity.income, expenses: activity.expenses },
+  };
+}
+
+/**
+ * Statement totals from its lines
+ */
+function statementTotals(lines: ReturnType<typeof statementLine>[]) {
+  const total = (key: keyof ReturnType<typeof statementLine>) =>
+    lines.reduce((sum, line) => sum + (line[key] as number), 0);
+
+  return {
+    income_cents: total('income_cents'),
+    expense_cents: total('expense_cents'),
+    management_fee_cents: total('management_fee_cents'),
+    reserve_change_cents: total('reserve_change_cents'),
+    reserve_balance_cents: total('reserve_balance_cents'),
+    opening_balance_cents: total('opening_balance_cents'),
+    closing_balance_cents: total('closing_balance_cents'),
+    distribution_cents: total('distribution_cents'),
+  };
+}
+
+/**
+ * Logo as a data URL for jsPDF, which only embeds PNG and JPEG images
+ */
+async function loadLogo(url: string | null | undefined): Promise<PDFBranding['logo']> {
+  if (!url) return undefined;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return undefined;
+    const blob = await response.blob();
+    const format = blob.type === 'image/png' ? 'PNG' : blob.type === 'image/jpeg' ? 'JPEG' : null;
+    if (!format) return undefined;
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { dataUrl, format };
+  } catch {
+    // A logo that cannot be loaded leaves the statement unbranded, not unprintable
+    return undefined;
+  }
+}
+
+function hexToRgb(hex: string | null | undefined): [number, number, number] {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex || '');
+  if (!match) return [37, 99, 235];
+  const value = parseInt(match[1]!, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+export const ownerStatementService = {
+  // ========================================
+  // Management Terms
+  // ========================================
+
+  /**
+   * Management terms for the business's properties, by property
+   */
+  async getManagementTerms(businessId: string): Promise<PropertyManagementTerms[]> {
+    const { data, error } = await supabase
+      .from('property_management_terms')
+      .select('*')
+      .eq('business_id', businessId);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Set the management fee and reserve for a property
+   */
+  async saveManagementTerms(
+    businessId: string,
+    propertyId: string,
+    input: ManagementTermsInput,
+    userId: string
+  ): Promise<PropertyManagementTerms> {
+    if (input.feeType === 'percentage' && (input.feePercentage < 0 || input.feePercentage > 100)) {
+      throw new Error('Fee percentage must be between 0 and 100');
+    }
+    if (input.feeFlatCents < 0 || input.reserveTargetCents < 0) {
+      throw new Error('Fee and reserve amounts cannot be negative');
+    }
+
+    const { data, error } = await supabase
+      .from('property_management_terms')
+      .upsert({
+        business_id: businessId,
+        property_id: propertyId,
+        fee_type: input.feeType,
+        fee_percentage: input.feeType === 'percentage' ? input.feePercentage : 0,
+        fee_flat_cents: input.feeType === 'flat' ? input.feeFlatCents : 0,
+        reserve_target_cents: input.reserveTargetCents,
+        notes: input.notes || null,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'property_id',
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // ========================================
+  // Statements
+  // ========================================
+
+  /**
+   * Statements for the business, newest month first
+   */
+  async getStatements(businessId: string, filters?: OwnerStatementFilters): Promise<OwnerStatement[]> {
+    let query = supabase
+      .from('owner_statements')
+      .select(OWNER_STATEMENT_SELECT)
+      .eq('business_id', businessId)
+      .order('period_start', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (filters?.periodStart) {
+      query = query.eq('period_start', filters.periodStart);
+    }
+    if (filters?.ownerId) {
+      query = query.eq('owner_id', filters.ownerId);
+    }
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * A statement with its property lines
+   */
+  async getStatement(statementId: string): Promise<OwnerStatement | null> {
+    const { data, error } = await supabase
+      .from('owner_statements')
+      .select(`${OWNER_STATEMENT_SELECT}, lines:owner_statement_lines(*)`)
+      .eq('id', statementId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      ...data,
+      lines: ((data.lines || []) as OwnerStatementLine[]).sort((a, b) => a.property_name.localeCompare(b.property_name)),
+    };
+  },
+
+  /**
+   * Published statements of the signed-in property owner, for the owner portal
+   */
+  async getMyStatements(businessId: string): Promise<OwnerStatement[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: owner, error: ownerError } = await supabase
+      .from('property_owners')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (ownerError) throw ownerError;
+    if (!owner) return [];
+
+    return this.getStatements(businessId, { ownerId: owner.id, status: 'published' });
+  },
+
+  /**
+   * Calculate draft statements for every owner for a month (YYYY-MM). An
+   * owner with properties in more than one currency gets a statement per
+   * currency. Drafts already there are recalculated; published statements
+   * are left alone.
+   */
+  async generateStatements(businessId: string, month: string, userId: string): Promise<OwnerStatementRunResult> {
+    const { start, end } = monthRange(month);
+    const result: OwnerStatementRunResult = { created: 0, updated: 0, skipped: 0 };
+
+    const settings = await glAccountService.getAccountingSettings(businessId);
+    const baseCurrency = settings?.base_currency || 'CAD';
+
+    const { data: propertyRows, error: propertiesError } = await supabase
+      .from('properties')
+      .select('id, name, currency_code')
+      .eq('business_id', businessId);
+
+    if (propertiesError) throw propertiesError;
+    const properties = new Map<string, StatementProperty>(
+      (propertyRows || []).map((p) => [p.id, { id: p.id, name: p.name, currency: p.currency_code || baseCurrency }])
+    );
+    if (properties.size === 0) return result;
+
+    // Ownerships in force at any time during the month
+    const { data: ownerships, error: ownershipsError } = await supabase
+      .from('property_ownerships')
+      .select('owner_id, property_id, ownership_percentage')
+      .in('property_id', [...properties.keys()])
+      .or(`start_date.is.null,start_date.lte.${end}`)
+      .or(`end_date.is.null,end_date.gte.${start}`)
+      .or(`is_active.eq.true,end_date.gte.${start}`);
+
+    if (ownershipsError) throw ownershipsError;
+    if (!ownerships || ownerships.length === 0) return result;
+
+    const terms = new Map((await this.getManagementTerms(businessId)).map((t) => [t.property_id, t]));
+    const feeCharged = new Set([...terms.values()].filter((t) => t.fee_type !== 'none').map((t) => t.property_id));
+    const ownedPropertyIds = [...new Set(ownerships.map((o) => o.property_id))];
+    const activity = await propertyActivity(businessId, ownedPropertyIds, start, end, feeCharged);
+
+    const ownerIds = [...new Set(ownerships.map((o) => o.owner_id))];
+
+    // Each owner's latest earlier statement carries the reserve and any
+    // shortfall forward
+    const { data: earlier, error: earlierError } = await supabase
+      .from('owner_statements')
+      .select('id, owner_id, currency_code, period_start')
+      .eq('business_id', businessId)
+      .in('owner_id', ownerIds)
+      .neq('status', 'void')
+      .lt('period_start', start)
+      .order('period_start', { ascending: false });
+
+    if (earlierError) throw earlierError;
+
+    const previousStatementIds = new Map<string, string>();
+    for (const statement of earlier || []) {
+      const key = `${statement.owner_id}|${statement.currency_code}`;
+      if (!previousStatementIds.has(key)) previousStatementIds.set(key, statement.id);
+    }
+
+    const previousLines = new Map<string, { reserve_balance_cents: number; closing_balance_cents: number }>();
+    if (previousStatementIds.size > 0) {
+      const { data: lines, error } = await supabase
+        .from('owner_statement_lines')
+        .select('statement_id, property_id, reserve_balance_cents, closing_balance_cents')
+        .in('statement_id', [...previousStatementIds.values()]);
+
+      if (error) throw error;
+      const ownerByStatement = new Map(
+        [...previousStatementIds.entries()].map(([key, id]) => [id, key.split('|')[0]])
+      );
+      for (const line of lines || []) {
+        previousLines.set(`${ownerByStatement.get(line.statement_id)}|${line.property_id}`, line);
+      }
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('owner_statements')
+      .select('id, owner_id, currency_code, status')
+      .eq('business_id', businessId)
+      .eq('period_start', start)
+      .neq('status', 'void');
+
+    if (existingError) throw existingError;
+    const existingByKey = new Map((existing || []).map((s) => [`${s.owner_id}|${s.currency_code}`, s]));
+
+    // Group each owner's properties by currency
+    const groups = new Map<string, { ownerId: string; currency: string; lines: ReturnType<typeof statementLine>[] }>();
+    for (const ownership of ownerships) {
+      const property = properties.get(ownership.property_id)!;
+      const key = `${ownership.owner_id}|${property.currency}`;
+      if (!groups.has(key)) {
+        groups.set(key, { ownerId: ownership.owner_id, currency: property.currency, lines: [] });
+      }
+      groups.get(key)!.lines.push(statementLine(
+        property,
+        Number(ownership.ownership_percentage),
+        activity.get(property.id)!,
+        terms.get(property.id),
+        previousLines.get(`${ownership.owner_id}|${property.id}`)
+      ));
+    }
+
+    for (const [key, group] of groups) {
+      const current = existingByKey.get(key);
+      if (current && current.status !== 'draft') {
+        result.skipped++;
+        continue;
+      }
+
+      const totals = statementTotals(group.lines);
+      let statementId: string;
+
+      if (current) {
+        const { error: deleteError } = await supabase
+          .from('owner_statement_lines')
+          .delete()
+          .eq('statement_id', current.id);
+
+        if (deleteError) throw deleteError;
+
+        const { error } = await supabase
+          .from('owner_statements')
+          .update({ ...totals, period_end: end, updated_at: new Date().toISOString() })
+          .eq('id', current.id);
+
+        if (error) throw error;
+        statementId = current.id;
+        result.updated++;
+      } else {
+        const { data, error } = await supabase
+          .from('owner_statements')
+          .insert({
+            business_id: businessId,
+            owner_id: group.ownerId,
+            period_start: start,
+            period_end: end,
+            currency_code: group.currency,
+            status: 'draft',
+            ...totals,
+            created_by: userId,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        statementId = data.id;
+        result.created++;
+      }
+
+      const { error: linesError } = await supabase
+        .from('owner_statement_lines')
+        .insert(group.lines.map((line) => ({ ...line, statement_id: statementId, business_id: businessId })));
+
+      if (linesError) throw linesError;
+    }
+
+    return result;
+  },
+
+  /**
+   * Delete a draft statement
+   */
+  async deleteDraft(statementId: string): Promise<void> {
+    const { error } = await supabase
+      .from('owner_statements')
+      .delete()
+      .eq('id', statementId)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+  },
+
+  /**
+   * Post the distribution journal and show the statement in the owner
+   * portal. Statements are published in month order, so the balances carried
+   * into this one are final.
+   */
+  async publishStatement(statementId: string, userId: string): Promise<OwnerStatement> {
+    const statement = await this.getStatement(statementId);
+    if (!statement) {
+      throw new Error('Statement not found');
+    }
+    if (statement.status !== 'draft') {
+      throw new Error('Only draft statements can be published');
+    }
+
+    const { count, error: earlierError } = await supabase
+      .from('owner_statements')
+      .select('id', { count: 'exact', head: true })
+      .eq('business_id', statement.business_id)
+      .eq('owner_id', statement.owner_id)
+      .eq('currency_code', statement.currency_code)
+      .eq('status', 'draft')
+      .lt('period_start', statement.period_start);
+
+    if (earlierError) throw earlierError;
+    if (count) {
+      throw new Error('Publish this owner\'s earlier draft statements first');
+    }
+
+    const journalId = await this.postDistributionJournal(statement, userId);
+
+    const { data, error } = await supabase
+      .from('owner_statements')
+      .update({
+        status: 'published',
+        journal_id: journalId || null,
+        published_at: new Date().toISOString(),
+        published_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', statementId)
+      .select(OWNER_STATEMENT_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Distribution journal for a statement: management fees and the owner's
+   * distribution paid from the operating bank account, by property
+   */
+  async postDistributionJournal(statement: OwnerStatement, userId: string): Promise<string | undefined> {
+    const lines = (statement.lines || []).filter((line) => line.management_fee_cents > 0 || line.distribution_cents > 0);
+    if (lines.length === 0) return undefined;
+
+    const [bank, draws, fees] = await Promise.all([
+      glAccountService.getAccountByNumber(statement.business_id, GL_ACCOUNTS.OPERATING_BANK),
+      glAccountService.getAccountByNumber(statement.business_id, GL_ACCOUNTS.OWNER_DRAWS),
+      glAccountService.getAccountByNumber(statement.business_id, GL_ACCOUNTS.MANAGEMENT_FEES),
+    ]);
+
+    if (!bank || !draws || !fees) {
+      const missing = [
+        !bank && GL_ACCOUNTS.OPERATING_BANK,
+        !draws && GL_ACCOUNTS.OWNER_DRAWS,
+        !fees && GL_ACCOUNTS.MANAGEMENT_FEES,
+      ].filter(Boolean).join(', ');
+      throw new Error(`GL accounts not found. Ensure chart of accounts is initialized. Missing: ${missing}`);
+    }
+
+    const ownerName = statement.owner
+      ? statement.owner.company_name || `${statement.owner.first_name} ${statement.owner.last_name}`
+      : 'owner';
+    const entries: JournalEntryInput[] = [];
+
+    for (const line of lines) {
+      const propertyId = line.property_id || undefined;
+      if (line.management_fee_cents > 0) {
+        entries.push({
+          accountId: fees.id,
+          debitCents: line.management_fee_cents,
+          propertyId,
+          description: `Management fee - ${line.property_name}`,
+        });
+      }
+      if (line.distribution_cents > 0) {
+        entries.push({
+          accountId: draws.id,
+          debitCents: line.distribution_cents,
+          propertyId,
+          description: `Distribution to ${ownerName} - ${line.property_name}`,
+        });
+      }
+      entries.push({
+        accountId: bank.id,
+        creditCents: line.management_fee_cents + line.distribution_cents,
+        propertyId,
+        description: `Owner statement ${statement.period_start.slice(0, 7)} - ${line.property_name}`,
+      });
+    }
+
+    const journal = await journalService.createJournal(statement.business_id, userId, {
+      journalDate: statement.period_end,
+      journalType: 'cash_payments',
+      sourceType: 'owner_distribution',
+      sourceId: statement.id,
+      transactionCurrency: statement.currency_code,
+      memo: `Owner distribution ${statement.period_start.slice(0, 7)} - ${ownerName}`,
+      entries,
+      autoPost: true,
+    });
+
+    return journal.id;
+  },
+
+  /**
+   * Void a published statement and its distribution journal. The month can
+   * then be calculated again. Later statements carried this one's balances,
+   * so only the owner's latest statement can be voided.
+   */
+  async voidStatement(statementId: string, userId: string, reason: string): Promise<void> {
+    if (!reason.trim()) {
+      throw new Error('A reason is required to void a statement');
+    }
+
+    const statement = await this.getStatement(statementId);
+    if (!statement) {
+      throw new Error('Statement not found');
+    }
+    if (statement.status !== 'published') {
+      throw new Error('Only published statements can be voided');
+    }
+
+    const { count, error: laterError } = await supabase
+      .from('owner_statements')
+      .select('id', { count: 'exact', head: true })
+      .eq('business_id', statement.business_id)
+      .eq('owner_id', statement.owner_id)
+      .eq('currency_code', statement.currency_code)
+      .neq('status', 'void')
+      .gt('period_start', statement.period_start);
+
+    if (laterError) throw laterError;
+    if (count) {
+      throw new Error('Void or delete this owner\'s later statements first');
+    }
+
+    if (statement.journal_id) {
+      await journalService.voidJournal(statement.journal_id, userId, `Owner statement voided: ${reason}`);
+    }
+
+    const { error } = await supabase
+      .from('owner_statements')
+      .update({
+        status: 'void',
+        voided_at: new Date().toISOString(),
+        voided_by: userId,
+        void_reason: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', statementId);
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // PDF
+  // ========================================
+
+  /**
+   * Statement PDF with the business's name, address, logo and brand colour
+   */
+  async generateStatementPDF(statementId: string): Promise<Blob> {
+    const statement = await this.getStatement(statementId);
+    if (!statement) {
+      throw new Error('Statement not found');
+    }
+
+    const { data: business, error } = await supabase
+      .from('businesses')
+      .select('business_name, legal_name, organization_id, address_line1, address_line2, city, state, postal_code, phone, email, public_page_logo_url')
+      .eq('id', statement.business_id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const branding = business?.organization_id
+      ? await brandingService.getEffectiveBranding(business.organization_id)
+      : await brandingService.getSystemBranding();
+
+    const pdfBranding: PDFBranding = {
+      name: business?.legal_name || business?.business_name || branding.application_name,
+      details: [
+        business?.address_line1,
+        business?.address_line2,
+        [business?.city, business?.state, business?.postal_code].filter(Boolean).join(' '),
+        [business?.phone, business?.email].filter(Boolean).join('  |  '),
+      ].filter((detail): detail is string => !!detail),
+      primaryColor: hexToRgb(branding.primary_color),
+      logo: await loadLogo(business?.public_page_logo_url),
+    };
+
+    return pdfGenerationService.generateOwnerStatement(statement, pdfBranding);
+  },
+};
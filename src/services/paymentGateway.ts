@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { stripePaymentService } from './stripePaymentService';
+import { paymentReconciliationService } from './paymentReconciliationService';
 
 export interface PaymentRequest {
   amount: number;
@@ -78,24 +80,37 @@ export const paymentGatewayService = {
   },
 
   async processStripePayment(organizationId: string, gateway: PaymentGatewayConfig, request: PaymentRequest): Promise<PaymentResponse> {
-    // Stripe integration placeholder
-    // In production, this would call the Stripe API via an Edge Function
-    const response = {
-      success: true,
-      transactionId: `stripe_${Date.now()}`,
-    };
+    // Card details are collected by Stripe.js; the caller passes the resulting
+    // payment method (or, after 3D Secure, the PaymentIntent) in metadata
+    const metadata = request.metadata || {};
 
-    await supabase.from('payment_transactions').insert({
-      organization_id: organizationId,
-      gateway_name: 'stripe',
-      transaction_type: 'charge',
-      amount: request.amount,
+    if (!metadata.payment_method_id && !metadata.payment_intent_id) {
+      return {
+        success: false,
+        error: 'A Stripe payment method is required',
+      };
+    }
+
+    const result = await stripePaymentService.processPayment(organizationId, {
+      amount_cents: request.amount,
       currency: request.currency,
-      status: 'completed',
-      gateway_response: request.metadata,
+      payment_method_id: metadata.payment_method_id,
+      payment_intent_id: metadata.payment_intent_id,
+      tenant_id: metadata.tenant_id || request.customerId,
+      lease_id: metadata.lease_id,
+      payment_schedule_id: metadata.payment_schedule_id,
+      payment_type: metadata.payment_type || 'rent',
+      description: metadata.description,
+      idempotency_key: metadata.idempotency_key || stripePaymentService.generateIdempotencyKey(),
     });
 
-    return response;
+    return {
+      success: result.success,
+      transactionId: result.payment_intent_id,
+      error: result.error,
+      requiresAction: result.requires_action,
+      clientSecret: result.client_secret,
+    };
   },
 
   async processPayPalPayment(organizationId: string, gateway: PaymentGatewayConfig, request: PaymentRequest): Promise<PaymentResponse> {
@@ -165,20 +180,15 @@ export const paymentGatewayService = {
     return data;
   },
 
+  /**
+   * Flag charges the gateway never confirmed and return the gateway's open
+   * reconciliation exceptions. Confirmed payments are matched as they arrive
+   * by the payment-webhook function.
+   */
   async reconcilePayments(organizationId: string, gatewayName: string) {
-    // Fetch all pending transactions for this gateway
-    const { data: transactions, error: transError } = await supabase
-      .from('payment_transactions')
-      .select('*')
-      .eq('organization_id', organizationId)
-      .eq('gateway_name', gatewayName)
-      .eq('status', 'pending')
-      .order('created_at', { ascending: true });
-
-    if (transError) throw transError;
+    await paymentReconciliationService.flagUnconfirmedPayments(organizationId, gatewayName);
 
-    // In production, this would call the gateway's API to check status
-    // For now, we'll just return the pending transactions
-    return transactions || [];
+    const exceptions = await paymentReconciliationService.getExceptions(organizationId);
+    return exceptions.filter(e => e.gateway_name === gatewayName);
   },
 };
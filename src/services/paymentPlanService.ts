@@ -0,0 +1,354 @@
+import { supabase } from '../lib/supabase';
+import {
+  PaymentPlan,
+  PaymentPlanFrequency,
+  PaymentPlanInstallmentStatus,
+  PaymentPlanStatus,
+} from '../types';
+import { notificationService } from './notificationService';
+
+export interface PaymentPlanInput {
+  businessId: string;
+  tenantId: string;
+  // Defaults to the active lease on the tenant's unit
+  leaseId?: string;
+  collectionCaseId?: string;
+  totalCents: number;
+  installmentCount: number;
+  frequency: PaymentPlanFrequency;
+  firstDueDate: string;
+  graceDays?: number;
+  terms?: string;
+  // The offer lapses if not accepted by this date
+  expiresOn?: string;
+}
+
+export interface PaymentPlanFilters {
+  status?: PaymentPlanStatus | PaymentPlanStatus[];
+  tenantId?: string;
+}
+
+export const PAYMENT_PLAN_STATUS_LABELS: Record<PaymentPlanStatus, string> = {
+  proposed: 'Proposed',
+  active: 'Active',
+  completed: 'Completed',
+  defaulted: 'Defaulted',
+  cancelled: 'Cancelled',
+};
+
+export const PAYMENT_PLAN_FREQUENCY_LABELS: Record<PaymentPlanFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 Weeks',
+  monthly: 'Monthly',
+};
+
+export const INSTALLMENT_STATUS_LABELS: Record<PaymentPlanInstallmentStatus, string> = {
+  pending: 'Pending',
+  met: 'Met',
+  missed: 'Missed',
+};
+
+const PLAN_SELECT = `
+  *,
+  tenant:tenants(id, first_name, last_name, email, unit_id, unit:units(id, unit_number, property:properties(id, name))),
+  installments:payment_plan_installments(*)
+`;
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(cents / 100);
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0]!;
+};
+
+// Same day of the month, or the last day of shorter months
+const addMonths = (date: string, months: number) => {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0]!;
+};
+
+/**
+ * Split the total into equal installments, with any odd cents on the last
+ */
+function buildInstallments(
+  totalCents: number,
+  count: number,
+  frequency: PaymentPlanFrequency,
+  firstDueDate: string
+): Array<{ installment_number: number; due_date: string; amount_cents: number }> {
+  const base = Math.floor(totalCents / count);
+
+  return Array.from({ length: count }, (_, i) => ({
+    installment_number: i + 1,
+    due_date: frequency === 'monthly'
+      ? addMonths(firstDueDate, i)
+      : addDays(firstDueDate, i * (frequency === 'weekly' ? 7 : 14)),
+    amount_cents: i === count - 1 ? totalCents - base * (count - 1) : base,
+  }));
+}
+
+const sortInstallments = (plan: PaymentPlan): PaymentPlan => ({
+  ...plan,
+  installments: [...(plan.installments || [])].sort((a, b) => a.installment_number - b.installment_number),
+});
+
+export const paymentPlanService = {
+  // ========================================
+  // Plans
+  // ========================================
+
+  /**
+   * Installment schedule a plan would have, for previewing before proposing
+   */
+  previewInstallments(
+    totalCents: number,
+    installmentCount: number,
+    frequency: PaymentPlanFrequency,
+    firstDueDate: string
+  ) {
+    if (totalCents <= 0 || installmentCount <= 0 || !firstDueDate) return [];
+    return buildInstallments(totalCents, installmentCount, frequency, firstDueDate);
+  },
+
+  /**
+   * Get a business's payment plans, newest first
+   */
+  async getPlans(businessId: string, filters: PaymentPlanFilters = {}): Promise<PaymentPlan[]> {
+    let query = supabase
+      .from('payment_plans')
+      .select(PLAN_SELECT)
+      .eq('business_id', businessId);
+
+    if (Array.isArray(filters.status)) {
+      query = query.in('status', filters.status);
+    } else if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.tenantId) {
+      query = query.eq('tenant_id', filters.tenantId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(sortInstallments);
+  },
+
+  /**
+   * Get a tenant's own payment plans, for the tenant portal
+   */
+  async getTenantPlans(tenantId: string): Promise<PaymentPlan[]> {
+    const { data, error } = await supabase
+      .from('payment_plans')
+      .select(PLAN_SELECT)
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(sortInstallments);
+  },
+
+  /**
+   * Propose a plan to a tenant and let them know it is waiting for them in
+   * the portal. The plan starts once the tenant accepts it.
+   */
+  async proposePlan(input: PaymentPlanInput, userId: string): Promise<PaymentPlan> {
+    if (input.totalCents <= 0) {
+      throw new Error('Plan amount must be greater than zero');
+    }
+    if (!Number.isInteger(input.installmentCount) || input.installmentCount < 1) {
+      throw new Error('A plan needs at least one installment');
+    }
+    if (input.totalCents < input.installmentCount) {
+      throw new Error('Each installment must be at least one cent');
+    }
+    if (input.expiresOn && input.expiresOn > input.firstDueDate) {
+      throw new Error('The offer must expire on or before the first installment is due');
+    }
+
+    const { data: tenant, error: tenantError } = await supabase
+      .from('tenants')
+      .select('id, first_name, last_name, email, unit_id, unit:units(unit_number, property:properties(name))')
+      .eq('id', input.tenantId)
+      .single();
+
+    if (tenantError) throw tenantError;
+
+    let leaseId = input.leaseId;
+    if (!leaseId) {
+      const { data: lease, error: leaseError } = await supabase
+        .from('leases')
+        .select('id')
+        .eq('unit_id', tenant.unit_id)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (leaseError) throw leaseError;
+      if (!lease) throw new Error('The tenant has no active lease to attach a plan to');
+      leaseId = lease.id;
+    }
+
+    const { data: plan, error } = await supabase
+      .from('payment_plans')
+      .insert({
+        business_id: input.businessId,
+        tenant_id: input.tenantId,
+        lease_id: leaseId,
+        collection_case_id: input.collectionCaseId || null,
+        total_cents: input.totalCents,
+        installment_count: input.installmentCount,
+        frequency: input.frequency,
+        first_due_date: input.firstDueDate,
+        grace_days: input.graceDays ?? 3,
+        terms: input.terms || null,
+        expires_on: input.expiresOn || null,
+        proposed_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This tenant already has an open payment plan');
+      }
+      throw error;
+    }
+
+    const installments = buildInstallments(
+      input.totalCents,
+      input.installmentCount,
+      input.frequency,
+      input.firstDueDate
+    ).map(i => ({ ...i, plan_id: plan.id, business_id: input.businessId }));
+
+    const { error: installmentError } = await supabase
+      .from('payment_plan_installments')
+      .insert(installments);
+
+    if (installmentError) {
+      await supabase.from('payment_plans').delete().eq('id', plan.id);
+      throw installmentError;
+    }
+
+    if (tenant.email) {
+      const { data: business } = await supabase
+        .from('businesses')
+        .select('business_name')
+        .eq('id', input.businessId)
+        .maybeSingle();
+
+      const tenantName = `${tenant.first_name} ${tenant.last_name}`;
+      const unit = tenant.unit as { unit_number?: string; property?: { name?: string } } | null;
+
+      await notificationService.scheduleNotification(
+        input.businessId,
+        'payment_plan_proposed',
+        tenant.email,
+        tenantName,
+        {
+          tenant_name: tenantName,
+          amount: formatCents(input.totalCents),
+          installment_count: input.installmentCount,
+          due_date: new Date(`${input.firstDueDate}T00:00:00`).toLocaleDateString(),
+          property_name: unit?.property?.name || 'Your Property',
+          unit_number: unit?.unit_number || '',
+          organization_name: business?.business_name || 'Your Property Management',
+          payment_plan_id: plan.id,
+        }
+      );
+    }
+
+    return this.getPlan(plan.id);
+  },
+
+  /**
+   * Get a single plan with its installments
+   */
+  async getPlan(planId: string): Promise<PaymentPlan> {
+    const { data, error } = await supabase
+      .from('payment_plans')
+      .select(PLAN_SELECT)
+      .eq('id', planId)
+      .single();
+
+    if (error) throw error;
+    return sortInstallments(data);
+  },
+
+  /**
+   * Accept a proposed plan. Late fees stop on the lease and the tenant's
+   * open collection case is resolved.
+   */
+  async acceptPlan(planId: string): Promise<PaymentPlan> {
+    const { error } = await supabase.rpc('respond_to_payment_plan', {
+      p_plan_id: planId,
+      p_accept: true,
+    });
+
+    if (error) throw error;
+    return this.getPlan(planId);
+  },
+
+  /**
+   * Decline a proposed plan
+   */
+  async declinePlan(planId: string): Promise<PaymentPlan> {
+    const { error } = await supabase.rpc('respond_to_payment_plan', {
+      p_plan_id: planId,
+      p_accept: false,
+    });
+
+    if (error) throw error;
+    return this.getPlan(planId);
+  },
+
+  /**
+   * Withdraw a proposal or end an active plan early. Late fees and
+   * collections resume from the next run.
+   */
+  async cancelPlan(planId: string, userId: string, reason: string): Promise<PaymentPlan> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('payment_plans')
+      .update({
+        status: 'cancelled',
+        cancelled_by: userId,
+        cancelled_at: now,
+        cancel_reason: reason || null,
+        updated_at: now,
+      })
+      .eq('id', planId)
+      .in('status', ['proposed', 'active'])
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error('Only proposed or active plans can be cancelled');
+    }
+
+    return this.getPlan(planId);
+  },
+
+  // ========================================
+  // Evaluation
+  // ========================================
+
+  /**
+   * Check installments against payments now rather than waiting for the
+   * daily late fee run. Returns the number of plans that completed,
+   * defaulted or lapsed.
+   */
+  async evaluatePlans(businessId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('evaluate_payment_plans', {
+      p_business_id: businessId,
+    });
+
+    if (error) throw error;
+    return data || 0;
+  },
+};
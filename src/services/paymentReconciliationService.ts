@@ -0,0 +1,131 @@
+import { supabase } from '../lib/supabase';
+
+export type ReconciliationExceptionType =
+  | 'unknown_reference'
+  | 'amount_mismatch'
+  | 'currency_mismatch'
+  | 'unconfirmed'
+  | 'processing_error';
+
+export type ReconciliationExceptionStatus = 'open' | 'resolved' | 'ignored';
+
+export interface ReconciliationException {
+  id: string;
+  organization_id: string | null;
+  gateway_name: string;
+  exception_type: ReconciliationExceptionType;
+  external_transaction_id: string | null;
+  transaction_id: string | null;
+  webhook_event_id: string | null;
+  expected_amount: number | null; // cents
+  received_amount: number | null; // cents
+  currency: string | null;
+  details: Record<string, any>;
+  status: ReconciliationExceptionStatus;
+  resolution_notes: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// Pending charges older than this were never confirmed by the gateway
+export const UNCONFIRMED_PAYMENT_HOURS = 24;
+
+export const paymentReconciliationService = {
+  /**
+   * Get reconciliation exceptions for an organization, newest first
+   */
+  async getExceptions(
+    organizationId: string,
+    status: ReconciliationExceptionStatus = 'open'
+  ): Promise<ReconciliationException[]> {
+    const { data, error } = await supabase
+      .from('payment_reconciliation_exceptions')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('status', status)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching reconciliation exceptions:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Close an exception after it has been dealt with (resolved) or judged
+   * not to need action (ignored)
+   */
+  async closeException(
+    exceptionId: string,
+    status: 'resolved' | 'ignored',
+    notes?: string
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from('payment_reconciliation_exceptions')
+      .update({
+        status,
+        resolution_notes: notes || null,
+        resolved_by: user?.id || null,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', exceptionId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Raise an exception for each gateway charge still pending after
+   * UNCONFIRMED_PAYMENT_HOURS. Returns the number of new exceptions.
+   */
+  async flagUnconfirmedPayments(organizationId: string, gatewayName?: string): Promise<number> {
+    const cutoff = new Date(Date.now() - UNCONFIRMED_PAYMENT_HOURS * 60 * 60 * 1000).toISOString();
+
+    let query = supabase
+      .from('payment_transactions')
+      .select('id, gateway_name, external_transaction_id, amount, currency, created_at')
+      .eq('organization_id', organizationId)
+      .eq('transaction_type', 'charge')
+      .eq('status', 'pending')
+      .lt('created_at', cutoff);
+
+    if (gatewayName) {
+      query = query.eq('gateway_name', gatewayName);
+    }
+
+    const { data: stale, error } = await query;
+    if (error) throw error;
+    if (!stale || stale.length === 0) return 0;
+
+    const { data: existing } = await supabase
+      .from('payment_reconciliation_exceptions')
+      .select('transaction_id')
+      .eq('organization_id', organizationId)
+      .eq('exception_type', 'unconfirmed')
+      .eq('status', 'open');
+
+    const flagged = new Set((existing || []).map(e => e.transaction_id));
+    const toFlag = stale.filter(t => !flagged.has(t.id));
+    if (toFlag.length === 0) return 0;
+
+    const { error: insertError } = await supabase
+      .from('payment_reconciliation_exceptions')
+      .insert(toFlag.map(t => ({
+        organization_id: organizationId,
+        gateway_name: t.gateway_name,
+        exception_type: 'unconfirmed',
+        external_transaction_id: t.external_transaction_id,
+        transaction_id: t.id,
+        expected_amount: t.amount,
+        currency: t.currency,
+        details: { pending_since: t.created_at },
+      })));
+
+    if (insertError) throw insertError;
+    return toFlag.length;
+  },
+};
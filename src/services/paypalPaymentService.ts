@@ -45,6 +45,7 @@ export interface PayPalPaymentRequest {
   currency: string;
   tenant_id?: string;
   lease_id?: string;
+  payment_schedule_id?: string;
   payment_type: 'rent' | 'security_deposit' | 'pet_deposit' | 'late_fee' | 'utility' | 'other';
   description?: string;
 }
@@ -53,6 +54,7 @@ export interface PayPalPaymentResponse {
   success: boolean;
   order_id?: string;
   capture_id?: string;
+  rent_payment_id?: string; // Recorded server-side by capture-paypal-order
   payer_email?: string;
   error?: string;
 }
@@ -167,11 +169,15 @@ export const paypalPaymentService = {
         },
         onApprove: async (data: { orderID: string }) => {
           try {
-            // Capture the payment via Edge Function
+            // Capture the payment via Edge Function, which also records it
             const { data: captureData, error } = await supabase.functions.invoke('capture-paypal-order', {
               body: {
                 organization_id: organizationId,
                 order_id: data.orderID,
+                tenant_id: request.tenant_id,
+                lease_id: request.lease_id,
+                payment_schedule_id: request.payment_schedule_id,
+                payment_type: request.payment_type,
               },
             });
 
@@ -179,18 +185,11 @@ export const paypalPaymentService = {
               throw new Error(error.message || 'Failed to capture payment');
             }
 
-            // Record the transaction
-            await this.recordPaymentTransaction(organizationId, request, {
-              success: true,
-              order_id: data.orderID,
-              capture_id: captureData?.capture_id,
-              payer_email: captureData?.payer_email,
-            });
-
             onSuccess({
               success: true,
               order_id: data.orderID,
               capture_id: captureData?.capture_id,
+              rent_payment_id: captureData?.rent_payment_id,
               payer_email: captureData?.payer_email,
             });
           } catch (err) {
@@ -212,46 +211,4 @@ export const paypalPaymentService = {
       return null;
     }
   },
-
-  async recordPaymentTransaction(
-    organizationId: string,
-    request: PayPalPaymentRequest,
-    response: PayPalPaymentResponse
-  ): Promise<void> {
-    try {
-      await supabase.from('payment_transactions').insert({
-        organization_id: organizationId,
-        gateway_name: 'paypal',
-        transaction_type: 'charge',
-        amount: request.amount_cents,
-        currency: request.currency,
-        status: response.success ? 'completed' : 'failed',
-        external_transaction_id: response.capture_id || response.order_id,
-        gateway_response: {
-          order_id: response.order_id,
-          capture_id: response.capture_id,
-          payer_email: response.payer_email,
-          payment_type: request.payment_type,
-          tenant_id: request.tenant_id,
-          lease_id: request.lease_id,
-        },
-      });
-
-      // If payment was for rent, update rent_payments table
-      if (response.success && request.tenant_id && request.lease_id) {
-        await supabase.from('rent_payments').insert({
-          lease_id: request.lease_id,
-          tenant_id: request.tenant_id,
-          organization_id: organizationId,
-          amount_cents: request.amount_cents,
-          payment_date: new Date().toISOString(),
-          payment_method: 'paypal',
-          status: 'paid',
-          notes: `PayPal Payment: ${response.order_id}`,
-        });
-      }
-    } catch (error) {
-      // Log but don't fail the payment
-    }
-  },
 };
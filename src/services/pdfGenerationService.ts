@@ -1,5 +1,10 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { DEPOSIT_DEDUCTION_LABELS, type DepositStatement } from './securityDepositService';
+import { INSPECTION_RATING_LABELS, INSPECTION_TYPE_LABELS, type InspectionReport } from './inspectionService';
+import type { ComparativeStatement } from './financialReportingService';
+import type { InspectionConditionRating, OwnerStatement, TenantLedger, VendorTaxForm } from '../types';
+import { TAX_FORM_BOX_LABELS, type TaxFilingPayer } from '../utils/taxFilingFormats';
 
 export interface PDFReportOptions {
   title: string;
@@ -8,6 +13,14 @@ export interface PDFReportOptions {
   generatedDate: string;
 }
 
+export interface PDFBranding {
+  name: string;
+  // Address and contact lines under the name
+  details: string[];
+  primaryColor: [number, number, number];
+  logo?: { dataUrl: string; format: 'PNG' | 'JPEG' };
+}
+
 export const pdfGenerationService = {
   async generateFinancialReport(
     summary: any,
@@ -301,6 +314,822 @@ export const pdfGenerationService = {
     return doc.output('blob');
   },
 
+  async generateDepositStatement(
+    statement: DepositStatement,
+    options: PDFReportOptions
+  ): Promise<Blob> {
+    const doc = new jsPDF();
+    const { deposit } = statement;
+    let yPosition = 20;
+
+    doc.setFontSize(20);
+    doc.text(options.title, 105, yPosition, { align: 'center' });
+    yPosition += 10;
+
+    doc.setFontSize(12);
+    doc.text(options.organizationName, 105, yPosition, { align: 'center' });
+    yPosition += 7;
+
+    if (options.period) {
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text(options.period, 105, yPosition, { align: 'center' });
+      yPosition += 10;
+    }
+
+    doc.setFontSize(8);
+    doc.text(`Generated: ${options.generatedDate}`, 105, yPosition, { align: 'center' });
+    yPosition += 15;
+
+    doc.setDrawColor(200);
+    doc.line(20, yPosition, 190, yPosition);
+    yPosition += 10;
+
+    autoTable(doc, {
+      startY: yPosition,
+      body: [
+        ['Tenant', statement.tenantName || '-'],
+        ['Premises', statement.unitLabel || '-'],
+        ['Lease', deposit.lease ? `${this.formatDate(deposit.lease.start_date)} - ${deposit.lease.end_date ? this.formatDate(deposit.lease.end_date) : 'ongoing'}` : '-'],
+        ['Deposit', deposit.deposit_type === 'pet' ? 'Pet deposit' : 'Security deposit'],
+      ],
+      theme: 'plain',
+      styles: { fontSize: 10 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 40 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    doc.setFontSize(14);
+    doc.setTextColor(0);
+    doc.text('Deposit Held', 20, yPosition);
+    yPosition += 5;
+
+    const held = statement.transactions.filter(
+      t => t.transaction_type === 'receipt' || t.transaction_type === 'interest'
+    );
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Date', 'Description', 'Amount']],
+      body: [
+        ...held.map(t => [
+          this.formatDate(t.transaction_date),
+          t.transaction_type === 'interest'
+            ? `Interest ${this.formatDate(t.interest_from || '')} - ${this.formatDate(t.interest_to || '')}`
+            : t.description || 'Deposit received',
+          this.formatCurrency(t.amount_cents / 100),
+        ]),
+        ['', 'Total held', this.formatCurrency((statement.receivedCents + statement.interestCents) / 100)],
+      ],
+      theme: 'grid',
+      headStyles: { fillColor: [37, 99, 235] },
+      styles: { fontSize: 10 },
+      columnStyles: {
+        0: { cellWidth: 35 },
+        2: { halign: 'right', cellWidth: 35 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    doc.setFontSize(14);
+    doc.text('Deductions', 20, yPosition);
+    yPosition += 5;
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Category', 'Description', 'Amount']],
+      body: statement.deductions.length > 0
+        ? [
+            ...statement.deductions.map(t => [
+              DEPOSIT_DEDUCTION_LABELS[t.deduction_category || 'other'],
+              t.description || '',
+              this.formatCurrency(t.amount_cents / 100),
+            ]),
+            ['', 'Total deductions', this.formatCurrency(statement.deductionsCents / 100)],
+          ]
+        : [['', 'No deductions', this.formatCurrency(0)]],
+      theme: 'grid',
+      headStyles: { fillColor: [37, 99, 235] },
+      styles: { fontSize: 10 },
+      columnStyles: {
+        0: { cellWidth: 35 },
+        2: { halign: 'right', cellWidth: 35 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    autoTable(doc, {
+      startY: yPosition,
+      body: [['Amount refunded to tenant', this.formatCurrency(statement.refundCents / 100)]],
+      theme: 'grid',
+      styles: { fontSize: 11, fontStyle: 'bold' },
+      columnStyles: {
+        1: { halign: 'right', cellWidth: 35 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    if (deposit.disposition_notes) {
+      doc.setFontSize(10);
+      doc.setTextColor(60);
+      const noteLines = doc.splitTextToSize(deposit.disposition_notes, 170);
+      doc.text(noteLines, 20, yPosition);
+    }
+
+    return doc.output('blob');
+  },
+
+  async generateTenantStatement(
+    ledger: TenantLedger,
+    options: PDFReportOptions
+  ): Promise<Blob> {
+    const doc = new jsPDF();
+    let yPosition = 20;
+
+    doc.setFontSize(20);
+    doc.text(options.title, 105, yPosition, { align: 'center' });
+    yPosition += 10;
+
+    doc.setFontSize(12);
+    doc.text(options.organizationName, 105, yPosition, { align: 'center' });
+    yPosition += 7;
+
+    if (options.period) {
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text(options.period, 105, yPosition, { align: 'center' });
+      yPosition += 10;
+    }
+
+    doc.setFontSize(8);
+    doc.text(`Generated: ${options.generatedDate}`, 105, yPosition, { align: 'center' });
+    yPosition += 15;
+
+    doc.setDrawColor(200);
+    doc.line(20, yPosition, 190, yPosition);
+    yPosition += 10;
+
+    autoTable(doc, {
+      startY: yPosition,
+      body: [
+        ['Tenant', ledger.tenant_name],
+        ['Premises', ledger.unit_label || '-'],
+        ['Statement date', this.formatDate(ledger.end_date)],
+      ],
+      theme: 'plain',
+      styles: { fontSize: 10 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 40 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    const amount = (cents: number) => this.formatCurrency(cents / 100);
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Date', 'Description', 'Charges', 'Credits', 'Balance']],
+      body: [
+        ...(ledger.start_date
+          ? [[this.formatDate(ledger.start_date), 'Opening balance', '', '', amount(ledger.opening_balance_cents)]]
+          : []),
+        ...ledger.lines.map(line => [
+          this.formatDate(line.entry_date),
+          line.reference ? `${line.description} (${line.reference})` : line.description,
+          line.amount_cents > 0 ? amount(line.amount_cents) : '',
+          line.amount_cents < 0 ? amount(-line.amount_cents) : '',
+          amount(line.balance_cents),
+        ]),
+      ],
+      theme: 'grid',
+      headStyles: { fillColor: [37, 99, 235] },
+      styles: { fontSize: 9 },
+      columnStyles: {
+        0: { cellWidth: 32 },
+        2: { halign: 'right', cellWidth: 26 },
+        3: { halign: 'right', cellWidth: 26 },
+        4: { halign: 'right', cellWidth: 28 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    const closing = ledger.closing_balance_cents;
+    autoTable(doc, {
+      startY: yPosition,
+      body: [
+        ['Opening balance', amount(ledger.opening_balance_cents)],
+        ['Charges', amount(ledger.total_charges_cents)],
+        ['Payments', amount(-ledger.total_payments_cents)],
+        ['Credits', amount(-ledger.total_credits_cents)],
+        ...(ledger.total_adjustments_cents !== 0 ? [['Adjustments', amount(ledger.total_adjustments_cents)]] : []),
+      ],
+      theme: 'plain',
+      styles: { fontSize: 10 },
+      margin: { left: 110 },
+      columnStyles: {
+        1: { halign: 'right', cellWidth: 35 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 2;
+
+    autoTable(doc, {
+      startY: yPosition,
+      body: [[closing < 0 ? 'Credit balance' : 'Balance due', amount(Math.abs(closing))]],
+      theme: 'grid',
+      styles: { fontSize: 11, fontStyle: 'bold' },
+      margin: { left: 110 },
+      columnStyles: {
+        1: { halign: 'right', cellWidth: 35 },
+      },
+    });
+
+    return doc.output('blob');
+  },
+
+  async generateInspectionReport(
+    report: InspectionReport,
+    options: PDFReportOptions
+  ): Promise<Blob> {
+    const doc = new jsPDF();
+    const { inspection, previous } = report;
+    let yPosition = 20;
+
+    doc.setFontSize(20);
+    doc.text(options.title, 105, yPosition, { align: 'center' });
+    yPosition += 10;
+
+    doc.setFontSize(12);
+    doc.text(options.organizationName, 105, yPosition, { align: 'center' });
+    yPosition += 7;
+
+    if (options.period) {
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text(options.period, 105, yPosition, { align: 'center' });
+      yPosition += 10;
+    }
+
+    doc.setFontSize(8);
+    doc.text(`Generated: ${options.generatedDate}`, 105, yPosition, { align: 'center' });
+    yPosition += 15;
+
+    doc.setDrawColor(200);
+    doc.line(20, yPosition, 190, yPosition);
+    yPosition += 10;
+
+    const rating = (item?: { condition_rating?: InspectionConditionRating }) =>
+      item?.condition_rating ? INSPECTION_RATING_LABELS[item.condition_rating] : '-';
+
+    autoTable(doc, {
+      startY: yPosition,
+      body: [
+        ['Tenant', report.tenantName || '-'],
+        ['Premises', report.unitLabel || '-'],
+        ...(previous ? [['Move-in inspection', this.formatDate(previous.inspection_date)]] : []),
+        [`${INSPECTION_TYPE_LABELS[inspection.inspection_type]} inspection`, this.formatDate(inspection.inspection_date)],
+      ],
+      theme: 'plain',
+      styles: { fontSize: 10 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 50 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [previous
+        ? ['Room', 'Item', 'Move-In', 'Move-In Notes', 'Move-Out', 'Move-Out Notes']
+        : ['Room', 'Item', 'Condition', 'Notes']],
+      body: report.rows.map(row => previous
+        ? [row.roomName, row.itemName, rating(row.before), row.before?.notes || '', rating(row.after), row.after?.notes || '']
+        : [row.roomName, row.itemName, rating(row.after), row.after?.notes || '']),
+      theme: 'grid',
+      headStyles: { fillColor: [37, 99, 235] },
+      styles: { fontSize: 8 },
+      didParseCell: (data) => {
+        if (data.section === 'body' && report.rows[data.row.index]?.deteriorated) {
+          data.cell.styles.fillColor = [254, 226, 226];
+        }
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    if (inspection.general_notes) {
+      doc.setFontSize(10);
+      doc.setTextColor(60);
+      const noteLines = doc.splitTextToSize(inspection.general_notes, 170);
+      doc.text(noteLines, 20, yPosition);
+      yPosition += noteLines.length * 5 + 10;
+    }
+
+    // Photo evidence, four per row
+    const photos = [...(previous?.photos || []), ...(inspection.photos || [])]
+      .filter(photo => /^data:image\/(png|jpe?g)/.test(photo.file_url));
+    const allItems = [...(previous?.items || []), ...(inspection.items || [])];
+
+    if (photos.length > 0) {
+      doc.addPage();
+      yPosition = 20;
+      doc.setFontSize(14);
+      doc.setTextColor(0);
+      doc.text('Photos', 20, yPosition);
+      yPosition += 8;
+
+      photos.forEach((photo, index) => {
+        const column = index % 4;
+        if (column === 0 && index > 0) {
+          yPosition += 48;
+        }
+        if (yPosition > 235) {
+          doc.addPage();
+          yPosition = 20;
+        }
+
+        const x = 20 + column * 43;
+        const item = allItems.find(i => i.id === photo.item_id);
+        const taken = previous?.photos?.some(p => p.id === photo.id) ? 'Move-in' : INSPECTION_TYPE_LABELS[inspection.inspection_type];
+        try {
+          doc.addImage(photo.file_url, x, yPosition, 40, 30);
+        } catch {
+          doc.rect(x, yPosition, 40, 30);
+        }
+        doc.setFontSize(7);
+        doc.setTextColor(60);
+        const caption = doc.splitTextToSize(`${taken}: ${item ? `${item.room_name} - ${item.item_name}` : photo.file_name}`, 40);
+        doc.text(caption.slice(0, 2), x, yPosition + 34);
+      });
+
+      yPosition += 48;
+    }
+
+    // Signatures
+    if (yPosition > 230) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(12);
+    doc.setTextColor(0);
+    doc.text('Signatures', 20, yPosition);
+    yPosition += 8;
+
+    const signatures = [
+      { label: 'Inspector', name: inspection.inspector_name, data: inspection.inspector_signature, method: inspection.inspector_signature_method, at: inspection.inspector_signed_at },
+      { label: 'Tenant', name: inspection.tenant_signer_name, data: inspection.tenant_signature, method: inspection.tenant_signature_method, at: inspection.tenant_signed_at },
+    ];
+
+    signatures.forEach((signature, index) => {
+      const x = 20 + index * 90;
+      doc.setFontSize(9);
+      doc.setTextColor(60);
+      doc.text(signature.label, x, yPosition);
+
+      if (signature.data && signature.method === 'digital') {
+        try {
+          doc.addImage(signature.data, 'PNG', x, yPosition + 2, 60, 20);
+        } catch {
+          doc.text('[signature]', x, yPosition + 14);
+        }
+      } else if (signature.data) {
+        doc.setFontSize(14);
+        doc.setTextColor(0);
+        doc.text(signature.data, x, yPosition + 14);
+      } else {
+        doc.text('Not signed', x, yPosition + 14);
+      }
+
+      doc.setFontSize(8);
+      doc.setTextColor(100);
+      if (signature.name) doc.text(signature.name, x, yPosition + 27);
+      if (signature.at) doc.text(`Signed ${this.formatDate(signature.at)}`, x, yPosition + 31);
+    });
+
+    yPosition += 38;
+
+    if (inspection.tenant_comments) {
+      doc.setFontSize(9);
+      doc.setTextColor(60);
+      const commentLines = doc.splitTextToSize(`Tenant comments: ${inspection.tenant_comments}`, 170);
+      doc.text(commentLines, 20, yPosition);
+    }
+
+    return doc.output('blob');
+  },
+
+  async generateFinancialStatement(
+    statement: ComparativeStatement,
+    options: PDFReportOptions
+  ): Promise<Blob> {
+    const landscape = statement.columns.length > 2;
+    const doc = new jsPDF({ orientation: landscape ? 'landscape' : 'portrait' });
+    const centre = landscape ? 148 : 105;
+    let yPosition = 20;
+
+    doc.setFontSize(20);
+    doc.text(options.title, centre, yPosition, { align: 'center' });
+    yPosition += 10;
+
+    doc.setFontSize(12);
+    doc.text(options.organizationName, centre, yPosition, { align: 'center' });
+    yPosition += 7;
+
+    if (options.period) {
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text(options.period, centre, yPosition, { align: 'center' });
+      yPosition += 10;
+    }
+
+    doc.setFontSize(8);
+    doc.text(`Generated: ${options.generatedDate}`, centre, yPosition, { align: 'center' });
+    yPosition += 10;
+
+    // Negative amounts in brackets, as on printed statements
+    const formatAmount = (cents: number) => {
+      const formatted = new Intl.NumberFormat('en-CA', {
+        style: 'currency',
+        currency: statement.currencyCode,
+      }).format(Math.abs(cents) / 100);
+      return cents < 0 ? `(${formatted})` : formatted;
+    };
+
+    const columnHeading = (column: ComparativeStatement['columns'][number]) =>
+      statement.type === 'balance_sheet'
+        ? `${column.label}\nAs of ${this.formatDate(`${column.endDate}T00:00:00`)}`
+        : `${column.label}\n${this.formatDate(`${column.startDate}T00:00:00`)} - ${this.formatDate(`${column.endDate}T00:00:00`)}`;
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['', ...statement.columns.map(columnHeading)]],
+      body: statement.lines.map(line => [
+        {
+          content: `${'    '.repeat(line.depth)}${line.accountNumber ? `${line.accountNumber}  ` : ''}${line.label}`,
+          styles: { fontStyle: line.kind === 'account' || line.kind === 'item' ? 'normal' : 'bold' },
+        },
+        ...statement.columns.map((_, i) => ({
+          content: line.kind === 'heading' ? '' : formatAmount(line.amounts[i] ?? 0),
+          styles: {
+            halign: 'right' as const,
+            fontStyle: line.kind === 'total' || line.kind === 'grand_total' ? 'bold' as const : 'normal' as const,
+          },
+        })),
+      ]),
+      theme: 'plain',
+      headStyles: { fillColor: [37, 99, 235], textColor: 255, halign: 'right' },
+      styles: { fontSize: 9, cellPadding: 1.5 },
+      didParseCell: (data) => {
+        const line = statement.lines[data.row.index];
+        if (data.section === 'body' && line?.kind === 'grand_total') {
+          data.cell.styles.fillColor = [243, 244, 246];
+        }
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    const unbalanced = statement.isBalanced
+      ?.map((balanced, i) => (balanced ? null : statement.columns[i]?.label))
+      .filter(Boolean);
+    if (unbalanced && unbalanced.length > 0) {
+      doc.setFontSize(9);
+      doc.setTextColor(185, 28, 28);
+      doc.text(`Out of balance: ${unbalanced.join(', ')}`, 14, yPosition);
+    }
+
+    return doc.output('blob');
+  },
+
+  /**
+   * Recipient copies of 1099 and T5018 forms, one form per page. Copy A of a
+   * 1099 must be filed electronically or on the official printed form, so
+   * these pages are for recipients and records only.
+   */
+  async generateTaxFormSlips(
+    forms: VendorTaxForm[],
+    payer: TaxFilingPayer,
+    taxYear: number
+  ): Promise<Blob> {
+    const doc = new jsPDF();
+
+    forms.forEach((form, index) => {
+      if (index > 0) doc.addPage();
+
+      const recipient = form.recipient!;
+      const isT5018 = form.form_type === 'T5018';
+      const corrected = form.status === 'corrected' || form.correction_count > 0;
+      const money = (cents: number) => new Intl.NumberFormat('en-CA', {
+        style: 'currency',
+        currency: isT5018 ? 'CAD' : 'USD',
+      }).format(cents / 100);
+      // Recipient copies may show only the last four digits of the TIN
+      const tin = (recipient.tin || '').replace(/[\s-]/g, '');
+      const maskedTin = tin ? `${'*'.repeat(Math.max(tin.length - 4, 0))}${tin.slice(-4)}` : '-';
+      const address = (details: { addressLine1?: string; addressLine2?: string; city?: string; region?: string; postalCode?: string }) => [
+        details.addressLine1,
+        details.addressLine2,
+        [details.city, details.region, details.postalCode].filter(Boolean).join(' '),
+      ].filter(Boolean).join('\n');
+
+      let yPosition = 20;
+
+      doc.setFontSize(18);
+      doc.setTextColor(0);
+      doc.text(
+        isT5018 ? `T5018 Statement of Contract Payments ${taxYear}` : `Form ${form.form_type} ${taxYear}`,
+        105,
+        yPosition,
+        { align: 'center' }
+      );
+      yPosition += 7;
+
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text(
+        isT5018
+          ? 'Recipient copy - keep for your records'
+          : `${form.form_type === '1099-NEC' ? 'Nonemployee Compensation' : 'Miscellaneous Information'} - Copy B for Recipient`,
+        105,
+        yPosition,
+        { align: 'center' }
+      );
+      yPosition += 6;
+
+      if (corrected) {
+        doc.setFontSize(11);
+        doc.setTextColor(185, 28, 28);
+        doc.text(isT5018 ? 'AMENDED' : 'CORRECTED', 105, yPosition, { align: 'center' });
+        yPosition += 6;
+      }
+
+      autoTable(doc, {
+        startY: yPosition + 4,
+        body: [
+          [isT5018 ? 'Payer' : "PAYER'S name and address", `${payer.name}\n${address(payer)}${payer.phone ? `\n${payer.phone}` : ''}`],
+          [isT5018 ? "Payer's program account number" : "PAYER'S TIN", (isT5018 ? payer.craAccount : payer.tin) || '-'],
+          [
+            isT5018 ? (recipient.tinType === 'sin' ? "Recipient's social insurance number" : "Recipient's business number") : "RECIPIENT'S TIN",
+            maskedTin,
+          ],
+          [isT5018 ? 'Recipient' : "RECIPIENT'S name and address", `${recipient.name}\n${address(recipient)}`],
+          ['Account number', form.vendor_id.replace(/-/g, '').slice(0, 20).toUpperCase()],
+          [isT5018 ? 'Reporting period end' : 'Calendar year', isT5018 ? `${taxYear}-12-31` : String(taxYear)],
+        ],
+        theme: 'grid',
+        styles: { fontSize: 10, cellPadding: 3 },
+        columnStyles: {
+          0: { fontStyle: 'bold', cellWidth: 60, fillColor: [243, 244, 246] },
+        },
+      });
+
+      yPosition = (doc as any).lastAutoTable.finalY + 8;
+
+      const labels = TAX_FORM_BOX_LABELS[form.form_type] || {};
+      const boxes = Object.entries(form.box_amounts || {});
+
+      autoTable(doc, {
+        startY: yPosition,
+        head: [['Box', 'Amount']],
+        body: (boxes.length > 0 ? boxes : [['', form.total_payments_cents] as [string, number]]).map(([box, cents]) => [
+          labels[box] || box || 'Total payments',
+          money(cents),
+        ]),
+        theme: 'grid',
+        headStyles: { fillColor: [37, 99, 235] },
+        styles: { fontSize: 11 },
+        columnStyles: {
+          1: { halign: 'right', cellWidth: 50 },
+        },
+      });
+
+      yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+      doc.setFontSize(8);
+      doc.setTextColor(100);
+      const notice = isT5018
+        ? 'This information is also reported to the Canada Revenue Agency. Report these payments as income on your return.'
+        : 'This is important tax information and is being furnished to the IRS. If you are required to file a return, '
+          + 'a negligence penalty or other sanction may be imposed on you if this income is taxable and the IRS determines '
+          + 'that it has not been reported.';
+      doc.text(doc.splitTextToSize(notice, 170), 20, yPosition);
+
+      if (corrected && form.correction_reason) {
+        doc.text(doc.splitTextToSize(`Correction: ${form.correction_reason}`, 170), 20, yPosition + 14);
+      }
+    });
+
+    return doc.output('blob');
+  },
+
+  /**
+   * Monthly owner statement: summary, the owner's share of each property,
+   * then the income and expense items of each property
+   */
+  async generateOwnerStatement(
+    statement: OwnerStatement,
+    branding: PDFBranding
+  ): Promise<Blob> {
+    const doc = new jsPDF();
+    const lines = statement.lines || [];
+    const owner = statement.owner;
+    let yPosition = 18;
+
+    // Negative amounts in brackets, as on printed statements
+    const money = (cents: number) => {
+      const formatted = new Intl.NumberFormat('en-CA', {
+        style: 'currency',
+        currency: statement.currency_code,
+      }).format(Math.abs(cents) / 100);
+      return cents < 0 ? `(${formatted})` : formatted;
+    };
+
+    let textLeft = 20;
+    if (branding.logo) {
+      doc.addImage(branding.logo.dataUrl, branding.logo.format, 20, yPosition - 6, 30, 15);
+      textLeft = 56;
+    }
+
+    doc.setFontSize(14);
+    doc.setTextColor(...branding.primaryColor);
+    doc.text(branding.name, textLeft, yPosition);
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    branding.details.forEach((detail, i) => doc.text(detail, textLeft, yPosition + 5 + i * 4));
+
+    doc.setFontSize(18);
+    doc.setTextColor(0);
+    doc.text('Owner Statement', 190, yPosition, { align: 'right' });
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(
+      `${this.formatDate(`${statement.period_start}T00:00:00`)} - ${this.formatDate(`${statement.period_end}T00:00:00`)}`,
+      190,
+      yPosition + 6,
+      { align: 'right' }
+    );
+
+    if (statement.status === 'void') {
+      doc.setFontSize(11);
+      doc.setTextColor(185, 28, 28);
+      doc.text('VOID', 190, yPosition + 12, { align: 'right' });
+    }
+
+    yPosition += Math.max(branding.details.length * 4 + 12, 20);
+
+    doc.setDrawColor(...branding.primaryColor);
+    doc.line(20, yPosition, 190, yPosition);
+    yPosition += 6;
+
+    if (owner) {
+      const address = [
+        owner.address_line1,
+        owner.address_line2,
+        [owner.city, owner.state, owner.postal_code].filter(Boolean).join(' '),
+      ].filter(Boolean);
+      const ownerName = `${owner.first_name} ${owner.last_name}`;
+
+      doc.setFontSize(10);
+      doc.setTextColor(0);
+      [owner.company_name || ownerName, ...(owner.company_name ? [`Attn: ${ownerName}`] : []), ...address]
+        .forEach((line, i) => doc.text(line!, 20, yPosition + i * 5));
+      yPosition += (address.length + (owner.company_name ? 2 : 1)) * 5 + 4;
+    }
+
+    autoTable(doc, {
+      startY: yPosition,
+      body: [
+        ['Balance brought forward', money(statement.opening_balance_cents)],
+        ['Income collected', money(statement.income_cents)],
+        ['Expenses paid', money(-statement.expense_cents)],
+        ['Management fees', money(-statement.management_fee_cents)],
+        [statement.reserve_change_cents < 0 ? 'Released from reserve' : 'Held in reserve', money(-statement.reserve_change_cents)],
+        ...(statement.closing_balance_cents < 0 ? [['Shortfall carried forward', money(-statement.closing_balance_cents)]] : []),
+      ],
+      theme: 'plain',
+      styles: { fontSize: 10 },
+      margin: { left: 100 },
+      columnStyles: {
+        1: { halign: 'right', cellWidth: 40 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 2;
+
+    autoTable(doc, {
+      startY: yPosition,
+      body: [
+        ['Distribution', money(statement.distribution_cents)],
+        ['Reserve balance', money(statement.reserve_balance_cents)],
+      ],
+      theme: 'grid',
+      styles: { fontSize: 11, fontStyle: 'bold' },
+      margin: { left: 100 },
+      columnStyles: {
+        1: { halign: 'right', cellWidth: 40 },
+      },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Property', 'Share', 'Income', 'Expenses', 'Fees', 'Reserve', 'Distribution']],
+      body: lines.map(line => [
+        line.property_name,
+        `${Number(line.ownership_percentage)}%`,
+        money(line.income_cents),
+        money(line.expense_cents),
+        money(line.management_fee_cents),
+        money(line.reserve_change_cents),
+        money(line.distribution_cents),
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: branding.primaryColor },
+      styles: { fontSize: 9 },
+      columnStyles: {
+        1: { halign: 'right', cellWidth: 16 },
+        2: { halign: 'right' },
+        3: { halign: 'right' },
+        4: { halign: 'right' },
+        5: { halign: 'right' },
+        6: { halign: 'right' },
+      },
+    });
+
+    for (const line of lines) {
+      const items = [
+        ...(line.details.income || []).map(item => ({ ...item, kind: 'Income' })),
+        ...(line.details.expenses || []).map(item => ({ ...item, kind: 'Expense' })),
+      ];
+      if (items.length === 0) continue;
+
+      yPosition = (doc as any).lastAutoTable.finalY + 10;
+      if (yPosition > 250) {
+        doc.addPage();
+        yPosition = 20;
+      }
+
+      doc.setFontSize(11);
+      doc.setTextColor(0);
+      doc.text(line.property_name, 20, yPosition);
+      doc.setFontSize(8);
+      doc.setTextColor(100);
+      doc.text(`Whole property amounts. Your share is ${Number(line.ownership_percentage)}%.`, 20, yPosition + 5);
+
+      autoTable(doc, {
+        startY: yPosition + 8,
+        head: [['Date', 'Type', 'Description', 'Amount']],
+        body: [
+          ...items.map(item => [
+            this.formatDate(`${item.date}T00:00:00`),
+            item.kind,
+            item.description,
+            money(item.kind === 'Income' ? item.amount_cents : -item.amount_cents),
+          ]),
+          ...(line.gross_management_fee_cents > 0
+            ? [['', 'Fee', 'Management fee', money(-line.gross_management_fee_cents)]]
+            : []),
+        ],
+        theme: 'striped',
+        headStyles: { fillColor: branding.primaryColor },
+        styles: { fontSize: 8 },
+        columnStyles: {
+          0: { cellWidth: 32 },
+          1: { cellWidth: 18 },
+          3: { halign: 'right', cellWidth: 28 },
+        },
+      });
+    }
+
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.setFontSize(8);
+      doc.setTextColor(150);
+      doc.text(
+        statement.published_at
+          ? `Published ${this.formatDate(statement.published_at)}`
+          : 'Draft - not yet published',
+        20,
+        287
+      );
+      doc.text(`Page ${page} of ${pageCount}`, 190, 287, { align: 'right' });
+    }
+
+    return doc.output('blob');
+  },
+
   formatCurrency(value: number): string {
     return new Intl.NumberFormat('en-CA', {
       style: 'currency',
@@ -311,6 +1140,59 @@ export const pdfGenerationService = {
 
   async generateAgreementPDF(agreement: any): Promise<void> {
     const doc = new jsPDF();
+    let yPosition = this.renderAgreementBody(doc, agreement);
+
+    if (agreement.status === 'executed' || agreement.tenant_signed || agreement.landlord_signed) {
+      if (yPosition > 200) {
+        doc.addPage();
+        yPosition = 20;
+      } else {
+        yPosition += 20;
+      }
+
+      doc.setDrawColor(200);
+      doc.line(20, yPosition, 190, yPosition);
+      yPosition += 10;
+
+      doc.setFontSize(12);
+      doc.setTextColor(0);
+      doc.text('SIGNATURES', 20, yPosition);
+      yPosition += 10;
+
+      if (agreement.landlord_signed) {
+        doc.setFontSize(10);
+        doc.text('Landlord:', 20, yPosition);
+        yPosition += 8;
+        doc.setFontSize(9);
+        doc.setTextColor(60);
+        doc.text(`Signed by: ${agreement.landlord_name}`, 25, yPosition);
+        yPosition += 5;
+        doc.text(`Date: ${this.formatDate(agreement.landlord_signed_at)}`, 25, yPosition);
+        yPosition += 15;
+      }
+
+      if (agreement.tenant_signed) {
+        doc.setFontSize(10);
+        doc.setTextColor(0);
+        doc.text('Tenant:', 20, yPosition);
+        yPosition += 8;
+        doc.setFontSize(9);
+        doc.setTextColor(60);
+        doc.text(`Signed by: ${agreement.tenant_name}`, 25, yPosition);
+        yPosition += 5;
+        doc.text(`Date: ${this.formatDate(agreement.tenant_signed_at)}`, 25, yPosition);
+        yPosition += 10;
+      }
+    }
+
+    const filename = `lease-agreement-${agreement.tenant_name.replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.pdf`;
+    const blob = doc.output('blob');
+    this.downloadPDF(blob, filename);
+  },
+
+  // Title, parties, property, lease terms and agreement text. Returns the
+  // y position after the text
+  renderAgreementBody(doc: jsPDF, agreement: any): number {
     let yPosition = 20;
 
     doc.setFontSize(22);
@@ -435,7 +1317,7 @@ export const pdfGenerationService = {
 
     doc.setFontSize(9);
     doc.setTextColor(60);
-    const agreementLines = doc.splitTextToSize(agreement.generated_text, 170);
+    const agreementLines = doc.splitTextToSize(agreement.final_content || agreement.generated_text || '', 170);
 
     for (let i = 0; i < agreementLines.length; i++) {
       if (yPosition > 270) {
@@ -446,52 +1328,8 @@ export const pdfGenerationService = {
       yPosition += 5;
     }
 
-    if (agreement.status === 'executed' || agreement.tenant_signed || agreement.landlord_signed) {
-      if (yPosition > 200) {
-        doc.addPage();
-        yPosition = 20;
-      } else {
-        yPosition += 20;
-      }
-
-      doc.setDrawColor(200);
-      doc.line(20, yPosition, 190, yPosition);
-      yPosition += 10;
-
-      doc.setFontSize(12);
-      doc.setTextColor(0);
-      doc.text('SIGNATURES', 20, yPosition);
-      yPosition += 10;
 
-      if (agreement.landlord_signed) {
-        doc.setFontSize(10);
-        doc.text('Landlord:', 20, yPosition);
-        yPosition += 8;
-        doc.setFontSize(9);
-        doc.setTextColor(60);
-        doc.text(`Signed by: ${agreement.landlord_name}`, 25, yPosition);
-        yPosition += 5;
-        doc.text(`Date: ${this.formatDate(agreement.landlord_signed_at)}`, 25, yPosition);
-        yPosition += 15;
-      }
-
-      if (agreement.tenant_signed) {
-        doc.setFontSize(10);
-        doc.setTextColor(0);
-        doc.text('Tenant:', 20, yPosition);
-        yPosition += 8;
-        doc.setFontSize(9);
-        doc.setTextColor(60);
-        doc.text(`Signed by: ${agreement.tenant_name}`, 25, yPosition);
-        yPosition += 5;
-        doc.text(`Date: ${this.formatDate(agreement.tenant_signed_at)}`, 25, yPosition);
-        yPosition += 10;
-      }
-    }
-
-    const filename = `lease-agreement-${agreement.tenant_name.replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.pdf`;
-    const blob = doc.output('blob');
-    this.downloadPDF(blob, filename);
+    return yPosition;
   },
 
   formatDate(dateString: string): string {
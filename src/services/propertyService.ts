@@ -99,6 +99,7 @@ export const propertyService = {
         purchase_date: property.purchase_date,
         current_value_cents: property.current_value_cents,
         notes: property.notes,
+        currency_code: property.currency_code || null,
         created_by: user?.id,
       })
       .select()
@@ -135,6 +136,7 @@ export const propertyService = {
     if (updates.purchase_date !== undefined) updateData.purchase_date = updates.purchase_date;
     if (updates.current_value_cents !== undefined) updateData.current_value_cents = updates.current_value_cents;
     if (updates.notes !== undefined) updateData.notes = updates.notes;
+    if (updates.currency_code !== undefined) updateData.currency_code = updates.currency_code;
 
     // Public page settings
     if (updates.public_page_enabled !== undefined) updateData.public_page_enabled = updates.public_page_enabled;
@@ -0,0 +1,246 @@
+import { supabase } from '../lib/supabase';
+import {
+  Lease,
+  LeaseRecurringCharge,
+  LeaseRecurringChargeType,
+  LeaseRentChange,
+  PaymentSchedule,
+} from '../types';
+
+export const RECURRING_CHARGE_TYPE_LABELS: Record<LeaseRecurringChargeType, string> = {
+  parking: 'Parking',
+  storage: 'Storage',
+  utilities: 'Utilities',
+  pet_rent: 'Pet Rent',
+  other: 'Other',
+};
+
+export interface RecurringChargeInput {
+  businessId: string;
+  leaseId: string;
+  chargeType: LeaseRecurringChargeType;
+  description: string;
+  amountCents: number;
+  startDate: string;
+  endDate?: string;
+}
+
+export interface RentChangeInput {
+  businessId: string;
+  leaseId: string;
+  effectiveDate: string;
+  monthlyRentCents: number;
+  reason?: string;
+}
+
+/**
+ * Recurring charge engine. Schedules are generated in the database
+ * (generate_lease_schedule) so the daily automation run and the app share
+ * one implementation; editing a lease's terms, charges or rent changes
+ * regenerates its future unpaid rows through triggers.
+ */
+export const recurringChargeService = {
+  // ========================================
+  // Schedule
+  // ========================================
+
+  /**
+   * Switch a lease to a generated schedule, or back to hand-entered rows.
+   * Switching off removes future unpaid generated rows.
+   */
+  async setAutoGenerate(leaseId: string, enabled: boolean): Promise<Lease> {
+    const { data, error } = await supabase
+      .from('leases')
+      .update({ auto_generate_schedule: enabled })
+      .eq('id', leaseId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Regenerate a lease's future schedule now; returns the rows written
+   */
+  async regenerateSchedule(leaseId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('generate_lease_schedule', {
+      p_lease_id: leaseId,
+    });
+
+    if (error) throw error;
+    return data || 0;
+  },
+
+  /**
+   * Regenerate every generated lease schedule of a business
+   */
+  async regenerateBusinessSchedules(businessId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('generate_lease_schedules_for_business', {
+      p_business_id: businessId,
+    });
+
+    if (error) throw error;
+    return data || 0;
+  },
+
+  /**
+   * Schedule rows due from a date on, rent before other charges each period
+   */
+  async getUpcomingSchedule(leaseId: string, fromDate: string, limit = 24): Promise<PaymentSchedule[]> {
+    const { data, error } = await supabase
+      .from('payment_schedules')
+      .select('*')
+      .eq('lease_id', leaseId)
+      .gte('payment_date', fromDate)
+      .order('payment_date', { ascending: true })
+      .order('recurring_charge_id', { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // ========================================
+  // Recurring Charges
+  // ========================================
+
+  /**
+   * Get a lease's additional recurring charges
+   */
+  async getCharges(leaseId: string): Promise<LeaseRecurringCharge[]> {
+    const { data, error } = await supabase
+      .from('lease_recurring_charges')
+      .select('*')
+      .eq('lease_id', leaseId)
+      .order('start_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Add a monthly charge billed with rent
+   */
+  async addCharge(input: RecurringChargeInput, userId: string): Promise<LeaseRecurringCharge> {
+    if (input.amountCents <= 0) {
+      throw new Error('The amount must be greater than zero');
+    }
+
+    if (input.endDate && input.endDate < input.startDate) {
+      throw new Error('The end date must be on or after the start date');
+    }
+
+    const { data, error } = await supabase
+      .from('lease_recurring_charges')
+      .insert({
+        business_id: input.businessId,
+        lease_id: input.leaseId,
+        charge_type: input.chargeType,
+        description: input.description.trim() || RECURRING_CHARGE_TYPE_LABELS[input.chargeType],
+        amount_cents: input.amountCents,
+        start_date: input.startDate,
+        end_date: input.endDate || null,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Stop a charge after a date. Rows already billed are kept.
+   */
+  async endCharge(chargeId: string, endDate: string): Promise<LeaseRecurringCharge> {
+    const { data, error } = await supabase
+      .from('lease_recurring_charges')
+      .update({ end_date: endDate, updated_at: new Date().toISOString() })
+      .eq('id', chargeId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a charge. Its future unpaid rows are removed; billed rows stay.
+   */
+  async deleteCharge(chargeId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lease_recurring_charges')
+      .delete()
+      .eq('id', chargeId);
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // Rent Changes
+  // ========================================
+
+  /**
+   * Get a lease's rent changes, earliest first
+   */
+  async getRentChanges(leaseId: string): Promise<LeaseRentChange[]> {
+    const { data, error } = await supabase
+      .from('lease_rent_changes')
+      .select('*')
+      .eq('lease_id', leaseId)
+      .order('effective_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Change the rent from an effective date. Rows already due before today
+   * are not rebilled.
+   */
+  async addRentChange(input: RentChangeInput, userId: string): Promise<LeaseRentChange> {
+    if (input.monthlyRentCents < 0) {
+      throw new Error('Rent cannot be negative');
+    }
+
+    const { data: existing } = await supabase
+      .from('lease_rent_changes')
+      .select('id')
+      .eq('lease_id', input.leaseId)
+      .eq('effective_date', input.effectiveDate)
+      .maybeSingle();
+
+    if (existing) {
+      throw new Error('This lease already has a rent change on that date');
+    }
+
+    const { data, error } = await supabase
+      .from('lease_rent_changes')
+      .insert({
+        business_id: input.businessId,
+        lease_id: input.leaseId,
+        effective_date: input.effectiveDate,
+        monthly_rent_cents: input.monthlyRentCents,
+        reason: input.reason || null,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a rent change
+   */
+  async deleteRentChange(rentChangeId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lease_rent_changes')
+      .delete()
+      .eq('id', rentChangeId);
+
+    if (error) throw error;
+  },
+};
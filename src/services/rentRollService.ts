@@ -0,0 +1,440 @@
+import { supabase } from '../lib/supabase';
+import {
+  Lease,
+  RentRoll,
+  RentRollRow,
+  RentRollSnapshot,
+  RentRollSummary,
+} from '../types';
+import { dataExportService, ExportColumn, ExportFormat } from './dataExportService';
+
+export interface RentRollOptions {
+  asOfDate: string;
+  propertyId?: string;
+}
+
+// Leases that put a tenant in the unit; drafts and unsigned leases never did
+const OCCUPYING_LEASE_STATUSES = ['active', 'expired', 'terminated', 'renewed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0]!;
+};
+
+const sumBy = <T>(items: T[], value: (item: T) => number) =>
+  items.reduce((sum, item) => sum + value(item), 0);
+
+type RentRollLease = Pick<Lease, 'id' | 'unit_id' | 'start_date' | 'end_date' | 'monthly_rent_cents' | 'status'>;
+
+/**
+ * A lease is in effect from its start date through its end date. An active
+ * lease past its end date is a holdover and stays in effect.
+ */
+const isLeaseInEffect = (lease: RentRollLease, asOfDate: string) =>
+  lease.start_date <= asOfDate
+  && (!lease.end_date || lease.end_date >= asOfDate || lease.status === 'active');
+
+/**
+ * The primary tenant living in the unit on the as-of date, judged by move-in
+ * and move-out dates; falls back to the tenant whose lease dates match.
+ */
+function findTenant(tenants: any[], lease: RentRollLease, asOfDate: string): any | null {
+  const primary = tenants.filter(t => t.unit_id === lease.unit_id && t.tenant_type === 'primary');
+
+  const inResidence = primary.find(t => {
+    const movedIn = t.move_in_date || t.lease_start_date;
+    return movedIn && movedIn <= asOfDate && (!t.move_out_date || t.move_out_date >= asOfDate);
+  });
+
+  return inResidence
+    || primary.find(t => t.lease_start_date === lease.start_date)
+    || primary.find(t => t.is_active)
+    || null;
+}
+
+function summarize(rows: RentRollRow[]): RentRollSummary {
+  const occupied = rows.filter(r => r.occupancy === 'occupied');
+  const vacant = rows.filter(r => r.occupancy === 'vacant');
+
+  return {
+    total_units: rows.length,
+    occupied_units: occupied.length,
+    vacant_units: vacant.length,
+    occupancy_rate: rows.length > 0 ? Math.round((occupied.length / rows.length) * 1000) / 10 : 0,
+    total_market_rent_cents: sumBy(rows, r => r.market_rent_cents),
+    total_lease_rent_cents: sumBy(occupied, r => r.lease_rent_cents),
+    loss_to_lease_cents: sumBy(occupied, r => Math.max(0, r.market_rent_cents - r.lease_rent_cents)),
+    vacancy_loss_cents: sumBy(vacant, r => r.market_rent_cents),
+    total_deposits_held_cents: sumBy(rows, r => r.deposits_held_cents),
+    total_balance_owed_cents: sumBy(rows, r => r.balance_owed_cents),
+  };
+}
+
+const formatAmount = (cents: number | null | undefined) =>
+  cents == null ? '' : (cents / 100).toFixed(2);
+
+// Every column is formatted explicitly: the default formatter would read a
+// unit number such as "101" as a date
+export const RENT_ROLL_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'property_name', label: 'Property', format: v => v || '' },
+  { key: 'unit_number', label: 'Unit', format: v => v || '' },
+  { key: 'bedrooms', label: 'Beds', format: v => (v == null ? '' : String(v)) },
+  { key: 'square_feet', label: 'Sq Ft', format: v => (v == null ? '' : String(v)) },
+  { key: 'occupancy', label: 'Status', format: v => (v === 'occupied' ? 'Occupied' : v === 'vacant' ? 'Vacant' : '') },
+  { key: 'tenant_name', label: 'Tenant', format: v => v || '' },
+  { key: 'lease_start_date', label: 'Lease Start', format: v => v || '' },
+  { key: 'lease_end_date', label: 'Lease End', format: v => v || '' },
+  { key: 'market_rent_cents', label: 'Market Rent', format: formatAmount },
+  { key: 'lease_rent_cents', label: 'Lease Rent', format: formatAmount },
+  { key: 'deposits_held_cents', label: 'Deposits Held', format: formatAmount },
+  { key: 'balance_owed_cents', label: 'Balance Owed', format: formatAmount },
+  { key: 'days_vacant', label: 'Days Vacant', format: v => (v == null ? '' : String(v)) },
+];
+
+export const rentRollService = {
+  // ========================================
+  // Rent Roll
+  // ========================================
+
+  /**
+   * Build the rent roll for a business (or one property) as of a date.
+   * Lease, tenant, balance and deposit figures are reconstructed from dated
+   * records; market rent is the unit's current asking rent.
+   */
+  async generateRentRoll(businessId: string, options: RentRollOptions): Promise<RentRoll> {
+    const { asOfDate, propertyId } = options;
+
+    let propertyQuery = supabase
+      .from('properties')
+      .select('id, name')
+      .eq('business_id', businessId);
+
+    if (propertyId) {
+      propertyQuery = propertyQuery.eq('id', propertyId);
+    }
+
+    const { data: properties, error: propertyError } = await propertyQuery;
+    if (propertyError) throw propertyError;
+
+    const propertyNames = new Map<string, string>((properties || []).map(p => [p.id, p.name]));
+    const rentRoll: RentRoll = {
+      business_id: businessId,
+      property_id: propertyId,
+      property_name: propertyId ? propertyNames.get(propertyId) : undefined,
+      as_of_date: asOfDate,
+      rows: [],
+      summary: summarize([]),
+      generated_at: new Date().toISOString(),
+    };
+
+    if (propertyNames.size === 0) return rentRoll;
+
+    // Units added after the as-of date were not part of the rent roll then
+    const { data: units, error: unitError } = await supabase
+      .from('units')
+      .select('id, property_id, unit_number, bedrooms, bathrooms, square_feet, monthly_rent_cents, created_at')
+      .in('property_id', [...propertyNames.keys()])
+      .eq('is_active', true)
+      .lte('created_at', `${asOfDate}T23:59:59.999Z`);
+
+    if (unitError) throw unitError;
+    if (!units || units.length === 0) return rentRoll;
+
+    const unitIds = units.map(u => u.id);
+    const [leaseResult, tenantResult] = await Promise.all([
+      supabase
+        .from('leases')
+        .select('id, unit_id, start_date, end_date, monthly_rent_cents, status')
+        .in('unit_id', unitIds)
+        .in('status', OCCUPYING_LEASE_STATUSES)
+        .lte('start_date', asOfDate),
+      supabase
+        .from('tenants')
+        .select('id, unit_id, first_name, last_name, tenant_type, move_in_date, move_out_date, lease_start_date, security_deposit_paid_cents, is_active')
+        .in('unit_id', unitIds),
+    ]);
+
+    if (leaseResult.error) throw leaseResult.error;
+    if (tenantResult.error) throw tenantResult.error;
+
+    const leases: RentRollLease[] = leaseResult.data || [];
+    const tenants = tenantResult.data || [];
+
+    // The most recent lease in effect for each unit
+    const currentLeases = new Map<string, RentRollLease>();
+    for (const lease of leases.filter(l => isLeaseInEffect(l, asOfDate))) {
+      const existing = currentLeases.get(lease.unit_id);
+      if (!existing || lease.start_date > existing.start_date) {
+        currentLeases.set(lease.unit_id, lease);
+      }
+    }
+
+    const leaseIds = [...currentLeases.values()].map(l => l.id);
+    const balances = await this.getBalancesOwed(leaseIds, asOfDate);
+    const deposits = await this.getDepositsHeld(leaseIds, asOfDate);
+
+    const rows: RentRollRow[] = units.map(unit => {
+      const base = {
+        unit_id: unit.id,
+        property_id: unit.property_id,
+        property_name: propertyNames.get(unit.property_id) || '',
+        unit_number: unit.unit_number,
+        bedrooms: unit.bedrooms ?? undefined,
+        bathrooms: unit.bathrooms ?? undefined,
+        square_feet: unit.square_feet ?? undefined,
+        market_rent_cents: unit.monthly_rent_cents || 0,
+      };
+
+      const lease = currentLeases.get(unit.id);
+      if (!lease) {
+        // Vacant since the last lease ended, or since the unit was added
+        const lastEnd = leases
+          .filter(l => l.unit_id === unit.id && l.end_date && l.end_date < asOfDate)
+          .reduce<string | null>((latest, l) => (!latest || l.end_date! > latest ? l.end_date! : latest), null);
+        const vacantFrom = lastEnd ? addDays(lastEnd, 1) : String(unit.created_at).split('T')[0]!;
+
+        return {
+          ...base,
+          occupancy: 'vacant',
+          is_holdover: false,
+          lease_rent_cents: 0,
+          deposits_held_cents: 0,
+          balance_owed_cents: 0,
+          days_vacant: Math.max(0, daysBetween(vacantFrom, asOfDate)),
+        };
+      }
+
+      const tenant = findTenant(tenants, lease, asOfDate);
+      return {
+        ...base,
+        occupancy: 'occupied',
+        tenant_id: tenant?.id,
+        tenant_name: tenant ? `${tenant.first_name} ${tenant.last_name}` : undefined,
+        lease_id: lease.id,
+        lease_start_date: lease.start_date,
+        lease_end_date: lease.end_date || undefined,
+        is_holdover: !!lease.end_date && lease.end_date < asOfDate,
+        lease_rent_cents: lease.monthly_rent_cents || 0,
+        deposits_held_cents: deposits.get(lease.id) ?? (tenant?.security_deposit_paid_cents || 0),
+        balance_owed_cents: balances.get(lease.id) || 0,
+      };
+    });
+
+    rows.sort((a, b) =>
+      a.property_name.localeCompare(b.property_name)
+      || a.unit_number.localeCompare(b.unit_number, undefined, { numeric: true })
+    );
+
+    return { ...rentRoll, rows, summary: summarize(rows) };
+  },
+
+  /**
+   * Amount owed on each lease as of a date: scheduled rent due and late fees
+   * assessed by then, less rent and late fee payments received by then.
+   * Waived late fees are left out.
+   */
+  async getBalancesOwed(leaseIds: string[], asOfDate: string): Promise<Map<string, number>> {
+    const balances = new Map<string, number>();
+    if (leaseIds.length === 0) return balances;
+
+    const [schedules, lateFees, payments] = await Promise.all([
+      supabase
+        .from('payment_schedules')
+        .select('lease_id, due_amount')
+        .in('lease_id', leaseIds)
+        .lte('payment_date', asOfDate),
+      supabase
+        .from('late_fees')
+        .select('lease_id, late_fee_cents')
+        .in('lease_id', leaseIds)
+        .neq('status', 'waived')
+        .lte('assessed_date', asOfDate),
+      supabase
+        .from('rent_payments')
+        .select('lease_id, amount_cents')
+        .in('lease_id', leaseIds)
+        .in('payment_type', ['rent', 'late_fee'])
+        .in('status', ['paid', 'partial'])
+        .lte('payment_date', asOfDate),
+    ]);
+
+    if (schedules.error) throw schedules.error;
+    if (lateFees.error) throw lateFees.error;
+    if (payments.error) throw payments.error;
+
+    const add = (leaseId: string, cents: number) =>
+      balances.set(leaseId, (balances.get(leaseId) || 0) + cents);
+
+    // payment_schedules amounts are in dollars
+    for (const s of schedules.data || []) add(s.lease_id, Math.round(Number(s.due_amount) * 100));
+    for (const f of lateFees.data || []) add(f.lease_id, Number(f.late_fee_cents));
+    for (const p of payments.data || []) add(p.lease_id, -Number(p.amount_cents));
+
+    return balances;
+  },
+
+  /**
+   * Deposit balance held for each lease as of a date, from the deposit
+   * ledger. Leases without a deposit ledger are absent from the map.
+   */
+  async getDepositsHeld(leaseIds: string[], asOfDate: string): Promise<Map<string, number>> {
+    const held = new Map<string, number>();
+    if (leaseIds.length === 0) return held;
+
+    const { data: deposits, error } = await supabase
+      .from('lease_deposits')
+      .select('id, lease_id')
+      .in('lease_id', leaseIds);
+
+    if (error) throw error;
+    if (!deposits || deposits.length === 0) return held;
+
+    const { data: transactions, error: txError } = await supabase
+      .from('lease_deposit_transactions')
+      .select('deposit_id, transaction_type, amount_cents')
+      .in('deposit_id', deposits.map(d => d.id))
+      .lte('transaction_date', asOfDate);
+
+    if (txError) throw txError;
+
+    const leaseByDeposit = new Map<string, string>(deposits.map(d => [d.id, d.lease_id]));
+    for (const deposit of deposits) held.set(deposit.lease_id, held.get(deposit.lease_id) || 0);
+
+    for (const t of transactions || []) {
+      const leaseId = leaseByDeposit.get(t.deposit_id)!;
+      const sign = t.transaction_type === 'receipt' || t.transaction_type === 'interest' ? 1 : -1;
+      held.set(leaseId, (held.get(leaseId) || 0) + sign * Number(t.amount_cents));
+    }
+
+    return held;
+  },
+
+  // ========================================
+  // Snapshots
+  // ========================================
+
+  /**
+   * Save a rent roll exactly as generated
+   */
+  async saveSnapshot(
+    rentRoll: RentRoll,
+    userId: string,
+    options?: { notes?: string; sharedWithOwners?: boolean }
+  ): Promise<RentRollSnapshot> {
+    const { data, error } = await supabase
+      .from('rent_roll_snapshots')
+      .insert({
+        business_id: rentRoll.business_id,
+        property_id: rentRoll.property_id || null,
+        as_of_date: rentRoll.as_of_date,
+        rows: rentRoll.rows,
+        summary: rentRoll.summary,
+        notes: options?.notes || null,
+        shared_with_owners: options?.sharedWithOwners ?? false,
+        created_by: userId,
+      })
+      .select('*, property:properties(id, name)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Get saved snapshots, newest as-of date first. For a property owner, RLS
+   * returns only the snapshots shared with owners.
+   */
+  async getSnapshots(businessId: string, filters?: { propertyId?: string; sharedOnly?: boolean }): Promise<RentRollSnapshot[]> {
+    let query = supabase
+      .from('rent_roll_snapshots')
+      .select('*, property:properties(id, name)')
+      .eq('business_id', businessId);
+
+    if (filters?.propertyId) {
+      query = query.eq('property_id', filters.propertyId);
+    }
+
+    if (filters?.sharedOnly) {
+      query = query.eq('shared_with_owners', true);
+    }
+
+    const { data, error } = await query
+      .order('as_of_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Share or unshare a snapshot with the business's property owners
+   */
+  async setSnapshotShared(snapshotId: string, shared: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('rent_roll_snapshots')
+      .update({ shared_with_owners: shared })
+      .eq('id', snapshotId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Delete a snapshot
+   */
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    const { error } = await supabase
+      .from('rent_roll_snapshots')
+      .delete()
+      .eq('id', snapshotId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Rebuild a rent roll from a snapshot, for display and export
+   */
+  fromSnapshot(snapshot: RentRollSnapshot): RentRoll {
+    return {
+      business_id: snapshot.business_id,
+      property_id: snapshot.property_id,
+      property_name: snapshot.property?.name,
+      as_of_date: snapshot.as_of_date,
+      rows: snapshot.rows,
+      summary: snapshot.summary,
+      generated_at: snapshot.created_at,
+    };
+  },
+
+  // ========================================
+  // Export
+  // ========================================
+
+  /**
+   * Export a rent roll as CSV, Excel CSV or PDF, with a totals row
+   */
+  exportRentRoll(rentRoll: RentRoll, format: ExportFormat, businessName: string): void {
+    const { summary } = rentRoll;
+    const totals = {
+      property_name: 'Total',
+      unit_number: `${summary.total_units} units`,
+      occupancy: '',
+      tenant_name: `${summary.occupied_units} occupied (${summary.occupancy_rate}%)`,
+      market_rent_cents: summary.total_market_rent_cents,
+      lease_rent_cents: summary.total_lease_rent_cents,
+      deposits_held_cents: summary.total_deposits_held_cents,
+      balance_owed_cents: summary.total_balance_owed_cents,
+    };
+
+    dataExportService.export([...rentRoll.rows, totals], RENT_ROLL_EXPORT_COLUMNS, {
+      filename: `Rent Roll - ${rentRoll.property_name || businessName} - ${rentRoll.as_of_date}`,
+      format,
+      orientation: 'landscape',
+    });
+  },
+};
@@ -0,0 +1,831 @@
+import { supabase } from '../lib/supabase';
+import {
+  AccountingMethod,
+  DepositDeductionCategory,
+  LeaseDeposit,
+  LeaseDepositStatus,
+  LeaseDepositTransaction,
+  GLJournal,
+} from '../types';
+import { journalService, JournalEntryInput } from './journalService';
+import { glAccountService } from './glAccountService';
+import { fiscalPeriodService } from './fiscalPeriodService';
+import { pdfGenerationService } from './pdfGenerationService';
+import {
+  GL_ACCOUNTS,
+  DEPOSIT_LIABILITY_ACCOUNTS,
+  DEPOSIT_INTEREST_EXPENSE_ACCOUNT,
+  DEPOSIT_DEDUCTION_MAPPINGS,
+} from '../config/glAccountMappings';
+import {
+  calculateDepositInterest,
+  getDepositInterestRule,
+  DepositInterestResult,
+} from '../utils/depositInterest';
+
+export interface DepositReceiptInput {
+  amountCents: number;
+  receivedDate: string;
+  paymentMethod?: string;
+  reference?: string;
+  rentPaymentId?: string;
+}
+
+export interface DepositDeductionInput {
+  category: DepositDeductionCategory;
+  description: string;
+  amountCents: number;
+  lateFeeId?: string;
+  paymentScheduleId?: string;
+  inspectionItemId?: string;
+}
+
+export interface DepositDispositionInput {
+  moveOutDate: string;
+  deductions: DepositDeductionInput[];
+  refundMethod?: string;
+  refundReference?: string;
+  notes?: string;
+}
+
+export interface DepositInterestCalculation extends DepositInterestResult {
+  fromDate: string;
+  toDate: string;
+  ruleLabel: string;
+  applies: boolean;
+}
+
+export interface DepositStatement {
+  deposit: LeaseDeposit;
+  transactions: LeaseDepositTransaction[];
+  tenantName: string;
+  unitLabel: string;
+  receivedCents: number;
+  interestCents: number;
+  deductions: LeaseDepositTransaction[];
+  deductionsCents: number;
+  refundCents: number;
+}
+
+export const DEPOSIT_DEDUCTION_LABELS: Record<DepositDeductionCategory, string> = {
+  damage: 'Damage',
+  cleaning: 'Cleaning',
+  unpaid_rent: 'Unpaid rent',
+  late_fee: 'Late fee',
+  utilities: 'Utilities',
+  other: 'Other',
+};
+
+const DEPOSIT_SELECT = `
+  *,
+  lease:leases(id, start_date, end_date, status),
+  unit:units(id, unit_number, property:properties(id, name, state)),
+  tenant:tenants(id, first_name, last_name, email)
+`;
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const tenantName = (deposit: LeaseDeposit) =>
+  deposit.tenant ? `${deposit.tenant.first_name} ${deposit.tenant.last_name}`.trim() : '';
+
+const unitLabel = (deposit: LeaseDeposit) =>
+  [deposit.unit?.property?.name, deposit.unit?.unit_number ? `Unit ${deposit.unit.unit_number}` : '']
+    .filter(Boolean)
+    .join(' - ');
+
+/**
+ * Signed effect of a transaction on the deposit balance
+ */
+const balanceEffect = (t: Pick<LeaseDepositTransaction, 'transaction_type' | 'amount_cents'>) =>
+  t.transaction_type === 'receipt' || t.transaction_type === 'interest' ? t.amount_cents : -t.amount_cents;
+
+/**
+ * Whether deposit journals should be posted for a business, and its accounting method
+ */
+async function getPostingSettings(businessId: string): Promise<{ post: boolean; method: AccountingMethod }> {
+  const settings = await glAccountService.getAccountingSettings(businessId);
+  const hasAccounts = settings ? await glAccountService.hasChartOfAccounts(businessId) : false;
+  return {
+    post: !!settings?.auto_post_security_deposits && hasAccounts,
+    method: settings?.accounting_method || 'cash',
+  };
+}
+
+/**
+ * Resolve GL account numbers to IDs, failing with the missing numbers
+ */
+async function resolveAccounts(businessId: string, numbers: string[]): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  const missing: string[] = [];
+
+  for (const number of new Set(numbers)) {
+    const account = await glAccountService.getAccountByNumber(businessId, number);
+    if (account) ids.set(number, account.id);
+    else missing.push(number);
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`GL accounts not found. Ensure chart of accounts is initialized. Missing: ${missing.join(', ')}`);
+  }
+
+  return ids;
+}
+
+export const securityDepositService = {
+  // ========================================
+  // Deposits
+  // ========================================
+
+  /**
+   * Get deposits for a business with lease, unit and tenant details
+   */
+  async getDeposits(businessId: string, status?: LeaseDepositStatus): Promise<LeaseDeposit[]> {
+    let query = supabase
+      .from('lease_deposits')
+      .select(DEPOSIT_SELECT)
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Get a single deposit
+   */
+  async getDeposit(depositId: string): Promise<LeaseDeposit | null> {
+    const { data, error } = await supabase
+      .from('lease_deposits')
+      .select(DEPOSIT_SELECT)
+      .eq('id', depositId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Get the ledger of a deposit, oldest first
+   */
+  async getTransactions(depositId: string): Promise<LeaseDepositTransaction[]> {
+    const { data, error } = await supabase
+      .from('lease_deposit_transactions')
+      .select('*')
+      .eq('deposit_id', depositId)
+      .order('transaction_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Create deposit records for active leases that require a security or pet
+   * deposit and do not have one yet. Returns the number created.
+   */
+  async syncLeaseDeposits(businessId: string, userId: string): Promise<number> {
+    const { data: leases, error } = await supabase
+      .from('leases')
+      .select('id, unit_id, security_deposit_cents, pet_deposit_cents, unit:units!inner(id, property:properties!inner(business_id, state))')
+      .eq('unit.property.business_id', businessId)
+      .in('status', ['active', 'pending_signature']);
+
+    if (error) throw error;
+    if (!leases || leases.length === 0) return 0;
+
+    const settings = await glAccountService.getAccountingSettings(businessId);
+
+    const { data: tenants } = await supabase
+      .from('tenants')
+      .select('id, unit_id')
+      .in('unit_id', leases.map((l: any) => l.unit_id))
+      .eq('tenant_type', 'primary')
+      .eq('is_active', true);
+
+    const rows: any[] = [];
+    for (const lease of leases as any[]) {
+      const state = (lease.unit?.property?.state || '').trim().toUpperCase();
+      const base = {
+        business_id: businessId,
+        lease_id: lease.id,
+        unit_id: lease.unit_id,
+        tenant_id: tenants?.find(t => t.unit_id === lease.unit_id)?.id || null,
+        currency_code: settings?.base_currency || 'CAD',
+        jurisdiction: settings?.tax_jurisdiction || null,
+        region_code: state.length === 2 ? state : settings?.tax_region_code || null,
+        created_by: userId,
+      };
+
+      if (lease.security_deposit_cents > 0) {
+        rows.push({ ...base, deposit_type: 'security', required_cents: lease.security_deposit_cents });
+      }
+      if (lease.pet_deposit_cents > 0) {
+        rows.push({ ...base, deposit_type: 'pet', required_cents: lease.pet_deposit_cents });
+      }
+    }
+
+    if (rows.length === 0) return 0;
+
+    const { data: created, error: insertError } = await supabase
+      .from('lease_deposits')
+      .upsert(rows, { onConflict: 'lease_id,deposit_type', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) throw insertError;
+    return created?.length || 0;
+  },
+
+  // ========================================
+  // Receipts
+  // ========================================
+
+  /**
+   * Record a deposit received from the tenant and hold it in trust
+   * (Dr security deposit bank, Cr deposit liability). A receipt collected
+   * as a rent payment reuses the journal already posted for that payment.
+   */
+  async recordReceipt(
+    businessId: string,
+    userId: string,
+    deposit: LeaseDeposit,
+    receipt: DepositReceiptInput
+  ): Promise<LeaseDepositTransaction> {
+    if (receipt.amountCents <= 0) {
+      throw new Error('Receipt amount must be greater than zero');
+    }
+
+    let journalId: string | null = null;
+    if (receipt.rentPaymentId) {
+      journalId = (await journalService.getJournalBySource(businessId, 'rent_payment', receipt.rentPaymentId))?.id || null;
+    }
+
+    const { post } = await getPostingSettings(businessId);
+    if (!journalId && post) {
+      await fiscalPeriodService.validatePostingDate(businessId, receipt.receivedDate);
+      const liability = DEPOSIT_LIABILITY_ACCOUNTS[deposit.deposit_type];
+      const accounts = await resolveAccounts(businessId, [GL_ACCOUNTS.SECURITY_DEPOSIT_BANK, liability]);
+      const description = `${deposit.deposit_type === 'pet' ? 'Pet' : 'Security'} deposit received - ${tenantName(deposit)} - ${unitLabel(deposit)}`;
+
+      const journal = await journalService.createJournal(businessId, userId, {
+        journalDate: receipt.receivedDate,
+        journalType: 'cash_receipts',
+        sourceType: 'security_deposit',
+        sourceId: deposit.id,
+        transactionCurrency: deposit.currency_code,
+        memo: description,
+        reference: receipt.reference,
+        entries: [
+          {
+            accountId: accounts.get(GL_ACCOUNTS.SECURITY_DEPOSIT_BANK)!,
+            debitCents: receipt.amountCents,
+            unitId: deposit.unit_id,
+            tenantId: deposit.tenant_id,
+            description,
+          },
+          {
+            accountId: accounts.get(liability)!,
+            creditCents: receipt.amountCents,
+            unitId: deposit.unit_id,
+            tenantId: deposit.tenant_id,
+            description,
+          },
+        ],
+        autoPost: true,
+      });
+      journalId = journal.id;
+    }
+
+    const { data, error } = await supabase
+      .from('lease_deposit_transactions')
+      .insert({
+        deposit_id: deposit.id,
+        business_id: businessId,
+        transaction_type: 'receipt',
+        amount_cents: receipt.amountCents,
+        transaction_date: receipt.receivedDate,
+        description: 'Deposit received',
+        payment_method: receipt.paymentMethod || null,
+        reference: receipt.reference || null,
+        rent_payment_id: receipt.rentPaymentId || null,
+        gl_journal_id: journalId,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Keep the tenant's paid deposit figure in step with the ledger
+    if (deposit.deposit_type === 'security' && deposit.tenant_id) {
+      const { data: tenant } = await supabase
+        .from('tenants')
+        .select('security_deposit_paid_cents')
+        .eq('id', deposit.tenant_id)
+        .maybeSingle();
+
+      if (tenant) {
+        await supabase
+          .from('tenants')
+          .update({ security_deposit_paid_cents: (tenant.security_deposit_paid_cents || 0) + receipt.amountCents })
+          .eq('id', deposit.tenant_id);
+      }
+    }
+
+    return data;
+  },
+
+  /**
+   * Get paid deposit payments on the deposit's lease that have not been
+   * recorded in the deposit ledger yet
+   */
+  async getUnrecordedDepositPayments(deposit: LeaseDeposit): Promise<any[]> {
+    const { data: payments, error } = await supabase
+      .from('rent_payments')
+      .select('id, amount_cents, payment_date, payment_method, payment_reference')
+      .eq('lease_id', deposit.lease_id)
+      .eq('payment_type', deposit.deposit_type === 'pet' ? 'pet_deposit' : 'security_deposit')
+      .eq('status', 'paid');
+
+    if (error) throw error;
+    if (!payments || payments.length === 0) return [];
+
+    const { data: recorded } = await supabase
+      .from('lease_deposit_transactions')
+      .select('rent_payment_id')
+      .in('rent_payment_id', payments.map(p => p.id));
+
+    const recordedIds = new Set((recorded || []).map(r => r.rent_payment_id));
+    return payments.filter(p => !recordedIds.has(p.id));
+  },
+
+  // ========================================
+  // Interest
+  // ========================================
+
+  /**
+   * Get deposit interest rates by year for a jurisdiction and region.
+   * Rates entered by the business override statutory rates.
+   */
+  async getInterestRates(businessId: string, jurisdiction: string, regionCode: string): Promise<Map<number, number>> {
+    const { data, error } = await supabase
+      .from('deposit_interest_rates')
+      .select('business_id, effective_year, rate_percent')
+      .or(`business_id.is.null,business_id.eq.${businessId}`)
+      .eq('jurisdiction', jurisdiction)
+      .eq('region_code', regionCode);
+
+    if (error) throw error;
+
+    const rates = new Map<number, number>();
+    for (const row of (data || []).sort((a, b) => (a.business_id ? 1 : 0) - (b.business_id ? 1 : 0))) {
+      rates.set(row.effective_year, Number(row.rate_percent));
+    }
+    return rates;
+  },
+
+  /**
+   * Calculate interest owed on a deposit from where it was last accrued to throughDate
+   */
+  async calculateInterest(deposit: LeaseDeposit, throughDate: string): Promise<DepositInterestCalculation> {
+    const transactions = await this.getTransactions(deposit.id);
+    const receipts = transactions.filter(t => t.transaction_type === 'receipt');
+    const { rule, isStatutory } = getDepositInterestRule(deposit.jurisdiction, deposit.region_code);
+    const fromDate = deposit.interest_accrued_through || receipts[0]?.transaction_date || throughDate;
+
+    const empty: DepositInterestCalculation = {
+      interestCents: 0,
+      periods: [],
+      missingYears: [],
+      fromDate,
+      toDate: throughDate,
+      ruleLabel: rule.label,
+      applies: false,
+    };
+
+    if (receipts.length === 0 || !deposit.jurisdiction || throughDate <= fromDate) {
+      return empty;
+    }
+
+    const rates = await this.getInterestRates(deposit.business_id, deposit.jurisdiction, deposit.region_code || '');
+    // Without a statutory rule, interest only applies where the business has entered rates
+    if (!isStatutory && rates.size === 0) {
+      return empty;
+    }
+
+    const result = calculateDepositInterest({
+      method: rule.method,
+      fromDate,
+      toDate: throughDate,
+      anchorDate: receipts[0]!.transaction_date,
+      balanceChanges: transactions.map(t => ({ date: t.transaction_date, amountCents: balanceEffect(t) })),
+      ratesByYear: rates,
+    });
+
+    return { ...result, fromDate, toDate: throughDate, ruleLabel: rule.label, applies: true };
+  },
+
+  /**
+   * Credit interest to a deposit through throughDate
+   * (Dr deposit interest expense, Cr deposit liability)
+   */
+  async accrueInterest(
+    businessId: string,
+    userId: string,
+    deposit: LeaseDeposit,
+    throughDate: string
+  ): Promise<DepositInterestCalculation> {
+    const calculation = await this.calculateInterest(deposit, throughDate);
+    if (!calculation.applies) return calculation;
+
+    if (calculation.interestCents <= 0) {
+      const { error } = await supabase
+        .from('lease_deposits')
+        .update({ interest_accrued_through: throughDate })
+        .eq('id', deposit.id);
+
+      if (error) throw error;
+      return calculation;
+    }
+
+    let journalId: string | null = null;
+    const { post } = await getPostingSettings(businessId);
+    if (post) {
+      await fiscalPeriodService.validatePostingDate(businessId, throughDate);
+      const liability = DEPOSIT_LIABILITY_ACCOUNTS[deposit.deposit_type];
+      const accounts = await resolveAccounts(businessId, [DEPOSIT_INTEREST_EXPENSE_ACCOUNT, liability]);
+      const description = `Deposit interest ${calculation.fromDate} to ${throughDate} - ${tenantName(deposit)} - ${unitLabel(deposit)}`;
+
+      const journal = await journalService.createJournal(businessId, userId, {
+        journalDate: throughDate,
+        journalType: 'general',
+        sourceType: 'interest',
+        sourceId: deposit.id,
+        transactionCurrency: deposit.currency_code,
+        memo: description,
+        entries: [
+          {
+            accountId: accounts.get(DEPOSIT_INTEREST_EXPENSE_ACCOUNT)!,
+            debitCents: calculation.interestCents,
+            unitId: deposit.unit_id,
+            tenantId: deposit.tenant_id,
+            description,
+          },
+          {
+            accountId: accounts.get(liability)!,
+            creditCents: calculation.interestCents,
+            unitId: deposit.unit_id,
+            tenantId: deposit.tenant_id,
+            description,
+          },
+        ],
+        autoPost: true,
+      });
+      journalId = journal.id;
+    }
+
+    const { error } = await supabase.from('lease_deposit_transactions').insert({
+      deposit_id: deposit.id,
+      business_id: businessId,
+      transaction_type: 'interest',
+      amount_cents: calculation.interestCents,
+      transaction_date: throughDate,
+      description: calculation.ruleLabel,
+      interest_from: calculation.fromDate,
+      interest_to: throughDate,
+      interest_details: { periods: calculation.periods, missing_years: calculation.missingYears },
+      gl_journal_id: journalId,
+      created_by: userId,
+    });
+
+    if (error) throw error;
+    return calculation;
+  },
+
+  /**
+   * Credit interest on every held deposit through throughDate
+   */
+  async accrueInterestForBusiness(
+    businessId: string,
+    userId: string,
+    throughDate: string
+  ): Promise<{ accrued: number; totalCents: number; missingRates: string[] }> {
+    const deposits = await this.getDeposits(businessId, 'held');
+    let accrued = 0;
+    let totalCents = 0;
+    const missingRates = new Set<string>();
+
+    for (const deposit of deposits) {
+      const calculation = await this.accrueInterest(businessId, userId, deposit, throughDate);
+      if (calculation.interestCents > 0) {
+        accrued++;
+        totalCents += calculation.interestCents;
+      }
+      for (const year of calculation.missingYears) {
+        missingRates.add(`${deposit.jurisdiction}-${deposit.region_code || ''} ${year}`);
+      }
+    }
+
+    return { accrued, totalCents, missingRates: [...missingRates].sort() };
+  },
+
+  // ========================================
+  // Move-Out Disposition
+  // ========================================
+
+  /**
+   * Suggest deductions at move-out: unpaid late fees and unpaid rent on the
+   * lease, and inspection damage charged to the deposit
+   */
+  async getSuggestedDeductions(deposit: LeaseDeposit, moveOutDate: string): Promise<DepositDeductionInput[]> {
+    const [lateFees, schedules, damage] = await Promise.all([
+      supabase
+        .from('late_fees')
+        .select('id, late_fee_cents, original_due_date')
+        .eq('lease_id', deposit.lease_id)
+        .eq('status', 'unpaid'),
+      supabase
+        .from('payment_schedules')
+        .select('id, payment_date, due_amount, paid_amount')
+        .eq('lease_id', deposit.lease_id)
+        .eq('is_paid', false)
+        .lte('payment_date', moveOutDate),
+      supabase
+        .from('unit_inspection_items')
+        .select('id, room_name, item_name, notes, deposit_charge_cents, inspection:unit_inspections!inner(lease_id)')
+        .eq('inspection.lease_id', deposit.lease_id)
+        .not('deposit_charge_cents', 'is', null),
+    ]);
+
+    if (lateFees.error) throw lateFees.error;
+    if (schedules.error) throw schedules.error;
+    if (damage.error) throw damage.error;
+
+    const suggestions: DepositDeductionInput[] = [];
+
+    for (const schedule of schedules.data || []) {
+      const owingCents = Math.round((Number(schedule.due_amount) - Number(schedule.paid_amount || 0)) * 100);
+      if (owingCents > 0) {
+        suggestions.push({
+          category: 'unpaid_rent',
+          description: `Unpaid rent due ${schedule.payment_date}`,
+          amountCents: owingCents,
+          paymentScheduleId: schedule.id,
+        });
+      }
+    }
+
+    for (const fee of lateFees.data || []) {
+      suggestions.push({
+        category: 'late_fee',
+        description: `Late fee on payment due ${fee.original_due_date}`,
+        amountCents: fee.late_fee_cents,
+        lateFeeId: fee.id,
+      });
+    }
+
+    if (damage.data && damage.data.length > 0) {
+      const { data: deducted } = await supabase
+        .from('lease_deposit_transactions')
+        .select('inspection_item_id')
+        .in('inspection_item_id', damage.data.map(item => item.id));
+
+      const deductedIds = new Set((deducted || []).map(d => d.inspection_item_id));
+      for (const item of damage.data.filter(i => !deductedIds.has(i.id))) {
+        suggestions.push({
+          category: 'damage',
+          description: `${item.room_name}: ${item.item_name}${item.notes ? ` - ${item.notes}` : ''}`,
+          amountCents: item.deposit_charge_cents,
+          inspectionItemId: item.id,
+        });
+      }
+    }
+
+    return suggestions;
+  },
+
+  /**
+   * Dispose of a deposit at move-out: credit interest to the move-out date,
+   * apply itemized deductions and refund the rest. One journal releases the
+   * trust liability: the refund leaves the deposit bank account, deductions
+   * move to the operating account against their income/expense/receivable.
+   */
+  async disposeDeposit(
+    businessId: string,
+    userId: string,
+    deposit: LeaseDeposit,
+    input: DepositDispositionInput
+  ): Promise<LeaseDeposit> {
+    if (deposit.status !== 'held') {
+      throw new Error('Deposit has already been disposed');
+    }
+
+    const deductions = input.deductions.filter(d => d.amountCents > 0);
+    if (deductions.some(d => !d.description.trim())) {
+      throw new Error('Each deduction needs a description');
+    }
+
+    const { post, method } = await getPostingSettings(businessId);
+    if (post) {
+      await fiscalPeriodService.validatePostingDate(businessId, input.moveOutDate);
+    }
+
+    await this.accrueInterest(businessId, userId, deposit, input.moveOutDate);
+    const current = await this.getDeposit(deposit.id);
+    const heldCents = current?.balance_cents || 0;
+
+    const deductionsCents = deductions.reduce((sum, d) => sum + d.amountCents, 0);
+    if (deductionsCents > heldCents) {
+      throw new Error(
+        `Deductions (${(deductionsCents / 100).toFixed(2)}) exceed the deposit held (${(heldCents / 100).toFixed(2)}). Record the balance owing separately.`
+      );
+    }
+    const refundCents = heldCents - deductionsCents;
+
+    let journal: GLJournal | null = null;
+    if (post && heldCents > 0) {
+      const liability = DEPOSIT_LIABILITY_ACCOUNTS[deposit.deposit_type];
+      const deductionAccounts = deductions.map(d => DEPOSIT_DEDUCTION_MAPPINGS[d.category][method]);
+      const accounts = await resolveAccounts(businessId, [
+        liability,
+        GL_ACCOUNTS.SECURITY_DEPOSIT_BANK,
+        GL_ACCOUNTS.OPERATING_BANK,
+        ...deductionAccounts,
+      ]);
+      const memo = `${deposit.deposit_type === 'pet' ? 'Pet' : 'Security'} deposit disposition - ${tenantName(deposit)} - ${unitLabel(deposit)}`;
+      const dimensions = { unitId: deposit.unit_id, tenantId: deposit.tenant_id };
+
+      const entries: JournalEntryInput[] = [
+        { accountId: accounts.get(liability)!, debitCents: heldCents, description: memo, ...dimensions },
+        { accountId: accounts.get(GL_ACCOUNTS.SECURITY_DEPOSIT_BANK)!, creditCents: heldCents, description: memo, ...dimensions },
+      ];
+
+      if (deductionsCents > 0) {
+        entries.push({
+          accountId: accounts.get(GL_ACCOUNTS.OPERATING_BANK)!,
+          debitCents: deductionsCents,
+          description: 'Deposit deductions retained',
+          ...dimensions,
+        });
+        deductions.forEach((d, i) => {
+          entries.push({
+            accountId: accounts.get(deductionAccounts[i]!)!,
+            creditCents: d.amountCents,
+            description: `${DEPOSIT_DEDUCTION_LABELS[d.category]}: ${d.description}`,
+            ...dimensions,
+          });
+        });
+      }
+
+      journal = await journalService.createJournal(businessId, userId, {
+        journalDate: input.moveOutDate,
+        journalType: refundCents > 0 ? 'cash_payments' : 'general',
+        sourceType: 'refund',
+        sourceId: deposit.id,
+        transactionCurrency: deposit.currency_code,
+        memo,
+        reference: input.refundReference,
+        entries,
+        autoPost: true,
+      });
+    }
+
+    const transactions = [
+      ...deductions.map(d => ({
+        deposit_id: deposit.id,
+        business_id: businessId,
+        transaction_type: 'deduction',
+        amount_cents: d.amountCents,
+        transaction_date: input.moveOutDate,
+        description: d.description,
+        deduction_category: d.category,
+        late_fee_id: d.lateFeeId || null,
+        payment_schedule_id: d.paymentScheduleId || null,
+        inspection_item_id: d.inspectionItemId || null,
+        gl_journal_id: journal?.id || null,
+        created_by: userId,
+      })),
+      ...(refundCents > 0
+        ? [{
+            deposit_id: deposit.id,
+            business_id: businessId,
+            transaction_type: 'refund',
+            amount_cents: refundCents,
+            transaction_date: input.moveOutDate,
+            description: 'Deposit refunded to tenant',
+            payment_method: input.refundMethod || null,
+            reference: input.refundReference || null,
+            gl_journal_id: journal?.id || null,
+            created_by: userId,
+          }]
+        : []),
+    ];
+
+    // Inserted one at a time so the balance check sees each preceding row
+    for (const transaction of transactions) {
+      const { error } = await supabase.from('lease_deposit_transactions').insert(transaction);
+      if (error) throw error;
+    }
+
+    // Settle the late fees and rent covered by the deposit
+    for (const d of deductions) {
+      if (d.lateFeeId) {
+        await supabase
+          .from('late_fees')
+          .update({ status: 'paid', paid_date: input.moveOutDate, notes: 'Deducted from deposit' })
+          .eq('id', d.lateFeeId);
+      }
+
+      if (d.paymentScheduleId) {
+        const { data: schedule } = await supabase
+          .from('payment_schedules')
+          .select('due_amount, paid_amount')
+          .eq('id', d.paymentScheduleId)
+          .maybeSingle();
+
+        if (schedule) {
+          const paidAmount = Number(schedule.paid_amount || 0) + d.amountCents / 100;
+          await supabase
+            .from('payment_schedules')
+            .update({
+              paid_amount: paidAmount,
+              is_paid: paidAmount >= Number(schedule.due_amount),
+              paid_date: input.moveOutDate,
+            })
+            .eq('id', d.paymentScheduleId);
+        }
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('lease_deposits')
+      .update({
+        status: 'disposed',
+        move_out_date: input.moveOutDate,
+        deductions_cents: deductionsCents,
+        refund_cents: refundCents,
+        disposition_journal_id: journal?.id || null,
+        disposition_notes: input.notes || null,
+        disposed_by: userId,
+        disposed_at: new Date().toISOString(),
+      })
+      .eq('id', deposit.id)
+      .select(DEPOSIT_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // ========================================
+  // Statements
+  // ========================================
+
+  /**
+   * Build the itemized statement of a deposit
+   */
+  async getStatement(depositId: string): Promise<DepositStatement> {
+    const deposit = await this.getDeposit(depositId);
+    if (!deposit) {
+      throw new Error('Deposit not found');
+    }
+
+    const transactions = await this.getTransactions(depositId);
+    const sum = (type: string) => transactions
+      .filter(t => t.transaction_type === type)
+      .reduce((total, t) => total + t.amount_cents, 0);
+    const deductions = transactions.filter(t => t.transaction_type === 'deduction');
+
+    return {
+      deposit,
+      transactions,
+      tenantName: tenantName(deposit),
+      unitLabel: unitLabel(deposit),
+      receivedCents: sum('receipt'),
+      interestCents: sum('interest'),
+      deductions,
+      deductionsCents: sum('deduction'),
+      refundCents: sum('refund'),
+    };
+  },
+
+  /**
+   * Generate and download the itemized deduction statement PDF
+   */
+  async downloadStatement(depositId: string, businessName: string): Promise<void> {
+    const statement = await this.getStatement(depositId);
+    const blob = await pdfGenerationService.generateDepositStatement(statement, {
+      title: 'Statement of Deposit Disposition',
+      organizationName: businessName,
+      period: statement.deposit.move_out_date ? `Move-out date: ${statement.deposit.move_out_date}` : undefined,
+      generatedDate: today(),
+    });
+
+    const name = statement.tenantName.replace(/\s+/g, '-') || 'tenant';
+    pdfGenerationService.downloadPDF(blob, `deposit-statement-${name}-${statement.deposit.move_out_date || today()}.pdf`);
+  },
+};
@@ -33,6 +33,7 @@ export interface SquarePaymentRequest {
   verification_token?: string;
   tenant_id?: string;
   lease_id?: string;
+  payment_schedule_id?: string;
   payment_type: 'rent' | 'security_deposit' | 'pet_deposit' | 'late_fee' | 'utility' | 'other';
   description?: string;
   idempotency_key: string;
@@ -41,6 +42,7 @@ export interface SquarePaymentRequest {
 export interface SquarePaymentResponse {
   success: boolean;
   payment_id?: string;
+  rent_payment_id?: string; // Recorded server-side by process-square-payment
   receipt_url?: string;
   error?: string;
   error_code?: string;
@@ -168,11 +170,6 @@ export const squarePaymentService = {
         };
       }
 
-      // Record successful payment in database
-      if (data?.success) {
-        await this.recordPaymentTransaction(organizationId, request, data);
-      }
-
       return data as SquarePaymentResponse;
     } catch (error) {
       return {
@@ -182,47 +179,6 @@ export const squarePaymentService = {
     }
   },
 
-  async recordPaymentTransaction(
-    organizationId: string,
-    request: SquarePaymentRequest,
-    response: SquarePaymentResponse
-  ): Promise<void> {
-    try {
-      await supabase.from('payment_transactions').insert({
-        organization_id: organizationId,
-        gateway_name: 'square',
-        transaction_type: 'charge',
-        amount: request.amount_cents,
-        currency: request.currency,
-        status: response.success ? 'completed' : 'failed',
-        external_transaction_id: response.payment_id,
-        gateway_response: {
-          payment_id: response.payment_id,
-          receipt_url: response.receipt_url,
-          payment_type: request.payment_type,
-          tenant_id: request.tenant_id,
-          lease_id: request.lease_id,
-        },
-      });
-
-      // If payment was for rent, update rent_payments table
-      if (response.success && request.tenant_id && request.lease_id) {
-        await supabase.from('rent_payments').insert({
-          lease_id: request.lease_id,
-          tenant_id: request.tenant_id,
-          organization_id: organizationId,
-          amount_cents: request.amount_cents,
-          payment_date: new Date().toISOString(),
-          payment_method: 'square',
-          status: 'paid',
-          notes: `Square Payment: ${response.payment_id}`,
-        });
-      }
-    } catch (error) {
-      // Log but don't fail the payment
-    }
-  },
-
   generateIdempotencyKey(): string {
     return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
   },
@@ -0,0 +1,276 @@
+import { supabase } from '../lib/supabase';
+
+// Stripe.js types (the subset we use)
+declare global {
+  interface Window {
+    Stripe?: (publishableKey: string) => StripeInstance;
+  }
+}
+
+interface StripeInstance {
+  elements: () => StripeElements;
+  createPaymentMethod: (options: { type: 'card'; card: StripeCardElement }) => Promise<{
+    paymentMethod?: { id: string };
+    error?: { message?: string };
+  }>;
+  handleCardAction: (clientSecret: string) => Promise<{
+    paymentIntent?: { id: string; status: string };
+    error?: { message?: string };
+  }>;
+}
+
+interface StripeElements {
+  create: (type: 'card', options?: Record<string, unknown>) => StripeCardElement;
+}
+
+export interface StripeCardElement {
+  mount: (selector: string) => void;
+  destroy: () => void;
+}
+
+export interface StripeConfig {
+  publishable_key: string;
+}
+
+export interface StripePaymentRequest {
+  amount_cents: number;
+  currency: string;
+  payment_method_id?: string;
+  payment_intent_id?: string; // Set when finalizing after 3D Secure
+  tenant_id?: string;
+  lease_id?: string;
+  payment_schedule_id?: string;
+  payment_type: 'rent' | 'security_deposit' | 'pet_deposit' | 'late_fee' | 'utility' | 'other';
+  description?: string;
+  idempotency_key: string;
+}
+
+export interface StripePaymentResponse {
+  success: boolean;
+  status?: string;
+  payment_intent_id?: string;
+  transaction_id?: string;
+  payment_id?: string;
+  requires_action?: boolean;
+  client_secret?: string;
+  error?: string;
+  error_code?: string;
+}
+
+export interface StripeRefundResponse {
+  success: boolean;
+  refund_id?: string;
+  transaction_id?: string;
+  status?: string;
+  error?: string;
+}
+
+export const stripePaymentService = {
+  sdkLoaded: false,
+  stripe: null as StripeInstance | null,
+
+  async loadStripeSDK(): Promise<boolean> {
+    if (this.sdkLoaded && window.Stripe) {
+      return true;
+    }
+
+    return new Promise((resolve) => {
+      if (window.Stripe) {
+        this.sdkLoaded = true;
+        resolve(true);
+        return;
+      }
+
+      const script = document.createElement('script');
+      script.src = 'https://js.stripe.com/v3/';
+      script.onload = () => {
+        this.sdkLoaded = true;
+        resolve(true);
+      };
+      script.onerror = () => {
+        resolve(false);
+      };
+      document.head.appendChild(script);
+    });
+  },
+
+  async getStripeConfig(): Promise<StripeConfig | null> {
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('setting_key, setting_value')
+        .in('setting_key', ['stripe_publishable_key', 'stripe_enabled']);
+
+      if (error) throw error;
+
+      const settings: Record<string, string> = {};
+      data?.forEach(s => {
+        settings[s.setting_key] = s.setting_value;
+      });
+
+      if (settings['stripe_enabled'] !== 'true' || !settings['stripe_publishable_key']) {
+        return null;
+      }
+
+      return {
+        publishable_key: settings['stripe_publishable_key'],
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async initializeStripe(config: StripeConfig): Promise<StripeInstance | null> {
+    if (!window.Stripe) {
+      const loaded = await this.loadStripeSDK();
+      if (!loaded || !window.Stripe) {
+        return null;
+      }
+    }
+
+    try {
+      this.stripe = window.Stripe(config.publishable_key);
+      return this.stripe;
+    } catch {
+      return null;
+    }
+  },
+
+  async createCardElement(containerId: string, config: StripeConfig): Promise<StripeCardElement | null> {
+    const stripe = await this.initializeStripe(config);
+    if (!stripe) return null;
+
+    try {
+      const card = stripe.elements().create('card', { hidePostalCode: false });
+      card.mount(`#${containerId}`);
+      return card;
+    } catch {
+      return null;
+    }
+  },
+
+  async createPaymentMethod(card: StripeCardElement): Promise<{ paymentMethodId: string } | { error: string }> {
+    if (!this.stripe) {
+      return { error: 'Stripe is not initialized' };
+    }
+
+    try {
+      const result = await this.stripe.createPaymentMethod({ type: 'card', card });
+      if (result.paymentMethod) {
+        return { paymentMethodId: result.paymentMethod.id };
+      }
+      return { error: result.error?.message || 'Failed to process card' };
+    } catch {
+      return { error: 'Failed to process card' };
+    }
+  },
+
+  /**
+   * Create and confirm a PaymentIntent via the create-stripe-payment-intent
+   * edge function. When the response has requires_action, call
+   * handleCardAction() and then processPayment() again with payment_intent_id.
+   */
+  async processPayment(
+    organizationId: string,
+    request: StripePaymentRequest
+  ): Promise<StripePaymentResponse> {
+    try {
+      const { data, error } = await supabase.functions.invoke('create-stripe-payment-intent', {
+        body: {
+          organization_id: organizationId,
+          ...request,
+        },
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message || 'Payment processing failed',
+        };
+      }
+
+      return data as StripePaymentResponse;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment processing failed',
+      };
+    }
+  },
+
+  /**
+   * Run the 3D Secure challenge for a PaymentIntent that requires action
+   */
+  async handleCardAction(clientSecret: string): Promise<{ paymentIntentId: string } | { error: string }> {
+    if (!this.stripe) {
+      return { error: 'Stripe is not initialized' };
+    }
+
+    try {
+      const result = await this.stripe.handleCardAction(clientSecret);
+      if (result.paymentIntent) {
+        return { paymentIntentId: result.paymentIntent.id };
+      }
+      return { error: result.error?.message || 'Card authentication failed' };
+    } catch {
+      return { error: 'Card authentication failed' };
+    }
+  },
+
+  /**
+   * Find the Stripe charge transaction behind a recorded rent payment
+   */
+  async getChargeForPayment(paymentId: string): Promise<{ id: string; amount: number; refunded_amount: number } | null> {
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .select('id, amount, refunded_amount')
+      .eq('payment_id', paymentId)
+      .eq('gateway_name', 'stripe')
+      .eq('transaction_type', 'charge')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching Stripe charge:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  /**
+   * Refund a completed Stripe charge, fully or partially
+   */
+  async refundPayment(
+    transactionId: string,
+    amountCents?: number,
+    reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer'
+  ): Promise<StripeRefundResponse> {
+    try {
+      const { data, error } = await supabase.functions.invoke('refund-stripe-payment', {
+        body: {
+          transaction_id: transactionId,
+          amount_cents: amountCents,
+          reason,
+        },
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message || 'Refund failed',
+        };
+      }
+
+      return data as StripeRefundResponse;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Refund failed',
+      };
+    }
+  },
+
+  generateIdempotencyKey(): string {
+    return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+  },
+};
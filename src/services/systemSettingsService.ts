@@ -17,17 +17,20 @@ export interface PaymentGatewayConfig {
     enabled: boolean;
     publishable_key?: string;
     secret_key?: string;
+    webhook_secret?: string;
   };
   square: {
     enabled: boolean;
     application_id?: string;
     access_token?: string;
     location_id?: string;
+    webhook_signature_key?: string;
   };
   paypal: {
     enabled: boolean;
     client_id?: string;
     client_secret?: string;
+    webhook_id?: string;
   };
 }
 
@@ -125,6 +128,15 @@ export const systemSettingsService = {
           description: 'Stripe Secret Key',
         });
       }
+      if (keys.webhook_secret) {
+        updates.push({
+          setting_key: 'stripe_webhook_secret',
+          setting_value: await encryptIfNeeded(keys.webhook_secret, true),
+          setting_type: 'api_key',
+          is_encrypted: true,
+          description: 'Stripe Webhook Signing Secret',
+        });
+      }
     } else if (gateway === 'square') {
       if (keys.application_id) {
         updates.push({
@@ -153,6 +165,15 @@ export const systemSettingsService = {
           description: 'Square Location ID',
         });
       }
+      if (keys.webhook_signature_key) {
+        updates.push({
+          setting_key: 'square_webhook_signature_key',
+          setting_value: await encryptIfNeeded(keys.webhook_signature_key, true),
+          setting_type: 'api_key',
+          is_encrypted: true,
+          description: 'Square Webhook Signature Key',
+        });
+      }
     } else if (gateway === 'paypal') {
       if (keys.client_id) {
         updates.push({
@@ -172,6 +193,15 @@ export const systemSettingsService = {
           description: 'PayPal Client Secret',
         });
       }
+      if (keys.webhook_id) {
+        updates.push({
+          setting_key: 'paypal_webhook_id',
+          setting_value: keys.webhook_id,
+          setting_type: 'api_key',
+          is_encrypted: false,
+          description: 'PayPal Webhook ID',
+        });
+      }
     }
 
     for (const update of updates) {
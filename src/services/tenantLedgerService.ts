@@ -0,0 +1,426 @@
+import { supabase } from '../lib/supabase';
+import {
+  TenantLedger,
+  TenantLedgerEntry,
+  TenantLedgerEntryType,
+  TenantLedgerLine,
+  TenantLedgerManualEntryType,
+} from '../types';
+import { emailService } from './emailService';
+import { fileStorageService } from './fileStorageService';
+import { pdfGenerationService } from './pdfGenerationService';
+
+export const TENANT_LEDGER_ENTRY_TYPE_LABELS: Record<TenantLedgerEntryType, string> = {
+  charge: 'Charge',
+  payment: 'Payment',
+  credit: 'Credit',
+  adjustment: 'Adjustment',
+};
+
+export interface TenantLedgerRange {
+  // Lines before the start date are carried in as the opening balance
+  startDate?: string;
+  // Defaults to today
+  endDate?: string;
+}
+
+export interface TenantLedgerEntryInput {
+  businessId: string;
+  tenantId: string;
+  leaseId?: string;
+  entryType: TenantLedgerManualEntryType;
+  entryDate: string;
+  description: string;
+  // Positive for charges and credits; signed for adjustments
+  amountCents: number;
+}
+
+const PAYMENT_TYPE_LABELS: Record<string, string> = {
+  rent: 'Rent payment',
+  late_fee: 'Late fee payment',
+  utility: 'Utilities payment',
+  maintenance: 'Maintenance payment',
+  other: 'Payment',
+};
+
+// Same-day lines list charges before the payments and credits against them
+const ENTRY_TYPE_ORDER: Record<TenantLedgerEntryType, number> = {
+  charge: 0,
+  adjustment: 1,
+  credit: 2,
+  payment: 3,
+};
+
+const toDate = (timestamp: string) => String(timestamp).split('T')[0]!;
+
+const monthLabel = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-CA', { month: 'long', year: 'numeric' });
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(cents / 100);
+
+/**
+ * Leases on the tenant's unit that overlap the time the tenant lived there.
+ * Leases are not linked to tenants directly.
+ */
+function overlapsResidence(
+  lease: { start_date: string; end_date?: string | null },
+  tenant: { move_in_date?: string | null; move_out_date?: string | null; lease_start_date?: string | null }
+): boolean {
+  const movedIn = tenant.move_in_date || tenant.lease_start_date;
+  if (movedIn && lease.end_date && lease.end_date < movedIn) return false;
+  if (tenant.move_out_date && lease.start_date > tenant.move_out_date) return false;
+  return true;
+}
+
+export const tenantLedgerService = {
+  // ========================================
+  // Ledger
+  // ========================================
+
+  /**
+   * Build a tenant's ledger with a running balance: scheduled rent, late fees
+   * and waivers, payments, gateway refunds, deposit amounts applied to rent
+   * owing, and manual entries. Lines before the start date are carried in as
+   * the opening balance.
+   *
+   * Scheduled rent is charged to the primary tenant only; co-tenants see
+   * their own payments, late fees and manual entries.
+   */
+  async getLedger(tenantId: string, range?: TenantLedgerRange): Promise<TenantLedger> {
+    const endDate = range?.endDate || new Date().toISOString().split('T')[0]!;
+    const startDate = range?.startDate;
+
+    const { data: tenant, error: tenantError } = await supabase
+      .from('tenants')
+      .select('id, unit_id, first_name, last_name, email, tenant_type, move_in_date, move_out_date, lease_start_date, unit:units(id, unit_number, property:properties(id, name, business_id))')
+      .eq('id', tenantId)
+      .single();
+
+    if (tenantError) throw tenantError;
+
+    const { data: leases, error: leaseError } = await supabase
+      .from('leases')
+      .select('id, start_date, end_date')
+      .eq('unit_id', tenant.unit_id);
+
+    if (leaseError) throw leaseError;
+
+    const leaseIds = tenant.tenant_type === 'primary'
+      ? (leases || []).filter(l => overlapsResidence(l, tenant)).map(l => l.id)
+      : [];
+
+    const [schedules, lateFees, payments, refunds, deposits, entries] = await Promise.all([
+      leaseIds.length > 0
+        ? supabase
+            .from('payment_schedules')
+            .select('id, payment_date, due_amount, description')
+            .in('lease_id', leaseIds)
+        : Promise.resolve({ data: [], error: null }),
+      supabase
+        .from('late_fees')
+        .select('id, late_fee_cents, original_due_date, assessed_date, status, waived_reason, updated_at')
+        .eq('tenant_id', tenantId),
+      supabase
+        .from('rent_payments')
+        .select('id, amount_cents, payment_type, payment_date, due_date, payment_method, payment_reference, description')
+        .eq('tenant_id', tenantId)
+        .in('status', ['paid', 'partial', 'refunded'])
+        .not('payment_type', 'in', '(security_deposit,pet_deposit)'),
+      supabase
+        .from('payment_transactions')
+        .select('id, amount, external_transaction_id, created_at, updated_at')
+        .eq('tenant_id', tenantId)
+        .eq('transaction_type', 'refund')
+        .eq('status', 'completed'),
+      supabase
+        .from('lease_deposits')
+        .select('id, deposit_type')
+        .eq('tenant_id', tenantId),
+      supabase
+        .from('tenant_ledger_entries')
+        .select('*')
+        .eq('tenant_id', tenantId),
+    ]);
+
+    if (schedules.error) throw schedules.error;
+    if (lateFees.error) throw lateFees.error;
+    if (payments.error) throw payments.error;
+    if (refunds.error) throw refunds.error;
+    if (deposits.error) throw deposits.error;
+    if (entries.error) throw entries.error;
+
+    let deductions: any[] = [];
+    if (deposits.data && deposits.data.length > 0) {
+      const { data, error } = await supabase
+        .from('lease_deposit_transactions')
+        .select('id, deposit_id, amount_cents, transaction_date, description, deduction_category')
+        .in('deposit_id', deposits.data.map(d => d.id))
+        .eq('transaction_type', 'deduction')
+        .in('deduction_category', ['unpaid_rent', 'late_fee']);
+
+      if (error) throw error;
+      deductions = data || [];
+    }
+
+    const depositTypes = new Map<string, string>((deposits.data || []).map(d => [d.id, d.deposit_type]));
+    const lines: Omit<TenantLedgerLine, 'balance_cents'>[] = [];
+
+    // payment_schedules amounts are in dollars
+    for (const s of schedules.data || []) {
+      lines.push({
+        id: `payment_schedule:${s.id}`,
+        entry_date: s.payment_date,
+        entry_type: 'charge',
+        source: 'payment_schedule',
+        source_id: s.id,
+        description: s.description || `Rent for ${monthLabel(s.payment_date)}`,
+        amount_cents: Math.round(Number(s.due_amount) * 100),
+      });
+    }
+
+    for (const f of lateFees.data || []) {
+      lines.push({
+        id: `late_fee:${f.id}`,
+        entry_date: f.assessed_date,
+        entry_type: 'charge',
+        source: 'late_fee',
+        source_id: f.id,
+        description: `Late fee on rent due ${f.original_due_date}`,
+        amount_cents: Number(f.late_fee_cents),
+      });
+
+      if (f.status === 'waived') {
+        lines.push({
+          id: `late_fee_waiver:${f.id}`,
+          entry_date: toDate(f.updated_at || f.assessed_date),
+          entry_type: 'credit',
+          source: 'late_fee_waiver',
+          source_id: f.id,
+          description: f.waived_reason ? `Late fee waived: ${f.waived_reason}` : 'Late fee waived',
+          amount_cents: -Number(f.late_fee_cents),
+        });
+      }
+    }
+
+    for (const p of payments.data || []) {
+      lines.push({
+        id: `rent_payment:${p.id}`,
+        entry_date: toDate(p.payment_date || p.due_date),
+        entry_type: 'payment',
+        source: 'rent_payment',
+        source_id: p.id,
+        description: p.description || PAYMENT_TYPE_LABELS[p.payment_type] || 'Payment',
+        reference: p.payment_reference || p.payment_method || undefined,
+        amount_cents: -Number(p.amount_cents),
+      });
+    }
+
+    // A refunded payment stays on the ledger; the refund puts the amount back
+    for (const r of refunds.data || []) {
+      lines.push({
+        id: `refund:${r.id}`,
+        entry_date: toDate(r.updated_at || r.created_at),
+        entry_type: 'adjustment',
+        source: 'refund',
+        source_id: r.id,
+        description: 'Payment refunded',
+        reference: r.external_transaction_id || undefined,
+        amount_cents: Number(r.amount),
+      });
+    }
+
+    for (const d of deductions) {
+      lines.push({
+        id: `deposit_deduction:${d.id}`,
+        entry_date: d.transaction_date,
+        entry_type: 'credit',
+        source: 'deposit_deduction',
+        source_id: d.id,
+        description: d.description
+          || `Applied from ${depositTypes.get(d.deposit_id) === 'pet' ? 'pet' : 'security'} deposit`,
+        amount_cents: -Number(d.amount_cents),
+      });
+    }
+
+    for (const e of (entries.data || []) as TenantLedgerEntry[]) {
+      lines.push({
+        id: `manual:${e.id}`,
+        entry_date: e.entry_date,
+        entry_type: e.entry_type,
+        source: 'manual',
+        source_id: e.id,
+        description: e.description,
+        amount_cents: e.entry_type === 'credit' ? -e.amount_cents : e.amount_cents,
+      });
+    }
+
+    lines.sort((a, b) =>
+      a.entry_date.localeCompare(b.entry_date)
+      || ENTRY_TYPE_ORDER[a.entry_type] - ENTRY_TYPE_ORDER[b.entry_type]
+      || a.id.localeCompare(b.id)
+    );
+
+    let balance = 0;
+    let openingBalance = 0;
+    const inRange: TenantLedgerLine[] = [];
+
+    for (const line of lines) {
+      if (line.entry_date > endDate) break;
+      balance += line.amount_cents;
+
+      if (startDate && line.entry_date < startDate) {
+        openingBalance = balance;
+      } else {
+        inRange.push({ ...line, balance_cents: balance });
+      }
+    }
+
+    const total = (type: TenantLedgerEntryType) =>
+      inRange.filter(l => l.entry_type === type).reduce((sum, l) => sum + l.amount_cents, 0);
+
+    const unit = tenant.unit as any;
+
+    return {
+      tenant_id: tenant.id,
+      tenant_name: `${tenant.first_name} ${tenant.last_name}`,
+      tenant_email: tenant.email || undefined,
+      business_id: unit?.property?.business_id,
+      unit_id: tenant.unit_id,
+      unit_label: unit ? [unit.property?.name, `Unit ${unit.unit_number}`].filter(Boolean).join(' - ') : '',
+      start_date: startDate,
+      end_date: endDate,
+      opening_balance_cents: openingBalance,
+      lines: inRange,
+      total_charges_cents: total('charge'),
+      total_payments_cents: -total('payment'),
+      total_credits_cents: -total('credit'),
+      total_adjustments_cents: total('adjustment'),
+      closing_balance_cents: balance,
+      generated_at: new Date().toISOString(),
+    };
+  },
+
+  // ========================================
+  // Manual Entries
+  // ========================================
+
+  /**
+   * Add a manual charge, credit or adjustment
+   */
+  async addEntry(input: TenantLedgerEntryInput, userId: string): Promise<TenantLedgerEntry> {
+    if (!input.description.trim()) {
+      throw new Error('A description is required');
+    }
+
+    if (input.entryType === 'adjustment' ? input.amountCents === 0 : input.amountCents <= 0) {
+      throw new Error(input.entryType === 'adjustment'
+        ? 'An adjustment cannot be zero'
+        : 'The amount must be greater than zero');
+    }
+
+    const { data, error } = await supabase
+      .from('tenant_ledger_entries')
+      .insert({
+        business_id: input.businessId,
+        tenant_id: input.tenantId,
+        lease_id: input.leaseId || null,
+        entry_type: input.entryType,
+        entry_date: input.entryDate,
+        description: input.description.trim(),
+        amount_cents: input.amountCents,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a manual entry
+   */
+  async deleteEntry(entryId: string): Promise<void> {
+    const { error } = await supabase
+      .from('tenant_ledger_entries')
+      .delete()
+      .eq('id', entryId);
+
+    if (error) throw error;
+  },
+
+  // ========================================
+  // Statement of Account
+  // ========================================
+
+  /**
+   * Generate the statement of account PDF for a ledger
+   */
+  async generateStatementPDF(ledger: TenantLedger, businessName: string): Promise<{ blob: Blob; fileName: string }> {
+    const period = ledger.start_date
+      ? `${pdfGenerationService.formatDate(ledger.start_date)} - ${pdfGenerationService.formatDate(ledger.end_date)}`
+      : `Through ${pdfGenerationService.formatDate(ledger.end_date)}`;
+
+    const blob = await pdfGenerationService.generateTenantStatement(ledger, {
+      title: 'Statement of Account',
+      organizationName: businessName,
+      period,
+      generatedDate: new Date().toISOString().split('T')[0]!,
+    });
+
+    const fileName = `statement-${ledger.tenant_name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${ledger.end_date}.pdf`;
+    return { blob, fileName };
+  },
+
+  /**
+   * Download the statement of account
+   */
+  async downloadStatement(ledger: TenantLedger, businessName: string): Promise<void> {
+    const { blob, fileName } = await this.generateStatementPDF(ledger, businessName);
+    pdfGenerationService.downloadPDF(blob, fileName);
+  },
+
+  /**
+   * Add the statement to the tenant's documents and email the tenant a link
+   * to it. Returns false when the document was shared but the email could
+   * not be sent.
+   */
+  async sendStatement(ledger: TenantLedger, userId: string, businessName: string): Promise<boolean> {
+    const { blob, fileName } = await this.generateStatementPDF(ledger, businessName);
+    const fileUrl = await fileStorageService.fileToBase64(new File([blob], fileName, { type: 'application/pdf' }));
+
+    const { error } = await supabase.from('tenant_documents').insert({
+      business_id: ledger.business_id,
+      tenant_id: ledger.tenant_id,
+      unit_id: ledger.unit_id,
+      document_type: 'statement',
+      file_name: fileName,
+      file_url: fileUrl,
+      source_type: 'statement',
+      uploaded_by: userId,
+    });
+
+    if (error) throw error;
+
+    if (!ledger.tenant_email) return false;
+
+    const balance = ledger.closing_balance_cents;
+    const result = await emailService.sendEmail(ledger.tenant_email, 'notification', {
+      subject: `Statement of account from ${businessName}`,
+      title: 'Your statement of account',
+      name: ledger.tenant_name,
+      message: `Your statement of account for ${ledger.unit_label} is ready. ${
+        balance > 0
+          ? `The balance due as of ${ledger.end_date} is ${formatCents(balance)}.`
+          : balance < 0
+            ? `Your account has a credit of ${formatCents(-balance)} as of ${ledger.end_date}.`
+            : `Your account is paid in full as of ${ledger.end_date}.`
+      }`,
+      action_url: `${window.location.origin}/my-rental/documents`,
+      action_text: 'View Statement',
+    });
+
+    return result.success;
+  },
+};
@@ -186,7 +186,18 @@ export const tenantPortalService = {
       console.error('Error fetching leases:', leasesError);
     }
 
-    const documents: TenantDocument[] = [];
+    // Documents shared with the tenant (e.g. inspection reports)
+    const { data: shared, error: sharedError } = await supabase
+      .from('tenant_documents')
+      .select('id, document_type, file_name, file_url, uploaded_at')
+      .eq('tenant_id', tenantId)
+      .order('uploaded_at', { ascending: false });
+
+    if (sharedError) {
+      console.error('Error fetching shared documents:', sharedError);
+    }
+
+    const documents: TenantDocument[] = [...(shared || [])];
 
     // Add agreements as documents
     if (agreements) {
@@ -6,6 +6,8 @@ import {
   VendorTaxForm,
   VendorTaxFormType,
   VendorTaxFormStatus,
+  VendorTaxFormHistory,
+  VendorTaxFormRecipient,
 } from '../types';
 
 export interface VendorFilters {
@@ -26,6 +28,101 @@ export interface VendorPaymentSummary {
   isT5018Eligible: boolean;
 }
 
+/**
+ * Recipient details for a form, from the vendor record
+ */
+function taxFormRecipient(vendor: Vendor): VendorTaxFormRecipient {
+  return {
+    name: vendor.legal_name || vendor.vendor_name,
+    tin: vendor.tax_id,
+    tinType: vendor.tax_id_type,
+    addressLine1: vendor.address_line1,
+    addressLine2: vendor.address_line2,
+    city: vendor.city,
+    region: vendor.state_province,
+    postalCode: vendor.postal_code,
+    country: vendor.country,
+    email: vendor.email,
+  };
+}
+
+/**
+ * Box amounts for a form's total payments
+ */
+function taxFormBoxAmounts(formType: VendorTaxFormType, totalPaymentsCents: number): Record<string, number> {
+  switch (formType) {
+    case '1099-NEC':
+      return { box1: totalPaymentsCents }; // Nonemployee compensation
+    case '1099-MISC':
+      // Rents. Nonemployee compensation has been reported on 1099-NEC since 2020
+      return { box1: totalPaymentsCents };
+    case 'T5018':
+      return { gross_income: totalPaymentsCents };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Total a year's payments to each vendor: paid expenses and bill payments
+ * that have not been voided. Vendors made inactive during the year still
+ * need a form for what they were paid, so they are included.
+ */
+async function summarizeVendorPayments(
+  vendors: Vendor[],
+  taxYear: number,
+  minimumAmountCents: number
+): Promise<VendorPaymentSummary[]> {
+  if (vendors.length === 0) return [];
+
+  const vendorIds = vendors.map(v => v.id);
+  const [expenses, billPayments] = await Promise.all([
+    supabase
+      .from('expenses')
+      .select('vendor_id, amount_cents')
+      .in('vendor_id', vendorIds)
+      .gte('expense_date', `${taxYear}-01-01`)
+      .lte('expense_date', `${taxYear}-12-31`)
+      .eq('status', 'paid'),
+    supabase
+      .from('vendor_bill_payments')
+      .select('vendor_id, amount_cents')
+      .in('vendor_id', vendorIds)
+      .gte('payment_date', `${taxYear}-01-01`)
+      .lte('payment_date', `${taxYear}-12-31`)
+      .eq('is_void', false),
+  ]);
+
+  if (expenses.error) throw expenses.error;
+  if (billPayments.error) throw billPayments.error;
+
+  const totals = new Map<string, { cents: number; count: number }>();
+  for (const p of [...(expenses.data || []), ...(billPayments.data || [])]) {
+    const total = totals.get(p.vendor_id) || { cents: 0, count: 0 };
+    total.cents += p.amount_cents;
+    total.count += 1;
+    totals.set(p.vendor_id, total);
+  }
+
+  const summaries: VendorPaymentSummary[] = [];
+  for (const vendor of vendors) {
+    const total = totals.get(vendor.id);
+    if (!total || total.cents < minimumAmountCents) continue;
+
+    summaries.push({
+      vendorId: vendor.id,
+      vendorName: vendor.vendor_name,
+      taxYear,
+      totalPaymentsCents: total.cents,
+      paymentCount: total.count,
+      is1099Eligible: vendor.is_1099_eligible,
+      isT5018Eligible: vendor.is_t5018_eligible,
+    });
+  }
+
+  return summaries.sort((a, b) => b.totalPaymentsCents - a.totalPaymentsCents);
+}
+
 export const vendorService = {
   // ========================================
   // Vendor CRUD Operations
@@ -269,41 +366,8 @@ export const vendorService = {
     taxYear: number,
     minimumAmountCents: number = 60000 // $600 threshold for 1099
   ): Promise<VendorPaymentSummary[]> {
-    const vendors = await this.getVendors(businessId, {
-      is1099Eligible: true,
-      isActive: true,
-    });
-
-    const summaries: VendorPaymentSummary[] = [];
-
-    for (const vendor of vendors) {
-      // Get total payments for this vendor in the tax year
-      const { data: payments, error } = await supabase
-        .from('expenses')
-        .select('amount_cents')
-        .eq('vendor_id', vendor.id)
-        .gte('expense_date', `${taxYear}-01-01`)
-        .lte('expense_date', `${taxYear}-12-31`)
-        .eq('status', 'paid');
-
-      if (error) throw error;
-
-      const totalPayments = (payments || []).reduce((sum, p) => sum + p.amount_cents, 0);
-
-      if (totalPayments >= minimumAmountCents) {
-        summaries.push({
-          vendorId: vendor.id,
-          vendorName: vendor.vendor_name,
-          taxYear,
-          totalPaymentsCents: totalPayments,
-          paymentCount: payments?.length || 0,
-          is1099Eligible: vendor.is_1099_eligible,
-          isT5018Eligible: vendor.is_t5018_eligible,
-        });
-      }
-    }
-
-    return summaries.sort((a, b) => b.totalPaymentsCents - a.totalPaymentsCents);
+    const vendors = await this.getVendors(businessId, { is1099Eligible: true });
+    return summarizeVendorPayments(vendors, taxYear, minimumAmountCents);
   },
 
   /**
@@ -314,40 +378,8 @@ export const vendorService = {
     taxYear: number,
     minimumAmountCents: number = 50000 // $500 threshold for T5018
   ): Promise<VendorPaymentSummary[]> {
-    const vendors = await this.getVendors(businessId, {
-      isT5018Eligible: true,
-      isActive: true,
-    });
-
-    const summaries: VendorPaymentSummary[] = [];
-
-    for (const vendor of vendors) {
-      const { data: payments, error } = await supabase
-        .from('expenses')
-        .select('amount_cents')
-        .eq('vendor_id', vendor.id)
-        .gte('expense_date', `${taxYear}-01-01`)
-        .lte('expense_date', `${taxYear}-12-31`)
-        .eq('status', 'paid');
-
-      if (error) throw error;
-
-      const totalPayments = (payments || []).reduce((sum, p) => sum + p.amount_cents, 0);
-
-      if (totalPayments >= minimumAmountCents) {
-        summaries.push({
-          vendorId: vendor.id,
-          vendorName: vendor.vendor_name,
-          taxYear,
-          totalPaymentsCents: totalPayments,
-          paymentCount: payments?.length || 0,
-          is1099Eligible: vendor.is_1099_eligible,
-          isT5018Eligible: vendor.is_t5018_eligible,
-        });
-      }
-    }
-
-    return summaries.sort((a, b) => b.totalPaymentsCents - a.totalPaymentsCents);
+    const vendors = await this.getVendors(businessId, { isT5018Eligible: true });
+    return summarizeVendorPayments(vendors, taxYear, minimumAmountCents);
   },
 
   // ========================================
@@ -401,7 +433,8 @@ export const vendorService = {
     taxYear: number,
     formType: VendorTaxFormType,
     totalPaymentsCents: number,
-    boxAmounts?: Record<string, number>
+    boxAmounts?: Record<string, number>,
+    additionalFields?: Partial<VendorTaxForm>
   ): Promise<VendorTaxForm> {
     const { data, error } = await supabase
       .from('vendor_tax_forms')
@@ -414,6 +447,7 @@ export const vendorService = {
           total_payments_cents: totalPaymentsCents,
           box_amounts: boxAmounts,
           status: 'pending',
+          ...additionalFields,
           updated_at: new Date().toISOString(),
         },
         { onConflict: 'vendor_id,tax_year,form_type' }
@@ -461,28 +495,100 @@ export const vendorService = {
     return data;
   },
 
+  /**
+   * Record a tax form status change, with the amounts and recipient as they
+   * stand after it
+   */
+  async recordTaxFormHistory(
+    form: VendorTaxForm,
+    fromStatus: VendorTaxFormStatus | null,
+    userId?: string,
+    note?: string
+  ): Promise<void> {
+    const { error } = await supabase.from('vendor_tax_form_history').insert({
+      tax_form_id: form.id,
+      business_id: form.business_id,
+      from_status: fromStatus,
+      to_status: form.status,
+      total_payments_cents: form.total_payments_cents,
+      box_amounts: form.box_amounts,
+      recipient: form.recipient,
+      note,
+      created_by: userId,
+    });
+
+    if (error) throw error;
+  },
+
+  /**
+   * Get the status history of a tax form, oldest first
+   */
+  async getTaxFormHistory(taxFormId: string): Promise<VendorTaxFormHistory[]> {
+    const { data, error } = await supabase
+      .from('vendor_tax_form_history')
+      .select('*')
+      .eq('tax_form_id', taxFormId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
   /**
    * Generate 1099 forms for all eligible vendors
    */
   async generate1099Forms(
     businessId: string,
-    taxYear: number
+    taxYear: number,
+    userId?: string
   ): Promise<VendorTaxForm[]> {
     const eligibleVendors = await this.get1099EligibleVendors(businessId, taxYear);
+    return this.saveGeneratedForms(
+      businessId,
+      taxYear,
+      eligibleVendors,
+      vendor => vendor.form_1099_type || '1099-NEC',
+      userId
+    );
+  },
+
+  /**
+   * Generate T5018 forms for all eligible vendors
+   */
+  async generateT5018Forms(
+    businessId: string,
+    taxYear: number,
+    userId?: string
+  ): Promise<VendorTaxForm[]> {
+    const eligibleVendors = await this.getT5018EligibleVendors(businessId, taxYear);
+    return this.saveGeneratedForms(businessId, taxYear, eligibleVendors, () => 'T5018', userId);
+  },
+
+  /**
+   * Save generated forms with the vendor's current recipient details. Forms
+   * already sent or filed are left as they are; a change to one of those
+   * needs a correction.
+   */
+  async saveGeneratedForms(
+    businessId: string,
+    taxYear: number,
+    summaries: VendorPaymentSummary[],
+    formTypeFor: (vendor: Vendor) => VendorTaxFormType,
+    userId?: string
+  ): Promise<VendorTaxForm[]> {
+    const existing = await this.getTaxFormsByYear(businessId, taxYear);
     const forms: VendorTaxForm[] = [];
 
-    for (const summary of eligibleVendors) {
+    for (const summary of summaries) {
       const vendor = await this.getVendorById(summary.vendorId);
       if (!vendor) continue;
 
-      const formType = vendor.form_1099_type || '1099-NEC';
+      const formType = formTypeFor(vendor);
+      const current = existing.find(f => f.vendor_id === vendor.id && f.form_type === formType);
 
-      // Determine box amounts based on form type
-      const boxAmounts: Record<string, number> = {};
-      if (formType === '1099-NEC') {
-        boxAmounts['box1'] = summary.totalPaymentsCents; // Nonemployee compensation
-      } else if (formType === '1099-MISC') {
-        boxAmounts['box7'] = summary.totalPaymentsCents; // Legacy nonemployee comp
+      if (current && current.status !== 'pending' && current.status !== 'generated') {
+        forms.push(current);
+        continue;
       }
 
       const form = await this.upsertTaxForm(
@@ -491,9 +597,16 @@ export const vendorService = {
         taxYear,
         formType,
         summary.totalPaymentsCents,
-        boxAmounts
+        taxFormBoxAmounts(formType, summary.totalPaymentsCents),
+        {
+          status: 'generated',
+          generated_at: new Date().toISOString(),
+          payment_count: summary.paymentCount,
+          recipient: taxFormRecipient(vendor),
+        }
       );
 
+      await this.recordTaxFormHistory(form, current?.status || null, userId);
       forms.push(form);
     }
 
@@ -501,33 +614,46 @@ export const vendorService = {
   },
 
   /**
-   * Generate T5018 forms for all eligible vendors
+   * Issue a correction for a form that has been sent or filed. The form
+   * takes the vendor's current payments and recipient details and waits to
+   * be filed as a corrected return.
    */
-  async generateT5018Forms(
-    businessId: string,
-    taxYear: number
-  ): Promise<VendorTaxForm[]> {
-    const eligibleVendors = await this.getT5018EligibleVendors(businessId, taxYear);
-    const forms: VendorTaxForm[] = [];
+  async correctTaxForm(
+    form: VendorTaxForm,
+    reason: string,
+    userId?: string
+  ): Promise<VendorTaxForm> {
+    if (form.status !== 'sent' && form.status !== 'filed' && form.status !== 'corrected') {
+      throw new Error('Only forms that have been sent or filed need a correction. Regenerate the form instead.');
+    }
 
-    for (const summary of eligibleVendors) {
-      const boxAmounts: Record<string, number> = {
-        gross_income: summary.totalPaymentsCents,
-      };
+    const vendor = await this.getVendorById(form.vendor_id);
+    if (!vendor) throw new Error('Vendor not found');
 
-      const form = await this.upsertTaxForm(
-        summary.vendorId,
-        businessId,
-        taxYear,
-        'T5018',
-        summary.totalPaymentsCents,
-        boxAmounts
-      );
+    const [summary] = await summarizeVendorPayments([vendor], form.tax_year, 0);
+    const totalPaymentsCents = summary?.totalPaymentsCents || 0;
 
-      forms.push(form);
-    }
+    const { data, error } = await supabase
+      .from('vendor_tax_forms')
+      .update({
+        status: 'corrected',
+        total_payments_cents: totalPaymentsCents,
+        box_amounts: taxFormBoxAmounts(form.form_type, totalPaymentsCents),
+        payment_count: summary?.paymentCount || 0,
+        recipient: taxFormRecipient(vendor),
+        correction_count: form.correction_count + 1,
+        corrected_at: new Date().toISOString(),
+        correction_reason: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', form.id)
+      .select()
+      .single();
 
-    return forms;
+    if (error) throw error;
+
+    await this.recordTaxFormHistory(data, form.status, userId, reason);
+    return data;
   },
 
   // ========================================
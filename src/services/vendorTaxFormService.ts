@@ -0,0 +1,411 @@
+import { supabase } from '../lib/supabase';
+import {
+  Business,
+  BusinessAccountingSettings,
+  Vendor,
+  VendorTaxForm,
+  VendorTaxFormSentMethod,
+  VendorTaxFormStatus,
+  VendorTaxFormType,
+} from '../types';
+import { vendorService, VendorPaymentSummary } from './vendorService';
+import { pdfGenerationService } from './pdfGenerationService';
+import {
+  buildFireFile,
+  buildT5018Xml,
+  TaxFilingPayer,
+} from '../utils/taxFilingFormats';
+
+// 1099s are filed with the IRS, T5018s with the CRA
+export type TaxFormFamily = '1099' | 'T5018';
+
+export interface TaxFormReviewRow {
+  vendor: Vendor;
+  summary: VendorPaymentSummary;
+  formType: VendorTaxFormType;
+  form: VendorTaxForm | null;
+  // Paid less than the reporting threshold; listed because a form exists
+  belowThreshold: boolean;
+  // Missing or invalid details that would stop the form being filed
+  issues: string[];
+  // A generated form whose payments or recipient details have changed since
+  isStale: boolean;
+  // A sent or filed form whose payments or recipient details have changed since
+  needsCorrection: boolean;
+}
+
+export interface TaxFilingExport {
+  content: string;
+  fileName: string;
+  mimeType: string;
+  forms: VendorTaxForm[];
+}
+
+export const TAX_FORM_STATUS_LABELS: Record<VendorTaxFormStatus, string> = {
+  pending: 'Not generated',
+  generated: 'Generated',
+  sent: 'Sent',
+  filed: 'Filed',
+  corrected: 'Correction to file',
+};
+
+export const TAX_FORM_SENT_METHOD_LABELS: Record<VendorTaxFormSentMethod, string> = {
+  mail: 'Mail',
+  email: 'Email',
+  portal: 'Vendor portal',
+};
+
+// Reporting thresholds
+const THRESHOLDS: Record<TaxFormFamily, number> = {
+  '1099': 60000,
+  T5018: 50000,
+};
+
+const FORM_TYPES: Record<TaxFormFamily, VendorTaxFormType[]> = {
+  '1099': ['1099-NEC', '1099-MISC'],
+  T5018: ['T5018'],
+};
+
+/**
+ * Whether a vendor's current details differ from those printed on a form
+ */
+function recipientChanged(form: VendorTaxForm, vendor: Vendor): boolean {
+  const recipient = form.recipient;
+  if (!recipient) return true;
+
+  const compare = (a: string | undefined | null, b: string | undefined | null) =>
+    (a || '').trim().toUpperCase() !== (b || '').trim().toUpperCase();
+
+  return compare(recipient.name, vendor.legal_name || vendor.vendor_name)
+    || compare(recipient.tin, vendor.tax_id)
+    || compare(recipient.addressLine1, vendor.address_line1)
+    || compare(recipient.addressLine2, vendor.address_line2)
+    || compare(recipient.city, vendor.city)
+    || compare(recipient.region, vendor.state_province)
+    || compare(recipient.postalCode, vendor.postal_code);
+}
+
+/**
+ * Which kind of return a form goes on next: an original for forms never
+ * filed, a correction for forms corrected after filing
+ */
+function filingKind(form: VendorTaxForm): 'original' | 'correction' | null {
+  if (form.status === 'generated' || form.status === 'sent') return form.filed_at ? null : 'original';
+  if (form.status === 'corrected') return form.filed_at ? 'correction' : 'original';
+  return null;
+}
+
+/**
+ * Record an export in the accounting export history
+ */
+async function logFilingExport(
+  businessId: string,
+  userId: string,
+  format: 'irs_fire' | 'cra_xml',
+  family: TaxFormFamily,
+  taxYear: number,
+  result: TaxFilingExport
+): Promise<void> {
+  await supabase.from('gl_export_history').insert({
+    business_id: businessId,
+    export_format: format,
+    export_type: family === '1099' ? 'vendor_1099' : 'vendor_t5018',
+    fiscal_year: taxYear,
+    start_date: `${taxYear}-01-01`,
+    end_date: `${taxYear}-12-31`,
+    file_name: result.fileName,
+    file_size_bytes: result.content.length,
+    record_count: result.forms.length,
+    status: 'completed',
+    exported_by: userId,
+  });
+}
+
+export const vendorTaxFormService = {
+  // ========================================
+  // Review
+  // ========================================
+
+  /**
+   * Details a vendor needs before its form can be filed
+   */
+  getVendorIssues(vendor: Vendor, family: TaxFormFamily): string[] {
+    const issues: string[] = [];
+    const tin = (vendor.tax_id || '').replace(/[\s-]/g, '').toUpperCase();
+
+    if (family === '1099') {
+      if (!tin) {
+        issues.push('No TIN');
+      } else if (vendor.tax_id_type !== 'ein' && vendor.tax_id_type !== 'ssn') {
+        issues.push('TIN must be an EIN or SSN');
+      } else if (!/^\d{9}$/.test(tin)) {
+        issues.push('TIN must be 9 digits');
+      }
+      if (!vendor.w9_on_file) {
+        issues.push('No W-9 on file');
+      }
+    } else {
+      if (!tin) {
+        issues.push('No business number or SIN');
+      } else if (vendor.tax_id_type === 'sin') {
+        if (!/^\d{9}$/.test(tin)) issues.push('SIN must be 9 digits');
+      } else if (vendor.tax_id_type === 'bn' || vendor.tax_id_type === 'gst') {
+        if (!/^\d{9}RT\d{4}$/.test(tin)) issues.push('Business number must be 15 characters, e.g. 123456789RT0001');
+      } else {
+        issues.push('Tax ID must be a business number or SIN');
+      }
+    }
+
+    if (!vendor.address_line1 || !vendor.city || !vendor.state_province || !vendor.postal_code) {
+      issues.push('Incomplete address');
+    }
+
+    return issues;
+  },
+
+  /**
+   * Payer details missing for printing or filing a family of forms
+   */
+  getPayerIssues(payer: TaxFilingPayer, family: TaxFormFamily): string[] {
+    const issues: string[] = [];
+
+    if (family === '1099') {
+      if ((payer.tin || '').replace(/\D/g, '').length !== 9) issues.push('Payer EIN');
+      if (!/^[A-Z0-9]{5}$/i.test(payer.transmitterControlCode || '')) issues.push('Transmitter Control Code');
+    } else {
+      if (!/^\d{9}RZ\d{4}$/i.test(payer.craAccount || '')) issues.push('RZ program account');
+      if (!/^[A-Z]{2}\d{6}$/i.test(payer.craTransmitterNumber || '')) issues.push('CRA transmitter number');
+    }
+    if (!payer.addressLine1 || !payer.city || !payer.region || !payer.postalCode) issues.push('Business address');
+    if (!payer.contactName || (payer.phone || '').replace(/\D/g, '').length < 10) issues.push('Filing contact and phone');
+
+    return issues;
+  },
+
+  /**
+   * Payer details from the business and its accounting settings
+   */
+  getPayer(business: Business, settings: BusinessAccountingSettings | null): TaxFilingPayer {
+    return {
+      name: settings?.tax_payer_name || business.legal_name || business.business_name,
+      tin: settings?.irs_payer_tin || undefined,
+      craAccount: settings?.cra_payer_account || undefined,
+      addressLine1: business.address_line1,
+      addressLine2: business.address_line2,
+      city: business.city,
+      region: business.state,
+      postalCode: business.postal_code,
+      country: business.country,
+      phone: settings?.tax_contact_phone || business.phone,
+      contactName: settings?.tax_contact_name || undefined,
+      contactEmail: settings?.tax_contact_email || business.email,
+      transmitterControlCode: settings?.irs_transmitter_control_code || undefined,
+      craTransmitterNumber: settings?.cra_transmitter_number || undefined,
+    };
+  },
+
+  /**
+   * Every vendor paid enough in the year to need a form, and every vendor
+   * that already has one, with its form and anything that needs fixing
+   */
+  async getReview(businessId: string, taxYear: number, family: TaxFormFamily): Promise<TaxFormReviewRow[]> {
+    const [summaries, vendors, forms] = await Promise.all([
+      family === '1099'
+        ? vendorService.get1099EligibleVendors(businessId, taxYear, 1)
+        : vendorService.getT5018EligibleVendors(businessId, taxYear, 1),
+      vendorService.getVendors(businessId),
+      vendorService.getTaxFormsByYear(businessId, taxYear),
+    ]);
+
+    const familyForms = forms.filter(f => FORM_TYPES[family].includes(f.form_type));
+    const rows: TaxFormReviewRow[] = [];
+
+    for (const vendor of vendors) {
+      const formType: VendorTaxFormType = family === '1099' ? vendor.form_1099_type || '1099-NEC' : 'T5018';
+      const summary = summaries.find(s => s.vendorId === vendor.id);
+      const form = familyForms.find(f => f.vendor_id === vendor.id && f.form_type === formType)
+        || familyForms.find(f => f.vendor_id === vendor.id)
+        || null;
+
+      const totalCents = summary?.totalPaymentsCents || 0;
+      const belowThreshold = totalCents < THRESHOLDS[family];
+      if (belowThreshold && !form) continue;
+
+      const changed = !!form && (form.total_payments_cents !== totalCents || recipientChanged(form, vendor));
+
+      rows.push({
+        vendor,
+        summary: summary || {
+          vendorId: vendor.id,
+          vendorName: vendor.vendor_name,
+          taxYear,
+          totalPaymentsCents: 0,
+          paymentCount: 0,
+          is1099Eligible: vendor.is_1099_eligible,
+          isT5018Eligible: vendor.is_t5018_eligible,
+        },
+        formType: form?.form_type || formType,
+        form,
+        belowThreshold,
+        issues: this.getVendorIssues(vendor, family),
+        isStale: changed && (form!.status === 'pending' || form!.status === 'generated'),
+        needsCorrection: changed && !(form!.status === 'pending' || form!.status === 'generated'),
+      });
+    }
+
+    return rows.sort((a, b) => b.summary.totalPaymentsCents - a.summary.totalPaymentsCents);
+  },
+
+  // ========================================
+  // Lifecycle
+  // ========================================
+
+  /**
+   * Generate or refresh the forms for every eligible vendor. Forms already
+   * sent or filed are not changed.
+   */
+  async generateForms(
+    businessId: string,
+    taxYear: number,
+    family: TaxFormFamily,
+    userId: string
+  ): Promise<VendorTaxForm[]> {
+    return family === '1099'
+      ? vendorService.generate1099Forms(businessId, taxYear, userId)
+      : vendorService.generateT5018Forms(businessId, taxYear, userId);
+  },
+
+  /**
+   * Record that recipient copies were sent. A correction stays waiting to be
+   * filed after its copy is sent.
+   */
+  async markSent(
+    forms: VendorTaxForm[],
+    method: VendorTaxFormSentMethod,
+    userId: string
+  ): Promise<void> {
+    for (const form of forms) {
+      if (form.status === 'pending') {
+        throw new Error(`Generate the form for ${form.recipient?.name || 'this vendor'} before sending it`);
+      }
+
+      const status: VendorTaxFormStatus = form.status === 'generated' ? 'sent' : form.status;
+      const updated = await vendorService.updateTaxFormStatus(form.id, status, {
+        sent_at: new Date().toISOString(),
+        sent_method: method,
+      });
+      await vendorService.recordTaxFormHistory(
+        updated,
+        form.status,
+        userId,
+        `Recipient copy sent by ${TAX_FORM_SENT_METHOD_LABELS[method].toLowerCase()}`
+      );
+    }
+  },
+
+  /**
+   * Record that forms were filed, with the FIRE receipt or CRA confirmation
+   * number
+   */
+  async markFiled(
+    forms: VendorTaxForm[],
+    reference: string,
+    userId: string
+  ): Promise<void> {
+    for (const form of forms) {
+      if (!filingKind(form)) {
+        throw new Error(`The form for ${form.recipient?.name || 'this vendor'} has nothing waiting to be filed`);
+      }
+
+      const updated = await vendorService.updateTaxFormStatus(form.id, 'filed', {
+        filed_by: userId,
+        filing_reference: reference || null,
+      });
+      await vendorService.recordTaxFormHistory(
+        updated,
+        form.status,
+        userId,
+        reference ? `Filing reference ${reference}` : undefined
+      );
+    }
+  },
+
+  /**
+   * Issue a correction for a sent or filed form
+   */
+  async correctForm(form: VendorTaxForm, reason: string, userId: string): Promise<VendorTaxForm> {
+    if (!reason.trim()) {
+      throw new Error('Enter the reason for the correction');
+    }
+    return vendorService.correctTaxForm(form, reason.trim(), userId);
+  },
+
+  // ========================================
+  // Output
+  // ========================================
+
+  /**
+   * Forms waiting to go on an original or a corrected return
+   */
+  getFormsToFile(forms: VendorTaxForm[], correction: boolean): VendorTaxForm[] {
+    return forms.filter(f => filingKind(f) === (correction ? 'correction' : 'original'));
+  },
+
+  /**
+   * Printable recipient copies, one page per form
+   */
+  async generateSlips(forms: VendorTaxForm[], payer: TaxFilingPayer, taxYear: number): Promise<Blob> {
+    const printable = forms.filter(f => f.recipient);
+    if (printable.length === 0) {
+      throw new Error('Generate the forms before printing them');
+    }
+    return pdfGenerationService.generateTaxFormSlips(printable, payer, taxYear);
+  },
+
+  /**
+   * Build the IRS FIRE file for the year's 1099s
+   */
+  async exportFireFile(
+    businessId: string,
+    userId: string,
+    forms: VendorTaxForm[],
+    payer: TaxFilingPayer,
+    options: { taxYear: number; test: boolean; correction: boolean }
+  ): Promise<TaxFilingExport> {
+    const toFile = this.getFormsToFile(forms, options.correction)
+      .filter(f => f.form_type === '1099-NEC' || f.form_type === '1099-MISC');
+
+    const result: TaxFilingExport = {
+      content: buildFireFile(toFile, payer, options),
+      fileName: `IRS_FIRE_${options.taxYear}${options.correction ? '_CORRECTED' : ''}${options.test ? '_TEST' : ''}.txt`,
+      mimeType: 'text/plain',
+      forms: toFile,
+    };
+
+    await logFilingExport(businessId, userId, 'irs_fire', '1099', options.taxYear, result);
+    return result;
+  },
+
+  /**
+   * Build the CRA T5018 XML return for the year
+   */
+  async exportT5018Xml(
+    businessId: string,
+    userId: string,
+    forms: VendorTaxForm[],
+    payer: TaxFilingPayer,
+    options: { taxYear: number; amended: boolean }
+  ): Promise<TaxFilingExport> {
+    const toFile = this.getFormsToFile(forms, options.amended).filter(f => f.form_type === 'T5018');
+
+    const result: TaxFilingExport = {
+      content: buildT5018Xml(toFile, payer, options),
+      fileName: `T5018_${options.taxYear}${options.amended ? '_AMENDED' : ''}.xml`,
+      mimeType: 'application/xml',
+      forms: toFile,
+    };
+
+    await logFilingExport(businessId, userId, 'cra_xml', 'T5018', options.taxYear, result);
+    return result;
+  },
+};
@@ -275,6 +275,8 @@ export interface Property {
   default_application_template_id?: string;
   // Online applications (v5.7.0+)
   accept_online_applications?: boolean | null;
+  // Null uses the business base currency
+  currency_code?: string | null;
 }
 
 export interface Unit {
@@ -381,6 +383,8 @@ export interface Lease {
   signed_date?: string;
   auto_renew: boolean;
   renewed_to_lease_id?: string;
+  // Schedule generated by the recurring charge engine
+  auto_generate_schedule?: boolean;
   notes?: string;
   terms_and_conditions?: string;
   created_at: string;
@@ -415,6 +419,16 @@ export interface PaymentSchedule {
   due_amount: number;
   paid_amount?: number;
   is_paid: boolean;
+  payment_type?: string;
+  description?: string;
+  paid_date?: string;
+  notes?: string;
+  // Written by the recurring charge engine
+  is_generated?: boolean;
+  period_start?: string;
+  period_end?: string;
+  is_prorated?: boolean;
+  recurring_charge_id?: string;
   created_at: string;
   updated_at: string;
 }
@@ -475,6 +489,8 @@ export interface MaintenanceRequest {
   entry_notes?: string;
   estimated_cost_cents?: number;
   actual_cost_cents?: number;
+  // Vendor doing the work, billed through accounts payable
+  vendor_id?: string;
   photos?: string[];
   resolution_notes?: string;
   created_at: string;
@@ -918,15 +934,89 @@ export interface Currency {
   created_at: string;
 }
 
+export type ExchangeRateSource = 'manual' | 'api' | 'bank' | 'import';
+
+export type ExchangeRateProvider = 'csv' | 'boc' | 'ecb';
+
 export interface ExchangeRate {
   id: string;
+  // Null for system-wide rates
+  business_id?: string | null;
   from_currency: string;
   to_currency: string;
   rate: number;
   effective_date: string;
-  source: 'manual' | 'api' | 'bank';
+  source: ExchangeRateSource;
+  provider?: ExchangeRateProvider | null;
+  import_id?: string | null;
+  // Set on rates carried forward over a weekend or holiday
+  filled_from_date?: string | null;
+  created_at: string;
+  created_by?: string;
+}
+
+export type ExchangeRateImportTrigger = 'upload' | 'fetch' | 'scheduled';
+
+export interface ExchangeRateImport {
+  id: string;
+  business_id: string;
+  provider: ExchangeRateProvider;
+  trigger_source: ExchangeRateImportTrigger;
+  file_name?: string | null;
+  source_url?: string | null;
+  status: 'succeeded' | 'failed';
+  start_date?: string | null;
+  end_date?: string | null;
+  rates_imported: number;
+  rates_filled: number;
+  skipped_currencies: string[];
+  error_message?: string | null;
+  created_by?: string | null;
   created_at: string;
+}
+
+// A rate found for a conversion, inverted when only the reverse pair exists
+export interface ResolvedExchangeRate {
+  rate: number;
+  effectiveDate: string;
+  rateId: string;
+  inverted: boolean;
+}
+
+export type FxRevaluationKind = 'realized' | 'unrealized';
+
+export interface FxRevaluation {
+  id: string;
+  business_id: string;
+  fiscal_period_id?: string | null;
+  base_currency: string;
+  revaluation_date: string;
+  reversal_date: string;
+  realized_journal_id?: string | null;
+  unrealized_journal_id?: string | null;
+  reversal_journal_id?: string | null;
+  realized_cents: number;
+  unrealized_cents: number;
   created_by?: string;
+  created_at: string;
+  // Joined data
+  lines?: FxRevaluationLine[];
+}
+
+export interface FxRevaluationLine {
+  id: string;
+  revaluation_id: string;
+  account_id: string;
+  currency_code: string;
+  kind: FxRevaluationKind;
+  foreign_balance_cents: number;
+  booked_base_cents: number;
+  closing_rate?: number | null;
+  revalued_base_cents: number;
+  adjustment_cents: number;
+  created_at: string;
+  // Joined data
+  account?: Pick<GLAccount, 'account_number' | 'account_name'>;
 }
 
 // Tax Types
@@ -967,6 +1057,19 @@ export interface BusinessAccountingSettings {
   auto_post_rent_payments: boolean;
   auto_post_expenses: boolean;
   auto_post_security_deposits: boolean;
+  auto_post_start_date?: string;
+  last_posting_sweep_at?: string;
+  rate_provider?: ExchangeRateProvider | null;
+  rate_provider_url?: string | null;
+  rate_auto_import?: boolean;
+  tax_payer_name?: string | null;
+  irs_payer_tin?: string | null;
+  irs_transmitter_control_code?: string | null;
+  cra_payer_account?: string | null;
+  cra_transmitter_number?: string | null;
+  tax_contact_name?: string | null;
+  tax_contact_phone?: string | null;
+  tax_contact_email?: string | null;
   require_journal_approval: boolean;
   approval_threshold_cents: number;
   next_journal_number: number;
@@ -1058,7 +1161,7 @@ export type VendorPaymentTerms =
   | 'due_on_receipt' | 'net_10' | 'net_15' | 'net_30'
   | 'net_45' | 'net_60' | 'net_90' | 'custom';
 
-export type VendorTaxIdType = 'bn' | 'gst' | 'ein' | 'ssn' | 'vat' | 'abn' | 'other';
+export type VendorTaxIdType = 'bn' | 'gst' | 'ein' | 'ssn' | 'sin' | 'vat' | 'abn' | 'other';
 
 export type VendorTaxFormType = '1099-MISC' | '1099-NEC' | '1099-INT' | '1099-DIV' | 'T5018' | 'T4A';
 
@@ -1110,6 +1213,22 @@ export interface Vendor {
 
 export type VendorTaxFormStatus = 'pending' | 'generated' | 'sent' | 'filed' | 'corrected';
 
+export type VendorTaxFormSentMethod = 'mail' | 'email' | 'portal';
+
+// Recipient details as printed on a generated form
+export interface VendorTaxFormRecipient {
+  name: string;
+  tin?: string;
+  tinType?: VendorTaxIdType;
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country: string;
+  email?: string;
+}
+
 export interface VendorTaxForm {
   id: string;
   vendor_id: string;
@@ -1124,8 +1243,314 @@ export interface VendorTaxForm {
   filed_at?: string;
   filed_by?: string;
   document_url?: string;
+  payment_count: number;
+  recipient?: VendorTaxFormRecipient | null;
+  sent_method?: VendorTaxFormSentMethod | null;
+  filing_reference?: string | null;
+  correction_count: number;
+  corrected_at?: string | null;
+  correction_reason?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VendorTaxFormHistory {
+  id: string;
+  tax_form_id: string;
+  business_id: string;
+  from_status?: VendorTaxFormStatus | null;
+  to_status: VendorTaxFormStatus;
+  total_payments_cents: number;
+  box_amounts?: Record<string, number>;
+  recipient?: VendorTaxFormRecipient | null;
+  note?: string | null;
+  created_by?: string;
+  created_at: string;
+}
+
+// Accounts Payable Types
+export type VendorBillStatus =
+  | 'draft' | 'pending_approval' | 'approved' | 'partially_paid' | 'paid' | 'void';
+
+export type VendorPaymentMethod = 'ach' | 'check' | 'other';
+
+export interface VendorBillLine {
+  id: string;
+  bill_id: string;
+  business_id: string;
+  line_number: number;
+  account_id: string;
+  property_id?: string;
+  unit_id?: string;
+  description?: string;
+  amount_cents: number;
+  tax_rate_id?: string;
+  tax_amount_cents: number;
+  created_at: string;
+  // Joined data
+  account?: GLAccount;
+  property?: Property;
+  unit?: Unit;
+}
+
+export interface VendorBill {
+  id: string;
+  business_id: string;
+  vendor_id: string;
+  bill_number?: string;
+  bill_date: string;
+  due_date: string;
+  currency_code: string;
+  status: VendorBillStatus;
+  subtotal_cents: number;
+  tax_cents: number;
+  total_cents: number;
+  amount_paid_cents: number;
+  memo?: string;
+  maintenance_request_id?: string;
+  submitted_by?: string;
+  submitted_at?: string;
+  approved_by?: string;
+  approved_at?: string;
+  rejected_by?: string;
+  rejected_at?: string;
+  rejection_reason?: string;
+  journal_id?: string;
+  voided_by?: string;
+  voided_at?: string;
+  void_reason?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  vendor?: Vendor;
+  lines?: VendorBillLine[];
+}
+
+export interface VendorPaymentRun {
+  id: string;
+  business_id: string;
+  payment_date: string;
+  bank_account_id: string;
+  status: 'completed' | 'void';
+  bill_count: number;
+  total_cents: number;
+  memo?: string;
+  journal_id?: string;
+  voided_by?: string;
+  voided_at?: string;
+  void_reason?: string;
+  created_by?: string;
+  created_at: string;
+  // Joined data
+  bank_account?: GLAccount;
+  payments?: VendorBillPayment[];
+}
+
+export interface VendorBillPayment {
+  id: string;
+  business_id: string;
+  bill_id: string;
+  vendor_id: string;
+  payment_run_id?: string;
+  payment_date: string;
+  amount_cents: number;
+  payment_method: VendorPaymentMethod;
+  reference?: string;
+  is_void: boolean;
+  created_by?: string;
+  created_at: string;
+  // Joined data
+  bill?: VendorBill;
+  vendor?: Vendor;
+}
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export interface AgedPayablesRow {
+  vendor_id: string;
+  vendor_name: string;
+  buckets: Record<AgingBucket, number>;
+  total_cents: number;
+  bills: Array<{
+    bill_id: string;
+    bill_number?: string;
+    bill_date: string;
+    due_date: string;
+    days_past_due: number;
+    bucket: AgingBucket;
+    balance_cents: number;
+  }>;
+}
+
+export interface AgedPayables {
+  business_id: string;
+  as_of_date: string;
+  rows: AgedPayablesRow[];
+  totals: Record<AgingBucket, number>;
+  total_cents: number;
+}
+
+// Collections Types
+export type CollectionActionType = 'reminder' | 'formal_notice' | 'payment_plan_offer' | 'handoff';
+
+export type CollectionCaseStatus = 'open' | 'handed_off' | 'resolved';
+
+export type CollectionResolution = 'paid' | 'payment_plan' | 'written_off' | 'other';
+
+export type CollectionContactMethod = 'email' | 'phone' | 'sms' | 'letter' | 'in_person' | 'other';
+
+export type CollectionContactOutcome =
+  | 'sent' | 'not_sent' | 'no_answer' | 'left_message' | 'spoke'
+  | 'promised_to_pay' | 'disputed' | 'paid' | 'other';
+
+export interface CollectionStep {
+  id: string;
+  business_id: string;
+  step_order: number;
+  name: string;
+  action_type: CollectionActionType;
+  days_past_due: number;
+  min_balance_cents: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CollectionCase {
+  id: string;
+  business_id: string;
+  tenant_id: string;
+  status: CollectionCaseStatus;
+  balance_cents: number;
+  past_due_cents: number;
+  oldest_due_date?: string;
+  days_past_due: number;
+  current_step_id?: string;
+  current_step_order: number;
+  last_action_at?: string;
+  paused_until?: string;
+  opened_at: string;
+  handed_off_at?: string;
+  resolved_at?: string;
+  resolved_by?: string;
+  resolution?: CollectionResolution;
+  resolution_notes?: string;
   created_at: string;
   updated_at: string;
+  // Joined data
+  tenant?: Pick<Tenant, 'id' | 'first_name' | 'last_name' | 'email' | 'phone' | 'unit_id'> & {
+    unit?: { id: string; unit_number: string; property?: { id: string; name: string } };
+  };
+  current_step?: CollectionStep;
+}
+
+export interface CollectionContact {
+  id: string;
+  business_id: string;
+  tenant_id: string;
+  case_id?: string;
+  step_id?: string;
+  contact_date: string;
+  contact_method: CollectionContactMethod;
+  direction: 'outbound' | 'inbound';
+  outcome: CollectionContactOutcome;
+  notification_id?: string;
+  promised_amount_cents?: number;
+  promised_date?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  // Joined data
+  step?: Pick<CollectionStep, 'id' | 'name' | 'action_type'>;
+}
+
+export interface ReceivablesAgingRow {
+  tenant_id: string;
+  tenant_name: string;
+  tenant_email?: string;
+  is_current_tenant: boolean;
+  property_id?: string;
+  property_name: string;
+  unit_id?: string;
+  unit_number: string;
+  buckets: Record<AgingBucket, number>;
+  total_cents: number;
+  // Payments and credits not yet applied to a charge
+  unapplied_credit_cents: number;
+  oldest_due_date?: string;
+  days_past_due: number;
+}
+
+export interface ReceivablesAgingProperty {
+  property_id?: string;
+  property_name: string;
+  buckets: Record<AgingBucket, number>;
+  total_cents: number;
+}
+
+export interface ReceivablesAging {
+  business_id: string;
+  as_of_date: string;
+  property_id?: string;
+  rows: ReceivablesAgingRow[];
+  properties: ReceivablesAgingProperty[];
+  totals: Record<AgingBucket, number>;
+  total_cents: number;
+  unapplied_credit_cents: number;
+}
+
+// Payment Plan Types
+export type PaymentPlanStatus = 'proposed' | 'active' | 'completed' | 'defaulted' | 'cancelled';
+
+export type PaymentPlanFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export type PaymentPlanInstallmentStatus = 'pending' | 'met' | 'missed';
+
+export interface PaymentPlanInstallment {
+  id: string;
+  plan_id: string;
+  business_id: string;
+  installment_number: number;
+  due_date: string;
+  amount_cents: number;
+  status: PaymentPlanInstallmentStatus;
+  evaluated_at?: string;
+  reminder_notification_id?: string;
+  created_at: string;
+}
+
+export interface PaymentPlan {
+  id: string;
+  business_id: string;
+  tenant_id: string;
+  lease_id: string;
+  collection_case_id?: string;
+  status: PaymentPlanStatus;
+  total_cents: number;
+  installment_count: number;
+  frequency: PaymentPlanFrequency;
+  first_due_date: string;
+  grace_days: number;
+  terms?: string;
+  expires_on?: string;
+  starts_on?: string;
+  proposed_by?: string;
+  proposed_at: string;
+  accepted_by?: string;
+  accepted_at?: string;
+  completed_at?: string;
+  defaulted_at?: string;
+  cancelled_by?: string;
+  cancelled_at?: string;
+  cancel_reason?: string;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  tenant?: Pick<Tenant, 'id' | 'first_name' | 'last_name' | 'email' | 'unit_id'> & {
+    unit?: { id: string; unit_number: string; property?: { id: string; name: string } };
+  };
+  installments?: PaymentPlanInstallment[];
 }
 
 // Journal Types
@@ -1138,7 +1563,9 @@ export type JournalSourceType =
   | 'manual' | 'rent_payment' | 'expense' | 'security_deposit'
   | 'late_fee' | 'refund' | 'transfer' | 'depreciation'
   | 'bank_fee' | 'interest' | 'adjustment' | 'import'
-  | 'reversal' | 'special_transaction';
+  | 'reversal' | 'special_transaction' | 'vendor_bill' | 'bill_payment'
+  | 'rent_charge' | 'expense_payment' | 'fx_revaluation' | 'year_end_close'
+  | 'owner_distribution';
 
 export type JournalStatus = 'draft' | 'pending_approval' | 'approved' | 'posted' | 'void' | 'reversed';
 
@@ -1154,6 +1581,8 @@ export interface GLJournal {
   transaction_currency: string;
   exchange_rate: number;
   exchange_rate_date?: string;
+  exchange_rate_id?: string | null;
+  exchange_rate_inverted?: boolean;
   status: JournalStatus;
   total_debit_cents: number;
   total_credit_cents: number;
@@ -1225,7 +1654,266 @@ export interface GLLedgerEntry {
   unit_id?: string;
   fiscal_year: number;
   fiscal_period: number;
+  // Posted by a year-end closing journal
+  is_closing_entry?: boolean;
+  created_at: string;
+}
+
+// GL Auto-Posting Types
+export type PostingSourceType = 'rent_payment' | 'expense' | 'late_fee' | 'rent_charge';
+
+export type UnpostedTransactionStatus = 'pending' | 'resolved' | 'dismissed';
+
+export interface UnpostedTransaction {
+  id: string;
+  business_id: string;
+  source_type: PostingSourceType;
+  source_id: string;
+  transaction_date?: string;
+  amount_cents?: number;
+  description?: string;
+  error_message: string;
+  attempts: number;
+  last_attempt_at?: string;
+  status: UnpostedTransactionStatus;
+  resolved_at?: string;
+  dismissed_by?: string;
+  dismissed_at?: string;
+  dismiss_reason?: string;
   created_at: string;
+  updated_at: string;
+}
+
+export interface PostingSweepResult {
+  checked: number;
+  posted: number;
+  failed: number;
+}
+
+// Bank Reconciliation Types
+export type BankStatementFormat = 'ofx' | 'qfx' | 'csv';
+export type BankStatementLineStatus = 'unmatched' | 'matched' | 'excluded';
+export type BankMatchType = 'auto' | 'manual' | 'created';
+export type BankReconciliationStatus = 'in_progress' | 'completed';
+
+export interface BankStatement {
+  id: string;
+  business_id: string;
+  account_id: string;
+  statement_start_date: string;
+  statement_end_date: string;
+  opening_balance_cents?: number;
+  closing_balance_cents?: number;
+  currency_code?: string;
+  file_name?: string;
+  file_format: BankStatementFormat;
+  line_count: number;
+  duplicate_count: number;
+  imported_by?: string;
+  created_at: string;
+}
+
+export interface BankStatementLine {
+  id: string;
+  statement_id: string;
+  business_id: string;
+  account_id: string;
+  transaction_date: string;
+  amount_cents: number; // Positive for deposits, negative for withdrawals
+  description?: string;
+  reference?: string;
+  external_id: string;
+  status: BankStatementLineStatus;
+  reconciliation_id?: string;
+  created_at: string;
+  // Joined data
+  matches?: BankStatementMatch[];
+}
+
+export interface BankStatementMatch {
+  id: string;
+  line_id: string;
+  journal_entry_id: string;
+  business_id: string;
+  amount_cents: number;
+  match_type: BankMatchType;
+  confidence?: number;
+  matched_by?: string;
+  created_at: string;
+}
+
+export interface BankReconciliation {
+  id: string;
+  business_id: string;
+  account_id: string;
+  statement_id?: string;
+  period_start: string;
+  period_end: string;
+  statement_ending_balance_cents: number;
+  book_balance_cents?: number;
+  cleared_balance_cents?: number;
+  difference_cents?: number;
+  status: BankReconciliationStatus;
+  notes?: string;
+  completed_by?: string;
+  completed_at?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Security Deposit Types
+export type LeaseDepositType = 'security' | 'pet';
+export type LeaseDepositStatus = 'held' | 'disposed';
+export type DepositTransactionType = 'receipt' | 'interest' | 'deduction' | 'refund';
+export type DepositDeductionCategory =
+  | 'damage' | 'cleaning' | 'unpaid_rent' | 'late_fee' | 'utilities' | 'other';
+
+export interface LeaseDeposit {
+  id: string;
+  business_id: string;
+  lease_id: string;
+  unit_id?: string;
+  tenant_id?: string;
+  deposit_type: LeaseDepositType;
+  required_cents: number;
+  balance_cents: number;
+  currency_code: string;
+  jurisdiction?: string;
+  region_code?: string;
+  interest_accrued_through?: string;
+  status: LeaseDepositStatus;
+  move_out_date?: string;
+  deductions_cents?: number;
+  refund_cents?: number;
+  disposition_journal_id?: string;
+  disposition_notes?: string;
+  disposed_by?: string;
+  disposed_at?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  lease?: Pick<Lease, 'id' | 'start_date' | 'end_date' | 'status'>;
+  unit?: { id: string; unit_number: string; property?: { id: string; name: string; state?: string } };
+  tenant?: Pick<Tenant, 'id' | 'first_name' | 'last_name' | 'email'>;
+}
+
+export interface LeaseDepositTransaction {
+  id: string;
+  deposit_id: string;
+  business_id: string;
+  transaction_type: DepositTransactionType;
+  amount_cents: number;
+  transaction_date: string;
+  description?: string;
+  payment_method?: string;
+  reference?: string;
+  rent_payment_id?: string;
+  deduction_category?: DepositDeductionCategory;
+  late_fee_id?: string;
+  payment_schedule_id?: string;
+  inspection_item_id?: string;
+  interest_from?: string;
+  interest_to?: string;
+  interest_details?: Record<string, unknown>;
+  gl_journal_id?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface DepositInterestRate {
+  id: string;
+  business_id?: string;
+  jurisdiction: string;
+  region_code: string;
+  effective_year: number;
+  rate_percent: number;
+  source?: string;
+  created_at: string;
+}
+
+// Unit Inspection Types
+export type InspectionType = 'move_in' | 'move_out' | 'periodic';
+export type InspectionStatus = 'in_progress' | 'completed' | 'signed';
+export type InspectionConditionRating =
+  | 'excellent' | 'good' | 'fair' | 'poor' | 'damaged' | 'not_applicable';
+
+export interface InspectionTemplateRoom {
+  name: string;
+  items: string[];
+}
+
+export interface InspectionTemplate {
+  id: string;
+  business_id: string;
+  name: string;
+  description?: string;
+  rooms: InspectionTemplateRoom[];
+  is_default: boolean;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UnitInspection {
+  id: string;
+  business_id: string;
+  unit_id: string;
+  lease_id?: string;
+  tenant_id?: string;
+  template_id?: string;
+  inspection_type: InspectionType;
+  inspection_date: string;
+  status: InspectionStatus;
+  general_notes?: string;
+  inspector_id?: string;
+  inspector_name?: string;
+  inspector_signature?: string;
+  inspector_signature_method?: 'digital' | 'typed';
+  inspector_signed_at?: string;
+  tenant_signer_name?: string;
+  tenant_signature?: string;
+  tenant_signature_method?: 'digital' | 'typed';
+  tenant_signed_at?: string;
+  tenant_comments?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  unit?: { id: string; unit_number: string; property?: { id: string; name: string; address_line1?: string } };
+  tenant?: Pick<Tenant, 'id' | 'first_name' | 'last_name' | 'email'>;
+  items?: UnitInspectionItem[];
+  photos?: InspectionPhoto[];
+}
+
+export interface UnitInspectionItem {
+  id: string;
+  inspection_id: string;
+  room_name: string;
+  item_name: string;
+  sort_order: number;
+  condition_rating?: InspectionConditionRating;
+  notes?: string;
+  is_damage: boolean;
+  estimated_cost_cents?: number;
+  maintenance_request_id?: string;
+  deposit_charge_cents?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InspectionPhoto {
+  id: string;
+  inspection_id: string;
+  item_id?: string;
+  file_name: string;
+  file_url: string;
+  file_size?: number;
+  mime_type?: string;
+  caption?: string;
+  uploaded_by?: string;
+  uploaded_at: string;
 }
 
 // Fiscal Period Types
@@ -1249,6 +1937,26 @@ export interface FiscalPeriod {
   updated_at: string;
 }
 
+export type FiscalPeriodEventAction =
+  | 'start_close' | 'cancel_close' | 'close' | 'reopen' | 'year_end_close';
+
+export interface FiscalPeriodEvent {
+  id: string;
+  business_id: string;
+  period_id: string;
+  action: FiscalPeriodEventAction;
+  from_status?: FiscalPeriodStatus;
+  to_status: FiscalPeriodStatus;
+  reason?: string;
+  // Checklist items still open when the action was taken
+  checklist?: Array<{ key: string; label: string; count: number }>;
+  journal_id?: string;
+  created_by?: string;
+  created_at: string;
+  // Joined data
+  created_by_name?: string;
+}
+
 // Budget Types
 export type BudgetType = 'annual' | 'quarterly' | 'monthly' | 'project' | 'property';
 export type BudgetStatus = 'draft' | 'pending_approval' | 'approved' | 'active' | 'closed' | 'archived';
@@ -1350,6 +2058,7 @@ export type AccountingExportFormat =
   | 'sage_csv' | 'simply_csv'
   | 'oracle_xml' | 'sap_xml'
   | 'saft_xml'
+  | 'irs_fire' | 'cra_xml'
   | 'csv' | 'json' | 'excel' | 'pdf';
 
 export type AccountingExportType =
@@ -1527,6 +2236,253 @@ export interface BudgetVarianceReport {
   total_variance_cents: number;
 }
 
+// Rent Roll Types
+export type RentRollOccupancy = 'occupied' | 'vacant';
+
+export interface RentRollRow {
+  unit_id: string;
+  property_id: string;
+  property_name: string;
+  unit_number: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  square_feet?: number;
+  occupancy: RentRollOccupancy;
+  tenant_id?: string;
+  tenant_name?: string;
+  lease_id?: string;
+  lease_start_date?: string;
+  lease_end_date?: string;
+  // Active lease past its end date, continuing month to month
+  is_holdover: boolean;
+  market_rent_cents: number;
+  lease_rent_cents: number;
+  deposits_held_cents: number;
+  // Charges due on or before the as-of date less payments received by then;
+  // negative when the tenant has prepaid
+  balance_owed_cents: number;
+  days_vacant?: number;
+}
+
+export interface RentRollSummary {
+  total_units: number;
+  occupied_units: number;
+  vacant_units: number;
+  occupancy_rate: number;
+  total_market_rent_cents: number;
+  total_lease_rent_cents: number;
+  // Market rent of occupied units above the rent they are leased at
+  loss_to_lease_cents: number;
+  // Market rent of vacant units
+  vacancy_loss_cents: number;
+  total_deposits_held_cents: number;
+  total_balance_owed_cents: number;
+}
+
+export interface RentRoll {
+  business_id: string;
+  property_id?: string;
+  property_name?: string;
+  as_of_date: string;
+  rows: RentRollRow[];
+  summary: RentRollSummary;
+  generated_at: string;
+}
+
+export interface RentRollSnapshot {
+  id: string;
+  business_id: string;
+  property_id?: string;
+  as_of_date: string;
+  rows: RentRollRow[];
+  summary: RentRollSummary;
+  notes?: string;
+  shared_with_owners: boolean;
+  created_by?: string;
+  created_at: string;
+  property?: { id: string; name: string };
+}
+
+// Recurring Charge Types
+export type LeaseRecurringChargeType = 'parking' | 'storage' | 'utilities' | 'pet_rent' | 'other';
+
+export interface LeaseRecurringCharge {
+  id: string;
+  business_id: string;
+  lease_id: string;
+  charge_type: LeaseRecurringChargeType;
+  description: string;
+  // Monthly amount
+  amount_cents: number;
+  start_date: string;
+  end_date?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeaseRentChange {
+  id: string;
+  business_id: string;
+  lease_id: string;
+  effective_date: string;
+  monthly_rent_cents: number;
+  previous_rent_cents?: number;
+  reason?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+// Tenant Ledger Types
+export type TenantLedgerEntryType = 'charge' | 'payment' | 'credit' | 'adjustment';
+export type TenantLedgerManualEntryType = Exclude<TenantLedgerEntryType, 'payment'>;
+export type TenantLedgerSource =
+  | 'payment_schedule' | 'late_fee' | 'late_fee_waiver' | 'rent_payment'
+  | 'refund' | 'deposit_deduction' | 'manual';
+
+export interface TenantLedgerEntry {
+  id: string;
+  business_id: string;
+  tenant_id: string;
+  lease_id?: string;
+  entry_type: TenantLedgerManualEntryType;
+  entry_date: string;
+  description: string;
+  // Positive for charges and credits; signed for adjustments
+  amount_cents: number;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface TenantLedgerLine {
+  // <source>:<source record id>
+  id: string;
+  entry_date: string;
+  entry_type: TenantLedgerEntryType;
+  source: TenantLedgerSource;
+  source_id: string;
+  description: string;
+  reference?: string;
+  // Signed: positive increases what the tenant owes
+  amount_cents: number;
+  balance_cents: number;
+}
+
+export interface TenantLedger {
+  tenant_id: string;
+  tenant_name: string;
+  tenant_email?: string;
+  business_id: string;
+  unit_id: string;
+  unit_label: string;
+  start_date?: string;
+  end_date: string;
+  opening_balance_cents: number;
+  lines: TenantLedgerLine[];
+  total_charges_cents: number;
+  total_payments_cents: number;
+  total_credits_cents: number;
+  // Net of adjustments; negative when they reduced the balance
+  total_adjustments_cents: number;
+  // Negative when the tenant is in credit
+  closing_balance_cents: number;
+  generated_at: string;
+}
+
+// Owner Statement Types
+export type ManagementFeeType = 'percentage' | 'flat' | 'none';
+export type OwnerStatementStatus = 'draft' | 'published' | 'void';
+
+export interface PropertyManagementTerms {
+  id: string;
+  business_id: string;
+  property_id: string;
+  fee_type: ManagementFeeType;
+  // Percentage of collected income, for percentage fees
+  fee_percentage: number;
+  // Monthly amount, for flat fees
+  fee_flat_cents: number;
+  reserve_target_cents: number;
+  notes?: string;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OwnerStatementItem {
+  date: string;
+  description: string;
+  // Whole-property amount
+  amount_cents: number;
+}
+
+export interface OwnerStatementLine {
+  id: string;
+  statement_id: string;
+  business_id: string;
+  property_id?: string;
+  property_name: string;
+  ownership_percentage: number;
+  gross_income_cents: number;
+  gross_expense_cents: number;
+  gross_management_fee_cents: number;
+  // Owner's share
+  income_cents: number;
+  expense_cents: number;
+  management_fee_cents: number;
+  // Shortfall brought forward; zero or negative
+  opening_balance_cents: number;
+  // Negative when the reserve was released to cover a shortfall
+  reserve_change_cents: number;
+  reserve_balance_cents: number;
+  // Shortfall carried forward; zero or negative
+  closing_balance_cents: number;
+  distribution_cents: number;
+  details: { income?: OwnerStatementItem[]; expenses?: OwnerStatementItem[] };
+  created_at: string;
+}
+
+export interface OwnerStatement {
+  id: string;
+  business_id: string;
+  owner_id: string;
+  period_start: string;
+  period_end: string;
+  currency_code: string;
+  status: OwnerStatementStatus;
+  income_cents: number;
+  expense_cents: number;
+  management_fee_cents: number;
+  reserve_change_cents: number;
+  reserve_balance_cents: number;
+  opening_balance_cents: number;
+  closing_balance_cents: number;
+  distribution_cents: number;
+  journal_id?: string;
+  published_at?: string;
+  published_by?: string;
+  voided_at?: string;
+  voided_by?: string;
+  void_reason?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  owner?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    company_name?: string;
+    email: string;
+    address_line1?: string;
+    address_line2?: string;
+    city?: string;
+    state?: string;
+    postal_code?: string;
+  };
+  lines?: OwnerStatementLine[];
+}
+
 // GL Account Mapping for auto-posting
 export interface GLAccountMapping {
   source_type: JournalSourceType;
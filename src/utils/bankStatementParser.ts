@@ -0,0 +1,316 @@
+/**
+ * Bank Statement Parser
+ * Reads OFX/QFX (SGML 1.x and XML 2.x) and CSV bank statement files
+ */
+
+import type { BankStatementFormat } from '../types';
+import { parseCSVRows } from '../../supabase/functions/_shared/csv';
+
+export interface ParsedBankTransaction {
+  date: string; // YYYY-MM-DD
+  amountCents: number; // Positive for deposits, negative for withdrawals
+  description: string;
+  reference?: string;
+  externalId: string;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  startDate: string;
+  endDate: string;
+  openingBalanceCents?: number;
+  closingBalanceCents?: number;
+  currency?: string;
+  transactions: ParsedBankTransaction[];
+}
+
+export type CSVDateOrder = 'auto' | 'mdy' | 'dmy';
+
+export interface CSVColumnMapping {
+  date: number;
+  description: number;
+  amount?: number; // Signed amount column
+  debit?: number; // Money out (used with credit when there is no amount column)
+  credit?: number; // Money in
+  reference?: number;
+  balance?: number;
+}
+
+export interface CSVParseOptions {
+  mapping?: CSVColumnMapping;
+  dateOrder?: CSVDateOrder;
+}
+
+/**
+ * Parse a money string such as "1,234.56", "-12.00", "(45.10)" or "$9.99" to cents
+ */
+export function parseMoneyToCents(value: string): number | null {
+  let text = value.trim().replace(/[$€£\s]/g, '');
+  if (!text) return null;
+
+  let negative = false;
+  if (text.startsWith('(') && text.endsWith(')')) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  // "1.234,56" or "12,50" use a decimal comma
+  if (/,\d{1,2}$/.test(text) && !/\.\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return null;
+
+  const cents = Math.round(amount * 100);
+  return negative ? -Math.abs(cents) : cents;
+}
+
+function detectFormat(fileName: string, content: string): BankStatementFormat {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.qfx')) return 'qfx';
+  if (lower.endsWith('.ofx')) return 'ofx';
+  if (/<OFX>/i.test(content) || /OFXHEADER/i.test(content)) return 'ofx';
+  return 'csv';
+}
+
+/**
+ * Parse a statement file, choosing the parser from the file name or content
+ */
+export function parseBankStatement(
+  fileName: string,
+  content: string,
+  csvOptions?: CSVParseOptions
+): ParsedBankStatement {
+  const format = detectFormat(fileName, content);
+  if (format === 'csv') {
+    return parseBankCSV(content, csvOptions);
+  }
+  return { ...parseOFX(content), format };
+}
+
+// ========================================
+// OFX / QFX
+// ========================================
+
+// Leaf elements in OFX 1.x SGML are not closed, so read up to the next tag or line break
+function ofxValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1]?.trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// OFX dates look like 20240131, 20240131120000 or 20240131120000.000[-5:EST]
+function ofxDate(value?: string): string | undefined {
+  if (!value || !/^\d{8}/.test(value)) return undefined;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+/**
+ * Parse an OFX or QFX statement (bank or credit card)
+ */
+export function parseOFX(content: string): ParsedBankStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  const transactions: ParsedBankTransaction[] = [];
+  for (const block of blocks) {
+    const date = ofxDate(ofxValue(block, 'DTPOSTED'));
+    const amountCents = parseMoneyToCents(ofxValue(block, 'TRNAMT') || '');
+    if (!date || amountCents === null) continue;
+
+    const name = ofxValue(block, 'NAME') || ofxValue(block, 'PAYEE') || '';
+    const memo = ofxValue(block, 'MEMO') || '';
+    const reference = ofxValue(block, 'CHECKNUM') || ofxValue(block, 'REFNUM');
+    const fitId = ofxValue(block, 'FITID');
+
+    transactions.push({
+      date,
+      amountCents,
+      description: [name, memo].filter(Boolean).join(' - ') || ofxValue(block, 'TRNTYPE') || '',
+      reference,
+      externalId: fitId ? `ofx:${fitId}` : `ofx:${date}:${amountCents}:${name}:${reference || ''}`,
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new Error('No transactions found in the OFX file');
+  }
+
+  const dates = transactions.map(t => t.date).sort();
+  const tranList = content.match(/<BANKTRANLIST>[\s\S]*?<\/BANKTRANLIST>/i)?.[0] || content;
+  const ledgerBalance = content.match(/<LEDGERBAL>[\s\S]*?<\/LEDGERBAL>/i)?.[0];
+  const closing = ledgerBalance ? parseMoneyToCents(ofxValue(ledgerBalance, 'BALAMT') || '') : null;
+
+  return {
+    format: 'ofx',
+    startDate: ofxDate(ofxValue(tranList, 'DTSTART')) || dates[0]!,
+    endDate: ofxDate(ofxValue(tranList, 'DTEND')) || dates[dates.length - 1]!,
+    closingBalanceCents: closing ?? undefined,
+    currency: ofxValue(content, 'CURDEF'),
+    transactions,
+  };
+}
+
+// ========================================
+// CSV
+// ========================================
+
+const COLUMN_PATTERNS: Record<keyof CSVColumnMapping, RegExp> = {
+  date: /^(transaction |posted |posting |value )?date$|^date posted$/i,
+  description: /description|payee|details|narrative|^name$|^memo$/i,
+  amount: /^(transaction )?amount$/i,
+  debit: /debit|withdrawal|money out|paid out/i,
+  credit: /credit|deposit|money in|paid in/i,
+  reference: /reference|^ref|cheque|check|transaction id|fitid/i,
+  balance: /balance/i,
+};
+
+/**
+ * Guess column positions from a CSV header row
+ */
+export function detectCSVColumns(header: string[]): CSVColumnMapping | null {
+  const find = (key: keyof CSVColumnMapping) => {
+    const index = header.findIndex(h => COLUMN_PATTERNS[key].test(h.trim()));
+    return index >= 0 ? index : undefined;
+  };
+
+  const date = find('date');
+  const description = find('description');
+  const amount = find('amount');
+  const debit = find('debit');
+  const credit = find('credit');
+
+  if (date === undefined || description === undefined) return null;
+  if (amount === undefined && debit === undefined && credit === undefined) return null;
+
+  return { date, description, amount, debit, credit, reference: find('reference'), balance: find('balance') };
+}
+
+function parseCSVDate(value: string, order: 'mdy' | 'dmy'): string | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]!.padStart(2, '0')}-${iso[3]!.padStart(2, '0')}`;
+  }
+
+  const parts = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (!parts) return null;
+
+  const [first, second] = [parts[1]!, parts[2]!];
+  const year = parts[3]!.length === 2 ? `20${parts[3]}` : parts[3]!;
+  const [month, day] = order === 'mdy' ? [first, second] : [second, first];
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// Day-first if any row's first component cannot be a month
+function detectDateOrder(values: string[]): 'mdy' | 'dmy' {
+  for (const value of values) {
+    const parts = value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}/);
+    if (parts && parseInt(parts[1]!, 10) > 12) return 'dmy';
+  }
+  return 'mdy';
+}
+
+/**
+ * Parse a CSV bank export. Columns are detected from the header unless a
+ * mapping is given.
+ */
+export function parseBankCSV(content: string, options: CSVParseOptions = {}): ParsedBankStatement {
+  const rows = parseCSVRows(content.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) {
+    throw new Error('The CSV file has no transactions');
+  }
+
+  const mapping = options.mapping || detectCSVColumns(rows[0]!);
+  if (!mapping) {
+    throw new Error('Could not find date, description and amount columns in the CSV header');
+  }
+
+  const dataRows = rows.slice(1);
+  const dateOrder = !options.dateOrder || options.dateOrder === 'auto'
+    ? detectDateOrder(dataRows.map(r => r[mapping.date] || ''))
+    : options.dateOrder;
+
+  const transactions: ParsedBankTransaction[] = [];
+  const seen = new Map<string, number>();
+  let lastBalanceCents: number | undefined;
+  let firstBalance: { balance: number; amount: number } | undefined;
+
+  for (const row of dataRows) {
+    const date = parseCSVDate(row[mapping.date] || '', dateOrder);
+    if (!date) continue;
+
+    let amountCents: number | null = null;
+    if (mapping.amount !== undefined) {
+      amountCents = parseMoneyToCents(row[mapping.amount] || '');
+    } else {
+      // Banks show both columns as positive numbers
+      const debit = mapping.debit !== undefined ? parseMoneyToCents(row[mapping.debit] || '') : null;
+      const credit = mapping.credit !== undefined ? parseMoneyToCents(row[mapping.credit] || '') : null;
+      if (debit !== null || credit !== null) {
+        amountCents = Math.abs(credit || 0) - Math.abs(debit || 0);
+      }
+    }
+    if (amountCents === null || amountCents === 0) continue;
+
+    const description = (row[mapping.description] || '').trim();
+    const reference = mapping.reference !== undefined ? (row[mapping.reference] || '').trim() || undefined : undefined;
+
+    // Identical rows on the same day are real (e.g. two equal transfers), so
+    // number them to keep their IDs distinct but stable across re-imports
+    const key = `${date}:${amountCents}:${description.toLowerCase().slice(0, 80)}:${reference || ''}`;
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+
+    transactions.push({
+      date,
+      amountCents,
+      description,
+      reference,
+      externalId: `csv:${key}:${occurrence}`,
+    });
+
+    if (mapping.balance !== undefined) {
+      const balance = parseMoneyToCents(row[mapping.balance] || '');
+      if (balance !== null) {
+        lastBalanceCents = balance;
+        if (!firstBalance) firstBalance = { balance, amount: amountCents };
+      }
+    }
+  }
+
+  if (transactions.length === 0) {
+    throw new Error('No transactions found in the CSV file');
+  }
+
+  // Running balances tell us the statement balances, but only if the rows
+  // are in date order (some banks export newest first)
+  const inOrder = transactions[0]!.date <= transactions[transactions.length - 1]!.date;
+  const dates = transactions.map(t => t.date).sort();
+
+  return {
+    format: 'csv',
+    startDate: dates[0]!,
+    endDate: dates[dates.length - 1]!,
+    openingBalanceCents: inOrder && firstBalance ? firstBalance.balance - firstBalance.amount : undefined,
+    closingBalanceCents: inOrder ? lastBalanceCents : undefined,
+    transactions,
+  };
+}
@@ -147,3 +147,13 @@ export const generateSecureInvitationCode = (length: number = 12): string => {
   crypto.getRandomValues(array);
   return Array.from(array, byte => charset[byte % charset.length]).join('');
 };
+
+/**
+ * SHA-256 digest as lowercase hex. Strings are hashed as UTF-8, matching
+ * Postgres sha256(convert_to(text, 'UTF8'))
+ */
+export const sha256Hex = async (data: string | ArrayBuffer | Uint8Array): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,169 @@
+/**
+ * Deposit Interest
+ * Jurisdiction rules and calculation of interest owed to tenants on deposits
+ */
+
+export type DepositInterestMethod =
+  // Interest credited on each anniversary of the deposit, at the rate for
+  // the year the anniversary falls in (Ontario)
+  | 'anniversary'
+  // Interest for each calendar year at that year's rate, compounded annually (BC)
+  | 'calendar_year_compound'
+  // Simple interest at each calendar year's rate (business-defined rates)
+  | 'simple';
+
+export interface DepositInterestRule {
+  method: DepositInterestMethod;
+  label: string;
+}
+
+/**
+ * Statutory rules keyed by "<jurisdiction>-<region>"
+ */
+export const DEPOSIT_INTEREST_RULES: Record<string, DepositInterestRule> = {
+  'CA-ON': {
+    method: 'anniversary',
+    label: 'Ontario: annual interest at the rent increase guideline',
+  },
+  'CA-BC': {
+    method: 'calendar_year_compound',
+    label: 'British Columbia: regulated rate, compounded annually',
+  },
+};
+
+const DEFAULT_RULE: DepositInterestRule = {
+  method: 'simple',
+  label: 'Business-defined rate',
+};
+
+/**
+ * Get the interest rule for a jurisdiction and region. Jurisdictions without
+ * a statutory rule use simple interest, which only applies if the business
+ * has entered rates for them.
+ */
+export function getDepositInterestRule(jurisdiction?: string, regionCode?: string): {
+  rule: DepositInterestRule;
+  isStatutory: boolean;
+} {
+  const rule = DEPOSIT_INTEREST_RULES[`${jurisdiction || ''}-${regionCode || ''}`];
+  return rule ? { rule, isStatutory: true } : { rule: DEFAULT_RULE, isStatutory: false };
+}
+
+export interface DepositBalanceChange {
+  date: string;
+  amountCents: number; // Positive for receipts, negative for deductions/refunds
+}
+
+export interface DepositInterestPeriod {
+  from: string;
+  to: string;
+  ratePercent: number | null;
+  principalCents: number;
+  interestCents: number;
+}
+
+export interface DepositInterestResult {
+  interestCents: number;
+  periods: DepositInterestPeriod[];
+  missingYears: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (iso: string) => new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+const toISO = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Calculate interest on a deposit from fromDate (inclusive) to toDate
+ * (exclusive), day by day. Balance changes take effect on their date;
+ * anchorDate is the date the deposit was first received (anniversaries).
+ */
+export function calculateDepositInterest(input: {
+  method: DepositInterestMethod;
+  fromDate: string;
+  toDate: string;
+  anchorDate: string;
+  balanceChanges: DepositBalanceChange[];
+  ratesByYear: Map<number, number>;
+}): DepositInterestResult {
+  const start = toDate(input.fromDate);
+  const end = toDate(input.toDate);
+  const anchor = toDate(input.anchorDate);
+  const periods: DepositInterestPeriod[] = [];
+  const missingYears = new Set<number>();
+
+  let principal = input.balanceChanges
+    .filter(c => toDate(c.date) <= start)
+    .reduce((sum, c) => sum + c.amountCents, 0);
+  const laterChanges = input.balanceChanges.filter(c => toDate(c.date) > start);
+
+  // Year whose rate applies to a given day
+  const rateYear = (day: Date) => {
+    const year = day.getUTCFullYear();
+    if (input.method !== 'anniversary') return year;
+    const anniversary = Date.UTC(year, anchor.getUTCMonth(), anchor.getUTCDate());
+    return day.getTime() < anniversary ? year : year + 1;
+  };
+
+  // Days on which accrued interest is credited to the principal or a new period starts
+  const isBoundary = (day: Date) => {
+    if (input.method === 'anniversary') {
+      return day.getUTCMonth() === anchor.getUTCMonth() && day.getUTCDate() === anchor.getUTCDate();
+    }
+    return day.getUTCMonth() === 0 && day.getUTCDate() === 1;
+  };
+
+  let periodStart = start;
+  let periodPrincipal = principal;
+  let periodRate: number | null = null;
+  let accrued = 0;
+
+  const closePeriod = (periodEnd: Date) => {
+    if (periodEnd.getTime() <= periodStart.getTime()) return;
+    const interestCents = Math.round(accrued);
+    periods.push({
+      from: toISO(periodStart),
+      to: toISO(periodEnd),
+      ratePercent: periodRate,
+      principalCents: periodPrincipal,
+      interestCents,
+    });
+    if (input.method !== 'simple') {
+      principal += interestCents;
+    }
+    accrued = 0;
+  };
+
+  for (let day = start; day < end; day = new Date(day.getTime() + DAY_MS)) {
+    if (day > start && isBoundary(day)) {
+      closePeriod(day);
+      periodStart = day;
+      periodPrincipal = principal;
+    }
+
+    for (const change of laterChanges) {
+      if (toDate(change.date).getTime() === day.getTime()) {
+        principal += change.amountCents;
+      }
+    }
+
+    const year = rateYear(day);
+    const rate = input.ratesByYear.get(year);
+    if (rate === undefined) {
+      missingYears.add(year);
+    } else {
+      periodRate = rate;
+      if (principal > 0) {
+        accrued += (principal * rate) / 100 / 365;
+      }
+    }
+  }
+
+  closePeriod(end);
+
+  return {
+    interestCents: periods.reduce((sum, p) => sum + p.interestCents, 0),
+    periods,
+    missingYears: [...missingYears].sort(),
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Exchange Rate Providers
+ * The rate sources a business can choose from. The parsers themselves live in
+ * supabase/functions/_shared/exchangeRateParser.ts so the scheduled import
+ * reads feeds the same way.
+ */
+
+import type { ExchangeRateProvider } from '../types';
+import {
+  ParsedExchangeRate,
+  RATE_FEED_URLS,
+  parseRateCSV,
+  parseBankOfCanada,
+  parseECB,
+} from '../../supabase/functions/_shared/exchangeRateParser';
+
+export {
+  isAllowedRateFeedUrl,
+  quoteInBaseCurrency,
+  fillRateGaps,
+} from '../../supabase/functions/_shared/exchangeRateParser';
+export type { ParsedExchangeRate, FilledExchangeRate } from '../../supabase/functions/_shared/exchangeRateParser';
+
+/**
+ * A source of exchange rates. Each provider reads its own file format;
+ * providers that publish a feed also have a default download URL.
+ */
+export interface RateProvider {
+  code: ExchangeRateProvider;
+  name: string;
+  description: string;
+  defaultUrl?: string;
+  parse(content: string): ParsedExchangeRate[];
+}
+
+// ========================================
+// Providers
+// ========================================
+
+export const RATE_PROVIDERS: Record<ExchangeRateProvider, RateProvider> = {
+  csv: {
+    code: 'csv',
+    name: 'CSV File',
+    description: 'Columns: date, from, to, rate',
+    parse: (content) => parseRateCSV(content),
+  },
+  boc: {
+    code: 'boc',
+    name: 'Bank of Canada',
+    description: 'Daily rates against CAD from the Valet API (CSV or XML)',
+    defaultUrl: RATE_FEED_URLS.boc,
+    parse: parseBankOfCanada,
+  },
+  ecb: {
+    code: 'ecb',
+    name: 'European Central Bank',
+    description: 'Euro reference rates (eurofxref XML or CSV)',
+    defaultUrl: RATE_FEED_URLS.ecb,
+    parse: parseECB,
+  },
+};
@@ -7,6 +7,7 @@ import { dataExportService, ExportFormat, ExportOptions } from '../services/data
 import type { Property, Tenant, Payment, Expense, MaintenanceRequest } from '../types';
 import { getPropertyTypeLabel } from '../types';
 import type { MaintenanceRequest as ServiceMaintenanceRequest } from '../services/maintenanceService';
+import type { ReconciliationReport } from '../services/bankReconciliationService';
 
 /**
  * Export properties to file
@@ -296,3 +297,69 @@ export function exportFinancialSummary(
     ...options,
   });
 }
+
+/**
+ * Export a bank reconciliation report: summary balances, cleared statement
+ * lines, unmatched statement lines and outstanding book entries
+ */
+export function exportBankReconciliation(
+  report: ReconciliationReport,
+  format: ExportFormat = 'csv',
+  options: ExportOptions = {}
+) {
+  const { reconciliation, summary } = report;
+  const rows: { section: string; date: string; description: string; reference: string; amount: number }[] = [
+    { section: 'Summary', date: reconciliation.period_start, description: 'Opening balance', reference: '', amount: summary.openingBalanceCents },
+    { section: 'Summary', date: '', description: 'Cleared deposits', reference: '', amount: summary.clearedDepositsCents },
+    { section: 'Summary', date: '', description: 'Cleared withdrawals', reference: '', amount: -summary.clearedWithdrawalsCents },
+    { section: 'Summary', date: reconciliation.period_end, description: 'Cleared balance', reference: '', amount: summary.clearedBalanceCents },
+    { section: 'Summary', date: reconciliation.period_end, description: 'Statement ending balance', reference: '', amount: summary.statementEndingBalanceCents },
+    { section: 'Summary', date: '', description: 'Difference', reference: '', amount: summary.differenceCents },
+    { section: 'Summary', date: reconciliation.period_end, description: 'Book balance', reference: '', amount: summary.bookBalanceCents },
+    { section: 'Summary', date: '', description: 'Deposits in transit', reference: '', amount: summary.outstandingDepositsCents },
+    { section: 'Summary', date: '', description: 'Outstanding withdrawals', reference: '', amount: -summary.outstandingWithdrawalsCents },
+    ...report.clearedLines.map(line => ({
+      section: 'Cleared',
+      date: line.transaction_date,
+      description: line.description || '',
+      reference: line.reference || '',
+      amount: line.amount_cents,
+    })),
+    ...report.unmatchedLines.map(line => ({
+      section: 'Unmatched statement line',
+      date: line.transaction_date,
+      description: line.description || '',
+      reference: line.reference || '',
+      amount: line.amount_cents,
+    })),
+    ...report.outstandingEntries.map(entry => ({
+      section: 'Outstanding book entry',
+      date: entry.journal_date,
+      description: entry.description || entry.memo || '',
+      reference: `${entry.journal_number}${entry.reference ? ` / ${entry.reference}` : ''}`,
+      amount: entry.amount_cents - entry.matched_cents,
+    })),
+  ];
+
+  const columns = [
+    { key: 'section', label: 'Section' },
+    { key: 'date', label: 'Date' },
+    { key: 'description', label: 'Description' },
+    { key: 'reference', label: 'Reference' },
+    {
+      key: 'amount',
+      label: 'Amount',
+      format: (v: number) => (v / 100).toFixed(2),
+    },
+  ];
+
+  const accountLabel = report.account
+    ? `${report.account.account_number}_${report.account.account_name}`.replace(/[^a-zA-Z0-9_-]+/g, '_')
+    : 'bank';
+
+  dataExportService.export(rows, columns, {
+    filename: `bank_reconciliation_${accountLabel}_${reconciliation.period_end}`,
+    format,
+    ...options,
+  });
+}
@@ -0,0 +1,447 @@
+/**
+ * Tax Filing Formats
+ * Builds the electronic filing files for vendor tax forms: the IRS FIRE
+ * fixed-width file for 1099-NEC and 1099-MISC (Publication 1220), and the
+ * CRA T619/T5018 XML return
+ */
+
+import type { VendorTaxForm, VendorTaxFormRecipient, VendorTaxFormType } from '../types';
+
+/**
+ * The business filing the forms, as it appears on the forms and in the
+ * transmitter records
+ */
+export interface TaxFilingPayer {
+  name: string;
+  tin?: string; // EIN for 1099s
+  craAccount?: string; // RZ program account for T5018s
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country: string;
+  phone?: string;
+  contactName?: string;
+  contactEmail?: string;
+  transmitterControlCode?: string;
+  craTransmitterNumber?: string;
+}
+
+// Printed box labels, keyed by the box_amounts key on a form
+export const TAX_FORM_BOX_LABELS: Partial<Record<VendorTaxFormType, Record<string, string>>> = {
+  '1099-NEC': {
+    box1: '1 Nonemployee compensation',
+    box4: '4 Federal income tax withheld',
+  },
+  '1099-MISC': {
+    box1: '1 Rents',
+    box2: '2 Royalties',
+    box3: '3 Other income',
+    box4: '4 Federal income tax withheld',
+    box5: '5 Fishing boat proceeds',
+    box6: '6 Medical and health care payments',
+    box8: '8 Substitute payments in lieu of dividends or interest',
+  },
+  T5018: {
+    gross_income: '22 Construction subcontractor payments',
+  },
+};
+
+// ========================================
+// IRS FIRE (Publication 1220)
+// ========================================
+
+export interface FireFileOptions {
+  taxYear: number;
+  // Test files are accepted by the FIRE test system only
+  test: boolean;
+  // One-step corrections. A file holds either original or corrected returns
+  correction: boolean;
+}
+
+const FIRE_RECORD_LENGTH = 750;
+
+// Payment amount fields in record order: amount 1-9, then A-G
+const FIRE_AMOUNT_CODES = '123456789ABCDEFG';
+
+const FIRE_RETURN_TYPES: Partial<Record<VendorTaxFormType, string>> = {
+  '1099-NEC': 'NE',
+  '1099-MISC': 'A',
+};
+
+// Amount code for each box that can be filed
+const FIRE_BOX_AMOUNT_CODES: Partial<Record<VendorTaxFormType, Record<string, string>>> = {
+  '1099-NEC': { box1: '1', box4: '4' },
+  '1099-MISC': { box1: '1', box2: '2', box3: '3', box4: '4', box5: '5', box6: '6', box8: '8' },
+};
+
+const digits = (value: string | undefined) => (value || '').replace(/\D/g, '');
+
+/**
+ * Upper case text with only the characters FIRE accepts in name and address
+ * fields, cut or padded to the field length
+ */
+function fireText(value: string | undefined, length: number): string {
+  return (value || '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9&\- ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, length)
+    .padEnd(length, ' ');
+}
+
+function fireNumber(value: number | string, length: number): string {
+  const text = typeof value === 'number' ? String(Math.round(value)) : digits(value);
+  return text.slice(-length).padStart(length, '0');
+}
+
+/**
+ * A 750 character record with each field written at its 1-based position
+ */
+function fireRecord(fields: Array<[number, string]>): string {
+  const record = Array(FIRE_RECORD_LENGTH).fill(' ');
+  for (const [position, value] of fields) {
+    for (let i = 0; i < value.length; i++) {
+      record[position - 1 + i] = value[i]!;
+    }
+  }
+  return record.join('');
+}
+
+const isUnitedStates = (country: string | undefined) =>
+  !country || ['US', 'USA', 'UNITED STATES'].includes(country.toUpperCase());
+
+/**
+ * Payment amounts for a form in amount code order
+ */
+function fireAmounts(form: VendorTaxForm): number[] {
+  const codes = FIRE_BOX_AMOUNT_CODES[form.form_type];
+  if (!codes) {
+    throw new Error(`${form.form_type} forms cannot be filed in a FIRE file`);
+  }
+
+  const amounts = Array(FIRE_AMOUNT_CODES.length).fill(0);
+  for (const [box, cents] of Object.entries(form.box_amounts || {})) {
+    const code = codes[box];
+    if (!code) {
+      throw new Error(`${form.form_type} ${box} cannot be filed electronically`);
+    }
+    amounts[FIRE_AMOUNT_CODES.indexOf(code)] += cents;
+  }
+  return amounts;
+}
+
+function fireRecipientAddress(recipient: VendorTaxFormRecipient): Array<[number, string]> {
+  const street = [recipient.addressLine1, recipient.addressLine2].filter(Boolean).join(' ');
+  if (isUnitedStates(recipient.country)) {
+    return [
+      [368, fireText(street, 40)],
+      [448, fireText(recipient.city, 40)],
+      [488, fireText(recipient.region, 2)],
+      [490, fireText(digits(recipient.postalCode), 9)],
+    ];
+  }
+
+  // Foreign addresses put city, province, postal code and country together
+  return [
+    [287, '1'],
+    [368, fireText(street, 40)],
+    [448, fireText([recipient.city, recipient.region, recipient.postalCode, recipient.country].filter(Boolean).join(' '), 51)],
+  ];
+}
+
+/**
+ * Build an IRS FIRE file for 1099-NEC and 1099-MISC forms: a transmitter
+ * (T) record, then a payer (A) record, payee (B) records and end of payer
+ * (C) record for each form type, and an end of transmission (F) record.
+ */
+export function buildFireFile(
+  forms: VendorTaxForm[],
+  payer: TaxFilingPayer,
+  options: FireFileOptions
+): string {
+  if (forms.length === 0) {
+    throw new Error('There are no forms to file');
+  }
+  if (digits(payer.tin).length !== 9) {
+    throw new Error('Enter the payer EIN before exporting a FIRE file');
+  }
+  if (!/^[A-Z0-9]{5}$/i.test(payer.transmitterControlCode || '')) {
+    throw new Error('Enter the 5 character Transmitter Control Code before exporting a FIRE file');
+  }
+
+  const year = String(options.taxYear);
+  const payerZip = fireText(digits(payer.postalCode), 9);
+  const payerPhone = fireText(digits(payer.phone), 15);
+  const payerStreet = [payer.addressLine1, payer.addressLine2].filter(Boolean).join(' ');
+  const records: string[] = [];
+  const sequence = () => fireNumber(records.length + 1, 8);
+
+  records.push(fireRecord([
+    [1, 'T'],
+    [2, year],
+    [6, options.taxYear < new Date().getFullYear() - 1 ? 'P' : ' '],
+    [7, fireNumber(payer.tin!, 9)],
+    [16, payer.transmitterControlCode!.toUpperCase()],
+    [28, options.test ? 'T' : ' '],
+    [30, fireText(payer.name, 40)],
+    [110, fireText(payer.name, 40)],
+    [190, fireText(payerStreet, 40)],
+    [230, fireText(payer.city, 40)],
+    [270, fireText(payer.region, 2)],
+    [272, payerZip],
+    [296, fireNumber(forms.length, 8)],
+    [304, fireText(payer.contactName, 40)],
+    [344, payerPhone],
+    [359, (payer.contactEmail || '').slice(0, 50).padEnd(50, ' ')],
+    [500, sequence()],
+    // Software written in-house, so no vendor details follow
+    [518, 'I'],
+  ]));
+
+  const byType = new Map<VendorTaxFormType, VendorTaxForm[]>();
+  for (const form of forms) {
+    if (!FIRE_RETURN_TYPES[form.form_type]) {
+      throw new Error(`${form.form_type} forms cannot be filed in a FIRE file`);
+    }
+    byType.set(form.form_type, [...(byType.get(form.form_type) || []), form]);
+  }
+
+  for (const [formType, typeForms] of byType) {
+    const amounts = typeForms.map(fireAmounts);
+    const totals = FIRE_AMOUNT_CODES.split('').map((_, i) => amounts.reduce((sum, a) => sum + a[i]!, 0));
+    const amountCodes = FIRE_AMOUNT_CODES.split('').filter((_, i) => totals[i]! > 0).join('');
+
+    records.push(fireRecord([
+      [1, 'A'],
+      [2, year],
+      [12, fireNumber(payer.tin!, 9)],
+      [26, FIRE_RETURN_TYPES[formType]!.padEnd(2, ' ')],
+      [28, (amountCodes || '1').padEnd(18, ' ')],
+      [53, fireText(payer.name, 40)],
+      [133, '0'],
+      [134, fireText(payerStreet, 40)],
+      [174, fireText(payer.city, 40)],
+      [214, fireText(payer.region, 2)],
+      [216, payerZip],
+      [225, payerPhone],
+      [500, sequence()],
+    ]));
+
+    typeForms.forEach((form, index) => {
+      const recipient = form.recipient;
+      if (!recipient) {
+        throw new Error(`The ${form.form_type} form for vendor ${form.vendor_id} has not been generated`);
+      }
+
+      records.push(fireRecord([
+        [1, 'B'],
+        [2, year],
+        [6, options.correction ? 'G' : ' '],
+        [11, recipient.tinType === 'ein' ? '1' : recipient.tinType === 'ssn' ? '2' : ' '],
+        [12, fireNumber(recipient.tin || '', 9)],
+        // Payer's account number for the payee, the same on originals and corrections
+        [21, fireText(form.vendor_id.replace(/-/g, ''), 20)],
+        ...amounts[index]!.map((cents, i): [number, string] => [55 + i * 12, fireNumber(cents, 12)]),
+        [288, fireText(recipient.name, 40)],
+        ...fireRecipientAddress(recipient),
+        [500, sequence()],
+      ]));
+    });
+
+    records.push(fireRecord([
+      [1, 'C'],
+      [2, fireNumber(typeForms.length, 8)],
+      ...totals.map((cents, i): [number, string] => [16 + i * 18, fireNumber(cents, 18)]),
+      [500, sequence()],
+    ]));
+  }
+
+  records.push(fireRecord([
+    [1, 'F'],
+    [2, fireNumber(byType.size, 8)],
+    [10, '0'.repeat(21)],
+    [50, fireNumber(forms.length, 8)],
+    [500, sequence()],
+  ]));
+
+  return records.join('\r\n') + '\r\n';
+}
+
+// ========================================
+// CRA T5018 XML
+// ========================================
+
+export interface T5018XmlOptions {
+  taxYear: number;
+  // Amended slips replace slips already filed
+  amended: boolean;
+  // Last day of the reporting period; the calendar year end by default
+  periodEndDate?: string;
+}
+
+const CRA_COUNTRY_CODES: Record<string, string> = {
+  CA: 'CAN',
+  CAN: 'CAN',
+  CANADA: 'CAN',
+  US: 'USA',
+  USA: 'USA',
+  'UNITED STATES': 'USA',
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * An element, or nothing when the value is empty
+ */
+function xmlElement(name: string, value: string | undefined, maxLength?: number): string {
+  const text = (value || '').trim();
+  if (!text) return '';
+  return `<${name}>${escapeXml(maxLength ? text.slice(0, maxLength) : text)}</${name}>`;
+}
+
+function craAddress(name: string, address: {
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}): string {
+  const country = (address.country || 'CA').toUpperCase();
+  return `<${name}>`
+    + xmlElement('addr_l1_txt', address.addressLine1, 30)
+    + xmlElement('addr_l2_txt', address.addressLine2, 30)
+    + xmlElement('cty_nm', address.city, 28)
+    + xmlElement('prov_cd', address.region?.toUpperCase(), 2)
+    + xmlElement('cntry_cd', CRA_COUNTRY_CODES[country] || country.slice(0, 3))
+    + xmlElement('pstl_cd', address.postalCode?.replace(/\s/g, '').toUpperCase(), 10)
+    + `</${name}>`;
+}
+
+/**
+ * Contact block, with the telephone number split into area code and number
+ */
+function craContact(payer: TaxFilingPayer, includeEmail: boolean): string {
+  const phone = digits(payer.phone).slice(-10);
+  return '<CNTC>'
+    + xmlElement('cntc_nm', payer.contactName, 22)
+    + xmlElement('cntc_area_cd', phone.slice(0, 3))
+    + xmlElement('cntc_phn_nbr', phone.length === 10 ? `${phone.slice(3, 6)}-${phone.slice(6)}` : '')
+    + (includeEmail ? xmlElement('cntc_email_area', payer.contactEmail, 60) : '')
+    + '</CNTC>';
+}
+
+const craAmount = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * Submission reference: 8 letters and digits, unique to each file sent
+ */
+function submissionReference(taxYear: number): string {
+  return `${String(taxYear).slice(-2)}${Date.now().toString(36).toUpperCase()}`.slice(-8).padStart(8, '0');
+}
+
+/**
+ * Build a CRA XML submission holding a T619 transmittal and one T5018
+ * return with a slip for each form and the summary.
+ */
+export function buildT5018Xml(
+  forms: VendorTaxForm[],
+  payer: TaxFilingPayer,
+  options: T5018XmlOptions
+): string {
+  if (forms.length === 0) {
+    throw new Error('There are no forms to file');
+  }
+  if (!/^\d{9}RZ\d{4}$/i.test(payer.craAccount || '')) {
+    throw new Error('Enter the payer RZ program account, e.g. 123456789RZ0001, before exporting a T5018 return');
+  }
+  if (!/^[A-Z]{2}\d{6}$/i.test(payer.craTransmitterNumber || '')) {
+    throw new Error('Enter the CRA transmitter number, e.g. MM555555, before exporting a T5018 return');
+  }
+
+  const reportType = options.amended ? 'A' : 'O';
+  const account = payer.craAccount!.toUpperCase();
+
+  const slips = forms.map(form => {
+    const recipient = form.recipient;
+    if (!recipient) {
+      throw new Error(`The T5018 form for vendor ${form.vendor_id} has not been generated`);
+    }
+
+    const tin = (recipient.tin || '').replace(/[\s-]/g, '').toUpperCase();
+    let recipientName: string;
+    if (recipient.tinType === 'sin') {
+      // Individuals are named by surname and given name
+      const parts = recipient.name.trim().split(/\s+/);
+      const surname = parts.length > 1 ? parts.pop()! : parts[0]!;
+      recipientName = '<RCPNT_NM>'
+        + xmlElement('snm', surname, 20)
+        + xmlElement('gvn_nm', parts.length > 0 && parts[0] !== surname ? parts.join(' ') : '', 12)
+        + '</RCPNT_NM>'
+        + xmlElement('sin', tin)
+        + xmlElement('rcpnt_tcd', '1');
+    } else {
+      recipientName = '<CORP_PTNRP_NM>'
+        + xmlElement('l1_nm', recipient.name, 30)
+        + '</CORP_PTNRP_NM>'
+        + xmlElement('rcpnt_bn', tin)
+        + xmlElement('rcpnt_tcd', '3');
+    }
+
+    return '<T5018Slip>'
+      + recipientName
+      + craAddress('RCPNT_ADDR', recipient)
+      + xmlElement('bn', account)
+      + xmlElement('sbctrcr_amt', craAmount(form.box_amounts?.gross_income ?? form.total_payments_cents))
+      + xmlElement('rpt_tcd', reportType)
+      + '</T5018Slip>';
+  });
+
+  const total = forms.reduce((sum, f) => sum + (f.box_amounts?.gross_income ?? f.total_payments_cents), 0);
+
+  const summary = '<T5018Summary>'
+    + xmlElement('bn', account)
+    + '<PAYR_NM>' + xmlElement('l1_nm', payer.name, 30) + '</PAYR_NM>'
+    + craAddress('PAYR_ADDR', payer)
+    + craContact(payer, false)
+    + xmlElement('prd_end_dt', options.periodEndDate || `${options.taxYear}-12-31`)
+    + xmlElement('slp_cnt', String(forms.length))
+    + xmlElement('tot_sbctrcr_amt', craAmount(total))
+    + xmlElement('rpt_tcd', reportType)
+    + '</T5018Summary>';
+
+  const transmittal = '<T619>'
+    + xmlElement('sbmt_ref_id', submissionReference(options.taxYear))
+    + xmlElement('rpt_tcd', reportType)
+    + xmlElement('trnmtr_nbr', payer.craTransmitterNumber!.toUpperCase())
+    // Filing the business's own returns
+    + xmlElement('trnmtr_tcd', '1')
+    + xmlElement('summ_cnt', '1')
+    + xmlElement('lang_cd', 'E')
+    + '<TRNMTR_NM>' + xmlElement('l1_nm', payer.name, 30) + '</TRNMTR_NM>'
+    + craAddress('TRNMTR_ADDR', payer)
+    + craContact(payer, true)
+    + '</T619>';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Submission xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="layout-topologie.xsd">',
+    transmittal,
+    '<Return><T5018>',
+    ...slips,
+    summary,
+    '</T5018></Return>',
+    '</Submission>',
+    '',
+  ].join('\n');
+}
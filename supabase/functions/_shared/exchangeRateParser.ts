@@ -0,0 +1,316 @@
+/**
+ * Exchange Rate Parser
+ * Reads rate files: a plain CSV of rates, and the Bank of Canada (Valet) and
+ * European Central Bank published XML and CSV formats. Shared by the app's
+ * imports and the scheduled import in run-scheduled-jobs.
+ */
+
+import { parseCSVRows } from './csv.ts';
+
+export interface ParsedExchangeRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number; // 1 fromCurrency = rate toCurrency
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+export interface FilledExchangeRate extends ParsedExchangeRate {
+  filledFromDate?: string; // Published date the rate was carried forward from
+}
+
+export type RateFeedProvider = 'boc' | 'ecb';
+
+// Weekends and holidays are never longer than this, so longer gaps are left
+// for the lookup to fall back across rather than filled
+export const MAX_FILL_DAYS = 7;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/**
+ * Read a date such as 2024-01-19, 2024/01/19 or 19 January 2024
+ */
+function parseRateDate(value: string): string | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]!.padStart(2, '0')}-${iso[3]!.padStart(2, '0')}`;
+  }
+
+  const long = text.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/);
+  if (long) {
+    const month = MONTHS.indexOf(long[2]!.toLowerCase()) + 1;
+    if (month > 0) return `${long[3]}-${String(month).padStart(2, '0')}-${long[1]!.padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+function parseRate(value: string): number | null {
+  const rate = parseFloat(value.trim());
+  return isFinite(rate) && rate > 0 ? rate : null;
+}
+
+const isXML = (content: string) => content.replace(/^\uFEFF/, '').trimStart().startsWith('<');
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0]!;
+};
+
+// ========================================
+// Plain CSV
+// ========================================
+
+/**
+ * Parse a CSV with date, from, to and rate columns. Without a "to" column
+ * every rate is taken as quoted in quoteCurrency.
+ */
+export function parseRateCSV(content: string, quoteCurrency?: string): ParsedExchangeRate[] {
+  const rows = parseCSVRows(content.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) {
+    throw new Error('The CSV file has no rates');
+  }
+
+  const header = rows[0]!.map(h => h.trim().toLowerCase());
+  const find = (pattern: RegExp) => header.findIndex(h => pattern.test(h));
+  const date = find(/^(effective[ _])?date$/);
+  const from = find(/^(from([ _]currency)?|currency)$/);
+  const to = find(/^to([ _]currency)?$/);
+  const rate = find(/^(exchange[ _])?rate$/);
+
+  if (date < 0 || from < 0 || rate < 0) {
+    throw new Error('Could not find date, from currency and rate columns in the CSV header');
+  }
+  if (to < 0 && !quoteCurrency) {
+    throw new Error('The CSV file has no "to" currency column');
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+  for (const row of rows.slice(1)) {
+    const effectiveDate = parseRateDate(row[date] || '');
+    const value = parseRate(row[rate] || '');
+    const fromCurrency = (row[from] || '').trim().toUpperCase();
+    const toCurrency = to >= 0 ? (row[to] || '').trim().toUpperCase() : quoteCurrency!;
+    if (!effectiveDate || value === null || !/^[A-Z]{3}$/.test(fromCurrency) || !/^[A-Z]{3}$/.test(toCurrency)) continue;
+
+    rates.push({ fromCurrency, toCurrency, rate: value, effectiveDate });
+  }
+
+  return rates;
+}
+
+// ========================================
+// Bank of Canada (Valet)
+// ========================================
+
+// Series names look like FXUSDCAD: 1 USD in CAD
+const BOC_SERIES = /^FX([A-Z]{3})([A-Z]{3})$/;
+
+/**
+ * Parse a Bank of Canada Valet observations file (CSV or XML)
+ */
+export function parseBankOfCanada(content: string): ParsedExchangeRate[] {
+  const rates: ParsedExchangeRate[] = [];
+
+  if (isXML(content)) {
+    const observations = content.match(/<o\s+d=["'][^"']+["']\s*>[\s\S]*?<\/o>/gi) || [];
+    for (const observation of observations) {
+      const effectiveDate = parseRateDate(observation.match(/d=["']([^"']+)["']/i)?.[1] || '');
+      if (!effectiveDate) continue;
+
+      for (const value of observation.matchAll(/<v\s+s=["']([^"']+)["']\s*>([^<]*)<\/v>/gi)) {
+        const series = value[1]!.match(BOC_SERIES);
+        const rate = parseRate(value[2]!);
+        if (!series || rate === null) continue;
+        rates.push({ fromCurrency: series[1]!, toCurrency: series[2]!, rate, effectiveDate });
+      }
+    }
+    return rates;
+  }
+
+  // The observations follow a preamble of terms and series descriptions
+  const rows = parseCSVRows(content.replace(/^\uFEFF/, ''));
+  const headerIndex = rows.findIndex(
+    row => row[0]?.trim().toLowerCase() === 'date' && row.some(cell => BOC_SERIES.test(cell.trim()))
+  );
+  if (headerIndex < 0) {
+    throw new Error('Not a Bank of Canada observations file: no date and FX series header found');
+  }
+
+  const series = rows[headerIndex]!.map(cell => cell.trim().match(BOC_SERIES));
+  for (const row of rows.slice(headerIndex + 1)) {
+    const effectiveDate = parseRateDate(row[0] || '');
+    if (!effectiveDate) continue;
+
+    row.forEach((cell, index) => {
+      const pair = series[index];
+      const rate = parseRate(cell);
+      if (!pair || rate === null) return;
+      rates.push({ fromCurrency: pair[1]!, toCurrency: pair[2]!, rate, effectiveDate });
+    });
+  }
+
+  return rates;
+}
+
+// ========================================
+// European Central Bank
+// ========================================
+
+/**
+ * Parse an ECB euro reference rate file (eurofxref XML or CSV)
+ */
+export function parseECB(content: string): ParsedExchangeRate[] {
+  const rates: ParsedExchangeRate[] = [];
+
+  if (isXML(content)) {
+    // Rate cubes are self-closing, so each dated cube ends at the next </Cube>
+    const days = content.matchAll(/<Cube\s+time=["']([^"']+)["']\s*>([\s\S]*?)<\/Cube>/gi);
+    for (const day of days) {
+      const effectiveDate = parseRateDate(day[1]!);
+      if (!effectiveDate) continue;
+
+      for (const cube of day[2]!.matchAll(/<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([^"']+)["']\s*\/>/gi)) {
+        const rate = parseRate(cube[2]!);
+        if (rate === null) continue;
+        rates.push({ fromCurrency: 'EUR', toCurrency: cube[1]!.toUpperCase(), rate, effectiveDate });
+      }
+    }
+    return rates;
+  }
+
+  const rows = parseCSVRows(content.replace(/^\uFEFF/, ''));
+  const header = rows[0]?.map(cell => cell.trim().toUpperCase()) || [];
+  if (header[0] !== 'DATE') {
+    throw new Error('Not an ECB reference rate file: the first column is not Date');
+  }
+
+  for (const row of rows.slice(1)) {
+    const effectiveDate = parseRateDate(row[0] || '');
+    if (!effectiveDate) continue;
+
+    // Currencies without a rate that day are shown as N/A
+    row.forEach((cell, index) => {
+      const currency = header[index];
+      const rate = parseRate(cell);
+      if (index === 0 || !currency || !/^[A-Z]{3}$/.test(currency) || rate === null) return;
+      rates.push({ fromCurrency: 'EUR', toCurrency: currency, rate, effectiveDate });
+    });
+  }
+
+  return rates;
+}
+
+// ========================================
+// Published Feeds
+// ========================================
+
+export const RATE_FEED_URLS: Record<RateFeedProvider, string> = {
+  boc: 'https://www.bankofcanada.ca/valet/observations/group/FX_RATES_DAILY/csv?recent=10',
+  ecb: 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist-90d.xml',
+};
+
+/**
+ * Whether a business may download a provider's rates from url. Scheduled
+ * imports fetch it from the server, so only https addresses on the provider's
+ * own host are accepted.
+ */
+export function isAllowedRateFeedUrl(provider: string, url: string): boolean {
+  const feed = RATE_FEED_URLS[provider as RateFeedProvider];
+  if (!feed) return false;
+
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && parsed.host === new URL(feed).host;
+  } catch {
+    return false;
+  }
+}
+
+export function parseRateFeed(provider: RateFeedProvider, content: string): ParsedExchangeRate[] {
+  return provider === 'boc' ? parseBankOfCanada(content) : parseECB(content);
+}
+
+// ========================================
+// Conversion & Gap Filling
+// ========================================
+
+/**
+ * Restate rates as 1 unit of each currency in the base currency. Pairs that
+ * do not involve the base currency are crossed through the currencies they
+ * share on the same date, e.g. USD to CAD from the ECB's EUR to CAD and EUR
+ * to USD. Currencies that cannot be reached from the base are dropped.
+ */
+export function quoteInBaseCurrency(rates: ParsedExchangeRate[], baseCurrency: string): ParsedExchangeRate[] {
+  const byDate = new Map<string, ParsedExchangeRate[]>();
+  for (const rate of rates) {
+    byDate.set(rate.effectiveDate, [...(byDate.get(rate.effectiveDate) || []), rate]);
+  }
+
+  const quoted: ParsedExchangeRate[] = [];
+  for (const [effectiveDate, dayRates] of byDate) {
+    // Value of each currency in base units, walking outwards from the base
+    const values = new Map<string, number>([[baseCurrency, 1]]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const rate of dayRates) {
+        const from = values.get(rate.fromCurrency);
+        const to = values.get(rate.toCurrency);
+        if (to !== undefined && from === undefined) {
+          values.set(rate.fromCurrency, rate.rate * to);
+          grew = true;
+        } else if (from !== undefined && to === undefined) {
+          values.set(rate.toCurrency, from / rate.rate);
+          grew = true;
+        }
+      }
+    }
+
+    for (const [currency, value] of values) {
+      if (currency === baseCurrency) continue;
+      quoted.push({
+        fromCurrency: currency,
+        toCurrency: baseCurrency,
+        rate: Number(value.toFixed(8)),
+        effectiveDate,
+      });
+    }
+  }
+
+  return quoted;
+}
+
+/**
+ * Carry each pair's rate forward over days with no published rate, such as
+ * weekends and holidays, up to throughDate. Gaps longer than MAX_FILL_DAYS
+ * are left alone.
+ */
+export function fillRateGaps(rates: ParsedExchangeRate[], throughDate?: string): FilledExchangeRate[] {
+  const byPair = new Map<string, ParsedExchangeRate[]>();
+  for (const rate of rates) {
+    const key = `${rate.fromCurrency}/${rate.toCurrency}`;
+    byPair.set(key, [...(byPair.get(key) || []), rate]);
+  }
+
+  const filled: FilledExchangeRate[] = [];
+  for (const pairRates of byPair.values()) {
+    const sorted = [...pairRates].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+    sorted.forEach((rate, index) => {
+      filled.push(rate);
+
+      const next = sorted[index + 1]?.effectiveDate
+        ?? (throughDate && throughDate > rate.effectiveDate ? addDays(throughDate, 1) : undefined);
+      if (!next || next <= addDays(rate.effectiveDate, 1) || next > addDays(rate.effectiveDate, MAX_FILL_DAYS + 1)) return;
+
+      for (let date = addDays(rate.effectiveDate, 1); date < next; date = addDays(date, 1)) {
+        filled.push({ ...rate, effectiveDate: date, filledFromDate: rate.effectiveDate });
+      }
+    });
+  }
+
+  return filled;
+}
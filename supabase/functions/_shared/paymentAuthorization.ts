@@ -0,0 +1,100 @@
+// Authorization shared by the payment gateway functions. Each of them records
+// the charge with the service role against the organization, lease, tenant and
+// schedule row named in the request, so those are checked against the caller
+// before anything is charged or written.
+
+export interface PaymentTarget {
+  organization_id: string;
+  tenant_id?: string;
+  lease_id?: string;
+  payment_schedule_id?: string;
+}
+
+export async function isOrganizationMember(supabase: any, userId: string, organizationId: string): Promise<boolean> {
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('owner_id')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (!organization) return false;
+  if (organization.owner_id === userId) return true;
+
+  const { data: member } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  return !!member;
+}
+
+// Returns the reason the request is refused, or null when the caller may pay it.
+// Expects a service-role client so the lookups are not narrowed by RLS.
+export async function authorizePaymentRequest(
+  supabase: any,
+  userId: string,
+  request: PaymentTarget
+): Promise<string | null> {
+  if (!request.organization_id) return 'organization_id is required';
+
+  if (!request.lease_id) {
+    if (request.payment_schedule_id) return 'lease_id is required with payment_schedule_id';
+    if (!await isOrganizationMember(supabase, userId, request.organization_id)) {
+      return 'Not a member of this organization';
+    }
+    if (request.tenant_id) {
+      const { data: tenant } = await supabase
+        .from('tenants')
+        .select('id')
+        .eq('id', request.tenant_id)
+        .eq('organization_id', request.organization_id)
+        .maybeSingle();
+      if (!tenant) return 'Tenant does not belong to this organization';
+    }
+    return null;
+  }
+
+  const { data: lease } = await supabase
+    .from('leases')
+    .select('id, organization_id, unit_id')
+    .eq('id', request.lease_id)
+    .maybeSingle();
+
+  if (!lease || lease.organization_id !== request.organization_id) {
+    return 'Lease does not belong to this organization';
+  }
+
+  // Tenants on the leased unit pay their own lease; staff may pay on their behalf
+  const { data: leaseTenants } = await supabase
+    .from('tenants')
+    .select('id, user_id')
+    .eq('unit_id', lease.unit_id);
+
+  const tenants = leaseTenants || [];
+  if (request.tenant_id && !tenants.some((tenant: any) => tenant.id === request.tenant_id)) {
+    return 'Tenant is not on this lease';
+  }
+
+  const isLeaseTenant = tenants.some((tenant: any) =>
+    tenant.user_id === userId && (!request.tenant_id || tenant.id === request.tenant_id)
+  );
+  if (!isLeaseTenant && !await isOrganizationMember(supabase, userId, lease.organization_id)) {
+    return 'Not a tenant on this lease';
+  }
+
+  if (request.payment_schedule_id) {
+    const { data: schedule } = await supabase
+      .from('payment_schedules')
+      .select('lease_id')
+      .eq('id', request.payment_schedule_id)
+      .maybeSingle();
+    if (!schedule || schedule.lease_id !== lease.id) {
+      return 'Payment schedule does not belong to this lease';
+    }
+  }
+
+  return null;
+}
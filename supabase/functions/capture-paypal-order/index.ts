@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
+import { authorizePaymentRequest, PaymentTarget } from "../_shared/paymentAuthorization.ts";
 
 // SECURITY: Restrict CORS to allowed origins only
 const getAllowedOrigin = (requestOrigin: string | null): string => {
@@ -17,9 +18,9 @@ const getCorsHeaders = (requestOrigin: string | null) => ({
   "Access-Control-Max-Age": "86400",
 });
 
-interface CaptureOrderRequest {
-  organization_id: string;
+interface CaptureOrderRequest extends PaymentTarget {
   order_id: string;
+  payment_type?: string;
 }
 
 async function getPayPalCredentials(supabase: any) {
@@ -67,6 +68,60 @@ async function getPayPalAccessToken(clientId: string, clientSecret: string, envi
   return data.access_token;
 }
 
+// Record the completed capture as a charge and apply it to the tenant's rent.
+// The payment-webhook function may already have seen the capture and flagged
+// it as an unknown reference; that exception is resolved here.
+async function recordCompletedCharge(supabase: any, request: CaptureOrderRequest, orderId: string, capture: any): Promise<string | null> {
+  await supabase
+    .from('payment_transactions')
+    .upsert({
+      organization_id: request.organization_id,
+      gateway_name: 'paypal',
+      transaction_type: 'charge',
+      amount: Math.round(parseFloat(capture.amount?.value || '0') * 100),
+      currency: String(capture.amount?.currency_code || '').toUpperCase(),
+      status: 'pending',
+      external_transaction_id: capture.id,
+      tenant_id: request.tenant_id || null,
+      lease_id: request.lease_id || null,
+      payment_schedule_id: request.payment_schedule_id || null,
+      payment_type: request.payment_type || 'rent',
+      gateway_response: { order_id: orderId, capture_id: capture.id },
+    }, { onConflict: 'gateway_name,external_transaction_id', ignoreDuplicates: true });
+
+  const { data: transaction, error } = await supabase
+    .from('payment_transactions')
+    .select('id')
+    .eq('gateway_name', 'paypal')
+    .eq('external_transaction_id', capture.id)
+    .single();
+
+  if (error) throw error;
+
+  const { data: paymentId, error: completeError } = await supabase.rpc('complete_gateway_payment', {
+    p_transaction_id: transaction.id,
+    p_gateway_response: { order_id: orderId, capture_id: capture.id },
+  });
+
+  if (completeError) throw completeError;
+
+  await supabase
+    .from('payment_reconciliation_exceptions')
+    .update({
+      status: 'resolved',
+      organization_id: request.organization_id,
+      transaction_id: transaction.id,
+      resolution_notes: 'Matched when the payment was recorded',
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('gateway_name', 'paypal')
+    .eq('external_transaction_id', capture.id)
+    .eq('exception_type', 'unknown_reference')
+    .eq('status', 'open');
+
+  return paymentId;
+}
+
 Deno.serve(async (req: Request) => {
   const origin = req.headers.get('Origin');
   const corsHeaders = getCorsHeaders(origin);
@@ -92,7 +147,36 @@ Deno.serve(async (req: Request) => {
       }
     );
 
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     const request: CaptureOrderRequest = await req.json();
+
+    // Transactions and rent payments are written with the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const refusal = await authorizePaymentRequest(serviceClient, user.id, request);
+    if (refusal) {
+      return new Response(
+        JSON.stringify({ success: false, error: refusal }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     const { clientId, clientSecret, environment } = await getPayPalCredentials(supabase);
 
     if (!clientId || !clientSecret) {
@@ -128,11 +212,22 @@ Deno.serve(async (req: Request) => {
     if (result.status === 'COMPLETED') {
       const capture = result.purchase_units?.[0]?.payments?.captures?.[0];
 
+      let rentPaymentId: string | null = null;
+      if (capture?.id) {
+        try {
+          rentPaymentId = await recordCompletedCharge(serviceClient, request, result.id, capture);
+        } catch (recordError) {
+          // The payment was captured; reconciliation surfaces it if it was not recorded
+          console.error('Failed to record PayPal payment:', recordError);
+        }
+      }
+
       return new Response(
         JSON.stringify({
           success: true,
           order_id: result.id,
           capture_id: capture?.id,
+          rent_payment_id: rentPaymentId,
           payer_email: result.payer?.email_address,
           status: result.status,
         }),
@@ -135,6 +135,8 @@ Deno.serve(async (req: Request) => {
             value: amountDollars,
           },
           description: request.description || 'Rent Payment',
+          // Lets payment-webhook trace captures it cannot match to an organization
+          custom_id: request.organization_id,
         }],
         application_context: {
           brand_name: 'AI Rental Tools',
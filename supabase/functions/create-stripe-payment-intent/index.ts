@@ -0,0 +1,316 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { authorizePaymentRequest } from "../_shared/paymentAuthorization.ts";
+
+// SECURITY: Restrict CORS to allowed origins only
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') || 'https://airental.tools').split(',');
+  if (requestOrigin && allowedOrigins.includes(requestOrigin)) {
+    return requestOrigin;
+  }
+  return allowedOrigins[0]; // Default to first allowed origin
+};
+
+const getCorsHeaders = (requestOrigin: string | null) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(requestOrigin),
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Max-Age": "86400",
+});
+
+// Point at the stripe-stub function to test without network access
+const STRIPE_API_BASE = Deno.env.get('STRIPE_API_BASE') || 'https://api.stripe.com';
+
+interface StripePaymentRequest {
+  organization_id: string;
+  amount_cents: number;
+  currency: string;
+  // Either a new payment method from Stripe.js, or an intent to finalize after 3DS
+  payment_method_id?: string;
+  payment_intent_id?: string;
+  tenant_id?: string;
+  lease_id?: string;
+  payment_schedule_id?: string;
+  payment_type: string;
+  description?: string;
+  idempotency_key: string;
+}
+
+// Mirrors src/utils/crypto.ts so keys saved from System Configuration can be read here
+async function decryptSetting(encrypted: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const keyMaterial = Deno.env.get('ENCRYPTION_KEY') || 'default-dev-key-change-in-production';
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(keyMaterial), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode('airental-tools-salt-v1'), iterations: 100000, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  const combined = Uint8Array.from(atob(encrypted), c => c.charCodeAt(0));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    key,
+    combined.slice(12)
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+async function getStripeSecretKey(supabase: any): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value, is_encrypted')
+    .eq('setting_key', 'stripe_secret_key')
+    .maybeSingle();
+
+  if (error) throw new Error('Failed to get Stripe credentials');
+  if (!data?.setting_value) return null;
+
+  return data.is_encrypted ? await decryptSetting(data.setting_value) : data.setting_value;
+}
+
+function toFormBody(params: Record<string, any>, prefix = ''): string[] {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      parts.push(...toFormBody(value, name));
+    } else {
+      parts.push(`${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`);
+    }
+  }
+  return parts;
+}
+
+async function stripeRequest(
+  secretKey: string,
+  method: 'GET' | 'POST',
+  path: string,
+  params?: Record<string, any>,
+  idempotencyKey?: string
+): Promise<any> {
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${secretKey}`,
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+
+  const response = await fetch(`${STRIPE_API_BASE}${path}`, {
+    method,
+    headers,
+    body: method === 'POST' && params ? toFormBody(params).join('&') : undefined,
+  });
+
+  return await response.json();
+}
+
+// Record the intent as a pending charge; a webhook may already have created it
+async function upsertChargeTransaction(supabase: any, request: StripePaymentRequest, intent: any) {
+  await supabase
+    .from('payment_transactions')
+    .upsert({
+      organization_id: request.organization_id,
+      gateway_name: 'stripe',
+      transaction_type: 'charge',
+      amount: intent.amount,
+      currency: String(intent.currency).toUpperCase(),
+      status: 'pending',
+      external_transaction_id: intent.id,
+      tenant_id: request.tenant_id || null,
+      lease_id: request.lease_id || null,
+      payment_schedule_id: request.payment_schedule_id || null,
+      payment_type: request.payment_type,
+      gateway_response: { payment_intent_id: intent.id, status: intent.status },
+    }, { onConflict: 'gateway_name,external_transaction_id', ignoreDuplicates: true });
+
+  const { data, error } = await supabase
+    .from('payment_transactions')
+    .select('id, status')
+    .eq('gateway_name', 'stripe')
+    .eq('external_transaction_id', intent.id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+Deno.serve(async (req: Request) => {
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing Authorization header');
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_ANON_KEY') || '',
+      {
+        global: { headers: { Authorization: authHeader } }
+      }
+    );
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Transactions and rent payments are written with the service role
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const request: StripePaymentRequest = await req.json();
+
+    const refusal = await authorizePaymentRequest(supabase, user.id, request);
+    if (refusal) {
+      return jsonResponse({ success: false, error: refusal }, 403);
+    }
+
+    const secretKey = await getStripeSecretKey(supabase);
+
+    if (!secretKey) {
+      return jsonResponse({ success: false, error: 'Stripe credentials not configured' }, 400);
+    }
+
+    let intent: any;
+
+    if (request.payment_intent_id) {
+      // Finalize after the customer completed 3D Secure in the browser; only the
+      // user who started the payment may confirm it, against the same records
+      const existing = await stripeRequest(secretKey, 'GET', `/v1/payment_intents/${request.payment_intent_id}`);
+      const metadata = existing.metadata || {};
+      if (
+        existing.error ||
+        metadata.user_id !== user.id ||
+        metadata.organization_id !== request.organization_id ||
+        (metadata.lease_id || null) !== (request.lease_id || null) ||
+        (metadata.payment_schedule_id || null) !== (request.payment_schedule_id || null)
+      ) {
+        return jsonResponse({ success: false, error: 'Payment intent does not match this payment' }, 403);
+      }
+
+      intent = await stripeRequest(secretKey, 'POST', `/v1/payment_intents/${request.payment_intent_id}/confirm`, {});
+    } else if (request.payment_method_id) {
+      intent = await stripeRequest(secretKey, 'POST', '/v1/payment_intents', {
+        amount: request.amount_cents,
+        currency: request.currency.toLowerCase(),
+        payment_method: request.payment_method_id,
+        confirmation_method: 'manual',
+        confirm: true,
+        description: request.description || `Rent Payment - ${request.payment_type}`,
+        metadata: {
+          organization_id: request.organization_id,
+          tenant_id: request.tenant_id,
+          lease_id: request.lease_id,
+          payment_schedule_id: request.payment_schedule_id,
+          payment_type: request.payment_type,
+          user_id: user.id,
+        },
+      }, request.idempotency_key);
+    } else {
+      return jsonResponse({ success: false, error: 'payment_method_id or payment_intent_id is required' }, 400);
+    }
+
+    if (intent.error) {
+      // Declines still create an intent; keep a failed record of it
+      const declinedIntent = intent.error.payment_intent;
+      if (declinedIntent?.id) {
+        const txn = await upsertChargeTransaction(supabase, request, declinedIntent);
+        await supabase
+          .from('payment_transactions')
+          .update({ status: 'failed', error_message: intent.error.message, updated_at: new Date().toISOString() })
+          .eq('id', txn.id)
+          .neq('status', 'completed');
+      }
+
+      return jsonResponse({
+        success: false,
+        error: intent.error.message || 'Payment failed',
+        error_code: intent.error.decline_code || intent.error.code,
+      }, 400);
+    }
+
+    const txn = await upsertChargeTransaction(supabase, request, intent);
+
+    if (intent.status === 'succeeded') {
+      const { data: paymentId, error: completeError } = await supabase.rpc('complete_gateway_payment', {
+        p_transaction_id: txn.id,
+        p_gateway_response: { payment_intent_id: intent.id, status: intent.status, latest_charge: intent.latest_charge },
+      });
+
+      if (completeError) throw completeError;
+
+      return jsonResponse({
+        success: true,
+        status: intent.status,
+        payment_intent_id: intent.id,
+        transaction_id: txn.id,
+        payment_id: paymentId,
+      });
+    }
+
+    if (intent.status === 'requires_action') {
+      return jsonResponse({
+        success: false,
+        requires_action: true,
+        status: intent.status,
+        payment_intent_id: intent.id,
+        client_secret: intent.client_secret,
+        transaction_id: txn.id,
+      });
+    }
+
+    if (intent.status === 'processing') {
+      // The webhook completes the payment when Stripe settles it
+      return jsonResponse({
+        success: true,
+        status: intent.status,
+        payment_intent_id: intent.id,
+        transaction_id: txn.id,
+      });
+    }
+
+    const failureMessage = intent.last_payment_error?.message || 'Payment failed';
+    await supabase
+      .from('payment_transactions')
+      .update({ status: 'failed', error_message: failureMessage, updated_at: new Date().toISOString() })
+      .eq('id', txn.id)
+      .neq('status', 'completed');
+
+    return jsonResponse({
+      success: false,
+      status: intent.status,
+      payment_intent_id: intent.id,
+      error: failureMessage,
+    }, 400);
+  } catch (error) {
+    // SECURITY: Log detailed error server-side but return generic message to client
+    console.error('Stripe payment error:', error);
+    return jsonResponse({
+      success: false,
+      error: 'Payment processing failed. Please try again or contact support.',
+    }, 500);
+  }
+});
@@ -0,0 +1,569 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { jsPDF } from "npm:jspdf@3.0.4";
+import autoTable from "npm:jspdf-autotable@5.0.7";
+
+/**
+ * Signed agreement PDF
+ *
+ * Builds the signed PDF of an executed agreement (agreement text, every
+ * signature and a certificate of completion) from the stored agreement,
+ * signatures, audit trail and content hash, so no party's browser produces the
+ * record. The first PDF is stored in the private signed-agreements bucket and
+ * attached with its SHA-256 hash (migration 104); later calls return the same
+ * file. Responds with a short-lived download URL.
+ *
+ * Callable by a party to the agreement: a logged-in signer or the business
+ * owner, or a signer with their signing link token.
+ */
+
+// SECURITY: Restrict CORS to allowed origins only
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') || 'https://airental.tools').split(',');
+  if (requestOrigin && allowedOrigins.includes(requestOrigin)) {
+    return requestOrigin;
+  }
+  return allowedOrigins[0]; // Default to first allowed origin
+};
+
+const getCorsHeaders = (requestOrigin: string | null) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(requestOrigin),
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Max-Age": "86400",
+});
+
+const BUCKET = 'signed-agreements';
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// Mirrors AGREEMENT_SIGNER_ROLE_LABELS in src/services/agreementService.ts
+const SIGNER_TYPE_LABELS: Record<string, string> = {
+  landlord: 'Landlord',
+  tenant: 'Tenant',
+  co_tenant: 'Co-tenant',
+  guarantor: 'Guarantor',
+  witness: 'Witness',
+};
+
+const INTEGRITY_STATUS_LABELS: Record<string, string> = {
+  intact: 'Content unchanged since every signature',
+  tampered: 'Content changed after signing',
+  unverified: 'Some signatures predate content hashing',
+  unsigned: 'Not signed',
+};
+
+interface SignedPdfRequest {
+  agreement_id: string;
+  signing_token?: string;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const formatUtcTimestamp = (dateString: string) =>
+  `${new Date(dateString).toISOString().replace('T', ' ').slice(0, 19)} UTC`;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD', minimumFractionDigits: 2 }).format(value);
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// The requester's email when they are a party to the agreement, or null
+async function resolveRequester(
+  supabase: any,
+  authHeader: string | null,
+  agreement: any,
+  signingToken?: string
+): Promise<{ userId: string | null; email: string } | null> {
+  if (signingToken) {
+    const { data: signer } = await supabase
+      .from('agreement_signers')
+      .select('email')
+      .eq('agreement_id', agreement.id)
+      .eq('signing_token', signingToken)
+      .maybeSingle();
+
+    return signer ? { userId: null, email: signer.email } : null;
+  }
+
+  if (!authHeader) return null;
+
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') || '',
+    Deno.env.get('SUPABASE_ANON_KEY') || '',
+    {
+      global: { headers: { Authorization: authHeader } }
+    }
+  );
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return null;
+
+  const { data: business } = await supabase
+    .from('businesses')
+    .select('id')
+    .eq('id', agreement.business_id)
+    .eq('owner_user_id', user.id)
+    .maybeSingle();
+
+  if (business) return { userId: user.id, email: user.email || '' };
+
+  const { data: signers } = await supabase
+    .from('agreement_signers')
+    .select('email')
+    .eq('agreement_id', agreement.id);
+
+  const email = (user.email || '').toLowerCase();
+  const isSigner = email !== '' && (signers || []).some((s: { email: string }) => s.email.toLowerCase() === email);
+
+  return isSigner ? { userId: user.id, email: user.email || '' } : null;
+}
+
+// Title, parties, property, lease terms and agreement text, laid out like the
+// unsigned PDF from pdfGenerationService. Returns the y position after the text
+function renderAgreementBody(doc: jsPDF, agreement: any): number {
+  let yPosition = 20;
+
+  doc.setFontSize(22);
+  doc.text(agreement.agreement_title, 105, yPosition, { align: 'center' });
+  yPosition += 10;
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(agreement.agreement_type?.toUpperCase() || 'LEASE AGREEMENT', 105, yPosition, { align: 'center' });
+  yPosition += 15;
+
+  doc.setDrawColor(200);
+  doc.line(20, yPosition, 190, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text('PARTIES TO THE AGREEMENT', 20, yPosition);
+  yPosition += 10;
+
+  for (const party of [
+    { label: 'Landlord:', name: agreement.landlord_name, email: agreement.landlord_email, phone: agreement.landlord_phone },
+    { label: 'Tenant:', name: agreement.tenant_name, email: agreement.tenant_email, phone: agreement.tenant_phone },
+  ]) {
+    doc.setFontSize(10);
+    doc.setTextColor(0);
+    doc.text(party.label, 20, yPosition);
+    yPosition += 5;
+    doc.setFontSize(9);
+    doc.setTextColor(60);
+    doc.text(`Name: ${party.name}`, 25, yPosition);
+    yPosition += 5;
+    doc.text(`Email: ${party.email}`, 25, yPosition);
+    if (party.phone) {
+      yPosition += 5;
+      doc.text(`Phone: ${party.phone}`, 25, yPosition);
+    }
+    yPosition += 10;
+  }
+  yPosition += 5;
+
+  doc.setDrawColor(200);
+  doc.line(20, yPosition, 190, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text('PROPERTY INFORMATION', 20, yPosition);
+  yPosition += 8;
+
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  const addressLines = doc.splitTextToSize(`Address: ${agreement.property_address}`, 170);
+  doc.text(addressLines, 20, yPosition);
+  yPosition += addressLines.length * 5 + 3;
+
+  if (agreement.property_description) {
+    const descLines = doc.splitTextToSize(`Description: ${agreement.property_description}`, 170);
+    doc.text(descLines, 20, yPosition);
+    yPosition += descLines.length * 5 + 10;
+  } else {
+    yPosition += 10;
+  }
+
+  doc.setDrawColor(200);
+  doc.line(20, yPosition, 190, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text('LEASE TERMS', 20, yPosition);
+  yPosition += 10;
+
+  const leaseTermsData = [
+    ['Lease Start Date', formatDate(agreement.start_date)],
+    ['Lease End Date', formatDate(agreement.end_date)],
+    ['Monthly Rent', formatCurrency(agreement.rent_amount)],
+    ['Payment Frequency', agreement.payment_frequency],
+    ['Payment Due Day', `Day ${agreement.payment_due_day} of each month`],
+    ['Security Deposit', formatCurrency(agreement.security_deposit)],
+  ];
+
+  if (agreement.late_fee_amount) {
+    leaseTermsData.push(['Late Fee', formatCurrency(agreement.late_fee_amount)]);
+    leaseTermsData.push(['Grace Period', `${agreement.late_fee_grace_days} days`]);
+  }
+
+  autoTable(doc, {
+    startY: yPosition,
+    body: leaseTermsData,
+    theme: 'plain',
+    styles: { fontSize: 9 },
+    columnStyles: {
+      0: { fontStyle: 'bold', cellWidth: 70 },
+      1: { cellWidth: 100 },
+    },
+  });
+
+  yPosition = (doc as any).lastAutoTable.finalY + 15;
+
+  if (yPosition > 240) {
+    doc.addPage();
+    yPosition = 20;
+  }
+
+  doc.setDrawColor(200);
+  doc.line(20, yPosition, 190, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text('AGREEMENT DETAILS', 20, yPosition);
+  yPosition += 8;
+
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  const agreementLines = doc.splitTextToSize(agreement.final_content || agreement.generated_text || '', 170);
+
+  for (const line of agreementLines) {
+    if (yPosition > 270) {
+      doc.addPage();
+      yPosition = 20;
+    }
+    doc.text(line, 20, yPosition);
+    yPosition += 5;
+  }
+
+  return yPosition;
+}
+
+function buildSignedAgreementPdf(
+  agreement: any,
+  signatures: any[],
+  auditLog: any[],
+  verification: { content_hash: string; status: string },
+  verificationUrl: string
+): Uint8Array {
+  const doc = new jsPDF();
+  let yPosition = renderAgreementBody(doc, agreement);
+
+  if (yPosition > 200) {
+    doc.addPage();
+    yPosition = 20;
+  } else {
+    yPosition += 20;
+  }
+
+  doc.setDrawColor(200);
+  doc.line(20, yPosition, 190, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text('SIGNATURES', 20, yPosition);
+  yPosition += 10;
+
+  const ordered = [...signatures].sort((a, b) => a.signed_at.localeCompare(b.signed_at));
+  for (const signature of ordered) {
+    if (yPosition > 235) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(10);
+    doc.setTextColor(0);
+    doc.text(`${SIGNER_TYPE_LABELS[signature.signer_type] || signature.signer_type}:`, 20, yPosition);
+    yPosition += 4;
+
+    const image = signature.signature_data?.match(/^data:image\/(png|jpe?g);base64,/i);
+    if (signature.signature_method === 'digital' && image) {
+      try {
+        doc.addImage(signature.signature_data, image[1]?.toLowerCase() === 'png' ? 'PNG' : 'JPEG', 25, yPosition, 60, 20);
+      } catch {
+        doc.setFontSize(9);
+        doc.text('[Signature image could not be embedded]', 25, yPosition + 12);
+      }
+    } else {
+      doc.setFont('times', 'italic');
+      doc.setFontSize(20);
+      doc.text(signature.signature_data || signature.signer_name, 25, yPosition + 14);
+      doc.setFont('helvetica', 'normal');
+    }
+    yPosition += 22;
+
+    doc.setDrawColor(150);
+    doc.line(25, yPosition, 95, yPosition);
+    yPosition += 5;
+
+    doc.setFontSize(9);
+    doc.setTextColor(60);
+    doc.text(`Signed by: ${signature.signer_name} (${signature.signer_email})`, 25, yPosition);
+    yPosition += 5;
+    doc.text(`Date: ${formatUtcTimestamp(signature.signed_at)}`, 25, yPosition);
+    yPosition += 12;
+  }
+
+  // Certificate of completion
+  doc.addPage();
+  yPosition = 20;
+
+  doc.setFontSize(18);
+  doc.setTextColor(0);
+  doc.text('CERTIFICATE OF COMPLETION', 105, yPosition, { align: 'center' });
+  yPosition += 8;
+
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(`Generated ${formatUtcTimestamp(new Date().toISOString())}`, 105, yPosition, { align: 'center' });
+  yPosition += 10;
+
+  autoTable(doc, {
+    startY: yPosition,
+    body: [
+      ['Agreement', agreement.agreement_title],
+      ['Agreement ID', agreement.id],
+      ['Status', agreement.status],
+      ['Executed', agreement.executed_at ? formatUtcTimestamp(agreement.executed_at) : '-'],
+      ['Content SHA-256', verification.content_hash],
+      ['Integrity', INTEGRITY_STATUS_LABELS[verification.status] || verification.status],
+      ['Verify at', verificationUrl],
+    ],
+    theme: 'plain',
+    styles: { fontSize: 8, overflow: 'linebreak' },
+    columnStyles: {
+      0: { fontStyle: 'bold', cellWidth: 40 },
+      1: { cellWidth: 130 },
+    },
+  });
+  yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text('Signers', 20, yPosition);
+  yPosition += 4;
+
+  for (const signature of ordered) {
+    const hashMatches = signature.content_hash
+      ? signature.content_hash === verification.content_hash ? 'matches' : 'DOES NOT MATCH'
+      : 'not recorded';
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [[SIGNER_TYPE_LABELS[signature.signer_type] || signature.signer_type, signature.signer_name]],
+      body: [
+        ['Email', signature.signer_email],
+        ['Signed', formatUtcTimestamp(signature.signed_at)],
+        ['IP address', signature.signer_ip || '-'],
+        ['User agent', signature.user_agent || '-'],
+        ['Method', signature.signature_method],
+        ['Content SHA-256', `${signature.content_hash || '-'} (${hashMatches})`],
+      ],
+      theme: 'grid',
+      headStyles: { fillColor: [66, 139, 202] },
+      styles: { fontSize: 8, overflow: 'linebreak' },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 40 },
+        1: { cellWidth: 130 },
+      },
+    });
+    yPosition = (doc as any).lastAutoTable.finalY + 6;
+  }
+
+  if (yPosition > 240) {
+    doc.addPage();
+    yPosition = 20;
+  } else {
+    yPosition += 4;
+  }
+
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text('Audit Trail', 20, yPosition);
+  yPosition += 4;
+
+  const events = [...auditLog].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  autoTable(doc, {
+    startY: yPosition,
+    head: [['Date (UTC)', 'Event', 'By', 'Status', 'IP Address', 'Notes']],
+    body: events.map(event => [
+      formatUtcTimestamp(event.created_at),
+      event.action_type.replace(/_/g, ' '),
+      event.action_by_name || event.action_by_email || '-',
+      event.new_status ? `${event.old_status || '-'} > ${event.new_status}` : '-',
+      event.ip_address || '-',
+      event.notes || '',
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: [66, 139, 202] },
+    styles: { fontSize: 7, overflow: 'linebreak' },
+    margin: { bottom: 15 },
+    columnStyles: {
+      0: { cellWidth: 32 },
+      1: { cellWidth: 25 },
+      4: { cellWidth: 25 },
+    },
+  });
+
+  // Every page carries the agreement ID and content hash
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(7);
+    doc.setTextColor(130);
+    doc.text(`Agreement ${agreement.id} | Content SHA-256 ${verification.content_hash}`, 20, 287);
+    doc.text(`Page ${i} of ${pageCount}`, 190, 287, { align: 'right' });
+  }
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
+
+// Build, store and attach the signed PDF. Returns the stored path, which is
+// another request's when it attached one first.
+async function storeSignedPdf(supabase: any, agreement: any, requester: { userId: string | null; email: string }): Promise<string> {
+  const [{ data: signatures, error: signaturesError }, { data: auditLog, error: auditError }, { data: verification, error: verifyError }] =
+    await Promise.all([
+      supabase.from('agreement_signatures').select('*').eq('agreement_id', agreement.id),
+      supabase.from('agreement_audit_log').select('*').eq('agreement_id', agreement.id),
+      supabase.rpc('verify_agreement_integrity', { p_agreement_id: agreement.id, p_document_hash: null }),
+    ]);
+
+  if (signaturesError) throw signaturesError;
+  if (auditError) throw auditError;
+  if (verifyError) throw verifyError;
+
+  const appUrl = (Deno.env.get('ALLOWED_ORIGINS') || 'https://airental.tools').split(',')[0];
+  const pdf = buildSignedAgreementPdf(
+    agreement,
+    signatures || [],
+    auditLog || [],
+    verification,
+    `${appUrl}/agreement/${agreement.id}/verify`
+  );
+  const pdfHash = await sha256Hex(pdf);
+  const path = `${agreement.id}/${pdfHash}.pdf`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: false });
+
+  if (uploadError) throw uploadError;
+
+  const { data: attached, error: attachError } = await supabase.rpc('attach_signed_agreement_pdf', {
+    p_agreement_id: agreement.id,
+    p_pdf_path: path,
+    p_pdf_hash: pdfHash,
+    p_requested_by: requester.userId,
+    p_requested_by_email: requester.email,
+  });
+
+  if (attachError) throw attachError;
+  if (attached) return path;
+
+  // Another request attached its PDF first; that one is the record
+  await supabase.storage.from(BUCKET).remove([path]);
+
+  const { data: stored, error: reloadError } = await supabase
+    .from('lease_agreements')
+    .select('signed_pdf_path')
+    .eq('id', agreement.id)
+    .single();
+
+  if (reloadError) throw reloadError;
+  return stored.signed_pdf_path;
+}
+
+Deno.serve(async (req: Request) => {
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const request: SignedPdfRequest = await req.json();
+    if (!request.agreement_id) {
+      return jsonResponse({ success: false, error: 'agreement_id is required' }, 400);
+    }
+
+    // Agreements, signatures and the PDF bucket are read and written with the service role
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const { data: agreement, error: agreementError } = await supabase
+      .from('lease_agreements')
+      .select('*')
+      .eq('id', request.agreement_id)
+      .maybeSingle();
+
+    if (agreementError) throw agreementError;
+
+    const requester = agreement
+      ? await resolveRequester(supabase, req.headers.get('Authorization'), agreement, request.signing_token)
+      : null;
+
+    if (!agreement || !requester) {
+      return jsonResponse({ success: false, error: 'Agreement not found' }, 404);
+    }
+
+    if (agreement.status !== 'executed') {
+      return jsonResponse({ success: false, error: 'Only executed agreements have a signed PDF' }, 400);
+    }
+
+    const path = agreement.signed_pdf_path || await storeSignedPdf(supabase, agreement, requester);
+
+    const { data: signedUrl, error: urlError } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(path, DOWNLOAD_URL_TTL_SECONDS);
+
+    if (urlError) throw urlError;
+
+    const { data: stored } = await supabase
+      .from('lease_agreements')
+      .select('signed_pdf_hash')
+      .eq('id', agreement.id)
+      .single();
+
+    return jsonResponse({
+      success: true,
+      url: signedUrl.signedUrl,
+      signed_pdf_hash: stored?.signed_pdf_hash,
+    });
+  } catch (error) {
+    // SECURITY: Log detailed error server-side but return generic message to client
+    console.error('Signed agreement PDF error:', error);
+    return jsonResponse({
+      success: false,
+      error: 'Failed to generate the signed PDF. Please try again.',
+    }, 500);
+  }
+});
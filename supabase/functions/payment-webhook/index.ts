@@ -0,0 +1,688 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+/**
+ * Payment gateway webhook endpoint for Stripe, Square and PayPal.
+ *
+ * Register one URL per gateway:
+ *   <SUPABASE_URL>/functions/v1/payment-webhook/stripe
+ *   <SUPABASE_URL>/functions/v1/payment-webhook/square
+ *   <SUPABASE_URL>/functions/v1/payment-webhook/paypal
+ * and deploy with --no-verify-jwt (gateways do not send a Supabase JWT).
+ *
+ * Each request is signature-checked for its gateway, recorded in
+ * payment_webhook_events (redeliveries of the same event ID are ignored) and
+ * reconciled against payment_transactions:
+ * - Confirmed payments complete the matching charge (rent payment + schedule)
+ * - Failed payments mark the charge failed
+ * - Refunds are recorded against the charge
+ * Unknown references and amount/currency differences are raised in
+ * payment_reconciliation_exceptions instead of being applied.
+ */
+
+type Gateway = 'stripe' | 'square' | 'paypal';
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+interface NormalizedRefund {
+  id: string;
+  chargeExternalId: string;
+  amountCents: number;
+  status: string; // payment_transactions status
+}
+
+interface NormalizedEvent {
+  eventId: string;
+  eventType: string;
+  action: 'payment_succeeded' | 'payment_failed' | 'refund' | 'ignore';
+  externalId?: string;
+  amountCents?: number;
+  currency?: string;
+  failureMessage?: string | null;
+  refunds?: NormalizedRefund[];
+  // Stripe intent metadata, used to record charges the webhook sees first
+  metadata?: Record<string, string>;
+  // Best guess at the owning organization, for exceptions on unknown references
+  organizationHint?: { organizationId?: string; tenantId?: string };
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const toCents = (value: string | number) => Math.round(parseFloat(String(value)) * 100);
+
+// Mirrors src/utils/crypto.ts so keys saved from System Configuration can be read here
+async function decryptSetting(encrypted: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const keyMaterial = Deno.env.get('ENCRYPTION_KEY') || 'default-dev-key-change-in-production';
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(keyMaterial), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode('airental-tools-salt-v1'), iterations: 100000, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  const combined = Uint8Array.from(atob(encrypted), c => c.charCodeAt(0));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    key,
+    combined.slice(12)
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+async function getSettings(supabase: any, keys: string[]): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_key, setting_value, is_encrypted')
+    .in('setting_key', keys);
+
+  if (error) throw new Error('Failed to get gateway settings');
+
+  const settings: Record<string, string> = {};
+  for (const s of data || []) {
+    if (!s.setting_value) continue;
+    settings[s.setting_key] = s.is_encrypted ? await decryptSetting(s.setting_value) : s.setting_value;
+  }
+  return settings;
+}
+
+async function hmacSha256(secret: string, payload: string): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// ============================================================================
+// Signature verification
+// ============================================================================
+
+// Stripe-Signature: t=<timestamp>,v1=<hex hmac of "<timestamp>.<body>">[,v1=...]
+async function verifyStripe(supabase: any, req: Request, rawBody: string): Promise<boolean> {
+  const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET')
+    || (await getSettings(supabase, ['stripe_webhook_secret']))['stripe_webhook_secret'];
+  if (!secret) throw new Error('Stripe webhook secret not configured');
+
+  const parts = (req.headers.get('Stripe-Signature') || '').split(',').map(p => p.split('='));
+  const timestamp = parts.find(([k]) => k === 't')?.[1];
+  const signatures = parts.filter(([k]) => k === 'v1').map(([, v]) => v);
+
+  if (!timestamp || signatures.length === 0) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const digest = await hmacSha256(secret, `${timestamp}.${rawBody}`);
+  const expected = Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+  return signatures.some(sig => timingSafeEqual(sig, expected));
+}
+
+// x-square-hmacsha256-signature: base64 hmac of "<notification url><body>"
+async function verifySquare(supabase: any, req: Request, rawBody: string): Promise<boolean> {
+  const signatureKey = Deno.env.get('SQUARE_WEBHOOK_SIGNATURE_KEY')
+    || (await getSettings(supabase, ['square_webhook_signature_key']))['square_webhook_signature_key'];
+  if (!signatureKey) throw new Error('Square webhook signature key not configured');
+
+  // Must match the notification URL registered with Square exactly
+  const notificationUrl = Deno.env.get('SQUARE_WEBHOOK_URL')
+    || `${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-webhook/square`;
+
+  const digest = await hmacSha256(signatureKey, notificationUrl + rawBody);
+  const expected = btoa(String.fromCharCode(...digest));
+  return timingSafeEqual(req.headers.get('x-square-hmacsha256-signature') || '', expected);
+}
+
+// PayPal signs with a certificate; ask PayPal to verify the transmission
+async function verifyPayPal(supabase: any, req: Request, rawBody: string): Promise<boolean> {
+  const settings = await getSettings(supabase, [
+    'paypal_client_id', 'paypal_client_secret', 'paypal_environment', 'paypal_webhook_id',
+  ]);
+  if (!settings['paypal_webhook_id'] || !settings['paypal_client_id'] || !settings['paypal_client_secret']) {
+    throw new Error('PayPal webhook not configured');
+  }
+
+  const baseUrl = Deno.env.get('PAYPAL_API_BASE') || (settings['paypal_environment'] === 'production'
+    ? 'https://api-m.paypal.com'
+    : 'https://api-m.sandbox.paypal.com');
+
+  const tokenResponse = await fetch(`${baseUrl}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${settings['paypal_client_id']}:${settings['paypal_client_secret']}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+  const { access_token } = await tokenResponse.json();
+  if (!access_token) throw new Error('Failed to get PayPal access token');
+
+  const response = await fetch(`${baseUrl}/v1/notifications/verify-webhook-signature`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      auth_algo: req.headers.get('paypal-auth-algo'),
+      cert_url: req.headers.get('paypal-cert-url'),
+      transmission_id: req.headers.get('paypal-transmission-id'),
+      transmission_sig: req.headers.get('paypal-transmission-sig'),
+      transmission_time: req.headers.get('paypal-transmission-time'),
+      webhook_id: settings['paypal_webhook_id'],
+      webhook_event: JSON.parse(rawBody),
+    }),
+  });
+
+  const result = await response.json();
+  return result.verification_status === 'SUCCESS';
+}
+
+// ============================================================================
+// Event normalization
+// ============================================================================
+
+const mapStripeRefundStatus = (status: string): string => {
+  switch (status) {
+    case 'succeeded':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    case 'canceled':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+};
+
+function normalizeStripe(event: any): NormalizedEvent {
+  const object = event.data?.object || {};
+  const base = { eventId: event.id, eventType: event.type };
+
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return {
+        ...base,
+        action: 'payment_succeeded',
+        externalId: object.id,
+        amountCents: object.amount_received || object.amount,
+        currency: object.currency,
+        metadata: object.metadata || {},
+        organizationHint: { organizationId: object.metadata?.organization_id },
+      };
+    case 'payment_intent.payment_failed':
+    case 'payment_intent.canceled':
+      return {
+        ...base,
+        action: 'payment_failed',
+        externalId: object.id,
+        failureMessage: object.last_payment_error?.message || object.cancellation_reason || null,
+        metadata: object.metadata || {},
+      };
+    case 'charge.refunded':
+      return {
+        ...base,
+        action: 'refund',
+        refunds: (object.refunds?.data || []).map((refund: any) => ({
+          id: refund.id,
+          chargeExternalId: refund.payment_intent || object.payment_intent,
+          amountCents: refund.amount,
+          status: mapStripeRefundStatus(refund.status),
+        })),
+      };
+    case 'charge.refund.updated':
+    case 'refund.updated':
+      return {
+        ...base,
+        action: 'refund',
+        refunds: [{
+          id: object.id,
+          chargeExternalId: object.payment_intent,
+          amountCents: object.amount,
+          status: mapStripeRefundStatus(object.status),
+        }],
+      };
+    default:
+      return { ...base, action: 'ignore' };
+  }
+}
+
+const mapSquareRefundStatus = (status: string): string => {
+  switch (status) {
+    case 'COMPLETED':
+      return 'completed';
+    case 'REJECTED':
+    case 'FAILED':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+};
+
+function normalizeSquare(event: any): NormalizedEvent {
+  const base = { eventId: event.event_id, eventType: event.type };
+
+  if (event.type === 'payment.created' || event.type === 'payment.updated') {
+    const payment = event.data?.object?.payment || {};
+    // process-square-payment sends the tenant ID as reference_id
+    const hint = { tenantId: payment.reference_id };
+
+    if (payment.status === 'COMPLETED') {
+      return {
+        ...base,
+        action: 'payment_succeeded',
+        externalId: payment.id,
+        amountCents: payment.amount_money?.amount,
+        currency: payment.amount_money?.currency,
+        organizationHint: hint,
+      };
+    }
+    if (payment.status === 'FAILED' || payment.status === 'CANCELED') {
+      return { ...base, action: 'payment_failed', externalId: payment.id, failureMessage: `Square payment ${payment.status.toLowerCase()}` };
+    }
+    return { ...base, action: 'ignore' };
+  }
+
+  if (event.type === 'refund.created' || event.type === 'refund.updated') {
+    const refund = event.data?.object?.refund || {};
+    return {
+      ...base,
+      action: 'refund',
+      refunds: [{
+        id: refund.id,
+        chargeExternalId: refund.payment_id,
+        amountCents: refund.amount_money?.amount,
+        status: mapSquareRefundStatus(refund.status),
+      }],
+    };
+  }
+
+  return { ...base, action: 'ignore' };
+}
+
+function normalizePayPal(event: any): NormalizedEvent {
+  const resource = event.resource || {};
+  const base = { eventId: event.id, eventType: event.event_type };
+
+  switch (event.event_type) {
+    case 'PAYMENT.CAPTURE.COMPLETED':
+      return {
+        ...base,
+        action: 'payment_succeeded',
+        externalId: resource.id,
+        amountCents: toCents(resource.amount?.value || 0),
+        currency: resource.amount?.currency_code,
+        // create-paypal-order sets custom_id to the organization
+        organizationHint: { organizationId: resource.custom_id },
+      };
+    case 'PAYMENT.CAPTURE.DENIED':
+    case 'PAYMENT.CAPTURE.DECLINED':
+      return { ...base, action: 'payment_failed', externalId: resource.id, failureMessage: `PayPal capture ${resource.status?.toLowerCase() || 'denied'}` };
+    case 'PAYMENT.CAPTURE.REFUNDED': {
+      // The refund links back to its capture with rel "up"
+      const captureLink = (resource.links || []).find((l: any) => l.rel === 'up')?.href || '';
+      return {
+        ...base,
+        action: 'refund',
+        refunds: [{
+          id: resource.id,
+          chargeExternalId: captureLink.split('/').pop(),
+          amountCents: toCents(resource.amount?.value || 0),
+          status: resource.status === 'COMPLETED' ? 'completed' : resource.status === 'FAILED' ? 'failed' : 'pending',
+        }],
+      };
+    }
+    default:
+      return { ...base, action: 'ignore' };
+  }
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+async function resolveOrganization(supabase: any, hint?: NormalizedEvent['organizationHint']): Promise<string | null> {
+  if (hint?.organizationId) return hint.organizationId;
+  if (!hint?.tenantId) return null;
+
+  const { data } = await supabase
+    .from('tenants')
+    .select('organization_id')
+    .eq('id', hint.tenantId)
+    .maybeSingle();
+
+  return data?.organization_id || null;
+}
+
+async function raiseException(
+  supabase: any,
+  gateway: Gateway,
+  webhookEventId: string,
+  exception: {
+    type: 'unknown_reference' | 'amount_mismatch' | 'currency_mismatch' | 'processing_error';
+    organizationId: string | null;
+    externalId?: string;
+    transactionId?: string;
+    expectedAmount?: number;
+    receivedAmount?: number;
+    currency?: string;
+    details?: Record<string, any>;
+  }
+): Promise<void> {
+  // The partial unique index keeps one open exception per reference and type
+  const { error } = await supabase.from('payment_reconciliation_exceptions').insert({
+    organization_id: exception.organizationId,
+    gateway_name: gateway,
+    exception_type: exception.type,
+    external_transaction_id: exception.externalId || null,
+    transaction_id: exception.transactionId || null,
+    webhook_event_id: webhookEventId,
+    expected_amount: exception.expectedAmount ?? null,
+    received_amount: exception.receivedAmount ?? null,
+    currency: exception.currency || null,
+    details: exception.details || {},
+  });
+
+  if (error && error.code !== '23505') throw error;
+}
+
+async function findCharge(supabase: any, gateway: Gateway, externalId?: string) {
+  if (!externalId) return null;
+
+  const { data } = await supabase
+    .from('payment_transactions')
+    .select('id, organization_id, status, amount, currency')
+    .eq('gateway_name', gateway)
+    .eq('transaction_type', 'charge')
+    .eq('external_transaction_id', externalId)
+    .maybeSingle();
+
+  return data;
+}
+
+// Stripe intents carry enough metadata to record a charge the webhook sees first
+async function createStripeCharge(supabase: any, event: NormalizedEvent) {
+  const metadata = event.metadata || {};
+  if (!metadata.organization_id) return null;
+
+  await supabase
+    .from('payment_transactions')
+    .upsert({
+      organization_id: metadata.organization_id,
+      gateway_name: 'stripe',
+      transaction_type: 'charge',
+      amount: event.amountCents,
+      currency: String(event.currency || '').toUpperCase(),
+      status: 'pending',
+      external_transaction_id: event.externalId,
+      tenant_id: metadata.tenant_id || null,
+      lease_id: metadata.lease_id || null,
+      payment_schedule_id: metadata.payment_schedule_id || null,
+      payment_type: metadata.payment_type || 'rent',
+      gateway_response: { payment_intent_id: event.externalId },
+    }, { onConflict: 'gateway_name,external_transaction_id', ignoreDuplicates: true });
+
+  return await findCharge(supabase, 'stripe', event.externalId);
+}
+
+// Returns false when the event needed no action
+async function reconcileEvent(
+  supabase: any,
+  gateway: Gateway,
+  event: NormalizedEvent,
+  webhookEventId: string
+): Promise<boolean> {
+  switch (event.action) {
+    case 'payment_succeeded': {
+      let charge = await findCharge(supabase, gateway, event.externalId);
+      if (!charge && gateway === 'stripe') {
+        charge = await createStripeCharge(supabase, event);
+      }
+
+      if (!charge) {
+        await raiseException(supabase, gateway, webhookEventId, {
+          type: 'unknown_reference',
+          organizationId: await resolveOrganization(supabase, event.organizationHint),
+          externalId: event.externalId,
+          receivedAmount: event.amountCents,
+          currency: event.currency,
+          details: { event_type: event.eventType },
+        });
+        return true;
+      }
+
+      if (event.currency && String(charge.currency).toUpperCase() !== event.currency.toUpperCase()) {
+        await raiseException(supabase, gateway, webhookEventId, {
+          type: 'currency_mismatch',
+          organizationId: charge.organization_id,
+          externalId: event.externalId,
+          transactionId: charge.id,
+          expectedAmount: Number(charge.amount),
+          receivedAmount: event.amountCents,
+          currency: event.currency,
+          details: { expected_currency: charge.currency },
+        });
+        return true;
+      }
+
+      if (event.amountCents !== undefined && Number(charge.amount) !== event.amountCents) {
+        await raiseException(supabase, gateway, webhookEventId, {
+          type: 'amount_mismatch',
+          organizationId: charge.organization_id,
+          externalId: event.externalId,
+          transactionId: charge.id,
+          expectedAmount: Number(charge.amount),
+          receivedAmount: event.amountCents,
+          currency: event.currency,
+        });
+        return true;
+      }
+
+      const { error } = await supabase.rpc('complete_gateway_payment', {
+        p_transaction_id: charge.id,
+        p_gateway_response: { webhook_event_id: event.eventId, confirmed_by: 'webhook' },
+      });
+      if (error) throw error;
+      return true;
+    }
+
+    case 'payment_failed': {
+      const charge = await findCharge(supabase, gateway, event.externalId);
+      if (!charge) return false;
+
+      await supabase
+        .from('payment_transactions')
+        .update({
+          status: event.eventType === 'payment_intent.canceled' ? 'cancelled' : 'failed',
+          error_message: event.failureMessage || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', charge.id)
+        .neq('status', 'completed');
+      return true;
+    }
+
+    case 'refund': {
+      for (const refund of event.refunds || []) {
+        const charge = await findCharge(supabase, gateway, refund.chargeExternalId);
+
+        if (!charge) {
+          await raiseException(supabase, gateway, webhookEventId, {
+            type: 'unknown_reference',
+            organizationId: null,
+            externalId: refund.id,
+            receivedAmount: refund.amountCents,
+            details: { event_type: event.eventType, charge_reference: refund.chargeExternalId },
+          });
+          continue;
+        }
+
+        const { error } = await supabase.rpc('record_gateway_refund', {
+          p_charge_transaction_id: charge.id,
+          p_refund_external_id: refund.id,
+          p_amount_cents: refund.amountCents,
+          p_status: refund.status,
+          p_gateway_response: { webhook_event_id: event.eventId },
+        });
+        if (error) throw error;
+      }
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const url = new URL(req.url);
+  const gateway = (url.searchParams.get('gateway') || url.pathname.split('/').pop()) as Gateway;
+
+  if (!['stripe', 'square', 'paypal'].includes(gateway)) {
+    return jsonResponse({ error: 'Unknown gateway' }, 404);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') || '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+  );
+
+  const rawBody = await req.text();
+
+  try {
+    const verified = gateway === 'stripe'
+      ? await verifyStripe(supabase, req, rawBody)
+      : gateway === 'square'
+        ? await verifySquare(supabase, req, rawBody)
+        : await verifyPayPal(supabase, req, rawBody);
+
+    if (!verified) {
+      return jsonResponse({ error: 'Invalid signature' }, 400);
+    }
+  } catch (error) {
+    console.error(`${gateway} webhook verification error:`, error);
+    return jsonResponse({ error: 'Webhook not configured' }, 500);
+  }
+
+  const payload = JSON.parse(rawBody);
+  const event = gateway === 'stripe'
+    ? normalizeStripe(payload)
+    : gateway === 'square'
+      ? normalizeSquare(payload)
+      : normalizePayPal(payload);
+
+  // Record the event; a conflict means the gateway redelivered one we already have
+  const { data: stored, error: insertError } = await supabase
+    .from('payment_webhook_events')
+    .insert({
+      gateway_name: gateway,
+      event_id: event.eventId,
+      event_type: event.eventType,
+      payload,
+    })
+    .select('id')
+    .maybeSingle();
+
+  let eventRowId = stored?.id;
+
+  if (insertError) {
+    const { data: previous } = await supabase
+      .from('payment_webhook_events')
+      .select('id, status')
+      .eq('gateway_name', gateway)
+      .eq('event_id', event.eventId)
+      .maybeSingle();
+
+    if (!previous) {
+      console.error(`Failed to record ${gateway} event:`, insertError);
+      return jsonResponse({ error: 'Failed to record event' }, 500);
+    }
+
+    // Only retry events whose earlier processing failed
+    if (previous.status !== 'failed') {
+      return jsonResponse({ received: true, duplicate: true });
+    }
+    eventRowId = previous.id;
+  }
+
+  try {
+    const handled = await reconcileEvent(supabase, gateway, event, eventRowId);
+
+    await supabase
+      .from('payment_webhook_events')
+      .update({
+        status: handled ? 'processed' : 'ignored',
+        error_message: null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', eventRowId);
+
+    if (insertError) {
+      // A successful retry clears the error raised by the earlier attempt
+      await supabase
+        .from('payment_reconciliation_exceptions')
+        .update({
+          status: 'resolved',
+          resolution_notes: 'Processed when the gateway redelivered the event',
+          resolved_at: new Date().toISOString(),
+        })
+        .eq('gateway_name', gateway)
+        .eq('external_transaction_id', event.externalId || event.eventId)
+        .eq('exception_type', 'processing_error')
+        .eq('status', 'open');
+    }
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    console.error(`${gateway} webhook processing error:`, error);
+
+    await supabase
+      .from('payment_webhook_events')
+      .update({
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', eventRowId);
+
+    try {
+      const charge = await findCharge(supabase, gateway, event.externalId);
+      await raiseException(supabase, gateway, eventRowId, {
+        type: 'processing_error',
+        organizationId: charge?.organization_id || await resolveOrganization(supabase, event.organizationHint),
+        externalId: event.externalId || event.eventId,
+        transactionId: charge?.id,
+        details: {
+          event_type: event.eventType,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    } catch (exceptionError) {
+      console.error('Failed to record reconciliation exception:', exceptionError);
+    }
+
+    // Non-2xx makes the gateway redeliver the event later
+    return jsonResponse({ error: 'Processing failed' }, 500);
+  }
+});
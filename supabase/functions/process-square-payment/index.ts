@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
+import { authorizePaymentRequest, PaymentTarget } from "../_shared/paymentAuthorization.ts";
 
 // SECURITY: Restrict CORS to allowed origins only
 const getAllowedOrigin = (requestOrigin: string | null): string => {
@@ -17,14 +18,11 @@ const getCorsHeaders = (requestOrigin: string | null) => ({
   "Access-Control-Max-Age": "86400",
 });
 
-interface SquarePaymentRequest {
-  organization_id: string;
+interface SquarePaymentRequest extends PaymentTarget {
   amount_cents: number;
   currency: string;
   source_id: string;
   verification_token?: string;
-  tenant_id?: string;
-  lease_id?: string;
   payment_type: string;
   description?: string;
   idempotency_key: string;
@@ -50,6 +48,60 @@ async function getSquareCredentials(supabase: any) {
   };
 }
 
+// Record the completed Square payment as a charge and apply it to the tenant's
+// rent. The payment-webhook function may already have seen the payment and
+// flagged it as an unknown reference; that exception is resolved here.
+async function recordCompletedCharge(supabase: any, request: SquarePaymentRequest, payment: any): Promise<string | null> {
+  await supabase
+    .from('payment_transactions')
+    .upsert({
+      organization_id: request.organization_id,
+      gateway_name: 'square',
+      transaction_type: 'charge',
+      amount: payment.amount_money?.amount ?? request.amount_cents,
+      currency: String(payment.amount_money?.currency || request.currency).toUpperCase(),
+      status: 'pending',
+      external_transaction_id: payment.id,
+      tenant_id: request.tenant_id || null,
+      lease_id: request.lease_id || null,
+      payment_schedule_id: request.payment_schedule_id || null,
+      payment_type: request.payment_type,
+      gateway_response: { payment_id: payment.id, receipt_url: payment.receipt_url },
+    }, { onConflict: 'gateway_name,external_transaction_id', ignoreDuplicates: true });
+
+  const { data: transaction, error } = await supabase
+    .from('payment_transactions')
+    .select('id')
+    .eq('gateway_name', 'square')
+    .eq('external_transaction_id', payment.id)
+    .single();
+
+  if (error) throw error;
+
+  const { data: paymentId, error: completeError } = await supabase.rpc('complete_gateway_payment', {
+    p_transaction_id: transaction.id,
+    p_gateway_response: { payment_id: payment.id, receipt_url: payment.receipt_url },
+  });
+
+  if (completeError) throw completeError;
+
+  await supabase
+    .from('payment_reconciliation_exceptions')
+    .update({
+      status: 'resolved',
+      organization_id: request.organization_id,
+      transaction_id: transaction.id,
+      resolution_notes: 'Matched when the payment was recorded',
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('gateway_name', 'square')
+    .eq('external_transaction_id', payment.id)
+    .eq('exception_type', 'unknown_reference')
+    .eq('status', 'open');
+
+  return paymentId;
+}
+
 Deno.serve(async (req: Request) => {
   const origin = req.headers.get('Origin');
   const corsHeaders = getCorsHeaders(origin);
@@ -75,7 +127,36 @@ Deno.serve(async (req: Request) => {
       }
     );
 
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     const request: SquarePaymentRequest = await req.json();
+
+    // Transactions and rent payments are written with the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const refusal = await authorizePaymentRequest(serviceClient, user.id, request);
+    if (refusal) {
+      return new Response(
+        JSON.stringify({ success: false, error: refusal }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     const { accessToken, locationId, environment } = await getSquareCredentials(supabase);
 
     if (!accessToken || !locationId) {
@@ -121,10 +202,19 @@ Deno.serve(async (req: Request) => {
     const result = await response.json();
 
     if (result.payment && result.payment.status === 'COMPLETED') {
+      let rentPaymentId: string | null = null;
+      try {
+        rentPaymentId = await recordCompletedCharge(serviceClient, request, result.payment);
+      } catch (recordError) {
+        // The card was charged; reconciliation surfaces it if it was not recorded
+        console.error('Failed to record Square payment:', recordError);
+      }
+
       return new Response(
         JSON.stringify({
           success: true,
           payment_id: result.payment.id,
+          rent_payment_id: rentPaymentId,
           receipt_url: result.payment.receipt_url,
         }),
         {
@@ -0,0 +1,193 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// SECURITY: Restrict CORS to allowed origins only
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') || 'https://airental.tools').split(',');
+  if (requestOrigin && allowedOrigins.includes(requestOrigin)) {
+    return requestOrigin;
+  }
+  return allowedOrigins[0]; // Default to first allowed origin
+};
+
+const getCorsHeaders = (requestOrigin: string | null) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(requestOrigin),
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Max-Age": "86400",
+});
+
+// Point at the stripe-stub function to test without network access
+const STRIPE_API_BASE = Deno.env.get('STRIPE_API_BASE') || 'https://api.stripe.com';
+
+interface RefundRequest {
+  transaction_id: string;
+  amount_cents?: number; // Defaults to the remaining refundable amount
+  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer';
+}
+
+// Mirrors src/utils/crypto.ts so keys saved from System Configuration can be read here
+async function decryptSetting(encrypted: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const keyMaterial = Deno.env.get('ENCRYPTION_KEY') || 'default-dev-key-change-in-production';
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(keyMaterial), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode('airental-tools-salt-v1'), iterations: 100000, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  const combined = Uint8Array.from(atob(encrypted), c => c.charCodeAt(0));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    key,
+    combined.slice(12)
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+async function getStripeSecretKey(supabase: any): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value, is_encrypted')
+    .eq('setting_key', 'stripe_secret_key')
+    .maybeSingle();
+
+  if (error) throw new Error('Failed to get Stripe credentials');
+  if (!data?.setting_value) return null;
+
+  return data.is_encrypted ? await decryptSetting(data.setting_value) : data.setting_value;
+}
+
+// Stripe refund status -> payment_transactions status
+const mapRefundStatus = (status: string): string => {
+  switch (status) {
+    case 'succeeded':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    case 'canceled':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing Authorization header');
+    }
+
+    // Read the charge as the caller: RLS limits this to owners, admins and accounting
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_ANON_KEY') || '',
+      {
+        global: { headers: { Authorization: authHeader } }
+      }
+    );
+
+    const request: RefundRequest = await req.json();
+
+    const { data: charge } = await userClient
+      .from('payment_transactions')
+      .select('id, gateway_name, transaction_type, status, amount, refunded_amount, external_transaction_id')
+      .eq('id', request.transaction_id)
+      .maybeSingle();
+
+    if (!charge || charge.gateway_name !== 'stripe' || charge.transaction_type !== 'charge') {
+      return jsonResponse({ success: false, error: 'Stripe payment not found' }, 404);
+    }
+
+    if (charge.status !== 'completed') {
+      return jsonResponse({ success: false, error: 'Only completed payments can be refunded' }, 400);
+    }
+
+    const refundable = Number(charge.amount) - Number(charge.refunded_amount || 0);
+    const amount = request.amount_cents ?? refundable;
+
+    if (amount <= 0 || amount > refundable) {
+      return jsonResponse({ success: false, error: `Refund amount must be between 1 and ${refundable} cents` }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const secretKey = await getStripeSecretKey(supabase);
+    if (!secretKey) {
+      return jsonResponse({ success: false, error: 'Stripe credentials not configured' }, 400);
+    }
+
+    const body = [
+      `payment_intent=${encodeURIComponent(charge.external_transaction_id)}`,
+      `amount=${amount}`,
+      `metadata[transaction_id]=${encodeURIComponent(charge.id)}`,
+    ];
+    if (request.reason) {
+      body.push(`reason=${encodeURIComponent(request.reason)}`);
+    }
+
+    const response = await fetch(`${STRIPE_API_BASE}/v1/refunds`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Idempotency-Key': `refund-${charge.id}-${Number(charge.refunded_amount || 0)}-${amount}`,
+      },
+      body: body.join('&'),
+    });
+
+    const refund = await response.json();
+
+    if (refund.error) {
+      return jsonResponse({ success: false, error: refund.error.message || 'Refund failed' }, 400);
+    }
+
+    const status = mapRefundStatus(refund.status);
+    const { data: refundTransactionId, error: recordError } = await supabase.rpc('record_gateway_refund', {
+      p_charge_transaction_id: charge.id,
+      p_refund_external_id: refund.id,
+      p_amount_cents: refund.amount,
+      p_status: status,
+      p_gateway_response: { refund_id: refund.id, status: refund.status, reason: refund.reason },
+    });
+
+    if (recordError) throw recordError;
+
+    return jsonResponse({
+      success: status !== 'failed' && status !== 'cancelled',
+      refund_id: refund.id,
+      transaction_id: refundTransactionId,
+      status,
+    });
+  } catch (error) {
+    // SECURITY: Log detailed error server-side but return generic message to client
+    console.error('Stripe refund error:', error);
+    return jsonResponse({
+      success: false,
+      error: 'Refund failed. Please try again or contact support.',
+    }, 500);
+  }
+});
@@ -0,0 +1,848 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import {
+  ParsedExchangeRate,
+  RATE_FEED_URLS,
+  RateFeedProvider,
+  fillRateGaps,
+  isAllowedRateFeedUrl,
+  parseRateFeed,
+  quoteInBaseCurrency,
+} from "../_shared/exchangeRateParser.ts";
+
+/**
+ * Scheduled job runner for the automation worker.
+ *
+ * Invoked by pg_cron every 15 minutes (see migration 086). On each invocation it:
+ * - Delivers due notifications through the send-email function, with retries
+ * - Queues agreement signing invitations for signers whose turn has come, and
+ *   reminders for those who have not signed (migration 105)
+ * - Runs the daily tasks (rent reminders, lease expiration reminders, recurring
+ *   charge generation, late fee assessment, exchange rate import) for every business whose
+ *   local time has passed its automation_run_hour and that has not yet run them for its local date
+ *
+ * Super admins can also call it with their own session for a manual run, which
+ * runs every daily task for every business right away.
+ *
+ * A lock in automation_job_locks prevents overlapping runs, and every task run
+ * is recorded in automation_job_runs.
+ */
+
+// SECURITY: Restrict CORS to allowed origins only
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') || 'https://airental.tools').split(',');
+  if (requestOrigin && allowedOrigins.includes(requestOrigin)) {
+    return requestOrigin;
+  }
+  return allowedOrigins[0]; // Default to first allowed origin
+};
+
+const getCorsHeaders = (requestOrigin: string | null) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(requestOrigin),
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Max-Age": "86400",
+});
+
+const LOCK_NAME = 'run-scheduled-jobs';
+const LOCK_TTL_SECONDS = 900;
+const DEFAULT_RUN_HOUR = 6;
+const NOTIFICATION_RETRY_BASE_DELAY_SECONDS = 300;
+const RENT_REMINDER_DAYS = [7, 3, 1];
+const LEASE_REMINDER_DAYS = [90, 60, 30, 14, 7];
+const AGREEMENT_REMINDER_INTERVAL_DAYS = 3;
+const AGREEMENT_REMINDER_MAX = 3;
+const RATE_UPSERT_BATCH_SIZE = 500;
+
+const SIGNER_ROLE_LABELS: Record<string, string> = {
+  landlord: 'landlord',
+  tenant: 'tenant',
+  co_tenant: 'co-tenant',
+  guarantor: 'guarantor',
+  witness: 'witness',
+};
+
+interface TaskResult {
+  success: boolean;
+  task: string;
+  processed: number;
+  failed: number;
+  errors: string[];
+  timestamp: string;
+}
+
+interface BusinessRow {
+  id: string;
+  business_name: string;
+  timezone: string | null;
+  automation_run_hour: number | null;
+}
+
+const newResult = (task: string): TaskResult => ({
+  success: true,
+  task,
+  processed: 0,
+  failed: 0,
+  errors: [],
+  timestamp: new Date().toISOString(),
+});
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// Local calendar date (YYYY-MM-DD) and hour for a timezone
+function getLocalTime(timeZone: string, now: Date): { date: string; hour: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    // Unknown timezone: fall back to UTC
+    return getLocalTime('UTC', now);
+  }
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: parseInt(get('hour'), 10),
+  };
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// Same substitution rules as notificationService.replaceVariables
+function replaceVariables(template: string, variables: Record<string, any>): string {
+  let result = template;
+
+  for (const [key, value] of Object.entries(variables)) {
+    result = result.replace(new RegExp(`{{${key}}}`, 'g'), String(value ?? ''));
+  }
+
+  result = result.replace(/{{#(\w+)}}([\s\S]*?){{\/\1}}/g, (_match, key, content) => {
+    return variables[key] ? content : '';
+  });
+
+  return result.replace(/{{[^}]+}}/g, '');
+}
+
+// dedupeKey names what the notification is about; queueing the same key again
+// (a task retried after failing partway through) is a no-op
+async function scheduleNotification(
+  supabase: any,
+  businessId: string,
+  type: string,
+  dedupeKey: string,
+  recipientEmail: string,
+  recipientName: string,
+  variables: Record<string, any>
+): Promise<boolean> {
+  const { data: template } = await supabase
+    .from('notification_templates')
+    .select('subject_template, body_template')
+    .eq('type', type)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!template) return false;
+
+  const { error } = await supabase.from('scheduled_notifications').upsert({
+    organization_id: businessId,
+    notification_type: type,
+    recipient_email: recipientEmail,
+    recipient_name: recipientName,
+    subject: replaceVariables(template.subject_template, variables),
+    body: replaceVariables(template.body_template, variables),
+    scheduled_for: new Date().toISOString(),
+    status: 'pending',
+    metadata: variables,
+    dedupe_key: dedupeKey,
+  }, { onConflict: 'organization_id,dedupe_key', ignoreDuplicates: true });
+
+  return !error;
+}
+
+async function scheduleRentReminders(supabase: any, business: BusinessRow, localDate: string): Promise<TaskResult> {
+  const result = newResult('scheduleRentReminders');
+
+  for (const days of RENT_REMINDER_DAYS) {
+    const dueDate = addDays(localDate, days);
+    const rentDueDay = parseInt(dueDate.split('-')[2], 10);
+
+    const { data: leases, error } = await supabase
+      .from('leases')
+      .select(`
+        *,
+        units:unit_id (
+          id,
+          unit_number,
+          properties:property_id ( id, name )
+        ),
+        tenants:unit_id ( id, first_name, last_name, email )
+      `)
+      .eq('organization_id', business.id)
+      .eq('status', 'active')
+      .eq('rent_due_day', rentDueDay);
+
+    if (error) {
+      result.failed++;
+      result.errors.push(`Failed to load leases due in ${days} days: ${error.message}`);
+      continue;
+    }
+
+    for (const lease of leases || []) {
+      const unit = lease.units;
+      const tenants = Array.isArray(lease.tenants) ? lease.tenants : [];
+
+      for (const tenant of tenants) {
+        if (!tenant.email) continue;
+        const tenantName = `${tenant.first_name} ${tenant.last_name}`;
+        const scheduled = await scheduleNotification(supabase, business.id, 'rent_reminder',
+          `rent_reminder:${lease.id}:${tenant.id}:${dueDate}`, tenant.email, tenantName, {
+          tenant_name: tenantName,
+          amount: `$${(lease.monthly_rent_cents / 100).toFixed(2)}`,
+          due_date: dueDate,
+          days_until_due: days,
+          property_name: unit?.properties?.name || 'Your Property',
+          unit_number: unit?.unit_number || '',
+          organization_name: business.business_name,
+        });
+
+        if (scheduled) {
+          result.processed++;
+        } else {
+          result.failed++;
+          result.errors.push(`Failed to schedule rent reminder for ${tenant.email}`);
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+async function scheduleLeaseExpirationReminders(supabase: any, business: BusinessRow, localDate: string): Promise<TaskResult> {
+  const result = newResult('scheduleLeaseExpirationReminders');
+
+  for (const days of LEASE_REMINDER_DAYS) {
+    const endDate = addDays(localDate, days);
+
+    const { data: leases, error } = await supabase
+      .from('leases')
+      .select(`
+        *,
+        units:unit_id (
+          id,
+          unit_number,
+          properties:property_id ( id, name )
+        )
+      `)
+      .eq('organization_id', business.id)
+      .eq('status', 'active')
+      .eq('end_date', endDate);
+
+    if (error) {
+      result.failed++;
+      result.errors.push(`Failed to load leases ending ${endDate}: ${error.message}`);
+      continue;
+    }
+
+    for (const lease of leases || []) {
+      const unit = lease.units;
+      if (!unit?.id) continue;
+
+      const { data: tenants } = await supabase
+        .from('tenants')
+        .select('id, first_name, last_name, email')
+        .eq('unit_id', unit.id)
+        .eq('is_active', true);
+
+      for (const tenant of tenants || []) {
+        if (!tenant.email) continue;
+        const tenantName = `${tenant.first_name} ${tenant.last_name}`;
+        const scheduled = await scheduleNotification(supabase, business.id, 'lease_expiring',
+          `lease_expiring:${lease.id}:${tenant.id}:${endDate}`, tenant.email, tenantName, {
+          tenant_name: tenantName,
+          lease_end_date: endDate,
+          days_until_expiry: days,
+          property_name: unit.properties?.name || 'Your Property',
+          unit_number: unit.unit_number || '',
+          organization_name: business.business_name,
+        });
+
+        if (scheduled) {
+          result.processed++;
+        } else {
+          result.failed++;
+          result.errors.push(`Failed to schedule lease reminder for ${tenant.email}`);
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+// Extend generated payment schedules to the generation horizon (migration 094)
+async function generateRecurringCharges(supabase: any, business: BusinessRow): Promise<TaskResult> {
+  const result = newResult('generateRecurringCharges');
+
+  const { data: inserted, error } = await supabase.rpc('generate_lease_schedules_for_business', {
+    p_business_id: business.id,
+  });
+
+  if (error) {
+    result.success = false;
+    result.failed++;
+    result.errors.push(`Recurring charge generation failed: ${error.message}`);
+    return result;
+  }
+
+  result.processed = inserted || 0;
+  return result;
+}
+
+async function assessLateFees(supabase: any, business: BusinessRow): Promise<TaskResult> {
+  const result = newResult('assessLateFees');
+
+  const { data: lateFees, error } = await supabase.rpc('assess_late_fees_for_business', {
+    p_business_id: business.id,
+  });
+
+  if (error) {
+    result.success = false;
+    result.failed++;
+    result.errors.push(`Late fee assessment failed: ${error.message}`);
+    return result;
+  }
+
+  for (const lateFee of lateFees || []) {
+    result.processed++;
+
+    const { data: fee } = await supabase
+      .from('late_fees')
+      .select('original_due_date, tenants:tenant_id ( first_name, last_name, email )')
+      .eq('id', lateFee.late_fee_id)
+      .maybeSingle();
+
+    const tenant = fee?.tenants;
+    if (!tenant?.email) continue;
+
+    const tenantName = `${tenant.first_name} ${tenant.last_name}`;
+    const daysOverdue = Math.max(
+      1,
+      Math.floor((Date.now() - new Date(fee.original_due_date).getTime()) / (1000 * 60 * 60 * 24))
+    );
+
+    await scheduleNotification(supabase, business.id, 'rent_overdue', `rent_overdue:${lateFee.late_fee_id}`, tenant.email, tenantName, {
+      tenant_name: tenantName,
+      amount: `$${(lateFee.late_fee_cents / 100).toFixed(2)}`,
+      late_fee: `$${(lateFee.late_fee_cents / 100).toFixed(2)}`,
+      due_date: fee.original_due_date,
+      days_overdue: daysOverdue,
+      organization_name: business.business_name,
+    });
+  }
+
+  return result;
+}
+
+// ========================================
+// Exchange rate import
+// ========================================
+
+async function importExchangeRates(supabase: any, business: BusinessRow, localDate: string): Promise<TaskResult> {
+  const result = newResult('importExchangeRates');
+
+  const { data: settings } = await supabase
+    .from('business_accounting_settings')
+    .select('base_currency, rate_provider, rate_provider_url, rate_auto_import')
+    .eq('business_id', business.id)
+    .maybeSingle();
+
+  if (!settings?.rate_auto_import || !settings.rate_provider) return result;
+
+  const baseCurrency = settings.base_currency || 'CAD';
+  const provider = settings.rate_provider as RateFeedProvider;
+  if (!RATE_FEED_URLS[provider]) return result;
+  const url = settings.rate_provider_url || RATE_FEED_URLS[provider];
+  const record = {
+    business_id: business.id,
+    provider: settings.rate_provider,
+    trigger_source: 'scheduled',
+    source_url: url,
+  };
+
+  const fail = async (message: string, importId?: string) => {
+    if (importId) {
+      await supabase.from('exchange_rate_imports').update({ status: 'failed', error_message: message }).eq('id', importId);
+    } else {
+      await supabase.from('exchange_rate_imports').insert({ ...record, status: 'failed', error_message: message });
+    }
+    result.success = false;
+    result.failed++;
+    result.errors.push(`Exchange rate import failed: ${message}`);
+    return result;
+  };
+
+  // The address comes from the business's settings, so it must be on the provider's own host
+  if (!isAllowedRateFeedUrl(provider, url)) {
+    return fail(`Download address must be https on ${new URL(RATE_FEED_URLS[provider]).host}`);
+  }
+
+  let published: ParsedExchangeRate[];
+  let skipped: string[];
+  try {
+    const response = await fetch(url, { redirect: 'error' });
+    if (!response.ok) throw new Error(`Rate download from ${url} failed with status ${response.status}`);
+    const parsed = parseRateFeed(provider, await response.text());
+
+    const { data: currencies } = await supabase.from('currencies').select('code').eq('is_active', true);
+    const active = new Set((currencies || []).map((c: { code: string }) => c.code));
+    published = quoteInBaseCurrency(parsed, baseCurrency).filter((r) => active.has(r.fromCurrency));
+
+    const imported = new Set(published.map((r) => r.fromCurrency));
+    skipped = [...new Set(parsed.flatMap((r) => [r.fromCurrency, r.toCurrency]))]
+      .filter((code) => code !== baseCurrency && !imported.has(code))
+      .sort();
+
+    if (published.length === 0) throw new Error(`No rates in the feed could be quoted in ${baseCurrency}`);
+  } catch (error) {
+    return fail(errorMessage(error));
+  }
+
+  const filled = fillRateGaps(published, localDate);
+  const dates = filled.map((r) => r.effectiveDate).sort();
+
+  const { data: importRow, error: importError } = await supabase
+    .from('exchange_rate_imports')
+    .insert({
+      ...record,
+      status: 'succeeded',
+      start_date: dates[0],
+      end_date: dates[dates.length - 1],
+      skipped_currencies: skipped,
+    })
+    .select('id')
+    .single();
+
+  if (importError) return fail(importError.message);
+
+  // Filled days never replace a rate that was published or entered for that day
+  const { data: existing, error: existingError } = await supabase
+    .from('exchange_rates')
+    .select('from_currency, effective_date')
+    .eq('business_id', business.id)
+    .eq('to_currency', baseCurrency)
+    .is('filled_from_date', null)
+    .gte('effective_date', dates[0])
+    .lte('effective_date', dates[dates.length - 1]);
+
+  if (existingError) return fail(existingError.message, importRow.id);
+
+  const taken = new Set((existing || []).map((r: any) => `${r.from_currency}:${r.effective_date}`));
+  const rates = filled.filter((r) => !r.filledFromDate || !taken.has(`${r.fromCurrency}:${r.effectiveDate}`));
+
+  for (let i = 0; i < rates.length; i += RATE_UPSERT_BATCH_SIZE) {
+    const { error } = await supabase.from('exchange_rates').upsert(
+      rates.slice(i, i + RATE_UPSERT_BATCH_SIZE).map((r) => ({
+        business_id: business.id,
+        from_currency: r.fromCurrency,
+        to_currency: r.toCurrency,
+        rate: r.rate,
+        effective_date: r.effectiveDate,
+        source: 'api',
+        provider: settings.rate_provider,
+        import_id: importRow.id,
+        filled_from_date: r.filledFromDate ?? null,
+      })),
+      { onConflict: 'business_id,from_currency,to_currency,effective_date' }
+    );
+    if (error) return fail(error.message, importRow.id);
+  }
+
+  const ratesFilled = rates.filter((r) => r.filledFromDate).length;
+  await supabase
+    .from('exchange_rate_imports')
+    .update({ rates_imported: rates.length - ratesFilled, rates_filled: ratesFilled })
+    .eq('id', importRow.id);
+
+  result.processed = rates.length;
+  return result;
+}
+
+// Same rule as agreementService.getSignersDue: unsigned signers up to the
+// earliest group that still has a required signer outstanding
+function signersDue(signers: any[]): any[] {
+  const outstanding = signers.filter((s) => s.is_required && !s.signed_at);
+  if (outstanding.length === 0) return [];
+  const currentOrder = Math.min(...outstanding.map((s) => s.signing_order));
+  return signers.filter((s) => !s.signed_at && s.signing_order <= currentOrder);
+}
+
+async function scheduleAgreementSigningNotifications(supabase: any, appUrl: string): Promise<TaskResult> {
+  const result = newResult('scheduleAgreementSigningNotifications');
+  const now = new Date();
+  const reminderCutoff = new Date(now.getTime() - AGREEMENT_REMINDER_INTERVAL_DAYS * 86400000);
+
+  const { data: agreements, error } = await supabase
+    .from('lease_agreements')
+    .select(`
+      id, business_id, agreement_title, landlord_name, property_address,
+      signature_deadline, reminder_count,
+      businesses:business_id ( business_name ),
+      agreement_signers ( * )
+    `)
+    .in('status', ['sent', 'viewed', 'signed'])
+    .not('business_id', 'is', null);
+
+  if (error) {
+    result.success = false;
+    result.errors.push(error.message);
+    return result;
+  }
+
+  for (const agreement of agreements || []) {
+    if (agreement.signature_deadline && agreement.signature_deadline < now.toISOString().split('T')[0]) continue;
+
+    for (const signer of signersDue(agreement.agreement_signers || [])) {
+      const lastSent = signer.last_reminded_at || signer.invited_at;
+      const isReminder = !!signer.invited_at;
+      if (isReminder && (signer.reminder_count >= AGREEMENT_REMINDER_MAX || new Date(lastSent) > reminderCutoff)) {
+        continue;
+      }
+
+      // Keyed by the reminder number, so a signer whose update below did not land
+      // is not queued again on the next invocation
+      const scheduled = await scheduleNotification(
+        supabase,
+        agreement.business_id,
+        isReminder ? 'agreement_signing_reminder' : 'agreement_signing_request',
+        isReminder
+          ? `agreement_signing_reminder:${signer.id}:${signer.reminder_count + 1}`
+          : `agreement_signing_request:${signer.id}`,
+        signer.email,
+        signer.name,
+        {
+          signer_name: signer.name,
+          role: SIGNER_ROLE_LABELS[signer.role] || signer.role,
+          agreement_title: agreement.agreement_title,
+          landlord_name: agreement.landlord_name,
+          property_address: agreement.property_address,
+          signature_deadline: agreement.signature_deadline || '',
+          signing_url: `${appUrl}/agreement/${agreement.id}?signer=${signer.signing_token}`,
+          organization_name: agreement.businesses?.business_name || agreement.landlord_name,
+        }
+      );
+
+      if (!scheduled) {
+        result.failed++;
+        result.errors.push(`Failed to schedule signing ${isReminder ? 'reminder' : 'invitation'} for ${signer.email}`);
+        continue;
+      }
+
+      await supabase
+        .from('agreement_signers')
+        .update(isReminder
+          ? { last_reminded_at: now.toISOString(), reminder_count: signer.reminder_count + 1 }
+          : { invited_at: now.toISOString() })
+        .eq('id', signer.id);
+
+      if (isReminder) {
+        agreement.reminder_count = (agreement.reminder_count || 0) + 1;
+        await supabase
+          .from('lease_agreements')
+          .update({ reminder_sent_at: now.toISOString(), reminder_count: agreement.reminder_count })
+          .eq('id', agreement.id);
+      }
+
+      result.processed++;
+    }
+  }
+
+  return result;
+}
+
+async function processScheduledNotifications(supabase: any, serviceRoleKey: string): Promise<TaskResult> {
+  const result = newResult('processScheduledNotifications');
+  const now = new Date().toISOString();
+
+  const { data: notifications, error } = await supabase
+    .from('scheduled_notifications')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('scheduled_for', now)
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`)
+    .order('scheduled_for')
+    .limit(100);
+
+  if (error) {
+    result.success = false;
+    result.errors.push(error.message);
+    return result;
+  }
+
+  for (const notification of notifications || []) {
+    let delivered = false;
+    let failureMessage = 'Email sending failed';
+
+    try {
+      const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/send-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${serviceRoleKey}`,
+        },
+        body: JSON.stringify({
+          to: notification.recipient_email,
+          type: 'notification',
+          data: {
+            subject: notification.subject,
+            title: notification.subject,
+            name: notification.recipient_name || '',
+            message: notification.body,
+          },
+        }),
+      });
+      const body = await response.json().catch(() => ({}));
+      delivered = response.ok && body.success === true;
+      failureMessage = body.error || body.message || `send-email returned ${response.status}`;
+    } catch (sendError) {
+      failureMessage = errorMessage(sendError);
+    }
+
+    if (delivered) {
+      await supabase
+        .from('scheduled_notifications')
+        .update({
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          last_attempt_at: new Date().toISOString(),
+          next_attempt_at: null,
+          error_message: null,
+          attempt_count: (notification.attempt_count || 0) + 1,
+        })
+        .eq('id', notification.id);
+      result.processed++;
+    } else {
+      const { data: status } = await supabase.rpc('record_notification_attempt_failure', {
+        p_notification_id: notification.id,
+        p_error_message: failureMessage,
+        p_base_delay_seconds: NOTIFICATION_RETRY_BASE_DELAY_SECONDS,
+      });
+      result.failed++;
+      result.errors.push(
+        status === 'dead_letter'
+          ? `Notification ${notification.id} dead-lettered: ${failureMessage}`
+          : `Notification ${notification.id} failed, will retry: ${failureMessage}`
+      );
+    }
+  }
+
+  return result;
+}
+
+// Super admins start manual runs from System Configuration with their own session
+async function isSuperAdmin(supabase: any, authHeader: string): Promise<boolean> {
+  const jwt = authHeader.replace(/^Bearer\s+/i, '');
+  if (!jwt) return false;
+
+  const { data: { user } } = await supabase.auth.getUser(jwt);
+  if (!user) return false;
+
+  const { data: admin } = await supabase
+    .from('super_admins')
+    .select('user_id')
+    .eq('user_id', user.id)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  return !!admin;
+}
+
+// Run a task and record it in automation_job_runs
+async function runRecorded(
+  supabase: any,
+  task: string,
+  businessId: string | null,
+  localRunDate: string | null,
+  triggerSource: 'cron' | 'manual',
+  execute: () => Promise<TaskResult>
+): Promise<TaskResult> {
+  const { data: run } = await supabase
+    .from('automation_job_runs')
+    .insert({
+      business_id: businessId,
+      task,
+      trigger_source: triggerSource,
+      status: 'running',
+      local_run_date: localRunDate,
+    })
+    .select('id')
+    .single();
+
+  let result: TaskResult;
+  try {
+    result = await execute();
+  } catch (error) {
+    result = { ...newResult(task), success: false, errors: [errorMessage(error)] };
+  }
+
+  if (run?.id) {
+    await supabase
+      .from('automation_job_runs')
+      .update({
+        status: !result.success ? 'failed' : result.failed > 0 ? 'partial' : 'succeeded',
+        processed: result.processed,
+        failed: result.failed,
+        errors: result.errors,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+  }
+
+  return result;
+}
+
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('origin'));
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  // The scheduler (shared secret) and the service role trigger scheduled runs;
+  // a super admin's session triggers a manual run
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+  const cronSecret = Deno.env.get('AUTOMATION_CRON_SECRET') || '';
+  const authHeader = req.headers.get('Authorization') || '';
+  const isScheduler =
+    (cronSecret !== '' && authHeader === `Bearer ${cronSecret}`) ||
+    (serviceRoleKey !== '' && authHeader === `Bearer ${serviceRoleKey}`);
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') || '', serviceRoleKey);
+
+  if (!isScheduler && !(await isSuperAdmin(supabase, authHeader))) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  const triggerSource = isScheduler ? 'cron' : 'manual';
+  const isManual = triggerSource === 'manual';
+  const holder = crypto.randomUUID();
+
+  const { data: acquired, error: lockError } = await supabase.rpc('acquire_automation_lock', {
+    p_job_name: LOCK_NAME,
+    p_holder: holder,
+    p_ttl_seconds: LOCK_TTL_SECONDS,
+  });
+
+  if (lockError) {
+    return jsonResponse({ success: false, error: `Failed to acquire lock: ${lockError.message}` }, 500);
+  }
+
+  if (!acquired) {
+    await supabase.from('automation_job_runs').insert({
+      task: 'runScheduledJobs',
+      trigger_source: triggerSource,
+      status: 'skipped',
+      errors: ['Another run is in progress'],
+      finished_at: new Date().toISOString(),
+    });
+    return jsonResponse({ success: true, skipped: true, message: 'Another run is in progress' });
+  }
+
+  // The lock is extended before each task so a long run does not outlive it;
+  // if another run has taken it over anyway, stop instead of overlapping
+  const runTask = async (
+    task: string,
+    businessId: string | null,
+    localRunDate: string | null,
+    execute: () => Promise<TaskResult>
+  ): Promise<TaskResult> => {
+    const { data: held } = await supabase.rpc('acquire_automation_lock', {
+      p_job_name: LOCK_NAME,
+      p_holder: holder,
+      p_ttl_seconds: LOCK_TTL_SECONDS,
+    });
+    if (!held) throw new Error('The automation lock was lost; stopping this run');
+    return runRecorded(supabase, task, businessId, localRunDate, triggerSource, execute);
+  };
+
+  try {
+    const results: TaskResult[] = [];
+    const now = new Date();
+
+    const { data: businesses, error: businessError } = await supabase
+      .from('businesses')
+      .select('id, business_name, timezone, automation_run_hour')
+      .eq('is_active', true);
+
+    if (businessError) throw businessError;
+
+    for (const business of (businesses || []) as BusinessRow[]) {
+      const local = getLocalTime(business.timezone || 'America/Toronto', now);
+      if (!isManual && local.hour < (business.automation_run_hour ?? DEFAULT_RUN_HOUR)) continue;
+
+      // Each daily task runs once per local date; a failed task is retried next
+      // invocation without repeating the ones that already completed, and the
+      // notifications it queued before failing are not queued again
+      const { data: completedRuns, error: runsError } = await supabase
+        .from('automation_job_runs')
+        .select('task')
+        .eq('business_id', business.id)
+        .eq('local_run_date', local.date)
+        .in('status', ['succeeded', 'partial']);
+
+      if (runsError) throw runsError;
+
+      const completedTasks = new Set((completedRuns || []).map((run: { task: string }) => run.task));
+      const dailyTasks: Array<[string, () => Promise<TaskResult>]> = [
+        ['scheduleRentReminders', () => scheduleRentReminders(supabase, business, local.date)],
+        ['scheduleLeaseExpirationReminders', () => scheduleLeaseExpirationReminders(supabase, business, local.date)],
+        ['generateRecurringCharges', () => generateRecurringCharges(supabase, business)],
+        ['assessLateFees', () => assessLateFees(supabase, business)],
+        ['importExchangeRates', () => importExchangeRates(supabase, business, local.date)],
+      ];
+
+      for (const [task, execute] of dailyTasks) {
+        // A manual run repeats every task on request
+        if (!isManual && completedTasks.has(task)) continue;
+        results.push(await runTask(task, business.id, local.date, execute));
+      }
+    }
+
+    // Invitations go out as soon as a signer's turn comes, so this runs every invocation
+    const appUrl = (Deno.env.get('ALLOWED_ORIGINS') || 'https://airental.tools').split(',')[0];
+    results.push(await runTask('scheduleAgreementSigningNotifications', null, null,
+      () => scheduleAgreementSigningNotifications(supabase, appUrl)));
+
+    // Deliver everything queued so far, including reminders scheduled above
+    results.push(await runTask('processScheduledNotifications', null, null,
+      () => processScheduledNotifications(supabase, serviceRoleKey)));
+
+    return jsonResponse({
+      success: results.every((r) => r.success),
+      results,
+    });
+  } catch (error) {
+    console.error('Scheduled job runner error:', error);
+    return jsonResponse({ success: false, error: errorMessage(error) }, 500);
+  } finally {
+    await supabase.rpc('release_automation_lock', { p_job_name: LOCK_NAME, p_holder: holder });
+  }
+});
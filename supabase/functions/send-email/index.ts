@@ -166,7 +166,7 @@ const emailTemplates: Record<EmailType, { subject: (data: Record<string, string>
       <h1 style="color: #2563eb; margin: 0;">AI Rental Tools</h1>
     </div>
     <h2 style="color: #111827; font-size: 18px;">${data.title || 'Notification'}</h2>
-    <p style="color: #4b5563;">${data.message}</p>
+    <p style="color: #4b5563;">${(data.message || '').replace(/\n/g, '<br>')}</p>
     ${data.action_url ? `
     <div style="text-align: center; margin: 32px 0;">
       <a href="${data.action_url}" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">${data.action_text || 'View Details'}</a>
@@ -393,19 +393,27 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') || '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '',
+      serviceRoleKey,
       { global: { headers: { Authorization: authHeader } } }
     );
 
-    // Verify user is authenticated
-    const { data: userData, error: authError } = await supabase.auth.getUser();
-    if (authError || !userData.user) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Server-side jobs (run-scheduled-jobs) call with the service role key;
+    // everyone else must be an authenticated user
+    const isServiceCall = serviceRoleKey !== '' && authHeader === `Bearer ${serviceRoleKey}`;
+    let senderUserId: string | null = null;
+
+    if (!isServiceCall) {
+      const { data: userData, error: authError } = await supabase.auth.getUser();
+      if (authError || !userData.user) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      senderUserId = userData.user.id;
     }
 
     const { to, type, data }: EmailRequest = await req.json();
@@ -466,7 +474,7 @@ Deno.serve(async (req: Request) => {
       status: result.success ? 'success' : 'failed',
       error_message: result.success ? null : result.message,
       provider_used: emailConfig.provider,
-      created_by: userData.user.id,
+      created_by: senderUserId,
     });
 
     return new Response(
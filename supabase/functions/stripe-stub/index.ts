@@ -0,0 +1,234 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+/**
+ * Minimal stand-in for the Stripe API, for local testing without network access.
+ *
+ * Serve it next to the payment functions and point them at it:
+ *
+ *   STRIPE_API_BASE=http://localhost:54321/functions/v1/stripe-stub
+ *   supabase functions serve --no-verify-jwt
+ *
+ * Supported endpoints (form-encoded, like Stripe):
+ * - POST /v1/payment_intents
+ * - GET  /v1/payment_intents/:id
+ * - POST /v1/payment_intents/:id/confirm
+ * - POST /v1/refunds
+ *
+ * Behaviour is chosen by Stripe's test payment method IDs:
+ * - pm_card_visa (or any other ID): succeeds
+ * - pm_card_authenticationRequired / pm_card_threeDSecure2Required: requires_action,
+ *   then succeeds on confirm
+ * - pm_card_chargeDeclined: declined with card_declined
+ *
+ * If STRIPE_STUB_WEBHOOK_URL and STRIPE_STUB_WEBHOOK_SECRET are set, matching
+ * signed events are posted to the webhook (e.g. the payment-webhook function).
+ *
+ * State is kept in memory and lost when the function restarts. Never deploy it.
+ */
+
+const intents = new Map<string, any>();
+const refunds = new Map<string, any>();
+const idempotentResponses = new Map<string, any>();
+
+const THREE_DS_METHODS = ['pm_card_authenticationRequired', 'pm_card_threeDSecure2Required'];
+const DECLINED_METHODS = ['pm_card_chargeDeclined'];
+
+const newId = (prefix: string) => `${prefix}_stub_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Parses Stripe-style form bodies, including metadata[key]=value
+function parseForm(body: string): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [rawKey, value] of new URLSearchParams(body)) {
+    const match = rawKey.match(/^(\w+)\[(\w+)\]$/);
+    if (match) {
+      result[match[1]] = result[match[1]] || {};
+      result[match[1]][match[2]] = value;
+    } else {
+      result[rawKey] = value;
+    }
+  }
+  return result;
+}
+
+async function sendWebhook(type: string, object: any): Promise<void> {
+  const url = Deno.env.get('STRIPE_STUB_WEBHOOK_URL');
+  const secret = Deno.env.get('STRIPE_STUB_WEBHOOK_SECRET');
+  if (!url || !secret) return;
+
+  const payload = JSON.stringify({
+    id: newId('evt'),
+    object: 'event',
+    type,
+    created: now(),
+    data: { object },
+  });
+
+  const timestamp = now();
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`));
+  const hex = Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+
+  try {
+    await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Stripe-Signature': `t=${timestamp},v1=${hex}` },
+      body: payload,
+    });
+  } catch (error) {
+    console.error('Stripe stub webhook delivery failed:', error);
+  }
+}
+
+function cardError(intent: any) {
+  return {
+    error: {
+      type: 'card_error',
+      code: 'card_declined',
+      decline_code: 'generic_decline',
+      message: 'Your card was declined.',
+      payment_intent: intent,
+    },
+  };
+}
+
+async function confirmIntent(intent: any, afterAction: boolean): Promise<Response> {
+  if (DECLINED_METHODS.includes(intent.payment_method)) {
+    intent.status = 'requires_payment_method';
+    intent.last_payment_error = { code: 'card_declined', message: 'Your card was declined.' };
+    await sendWebhook('payment_intent.payment_failed', intent);
+    return jsonResponse(cardError(intent), 402);
+  }
+
+  if (THREE_DS_METHODS.includes(intent.payment_method) && !afterAction) {
+    intent.status = 'requires_action';
+    intent.next_action = { type: 'use_stripe_sdk', use_stripe_sdk: { type: 'three_d_secure_redirect' } };
+    return jsonResponse(intent);
+  }
+
+  intent.status = 'succeeded';
+  intent.next_action = null;
+  intent.amount_received = intent.amount;
+  intent.latest_charge = newId('ch');
+  await sendWebhook('payment_intent.succeeded', intent);
+  return jsonResponse(intent);
+}
+
+Deno.serve(async (req: Request) => {
+  const url = new URL(req.url);
+  // Works both at the root and behind /functions/v1/stripe-stub
+  const path = url.pathname.slice(Math.max(url.pathname.indexOf('/v1/'), 0));
+  const params = req.method === 'POST' ? parseForm(await req.text()) : {};
+
+  const idempotencyKey = req.headers.get('Idempotency-Key');
+  if (idempotencyKey && idempotentResponses.has(idempotencyKey)) {
+    const cached = idempotentResponses.get(idempotencyKey);
+    return jsonResponse(cached.body, cached.status);
+  }
+
+  const remember = async (response: Response): Promise<Response> => {
+    if (!idempotencyKey) return response;
+    const body = await response.clone().json();
+    idempotentResponses.set(idempotencyKey, { body, status: response.status });
+    return response;
+  };
+
+  if (req.method === 'POST' && path === '/v1/payment_intents') {
+    const amount = parseInt(params.amount, 10);
+    if (!amount || amount <= 0 || !params.currency) {
+      return jsonResponse({ error: { type: 'invalid_request_error', message: 'amount and currency are required' } }, 400);
+    }
+
+    const id = newId('pi');
+    const intent = {
+      id,
+      object: 'payment_intent',
+      amount,
+      amount_received: 0,
+      currency: params.currency,
+      description: params.description || null,
+      metadata: params.metadata || {},
+      payment_method: params.payment_method || null,
+      client_secret: `${id}_secret_stub`,
+      status: 'requires_confirmation',
+      next_action: null,
+      last_payment_error: null,
+      latest_charge: null,
+      created: now(),
+    };
+    intents.set(id, intent);
+
+    if (params.confirm === 'true' && intent.payment_method) {
+      return remember(await confirmIntent(intent, false));
+    }
+    return remember(jsonResponse(intent));
+  }
+
+  const intentMatch = path.match(/^\/v1\/payment_intents\/([^/]+)(\/confirm)?$/);
+  if (intentMatch) {
+    const intent = intents.get(intentMatch[1]);
+    if (!intent) {
+      return jsonResponse({ error: { type: 'invalid_request_error', message: `No such payment_intent: '${intentMatch[1]}'` } }, 404);
+    }
+
+    if (req.method === 'GET' && !intentMatch[2]) {
+      return jsonResponse(intent);
+    }
+
+    if (req.method === 'POST' && intentMatch[2]) {
+      if (intent.status === 'succeeded') return jsonResponse(intent);
+      // A confirm after requires_action stands in for the customer completing 3DS
+      return remember(await confirmIntent(intent, intent.status === 'requires_action'));
+    }
+  }
+
+  if (req.method === 'POST' && path === '/v1/refunds') {
+    const intent = intents.get(params.payment_intent);
+    if (!intent || intent.status !== 'succeeded') {
+      return jsonResponse({ error: { type: 'invalid_request_error', message: 'PaymentIntent has not succeeded' } }, 400);
+    }
+
+    const alreadyRefunded = [...refunds.values()]
+      .filter(r => r.payment_intent === intent.id && r.status === 'succeeded')
+      .reduce((sum, r) => sum + r.amount, 0);
+    const amount = params.amount ? parseInt(params.amount, 10) : intent.amount - alreadyRefunded;
+
+    if (amount <= 0 || amount > intent.amount - alreadyRefunded) {
+      return jsonResponse({ error: { type: 'invalid_request_error', code: 'amount_too_large', message: 'Refund amount exceeds the remaining charge' } }, 400);
+    }
+
+    const refund = {
+      id: newId('re'),
+      object: 'refund',
+      amount,
+      currency: intent.currency,
+      payment_intent: intent.id,
+      charge: intent.latest_charge,
+      reason: params.reason || null,
+      metadata: params.metadata || {},
+      status: 'succeeded',
+      created: now(),
+    };
+    refunds.set(refund.id, refund);
+
+    await sendWebhook('charge.refunded', {
+      id: intent.latest_charge,
+      object: 'charge',
+      payment_intent: intent.id,
+      amount: intent.amount,
+      amount_refunded: alreadyRefunded + amount,
+      refunds: { data: [refund] },
+    });
+
+    return remember(jsonResponse(refund));
+  }
+
+  return jsonResponse({ error: { type: 'invalid_request_error', message: `Unrecognized request URL (${req.method}: ${path})` } }, 404);
+});
@@ -0,0 +1,115 @@
+-- Notification Delivery Retries and Dead-Letter Queue
+-- Migration: 085_notification_delivery_retries.sql
+--
+-- The automation worker now delivers scheduled notifications through the
+-- configured email provider. Failed deliveries are retried with exponential
+-- backoff until max_attempts is reached, then parked in 'dead_letter' so they
+-- surface in the UI instead of disappearing.
+
+ALTER TABLE scheduled_notifications
+    ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 5,
+    ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+
+-- Allow the dead_letter status
+ALTER TABLE scheduled_notifications
+    DROP CONSTRAINT IF EXISTS scheduled_notifications_status_check;
+
+ALTER TABLE scheduled_notifications
+    ADD CONSTRAINT scheduled_notifications_status_check
+    CHECK (status IN ('pending', 'sent', 'failed', 'dead_letter'));
+
+-- Worker lookup: pending rows whose retry window has opened
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_retry
+    ON scheduled_notifications(status, next_attempt_at)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_dead_letter
+    ON scheduled_notifications(organization_id, last_attempt_at DESC)
+    WHERE status = 'dead_letter';
+
+-- Respect the retry window when listing pending notifications
+CREATE OR REPLACE FUNCTION process_pending_notifications()
+RETURNS TABLE (
+    notification_id UUID,
+    recipient_email TEXT,
+    subject TEXT,
+    body TEXT,
+    status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        sn.id as notification_id,
+        sn.recipient_email::TEXT,
+        sn.subject,
+        sn.body,
+        sn.status::TEXT
+    FROM scheduled_notifications sn
+    WHERE sn.status = 'pending'
+    AND sn.scheduled_for <= now()
+    AND (sn.next_attempt_at IS NULL OR sn.next_attempt_at <= now())
+    ORDER BY sn.scheduled_for
+    LIMIT 100;
+END;
+$$;
+
+-- Record a failed delivery attempt, scheduling a retry or dead-lettering the row
+CREATE OR REPLACE FUNCTION record_notification_attempt_failure(
+    p_notification_id UUID,
+    p_error_message TEXT,
+    p_base_delay_seconds INTEGER DEFAULT 300
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_attempts INTEGER;
+    v_max_attempts INTEGER;
+    v_status TEXT;
+BEGIN
+    UPDATE scheduled_notifications
+    SET attempt_count = attempt_count + 1,
+        last_attempt_at = now(),
+        error_message = p_error_message
+    WHERE id = p_notification_id
+    RETURNING attempt_count, max_attempts INTO v_attempts, v_max_attempts;
+
+    IF v_attempts IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_attempts >= v_max_attempts THEN
+        v_status := 'dead_letter';
+        UPDATE scheduled_notifications
+        SET status = v_status,
+            next_attempt_at = NULL
+        WHERE id = p_notification_id;
+    ELSE
+        v_status := 'pending';
+        UPDATE scheduled_notifications
+        SET status = v_status,
+            next_attempt_at = now() + make_interval(secs => p_base_delay_seconds * power(2, v_attempts - 1))
+        WHERE id = p_notification_id;
+    END IF;
+
+    RETURN v_status;
+END;
+$$;
+
+-- Only the run-scheduled-jobs edge function delivers notifications; it runs
+-- with the service role
+REVOKE EXECUTE ON FUNCTION process_pending_notifications() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_notification_attempt_failure(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_pending_notifications() TO service_role;
+GRANT EXECUTE ON FUNCTION record_notification_attempt_failure(UUID, TEXT, INTEGER) TO service_role;
+
+COMMENT ON COLUMN scheduled_notifications.max_attempts IS 'Delivery attempts allowed before the notification is dead-lettered';
+COMMENT ON COLUMN scheduled_notifications.next_attempt_at IS 'Earliest time the worker may retry a failed delivery';
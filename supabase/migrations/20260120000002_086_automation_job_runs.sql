@@ -0,0 +1,145 @@
+-- Automation Job Runner: run history and overlap locks
+-- Migration: 086_automation_job_runs.sql
+--
+-- The run-scheduled-jobs edge function executes the automation worker's daily
+-- tasks (rent reminders, lease expiration reminders, late fee assessment) for
+-- each business once its local time passes the configured run hour, and
+-- delivers queued notifications on every invocation.
+--
+-- Schedule it with pg_cron + pg_net (every 15 minutes), e.g.:
+--
+--   SELECT cron.schedule(
+--     'run-scheduled-jobs',
+--     '*/15 * * * *',
+--     $$
+--     SELECT net.http_post(
+--       url := '<SUPABASE_URL>/functions/v1/run-scheduled-jobs',
+--       headers := jsonb_build_object(
+--         'Content-Type', 'application/json',
+--         'Authorization', 'Bearer <AUTOMATION_CRON_SECRET>'
+--       ),
+--       body := '{}'::jsonb
+--     );
+--     $$
+--   );
+
+-- Local hour (in the business timezone) at which daily tasks run
+ALTER TABLE businesses
+    ADD COLUMN IF NOT EXISTS automation_run_hour INTEGER DEFAULT 6
+    CHECK (automation_run_hour BETWEEN 0 AND 23);
+
+-- One row per task execution
+CREATE TABLE IF NOT EXISTS automation_job_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    task VARCHAR(100) NOT NULL,
+    trigger_source VARCHAR(20) NOT NULL DEFAULT 'cron' CHECK (trigger_source IN ('cron', 'manual')),
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'partial', 'failed', 'skipped')),
+    local_run_date DATE,
+    processed INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    finished_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_job_runs_started ON automation_job_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_automation_job_runs_business_task
+    ON automation_job_runs(business_id, task, local_run_date);
+
+-- Notifications queued by the runner carry a key naming what they are about
+-- (e.g. one rent reminder per lease, tenant and due date), so a task that is
+-- retried after failing partway through does not queue them twice
+ALTER TABLE scheduled_notifications
+    ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_notifications_dedupe
+    ON scheduled_notifications(organization_id, dedupe_key);
+
+-- Lease-style locks that keep overlapping runs from executing the same job
+CREATE TABLE IF NOT EXISTS automation_job_locks (
+    job_name VARCHAR(100) PRIMARY KEY,
+    holder VARCHAR(255) NOT NULL,
+    acquired_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE automation_job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_job_locks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "automation_job_runs_admin_access" ON automation_job_runs
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM super_admins
+            WHERE user_id = auth.uid() AND is_active = true
+        )
+    );
+
+CREATE POLICY "automation_job_runs_business_read" ON automation_job_runs
+    FOR SELECT USING (
+        business_id IN (
+            SELECT b.id FROM businesses b
+            WHERE b.owner_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "automation_job_locks_admin_access" ON automation_job_locks
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM super_admins
+            WHERE user_id = auth.uid() AND is_active = true
+        )
+    );
+
+-- Acquire a job lock. Returns true when the caller now holds it; an expired
+-- lock held by a crashed run is taken over. The holder calls it again to
+-- extend its own lock while a long run continues.
+CREATE OR REPLACE FUNCTION acquire_automation_lock(
+    p_job_name TEXT,
+    p_holder TEXT,
+    p_ttl_seconds INTEGER DEFAULT 900
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_holder TEXT;
+BEGIN
+    INSERT INTO automation_job_locks (job_name, holder, acquired_at, expires_at)
+    VALUES (p_job_name, p_holder, now(), now() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (job_name) DO UPDATE
+        SET holder = EXCLUDED.holder,
+            acquired_at = EXCLUDED.acquired_at,
+            expires_at = EXCLUDED.expires_at
+        WHERE automation_job_locks.expires_at < now()
+           OR automation_job_locks.holder = EXCLUDED.holder
+    RETURNING holder INTO v_holder;
+
+    RETURN COALESCE(v_holder = p_holder, false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_automation_lock(p_job_name TEXT, p_holder TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM automation_job_locks
+    WHERE job_name = p_job_name AND holder = p_holder;
+END;
+$$;
+
+-- Only the run-scheduled-jobs edge function takes and releases locks; it runs
+-- with the service role for both scheduled and manual runs
+REVOKE EXECUTE ON FUNCTION acquire_automation_lock(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_automation_lock(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION acquire_automation_lock(TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_automation_lock(TEXT, TEXT) TO service_role;
+
+COMMENT ON TABLE automation_job_runs IS 'History of automation worker task runs (cron and manual)';
+COMMENT ON TABLE automation_job_locks IS 'Expiring locks preventing overlapping automation runs';
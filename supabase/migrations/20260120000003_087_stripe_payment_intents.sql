@@ -0,0 +1,285 @@
+-- Stripe PaymentIntents, Webhooks and Refunds
+-- Migration: 087_stripe_payment_intents.sql
+--
+-- Card payments through Stripe are created as PaymentIntents by the
+-- create-stripe-payment-intent edge function. A payment_transactions row is
+-- written as 'pending' when the intent is created and completed either by the
+-- edge function (immediate success) or by the payment-webhook function,
+-- whichever arrives first. complete_gateway_payment() makes that idempotent:
+-- the rent_payments row and payment schedule update happen exactly once.
+
+-- Link gateway transactions to the gateway's own IDs and to what they pay for
+ALTER TABLE payment_transactions
+    ADD COLUMN IF NOT EXISTS external_transaction_id TEXT,
+    ADD COLUMN IF NOT EXISTS parent_transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS lease_id UUID REFERENCES leases(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS payment_schedule_id UUID REFERENCES payment_schedules(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS payment_type TEXT DEFAULT 'rent',
+    ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS schedule_allocations JSONB NOT NULL DEFAULT '[]',
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+
+-- Rows without an external ID never conflict (NULLs are distinct)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_transactions_gateway_external
+    ON payment_transactions(gateway_name, external_transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_parent
+    ON payment_transactions(parent_transaction_id)
+    WHERE parent_transaction_id IS NOT NULL;
+
+-- Received gateway webhook events, used to ignore redeliveries
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    gateway_name TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+    error_message TEXT,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    processed_at TIMESTAMPTZ,
+    UNIQUE (gateway_name, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_received
+    ON payment_webhook_events(received_at DESC);
+
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "payment_webhook_events_admin_access" ON payment_webhook_events
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM super_admins
+            WHERE user_id = auth.uid() AND is_active = true
+        )
+    );
+
+-- Complete a pending gateway charge: record the rent payment and apply it to
+-- the payment schedule, starting with the targeted row (or the oldest unpaid
+-- one) and carrying any excess to the lease's next unpaid rows. A targeted row
+-- from another lease is ignored. Safe to call more than once for the same
+-- transaction.
+CREATE OR REPLACE FUNCTION complete_gateway_payment(
+    p_transaction_id UUID,
+    p_gateway_response JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_txn payment_transactions%ROWTYPE;
+    v_unit_id UUID;
+    v_payment_id UUID;
+    v_target_id UUID;
+    v_schedule_id UUID;
+    v_row RECORD;
+    v_remaining NUMERIC;
+    v_applied NUMERIC;
+    v_allocations JSONB := '[]';
+BEGIN
+    SELECT * INTO v_txn
+    FROM payment_transactions
+    WHERE id = p_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment transaction % not found', p_transaction_id;
+    END IF;
+
+    IF v_txn.status = 'completed' THEN
+        RETURN v_txn.payment_id;
+    END IF;
+
+    IF v_txn.lease_id IS NOT NULL THEN
+        SELECT unit_id INTO v_unit_id FROM leases WHERE id = v_txn.lease_id;
+
+        INSERT INTO rent_payments (
+            organization_id, lease_id, tenant_id, unit_id, amount_cents,
+            payment_type, payment_method, payment_reference, payment_date,
+            status, notes
+        )
+        VALUES (
+            v_txn.organization_id, v_txn.lease_id, v_txn.tenant_id, v_unit_id, v_txn.amount,
+            COALESCE(v_txn.payment_type, 'rent'), 'credit_card', v_txn.external_transaction_id, CURRENT_DATE,
+            'paid', initcap(v_txn.gateway_name) || ' Payment: ' || v_txn.external_transaction_id
+        )
+        RETURNING id INTO v_payment_id;
+
+        SELECT id INTO v_target_id
+        FROM payment_schedules
+        WHERE id = v_txn.payment_schedule_id AND lease_id = v_txn.lease_id;
+
+        -- Fill the targeted row first, then unpaid rows oldest first. What the
+        -- rows do not owe stays on the rent payment as a credit.
+        v_remaining := v_txn.amount;
+        FOR v_row IN
+            SELECT id, ROUND((due_amount - COALESCE(paid_amount, 0)) * 100) AS owed_cents
+            FROM payment_schedules
+            WHERE lease_id = v_txn.lease_id
+            AND (id = v_target_id OR is_paid = false)
+            ORDER BY id = v_target_id DESC, payment_date
+            FOR UPDATE
+        LOOP
+            EXIT WHEN v_remaining <= 0;
+            v_applied := LEAST(v_remaining, GREATEST(v_row.owed_cents, 0));
+            CONTINUE WHEN v_applied <= 0;
+
+            UPDATE payment_schedules
+            SET paid_amount = COALESCE(paid_amount, 0) + v_applied / 100.0,
+                is_paid = COALESCE(paid_amount, 0) + v_applied / 100.0 >= due_amount,
+                paid_date = CASE
+                    WHEN COALESCE(paid_amount, 0) + v_applied / 100.0 >= due_amount THEN CURRENT_DATE
+                    ELSE paid_date
+                END,
+                updated_at = now()
+            WHERE id = v_row.id;
+
+            v_schedule_id := COALESCE(v_schedule_id, v_row.id);
+            v_allocations := v_allocations || jsonb_build_array(
+                jsonb_build_object('payment_schedule_id', v_row.id, 'amount_cents', v_applied)
+            );
+            v_remaining := v_remaining - v_applied;
+        END LOOP;
+    END IF;
+
+    UPDATE payment_transactions
+    SET status = 'completed',
+        payment_id = v_payment_id,
+        payment_schedule_id = COALESCE(v_schedule_id, v_target_id),
+        schedule_allocations = v_allocations,
+        gateway_response = gateway_response || COALESCE(p_gateway_response, '{}'),
+        error_message = NULL,
+        updated_at = now()
+    WHERE id = p_transaction_id;
+
+    RETURN v_payment_id;
+END;
+$$;
+
+-- Record a gateway refund against a completed charge. Completed refunds come
+-- off the part of the charge left as credit first, then off the schedule rows
+-- it paid, latest first. The rent payment is marked refunded once the full
+-- amount has been returned. Safe to call more than once per refund ID.
+CREATE OR REPLACE FUNCTION record_gateway_refund(
+    p_charge_transaction_id UUID,
+    p_refund_external_id TEXT,
+    p_amount_cents NUMERIC,
+    p_status TEXT,
+    p_gateway_response JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_charge payment_transactions%ROWTYPE;
+    v_refund_id UUID;
+    v_previous_status TEXT;
+    v_unapplied NUMERIC;
+    v_skip NUMERIC;
+    v_unwind NUMERIC;
+    v_allocation JSONB;
+    v_amount NUMERIC;
+    v_taken NUMERIC;
+BEGIN
+    SELECT * INTO v_charge
+    FROM payment_transactions
+    WHERE id = p_charge_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment transaction % not found', p_charge_transaction_id;
+    END IF;
+
+    SELECT id, status INTO v_refund_id, v_previous_status
+    FROM payment_transactions
+    WHERE gateway_name = v_charge.gateway_name
+    AND external_transaction_id = p_refund_external_id;
+
+    IF v_refund_id IS NULL THEN
+        INSERT INTO payment_transactions (
+            organization_id, gateway_name, transaction_type, amount, currency, status,
+            external_transaction_id, parent_transaction_id, tenant_id, lease_id,
+            payment_schedule_id, payment_type, gateway_response
+        )
+        VALUES (
+            v_charge.organization_id, v_charge.gateway_name, 'refund', p_amount_cents, v_charge.currency, p_status,
+            p_refund_external_id, v_charge.id, v_charge.tenant_id, v_charge.lease_id,
+            v_charge.payment_schedule_id, v_charge.payment_type, COALESCE(p_gateway_response, '{}')
+        )
+        RETURNING id INTO v_refund_id;
+    ELSE
+        UPDATE payment_transactions
+        SET status = p_status,
+            gateway_response = gateway_response || COALESCE(p_gateway_response, '{}'),
+            updated_at = now()
+        WHERE id = v_refund_id;
+    END IF;
+
+    -- Apply the refund once, when it first reaches 'completed'
+    IF p_status = 'completed' AND v_previous_status IS DISTINCT FROM 'completed' THEN
+        UPDATE payment_transactions
+        SET refunded_amount = refunded_amount + p_amount_cents,
+            updated_at = now()
+        WHERE id = v_charge.id;
+
+        -- Earlier refunds already took back the credit and the latest rows
+        v_unapplied := v_charge.amount - COALESCE((
+            SELECT sum((a ->> 'amount_cents')::numeric)
+            FROM jsonb_array_elements(v_charge.schedule_allocations) a
+        ), 0);
+        v_skip := GREATEST(v_charge.refunded_amount - v_unapplied, 0);
+        v_unwind := GREATEST(v_charge.refunded_amount + p_amount_cents - v_unapplied, 0) - v_skip;
+
+        FOR v_allocation IN
+            SELECT a
+            FROM jsonb_array_elements(v_charge.schedule_allocations) WITH ORDINALITY AS x(a, n)
+            ORDER BY n DESC
+        LOOP
+            EXIT WHEN v_unwind <= 0;
+            v_amount := (v_allocation ->> 'amount_cents')::numeric;
+            v_taken := LEAST(v_skip, v_amount);
+            v_skip := v_skip - v_taken;
+            v_amount := LEAST(v_amount - v_taken, v_unwind);
+            CONTINUE WHEN v_amount <= 0;
+
+            UPDATE payment_schedules
+            SET paid_amount = GREATEST(COALESCE(paid_amount, 0) - v_amount / 100.0, 0),
+                is_paid = GREATEST(COALESCE(paid_amount, 0) - v_amount / 100.0, 0) >= due_amount,
+                paid_date = CASE
+                    WHEN GREATEST(COALESCE(paid_amount, 0) - v_amount / 100.0, 0) >= due_amount THEN paid_date
+                    ELSE NULL
+                END,
+                updated_at = now()
+            WHERE id = (v_allocation ->> 'payment_schedule_id')::uuid;
+
+            v_unwind := v_unwind - v_amount;
+        END LOOP;
+
+        IF v_charge.payment_id IS NOT NULL AND v_charge.refunded_amount + p_amount_cents >= v_charge.amount THEN
+            UPDATE rent_payments
+            SET status = 'refunded',
+                updated_at = now()
+            WHERE id = v_charge.payment_id;
+        END IF;
+    END IF;
+
+    RETURN v_refund_id;
+END;
+$$;
+
+-- Completing payments and recording refunds is reserved for the payment edge
+-- functions, which run with the service role after confirming with the gateway
+REVOKE EXECUTE ON FUNCTION complete_gateway_payment(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_gateway_refund(UUID, TEXT, NUMERIC, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_gateway_payment(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION record_gateway_refund(UUID, TEXT, NUMERIC, TEXT, JSONB) TO service_role;
+
+COMMENT ON TABLE payment_webhook_events IS 'Payment gateway webhook events received, keyed by gateway event ID for deduplication';
+COMMENT ON COLUMN payment_transactions.external_transaction_id IS 'Gateway object ID (Stripe PaymentIntent/Refund ID, Square payment ID, PayPal capture ID)';
+COMMENT ON COLUMN payment_transactions.refunded_amount IS 'Total refunded against this charge, in cents';
+COMMENT ON COLUMN payment_transactions.schedule_allocations IS 'Payment schedule rows the charge paid, in order: [{payment_schedule_id, amount_cents}]';
@@ -0,0 +1,109 @@
+-- Gateway Webhook Ingestion and Payment Reconciliation
+-- Migration: 088_payment_reconciliation.sql
+--
+-- The payment-webhook edge function receives Stripe, Square and PayPal events,
+-- verifies their signatures and completes the matching payment_transactions.
+-- Anything it cannot match cleanly (unknown reference, amount or currency
+-- differences, payments that never get confirmed) is parked in
+-- payment_reconciliation_exceptions for review on the Payments page.
+
+-- Exceptions raised while reconciling gateway activity
+CREATE TABLE IF NOT EXISTS payment_reconciliation_exceptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- NULL when the event could not be traced to an organization
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    gateway_name TEXT NOT NULL,
+    exception_type VARCHAR(30) NOT NULL CHECK (exception_type IN (
+        'unknown_reference', 'amount_mismatch', 'currency_mismatch', 'unconfirmed', 'processing_error'
+    )),
+    external_transaction_id TEXT,
+    transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    webhook_event_id UUID REFERENCES payment_webhook_events(id) ON DELETE SET NULL,
+    expected_amount NUMERIC,
+    received_amount NUMERIC,
+    currency TEXT,
+    details JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+    resolution_notes TEXT,
+    resolved_by UUID REFERENCES auth.users(id),
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_exceptions_org_status
+    ON payment_reconciliation_exceptions(organization_id, status, created_at DESC);
+
+-- One open exception of each type per gateway reference
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_reconciliation_exceptions_open
+    ON payment_reconciliation_exceptions(gateway_name, external_transaction_id, exception_type)
+    WHERE status = 'open';
+
+-- Journal created for the rent payment, once posted to the GL
+ALTER TABLE payment_transactions
+    ADD COLUMN IF NOT EXISTS gl_journal_id UUID REFERENCES gl_journals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_unposted
+    ON payment_transactions(organization_id)
+    WHERE status = 'completed' AND transaction_type = 'charge' AND payment_id IS NOT NULL AND gl_journal_id IS NULL;
+
+ALTER TABLE payment_reconciliation_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "payment_reconciliation_exceptions_admin_access" ON payment_reconciliation_exceptions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM super_admins
+            WHERE user_id = auth.uid() AND is_active = true
+        )
+    );
+
+CREATE POLICY "payment_reconciliation_exceptions_org_read" ON payment_reconciliation_exceptions
+    FOR SELECT
+    TO authenticated
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM organization_members
+            WHERE user_id = (select auth.uid())
+            AND role IN ('owner', 'admin', 'accounting')
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY "payment_reconciliation_exceptions_org_update" ON payment_reconciliation_exceptions
+    FOR UPDATE
+    TO authenticated
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM organization_members
+            WHERE user_id = (select auth.uid())
+            AND role IN ('owner', 'admin', 'accounting')
+            AND is_active = true
+        )
+    );
+
+-- Let the reconciliation service record GL postings and unconfirmed payments
+CREATE POLICY "payment_transactions_org_update" ON payment_transactions
+    FOR UPDATE
+    TO authenticated
+    USING (
+        organization_id IN (
+            SELECT organization_id FROM organization_members
+            WHERE user_id = (select auth.uid())
+            AND role IN ('owner', 'admin', 'accounting')
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY "payment_reconciliation_exceptions_org_insert" ON payment_reconciliation_exceptions
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        organization_id IN (
+            SELECT organization_id FROM organization_members
+            WHERE user_id = (select auth.uid())
+            AND role IN ('owner', 'admin', 'accounting')
+            AND is_active = true
+        )
+    );
+
+COMMENT ON TABLE payment_reconciliation_exceptions IS 'Gateway payments that could not be reconciled automatically and need review';
+COMMENT ON COLUMN payment_transactions.gl_journal_id IS 'GL journal posted for the rent payment this charge created';
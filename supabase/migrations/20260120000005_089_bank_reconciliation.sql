@@ -0,0 +1,531 @@
+-- Bank Statement Import and Bank Reconciliation
+-- Migration: 089_bank_reconciliation.sql
+--
+-- Statements imported from OFX/QFX or CSV files are stored line by line and
+-- matched to posted journal entries on the bank GL account. Completing a
+-- reconciliation marks the matched entries reconciled, which locks their
+-- journals against being voided or reversed.
+
+-- =====================================================
+-- STEP 1: Statements and statement lines
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS bank_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES gl_accounts(id) ON DELETE CASCADE,
+
+  -- Statement period and balances (cents)
+  statement_start_date date NOT NULL,
+  statement_end_date date NOT NULL,
+  opening_balance_cents bigint,
+  closing_balance_cents bigint,
+  currency_code text,
+
+  -- Source file
+  file_name text,
+  file_format text NOT NULL CHECK (file_format IN ('ofx', 'qfx', 'csv')),
+  line_count integer DEFAULT 0,
+  duplicate_count integer DEFAULT 0,
+
+  imported_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT check_statement_period CHECK (statement_end_date >= statement_start_date)
+);
+
+CREATE INDEX idx_bank_statements_account ON bank_statements(account_id, statement_end_date DESC);
+CREATE INDEX idx_bank_statements_business ON bank_statements(business_id);
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  statement_id uuid NOT NULL REFERENCES bank_statements(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES gl_accounts(id) ON DELETE CASCADE,
+
+  transaction_date date NOT NULL,
+  -- Positive for deposits, negative for withdrawals
+  amount_cents bigint NOT NULL,
+  description text,
+  reference text,
+  -- Bank's transaction ID (OFX FITID) or a hash of the CSV row, to skip re-imports
+  external_id text NOT NULL,
+
+  status text NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'excluded')),
+  -- Set when the reconciliation covering this line is completed
+  reconciliation_id uuid,
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(account_id, external_id)
+);
+
+CREATE INDEX idx_bank_statement_lines_statement ON bank_statement_lines(statement_id);
+CREATE INDEX idx_bank_statement_lines_account_date ON bank_statement_lines(account_id, transaction_date);
+
+-- =====================================================
+-- STEP 2: Reconciliations and matches
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS bank_reconciliations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES gl_accounts(id) ON DELETE CASCADE,
+  statement_id uuid REFERENCES bank_statements(id) ON DELETE SET NULL,
+
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+
+  -- Balances (cents) captured when the reconciliation is completed
+  statement_ending_balance_cents bigint NOT NULL,
+  book_balance_cents bigint,
+  cleared_balance_cents bigint,
+  difference_cents bigint,
+
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  notes text,
+  completed_by uuid REFERENCES auth.users(id),
+  completed_at timestamptz,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_bank_reconciliations_account ON bank_reconciliations(account_id, period_end DESC);
+
+-- Only one reconciliation in progress per bank account
+CREATE UNIQUE INDEX idx_bank_reconciliations_in_progress
+  ON bank_reconciliations(account_id)
+  WHERE status = 'in_progress';
+
+-- A statement line can match several journal entries (split) and an entry
+-- can cover several lines (e.g. a deposit the bank posted in two parts)
+CREATE TABLE IF NOT EXISTS bank_statement_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  line_id uuid NOT NULL REFERENCES bank_statement_lines(id) ON DELETE CASCADE,
+  journal_entry_id uuid NOT NULL REFERENCES gl_journal_entries(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  -- Portion of the line covered by this entry (signed like the line)
+  amount_cents bigint NOT NULL,
+  match_type text NOT NULL CHECK (match_type IN ('auto', 'manual', 'created')),
+  confidence numeric(4,3),
+
+  matched_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(line_id, journal_entry_id)
+);
+
+CREATE INDEX idx_bank_statement_matches_entry ON bank_statement_matches(journal_entry_id);
+
+ALTER TABLE bank_statement_lines
+  ADD CONSTRAINT bank_statement_lines_reconciliation_fk
+  FOREIGN KEY (reconciliation_id) REFERENCES bank_reconciliations(id) ON DELETE SET NULL;
+
+ALTER TABLE gl_journal_entries
+  ADD CONSTRAINT gl_journal_entries_reconciliation_fk
+  FOREIGN KEY (reconciliation_id) REFERENCES bank_reconciliations(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- STEP 3: RLS
+-- =====================================================
+
+ALTER TABLE bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view bank statements"
+  ON bank_statements FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+CREATE POLICY "Admins can manage bank statements"
+  ON bank_statements FOR ALL
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Users can view bank statement lines"
+  ON bank_statement_lines FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+-- Lines of completed reconciliations are frozen
+CREATE POLICY "Admins can manage bank statement lines"
+  ON bank_statement_lines FOR ALL
+  TO authenticated
+  USING (
+    reconciliation_id IS NULL
+    AND business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Users can view bank statement matches"
+  ON bank_statement_matches FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+-- Matches of reconciled entries are frozen
+CREATE POLICY "Admins can manage bank statement matches"
+  ON bank_statement_matches FOR ALL
+  TO authenticated
+  USING (
+    NOT EXISTS (
+      SELECT 1 FROM gl_journal_entries e
+      WHERE e.id = journal_entry_id AND e.is_reconciled = true
+    )
+    AND business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Users can view bank reconciliations"
+  ON bank_reconciliations FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+-- Completing and reopening go through the functions below
+CREATE POLICY "Admins can manage reconciliations in progress"
+  ON bank_reconciliations FOR ALL
+  TO authenticated
+  USING (
+    status = 'in_progress'
+    AND business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  )
+  WITH CHECK (
+    status = 'in_progress'
+    AND business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  );
+
+-- =====================================================
+-- STEP 4: Completing and reopening reconciliations
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION can_manage_business_accounting(p_business_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM businesses b
+    WHERE b.id = p_business_id
+    AND (
+      b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  );
+$$;
+
+-- Marks every journal entry matched to a statement line in the period as
+-- reconciled and records the balances. The cleared balance must equal the
+-- statement ending balance.
+CREATE OR REPLACE FUNCTION complete_bank_reconciliation(
+  p_reconciliation_id uuid,
+  p_book_balance_cents bigint,
+  p_cleared_balance_cents bigint
+)
+RETURNS bank_reconciliations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rec bank_reconciliations;
+BEGIN
+  SELECT * INTO v_rec FROM bank_reconciliations WHERE id = p_reconciliation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation not found';
+  END IF;
+
+  IF NOT can_manage_business_accounting(v_rec.business_id) THEN
+    RAISE EXCEPTION 'Not authorized to reconcile this account';
+  END IF;
+
+  IF v_rec.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Reconciliation is already completed';
+  END IF;
+
+  IF p_cleared_balance_cents <> v_rec.statement_ending_balance_cents THEN
+    RAISE EXCEPTION 'Cleared balance does not equal the statement ending balance';
+  END IF;
+
+  UPDATE gl_journal_entries e
+  SET is_reconciled = true,
+      reconciled_at = now(),
+      reconciliation_id = v_rec.id
+  WHERE e.is_reconciled = false
+  AND e.id IN (
+    SELECT m.journal_entry_id
+    FROM bank_statement_matches m
+    JOIN bank_statement_lines l ON l.id = m.line_id
+    WHERE l.account_id = v_rec.account_id
+    AND l.transaction_date <= v_rec.period_end
+  );
+
+  UPDATE bank_statement_lines
+  SET reconciliation_id = v_rec.id
+  WHERE account_id = v_rec.account_id
+  AND reconciliation_id IS NULL
+  AND status IN ('matched', 'excluded')
+  AND transaction_date <= v_rec.period_end;
+
+  UPDATE bank_reconciliations
+  SET status = 'completed',
+      book_balance_cents = p_book_balance_cents,
+      cleared_balance_cents = p_cleared_balance_cents,
+      difference_cents = statement_ending_balance_cents - p_cleared_balance_cents,
+      completed_by = auth.uid(),
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = v_rec.id
+  RETURNING * INTO v_rec;
+
+  RETURN v_rec;
+END;
+$$;
+
+-- Only the most recent completed reconciliation of an account can be reopened,
+-- so earlier periods stay locked
+CREATE OR REPLACE FUNCTION reopen_bank_reconciliation(p_reconciliation_id uuid)
+RETURNS bank_reconciliations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rec bank_reconciliations;
+BEGIN
+  SELECT * INTO v_rec FROM bank_reconciliations WHERE id = p_reconciliation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation not found';
+  END IF;
+
+  IF NOT can_manage_business_accounting(v_rec.business_id) THEN
+    RAISE EXCEPTION 'Not authorized to reconcile this account';
+  END IF;
+
+  IF v_rec.status <> 'completed' THEN
+    RAISE EXCEPTION 'Reconciliation is not completed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bank_reconciliations
+    WHERE account_id = v_rec.account_id
+    AND id <> v_rec.id
+    AND (period_end > v_rec.period_end OR status = 'in_progress')
+  ) THEN
+    RAISE EXCEPTION 'Only the latest reconciliation can be reopened';
+  END IF;
+
+  UPDATE gl_journal_entries
+  SET is_reconciled = false,
+      reconciled_at = NULL,
+      reconciliation_id = NULL
+  WHERE reconciliation_id = v_rec.id;
+
+  UPDATE bank_statement_lines
+  SET reconciliation_id = NULL
+  WHERE reconciliation_id = v_rec.id;
+
+  UPDATE bank_reconciliations
+  SET status = 'in_progress',
+      completed_by = NULL,
+      completed_at = NULL,
+      updated_at = now()
+  WHERE id = v_rec.id
+  RETURNING * INTO v_rec;
+
+  RETURN v_rec;
+END;
+$$;
+
+-- =====================================================
+-- STEP 5: Lock reconciled entries
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION prevent_reconciled_journal_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NEW.status IN ('void', 'reversed')
+     AND EXISTS (
+       SELECT 1 FROM gl_journal_entries
+       WHERE journal_id = OLD.id AND is_reconciled = true
+     ) THEN
+    RAISE EXCEPTION 'Journal % has bank-reconciled entries and cannot be voided or reversed', OLD.journal_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_gl_journals_reconciled_lock
+  BEFORE UPDATE OF status ON gl_journals
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_reconciled_journal_changes();
+
+CREATE OR REPLACE FUNCTION prevent_reconciled_entry_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_reconciled THEN
+      RAISE EXCEPTION 'Bank-reconciled journal entries cannot be deleted';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.is_reconciled AND NEW.is_reconciled AND (
+    NEW.account_id IS DISTINCT FROM OLD.account_id
+    OR NEW.debit_cents IS DISTINCT FROM OLD.debit_cents
+    OR NEW.credit_cents IS DISTINCT FROM OLD.credit_cents
+    OR NEW.base_debit_cents IS DISTINCT FROM OLD.base_debit_cents
+    OR NEW.base_credit_cents IS DISTINCT FROM OLD.base_credit_cents
+  ) THEN
+    RAISE EXCEPTION 'Bank-reconciled journal entries cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_gl_journal_entries_reconciled_lock
+  BEFORE UPDATE OR DELETE ON gl_journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_reconciled_entry_changes();
+
+COMMENT ON TABLE bank_statements IS 'Bank statements imported from OFX/QFX or CSV files';
+COMMENT ON TABLE bank_statement_lines IS 'Individual bank transactions; amount is positive for deposits and negative for withdrawals';
+COMMENT ON TABLE bank_statement_matches IS 'Links statement lines to the journal entries on the bank account they correspond to';
+COMMENT ON TABLE bank_reconciliations IS 'Bank reconciliation per account and statement period; completing it locks the matched entries';
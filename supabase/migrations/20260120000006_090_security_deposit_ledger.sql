@@ -0,0 +1,357 @@
+-- Security Deposit Ledger
+-- Migration: 090_security_deposit_ledger.sql
+--
+-- Tracks security and pet deposits per lease as a ledger of receipts,
+-- interest credited to the tenant, move-out deductions and the refund.
+-- Receipts are held in the trust liability accounts (2110/2120) against the
+-- security deposit bank account (1020) through journals posted by the app.
+-- Statutory interest rates are kept per jurisdiction and year; businesses
+-- can add their own rates for years or regions not covered.
+--
+-- The legacy security_deposits / deposit_deductions tables from migration 001
+-- lost their lease foreign key when leases were recreated in 017 and are not
+-- used by the application.
+
+-- =====================================================
+-- STEP 1: Deposits and deposit transactions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS lease_deposits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  lease_id uuid NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  unit_id uuid REFERENCES units(id) ON DELETE SET NULL,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE SET NULL,
+
+  deposit_type text NOT NULL CHECK (deposit_type IN ('security', 'pet')),
+  -- Amount required by the lease (cents)
+  required_cents bigint NOT NULL DEFAULT 0,
+  -- Receipts + interest - deductions - refunds, maintained by trigger
+  balance_cents bigint NOT NULL DEFAULT 0,
+  currency_code text NOT NULL DEFAULT 'CAD',
+
+  -- Interest rules are chosen by jurisdiction (country) and region (province/state)
+  jurisdiction text,
+  region_code text,
+  interest_accrued_through date,
+
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'disposed')),
+
+  -- Move-out disposition
+  move_out_date date,
+  deductions_cents bigint,
+  refund_cents bigint,
+  disposition_journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+  disposition_notes text,
+  disposed_by uuid REFERENCES auth.users(id),
+  disposed_at timestamptz,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE(lease_id, deposit_type)
+);
+
+CREATE INDEX idx_lease_deposits_business ON lease_deposits(business_id, status);
+CREATE INDEX idx_lease_deposits_tenant ON lease_deposits(tenant_id);
+
+CREATE TABLE IF NOT EXISTS lease_deposit_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deposit_id uuid NOT NULL REFERENCES lease_deposits(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  transaction_type text NOT NULL CHECK (transaction_type IN ('receipt', 'interest', 'deduction', 'refund')),
+  -- Always positive; receipts and interest add to the balance, deductions and refunds reduce it
+  amount_cents bigint NOT NULL CHECK (amount_cents > 0),
+  transaction_date date NOT NULL,
+  description text,
+
+  -- Receipts and refunds; receipts collected as a rent payment link to it
+  -- and reuse its journal
+  payment_method text,
+  reference text,
+  rent_payment_id uuid REFERENCES rent_payments(id) ON DELETE SET NULL,
+
+  -- Deductions
+  deduction_category text CHECK (deduction_category IN (
+    'damage', 'cleaning', 'unpaid_rent', 'late_fee', 'utilities', 'other'
+  )),
+  late_fee_id uuid REFERENCES late_fees(id) ON DELETE SET NULL,
+  payment_schedule_id uuid REFERENCES payment_schedules(id) ON DELETE SET NULL,
+
+  -- Interest
+  interest_from date,
+  interest_to date,
+  interest_details jsonb,
+
+  gl_journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT check_deduction_category CHECK (
+    (transaction_type = 'deduction') = (deduction_category IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_lease_deposit_transactions_deposit ON lease_deposit_transactions(deposit_id, transaction_date);
+CREATE INDEX idx_lease_deposit_transactions_business ON lease_deposit_transactions(business_id);
+
+CREATE UNIQUE INDEX idx_lease_deposit_transactions_rent_payment
+  ON lease_deposit_transactions(rent_payment_id)
+  WHERE rent_payment_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 2: Interest rates
+-- =====================================================
+
+-- business_id NULL rows are statutory rates shared by all businesses
+CREATE TABLE IF NOT EXISTS deposit_interest_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid REFERENCES businesses(id) ON DELETE CASCADE,
+  jurisdiction text NOT NULL,
+  region_code text NOT NULL DEFAULT '',
+  effective_year integer NOT NULL,
+  rate_percent numeric(6,3) NOT NULL CHECK (rate_percent >= 0),
+  source text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_deposit_interest_rates_unique
+  ON deposit_interest_rates(COALESCE(business_id, '00000000-0000-0000-0000-000000000000'::uuid), jurisdiction, region_code, effective_year);
+
+-- Ontario: rent deposit interest at the annual rent increase guideline
+-- British Columbia: deposit interest rate set by regulation for each calendar year
+INSERT INTO deposit_interest_rates (jurisdiction, region_code, effective_year, rate_percent, source) VALUES
+  ('CA', 'ON', 2019, 1.8, 'Ontario rent increase guideline'),
+  ('CA', 'ON', 2020, 2.2, 'Ontario rent increase guideline'),
+  ('CA', 'ON', 2021, 0.0, 'Ontario rent increase guideline (rent freeze)'),
+  ('CA', 'ON', 2022, 1.2, 'Ontario rent increase guideline'),
+  ('CA', 'ON', 2023, 2.5, 'Ontario rent increase guideline'),
+  ('CA', 'ON', 2024, 2.5, 'Ontario rent increase guideline'),
+  ('CA', 'ON', 2025, 2.5, 'Ontario rent increase guideline'),
+  ('CA', 'BC', 2019, 0.0, 'BC Residential Tenancy Regulation deposit interest rate'),
+  ('CA', 'BC', 2020, 0.0, 'BC Residential Tenancy Regulation deposit interest rate'),
+  ('CA', 'BC', 2021, 0.0, 'BC Residential Tenancy Regulation deposit interest rate'),
+  ('CA', 'BC', 2022, 0.0, 'BC Residential Tenancy Regulation deposit interest rate'),
+  ('CA', 'BC', 2023, 1.95, 'BC Residential Tenancy Regulation deposit interest rate'),
+  ('CA', 'BC', 2024, 2.7, 'BC Residential Tenancy Regulation deposit interest rate')
+ON CONFLICT DO NOTHING;
+
+-- =====================================================
+-- STEP 3: Balance maintenance
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION update_lease_deposit_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit_id uuid := COALESCE(NEW.deposit_id, OLD.deposit_id);
+BEGIN
+  UPDATE lease_deposits
+  SET balance_cents = (
+        SELECT COALESCE(SUM(
+          CASE WHEN t.transaction_type IN ('receipt', 'interest') THEN t.amount_cents ELSE -t.amount_cents END
+        ), 0)
+        FROM lease_deposit_transactions t
+        WHERE t.deposit_id = v_deposit_id
+      ),
+      interest_accrued_through = CASE
+        WHEN TG_OP = 'INSERT' AND NEW.transaction_type = 'interest'
+          THEN GREATEST(COALESCE(interest_accrued_through, NEW.interest_to), NEW.interest_to)
+        ELSE interest_accrued_through
+      END,
+      updated_at = now()
+  WHERE id = v_deposit_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_lease_deposit_transactions_balance
+  AFTER INSERT OR DELETE ON lease_deposit_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lease_deposit_balance();
+
+-- Deposits cannot go negative
+CREATE OR REPLACE FUNCTION check_lease_deposit_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_deposit lease_deposits%ROWTYPE;
+BEGIN
+  SELECT * INTO v_deposit FROM lease_deposits WHERE id = NEW.deposit_id;
+
+  IF v_deposit.status = 'disposed' THEN
+    RAISE EXCEPTION 'Deposit has already been disposed at move-out';
+  END IF;
+
+  IF NEW.transaction_type IN ('deduction', 'refund') AND NEW.amount_cents > v_deposit.balance_cents THEN
+    RAISE EXCEPTION 'Amount exceeds the deposit balance held (% cents)', v_deposit.balance_cents;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_lease_deposit_transactions_check
+  BEFORE INSERT ON lease_deposit_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_lease_deposit_transaction();
+
+-- =====================================================
+-- STEP 4: RLS
+-- =====================================================
+
+ALTER TABLE lease_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lease_deposit_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deposit_interest_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lease deposits"
+  ON lease_deposits FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own deposits"
+  ON lease_deposits FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (SELECT t.id FROM tenants t WHERE t.user_id = auth.uid())
+  );
+
+-- Disposed deposits are final
+CREATE POLICY "Managers can manage lease deposits"
+  ON lease_deposits FOR ALL
+  TO authenticated
+  USING (
+    status = 'held'
+    AND business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'property_manager', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  )
+  WITH CHECK (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'property_manager', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Users can view lease deposit transactions"
+  ON lease_deposit_transactions FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own deposit transactions"
+  ON lease_deposit_transactions FOR SELECT
+  TO authenticated
+  USING (
+    deposit_id IN (
+      SELECT d.id FROM lease_deposits d
+      JOIN tenants t ON t.id = d.tenant_id
+      WHERE t.user_id = auth.uid()
+    )
+  );
+
+-- Transactions are append-only; mistakes are corrected with a new transaction
+CREATE POLICY "Managers can record lease deposit transactions"
+  ON lease_deposit_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'property_manager', 'accounting')
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Users can view deposit interest rates"
+  ON deposit_interest_rates FOR SELECT
+  TO authenticated
+  USING (
+    business_id IS NULL
+    OR business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Admins can manage business deposit interest rates"
+  ON deposit_interest_rates FOR ALL
+  TO authenticated
+  USING (
+    business_id IS NOT NULL
+    AND can_manage_business_accounting(business_id)
+  )
+  WITH CHECK (
+    business_id IS NOT NULL
+    AND can_manage_business_accounting(business_id)
+  );
+
+COMMENT ON TABLE lease_deposits IS 'Security and pet deposits held per lease; balance is maintained from lease_deposit_transactions';
+COMMENT ON TABLE lease_deposit_transactions IS 'Append-only deposit ledger: receipts, interest credited, move-out deductions and refunds';
+COMMENT ON TABLE deposit_interest_rates IS 'Annual deposit interest rates by jurisdiction and region; rows without business_id are statutory defaults';
@@ -0,0 +1,374 @@
+-- Unit Inspections
+-- Migration: 091_unit_inspections.sql
+--
+-- Move-in, move-out and periodic inspections of a unit. An inspection is
+-- built from a template of rooms and items; each item gets a condition
+-- rating, notes and photos. The inspector and the tenant sign the finished
+-- inspection, after which its findings are locked. Damage found at move-out
+-- can be turned into a maintenance request or charged to the deposit.
+--
+-- tenant_documents holds documents shared with a tenant (such as the
+-- move-in / move-out comparison report) for the tenant portal.
+
+-- =====================================================
+-- STEP 1: Templates
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS inspection_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  -- [{ "name": "Kitchen", "items": ["Walls", "Floor", ...] }, ...]
+  rooms jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_default boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_inspection_templates_business ON inspection_templates(business_id);
+CREATE UNIQUE INDEX idx_inspection_templates_default
+  ON inspection_templates(business_id) WHERE is_default;
+
+-- =====================================================
+-- STEP 2: Inspections, items and photos
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS unit_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  unit_id uuid NOT NULL REFERENCES units(id) ON DELETE CASCADE,
+  lease_id uuid REFERENCES leases(id) ON DELETE SET NULL,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE SET NULL,
+  template_id uuid REFERENCES inspection_templates(id) ON DELETE SET NULL,
+  inspection_type text NOT NULL CHECK (inspection_type IN ('move_in', 'move_out', 'periodic')),
+  inspection_date date NOT NULL DEFAULT CURRENT_DATE,
+  -- in_progress -> completed (inspector signed) -> signed (tenant co-signed)
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'signed')),
+  general_notes text,
+
+  -- Signatures (DigitalSignature: drawn image data URL or typed name)
+  inspector_id uuid REFERENCES auth.users(id),
+  inspector_name text,
+  inspector_signature text,
+  inspector_signature_method text CHECK (inspector_signature_method IN ('digital', 'typed')),
+  inspector_signed_at timestamptz,
+  tenant_signer_name text,
+  tenant_signature text,
+  tenant_signature_method text CHECK (tenant_signature_method IN ('digital', 'typed')),
+  tenant_signed_at timestamptz,
+  tenant_comments text,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_unit_inspections_business ON unit_inspections(business_id, inspection_date DESC);
+CREATE INDEX idx_unit_inspections_unit ON unit_inspections(unit_id, inspection_type);
+CREATE INDEX idx_unit_inspections_lease ON unit_inspections(lease_id);
+CREATE INDEX idx_unit_inspections_tenant ON unit_inspections(tenant_id);
+
+CREATE TABLE IF NOT EXISTS unit_inspection_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inspection_id uuid NOT NULL REFERENCES unit_inspections(id) ON DELETE CASCADE,
+  room_name text NOT NULL,
+  item_name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  condition_rating text CHECK (condition_rating IN (
+    'excellent', 'good', 'fair', 'poor', 'damaged', 'not_applicable'
+  )),
+  notes text,
+
+  -- Damage follow-up
+  is_damage boolean NOT NULL DEFAULT false,
+  estimated_cost_cents bigint CHECK (estimated_cost_cents IS NULL OR estimated_cost_cents >= 0),
+  maintenance_request_id uuid REFERENCES maintenance_requests(id) ON DELETE SET NULL,
+  deposit_charge_cents bigint CHECK (deposit_charge_cents IS NULL OR deposit_charge_cents > 0),
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_unit_inspection_items_inspection ON unit_inspection_items(inspection_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS inspection_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inspection_id uuid NOT NULL REFERENCES unit_inspections(id) ON DELETE CASCADE,
+  item_id uuid REFERENCES unit_inspection_items(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_url text NOT NULL,
+  file_size integer,
+  mime_type text,
+  caption text,
+  uploaded_by uuid REFERENCES auth.users(id),
+  uploaded_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_inspection_photos_inspection ON inspection_photos(inspection_id);
+CREATE INDEX idx_inspection_photos_item ON inspection_photos(item_id);
+
+-- Deposit deductions raised from inspection damage
+ALTER TABLE lease_deposit_transactions
+  ADD COLUMN IF NOT EXISTS inspection_item_id uuid REFERENCES unit_inspection_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lease_deposit_transactions_inspection_item
+  ON lease_deposit_transactions(inspection_item_id) WHERE inspection_item_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 3: Tenant documents
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS tenant_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  unit_id uuid REFERENCES units(id) ON DELETE SET NULL,
+  document_type text NOT NULL,
+  file_name text NOT NULL,
+  file_url text NOT NULL,
+  source_type text,
+  source_id uuid,
+  uploaded_by uuid REFERENCES auth.users(id),
+  uploaded_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_tenant_documents_tenant ON tenant_documents(tenant_id, uploaded_at DESC);
+CREATE INDEX idx_tenant_documents_source ON tenant_documents(source_type, source_id);
+
+-- =====================================================
+-- STEP 4: Locking signed inspections
+-- =====================================================
+
+-- Findings are final once the tenant has co-signed. Damage follow-up
+-- (maintenance request, deposit charge) can still be recorded.
+CREATE OR REPLACE FUNCTION check_unit_inspection_item_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  SELECT status INTO v_status FROM unit_inspections
+  WHERE id = COALESCE(NEW.inspection_id, OLD.inspection_id);
+
+  IF v_status = 'signed' THEN
+    IF TG_OP = 'DELETE' OR TG_OP = 'INSERT' THEN
+      RAISE EXCEPTION 'Inspection has been signed and cannot be changed';
+    END IF;
+
+    IF NEW.room_name IS DISTINCT FROM OLD.room_name
+      OR NEW.item_name IS DISTINCT FROM OLD.item_name
+      OR NEW.condition_rating IS DISTINCT FROM OLD.condition_rating
+      OR NEW.notes IS DISTINCT FROM OLD.notes
+      OR NEW.is_damage IS DISTINCT FROM OLD.is_damage THEN
+      RAISE EXCEPTION 'Inspection has been signed and its findings cannot be changed';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_unit_inspection_items_check
+  BEFORE INSERT OR UPDATE OR DELETE ON unit_inspection_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_unit_inspection_item_update();
+
+CREATE OR REPLACE FUNCTION check_inspection_photo_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unit_inspections
+    WHERE id = COALESCE(NEW.inspection_id, OLD.inspection_id)
+    AND status = 'signed'
+  ) THEN
+    RAISE EXCEPTION 'Inspection has been signed and its photos cannot be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_inspection_photos_check
+  BEFORE INSERT OR DELETE ON inspection_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION check_inspection_photo_change();
+
+-- =====================================================
+-- STEP 5: RLS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION can_manage_business_properties(p_business_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM businesses b
+    WHERE b.id = p_business_id
+    AND (
+      b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'property_manager')
+        AND om.is_active = true
+      )
+    )
+  );
+$$;
+
+ALTER TABLE inspection_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unit_inspections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unit_inspection_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inspection_photos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenant_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view inspection templates"
+  ON inspection_templates FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Managers can manage inspection templates"
+  ON inspection_templates FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id))
+  WITH CHECK (can_manage_business_properties(business_id));
+
+CREATE POLICY "Users can view unit inspections"
+  ON unit_inspections FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own inspections"
+  ON unit_inspections FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (SELECT t.id FROM tenants t WHERE t.user_id = auth.uid())
+  );
+
+-- Signed inspections can no longer be edited or deleted
+CREATE POLICY "Managers can manage unit inspections"
+  ON unit_inspections FOR ALL
+  TO authenticated
+  USING (status <> 'signed' AND can_manage_business_properties(business_id))
+  WITH CHECK (can_manage_business_properties(business_id));
+
+CREATE POLICY "Users can view inspection items"
+  ON unit_inspection_items FOR SELECT
+  TO authenticated
+  USING (inspection_id IN (SELECT ui.id FROM unit_inspections ui));
+
+CREATE POLICY "Managers can manage inspection items"
+  ON unit_inspection_items FOR ALL
+  TO authenticated
+  USING (
+    inspection_id IN (
+      SELECT ui.id FROM unit_inspections ui
+      WHERE can_manage_business_properties(ui.business_id)
+    )
+  )
+  WITH CHECK (
+    inspection_id IN (
+      SELECT ui.id FROM unit_inspections ui
+      WHERE can_manage_business_properties(ui.business_id)
+    )
+  );
+
+CREATE POLICY "Users can view inspection photos"
+  ON inspection_photos FOR SELECT
+  TO authenticated
+  USING (inspection_id IN (SELECT ui.id FROM unit_inspections ui));
+
+CREATE POLICY "Managers can manage inspection photos"
+  ON inspection_photos FOR ALL
+  TO authenticated
+  USING (
+    inspection_id IN (
+      SELECT ui.id FROM unit_inspections ui
+      WHERE can_manage_business_properties(ui.business_id)
+    )
+  )
+  WITH CHECK (
+    inspection_id IN (
+      SELECT ui.id FROM unit_inspections ui
+      WHERE can_manage_business_properties(ui.business_id)
+    )
+  );
+
+CREATE POLICY "Users can view tenant documents"
+  ON tenant_documents FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own documents"
+  ON tenant_documents FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (SELECT t.id FROM tenants t WHERE t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Managers can manage tenant documents"
+  ON tenant_documents FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id))
+  WITH CHECK (can_manage_business_properties(business_id));
+
+-- =====================================================
+-- STEP 6: Comments
+-- =====================================================
+
+COMMENT ON TABLE inspection_templates IS 'Room-by-room inspection checklists; rooms is an array of {name, items[]}';
+COMMENT ON TABLE unit_inspections IS 'Move-in, move-out and periodic unit inspections with inspector and tenant signatures';
+COMMENT ON TABLE unit_inspection_items IS 'Condition of one item in one room; damage can be linked to a maintenance request or charged to the deposit';
+COMMENT ON TABLE inspection_photos IS 'Photo evidence for an inspection item (data URLs, as with application documents)';
+COMMENT ON TABLE tenant_documents IS 'Documents shared with a tenant in the tenant portal';
+COMMENT ON COLUMN unit_inspection_items.deposit_charge_cents IS 'Amount to deduct from the deposit at move-out; suggested in the deposit disposition';
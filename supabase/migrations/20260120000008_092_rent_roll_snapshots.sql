@@ -0,0 +1,109 @@
+-- Rent Roll Snapshots
+-- Migration: 092_rent_roll_snapshots.sql
+--
+-- The rent roll is computed from units, leases, payment schedules, payments
+-- and the deposit ledger as of any date. Values that are not historized
+-- (market rent on the unit, tenant assignment) drift over time, so a rent
+-- roll given to a lender or an owner is saved as a snapshot: the rows and
+-- totals exactly as they were reported. Snapshots can be shared with the
+-- business's property owners in the owner portal.
+
+-- =====================================================
+-- STEP 1: Snapshots
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS rent_roll_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  -- Null for a business-wide rent roll
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  as_of_date date NOT NULL,
+
+  -- RentRollRow[] and RentRollSummary as reported
+  rows jsonb NOT NULL DEFAULT '[]',
+  summary jsonb NOT NULL DEFAULT '{}',
+
+  notes text,
+  shared_with_owners boolean NOT NULL DEFAULT false,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_rent_roll_snapshots_business ON rent_roll_snapshots(business_id, as_of_date DESC);
+CREATE INDEX idx_rent_roll_snapshots_property ON rent_roll_snapshots(property_id) WHERE property_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 2: Snapshot contents are immutable
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION check_rent_roll_snapshot_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.business_id IS DISTINCT FROM OLD.business_id
+    OR NEW.property_id IS DISTINCT FROM OLD.property_id
+    OR NEW.as_of_date IS DISTINCT FROM OLD.as_of_date
+    OR NEW.rows IS DISTINCT FROM OLD.rows
+    OR NEW.summary IS DISTINCT FROM OLD.summary THEN
+    RAISE EXCEPTION 'Rent roll snapshots cannot be changed; take a new snapshot instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_rent_roll_snapshots_check
+  BEFORE UPDATE ON rent_roll_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION check_rent_roll_snapshot_update();
+
+-- =====================================================
+-- STEP 3: RLS
+-- =====================================================
+
+ALTER TABLE rent_roll_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rent roll snapshots"
+  ON rent_roll_snapshots FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Property owners can view shared rent roll snapshots"
+  ON rent_roll_snapshots FOR SELECT
+  TO authenticated
+  USING (
+    shared_with_owners = true
+    AND business_id IN (
+      SELECT bu.business_id FROM business_users bu
+      WHERE bu.auth_user_id = auth.uid()
+      AND bu.role = 'property_owner'
+      AND bu.is_active = true
+    )
+  );
+
+CREATE POLICY "Managers can manage rent roll snapshots"
+  ON rent_roll_snapshots FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+-- =====================================================
+-- STEP 4: Comments
+-- =====================================================
+
+COMMENT ON TABLE rent_roll_snapshots IS 'Rent rolls saved as reported, for lenders and owners';
+COMMENT ON COLUMN rent_roll_snapshots.rows IS 'One entry per unit: tenant, lease dates, market vs lease rent, deposits held, balance owed, days vacant';
+COMMENT ON COLUMN rent_roll_snapshots.shared_with_owners IS 'Visible to the business''s property owners in the owner portal';
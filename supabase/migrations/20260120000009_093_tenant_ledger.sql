@@ -0,0 +1,117 @@
+-- Tenant Ledger
+-- Migration: 093_tenant_ledger.sql
+--
+-- The tenant ledger is built from what is already recorded: scheduled rent,
+-- late fees (and their waivers), rent payments, gateway refunds and deposit
+-- deductions applied to rent owing. Anything else that changes what a tenant
+-- owes (a one-off charge, a goodwill credit, a correction) is entered by hand
+-- as a manual ledger entry.
+--
+-- Tenants see their own ledger and statement of account in the tenant
+-- portal, so they are also given read access to their own schedules, late
+-- fees and refunds.
+
+-- =====================================================
+-- STEP 1: Manual ledger entries
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS tenant_ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  lease_id uuid REFERENCES leases(id) ON DELETE SET NULL,
+
+  entry_type text NOT NULL CHECK (entry_type IN ('charge', 'credit', 'adjustment')),
+  entry_date date NOT NULL,
+  description text NOT NULL,
+  -- Charges and credits are positive; adjustments are signed (positive
+  -- increases what the tenant owes)
+  amount_cents integer NOT NULL,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_tenant_ledger_amount CHECK (
+    (entry_type = 'adjustment' AND amount_cents <> 0)
+    OR (entry_type <> 'adjustment' AND amount_cents > 0)
+  )
+);
+
+CREATE INDEX idx_tenant_ledger_entries_tenant ON tenant_ledger_entries(tenant_id, entry_date);
+CREATE INDEX idx_tenant_ledger_entries_business ON tenant_ledger_entries(business_id);
+
+-- =====================================================
+-- STEP 2: RLS
+-- =====================================================
+
+ALTER TABLE tenant_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tenant ledger entries"
+  ON tenant_ledger_entries FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own ledger entries"
+  ON tenant_ledger_entries FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (SELECT t.id FROM tenants t WHERE t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Managers can manage tenant ledger entries"
+  ON tenant_ledger_entries FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+-- =====================================================
+-- STEP 3: Tenant access to their own charges
+-- =====================================================
+
+DROP POLICY IF EXISTS "Tenants can view their own payment schedules" ON payment_schedules;
+CREATE POLICY "Tenants can view their own payment schedules"
+  ON payment_schedules FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      JOIN tenants ON tenants.unit_id = leases.unit_id
+      WHERE leases.id = lease_id
+        AND tenants.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Tenants can view their own late fees" ON late_fees;
+CREATE POLICY "Tenants can view their own late fees"
+  ON late_fees FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (SELECT t.id FROM tenants t WHERE t.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Tenants can view their own refunds" ON payment_transactions;
+CREATE POLICY "Tenants can view their own refunds"
+  ON payment_transactions FOR SELECT
+  TO authenticated
+  USING (
+    transaction_type = 'refund'
+    AND tenant_id IN (SELECT t.id FROM tenants t WHERE t.user_id = auth.uid())
+  );
+
+-- =====================================================
+-- STEP 4: Comments
+-- =====================================================
+
+COMMENT ON TABLE tenant_ledger_entries IS 'Manual charges, credits and adjustments on a tenant ledger';
+COMMENT ON COLUMN tenant_ledger_entries.amount_cents IS 'Positive for charges and credits; signed for adjustments, positive increasing the balance owed';
@@ -0,0 +1,559 @@
+-- Recurring Charge Engine
+-- Migration: 094_recurring_charges.sql
+--
+-- Generates payment schedules from the lease instead of having callers
+-- insert rows by hand. For each billing period (due on the lease's
+-- rent_due_day) the engine writes one rent row and one row per additional
+-- recurring charge (parking, storage, utilities, pet rent) in effect.
+--
+-- Amounts are day-weighted within the billing period: a partial first or
+-- last month is prorated, and a rent change effective mid-period splits the
+-- period at its effective date.
+--
+-- Regeneration only replaces future rows that have nothing paid against
+-- them. Past rows and anything paid are history and are never rewritten.
+-- It runs whenever the lease terms, its charges or its rent changes are
+-- edited, and daily from the automation worker to extend open-ended and
+-- long leases to the generation horizon.
+
+-- =====================================================
+-- STEP 1: Lease opt-in
+-- =====================================================
+
+-- Existing leases keep their hand-entered schedules until switched over
+ALTER TABLE leases
+  ADD COLUMN IF NOT EXISTS auto_generate_schedule boolean NOT NULL DEFAULT false;
+
+-- =====================================================
+-- STEP 2: Recurring charges and rent changes
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS lease_recurring_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  lease_id uuid NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+
+  charge_type text NOT NULL CHECK (charge_type IN ('parking', 'storage', 'utilities', 'pet_rent', 'other')),
+  description text NOT NULL,
+  -- Monthly amount
+  amount_cents integer NOT NULL CHECK (amount_cents > 0),
+  start_date date NOT NULL,
+  -- Null for the rest of the lease
+  end_date date,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_recurring_charge_dates CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_lease_recurring_charges_lease ON lease_recurring_charges(lease_id);
+
+CREATE TABLE IF NOT EXISTS lease_rent_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  lease_id uuid NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+
+  effective_date date NOT NULL,
+  monthly_rent_cents integer NOT NULL CHECK (monthly_rent_cents >= 0),
+  -- Rent in effect the day before; set on insert
+  previous_rent_cents integer,
+  reason text,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE (lease_id, effective_date)
+);
+
+CREATE INDEX idx_lease_rent_changes_lease ON lease_rent_changes(lease_id, effective_date);
+
+-- =====================================================
+-- STEP 3: Generated schedule rows
+-- =====================================================
+
+ALTER TABLE payment_schedules
+  ADD COLUMN IF NOT EXISTS is_generated boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS period_start date,
+  ADD COLUMN IF NOT EXISTS period_end date,
+  ADD COLUMN IF NOT EXISTS is_prorated boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS recurring_charge_id uuid REFERENCES lease_recurring_charges(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_schedules_generated_period
+  ON payment_schedules(lease_id, period_start)
+  WHERE is_generated;
+
+-- =====================================================
+-- STEP 4: Rent timeline
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION set_lease_rent_change_previous()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.previous_rent_cents := COALESCE(
+    (SELECT rc.monthly_rent_cents FROM lease_rent_changes rc
+     WHERE rc.lease_id = NEW.lease_id AND rc.effective_date < NEW.effective_date
+     ORDER BY rc.effective_date DESC LIMIT 1),
+    (SELECT rc.previous_rent_cents FROM lease_rent_changes rc
+     WHERE rc.lease_id = NEW.lease_id AND rc.effective_date > NEW.effective_date
+     ORDER BY rc.effective_date ASC LIMIT 1),
+    (SELECT l.monthly_rent_cents FROM leases l WHERE l.id = NEW.lease_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_lease_rent_changes_previous
+  BEFORE INSERT ON lease_rent_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_lease_rent_change_previous();
+
+-- Monthly rent in effect on a date: the latest rent change on or before it,
+-- else the rent before the first change, else the lease rent
+CREATE OR REPLACE FUNCTION lease_rent_on(p_lease_id uuid, p_date date)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT rc.monthly_rent_cents FROM lease_rent_changes rc
+     WHERE rc.lease_id = p_lease_id AND rc.effective_date <= p_date
+     ORDER BY rc.effective_date DESC LIMIT 1),
+    (SELECT rc.previous_rent_cents FROM lease_rent_changes rc
+     WHERE rc.lease_id = p_lease_id
+     ORDER BY rc.effective_date ASC LIMIT 1),
+    (SELECT l.monthly_rent_cents FROM leases l WHERE l.id = p_lease_id)
+  );
+$$;
+
+-- =====================================================
+-- STEP 5: Billing periods
+-- =====================================================
+
+-- Due date in the month of p_month; a due day past the end of a short month
+-- falls on its last day
+CREATE OR REPLACE FUNCTION lease_due_date(p_month date, p_due_day integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT make_date(
+    EXTRACT(year FROM p_month)::integer,
+    EXTRACT(month FROM p_month)::integer,
+    LEAST(
+      GREATEST(COALESCE(p_due_day, 1), 1),
+      EXTRACT(day FROM (date_trunc('month', p_month) + interval '1 month - 1 day'))::integer
+    )
+  );
+$$;
+
+-- Billing periods from the lease start through p_through. A start between
+-- due dates gives a short first period due on the start date; an end date
+-- inside a period cuts it short. nominal_days is the length of the full
+-- period, used to prorate.
+CREATE OR REPLACE FUNCTION lease_billing_periods(
+  p_start date,
+  p_end date,
+  p_due_day integer,
+  p_through date
+)
+RETURNS TABLE (period_start date, period_end date, nominal_days integer)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_last date := LEAST(COALESCE(p_end, p_through), p_through);
+  v_due date;
+  v_next date;
+BEGIN
+  v_due := lease_due_date(p_start, p_due_day);
+  IF v_due < p_start THEN
+    v_due := lease_due_date((p_start + interval '1 month')::date, p_due_day);
+  END IF;
+
+  IF v_due > p_start AND p_start <= v_last THEN
+    period_start := p_start;
+    period_end := LEAST(v_due - 1, COALESCE(p_end, v_due - 1));
+    nominal_days := v_due - lease_due_date((v_due - interval '1 month')::date, p_due_day);
+    RETURN NEXT;
+  END IF;
+
+  WHILE v_due <= v_last LOOP
+    v_next := lease_due_date((v_due + interval '1 month')::date, p_due_day);
+    period_start := v_due;
+    period_end := LEAST(v_next - 1, COALESCE(p_end, v_next - 1));
+    nominal_days := v_next - v_due;
+    RETURN NEXT;
+    v_due := v_next;
+  END LOOP;
+END;
+$$;
+
+-- =====================================================
+-- STEP 6: Schedule generation
+-- =====================================================
+
+-- Rebuild a lease's future schedule. Not callable by clients directly; see
+-- generate_lease_schedule() below.
+CREATE OR REPLACE FUNCTION regenerate_lease_schedule(p_lease_id uuid, p_horizon_months integer DEFAULT 12)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lease record;
+  v_today date := current_date;
+  v_horizon date := (current_date + make_interval(months => p_horizon_months))::date;
+  v_end date;
+  v_through date;
+  v_inserted integer := 0;
+  v_count integer;
+  v_rent integer;
+BEGIN
+  -- Also reached while a deleted lease's charges are cascaded away
+  SELECT * INTO v_lease FROM leases WHERE id = p_lease_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Future rows with nothing paid are rebuilt from the current terms
+  DELETE FROM payment_schedules ps
+  WHERE ps.lease_id = p_lease_id
+    AND ps.is_generated
+    AND ps.payment_date > v_today
+    AND NOT COALESCE(ps.is_paid, false)
+    AND COALESCE(ps.paid_amount, 0) = 0
+    AND NOT EXISTS (SELECT 1 FROM late_fees lf WHERE lf.payment_schedule_id = ps.id);
+
+  -- Ended, renewed or draft leases, and leases not switched over, keep only
+  -- their history
+  IF v_lease.status <> 'active' OR NOT v_lease.auto_generate_schedule THEN
+    RETURN 0;
+  END IF;
+
+  -- Open-ended leases and holdovers continue month to month
+  IF v_lease.end_date IS NULL OR v_lease.end_date < v_today THEN
+    v_end := NULL;
+    v_through := v_horizon;
+  ELSE
+    v_end := v_lease.end_date;
+    v_through := LEAST(v_end, v_horizon);
+  END IF;
+
+  -- Rent. Only periods starting today or later are generated, so turning generation
+  -- on never backfills past-due rows. Periods already covered by a hand-entered
+  -- rent row are skipped.
+  INSERT INTO payment_schedules (
+    lease_id, payment_date, due_amount, payment_type, description,
+    is_generated, period_start, period_end, is_prorated
+  )
+  SELECT
+    p_lease_id,
+    bp.period_start,
+    ROUND(r.cents / bp.nominal_days) / 100.0,
+    'rent',
+    CASE
+      WHEN r.days < bp.nominal_days
+        THEN format('Prorated rent %s to %s', bp.period_start, bp.period_end)
+      ELSE format('Rent for %s', to_char(bp.period_start, 'FMMonth YYYY'))
+    END,
+    true,
+    bp.period_start,
+    bp.period_end,
+    r.days < bp.nominal_days
+  FROM lease_billing_periods(v_lease.start_date, v_end, v_lease.rent_due_day, v_through) bp
+  CROSS JOIN LATERAL (
+    SELECT SUM(lease_rent_on(p_lease_id, d::date))::numeric AS cents, COUNT(*)::integer AS days
+    FROM generate_series(bp.period_start, bp.period_end, interval '1 day') d
+  ) r
+  WHERE r.cents > 0
+    AND bp.period_start >= v_today
+    AND NOT EXISTS (
+      SELECT 1 FROM payment_schedules ps
+      WHERE ps.lease_id = p_lease_id
+      AND COALESCE(ps.payment_type, 'rent') = 'rent'
+      AND (
+        (ps.is_generated AND ps.recurring_charge_id IS NULL AND ps.period_start = bp.period_start)
+        OR (NOT ps.is_generated AND ps.payment_date BETWEEN bp.period_start AND bp.period_end)
+      )
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_inserted := v_inserted + v_count;
+
+  -- Additional recurring charges, prorated to the days they are in effect
+  INSERT INTO payment_schedules (
+    lease_id, payment_date, due_amount, payment_type, description,
+    is_generated, period_start, period_end, is_prorated, recurring_charge_id
+  )
+  SELECT
+    p_lease_id,
+    bp.period_start,
+    ROUND(c.cents / bp.nominal_days) / 100.0,
+    rc.charge_type,
+    CASE
+      WHEN c.days < bp.nominal_days
+        THEN format('%s (prorated) %s to %s', rc.description, GREATEST(bp.period_start, rc.start_date), LEAST(bp.period_end, COALESCE(rc.end_date, bp.period_end)))
+      ELSE format('%s for %s', rc.description, to_char(bp.period_start, 'FMMonth YYYY'))
+    END,
+    true,
+    bp.period_start,
+    bp.period_end,
+    c.days < bp.nominal_days,
+    rc.id
+  FROM lease_recurring_charges rc
+  CROSS JOIN LATERAL lease_billing_periods(v_lease.start_date, v_end, v_lease.rent_due_day, v_through) bp
+  CROSS JOIN LATERAL (
+    SELECT (rc.amount_cents * COUNT(*))::numeric AS cents, COUNT(*)::integer AS days
+    FROM generate_series(
+      GREATEST(bp.period_start, rc.start_date),
+      LEAST(bp.period_end, COALESCE(rc.end_date, bp.period_end)),
+      interval '1 day'
+    ) d
+  ) c
+  WHERE rc.lease_id = p_lease_id
+    AND c.days > 0
+    AND bp.period_start >= v_today
+    AND NOT EXISTS (
+      SELECT 1 FROM payment_schedules ps
+      WHERE ps.lease_id = p_lease_id
+      AND ps.is_generated
+      AND ps.recurring_charge_id = rc.id
+      AND ps.period_start = bp.period_start
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_inserted := v_inserted + v_count;
+
+  -- Keep the lease's monthly rent at the rent in effect today
+  v_rent := lease_rent_on(p_lease_id, v_today);
+  IF v_rent IS DISTINCT FROM v_lease.monthly_rent_cents THEN
+    UPDATE leases SET monthly_rent_cents = v_rent, updated_at = now() WHERE id = p_lease_id;
+  END IF;
+
+  RETURN v_inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION regenerate_lease_schedule(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Regenerate one lease's schedule; returns the number of rows written
+CREATE OR REPLACE FUNCTION generate_lease_schedule(p_lease_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_business_id uuid;
+BEGIN
+  SELECT p.business_id INTO v_business_id
+  FROM leases l
+  JOIN units u ON u.id = l.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE l.id = p_lease_id;
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Lease % not found', p_lease_id;
+  END IF;
+
+  -- The scheduled runner calls this with the service role; everyone else must manage the business
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT (can_manage_business_properties(v_business_id) OR can_manage_business_accounting(v_business_id)) THEN
+    RAISE EXCEPTION 'Not authorized to manage this lease';
+  END IF;
+
+  RETURN regenerate_lease_schedule(p_lease_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_lease_schedule(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_lease_schedule(uuid) TO authenticated, service_role;
+
+-- Regenerate every lease of a business that is set to generate its
+-- schedule; run daily by run-scheduled-jobs
+CREATE OR REPLACE FUNCTION generate_lease_schedules_for_business(p_business_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lease_id uuid;
+  v_inserted integer := 0;
+BEGIN
+  -- As in generate_lease_schedule(), only the service role skips the check
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT (can_manage_business_properties(p_business_id) OR can_manage_business_accounting(p_business_id)) THEN
+    RAISE EXCEPTION 'Not authorized to manage this business';
+  END IF;
+
+  FOR v_lease_id IN
+    SELECT l.id FROM leases l
+    JOIN units u ON u.id = l.unit_id
+    JOIN properties p ON p.id = u.property_id
+    WHERE p.business_id = p_business_id
+    AND l.auto_generate_schedule
+  LOOP
+    v_inserted := v_inserted + regenerate_lease_schedule(v_lease_id);
+  END LOOP;
+
+  RETURN v_inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_lease_schedules_for_business(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_lease_schedules_for_business(uuid) TO authenticated, service_role;
+
+-- =====================================================
+-- STEP 7: Regenerate on changes
+-- =====================================================
+
+-- Trigger functions run as definer so they can call the internal
+-- regenerate_lease_schedule(); the row change itself already passed RLS
+
+CREATE OR REPLACE FUNCTION regenerate_schedule_on_lease_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.rent_due_day IS DISTINCT FROM OLD.rent_due_day
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.auto_generate_schedule IS DISTINCT FROM OLD.auto_generate_schedule
+    OR (
+      NEW.monthly_rent_cents IS DISTINCT FROM OLD.monthly_rent_cents
+      AND NOT EXISTS (SELECT 1 FROM lease_rent_changes rc WHERE rc.lease_id = NEW.id)
+    ) THEN
+    PERFORM regenerate_lease_schedule(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_leases_regenerate_schedule
+  AFTER UPDATE ON leases
+  FOR EACH ROW
+  WHEN (OLD.auto_generate_schedule OR NEW.auto_generate_schedule)
+  EXECUTE FUNCTION regenerate_schedule_on_lease_change();
+
+CREATE OR REPLACE FUNCTION regenerate_schedule_on_charge_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM regenerate_lease_schedule(COALESCE(NEW.lease_id, OLD.lease_id));
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_lease_recurring_charges_regenerate
+  AFTER INSERT OR UPDATE OR DELETE ON lease_recurring_charges
+  FOR EACH ROW
+  EXECUTE FUNCTION regenerate_schedule_on_charge_change();
+
+CREATE TRIGGER trg_lease_rent_changes_regenerate
+  AFTER INSERT OR UPDATE OR DELETE ON lease_rent_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION regenerate_schedule_on_charge_change();
+
+-- =====================================================
+-- STEP 8: RLS
+-- =====================================================
+
+ALTER TABLE lease_recurring_charges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lease_rent_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lease recurring charges"
+  ON lease_recurring_charges FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own recurring charges"
+  ON lease_recurring_charges FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      JOIN tenants ON tenants.unit_id = leases.unit_id
+      WHERE leases.id = lease_id
+        AND tenants.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can manage lease recurring charges"
+  ON lease_recurring_charges FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view lease rent changes"
+  ON lease_rent_changes FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own rent changes"
+  ON lease_rent_changes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      JOIN tenants ON tenants.unit_id = leases.unit_id
+      WHERE leases.id = lease_id
+        AND tenants.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can manage lease rent changes"
+  ON lease_rent_changes FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+-- =====================================================
+-- STEP 9: Comments
+-- =====================================================
+
+COMMENT ON COLUMN leases.auto_generate_schedule IS 'Payment schedule is generated and maintained by the recurring charge engine';
+COMMENT ON TABLE lease_recurring_charges IS 'Monthly charges billed with rent: parking, storage, utilities, pet rent';
+COMMENT ON TABLE lease_rent_changes IS 'Rent changes during a lease, from their effective date';
+COMMENT ON COLUMN payment_schedules.is_generated IS 'Written by the recurring charge engine; future unpaid rows are rebuilt on regeneration';
+COMMENT ON COLUMN payment_schedules.is_prorated IS 'Amount covers part of the billing period';
+COMMENT ON FUNCTION generate_lease_schedule(uuid) IS 'Rebuild future unpaid schedule rows of a lease from its terms, charges and rent changes';
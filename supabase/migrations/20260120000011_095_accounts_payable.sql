@@ -0,0 +1,445 @@
+-- Accounts Payable
+-- Migration: 095_accounts_payable.sql
+--
+-- Vendor bills with line items coded to GL accounts and property/unit, an
+-- approval step, and payment runs that pay approved bills in a batch. Under
+-- accrual accounting an approved bill is posted to Accounts Payable (2200)
+-- and payments clear it; under cash accounting the expense is posted when
+-- the bill is paid. Journals are posted by the app through journalService.
+--
+-- Bill balances and vendors.open_balance_cents are maintained by triggers.
+-- Maintenance requests gain a vendor so completed work can be billed.
+
+-- =====================================================
+-- STEP 1: Journal source types
+-- =====================================================
+
+-- The original list predates reversing journals and special transactions,
+-- which the app already writes
+ALTER TABLE gl_journals DROP CONSTRAINT IF EXISTS gl_journals_source_type_check;
+ALTER TABLE gl_journals ADD CONSTRAINT gl_journals_source_type_check CHECK (source_type IN (
+  'manual', 'rent_payment', 'expense', 'security_deposit',
+  'late_fee', 'refund', 'transfer', 'depreciation',
+  'bank_fee', 'interest', 'adjustment', 'import',
+  'reversal', 'special_transaction', 'vendor_bill', 'bill_payment'
+));
+
+-- =====================================================
+-- STEP 2: Vendor bills
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS vendor_bills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL REFERENCES vendors(id) ON DELETE RESTRICT,
+
+  -- The vendor's invoice number
+  bill_number text,
+  bill_date date NOT NULL,
+  due_date date NOT NULL,
+  currency_code text NOT NULL DEFAULT 'CAD' REFERENCES currencies(code),
+
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN (
+    'draft', 'pending_approval', 'approved', 'partially_paid', 'paid', 'void'
+  )),
+
+  -- Totals of the lines, maintained by the app
+  subtotal_cents bigint NOT NULL DEFAULT 0,
+  tax_cents bigint NOT NULL DEFAULT 0,
+  total_cents bigint NOT NULL DEFAULT 0,
+  -- Maintained from vendor_bill_payments by trigger
+  amount_paid_cents bigint NOT NULL DEFAULT 0,
+
+  memo text,
+  maintenance_request_id uuid REFERENCES maintenance_requests(id) ON DELETE SET NULL,
+
+  -- Approval
+  submitted_by uuid REFERENCES auth.users(id),
+  submitted_at timestamptz,
+  approved_by uuid REFERENCES auth.users(id),
+  approved_at timestamptz,
+  rejected_by uuid REFERENCES auth.users(id),
+  rejected_at timestamptz,
+  rejection_reason text,
+
+  -- Accrual journal (Dr expense, Cr accounts payable) posted on approval
+  journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+
+  voided_by uuid REFERENCES auth.users(id),
+  voided_at timestamptz,
+  void_reason text,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT check_vendor_bill_dates CHECK (due_date >= bill_date)
+);
+
+CREATE INDEX idx_vendor_bills_business ON vendor_bills(business_id, status, due_date);
+CREATE INDEX idx_vendor_bills_vendor ON vendor_bills(vendor_id);
+CREATE INDEX idx_vendor_bills_maintenance ON vendor_bills(maintenance_request_id)
+  WHERE maintenance_request_id IS NOT NULL;
+
+-- A vendor invoice is entered once
+CREATE UNIQUE INDEX idx_vendor_bills_number
+  ON vendor_bills(vendor_id, bill_number)
+  WHERE bill_number IS NOT NULL AND status <> 'void';
+
+CREATE TABLE IF NOT EXISTS vendor_bill_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES vendor_bills(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+
+  account_id uuid NOT NULL REFERENCES gl_accounts(id),
+  property_id uuid REFERENCES properties(id) ON DELETE SET NULL,
+  unit_id uuid REFERENCES units(id) ON DELETE SET NULL,
+  description text,
+  amount_cents bigint NOT NULL CHECK (amount_cents > 0),
+  tax_rate_id uuid REFERENCES tax_rates(id),
+  tax_amount_cents bigint NOT NULL DEFAULT 0 CHECK (tax_amount_cents >= 0),
+
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_vendor_bill_lines_bill ON vendor_bill_lines(bill_id, line_number);
+
+-- =====================================================
+-- STEP 3: Payment runs and payments
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS vendor_payment_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  payment_date date NOT NULL,
+  -- Bank account the payments are drawn from
+  bank_account_id uuid NOT NULL REFERENCES gl_accounts(id),
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'void')),
+
+  bill_count integer NOT NULL DEFAULT 0,
+  total_cents bigint NOT NULL DEFAULT 0,
+  memo text,
+
+  journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+
+  voided_by uuid REFERENCES auth.users(id),
+  voided_at timestamptz,
+  void_reason text,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_vendor_payment_runs_business ON vendor_payment_runs(business_id, payment_date DESC);
+
+CREATE TABLE IF NOT EXISTS vendor_bill_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  bill_id uuid NOT NULL REFERENCES vendor_bills(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL REFERENCES vendors(id),
+  payment_run_id uuid REFERENCES vendor_payment_runs(id) ON DELETE CASCADE,
+
+  payment_date date NOT NULL,
+  amount_cents bigint NOT NULL CHECK (amount_cents > 0),
+  payment_method text NOT NULL CHECK (payment_method IN ('ach', 'check', 'other')),
+  -- Check number or transfer reference
+  reference text,
+  is_void boolean NOT NULL DEFAULT false,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_vendor_bill_payments_bill ON vendor_bill_payments(bill_id);
+CREATE INDEX idx_vendor_bill_payments_run ON vendor_bill_payments(payment_run_id);
+CREATE INDEX idx_vendor_bill_payments_vendor ON vendor_bill_payments(vendor_id, payment_date);
+
+-- =====================================================
+-- STEP 4: Maintenance work orders
+-- =====================================================
+
+ALTER TABLE maintenance_requests
+  ADD COLUMN IF NOT EXISTS vendor_id uuid REFERENCES vendors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_requests_vendor ON maintenance_requests(vendor_id)
+  WHERE vendor_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 5: Balances
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION update_vendor_open_balance(p_vendor_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE vendors
+  SET open_balance_cents = (
+        SELECT COALESCE(SUM(b.total_cents - b.amount_paid_cents), 0)
+        FROM vendor_bills b
+        WHERE b.vendor_id = p_vendor_id
+        AND b.status IN ('approved', 'partially_paid')
+      ),
+      updated_at = now()
+  WHERE id = p_vendor_id;
+$$;
+
+-- Paid amount and paid status follow the bill's payments; voided payments
+-- reopen the bill
+CREATE OR REPLACE FUNCTION update_vendor_bill_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bill_id uuid := COALESCE(NEW.bill_id, OLD.bill_id);
+BEGIN
+  UPDATE vendor_bills b
+  SET amount_paid_cents = p.paid,
+      status = CASE
+        WHEN b.status IN ('draft', 'pending_approval', 'void') THEN b.status
+        WHEN p.paid >= b.total_cents THEN 'paid'
+        WHEN p.paid > 0 THEN 'partially_paid'
+        ELSE 'approved'
+      END,
+      updated_at = now()
+  FROM (
+    SELECT COALESCE(SUM(amount_cents), 0) AS paid
+    FROM vendor_bill_payments
+    WHERE bill_id = v_bill_id AND NOT is_void
+  ) p
+  WHERE b.id = v_bill_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_vendor_bill_payments_paid
+  AFTER INSERT OR UPDATE OF is_void, amount_cents OR DELETE ON vendor_bill_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vendor_bill_paid();
+
+-- Payments can only be made against approved bills, up to their balance
+CREATE OR REPLACE FUNCTION check_vendor_bill_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bill vendor_bills%ROWTYPE;
+BEGIN
+  SELECT * INTO v_bill FROM vendor_bills WHERE id = NEW.bill_id;
+
+  IF v_bill.status NOT IN ('approved', 'partially_paid') THEN
+    RAISE EXCEPTION 'Bill % is not approved for payment', COALESCE(v_bill.bill_number, v_bill.id::text);
+  END IF;
+
+  IF NEW.amount_cents > v_bill.total_cents - v_bill.amount_paid_cents THEN
+    RAISE EXCEPTION 'Payment exceeds the balance of bill % (% cents)',
+      COALESCE(v_bill.bill_number, v_bill.id::text), v_bill.total_cents - v_bill.amount_paid_cents;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_vendor_bill_payments_check
+  BEFORE INSERT ON vendor_bill_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_vendor_bill_payment();
+
+CREATE OR REPLACE FUNCTION update_vendor_open_balance_on_bill()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM update_vendor_open_balance(OLD.vendor_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.vendor_id IS DISTINCT FROM OLD.vendor_id) THEN
+    PERFORM update_vendor_open_balance(NEW.vendor_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_vendor_bills_open_balance
+  AFTER INSERT OR UPDATE OF status, total_cents, amount_paid_cents, vendor_id OR DELETE ON vendor_bills
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vendor_open_balance_on_bill();
+
+-- =====================================================
+-- STEP 6: Approval
+-- =====================================================
+
+-- Owners, admins and accountants allowed to approve journals approve bills.
+-- When the business does not require approval, or the bill is under the
+-- approval threshold, whoever enters the bill may approve it.
+CREATE OR REPLACE FUNCTION check_vendor_bill_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings business_accounting_settings%ROWTYPE;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status NOT IN ('draft', 'pending_approval') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_settings FROM business_accounting_settings WHERE business_id = NEW.business_id;
+
+  IF COALESCE(v_settings.require_journal_approval, false)
+    AND NEW.total_cents >= COALESCE(v_settings.approval_threshold_cents, 0)
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM businesses b
+      WHERE b.id = NEW.business_id
+      AND (
+        b.owner_user_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM organization_members om
+          WHERE om.organization_id = b.organization_id
+          AND om.user_id = auth.uid()
+          AND om.role IN ('owner', 'admin')
+          AND om.is_active = true
+        )
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM accounting_permissions ap
+      WHERE ap.user_id = auth.uid()
+      AND ap.business_id = NEW.business_id
+      AND ap.can_approve_journals = true
+    ) THEN
+    RAISE EXCEPTION 'You do not have permission to approve bills';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_vendor_bills_approval
+  BEFORE UPDATE OF status ON vendor_bills
+  FOR EACH ROW
+  EXECUTE FUNCTION check_vendor_bill_approval();
+
+-- =====================================================
+-- STEP 7: RLS
+-- =====================================================
+
+ALTER TABLE vendor_bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_bill_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_payment_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_bill_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view vendor bills"
+  ON vendor_bills FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+CREATE POLICY "Managers can manage vendor bills"
+  ON vendor_bills FOR ALL
+  TO authenticated
+  USING (can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view vendor bill lines"
+  ON vendor_bill_lines FOR SELECT
+  TO authenticated
+  USING (
+    bill_id IN (SELECT vb.id FROM vendor_bills vb)
+  );
+
+-- Lines are editable while the bill is a draft or awaiting approval
+CREATE POLICY "Managers can manage vendor bill lines"
+  ON vendor_bill_lines FOR ALL
+  TO authenticated
+  USING (
+    can_manage_business_accounting(business_id)
+    AND bill_id IN (
+      SELECT vb.id FROM vendor_bills vb WHERE vb.status IN ('draft', 'pending_approval')
+    )
+  )
+  WITH CHECK (
+    can_manage_business_accounting(business_id)
+    AND bill_id IN (
+      SELECT vb.id FROM vendor_bills vb WHERE vb.status IN ('draft', 'pending_approval')
+    )
+  );
+
+CREATE POLICY "Users can view vendor payment runs"
+  ON vendor_payment_runs FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+CREATE POLICY "Managers can manage vendor payment runs"
+  ON vendor_payment_runs FOR ALL
+  TO authenticated
+  USING (can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view vendor bill payments"
+  ON vendor_bill_payments FOR SELECT
+  TO authenticated
+  USING (
+    bill_id IN (SELECT vb.id FROM vendor_bills vb)
+  );
+
+-- Payments are voided, not deleted
+CREATE POLICY "Managers can record vendor bill payments"
+  ON vendor_bill_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+CREATE POLICY "Managers can void vendor bill payments"
+  ON vendor_bill_payments FOR UPDATE
+  TO authenticated
+  USING (can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+COMMENT ON TABLE vendor_bills IS 'Vendor invoices awaiting approval and payment; amount_paid_cents and vendors.open_balance_cents are maintained by trigger';
+COMMENT ON TABLE vendor_bill_lines IS 'Bill line items coded to a GL account and optionally a property and unit';
+COMMENT ON TABLE vendor_payment_runs IS 'Batches of vendor bill payments drawn from one bank account, posted as one journal';
+COMMENT ON TABLE vendor_bill_payments IS 'Payments applied to vendor bills; voided payments reopen the bill';
+COMMENT ON COLUMN maintenance_requests.vendor_id IS 'Vendor doing the work; completed requests with an actual cost can be billed';
@@ -0,0 +1,245 @@
+-- Collections
+-- Migration: 096_collections.sql
+--
+-- A/R aging is computed from the tenant ledger, so it needs no tables of its
+-- own. Tenants with a past-due balance are worked through a collections
+-- queue: each business configures escalation steps (reminder, formal notice,
+-- payment plan offer, handoff) that fire once a case is far enough past due.
+-- Steps schedule a notification to the tenant, and every contact attempt,
+-- automatic or by hand, is logged against the tenant.
+
+-- =====================================================
+-- STEP 1: Escalation steps
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS collection_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  step_order integer NOT NULL CHECK (step_order > 0),
+  name text NOT NULL,
+  action_type text NOT NULL
+    CHECK (action_type IN ('reminder', 'formal_notice', 'payment_plan_offer', 'handoff')),
+  -- The step fires once the oldest unpaid charge is this many days past due
+  days_past_due integer NOT NULL CHECK (days_past_due >= 0),
+  -- ...and at least this much is past due
+  min_balance_cents integer NOT NULL DEFAULT 0 CHECK (min_balance_cents >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE (business_id, step_order)
+);
+
+CREATE INDEX idx_collection_steps_business ON collection_steps(business_id);
+
+-- =====================================================
+-- STEP 2: Collection cases
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS collection_cases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'handed_off', 'resolved')),
+
+  -- Refreshed from the tenant's aging each time the queue is refreshed
+  balance_cents integer NOT NULL DEFAULT 0,
+  past_due_cents integer NOT NULL DEFAULT 0,
+  oldest_due_date date,
+  days_past_due integer NOT NULL DEFAULT 0,
+
+  -- Last escalation step taken; 0 before the first
+  current_step_id uuid REFERENCES collection_steps(id) ON DELETE SET NULL,
+  current_step_order integer NOT NULL DEFAULT 0,
+  last_action_at timestamptz,
+  -- Escalation waits until this date after a promise to pay
+  paused_until date,
+
+  opened_at timestamptz DEFAULT now(),
+  handed_off_at timestamptz,
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id),
+  resolution text CHECK (resolution IN ('paid', 'payment_plan', 'written_off', 'other')),
+  resolution_notes text,
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_collection_cases_business ON collection_cases(business_id, status);
+CREATE INDEX idx_collection_cases_tenant ON collection_cases(tenant_id);
+
+-- One active case per tenant
+CREATE UNIQUE INDEX idx_collection_cases_active_tenant
+  ON collection_cases(tenant_id)
+  WHERE status IN ('open', 'handed_off');
+
+-- =====================================================
+-- STEP 3: Contact log
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS collection_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  case_id uuid REFERENCES collection_cases(id) ON DELETE SET NULL,
+  step_id uuid REFERENCES collection_steps(id) ON DELETE SET NULL,
+
+  contact_date timestamptz NOT NULL DEFAULT now(),
+  contact_method text NOT NULL
+    CHECK (contact_method IN ('email', 'phone', 'sms', 'letter', 'in_person', 'other')),
+  direction text NOT NULL DEFAULT 'outbound' CHECK (direction IN ('outbound', 'inbound')),
+  outcome text NOT NULL
+    CHECK (outcome IN (
+      'sent', 'not_sent', 'no_answer', 'left_message', 'spoke',
+      'promised_to_pay', 'disputed', 'paid', 'other'
+    )),
+
+  -- Set when the contact was a scheduled notification
+  notification_id uuid REFERENCES scheduled_notifications(id) ON DELETE SET NULL,
+  promised_amount_cents integer CHECK (promised_amount_cents IS NULL OR promised_amount_cents > 0),
+  promised_date date,
+  notes text,
+
+  -- Null for contacts made by an escalation step
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_collection_contacts_tenant ON collection_contacts(tenant_id, contact_date DESC);
+CREATE INDEX idx_collection_contacts_case ON collection_contacts(case_id);
+
+-- =====================================================
+-- STEP 4: Notification templates
+-- =====================================================
+
+INSERT INTO notification_templates (type, name, subject_template, body_template, is_active, send_days_before) VALUES
+('collections_notice', 'Formal Notice of Arrears', 'Formal Notice: Past-Due Balance of {{amount}}',
+'Dear {{tenant_name}},
+
+Our records show a past-due balance of {{amount}} on your account. The oldest unpaid amount was due on {{due_date}}, {{days_overdue}} days ago.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+Past Due: {{amount}}
+Total Balance: {{balance}}
+
+Please pay the past-due balance in full or contact us within 7 days to make arrangements. If we do not hear from you, we may take further steps to collect the amount owing.
+
+{{organization_name}}', true, NULL),
+
+('payment_plan_offer', 'Payment Plan Offer', 'Let''s Set Up a Payment Plan',
+'Dear {{tenant_name}},
+
+Your account has a past-due balance of {{amount}}. If paying it all at once is difficult, we can set up a payment plan to pay it off in installments alongside your regular rent.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+Past Due: {{amount}}
+
+Please contact us to discuss a plan that works for you.
+
+Thank you,
+{{organization_name}}', true, NULL),
+
+('collections_handoff', 'Account Referred to Collections', 'Your Account Has Been Referred for Collection',
+'Dear {{tenant_name}},
+
+Despite our previous notices, your account still has a past-due balance of {{amount}}, the oldest amount due on {{due_date}}.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+Past Due: {{amount}}
+
+Your account has been referred for further collection action. To resolve it, please pay the balance or contact us as soon as possible.
+
+{{organization_name}}', true, NULL)
+
+ON CONFLICT (type) DO NOTHING;
+
+-- =====================================================
+-- STEP 5: RLS
+-- =====================================================
+
+ALTER TABLE collection_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view collection steps"
+  ON collection_steps FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Managers can manage collection steps"
+  ON collection_steps FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view collection cases"
+  ON collection_cases FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Managers can manage collection cases"
+  ON collection_cases FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view collection contacts"
+  ON collection_contacts FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+-- The contact log is append-only
+CREATE POLICY "Managers can log collection contacts"
+  ON collection_contacts FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+-- =====================================================
+-- STEP 6: Comments
+-- =====================================================
+
+COMMENT ON TABLE collection_steps IS 'Per-business collections escalation steps, taken in step_order once a case is days_past_due past due';
+COMMENT ON TABLE collection_cases IS 'Tenants being worked for a past-due balance; balances are refreshed from the tenant ledger';
+COMMENT ON TABLE collection_contacts IS 'Append-only log of every collections contact attempt with a tenant';
+COMMENT ON COLUMN collection_cases.paused_until IS 'Escalation is held until this date after a promise to pay';
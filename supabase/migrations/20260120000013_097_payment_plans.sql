@@ -0,0 +1,554 @@
+-- Payment Plans
+-- Migration: 097_payment_plans.sql
+--
+-- A payment plan splits a tenant's arrears into installments. The manager
+-- proposes the plan and the tenant accepts (or declines) it in the tenant
+-- portal. While a plan is active:
+-- - Late fees are not assessed on the plan's lease
+-- - The tenant is reminded of each installment a few days before it is due
+--
+-- Installments are not paid individually. An installment is met once the
+-- tenant's payments since the plan started cover every installment due so
+-- far plus the regular charges that have fallen due since, so a plan only
+-- stays in good standing while the tenant also keeps up with rent. An
+-- installment that is still not met once its grace days have passed is
+-- missed: the plan defaults, its reminders are cancelled, and late fees and
+-- collections resume.
+--
+-- Plans are evaluated at the start of assess_late_fees_for_business, so the
+-- daily late fee run keeps them current.
+
+-- =====================================================
+-- STEP 1: Plans
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  lease_id uuid NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  collection_case_id uuid REFERENCES collection_cases(id) ON DELETE SET NULL,
+
+  status text NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'active', 'completed', 'defaulted', 'cancelled')),
+
+  total_cents integer NOT NULL CHECK (total_cents > 0),
+  installment_count integer NOT NULL CHECK (installment_count > 0),
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  first_due_date date NOT NULL,
+  -- Days after an installment's due date before it counts as missed
+  grace_days integer NOT NULL DEFAULT 3 CHECK (grace_days >= 0),
+  terms text,
+  -- The offer lapses if not accepted by this date
+  expires_on date,
+
+  -- Payments and charges are counted from this date
+  starts_on date,
+
+  proposed_by uuid REFERENCES auth.users(id),
+  proposed_at timestamptz DEFAULT now(),
+  accepted_by uuid REFERENCES auth.users(id),
+  accepted_at timestamptz,
+  completed_at timestamptz,
+  defaulted_at timestamptz,
+  cancelled_by uuid REFERENCES auth.users(id),
+  cancelled_at timestamptz,
+  cancel_reason text,
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_payment_plans_business ON payment_plans(business_id, status);
+CREATE INDEX idx_payment_plans_tenant ON payment_plans(tenant_id);
+CREATE INDEX idx_payment_plans_lease_active ON payment_plans(lease_id) WHERE status = 'active';
+
+-- One open plan per tenant
+CREATE UNIQUE INDEX idx_payment_plans_open_tenant
+  ON payment_plans(tenant_id)
+  WHERE status IN ('proposed', 'active');
+
+-- =====================================================
+-- STEP 2: Installments
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_plan_installments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  installment_number integer NOT NULL CHECK (installment_number > 0),
+  due_date date NOT NULL,
+  amount_cents integer NOT NULL CHECK (amount_cents > 0),
+
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'met', 'missed')),
+  evaluated_at timestamptz,
+  reminder_notification_id uuid REFERENCES scheduled_notifications(id) ON DELETE SET NULL,
+
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE (plan_id, installment_number)
+);
+
+CREATE INDEX idx_payment_plan_installments_plan ON payment_plan_installments(plan_id, installment_number);
+
+-- =====================================================
+-- STEP 3: Notification templates
+-- =====================================================
+
+INSERT INTO notification_templates (type, name, subject_template, body_template, is_active, send_days_before) VALUES
+('payment_plan_proposed', 'Payment Plan Proposed', 'A Payment Plan Is Ready for You',
+'Dear {{tenant_name}},
+
+We have set up a payment plan for the past-due balance on your account: {{amount}} in {{installment_count}} installments, the first due on {{due_date}}.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+
+Please review and accept the plan under Payments in your tenant portal. While the plan is in good standing, no late fees are charged.
+
+Thank you,
+{{organization_name}}', true, NULL),
+
+('payment_plan_installment', 'Payment Plan Installment Reminder', 'Payment Plan Installment {{installment_number}} of {{installment_count}} Due {{due_date}}',
+'Dear {{tenant_name}},
+
+This is a reminder that installment {{installment_number}} of {{installment_count}} on your payment plan, {{amount}}, is due on {{due_date}}, along with any regular rent due by then.
+
+Property: {{property_name}}
+Unit: {{unit_number}}
+
+Missing an installment ends the plan, and late fees and collections resume.
+
+Thank you,
+{{organization_name}}', true, 3)
+
+ON CONFLICT (type) DO NOTHING;
+
+-- =====================================================
+-- STEP 4: Evaluation
+-- =====================================================
+
+-- Mark installments met or missed, default or complete plans, lapse expired
+-- offers and schedule installment reminders. Returns the number of plans
+-- whose status changed.
+CREATE OR REPLACE FUNCTION evaluate_payment_plans(p_business_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan RECORD;
+  v_installment RECORD;
+  v_template RECORD;
+  v_paid bigint;
+  v_required bigint;
+  v_missed boolean;
+  v_changed integer := 0;
+  v_subject text;
+  v_body text;
+  v_notification_id uuid;
+BEGIN
+  -- The late fee run calls this with the service role; everyone else must manage the business
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT (can_manage_business_properties(p_business_id) OR can_manage_business_accounting(p_business_id)) THEN
+    RAISE EXCEPTION 'Not authorized to manage this business';
+  END IF;
+
+  -- Offers that were never accepted
+  UPDATE payment_plans
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancel_reason = 'Offer expired',
+      updated_at = now()
+  WHERE business_id = p_business_id
+    AND status = 'proposed'
+    AND (expires_on < CURRENT_DATE OR first_due_date < CURRENT_DATE);
+
+  GET DIAGNOSTICS v_changed = ROW_COUNT;
+
+  FOR v_plan IN
+    SELECT * FROM payment_plans
+    WHERE business_id = p_business_id
+    AND status = 'active'
+  LOOP
+    v_missed := false;
+
+    SELECT COALESCE(SUM(rp.amount_cents), 0) INTO v_paid
+    FROM rent_payments rp
+    WHERE rp.tenant_id = v_plan.tenant_id
+      AND rp.status IN ('paid', 'partial')
+      AND rp.payment_type NOT IN ('security_deposit', 'pet_deposit')
+      AND rp.payment_date >= v_plan.starts_on
+      AND rp.payment_date <= CURRENT_DATE;
+
+    -- Manual credits since the plan started count as payments
+    v_paid := v_paid + COALESCE((
+      SELECT SUM(tle.amount_cents)
+      FROM tenant_ledger_entries tle
+      WHERE tle.tenant_id = v_plan.tenant_id
+        AND tle.entry_type = 'credit'
+        AND tle.entry_date >= v_plan.starts_on
+        AND tle.entry_date <= CURRENT_DATE
+    ), 0);
+
+    FOR v_installment IN
+      SELECT i.*,
+        (SELECT SUM(i2.amount_cents) FROM payment_plan_installments i2
+         WHERE i2.plan_id = i.plan_id AND i2.installment_number <= i.installment_number) AS cumulative_cents
+      FROM payment_plan_installments i
+      WHERE i.plan_id = v_plan.id
+      AND i.status = 'pending'
+      ORDER BY i.installment_number
+    LOOP
+      -- Installments so far plus regular charges due since the plan started
+      SELECT v_installment.cumulative_cents
+        + COALESCE((
+            SELECT SUM(ROUND(ps.due_amount * 100))
+            FROM payment_schedules ps
+            WHERE ps.lease_id = v_plan.lease_id
+              AND ps.payment_date >= v_plan.starts_on
+              AND ps.payment_date <= v_installment.due_date
+          ), 0)
+        + COALESCE((
+            SELECT SUM(tle.amount_cents)
+            FROM tenant_ledger_entries tle
+            WHERE tle.tenant_id = v_plan.tenant_id
+              AND tle.entry_type IN ('charge', 'adjustment')
+              AND tle.entry_date >= v_plan.starts_on
+              AND tle.entry_date <= v_installment.due_date
+          ), 0)
+      INTO v_required;
+
+      IF v_paid >= v_required THEN
+        UPDATE payment_plan_installments
+        SET status = 'met', evaluated_at = now()
+        WHERE id = v_installment.id;
+      ELSIF v_installment.due_date + v_plan.grace_days < CURRENT_DATE THEN
+        UPDATE payment_plan_installments
+        SET status = 'missed', evaluated_at = now()
+        WHERE id = v_installment.id;
+        v_missed := true;
+        EXIT;
+      ELSE
+        -- Later installments cannot be met before this one
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_missed THEN
+      UPDATE payment_plans
+      SET status = 'defaulted', defaulted_at = now(), updated_at = now()
+      WHERE id = v_plan.id;
+
+      UPDATE scheduled_notifications
+      SET status = 'failed', error_message = 'Payment plan defaulted'
+      WHERE status = 'pending'
+        AND id IN (
+          SELECT reminder_notification_id FROM payment_plan_installments
+          WHERE plan_id = v_plan.id AND reminder_notification_id IS NOT NULL
+        );
+
+      v_changed := v_changed + 1;
+    ELSIF NOT EXISTS (
+      SELECT 1 FROM payment_plan_installments
+      WHERE plan_id = v_plan.id AND status <> 'met'
+    ) THEN
+      UPDATE payment_plans
+      SET status = 'completed', completed_at = now(), updated_at = now()
+      WHERE id = v_plan.id;
+
+      v_changed := v_changed + 1;
+    END IF;
+  END LOOP;
+
+  -- Reminders for installments on active plans due within the template's lead time
+  SELECT * INTO v_template
+  FROM notification_templates
+  WHERE type = 'payment_plan_installment' AND is_active = true;
+
+  IF v_template IS NOT NULL THEN
+    FOR v_installment IN
+      SELECT i.id, i.installment_number, i.due_date, i.amount_cents,
+        pp.installment_count,
+        t.first_name || ' ' || t.last_name AS tenant_name,
+        t.email,
+        u.unit_number,
+        p.name AS property_name,
+        b.business_name
+      FROM payment_plan_installments i
+      JOIN payment_plans pp ON pp.id = i.plan_id
+      JOIN tenants t ON t.id = pp.tenant_id
+      LEFT JOIN units u ON u.id = t.unit_id
+      LEFT JOIN properties p ON p.id = u.property_id
+      JOIN businesses b ON b.id = pp.business_id
+      WHERE pp.business_id = p_business_id
+        AND pp.status = 'active'
+        AND i.status = 'pending'
+        AND i.reminder_notification_id IS NULL
+        AND i.due_date >= CURRENT_DATE
+        AND i.due_date <= CURRENT_DATE + COALESCE(v_template.send_days_before, 3)
+        AND t.email IS NOT NULL
+    LOOP
+      v_subject := v_template.subject_template;
+      v_body := v_template.body_template;
+
+      v_subject := replace(v_subject, '{{installment_number}}', v_installment.installment_number::text);
+      v_subject := replace(v_subject, '{{installment_count}}', v_installment.installment_count::text);
+      v_subject := replace(v_subject, '{{due_date}}', to_char(v_installment.due_date, 'Mon DD, YYYY'));
+
+      v_body := replace(v_body, '{{tenant_name}}', v_installment.tenant_name);
+      v_body := replace(v_body, '{{installment_number}}', v_installment.installment_number::text);
+      v_body := replace(v_body, '{{installment_count}}', v_installment.installment_count::text);
+      v_body := replace(v_body, '{{amount}}', '$' || to_char(v_installment.amount_cents / 100.0, 'FM999,999,990.00'));
+      v_body := replace(v_body, '{{due_date}}', to_char(v_installment.due_date, 'Mon DD, YYYY'));
+      v_body := replace(v_body, '{{property_name}}', COALESCE(v_installment.property_name, ''));
+      v_body := replace(v_body, '{{unit_number}}', COALESCE(v_installment.unit_number, ''));
+      v_body := replace(v_body, '{{organization_name}}', COALESCE(v_installment.business_name, ''));
+
+      INSERT INTO scheduled_notifications (
+        organization_id, notification_type, recipient_email, recipient_name,
+        subject, body, scheduled_for, status, metadata
+      ) VALUES (
+        p_business_id, 'payment_plan_installment', v_installment.email, v_installment.tenant_name,
+        v_subject, v_body, now(), 'pending',
+        jsonb_build_object('payment_plan_installment_id', v_installment.id)
+      )
+      RETURNING id INTO v_notification_id;
+
+      UPDATE payment_plan_installments
+      SET reminder_notification_id = v_notification_id
+      WHERE id = v_installment.id;
+    END LOOP;
+  END IF;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Accept or decline a proposed plan, as the tenant or a manager on the
+-- tenant's behalf. Accepting starts the plan and closes the tenant's open
+-- collection case.
+CREATE OR REPLACE FUNCTION respond_to_payment_plan(p_plan_id uuid, p_accept boolean)
+RETURNS payment_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan payment_plans;
+BEGIN
+  SELECT * INTO v_plan FROM payment_plans WHERE id = p_plan_id FOR UPDATE;
+
+  IF v_plan IS NULL THEN
+    RAISE EXCEPTION 'Payment plan not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM tenants t WHERE t.id = v_plan.tenant_id AND t.user_id = auth.uid())
+    AND NOT can_manage_business_properties(v_plan.business_id)
+    AND NOT can_manage_business_accounting(v_plan.business_id) THEN
+    RAISE EXCEPTION 'You do not have permission to respond to this payment plan';
+  END IF;
+
+  IF v_plan.status <> 'proposed' THEN
+    RAISE EXCEPTION 'This payment plan is no longer open';
+  END IF;
+
+  IF p_accept AND (v_plan.expires_on < CURRENT_DATE OR v_plan.first_due_date < CURRENT_DATE) THEN
+    RAISE EXCEPTION 'This payment plan offer has expired';
+  END IF;
+
+  IF p_accept THEN
+    UPDATE payment_plans
+    SET status = 'active',
+        starts_on = CURRENT_DATE,
+        accepted_by = auth.uid(),
+        accepted_at = now(),
+        updated_at = now()
+    WHERE id = p_plan_id
+    RETURNING * INTO v_plan;
+
+    UPDATE collection_cases
+    SET status = 'resolved',
+        resolution = 'payment_plan',
+        resolved_at = now(),
+        resolved_by = auth.uid(),
+        updated_at = now()
+    WHERE tenant_id = v_plan.tenant_id
+      AND status = 'open';
+  ELSE
+    UPDATE payment_plans
+    SET status = 'cancelled',
+        cancelled_by = auth.uid(),
+        cancelled_at = now(),
+        cancel_reason = 'Declined',
+        updated_at = now()
+    WHERE id = p_plan_id
+    RETURNING * INTO v_plan;
+  END IF;
+
+  RETURN v_plan;
+END;
+$$;
+
+-- =====================================================
+-- STEP 5: Pause late fees while a plan is active
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION assess_late_fees_for_business(p_business_id UUID)
+RETURNS TABLE(
+  payment_schedule_id UUID,
+  late_fee_cents BIGINT,
+  late_fee_id UUID
+) AS $$
+DECLARE
+  v_schedule RECORD;
+  v_late_fee_cents BIGINT;
+  v_days_overdue INTEGER;
+  v_late_fee_id UUID;
+BEGIN
+  -- Default or complete payment plans first, so fees resume on a missed installment
+  PERFORM evaluate_payment_plans(p_business_id);
+
+  -- Find all overdue payment schedules for this business
+  FOR v_schedule IN
+    SELECT
+      ps.id,
+      ps.due_amount,
+      ps.paid_amount,
+      ps.payment_date,
+      ps.lease_id,
+      l.unit_id,
+      u.property_id,
+      p.business_id
+    FROM payment_schedules ps
+    JOIN leases l ON ps.lease_id = l.id
+    JOIN units u ON l.unit_id = u.id
+    JOIN properties p ON u.property_id = p.id
+    WHERE p.business_id = p_business_id
+    AND ps.is_paid = false
+    AND ps.payment_date < CURRENT_DATE
+    AND NOT EXISTS (
+      SELECT 1 FROM late_fees lf
+      WHERE lf.payment_schedule_id = ps.id
+      AND lf.status != 'waived'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM payment_plans pp
+      WHERE pp.lease_id = ps.lease_id
+      AND pp.status = 'active'
+    )
+  LOOP
+    -- Calculate days overdue
+    v_days_overdue := CURRENT_DATE - v_schedule.payment_date;
+
+    -- Calculate late fee
+    v_late_fee_cents := calculate_late_fee(
+      p_business_id,
+      (v_schedule.due_amount * 100)::BIGINT,
+      v_days_overdue
+    );
+
+    -- Only create late fee if amount > 0
+    IF v_late_fee_cents > 0 THEN
+      -- Insert late fee record
+      INSERT INTO late_fees (
+        business_id,
+        payment_schedule_id,
+        lease_id,
+        unit_id,
+        tenant_id,
+        original_amount_cents,
+        late_fee_cents,
+        total_amount_cents,
+        original_due_date,
+        status
+      )
+      SELECT
+        p_business_id,
+        v_schedule.id,
+        v_schedule.lease_id,
+        v_schedule.unit_id,
+        l.tenant_id,
+        (v_schedule.due_amount * 100)::BIGINT,
+        v_late_fee_cents,
+        ((v_schedule.due_amount * 100)::BIGINT + v_late_fee_cents),
+        v_schedule.payment_date,
+        'unpaid'
+      FROM leases l
+      WHERE l.id = v_schedule.lease_id
+      RETURNING id INTO v_late_fee_id;
+
+      -- Return the result
+      payment_schedule_id := v_schedule.id;
+      late_fee_cents := v_late_fee_cents;
+      late_fee_id := v_late_fee_id;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- STEP 6: RLS
+-- =====================================================
+
+ALTER TABLE payment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_plan_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payment plans"
+  ON payment_plans FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Tenants can view their own payment plans"
+  ON payment_plans FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (SELECT t.id FROM tenants t WHERE t.user_id = auth.uid())
+  );
+
+-- Tenants accept and decline through respond_to_payment_plan
+CREATE POLICY "Managers can manage payment plans"
+  ON payment_plans FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view payment plan installments"
+  ON payment_plan_installments FOR SELECT
+  TO authenticated
+  USING (
+    plan_id IN (SELECT pp.id FROM payment_plans pp)
+  );
+
+CREATE POLICY "Managers can manage payment plan installments"
+  ON payment_plan_installments FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+GRANT EXECUTE ON FUNCTION respond_to_payment_plan(uuid, boolean) TO authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_payment_plans(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION evaluate_payment_plans(uuid) TO authenticated, service_role;
+
+-- =====================================================
+-- STEP 7: Comments
+-- =====================================================
+
+COMMENT ON TABLE payment_plans IS 'Arrears split into installments; late fees are not assessed on the lease while active';
+COMMENT ON TABLE payment_plan_installments IS 'Installments met once payments since starts_on cover installments due so far plus regular charges due since';
+COMMENT ON COLUMN payment_plans.starts_on IS 'Acceptance date; payments and new charges are counted from here';
+COMMENT ON FUNCTION evaluate_payment_plans(uuid) IS 'Marks installments met or missed, defaults or completes plans, lapses expired offers and schedules installment reminders';
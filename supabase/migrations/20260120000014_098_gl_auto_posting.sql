@@ -0,0 +1,567 @@
+-- GL Auto-Posting
+-- Migration: 098_gl_auto_posting.sql
+--
+-- Operational transactions post to the general ledger on their own, following
+-- the business's accounting method:
+-- - Cash: rent payments credit income when received; expenses post when paid
+-- - Accrual: rent and recurring charges are accrued to Rent Receivable on
+--   their due dates (source type rent_charge), late fees to Other
+--   Receivables when assessed, and payments settle the receivable. Expenses
+--   post to Accounts Payable on the expense date and the payment clears it
+--   (source type expense_payment)
+--
+-- When a transaction changes or is deleted its journal is reversed and, if
+-- it still applies, posted again, in a single database transaction. Transactions that cannot be posted (closed
+-- period, missing account) are queued in gl_unposted_transactions until they
+-- are retried or dismissed.
+--
+-- Payments, expenses and late fees post as they are recorded. A posting
+-- sweep accrues charges as they fall due, catches changes made outside the
+-- app and retries the queue. Only transactions dated on or after
+-- auto_post_start_date are swept, so turning auto-posting on does not
+-- backfill history.
+
+-- =====================================================
+-- STEP 1: Journal source types
+-- =====================================================
+
+ALTER TABLE gl_journals DROP CONSTRAINT IF EXISTS gl_journals_source_type_check;
+ALTER TABLE gl_journals ADD CONSTRAINT gl_journals_source_type_check CHECK (source_type IN (
+  'manual', 'rent_payment', 'expense', 'security_deposit',
+  'late_fee', 'refund', 'transfer', 'depreciation',
+  'bank_fee', 'interest', 'adjustment', 'import',
+  'reversal', 'special_transaction', 'vendor_bill', 'bill_payment',
+  'rent_charge', 'expense_payment'
+));
+
+CREATE INDEX IF NOT EXISTS idx_gl_journals_source
+  ON gl_journals(business_id, source_type, source_id);
+
+-- =====================================================
+-- STEP 2: Posting start date
+-- =====================================================
+
+ALTER TABLE business_accounting_settings
+  ADD COLUMN IF NOT EXISTS auto_post_start_date date;
+
+UPDATE business_accounting_settings
+SET auto_post_start_date = CURRENT_DATE
+WHERE auto_post_start_date IS NULL;
+
+ALTER TABLE business_accounting_settings
+  ALTER COLUMN auto_post_start_date SET DEFAULT CURRENT_DATE;
+
+-- The sweep runs at most once a day from the accounting dashboard
+ALTER TABLE business_accounting_settings
+  ADD COLUMN IF NOT EXISTS last_posting_sweep_at timestamptz;
+
+-- =====================================================
+-- STEP 3: Unposted transactions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS gl_unposted_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  source_type text NOT NULL
+    CHECK (source_type IN ('rent_payment', 'expense', 'late_fee', 'rent_charge')),
+  source_id uuid NOT NULL,
+  transaction_date date,
+  amount_cents integer,
+  description text,
+
+  error_message text NOT NULL,
+  attempts integer NOT NULL DEFAULT 1,
+  last_attempt_at timestamptz DEFAULT now(),
+
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'resolved', 'dismissed')),
+  resolved_at timestamptz,
+  dismissed_by uuid REFERENCES auth.users(id),
+  dismissed_at timestamptz,
+  dismiss_reason text,
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One open entry per transaction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gl_unposted_transactions_pending
+  ON gl_unposted_transactions(business_id, source_type, source_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_gl_unposted_transactions_business
+  ON gl_unposted_transactions(business_id, status, transaction_date);
+
+-- =====================================================
+-- STEP 4: Posting sweep
+-- =====================================================
+
+-- Transactions whose journals may be missing or out of date: those with no
+-- active journal, and active journals whose transaction was deleted, voided
+-- or changed amount or date. The app rebuilds each one and only reposts
+-- when the journal actually differs.
+--
+-- Payments count as received when paid, partial or refunded, as on the
+-- tenant ledger; refunds are recorded separately.
+CREATE OR REPLACE FUNCTION get_gl_posting_candidates(
+  p_business_id uuid,
+  p_from date,
+  p_through date
+)
+RETURNS TABLE (candidate_type text, candidate_id uuid)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_method text;
+BEGIN
+  SELECT COALESCE(s.accounting_method, 'cash') INTO v_method
+  FROM business_accounting_settings s
+  WHERE s.business_id = p_business_id;
+
+  RETURN QUERY
+  WITH active_journals AS (
+    SELECT j.source_type, j.source_id, j.journal_date, j.total_debit_cents
+    FROM gl_journals j
+    WHERE j.business_id = p_business_id
+      AND j.source_type IN ('rent_payment', 'expense', 'expense_payment', 'late_fee', 'rent_charge')
+      AND j.status NOT IN ('reversed', 'void')
+      AND j.journal_date >= p_from
+  ),
+  business_payments AS (
+    SELECT rp.id, rp.payment_date, rp.amount_cents, rp.status
+    FROM rent_payments rp
+    JOIN units u ON u.id = rp.unit_id
+    JOIN properties p ON p.id = u.property_id
+    WHERE p.business_id = p_business_id
+  ),
+  business_schedules AS (
+    SELECT ps.id, ps.payment_date, ROUND(ps.due_amount * 100)::integer AS amount_cents
+    FROM payment_schedules ps
+    JOIN leases l ON l.id = ps.lease_id
+    JOIN units u ON u.id = l.unit_id
+    JOIN properties p ON p.id = u.property_id
+    WHERE p.business_id = p_business_id
+  )
+  -- Payments without a journal
+  SELECT 'rent_payment'::text, bp.id
+  FROM business_payments bp
+  WHERE bp.payment_date BETWEEN p_from AND p_through
+    AND bp.status IN ('paid', 'partial', 'refunded')
+    AND NOT EXISTS (
+      SELECT 1 FROM active_journals aj
+      WHERE aj.source_type = 'rent_payment' AND aj.source_id = bp.id
+    )
+  UNION
+  -- Payment journals out of step with their payment
+  SELECT 'rent_payment'::text, aj.source_id
+  FROM active_journals aj
+  LEFT JOIN business_payments bp ON bp.id = aj.source_id
+  WHERE aj.source_type = 'rent_payment'
+    AND (
+      bp.id IS NULL
+      OR bp.status NOT IN ('paid', 'partial', 'refunded')
+      OR bp.amount_cents <> aj.total_debit_cents
+      OR bp.payment_date <> aj.journal_date
+    )
+  UNION
+  -- Expenses due a journal: paid ones always, unpaid ones under accrual
+  SELECT 'expense'::text, e.id
+  FROM expenses e
+  WHERE e.business_id = p_business_id
+    AND e.expense_date BETWEEN p_from AND p_through
+    AND e.status <> 'cancelled'
+    AND (
+      (
+        (e.status IN ('paid', 'reimbursed') OR v_method = 'accrual')
+        AND NOT EXISTS (
+          SELECT 1 FROM active_journals aj
+          WHERE aj.source_type = 'expense' AND aj.source_id = e.id
+        )
+      )
+      OR (
+        v_method = 'accrual'
+        AND e.status IN ('paid', 'reimbursed')
+        AND NOT EXISTS (
+          SELECT 1 FROM active_journals aj
+          WHERE aj.source_type = 'expense_payment' AND aj.source_id = e.id
+        )
+      )
+    )
+  UNION
+  -- Expense journals out of step with their expense
+  SELECT 'expense'::text, aj.source_id
+  FROM active_journals aj
+  LEFT JOIN expenses e ON e.id = aj.source_id
+  WHERE aj.source_type IN ('expense', 'expense_payment')
+    AND (
+      e.id IS NULL
+      OR e.status = 'cancelled'
+      OR e.amount_cents <> aj.total_debit_cents
+      OR (aj.source_type = 'expense_payment' AND e.status NOT IN ('paid', 'reimbursed'))
+    )
+  UNION
+  -- Late fees to accrue
+  SELECT 'late_fee'::text, lf.id
+  FROM late_fees lf
+  WHERE v_method = 'accrual'
+    AND lf.business_id = p_business_id
+    AND lf.assessed_date BETWEEN p_from AND p_through
+    AND lf.status <> 'waived'
+    AND lf.late_fee_cents > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM active_journals aj
+      WHERE aj.source_type = 'late_fee' AND aj.source_id = lf.id
+    )
+  UNION
+  -- Late fee accruals that were waived, changed or deleted
+  SELECT 'late_fee'::text, aj.source_id
+  FROM active_journals aj
+  LEFT JOIN late_fees lf ON lf.id = aj.source_id
+  WHERE aj.source_type = 'late_fee'
+    AND (
+      lf.id IS NULL
+      OR v_method <> 'accrual'
+      OR lf.status = 'waived'
+      OR lf.late_fee_cents <> aj.total_debit_cents
+      OR lf.assessed_date <> aj.journal_date
+    )
+  UNION
+  -- Scheduled charges that have fallen due
+  SELECT 'rent_charge'::text, bs.id
+  FROM business_schedules bs
+  WHERE v_method = 'accrual'
+    AND bs.payment_date BETWEEN p_from AND p_through
+    AND bs.amount_cents > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM active_journals aj
+      WHERE aj.source_type = 'rent_charge' AND aj.source_id = bs.id
+    )
+  UNION
+  -- Charge accruals whose schedule was regenerated, changed or deleted
+  SELECT 'rent_charge'::text, aj.source_id
+  FROM active_journals aj
+  LEFT JOIN business_schedules bs ON bs.id = aj.source_id
+  WHERE aj.source_type = 'rent_charge'
+    AND (
+      bs.id IS NULL
+      OR v_method <> 'accrual'
+      OR bs.amount_cents <> aj.total_debit_cents
+      OR bs.payment_date <> aj.journal_date
+    );
+END;
+$$;
+
+-- =====================================================
+-- STEP 5: Posting a transaction's journal
+-- =====================================================
+
+-- Why a date cannot be posted to, or NULL when its fiscal period (if any)
+-- is open
+CREATE OR REPLACE FUNCTION gl_posting_date_error(p_business_id uuid, p_date date)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT format(
+    'Cannot post to %s. Fiscal period %s is %s.',
+    p_date, fp.period_name, CASE WHEN fp.status = 'closing' THEN 'being closed' ELSE 'closed' END
+  )
+  FROM fiscal_periods fp
+  WHERE fp.business_id = p_business_id
+    AND NOT COALESCE(fp.is_adjusting_period, false)
+    AND p_date BETWEEN fp.start_date AND fp.end_date
+    AND fp.status <> 'open'
+  LIMIT 1;
+$$;
+
+-- Post a balanced draft journal: ledger rows, account balances and status
+CREATE OR REPLACE FUNCTION post_gl_journal(p_journal_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_journal gl_journals%ROWTYPE;
+  v_error text;
+  v_fiscal_year integer;
+  v_fiscal_period integer;
+BEGIN
+  SELECT * INTO v_journal FROM gl_journals WHERE id = p_journal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_journal.status <> 'draft' THEN
+    RAISE EXCEPTION 'Journal % is not a draft', p_journal_id;
+  END IF;
+
+  v_error := gl_posting_date_error(v_journal.business_id, v_journal.journal_date);
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM gl_journal_entries
+    WHERE journal_id = p_journal_id
+    HAVING sum(debit_cents) <> sum(credit_cents) OR sum(base_debit_cents) <> sum(base_credit_cents)
+  ) THEN
+    RAISE EXCEPTION 'Journal does not balance';
+  END IF;
+
+  SELECT fp.fiscal_year, fp.fiscal_period INTO v_fiscal_year, v_fiscal_period
+  FROM get_fiscal_period(v_journal.business_id, v_journal.journal_date) fp;
+
+  INSERT INTO gl_ledger (
+    business_id, account_id, journal_id, journal_entry_id,
+    fiscal_year, fiscal_period, posting_date,
+    debit_cents, credit_cents, base_debit_cents, base_credit_cents,
+    property_id, unit_id, tenant_id, vendor_id, description
+  )
+  SELECT
+    v_journal.business_id, e.account_id, e.journal_id, e.id,
+    v_fiscal_year, v_fiscal_period, v_journal.journal_date,
+    e.debit_cents, e.credit_cents, e.base_debit_cents, e.base_credit_cents,
+    e.property_id, e.unit_id, e.tenant_id, e.vendor_id, COALESCE(e.description, v_journal.memo)
+  FROM gl_journal_entries e
+  WHERE e.journal_id = p_journal_id;
+
+  UPDATE gl_accounts a
+  SET
+    current_balance_cents = a.current_balance_cents
+      + CASE WHEN a.normal_balance = 'credit' THEN t.credit - t.debit ELSE t.debit - t.credit END,
+    ytd_debit_cents = COALESCE(a.ytd_debit_cents, 0) + t.debit,
+    ytd_credit_cents = COALESCE(a.ytd_credit_cents, 0) + t.credit,
+    updated_at = now()
+  FROM (
+    SELECT account_id, sum(base_debit_cents) AS debit, sum(base_credit_cents) AS credit
+    FROM gl_journal_entries
+    WHERE journal_id = p_journal_id
+    GROUP BY account_id
+  ) t
+  WHERE a.id = t.account_id;
+
+  UPDATE gl_journals
+  SET status = 'posted', posted_at = now(), posted_by = p_user_id, updated_at = now()
+  WHERE id = p_journal_id;
+END;
+$$;
+
+-- Replace a transaction's auto-posted journal in one transaction: a draft is
+-- deleted and a posted journal reversed (on its own date while that period
+-- is open, otherwise today), then the new journal, if any, is posted. When
+-- any step fails nothing changes, so the ledger never keeps a reversal
+-- without its replacement.
+CREATE OR REPLACE FUNCTION replace_gl_source_journal(
+  p_business_id uuid,
+  p_source_type text,
+  p_source_id uuid,
+  -- {journal_date, journal_type, transaction_currency, exchange_rate,
+  --  exchange_rate_date?, exchange_rate_id?, exchange_rate_inverted, memo?,
+  --  lines: [{account_id, debit_cents, credit_cents, base_debit_cents,
+  --  base_credit_cents, property_id?, unit_id?, tenant_id?, vendor_id?,
+  --  tax_rate_id?, tax_amount_cents?, description?}]}, or NULL for none
+  p_journal jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_existing gl_journals%ROWTYPE;
+  v_reversal_id uuid;
+  v_journal_id uuid;
+  v_totals record;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT (can_manage_business_properties(p_business_id) OR can_manage_business_accounting(p_business_id)) THEN
+    RAISE EXCEPTION 'Not authorized to manage this business';
+  END IF;
+
+  IF p_source_type NOT IN ('rent_payment', 'expense', 'expense_payment', 'late_fee', 'rent_charge') THEN
+    RAISE EXCEPTION 'Journals with source type % are not auto-posted', p_source_type;
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM gl_journals
+  WHERE business_id = p_business_id
+    AND source_type = p_source_type
+    AND source_id = p_source_id
+    AND status NOT IN ('reversed', 'void')
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_existing.status = 'draft' THEN
+      DELETE FROM gl_journals WHERE id = v_existing.id;
+    ELSIF v_existing.status <> 'posted' THEN
+      RAISE EXCEPTION 'Journal % is %. Post or delete it in Journal Entries first.',
+        v_existing.journal_number, replace(v_existing.status, '_', ' ');
+    ELSE
+      IF EXISTS (SELECT 1 FROM gl_journal_entries WHERE journal_id = v_existing.id AND is_reconciled) THEN
+        RAISE EXCEPTION 'Cannot reverse a journal with bank-reconciled entries. Reopen the bank reconciliation first.';
+      END IF;
+
+      INSERT INTO gl_journals (
+        business_id, journal_number, journal_date, journal_type, source_type, source_id,
+        transaction_currency, exchange_rate, exchange_rate_date, exchange_rate_id, exchange_rate_inverted,
+        status, total_debit_cents, total_credit_cents, base_total_debit_cents, base_total_credit_cents,
+        memo, reference, created_by
+      )
+      VALUES (
+        p_business_id,
+        get_next_journal_number(p_business_id),
+        CASE WHEN gl_posting_date_error(p_business_id, v_existing.journal_date) IS NULL
+          THEN v_existing.journal_date ELSE CURRENT_DATE END,
+        'reversing', 'reversal', v_existing.id,
+        v_existing.transaction_currency, v_existing.exchange_rate, v_existing.exchange_rate_date,
+        v_existing.exchange_rate_id, v_existing.exchange_rate_inverted,
+        'draft', v_existing.total_credit_cents, v_existing.total_debit_cents,
+        v_existing.base_total_credit_cents, v_existing.base_total_debit_cents,
+        'Reversal of ' || v_existing.journal_number, v_existing.reference, v_user_id
+      )
+      RETURNING id INTO v_reversal_id;
+
+      INSERT INTO gl_journal_entries (
+        journal_id, account_id, line_number,
+        debit_cents, credit_cents, base_debit_cents, base_credit_cents,
+        property_id, unit_id, tenant_id, vendor_id, description
+      )
+      SELECT
+        v_reversal_id, e.account_id, e.line_number,
+        e.credit_cents, e.debit_cents, e.base_credit_cents, e.base_debit_cents,
+        e.property_id, e.unit_id, e.tenant_id, e.vendor_id,
+        'Reversal of ' || v_existing.journal_number || ': ' || COALESCE(e.description, '')
+      FROM gl_journal_entries e
+      WHERE e.journal_id = v_existing.id;
+
+      PERFORM post_gl_journal(v_reversal_id, v_user_id);
+
+      UPDATE gl_journals SET status = 'reversed', updated_at = now() WHERE id = v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_journal IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_journal -> 'lines') l
+    WHERE NOT EXISTS (
+      SELECT 1 FROM gl_accounts a
+      WHERE a.id = (l ->> 'account_id')::uuid AND a.business_id = p_business_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Journal lines must use this business''s accounts';
+  END IF;
+
+  SELECT
+    COALESCE(sum((l ->> 'debit_cents')::bigint), 0) AS debit,
+    COALESCE(sum((l ->> 'credit_cents')::bigint), 0) AS credit,
+    COALESCE(sum((l ->> 'base_debit_cents')::bigint), 0) AS base_debit,
+    COALESCE(sum((l ->> 'base_credit_cents')::bigint), 0) AS base_credit
+  INTO v_totals
+  FROM jsonb_array_elements(p_journal -> 'lines') l;
+
+  INSERT INTO gl_journals (
+    business_id, journal_number, journal_date, journal_type, source_type, source_id,
+    transaction_currency, exchange_rate, exchange_rate_date, exchange_rate_id, exchange_rate_inverted,
+    status, total_debit_cents, total_credit_cents, base_total_debit_cents, base_total_credit_cents,
+    memo, created_by
+  )
+  VALUES (
+    p_business_id,
+    get_next_journal_number(p_business_id),
+    (p_journal ->> 'journal_date')::date,
+    p_journal ->> 'journal_type',
+    p_source_type,
+    p_source_id,
+    p_journal ->> 'transaction_currency',
+    COALESCE((p_journal ->> 'exchange_rate')::numeric, 1),
+    (p_journal ->> 'exchange_rate_date')::date,
+    (p_journal ->> 'exchange_rate_id')::uuid,
+    COALESCE((p_journal ->> 'exchange_rate_inverted')::boolean, false),
+    'draft', v_totals.debit, v_totals.credit, v_totals.base_debit, v_totals.base_credit,
+    p_journal ->> 'memo',
+    v_user_id
+  )
+  RETURNING id INTO v_journal_id;
+
+  INSERT INTO gl_journal_entries (
+    journal_id, account_id, line_number,
+    debit_cents, credit_cents, base_debit_cents, base_credit_cents,
+    property_id, unit_id, tenant_id, vendor_id, tax_rate_id, tax_amount_cents, description
+  )
+  SELECT
+    v_journal_id,
+    (l ->> 'account_id')::uuid,
+    n,
+    COALESCE((l ->> 'debit_cents')::bigint, 0),
+    COALESCE((l ->> 'credit_cents')::bigint, 0),
+    COALESCE((l ->> 'base_debit_cents')::bigint, 0),
+    COALESCE((l ->> 'base_credit_cents')::bigint, 0),
+    (l ->> 'property_id')::uuid,
+    (l ->> 'unit_id')::uuid,
+    (l ->> 'tenant_id')::uuid,
+    (l ->> 'vendor_id')::uuid,
+    (l ->> 'tax_rate_id')::uuid,
+    COALESCE((l ->> 'tax_amount_cents')::bigint, 0),
+    l ->> 'description'
+  FROM jsonb_array_elements(p_journal -> 'lines') WITH ORDINALITY AS x(l, n);
+
+  PERFORM post_gl_journal(v_journal_id, v_user_id);
+
+  RETURN v_journal_id;
+END;
+$$;
+
+-- =====================================================
+-- STEP 6: RLS
+-- =====================================================
+
+ALTER TABLE gl_unposted_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view unposted transactions"
+  ON gl_unposted_transactions FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+-- Operational screens (payments, expenses, late fees) queue their own failures
+CREATE POLICY "Managers can manage unposted transactions"
+  ON gl_unposted_transactions FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+GRANT EXECUTE ON FUNCTION get_gl_posting_candidates(uuid, date, date) TO authenticated;
+
+-- Posting steps run only inside replace_gl_source_journal
+REVOKE EXECUTE ON FUNCTION gl_posting_date_error(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_gl_journal(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION replace_gl_source_journal(uuid, text, uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_gl_source_journal(uuid, text, uuid, jsonb) TO authenticated, service_role;
+
+-- =====================================================
+-- STEP 7: Comments
+-- =====================================================
+
+COMMENT ON TABLE gl_unposted_transactions IS 'Operational transactions that failed to post to the general ledger, kept until retried or dismissed';
+COMMENT ON COLUMN business_accounting_settings.auto_post_start_date IS 'Transactions dated earlier are left out of the auto-posting sweep';
+COMMENT ON COLUMN business_accounting_settings.last_posting_sweep_at IS 'When the auto-posting sweep last ran';
+COMMENT ON FUNCTION get_gl_posting_candidates(uuid, date, date) IS 'Transactions whose auto-posted journals may be missing or out of date';
+COMMENT ON FUNCTION replace_gl_source_journal(uuid, text, uuid, jsonb) IS 'Atomically reverse a transaction''s auto-posted journal and post its replacement';
@@ -0,0 +1,320 @@
+-- Multi-Currency and FX Revaluation
+-- Migration: 099_multi_currency.sql
+--
+-- A business keeps its books in its base currency but can own properties
+-- that operate in another one:
+-- - properties.currency_code sets the currency a property's rent, fees and
+--   expenses are recorded in (null = the business base currency)
+-- - Businesses maintain their own exchange rates alongside the system-wide
+--   ones; a business rate wins over a system rate for the same date
+-- - Journals in a foreign currency are converted to base currency at the
+--   rate in effect on the journal date
+--
+-- At period end, foreign currency balances in monetary accounts (cash,
+-- receivables and liabilities) are revalued at the closing rate:
+-- - Balances fully settled in the foreign currency leave a base currency
+--   residue, which is booked as a realized gain or loss
+-- - Open balances are adjusted to the closing rate as an unrealized gain or
+--   loss, reversed on the first day of the next period
+--
+-- Each run is recorded in fx_revaluations with a line per account and
+-- currency. Exposure includes earlier runs, so revaluing a period again
+-- only posts the difference.
+
+-- =====================================================
+-- STEP 1: Property currency
+-- =====================================================
+
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS currency_code text REFERENCES currencies(code);
+
+-- =====================================================
+-- STEP 2: Business exchange rates
+-- =====================================================
+
+-- Rates with no business are system-wide and managed by super admins
+ALTER TABLE exchange_rates
+  ADD COLUMN IF NOT EXISTS business_id uuid REFERENCES businesses(id) ON DELETE CASCADE;
+
+ALTER TABLE exchange_rates
+  DROP CONSTRAINT IF EXISTS exchange_rates_from_currency_to_currency_effective_date_key;
+
+ALTER TABLE exchange_rates
+  ADD CONSTRAINT exchange_rates_business_pair_date_key
+  UNIQUE NULLS NOT DISTINCT (business_id, from_currency, to_currency, effective_date);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_business
+  ON exchange_rates(business_id, from_currency, to_currency, effective_date DESC);
+
+-- =====================================================
+-- STEP 3: Journal source types
+-- =====================================================
+
+ALTER TABLE gl_journals DROP CONSTRAINT IF EXISTS gl_journals_source_type_check;
+ALTER TABLE gl_journals ADD CONSTRAINT gl_journals_source_type_check CHECK (source_type IN (
+  'manual', 'rent_payment', 'expense', 'security_deposit',
+  'late_fee', 'refund', 'transfer', 'depreciation',
+  'bank_fee', 'interest', 'adjustment', 'import',
+  'reversal', 'special_transaction', 'vendor_bill', 'bill_payment',
+  'rent_charge', 'expense_payment', 'fx_revaluation'
+));
+
+-- =====================================================
+-- STEP 4: Foreign exchange accounts
+-- =====================================================
+
+UPDATE gl_account_templates
+SET accounts = accounts || '[
+  {"number": "4530", "name": "Realized Foreign Exchange Gain/Loss", "type": "revenue", "subtype": "other_revenue", "normal_balance": "credit", "parent": "4500"},
+  {"number": "4540", "name": "Unrealized Foreign Exchange Gain/Loss", "type": "revenue", "subtype": "other_revenue", "normal_balance": "credit", "parent": "4500"}
+]'::jsonb
+WHERE accounts @> '[{"number": "4500"}]'::jsonb
+  AND NOT accounts @> '[{"number": "4530"}]'::jsonb;
+
+-- Businesses that already have a chart of accounts
+INSERT INTO gl_accounts (
+  business_id,
+  account_number,
+  account_name,
+  account_type,
+  account_subtype,
+  parent_account_id,
+  normal_balance,
+  is_header_account,
+  is_system
+)
+SELECT
+  parent.business_id,
+  fx.account_number,
+  fx.account_name,
+  'revenue',
+  'other_revenue',
+  parent.id,
+  'credit',
+  false,
+  true
+FROM gl_accounts parent
+CROSS JOIN (VALUES
+  ('4530', 'Realized Foreign Exchange Gain/Loss'),
+  ('4540', 'Unrealized Foreign Exchange Gain/Loss')
+) AS fx(account_number, account_name)
+WHERE parent.account_number = '4500'
+ON CONFLICT (business_id, account_number) DO NOTHING;
+
+-- =====================================================
+-- STEP 5: Revaluations
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS fx_revaluations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  fiscal_period_id uuid REFERENCES fiscal_periods(id) ON DELETE SET NULL,
+
+  base_currency text NOT NULL REFERENCES currencies(code),
+  revaluation_date date NOT NULL,
+  -- Unrealized adjustments are reversed on this date
+  reversal_date date NOT NULL,
+
+  realized_journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+  unrealized_journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+  reversal_journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+
+  realized_cents bigint NOT NULL DEFAULT 0,
+  unrealized_cents bigint NOT NULL DEFAULT 0,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_revaluations_business
+  ON fx_revaluations(business_id, revaluation_date DESC);
+
+CREATE TABLE IF NOT EXISTS fx_revaluation_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  revaluation_id uuid NOT NULL REFERENCES fx_revaluations(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES gl_accounts(id) ON DELETE CASCADE,
+  currency_code text NOT NULL REFERENCES currencies(code),
+
+  kind text NOT NULL CHECK (kind IN ('realized', 'unrealized')),
+  -- Debit-positive balances before the adjustment
+  foreign_balance_cents bigint NOT NULL,
+  booked_base_cents bigint NOT NULL,
+  closing_rate numeric(18,8),
+  revalued_base_cents bigint NOT NULL,
+  adjustment_cents bigint NOT NULL,
+
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_revaluation_lines_revaluation
+  ON fx_revaluation_lines(revaluation_id);
+
+-- =====================================================
+-- STEP 6: Exposure
+-- =====================================================
+
+-- Foreign currency balances in monetary accounts as of a date, with what
+-- they are carried at in base currency. The carrying amount includes
+-- realized adjustments and unrealized ones not yet reversed.
+CREATE OR REPLACE FUNCTION get_fx_exposure(
+  p_business_id uuid,
+  p_as_of date
+)
+RETURNS TABLE (
+  account_id uuid,
+  currency_code text,
+  foreign_balance_cents bigint,
+  booked_base_cents bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_base text;
+BEGIN
+  SELECT COALESCE(s.base_currency, 'CAD') INTO v_base
+  FROM business_accounting_settings s
+  WHERE s.business_id = p_business_id;
+
+  v_base := COALESCE(v_base, 'CAD');
+
+  RETURN QUERY
+  WITH monetary_accounts AS (
+    SELECT a.id
+    FROM gl_accounts a
+    WHERE a.business_id = p_business_id
+      AND (
+        (a.account_type = 'asset' AND a.account_subtype IN ('cash', 'bank', 'accounts_receivable'))
+        OR a.account_type = 'liability'
+      )
+  ),
+  activity AS (
+    SELECT
+      e.account_id AS acct,
+      j.transaction_currency AS cur,
+      SUM(e.debit_cents - e.credit_cents)::bigint AS foreign_cents,
+      SUM(e.base_debit_cents - e.base_credit_cents)::bigint AS base_cents
+    FROM gl_journal_entries e
+    JOIN gl_journals j ON j.id = e.journal_id
+    WHERE j.business_id = p_business_id
+      AND j.status IN ('posted', 'reversed')
+      AND j.journal_date <= p_as_of
+      AND j.transaction_currency <> v_base
+      AND e.account_id IN (SELECT id FROM monetary_accounts)
+    GROUP BY e.account_id, j.transaction_currency
+  ),
+  adjustments AS (
+    SELECT
+      l.account_id AS acct,
+      l.currency_code AS cur,
+      SUM(l.adjustment_cents)::bigint AS base_cents
+    FROM fx_revaluation_lines l
+    JOIN fx_revaluations r ON r.id = l.revaluation_id
+    JOIN gl_journals j ON j.id = CASE WHEN l.kind = 'realized'
+      THEN r.realized_journal_id ELSE r.unrealized_journal_id END
+    WHERE r.business_id = p_business_id
+      AND r.revaluation_date <= p_as_of
+      AND j.status IN ('posted', 'reversed')
+      AND (l.kind = 'realized' OR r.reversal_date > p_as_of)
+    GROUP BY l.account_id, l.currency_code
+  )
+  SELECT
+    COALESCE(a.acct, adj.acct),
+    COALESCE(a.cur, adj.cur),
+    COALESCE(a.foreign_cents, 0)::bigint,
+    (COALESCE(a.base_cents, 0) + COALESCE(adj.base_cents, 0))::bigint
+  FROM activity a
+  FULL OUTER JOIN adjustments adj ON adj.acct = a.acct AND adj.cur = a.cur;
+END;
+$$;
+
+-- =====================================================
+-- STEP 7: RLS
+-- =====================================================
+
+DROP POLICY IF EXISTS "Anyone can view exchange rates" ON exchange_rates;
+
+CREATE POLICY "Users can view exchange rates"
+  ON exchange_rates FOR SELECT
+  TO authenticated
+  USING (
+    business_id IS NULL
+    OR business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Accounting managers can manage business exchange rates"
+  ON exchange_rates FOR ALL
+  TO authenticated
+  USING (business_id IS NOT NULL AND can_manage_business_accounting(business_id))
+  WITH CHECK (business_id IS NOT NULL AND can_manage_business_accounting(business_id));
+
+ALTER TABLE fx_revaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fx_revaluation_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view FX revaluations"
+  ON fx_revaluations FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Accounting managers can manage FX revaluations"
+  ON fx_revaluations FOR ALL
+  TO authenticated
+  USING (can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view FX revaluation lines"
+  ON fx_revaluation_lines FOR SELECT
+  TO authenticated
+  USING (
+    revaluation_id IN (SELECT id FROM fx_revaluations)
+  );
+
+CREATE POLICY "Accounting managers can manage FX revaluation lines"
+  ON fx_revaluation_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM fx_revaluations r
+      WHERE r.id = revaluation_id
+      AND can_manage_business_accounting(r.business_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM fx_revaluations r
+      WHERE r.id = revaluation_id
+      AND can_manage_business_accounting(r.business_id)
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION get_fx_exposure(uuid, date) TO authenticated;
+
+-- =====================================================
+-- STEP 8: Comments
+-- =====================================================
+
+COMMENT ON COLUMN properties.currency_code IS 'Currency the property transacts in; null uses the business base currency';
+COMMENT ON COLUMN exchange_rates.business_id IS 'Business the rate belongs to; null for system-wide rates';
+COMMENT ON TABLE fx_revaluations IS 'Period-end revaluations of foreign currency balances';
+COMMENT ON TABLE fx_revaluation_lines IS 'Per account and currency adjustments made by a revaluation';
+COMMENT ON FUNCTION get_fx_exposure(uuid, date) IS 'Foreign currency balances in monetary accounts and their base currency carrying amounts';
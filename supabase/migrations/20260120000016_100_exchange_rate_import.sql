@@ -0,0 +1,121 @@
+-- =====================================================
+-- Exchange Rate Import
+-- Migration: 100_exchange_rate_import.sql
+--
+-- Rates can be imported instead of typed in:
+-- - Uploaded files: a plain CSV, or the Bank of Canada (Valet) and ECB
+--   published XML/CSV formats
+-- - Downloaded from the provider's feed, on demand or by the daily
+--   scheduled job for businesses with automatic import turned on
+--
+-- Imported rates are restated against the business base currency. Days with
+-- no published rate (weekends and holidays) are filled with the previous
+-- published rate, marked with the date it was carried from.
+--
+-- Each import is recorded in exchange_rate_imports, and each journal records
+-- the exchange rate row it was converted with, so the rate behind any
+-- converted journal can be traced to the file or feed it came from.
+
+-- =====================================================
+-- STEP 1: Rate sources
+-- =====================================================
+
+ALTER TABLE exchange_rates DROP CONSTRAINT IF EXISTS exchange_rates_source_check;
+ALTER TABLE exchange_rates ADD CONSTRAINT exchange_rates_source_check
+  CHECK (source IN ('manual', 'api', 'bank', 'import'));
+
+-- =====================================================
+-- STEP 2: Imports
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS exchange_rate_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  provider text NOT NULL CHECK (provider IN ('csv', 'boc', 'ecb')),
+  trigger_source text NOT NULL CHECK (trigger_source IN ('upload', 'fetch', 'scheduled')),
+  file_name text,
+  source_url text,
+
+  status text NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  start_date date,
+  end_date date,
+  rates_imported integer NOT NULL DEFAULT 0,
+  rates_filled integer NOT NULL DEFAULT 0,
+  -- Currencies in the file that could not be quoted in the base currency
+  skipped_currencies text[] NOT NULL DEFAULT '{}',
+  error_message text,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rate_imports_business
+  ON exchange_rate_imports(business_id, created_at DESC);
+
+ALTER TABLE exchange_rates
+  ADD COLUMN IF NOT EXISTS provider text CHECK (provider IN ('csv', 'boc', 'ecb')),
+  ADD COLUMN IF NOT EXISTS import_id uuid REFERENCES exchange_rate_imports(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS filled_from_date date;
+
+-- =====================================================
+-- STEP 3: Provider settings
+-- =====================================================
+
+ALTER TABLE business_accounting_settings
+  ADD COLUMN IF NOT EXISTS rate_provider text CHECK (rate_provider IN ('boc', 'ecb')),
+  ADD COLUMN IF NOT EXISTS rate_provider_url text,
+  ADD COLUMN IF NOT EXISTS rate_auto_import boolean NOT NULL DEFAULT false;
+
+-- =====================================================
+-- STEP 4: Journal rate audit
+-- =====================================================
+
+ALTER TABLE gl_journals
+  ADD COLUMN IF NOT EXISTS exchange_rate_id uuid REFERENCES exchange_rates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS exchange_rate_inverted boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_gl_journals_exchange_rate
+  ON gl_journals(exchange_rate_id)
+  WHERE exchange_rate_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 5: RLS
+-- =====================================================
+
+ALTER TABLE exchange_rate_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view exchange rate imports"
+  ON exchange_rate_imports FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Accounting managers can manage exchange rate imports"
+  ON exchange_rate_imports FOR ALL
+  TO authenticated
+  USING (can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+-- =====================================================
+-- STEP 6: Comments
+-- =====================================================
+
+COMMENT ON TABLE exchange_rate_imports IS 'Exchange rate files uploaded or downloaded for a business';
+COMMENT ON COLUMN exchange_rates.provider IS 'Provider whose format the rate was imported from; null for rates entered by hand';
+COMMENT ON COLUMN exchange_rates.filled_from_date IS 'For rates filled over weekends and holidays, the published date the rate was carried forward from';
+COMMENT ON COLUMN business_accounting_settings.rate_provider IS 'Feed used for downloaded and scheduled rate imports';
+COMMENT ON COLUMN business_accounting_settings.rate_provider_url IS 'Overrides the provider''s published feed URL; must be https on the provider''s own host';
+COMMENT ON COLUMN business_accounting_settings.rate_auto_import IS 'Download rates from the provider daily in the scheduled job run';
+COMMENT ON COLUMN gl_journals.exchange_rate_id IS 'Exchange rate the journal was converted to base currency with';
+COMMENT ON COLUMN gl_journals.exchange_rate_inverted IS 'True when the journal used the inverse of exchange_rate_id';
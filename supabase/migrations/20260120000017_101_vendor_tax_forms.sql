@@ -0,0 +1,153 @@
+-- =====================================================
+-- Vendor Tax Forms
+-- Migration: 101_vendor_tax_forms.sql
+--
+-- Year-end 1099 and T5018 workflow:
+-- - Payer (filer) details for the IRS FIRE file and the CRA T5018 XML return
+-- - Each form keeps a snapshot of the recipient's name, TIN and address as
+--   generated, so a filed form does not change when the vendor is edited
+-- - Corrections: a sent or filed form is never regenerated in place. A
+--   correction is issued instead and filed as a corrected/amended return
+-- - Every status change is recorded in vendor_tax_form_history
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Payer details
+-- =====================================================
+
+ALTER TABLE business_accounting_settings
+  ADD COLUMN IF NOT EXISTS tax_payer_name text,
+  ADD COLUMN IF NOT EXISTS irs_payer_tin text,
+  ADD COLUMN IF NOT EXISTS irs_transmitter_control_code text,
+  ADD COLUMN IF NOT EXISTS cra_payer_account text,
+  ADD COLUMN IF NOT EXISTS cra_transmitter_number text,
+  ADD COLUMN IF NOT EXISTS tax_contact_name text,
+  ADD COLUMN IF NOT EXISTS tax_contact_phone text,
+  ADD COLUMN IF NOT EXISTS tax_contact_email text;
+
+-- Canadian individuals are reported on the T5018 by social insurance number
+ALTER TABLE vendors DROP CONSTRAINT IF EXISTS vendors_tax_id_type_check;
+ALTER TABLE vendors ADD CONSTRAINT vendors_tax_id_type_check
+  CHECK (tax_id_type IN ('bn', 'gst', 'ein', 'ssn', 'sin', 'vat', 'abn', 'other'));
+
+-- =====================================================
+-- STEP 2: Form tracking
+-- =====================================================
+
+ALTER TABLE vendor_tax_forms
+  ADD COLUMN IF NOT EXISTS payment_count integer NOT NULL DEFAULT 0,
+  -- Recipient name, TIN and address at the time the form was generated
+  ADD COLUMN IF NOT EXISTS recipient jsonb,
+  ADD COLUMN IF NOT EXISTS sent_method text CHECK (sent_method IN ('mail', 'email', 'portal')),
+  ADD COLUMN IF NOT EXISTS filing_reference text,
+  ADD COLUMN IF NOT EXISTS correction_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS corrected_at timestamptz,
+  ADD COLUMN IF NOT EXISTS correction_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_vendor_tax_forms_status
+  ON vendor_tax_forms(business_id, tax_year, status);
+
+-- =====================================================
+-- STEP 3: History
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS vendor_tax_form_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tax_form_id uuid NOT NULL REFERENCES vendor_tax_forms(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+  from_status text,
+  to_status text NOT NULL,
+  -- Amounts and recipient as they stood after the change
+  total_payments_cents bigint NOT NULL DEFAULT 0,
+  box_amounts jsonb DEFAULT '{}',
+  recipient jsonb,
+  note text,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_tax_form_history_form
+  ON vendor_tax_form_history(tax_form_id, created_at);
+
+-- =====================================================
+-- STEP 4: Filing exports
+-- =====================================================
+
+ALTER TABLE gl_export_history DROP CONSTRAINT IF EXISTS gl_export_history_export_format_check;
+ALTER TABLE gl_export_history ADD CONSTRAINT gl_export_history_export_format_check
+  CHECK (export_format IN (
+    'quickbooks_iif', 'quickbooks_csv', 'quickbooks_online',
+    'sage_csv', 'simply_csv',
+    'oracle_xml', 'sap_xml',
+    'saft_xml',
+    'irs_fire', 'cra_xml',
+    'csv', 'json', 'excel', 'pdf'
+  ));
+
+-- =====================================================
+-- STEP 5: RLS
+-- =====================================================
+
+ALTER TABLE vendor_tax_form_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view vendor tax form history"
+  ON vendor_tax_form_history FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accounting_permissions ap
+        WHERE ap.user_id = auth.uid()
+        AND ap.business_id = b.id
+        AND ap.can_export_tax_forms = true
+      )
+    )
+  );
+
+CREATE POLICY "Authorized users can record vendor tax form history"
+  ON vendor_tax_form_history FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin', 'accounting')
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accounting_permissions ap
+        WHERE ap.user_id = auth.uid()
+        AND ap.business_id = b.id
+        AND ap.can_export_tax_forms = true
+      )
+    )
+  );
+
+-- =====================================================
+-- STEP 6: Comments
+-- =====================================================
+
+COMMENT ON COLUMN business_accounting_settings.tax_payer_name IS 'Payer name on tax forms; defaults to the business legal name';
+COMMENT ON COLUMN business_accounting_settings.irs_payer_tin IS 'Payer EIN for 1099 forms and the IRS FIRE file';
+COMMENT ON COLUMN business_accounting_settings.irs_transmitter_control_code IS 'IRS FIRE Transmitter Control Code (TCC)';
+COMMENT ON COLUMN business_accounting_settings.cra_payer_account IS 'CRA RZ program account for T5018, e.g. 123456789RZ0001';
+COMMENT ON COLUMN business_accounting_settings.cra_transmitter_number IS 'CRA transmitter number for XML filing, e.g. MM123456';
+COMMENT ON COLUMN vendor_tax_forms.recipient IS 'Recipient name, TIN and address as generated on the form';
+COMMENT ON COLUMN vendor_tax_forms.filing_reference IS 'FIRE receipt or CRA confirmation number for the last filing';
+COMMENT ON COLUMN vendor_tax_forms.correction_count IS 'Number of corrections issued after the form was sent or filed';
+COMMENT ON TABLE vendor_tax_form_history IS 'Status changes for vendor tax forms, with the amounts and recipient at each change';
@@ -0,0 +1,161 @@
+-- =====================================================
+-- Fiscal Period Close
+-- Migration: 102_period_close.sql
+--
+-- Guided period close:
+-- - A period being closed is in the 'closing' state, which blocks posting
+--   while the close checklist is reviewed
+-- - The year-end closing journal moves revenue and expense balances into
+--   retained earnings. Its ledger rows are flagged so income statements and
+--   budget actuals leave them out
+-- - Every close, reopen and year-end close is recorded with who did it and why
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Closing journals
+-- =====================================================
+
+ALTER TABLE gl_journals DROP CONSTRAINT IF EXISTS gl_journals_source_type_check;
+ALTER TABLE gl_journals ADD CONSTRAINT gl_journals_source_type_check CHECK (source_type IN (
+  'manual', 'rent_payment', 'expense', 'security_deposit',
+  'late_fee', 'refund', 'transfer', 'depreciation',
+  'bank_fee', 'interest', 'adjustment', 'import',
+  'reversal', 'special_transaction', 'vendor_bill', 'bill_payment',
+  'rent_charge', 'expense_payment', 'fx_revaluation',
+  'year_end_close'
+));
+
+ALTER TABLE gl_ledger
+  ADD COLUMN IF NOT EXISTS is_closing_entry boolean NOT NULL DEFAULT false;
+
+-- =====================================================
+-- STEP 2: Close and reopen history
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS fiscal_period_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  period_id uuid NOT NULL REFERENCES fiscal_periods(id) ON DELETE CASCADE,
+
+  action text NOT NULL CHECK (action IN (
+    'start_close', 'cancel_close', 'close', 'reopen', 'year_end_close'
+  )),
+  from_status text,
+  to_status text NOT NULL,
+  reason text,
+  -- Checklist items still open when the action was taken
+  checklist jsonb,
+  journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fiscal_period_events_period
+  ON fiscal_period_events(period_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_fiscal_period_events_business
+  ON fiscal_period_events(business_id, created_at);
+
+-- =====================================================
+-- STEP 3: RLS
+-- =====================================================
+
+-- Users allowed to reopen periods need to update them too
+DROP POLICY IF EXISTS "Authorized users can manage fiscal periods" ON fiscal_periods;
+
+CREATE POLICY "Authorized users can manage fiscal periods"
+  ON fiscal_periods FOR ALL
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin')
+        AND om.is_active = true
+      )
+    )
+    OR EXISTS (
+      SELECT 1 FROM accounting_permissions ap
+      WHERE ap.user_id = auth.uid()
+      AND ap.business_id = fiscal_periods.business_id
+      AND (ap.can_close_periods = true OR ap.can_reopen_periods = true)
+    )
+  )
+  WITH CHECK (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin')
+        AND om.is_active = true
+      )
+    )
+    OR EXISTS (
+      SELECT 1 FROM accounting_permissions ap
+      WHERE ap.user_id = auth.uid()
+      AND ap.business_id = fiscal_periods.business_id
+      AND (ap.can_close_periods = true OR ap.can_reopen_periods = true)
+    )
+  );
+
+ALTER TABLE fiscal_period_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view fiscal period events"
+  ON fiscal_period_events FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+CREATE POLICY "Authorized users can record fiscal period events"
+  ON fiscal_period_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.role IN ('owner', 'admin')
+        AND om.is_active = true
+      )
+    )
+    OR EXISTS (
+      SELECT 1 FROM accounting_permissions ap
+      WHERE ap.user_id = auth.uid()
+      AND ap.business_id = fiscal_period_events.business_id
+      AND (ap.can_close_periods = true OR ap.can_reopen_periods = true)
+    )
+  );
+
+-- =====================================================
+-- STEP 4: Comments
+-- =====================================================
+
+COMMENT ON COLUMN gl_ledger.is_closing_entry IS 'Posted by a year-end closing journal; left out of income statements';
+COMMENT ON TABLE fiscal_period_events IS 'Close, reopen and year-end close history for fiscal periods, with who and why';
+COMMENT ON COLUMN fiscal_period_events.checklist IS 'Close checklist items still open when the action was taken';
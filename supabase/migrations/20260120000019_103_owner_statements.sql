@@ -0,0 +1,232 @@
+-- =====================================================
+-- Owner Statements and Distributions
+-- Migration: 103_owner_statements.sql
+--
+-- Monthly statements for property owners:
+-- - Management terms per property: a percentage of collected income or a
+--   flat monthly fee, and a reserve held back from distributions
+-- - One statement per owner, month and currency. Each line is one property,
+--   with the owner's share by ownership percentage, the reserve held and any
+--   shortfall carried forward to the next month
+-- - Publishing posts the distribution journal and shows the statement in the
+--   owner portal. A published statement is voided, not edited
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Management terms
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS property_management_terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+
+  fee_type text NOT NULL DEFAULT 'percentage' CHECK (fee_type IN ('percentage', 'flat', 'none')),
+  -- Percentage of collected income, for percentage fees
+  fee_percentage numeric(5,2) NOT NULL DEFAULT 0 CHECK (fee_percentage >= 0 AND fee_percentage <= 100),
+  -- Monthly amount, for flat fees
+  fee_flat_cents bigint NOT NULL DEFAULT 0 CHECK (fee_flat_cents >= 0),
+  -- Reserve kept back from the owners' distributions
+  reserve_target_cents bigint NOT NULL DEFAULT 0 CHECK (reserve_target_cents >= 0),
+
+  notes text,
+  updated_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE(property_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_management_terms_business
+  ON property_management_terms(business_id);
+
+-- =====================================================
+-- STEP 2: Statements
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS owner_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES property_owners(id) ON DELETE CASCADE,
+
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  currency_code text NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'void')),
+
+  -- Owner's share, summed over the lines
+  income_cents bigint NOT NULL DEFAULT 0,
+  expense_cents bigint NOT NULL DEFAULT 0,
+  management_fee_cents bigint NOT NULL DEFAULT 0,
+  reserve_change_cents bigint NOT NULL DEFAULT 0,
+  reserve_balance_cents bigint NOT NULL DEFAULT 0,
+  opening_balance_cents bigint NOT NULL DEFAULT 0,
+  closing_balance_cents bigint NOT NULL DEFAULT 0,
+  distribution_cents bigint NOT NULL DEFAULT 0,
+
+  journal_id uuid REFERENCES gl_journals(id) ON DELETE SET NULL,
+  published_at timestamptz,
+  published_by uuid REFERENCES auth.users(id),
+  voided_at timestamptz,
+  voided_by uuid REFERENCES auth.users(id),
+  void_reason text,
+
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_owner_statement_period CHECK (period_end >= period_start)
+);
+
+-- Voided statements are kept; only one live statement per owner and month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_owner_statements_unique
+  ON owner_statements(business_id, owner_id, period_start, currency_code)
+  WHERE status <> 'void';
+CREATE INDEX IF NOT EXISTS idx_owner_statements_owner
+  ON owner_statements(owner_id, period_start DESC);
+CREATE INDEX IF NOT EXISTS idx_owner_statements_business
+  ON owner_statements(business_id, period_start DESC);
+
+CREATE TABLE IF NOT EXISTS owner_statement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  statement_id uuid NOT NULL REFERENCES owner_statements(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE SET NULL,
+  -- Property name as stated, for the owner portal
+  property_name text NOT NULL,
+
+  ownership_percentage numeric(5,2) NOT NULL,
+  -- Whole-property amounts for the month
+  gross_income_cents bigint NOT NULL DEFAULT 0,
+  gross_expense_cents bigint NOT NULL DEFAULT 0,
+  gross_management_fee_cents bigint NOT NULL DEFAULT 0,
+
+  -- Owner's share
+  income_cents bigint NOT NULL DEFAULT 0,
+  expense_cents bigint NOT NULL DEFAULT 0,
+  management_fee_cents bigint NOT NULL DEFAULT 0,
+  -- Shortfall brought forward from the previous statement (zero or negative)
+  opening_balance_cents bigint NOT NULL DEFAULT 0,
+  -- Positive when held back, negative when released to cover a shortfall
+  reserve_change_cents bigint NOT NULL DEFAULT 0,
+  reserve_balance_cents bigint NOT NULL DEFAULT 0,
+  -- Shortfall carried to the next statement (zero or negative)
+  closing_balance_cents bigint NOT NULL DEFAULT 0,
+  distribution_cents bigint NOT NULL DEFAULT 0 CHECK (distribution_cents >= 0),
+
+  -- Income and expense items making up the gross amounts
+  details jsonb NOT NULL DEFAULT '{}',
+
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_owner_statement_lines_statement
+  ON owner_statement_lines(statement_id);
+CREATE INDEX IF NOT EXISTS idx_owner_statement_lines_property
+  ON owner_statement_lines(property_id);
+
+-- =====================================================
+-- STEP 3: Distribution journals
+-- =====================================================
+
+ALTER TABLE gl_journals DROP CONSTRAINT IF EXISTS gl_journals_source_type_check;
+ALTER TABLE gl_journals ADD CONSTRAINT gl_journals_source_type_check CHECK (source_type IN (
+  'manual', 'rent_payment', 'expense', 'security_deposit',
+  'late_fee', 'refund', 'transfer', 'depreciation',
+  'bank_fee', 'interest', 'adjustment', 'import',
+  'reversal', 'special_transaction', 'vendor_bill', 'bill_payment',
+  'rent_charge', 'expense_payment', 'fx_revaluation',
+  'year_end_close', 'owner_distribution'
+));
+
+-- =====================================================
+-- STEP 4: RLS
+-- =====================================================
+
+ALTER TABLE property_management_terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE owner_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE owner_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view property management terms"
+  ON property_management_terms FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Managers can manage property management terms"
+  ON property_management_terms FOR ALL
+  TO authenticated
+  USING (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_properties(business_id) OR can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view owner statements"
+  ON owner_statements FOR SELECT
+  TO authenticated
+  USING (
+    business_id IN (
+      SELECT b.id FROM businesses b
+      WHERE b.owner_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = b.organization_id
+        AND om.user_id = auth.uid()
+        AND om.is_active = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM accountant_assignments aa
+        WHERE aa.user_id = auth.uid()
+        AND aa.is_active = true
+        AND (aa.business_id = b.id OR aa.organization_id = b.organization_id)
+      )
+    )
+  );
+
+CREATE POLICY "Property owners can view their published statements"
+  ON owner_statements FOR SELECT
+  TO authenticated
+  USING (
+    status = 'published'
+    AND owner_id IN (
+      SELECT po.id FROM property_owners po
+      WHERE po.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers can manage owner statements"
+  ON owner_statements FOR ALL
+  TO authenticated
+  USING (can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+CREATE POLICY "Users can view owner statement lines"
+  ON owner_statement_lines FOR SELECT
+  TO authenticated
+  USING (
+    statement_id IN (SELECT os.id FROM owner_statements os)
+  );
+
+CREATE POLICY "Managers can manage owner statement lines"
+  ON owner_statement_lines FOR ALL
+  TO authenticated
+  USING (can_manage_business_accounting(business_id))
+  WITH CHECK (can_manage_business_accounting(business_id));
+
+-- =====================================================
+-- STEP 5: Comments
+-- =====================================================
+
+COMMENT ON TABLE property_management_terms IS 'Management fee and reserve terms used for owner statements';
+COMMENT ON COLUMN property_management_terms.reserve_target_cents IS 'Amount held back from the owners of the property, shared by ownership percentage';
+COMMENT ON TABLE owner_statements IS 'Monthly owner statements; publishing posts the distribution journal and shows the statement in the owner portal';
+COMMENT ON TABLE owner_statement_lines IS 'Owner''s share of one property''s income, expenses, fees and reserve for the statement month';
+COMMENT ON COLUMN owner_statement_lines.details IS 'Income and expense items for the property in the statement month';
@@ -0,0 +1,400 @@
+-- =====================================================
+-- Agreement Signature Integrity
+-- Migration: 104_agreement_signature_integrity.sql
+--
+-- Makes signed agreements tamper-evident:
+-- - Each signature stores the SHA-256 hash of the agreement content that was
+--   signed, with the signer's IP address, user agent and server timestamp
+-- - Signing is rejected if the content changed since the signer reviewed it,
+--   and the content can no longer be edited once anyone has signed
+-- - verify_agreement_integrity() re-hashes the content and reports whether it
+--   still matches every signature. It can also check a copy of the signed PDF
+-- - The signed PDF (both signatures and a certificate of completion) is
+--   generated by the generate-signed-agreement-pdf edge function once the
+--   agreement is executed, stored in the private signed-agreements bucket and
+--   attached once, with its hash
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Hash columns
+-- =====================================================
+
+ALTER TABLE agreement_signatures
+  ADD COLUMN IF NOT EXISTS content_hash text;
+
+ALTER TABLE lease_agreements
+  ADD COLUMN IF NOT EXISTS content_hash text,
+  ADD COLUMN IF NOT EXISTS signed_pdf_path text,
+  ADD COLUMN IF NOT EXISTS signed_pdf_hash text,
+  ADD COLUMN IF NOT EXISTS signed_pdf_generated_at timestamptz;
+
+-- Tenants and landlords can see the history of their own agreements; it is
+-- printed on the certificate of completion
+CREATE POLICY "Agreement parties can view audit log"
+  ON agreement_audit_log FOR SELECT
+  TO authenticated
+  USING (
+    agreement_id IN (
+      SELECT la.id FROM lease_agreements la
+      WHERE la.tenant_email = (SELECT email FROM auth.users WHERE id = auth.uid())
+      OR la.landlord_email = (SELECT email FROM auth.users WHERE id = auth.uid())
+    )
+  );
+
+-- =====================================================
+-- STEP 2: Lock signed content
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION agreement_content_hash(p_content text)
+RETURNS text AS $$
+  SELECT encode(sha256(convert_to(COALESCE(p_content, ''), 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION prevent_signed_agreement_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.final_content IS DISTINCT FROM OLD.final_content
+    AND EXISTS (SELECT 1 FROM agreement_signatures WHERE agreement_id = OLD.id) THEN
+    RAISE EXCEPTION 'Agreement % has been signed and its content can no longer be changed', OLD.id;
+  END IF;
+
+  IF OLD.signed_pdf_path IS NOT NULL
+    AND (NEW.signed_pdf_path IS DISTINCT FROM OLD.signed_pdf_path
+      OR NEW.signed_pdf_hash IS DISTINCT FROM OLD.signed_pdf_hash) THEN
+    RAISE EXCEPTION 'The signed PDF of agreement % can no longer be changed', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_signed_agreement_changes ON lease_agreements;
+CREATE TRIGGER prevent_signed_agreement_changes
+  BEFORE UPDATE ON lease_agreements
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_signed_agreement_changes();
+
+-- =====================================================
+-- STEP 3: Signing
+-- =====================================================
+
+-- Client IP and user agent from the PostgREST request headers. The platform
+-- proxy appends the address it received the request from to X-Forwarded-For,
+-- so only the last entry can be trusted; earlier ones are whatever the client
+-- sent.
+CREATE OR REPLACE FUNCTION agreement_request_client()
+RETURNS jsonb AS $$
+DECLARE
+  v_headers json;
+  v_ip text;
+BEGIN
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  EXCEPTION WHEN others THEN
+    v_headers := NULL;
+  END;
+
+  v_ip := NULLIF(trim(regexp_replace(COALESCE(v_headers ->> 'x-forwarded-for', ''), '^.*,', '')), '');
+  v_ip := COALESCE(v_ip, v_headers ->> 'x-real-ip', inet_client_addr()::text);
+
+  RETURN jsonb_build_object('ip', v_ip, 'user_agent', v_headers ->> 'user-agent');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Return type changes from void to jsonb
+DROP FUNCTION IF EXISTS sign_agreement(uuid, text, text, text);
+
+CREATE OR REPLACE FUNCTION sign_agreement(
+  p_agreement_id uuid,
+  p_signer_type text,
+  p_signature_data text,
+  p_signature_method text DEFAULT 'digital',
+  -- Hash of the content the signer reviewed
+  p_content_hash text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_agreement lease_agreements%ROWTYPE;
+  v_user_email text;
+  v_user_name text;
+  v_content_hash text;
+  v_client jsonb := agreement_request_client();
+  v_ip text := v_client ->> 'ip';
+  v_user_agent text := v_client ->> 'user_agent';
+  v_signed_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agreement % not found', p_agreement_id;
+  END IF;
+
+  IF v_agreement.status NOT IN ('sent', 'viewed', 'signed') THEN
+    RAISE EXCEPTION 'Agreement % cannot be signed while it is %', p_agreement_id, v_agreement.status;
+  END IF;
+
+  IF p_signer_type NOT IN ('landlord', 'tenant') THEN
+    RAISE EXCEPTION 'Invalid signer type %', p_signer_type;
+  END IF;
+
+  SELECT email INTO v_user_email FROM auth.users WHERE id = auth.uid();
+
+  IF p_signer_type = 'landlord' THEN
+    IF v_agreement.landlord_signed THEN
+      RAISE EXCEPTION 'The landlord has already signed this agreement';
+    END IF;
+    IF lower(COALESCE(v_user_email, '')) <> lower(v_agreement.landlord_email)
+      AND NOT EXISTS (
+        SELECT 1 FROM businesses
+        WHERE id = v_agreement.business_id AND owner_user_id = auth.uid()
+      ) THEN
+      RAISE EXCEPTION 'Only the landlord can sign as landlord';
+    END IF;
+    v_user_name := v_agreement.landlord_name;
+  ELSE
+    IF v_agreement.tenant_signed THEN
+      RAISE EXCEPTION 'The tenant has already signed this agreement';
+    END IF;
+    IF lower(COALESCE(v_user_email, '')) <> lower(v_agreement.tenant_email) THEN
+      RAISE EXCEPTION 'Only the tenant can sign as tenant';
+    END IF;
+    v_user_name := v_agreement.tenant_name;
+  END IF;
+
+  v_content_hash := agreement_content_hash(v_agreement.final_content);
+
+  IF p_content_hash IS NOT NULL AND lower(p_content_hash) <> v_content_hash THEN
+    RAISE EXCEPTION 'The agreement changed after it was opened. Reload it and review it again before signing';
+  END IF;
+
+  INSERT INTO agreement_signatures (
+    agreement_id,
+    signer_id,
+    signer_type,
+    signer_name,
+    signer_email,
+    signer_ip,
+    signature_data,
+    signature_method,
+    signed_at,
+    user_agent,
+    content_hash
+  ) VALUES (
+    p_agreement_id,
+    auth.uid(),
+    p_signer_type,
+    v_user_name,
+    v_user_email,
+    v_ip,
+    p_signature_data,
+    p_signature_method,
+    v_signed_at,
+    v_user_agent,
+    v_content_hash
+  );
+
+  IF p_signer_type = 'landlord' THEN
+    UPDATE lease_agreements
+    SET
+      landlord_signed = true,
+      landlord_signed_at = v_signed_at,
+      landlord_signature_data = p_signature_data,
+      updated_at = now()
+    WHERE id = p_agreement_id;
+  ELSE
+    UPDATE lease_agreements
+    SET
+      tenant_signed = true,
+      tenant_signed_at = v_signed_at,
+      tenant_signature_data = p_signature_data,
+      updated_at = now()
+    WHERE id = p_agreement_id;
+  END IF;
+
+  INSERT INTO agreement_audit_log (
+    agreement_id, action_type, action_by, action_by_name, action_by_email,
+    notes, changes, ip_address, user_agent, created_at
+  ) VALUES (
+    p_agreement_id, 'signed', auth.uid(), v_user_name, v_user_email,
+    p_signer_type || ' signed',
+    jsonb_build_object('signer_type', p_signer_type, 'signature_method', p_signature_method, 'content_hash', v_content_hash),
+    v_ip, v_user_agent, v_signed_at
+  );
+
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id;
+
+  IF v_agreement.landlord_signed AND v_agreement.tenant_signed THEN
+    UPDATE lease_agreements
+    SET
+      status = 'executed',
+      signed_at = v_signed_at,
+      executed_at = v_signed_at,
+      content_hash = v_content_hash,
+      updated_at = now()
+    WHERE id = p_agreement_id;
+
+    INSERT INTO agreement_audit_log (
+      agreement_id, action_type, action_by, action_by_name, action_by_email,
+      old_status, new_status, changes, ip_address, user_agent, created_at
+    ) VALUES (
+      p_agreement_id, 'executed', auth.uid(), v_user_name, v_user_email,
+      v_agreement.status, 'executed',
+      jsonb_build_object('content_hash', v_content_hash),
+      v_ip, v_user_agent, v_signed_at
+    );
+
+    v_agreement.status := 'executed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_agreement.status,
+    'content_hash', v_content_hash,
+    'signed_at', v_signed_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- STEP 4: Verification
+-- =====================================================
+
+-- Anyone holding the agreement link can check it. Only hashes, signer names
+-- and dates are returned, never the content
+CREATE OR REPLACE FUNCTION verify_agreement_integrity(
+  p_agreement_id uuid,
+  -- Hash of a copy of the signed PDF to compare with the one on file
+  p_document_hash text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_agreement lease_agreements%ROWTYPE;
+  v_current_hash text;
+  v_signatures jsonb;
+  v_signed_count integer;
+  v_match_count integer;
+  v_unhashed_count integer;
+  v_status text;
+BEGIN
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agreement % not found', p_agreement_id;
+  END IF;
+
+  v_current_hash := agreement_content_hash(v_agreement.final_content);
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'signer_type', s.signer_type,
+      'signer_name', s.signer_name,
+      'signed_at', s.signed_at,
+      'content_hash', s.content_hash,
+      'matches', CASE WHEN s.content_hash IS NULL THEN NULL ELSE s.content_hash = v_current_hash END
+    ) ORDER BY s.signed_at), '[]'::jsonb),
+    count(*),
+    count(*) FILTER (WHERE s.content_hash = v_current_hash),
+    count(*) FILTER (WHERE s.content_hash IS NULL)
+  INTO v_signatures, v_signed_count, v_match_count, v_unhashed_count
+  FROM agreement_signatures s
+  WHERE s.agreement_id = p_agreement_id;
+
+  v_status := CASE
+    WHEN v_signed_count = 0 THEN 'unsigned'
+    WHEN v_match_count + v_unhashed_count < v_signed_count THEN 'tampered'
+    WHEN v_agreement.content_hash IS NOT NULL AND v_agreement.content_hash <> v_current_hash THEN 'tampered'
+    WHEN v_unhashed_count > 0 THEN 'unverified'
+    ELSE 'intact'
+  END;
+
+  RETURN jsonb_build_object(
+    'agreement_id', v_agreement.id,
+    'agreement_title', v_agreement.agreement_title,
+    'agreement_status', v_agreement.status,
+    'executed_at', v_agreement.executed_at,
+    'status', v_status,
+    'is_intact', v_status = 'intact',
+    'content_hash', v_current_hash,
+    'executed_content_hash', v_agreement.content_hash,
+    'signatures', v_signatures,
+    'signed_pdf_hash', v_agreement.signed_pdf_hash,
+    'document_hash', lower(p_document_hash),
+    'document_matches', CASE
+      WHEN p_document_hash IS NULL OR v_agreement.signed_pdf_hash IS NULL THEN NULL
+      ELSE lower(p_document_hash) = v_agreement.signed_pdf_hash
+    END,
+    'verified_at', now()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION verify_agreement_integrity(uuid, text) TO anon, authenticated;
+
+-- =====================================================
+-- STEP 5: Signed PDF
+-- =====================================================
+
+-- Signed PDFs are only written by the edge function with the service role;
+-- parties download them through short-lived signed URLs it creates
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('signed-agreements', 'signed-agreements', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Called by generate-signed-agreement-pdf, which checks that the requester is
+-- a party to the agreement before it builds the PDF
+CREATE OR REPLACE FUNCTION attach_signed_agreement_pdf(
+  p_agreement_id uuid,
+  p_pdf_path text,
+  p_pdf_hash text,
+  p_requested_by uuid DEFAULT NULL,
+  p_requested_by_email text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_agreement lease_agreements%ROWTYPE;
+BEGIN
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agreement % not found', p_agreement_id;
+  END IF;
+
+  IF v_agreement.status <> 'executed' THEN
+    RAISE EXCEPTION 'Agreement % is not executed', p_agreement_id;
+  END IF;
+
+  -- The first signed PDF is the record; it is never replaced
+  IF v_agreement.signed_pdf_path IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE lease_agreements
+  SET
+    signed_pdf_path = p_pdf_path,
+    signed_pdf_hash = lower(p_pdf_hash),
+    signed_pdf_generated_at = now(),
+    updated_at = now()
+  WHERE id = p_agreement_id;
+
+  INSERT INTO agreement_audit_log (
+    agreement_id, action_type, action_by, action_by_email, changes
+  ) VALUES (
+    p_agreement_id, 'signed_pdf_generated', p_requested_by, p_requested_by_email,
+    jsonb_build_object('signed_pdf_hash', lower(p_pdf_hash))
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION attach_signed_agreement_pdf(uuid, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION attach_signed_agreement_pdf(uuid, text, text, uuid, text) TO service_role;
+
+-- =====================================================
+-- STEP 6: Comments
+-- =====================================================
+
+COMMENT ON COLUMN agreement_signatures.content_hash IS 'SHA-256 (hex) of lease_agreements.final_content at the time of signing';
+COMMENT ON COLUMN lease_agreements.content_hash IS 'SHA-256 (hex) of final_content when the agreement was executed';
+COMMENT ON COLUMN lease_agreements.signed_pdf_path IS 'Path of the signed PDF in the signed-agreements storage bucket';
+COMMENT ON COLUMN lease_agreements.signed_pdf_hash IS 'SHA-256 (hex) of the signed PDF stored at signed_pdf_path';
+COMMENT ON FUNCTION verify_agreement_integrity(uuid, text) IS 'Re-hashes the agreement content and reports whether it still matches every signature';
@@ -0,0 +1,747 @@
+-- =====================================================
+-- Multi-Party Agreement Signing
+-- Migration: 105_agreement_signers.sql
+--
+-- Agreements are signed by a list of signers instead of only the landlord
+-- and tenant:
+-- - Each signer has a role (landlord, tenant, co-tenant, guarantor, witness),
+--   a signing order and a private signing link. Signers with the same order
+--   sign in parallel; a later group can sign once every required signer
+--   before it has
+-- - Signers sign through their link without an account; the landlord and
+--   tenant can also sign while logged in
+-- - The agreement is executed once every required signer has signed
+-- - Invitations and reminders are queued by the scheduled job runner
+--
+-- Existing agreements get landlord and tenant signers from their current
+-- signature state.
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Signers
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS agreement_signers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agreement_id uuid NOT NULL REFERENCES lease_agreements(id) ON DELETE CASCADE,
+
+  role text NOT NULL CHECK (role IN ('landlord', 'tenant', 'co_tenant', 'guarantor', 'witness')),
+  name text NOT NULL,
+  email text NOT NULL,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE SET NULL,
+  -- Signers with the same order sign in parallel; lower orders sign first
+  signing_order integer NOT NULL DEFAULT 1 CHECK (signing_order >= 1),
+  -- Optional signers (e.g. a witness) do not hold up execution
+  is_required boolean NOT NULL DEFAULT true,
+
+  -- Individual signing link: /agreement/<agreement_id>?signer=<token>
+  signing_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+
+  invited_at timestamptz,
+  viewed_at timestamptz,
+  signed_at timestamptz,
+  signature_id uuid REFERENCES agreement_signatures(id) ON DELETE SET NULL,
+  last_reminded_at timestamptz,
+  reminder_count integer NOT NULL DEFAULT 0,
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agreement_signers_agreement
+  ON agreement_signers(agreement_id, signing_order);
+CREATE INDEX IF NOT EXISTS idx_agreement_signers_email
+  ON agreement_signers(lower(email));
+
+-- The landlord and primary tenant mirror the agreement's own parties
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agreement_signers_primary_parties
+  ON agreement_signers(agreement_id, role)
+  WHERE role IN ('landlord', 'tenant');
+
+ALTER TABLE agreement_signatures DROP CONSTRAINT IF EXISTS agreement_signatures_signer_type_check;
+ALTER TABLE agreement_signatures ADD CONSTRAINT agreement_signatures_signer_type_check
+  CHECK (signer_type IN ('landlord', 'tenant', 'co_tenant', 'guarantor', 'witness'));
+
+DROP TRIGGER IF EXISTS update_agreement_signers_updated_at ON agreement_signers;
+CREATE TRIGGER update_agreement_signers_updated_at
+  BEFORE UPDATE ON agreement_signers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- STEP 2: Landlord and tenant signers
+-- =====================================================
+
+INSERT INTO agreement_signers (agreement_id, role, name, email, signing_order, invited_at, signed_at, signature_id)
+SELECT
+  la.id, 'landlord', la.landlord_name, la.landlord_email, 1, la.sent_at,
+  CASE WHEN la.landlord_signed THEN COALESCE(la.landlord_signed_at, la.updated_at) END,
+  (SELECT s.id FROM agreement_signatures s
+   WHERE s.agreement_id = la.id AND s.signer_type = 'landlord'
+   ORDER BY s.signed_at LIMIT 1)
+FROM lease_agreements la
+WHERE NOT EXISTS (
+  SELECT 1 FROM agreement_signers sg WHERE sg.agreement_id = la.id AND sg.role = 'landlord'
+);
+
+INSERT INTO agreement_signers (agreement_id, role, name, email, tenant_id, signing_order, invited_at, viewed_at, signed_at, signature_id)
+SELECT
+  la.id, 'tenant', la.tenant_name, la.tenant_email, la.tenant_id, 1, la.sent_at, la.viewed_at,
+  CASE WHEN la.tenant_signed THEN COALESCE(la.tenant_signed_at, la.updated_at) END,
+  (SELECT s.id FROM agreement_signatures s
+   WHERE s.agreement_id = la.id AND s.signer_type = 'tenant'
+   ORDER BY s.signed_at LIMIT 1)
+FROM lease_agreements la
+WHERE NOT EXISTS (
+  SELECT 1 FROM agreement_signers sg WHERE sg.agreement_id = la.id AND sg.role = 'tenant'
+);
+
+CREATE OR REPLACE FUNCTION create_default_agreement_signers()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO agreement_signers (agreement_id, role, name, email, tenant_id, signing_order)
+  VALUES
+    (NEW.id, 'tenant', NEW.tenant_name, NEW.tenant_email, NEW.tenant_id, 1),
+    (NEW.id, 'landlord', NEW.landlord_name, NEW.landlord_email, NULL, 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS create_default_agreement_signers ON lease_agreements;
+CREATE TRIGGER create_default_agreement_signers
+  AFTER INSERT ON lease_agreements
+  FOR EACH ROW
+  EXECUTE FUNCTION create_default_agreement_signers();
+
+-- Set the full signer list while nobody has signed. Landlord and tenant rows
+-- are kept (with their links) and take the agreement's names and emails; other
+-- signers are matched by id, added or removed.
+CREATE OR REPLACE FUNCTION set_agreement_signers(
+  p_agreement_id uuid,
+  -- [{id?, role, name, email, tenant_id?, signing_order, is_required}]
+  p_signers jsonb
+)
+RETURNS void AS $$
+DECLARE
+  v_agreement lease_agreements%ROWTYPE;
+  v_signer jsonb;
+  v_role text;
+  v_email text;
+  v_kept uuid[] := '{}';
+  v_id uuid;
+BEGIN
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM businesses b
+    WHERE b.id = v_agreement.business_id AND b.owner_user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Agreement % not found', p_agreement_id;
+  END IF;
+
+  IF v_agreement.status NOT IN ('draft', 'sent', 'viewed') THEN
+    RAISE EXCEPTION 'Signers cannot be changed while the agreement is %', v_agreement.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM agreement_signers WHERE agreement_id = p_agreement_id AND signed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Signers cannot be changed once someone has signed';
+  END IF;
+
+  IF (SELECT count(*) FROM jsonb_array_elements(p_signers) e WHERE e ->> 'role' = 'landlord') <> 1
+    OR (SELECT count(*) FROM jsonb_array_elements(p_signers) e WHERE e ->> 'role' = 'tenant') <> 1 THEN
+    RAISE EXCEPTION 'An agreement needs exactly one landlord and one tenant signer';
+  END IF;
+
+  FOR v_signer IN SELECT * FROM jsonb_array_elements(p_signers) LOOP
+    v_role := v_signer ->> 'role';
+    v_email := trim(COALESCE(v_signer ->> 'email', ''));
+
+    IF v_role IN ('landlord', 'tenant') THEN
+      UPDATE agreement_signers
+      SET
+        name = CASE WHEN v_role = 'landlord' THEN v_agreement.landlord_name ELSE v_agreement.tenant_name END,
+        email = CASE WHEN v_role = 'landlord' THEN v_agreement.landlord_email ELSE v_agreement.tenant_email END,
+        signing_order = GREATEST(COALESCE((v_signer ->> 'signing_order')::integer, 1), 1),
+        is_required = true
+      WHERE agreement_id = p_agreement_id AND role = v_role
+      RETURNING id INTO v_id;
+
+      IF v_id IS NULL THEN
+        INSERT INTO agreement_signers (agreement_id, role, name, email, tenant_id, signing_order)
+        VALUES (
+          p_agreement_id, v_role,
+          CASE WHEN v_role = 'landlord' THEN v_agreement.landlord_name ELSE v_agreement.tenant_name END,
+          CASE WHEN v_role = 'landlord' THEN v_agreement.landlord_email ELSE v_agreement.tenant_email END,
+          CASE WHEN v_role = 'tenant' THEN v_agreement.tenant_id END,
+          GREATEST(COALESCE((v_signer ->> 'signing_order')::integer, 1), 1)
+        )
+        RETURNING id INTO v_id;
+      END IF;
+    ELSE
+      IF v_role NOT IN ('co_tenant', 'guarantor', 'witness') THEN
+        RAISE EXCEPTION 'Invalid signer role %', v_role;
+      END IF;
+      IF trim(COALESCE(v_signer ->> 'name', '')) = '' OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RAISE EXCEPTION 'Each signer needs a name and a valid email address';
+      END IF;
+
+      v_id := NULL;
+      IF v_signer ? 'id' AND v_signer ->> 'id' IS NOT NULL THEN
+        UPDATE agreement_signers
+        SET
+          role = v_role,
+          name = trim(v_signer ->> 'name'),
+          -- A new email gets a new link; the old one stops working
+          signing_token = CASE WHEN lower(email) = lower(v_email) THEN signing_token
+            ELSE replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '') END,
+          invited_at = CASE WHEN lower(email) = lower(v_email) THEN invited_at END,
+          email = v_email,
+          tenant_id = NULLIF(v_signer ->> 'tenant_id', '')::uuid,
+          signing_order = GREATEST(COALESCE((v_signer ->> 'signing_order')::integer, 1), 1),
+          is_required = COALESCE((v_signer ->> 'is_required')::boolean, true)
+        WHERE id = (v_signer ->> 'id')::uuid AND agreement_id = p_agreement_id
+        RETURNING id INTO v_id;
+      END IF;
+
+      IF v_id IS NULL THEN
+        INSERT INTO agreement_signers (agreement_id, role, name, email, tenant_id, signing_order, is_required)
+        VALUES (
+          p_agreement_id, v_role, trim(v_signer ->> 'name'), v_email,
+          NULLIF(v_signer ->> 'tenant_id', '')::uuid,
+          GREATEST(COALESCE((v_signer ->> 'signing_order')::integer, 1), 1),
+          COALESCE((v_signer ->> 'is_required')::boolean, true)
+        )
+        RETURNING id INTO v_id;
+      END IF;
+    END IF;
+
+    v_kept := v_kept || v_id;
+  END LOOP;
+
+  DELETE FROM agreement_signers
+  WHERE agreement_id = p_agreement_id AND NOT (id = ANY(v_kept));
+
+  INSERT INTO agreement_audit_log (agreement_id, action_type, action_by, changes)
+  VALUES (
+    p_agreement_id, 'signers_updated', auth.uid(),
+    jsonb_build_object('signers', (
+      SELECT jsonb_agg(jsonb_build_object('role', role, 'name', name, 'email', email,
+        'signing_order', signing_order, 'is_required', is_required) ORDER BY signing_order, created_at)
+      FROM agreement_signers WHERE agreement_id = p_agreement_id
+    ))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- STEP 3: Signing
+-- =====================================================
+
+-- Client IP and user agent from the PostgREST request headers
+CREATE OR REPLACE FUNCTION agreement_request_client()
+RETURNS jsonb AS $$
+DECLARE
+  v_headers json;
+  v_ip text;
+BEGIN
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  EXCEPTION WHEN others THEN
+    v_headers := NULL;
+  END;
+
+  v_ip := NULLIF(trim(split_part(COALESCE(v_headers ->> 'x-forwarded-for', ''), ',', 1)), '');
+  v_ip := COALESCE(v_ip, v_headers ->> 'x-real-ip', inet_client_addr()::text);
+
+  RETURN jsonb_build_object('ip', v_ip, 'user_agent', v_headers ->> 'user-agent');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The signer the caller acts as: by signing link, or by the logged-in user's
+-- email. The business owner acts as the landlord.
+CREATE OR REPLACE FUNCTION resolve_agreement_signer(p_agreement_id uuid, p_token text)
+RETURNS agreement_signers AS $$
+DECLARE
+  v_signer agreement_signers%ROWTYPE;
+  v_email text;
+BEGIN
+  IF p_token IS NOT NULL THEN
+    SELECT * INTO v_signer FROM agreement_signers
+    WHERE agreement_id = p_agreement_id AND signing_token = p_token;
+    RETURN v_signer;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN v_signer;
+  END IF;
+
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+
+  SELECT * INTO v_signer FROM agreement_signers
+  WHERE agreement_id = p_agreement_id AND lower(email) = lower(v_email)
+  ORDER BY signed_at IS NOT NULL, signing_order
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT s.* INTO v_signer
+    FROM agreement_signers s
+    JOIN lease_agreements la ON la.id = s.agreement_id
+    JOIN businesses b ON b.id = la.business_id
+    WHERE s.agreement_id = p_agreement_id
+    AND s.role = 'landlord'
+    AND b.owner_user_id = auth.uid();
+  END IF;
+
+  RETURN v_signer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Names of required signers who must sign before this one
+CREATE OR REPLACE FUNCTION agreement_signer_waiting_on(p_signer_id uuid)
+RETURNS text AS $$
+  SELECT string_agg(o.name, ', ' ORDER BY o.signing_order, o.name)
+  FROM agreement_signers s
+  JOIN agreement_signers o ON o.agreement_id = s.agreement_id
+  WHERE s.id = p_signer_id
+  AND o.is_required
+  AND o.signed_at IS NULL
+  AND o.signing_order < s.signing_order;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Records one signer's signature. Callers check who the signer is
+CREATE OR REPLACE FUNCTION record_agreement_signature(
+  p_signer_id uuid,
+  p_signature_data text,
+  p_signature_method text,
+  p_content_hash text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_signer agreement_signers%ROWTYPE;
+  v_agreement lease_agreements%ROWTYPE;
+  v_waiting_on text;
+  v_content_hash text;
+  v_client jsonb := agreement_request_client();
+  v_signature_id uuid;
+  v_signed_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_signer FROM agreement_signers WHERE id = p_signer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Signer % not found', p_signer_id;
+  END IF;
+
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = v_signer.agreement_id FOR UPDATE;
+  SELECT * INTO v_signer FROM agreement_signers WHERE id = p_signer_id FOR UPDATE;
+
+  IF v_agreement.status NOT IN ('sent', 'viewed', 'signed') THEN
+    RAISE EXCEPTION 'Agreement % cannot be signed while it is %', v_agreement.id, v_agreement.status;
+  END IF;
+
+  IF v_signer.signed_at IS NOT NULL THEN
+    RAISE EXCEPTION '% has already signed this agreement', v_signer.name;
+  END IF;
+
+  v_waiting_on := agreement_signer_waiting_on(v_signer.id);
+  IF v_waiting_on IS NOT NULL THEN
+    RAISE EXCEPTION 'It is not your turn to sign yet. Waiting for: %', v_waiting_on;
+  END IF;
+
+  v_content_hash := agreement_content_hash(v_agreement.final_content);
+
+  IF p_content_hash IS NOT NULL AND lower(p_content_hash) <> v_content_hash THEN
+    RAISE EXCEPTION 'The agreement changed after it was opened. Reload it and review it again before signing';
+  END IF;
+
+  INSERT INTO agreement_signatures (
+    agreement_id,
+    signer_id,
+    signer_type,
+    signer_name,
+    signer_email,
+    signer_ip,
+    signature_data,
+    signature_method,
+    signed_at,
+    user_agent,
+    content_hash
+  ) VALUES (
+    v_agreement.id,
+    auth.uid(),
+    v_signer.role,
+    v_signer.name,
+    v_signer.email,
+    v_client ->> 'ip',
+    p_signature_data,
+    p_signature_method,
+    v_signed_at,
+    v_client ->> 'user_agent',
+    v_content_hash
+  )
+  RETURNING id INTO v_signature_id;
+
+  UPDATE agreement_signers
+  SET
+    signed_at = v_signed_at,
+    viewed_at = COALESCE(viewed_at, v_signed_at),
+    signature_id = v_signature_id
+  WHERE id = v_signer.id;
+
+  IF v_signer.role = 'landlord' THEN
+    UPDATE lease_agreements
+    SET
+      landlord_signed = true,
+      landlord_signed_at = v_signed_at,
+      landlord_signature_data = p_signature_data,
+      updated_at = now()
+    WHERE id = v_agreement.id;
+  ELSIF v_signer.role = 'tenant' THEN
+    UPDATE lease_agreements
+    SET
+      tenant_signed = true,
+      tenant_signed_at = v_signed_at,
+      tenant_signature_data = p_signature_data,
+      updated_at = now()
+    WHERE id = v_agreement.id;
+  END IF;
+
+  INSERT INTO agreement_audit_log (
+    agreement_id, action_type, action_by, action_by_name, action_by_email,
+    notes, changes, ip_address, user_agent, created_at
+  ) VALUES (
+    v_agreement.id, 'signed', auth.uid(), v_signer.name, v_signer.email,
+    v_signer.role || ' signed',
+    jsonb_build_object('signer_type', v_signer.role, 'signature_method', p_signature_method, 'content_hash', v_content_hash),
+    v_client ->> 'ip', v_client ->> 'user_agent', v_signed_at
+  );
+
+  IF NOT EXISTS (
+    SELECT 1 FROM agreement_signers
+    WHERE agreement_id = v_agreement.id AND is_required AND signed_at IS NULL
+  ) THEN
+    UPDATE lease_agreements
+    SET
+      status = 'executed',
+      signed_at = v_signed_at,
+      executed_at = v_signed_at,
+      content_hash = v_content_hash,
+      updated_at = now()
+    WHERE id = v_agreement.id;
+
+    INSERT INTO agreement_audit_log (
+      agreement_id, action_type, action_by, action_by_name, action_by_email,
+      old_status, new_status, changes, ip_address, user_agent, created_at
+    ) VALUES (
+      v_agreement.id, 'executed', auth.uid(), v_signer.name, v_signer.email,
+      v_agreement.status, 'executed',
+      jsonb_build_object('content_hash', v_content_hash),
+      v_client ->> 'ip', v_client ->> 'user_agent', v_signed_at
+    );
+
+    v_agreement.status := 'executed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_agreement.status,
+    'content_hash', v_content_hash,
+    'signed_at', v_signed_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers; signing goes through sign_agreement and sign_agreement_as_signer
+REVOKE EXECUTE ON FUNCTION record_agreement_signature(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_agreement_signer(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Sign as a role while logged in (landlord, tenant, or any signer by email)
+CREATE OR REPLACE FUNCTION sign_agreement(
+  p_agreement_id uuid,
+  p_signer_type text,
+  p_signature_data text,
+  p_signature_method text DEFAULT 'digital',
+  p_content_hash text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_signer_id uuid;
+  v_email text;
+BEGIN
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+
+  SELECT s.id INTO v_signer_id
+  FROM agreement_signers s
+  JOIN lease_agreements la ON la.id = s.agreement_id
+  WHERE s.agreement_id = p_agreement_id
+  AND s.role = p_signer_type
+  AND (
+    lower(s.email) = lower(COALESCE(v_email, ''))
+    OR (s.role = 'landlord' AND EXISTS (
+      SELECT 1 FROM businesses b
+      WHERE b.id = la.business_id AND b.owner_user_id = auth.uid()
+    ))
+  )
+  ORDER BY s.signed_at IS NOT NULL, s.signing_order
+  LIMIT 1;
+
+  IF v_signer_id IS NULL THEN
+    RAISE EXCEPTION 'Only the % can sign as %', replace(p_signer_type, '_', '-'), replace(p_signer_type, '_', '-');
+  END IF;
+
+  RETURN record_agreement_signature(v_signer_id, p_signature_data, p_signature_method, p_content_hash);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sign through an individual signing link, or as the logged-in signer
+CREATE OR REPLACE FUNCTION sign_agreement_as_signer(
+  p_agreement_id uuid,
+  p_token text,
+  p_signature_data text,
+  p_signature_method text DEFAULT 'digital',
+  p_content_hash text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_signer agreement_signers%ROWTYPE;
+BEGIN
+  v_signer := resolve_agreement_signer(p_agreement_id, p_token);
+
+  IF v_signer.id IS NULL THEN
+    RAISE EXCEPTION 'You are not a signer of this agreement';
+  END IF;
+
+  RETURN record_agreement_signature(v_signer.id, p_signature_data, p_signature_method, p_content_hash);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION sign_agreement_as_signer(uuid, text, text, text, text) TO anon, authenticated;
+
+-- Everything the signing page needs. Records the signer's first view
+CREATE OR REPLACE FUNCTION get_agreement_signing_session(
+  p_agreement_id uuid,
+  p_token text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_agreement lease_agreements%ROWTYPE;
+  v_signer agreement_signers%ROWTYPE;
+  v_is_manager boolean;
+  v_client jsonb;
+BEGIN
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agreement not found';
+  END IF;
+
+  v_signer := resolve_agreement_signer(p_agreement_id, p_token);
+  v_is_manager := EXISTS (
+    SELECT 1 FROM businesses b
+    WHERE b.id = v_agreement.business_id AND b.owner_user_id = auth.uid()
+  );
+
+  IF NOT v_is_manager AND (
+    v_signer.id IS NULL OR v_agreement.status NOT IN ('sent', 'viewed', 'signed', 'executed')
+  ) THEN
+    RAISE EXCEPTION 'Agreement not found';
+  END IF;
+
+  IF v_signer.id IS NOT NULL AND v_signer.viewed_at IS NULL
+    AND v_agreement.status IN ('sent', 'viewed', 'signed') THEN
+    v_client := agreement_request_client();
+
+    UPDATE agreement_signers SET viewed_at = now() WHERE id = v_signer.id;
+    v_signer.viewed_at := now();
+
+    UPDATE lease_agreements
+    SET
+      status = CASE WHEN status = 'sent' THEN 'viewed' ELSE status END,
+      viewed_at = COALESCE(viewed_at, now()),
+      updated_at = now()
+    WHERE id = p_agreement_id;
+
+    INSERT INTO agreement_audit_log (
+      agreement_id, action_type, action_by, action_by_name, action_by_email,
+      old_status, new_status, notes, ip_address, user_agent
+    ) VALUES (
+      p_agreement_id, 'viewed', auth.uid(), v_signer.name, v_signer.email,
+      v_agreement.status, CASE WHEN v_agreement.status = 'sent' THEN 'viewed' ELSE v_agreement.status END,
+      v_signer.role || ' viewed',
+      v_client ->> 'ip', v_client ->> 'user_agent'
+    );
+
+    SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'agreement', to_jsonb(v_agreement),
+    'signer', CASE WHEN v_signer.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'id', v_signer.id,
+      'role', v_signer.role,
+      'name', v_signer.name,
+      'email', v_signer.email,
+      'signing_order', v_signer.signing_order,
+      'is_required', v_signer.is_required,
+      'viewed_at', v_signer.viewed_at,
+      'signed_at', v_signer.signed_at,
+      'waiting_on', agreement_signer_waiting_on(v_signer.id)
+    ) END,
+    'signers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'role', s.role,
+        'name', s.name,
+        'signing_order', s.signing_order,
+        'is_required', s.is_required,
+        'viewed_at', s.viewed_at,
+        'signed_at', s.signed_at
+      ) ORDER BY s.signing_order, s.created_at)
+      FROM agreement_signers s
+      WHERE s.agreement_id = p_agreement_id
+    ), '[]'::jsonb),
+    -- Only what the signing page shows: no emails, IPs or user agents, and the
+    -- signature image or typed name only for the visitor's own signature
+    'signatures', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', sig.id,
+        'signer_type', sig.signer_type,
+        'signer_name', sig.signer_name,
+        'signature_method', sig.signature_method,
+        'signature_data', CASE WHEN sig.id = v_signer.signature_id THEN sig.signature_data END,
+        'signed_at', sig.signed_at,
+        'content_hash', sig.content_hash
+      ) ORDER BY sig.signed_at)
+      FROM agreement_signatures sig
+      WHERE sig.agreement_id = p_agreement_id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_agreement_signing_session(uuid, text) TO anon, authenticated;
+
+-- Any signer who is logged in can store the signed PDF
+CREATE OR REPLACE FUNCTION attach_signed_agreement_pdf(
+  p_agreement_id uuid,
+  p_pdf_url text,
+  p_pdf_hash text
+)
+RETURNS void AS $$
+DECLARE
+  v_agreement lease_agreements%ROWTYPE;
+  v_user_email text;
+BEGIN
+  SELECT * INTO v_agreement FROM lease_agreements WHERE id = p_agreement_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agreement % not found', p_agreement_id;
+  END IF;
+
+  SELECT email INTO v_user_email FROM auth.users WHERE id = auth.uid();
+
+  IF NOT EXISTS (
+      SELECT 1 FROM agreement_signers
+      WHERE agreement_id = p_agreement_id AND lower(email) = lower(COALESCE(v_user_email, ''))
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM businesses
+      WHERE id = v_agreement.business_id AND owner_user_id = auth.uid()
+    ) THEN
+    RAISE EXCEPTION 'Only the parties to agreement % can attach its signed PDF', p_agreement_id;
+  END IF;
+
+  IF v_agreement.status <> 'executed' THEN
+    RAISE EXCEPTION 'Agreement % is not executed', p_agreement_id;
+  END IF;
+
+  -- The first signed PDF is the record; it is never replaced
+  IF v_agreement.signed_pdf_url IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE lease_agreements
+  SET
+    signed_pdf_url = p_pdf_url,
+    signed_pdf_hash = lower(p_pdf_hash),
+    signed_pdf_generated_at = now(),
+    updated_at = now()
+  WHERE id = p_agreement_id;
+
+  INSERT INTO agreement_audit_log (
+    agreement_id, action_type, action_by, action_by_email, changes
+  ) VALUES (
+    p_agreement_id, 'signed_pdf_generated', auth.uid(), v_user_email,
+    jsonb_build_object('signed_pdf_hash', lower(p_pdf_hash))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- STEP 4: Notification templates
+-- =====================================================
+
+INSERT INTO notification_templates (type, name, subject_template, body_template, is_active, send_days_before) VALUES
+('agreement_signing_request', 'Agreement Signing Request', 'Please Sign: {{agreement_title}}',
+'Dear {{signer_name}},
+
+{{landlord_name}} has asked you to sign {{agreement_title}} as {{role}}.
+
+Property: {{property_address}}
+{{#signature_deadline}}Please sign by: {{signature_deadline}}
+{{/signature_deadline}}
+Review and sign the agreement here:
+{{signing_url}}
+
+This link is for you only. Please do not forward it.
+
+Thank you,
+{{organization_name}}', true, NULL),
+
+('agreement_signing_reminder', 'Agreement Signing Reminder', 'Reminder: Please Sign {{agreement_title}}',
+'Dear {{signer_name}},
+
+This is a reminder that {{agreement_title}} is waiting for your signature as {{role}}.
+
+Property: {{property_address}}
+{{#signature_deadline}}Please sign by: {{signature_deadline}}
+{{/signature_deadline}}
+Review and sign the agreement here:
+{{signing_url}}
+
+Thank you,
+{{organization_name}}', true, NULL)
+
+ON CONFLICT (type) DO NOTHING;
+
+-- =====================================================
+-- STEP 5: RLS
+-- =====================================================
+
+-- Signers see their own entry through get_agreement_signing_session, which
+-- leaves out the other signers' links
+ALTER TABLE agreement_signers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Business owners can manage agreement signers"
+  ON agreement_signers FOR ALL
+  TO authenticated
+  USING (
+    agreement_id IN (
+      SELECT la.id FROM lease_agreements la
+      JOIN businesses b ON b.id = la.business_id
+      WHERE b.owner_user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    agreement_id IN (
+      SELECT la.id FROM lease_agreements la
+      JOIN businesses b ON b.id = la.business_id
+      WHERE b.owner_user_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- STEP 6: Comments
+-- =====================================================
+
+COMMENT ON TABLE agreement_signers IS 'Everyone who signs an agreement, with their role, signing order and individual signing link';
+COMMENT ON COLUMN agreement_signers.signing_order IS 'Signers with the same order sign in parallel; a group can sign once every required signer in earlier groups has signed';
+COMMENT ON COLUMN agreement_signers.signing_token IS 'Secret for the signer''s individual signing link';
+COMMENT ON FUNCTION get_agreement_signing_session(uuid, text) IS 'Agreement, signer and signing progress for the signing page, by signing link or logged-in signer';
@@ -0,0 +1,40 @@
+-- =====================================================
+-- Agreement Template Clauses
+-- Migration: 106_agreement_template_clauses.sql
+--
+-- Template settings used by conditional clauses and computed fields:
+-- - pets_allowed decides whether {{#if PETS_ALLOWED}} blocks (such as a pet
+--   addendum) are included
+-- - default_pet_deposit is added to the security deposit in TOTAL_DEPOSIT
+-- - additional_charges are listed with {{#each ADDITIONAL_CHARGES}} and
+--   counted in TOTAL_MONTHLY_CHARGES and MOVE_IN_TOTAL
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Template columns
+-- =====================================================
+
+ALTER TABLE agreement_templates
+  ADD COLUMN IF NOT EXISTS pets_allowed boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS default_pet_deposit integer,
+  ADD COLUMN IF NOT EXISTS additional_charges jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE agreement_templates
+  DROP CONSTRAINT IF EXISTS agreement_templates_default_pet_deposit_check;
+ALTER TABLE agreement_templates
+  ADD CONSTRAINT agreement_templates_default_pet_deposit_check
+  CHECK (default_pet_deposit IS NULL OR default_pet_deposit >= 0);
+
+ALTER TABLE agreement_templates
+  DROP CONSTRAINT IF EXISTS agreement_templates_additional_charges_check;
+ALTER TABLE agreement_templates
+  ADD CONSTRAINT agreement_templates_additional_charges_check
+  CHECK (jsonb_typeof(additional_charges) = 'array');
+
+-- =====================================================
+-- STEP 2: Comments
+-- =====================================================
+
+COMMENT ON COLUMN agreement_templates.pets_allowed IS 'Default for whether pets are allowed; drives {{#if PETS_ALLOWED}} clauses';
+COMMENT ON COLUMN agreement_templates.default_pet_deposit IS 'Default pet deposit in cents, charged only when pets are allowed';
+COMMENT ON COLUMN agreement_templates.additional_charges IS 'Default additional charges: [{name, amount (cents), frequency: monthly | one_time}]';
@@ -0,0 +1,559 @@
+-- =====================================================
+-- Lease Amendments
+-- Migration: 107_lease_amendments.sql
+--
+-- Executed agreements can be amended instead of only terminated or replaced:
+-- - An amendment is a lease_agreements row pointing at the original agreement
+--   through parent_agreement_id, numbered 1, 2, 3... per agreement. It has its
+--   own signers, signatures, content hash and signed PDF, and goes through the
+--   same signing flow
+-- - Four kinds of change: rent change, adding an occupant, pet addendum and
+--   term extension. The change is validated when the amendment is created
+-- - When the amendment is executed it is applied to the lease: rent changes
+--   and pet rent go through the recurring charge engine (migration 094), so
+--   the payment schedule is regenerated
+-- - get_agreement_history() lists the original and every amendment for the
+--   manager and for the parties who sign them
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Amendment columns
+-- =====================================================
+
+ALTER TABLE lease_agreements
+  ADD COLUMN IF NOT EXISTS parent_agreement_id uuid REFERENCES lease_agreements(id),
+  ADD COLUMN IF NOT EXISTS amendment_number integer,
+  ADD COLUMN IF NOT EXISTS amendment_type text,
+  ADD COLUMN IF NOT EXISTS amendment_changes jsonb,
+  ADD COLUMN IF NOT EXISTS amendment_effective_date date,
+  ADD COLUMN IF NOT EXISTS amendment_applied_at timestamptz;
+
+ALTER TABLE lease_agreements
+  DROP CONSTRAINT IF EXISTS lease_agreements_amendment_type_check;
+ALTER TABLE lease_agreements
+  ADD CONSTRAINT lease_agreements_amendment_type_check
+  CHECK (amendment_type IS NULL OR amendment_type IN ('rent_change', 'add_occupant', 'pet_addendum', 'term_extension'));
+
+ALTER TABLE lease_agreements
+  DROP CONSTRAINT IF EXISTS lease_agreements_amendment_check;
+ALTER TABLE lease_agreements
+  ADD CONSTRAINT lease_agreements_amendment_check
+  CHECK (
+    (parent_agreement_id IS NULL AND amendment_number IS NULL AND amendment_type IS NULL)
+    OR (parent_agreement_id IS NOT NULL AND amendment_number >= 1 AND amendment_type IS NOT NULL
+      AND amendment_changes IS NOT NULL AND amendment_effective_date IS NOT NULL)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lease_agreements_amendment_number
+  ON lease_agreements(parent_agreement_id, amendment_number)
+  WHERE parent_agreement_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 2: Creating amendments
+-- =====================================================
+
+-- The lease an agreement governs: its own lease, else the active lease on its
+-- unit that started most recently
+CREATE OR REPLACE FUNCTION resolve_agreement_lease(p_agreement_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT l.id FROM lease_agreements la JOIN leases l ON l.id = la.lease_id WHERE la.id = p_agreement_id),
+    (SELECT l.id FROM lease_agreements la
+     JOIN leases l ON l.unit_id = la.unit_id
+     WHERE la.id = p_agreement_id AND l.status = 'active'
+     ORDER BY l.start_date DESC
+     LIMIT 1)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_agreement_lease(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Check an amendment's changes against the lease and return them normalized,
+-- with the date the amendment takes effect
+CREATE OR REPLACE FUNCTION normalize_lease_amendment_changes(
+  p_lease_id uuid,
+  p_amendment_type text,
+  p_changes jsonb,
+  OUT changes jsonb,
+  OUT effective_date date
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_lease leases%ROWTYPE;
+  v_cents integer;
+  v_deposit integer;
+  v_end date;
+BEGIN
+  SELECT * INTO v_lease FROM leases WHERE id = p_lease_id;
+
+  IF p_amendment_type = 'term_extension' THEN
+    v_end := NULLIF(p_changes ->> 'new_end_date', '')::date;
+    IF v_end IS NULL THEN
+      RAISE EXCEPTION 'A term extension needs a new end date';
+    END IF;
+    IF v_lease.end_date IS NULL THEN
+      RAISE EXCEPTION 'The lease has no end date to extend';
+    END IF;
+    IF v_end <= v_lease.end_date THEN
+      RAISE EXCEPTION 'The new end date must be after the current end date (%)', v_lease.end_date;
+    END IF;
+
+    v_cents := NULLIF(p_changes ->> 'monthly_rent_cents', '')::integer;
+    IF v_cents IS NOT NULL AND v_cents <= 0 THEN
+      RAISE EXCEPTION 'The rent for the extension must be more than zero';
+    END IF;
+
+    effective_date := v_lease.end_date + 1;
+    changes := jsonb_build_object(
+      'previous_end_date', v_lease.end_date,
+      'new_end_date', v_end,
+      'monthly_rent_cents', v_cents
+    );
+    RETURN;
+  END IF;
+
+  effective_date := NULLIF(p_changes ->> 'effective_date', '')::date;
+  IF effective_date IS NULL THEN
+    RAISE EXCEPTION 'The amendment needs an effective date';
+  END IF;
+  IF effective_date < v_lease.start_date
+    OR (v_lease.end_date IS NOT NULL AND effective_date > v_lease.end_date) THEN
+    RAISE EXCEPTION 'The effective date must fall within the lease term';
+  END IF;
+
+  CASE p_amendment_type
+    WHEN 'rent_change' THEN
+      v_cents := NULLIF(p_changes ->> 'monthly_rent_cents', '')::integer;
+      IF v_cents IS NULL OR v_cents <= 0 THEN
+        RAISE EXCEPTION 'The new rent must be more than zero';
+      END IF;
+
+      changes := jsonb_build_object(
+        'effective_date', effective_date,
+        'previous_rent_cents', lease_rent_on(p_lease_id, effective_date),
+        'monthly_rent_cents', v_cents,
+        'reason', NULLIF(trim(COALESCE(p_changes ->> 'reason', '')), '')
+      );
+
+    WHEN 'add_occupant' THEN
+      IF trim(COALESCE(p_changes ->> 'first_name', '')) = ''
+        OR trim(COALESCE(p_changes ->> 'last_name', '')) = '' THEN
+        RAISE EXCEPTION 'The occupant needs a first and last name';
+      END IF;
+      IF trim(COALESCE(p_changes ->> 'email', '')) !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RAISE EXCEPTION 'The occupant needs a valid email address';
+      END IF;
+      IF COALESCE(p_changes ->> 'occupant_type', 'occupant') NOT IN ('occupant', 'co_tenant') THEN
+        RAISE EXCEPTION 'Invalid occupant type %', p_changes ->> 'occupant_type';
+      END IF;
+
+      changes := jsonb_build_object(
+        'effective_date', effective_date,
+        'first_name', trim(p_changes ->> 'first_name'),
+        'last_name', trim(p_changes ->> 'last_name'),
+        'email', trim(p_changes ->> 'email'),
+        'phone', NULLIF(trim(COALESCE(p_changes ->> 'phone', '')), ''),
+        'occupant_type', COALESCE(p_changes ->> 'occupant_type', 'occupant')
+      );
+
+    WHEN 'pet_addendum' THEN
+      IF trim(COALESCE(p_changes ->> 'pet_description', '')) = '' THEN
+        RAISE EXCEPTION 'Describe the pet covered by the addendum';
+      END IF;
+
+      v_deposit := COALESCE(NULLIF(p_changes ->> 'pet_deposit_cents', '')::integer, 0);
+      v_cents := COALESCE(NULLIF(p_changes ->> 'monthly_pet_rent_cents', '')::integer, 0);
+      IF v_deposit < 0 OR v_cents < 0 THEN
+        RAISE EXCEPTION 'Pet deposit and pet rent cannot be negative';
+      END IF;
+
+      changes := jsonb_build_object(
+        'effective_date', effective_date,
+        'pet_description', trim(p_changes ->> 'pet_description'),
+        'pet_deposit_cents', v_deposit,
+        'monthly_pet_rent_cents', v_cents
+      );
+
+    ELSE
+      RAISE EXCEPTION 'Invalid amendment type %', p_amendment_type;
+  END CASE;
+END;
+$$;
+
+-- Create a draft amendment of an executed agreement. Amendments of an
+-- amendment are filed under the original agreement. p_amendment_number is the
+-- number the content was written for.
+CREATE OR REPLACE FUNCTION create_lease_amendment(
+  p_agreement_id uuid,
+  p_amendment_type text,
+  p_changes jsonb,
+  p_amendment_number integer,
+  p_final_content text,
+  p_signature_deadline timestamptz DEFAULT NULL
+)
+RETURNS lease_agreements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent lease_agreements%ROWTYPE;
+  v_amendment lease_agreements%ROWTYPE;
+  v_lease leases%ROWTYPE;
+  v_normalized record;
+  v_next integer;
+BEGIN
+  SELECT * INTO v_parent FROM lease_agreements
+  WHERE id = (SELECT COALESCE(parent_agreement_id, id) FROM lease_agreements WHERE id = p_agreement_id)
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM businesses b
+    WHERE b.id = v_parent.business_id AND b.owner_user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Agreement % not found', p_agreement_id;
+  END IF;
+
+  IF v_parent.status <> 'executed' THEN
+    RAISE EXCEPTION 'Only executed agreements can be amended';
+  END IF;
+
+  SELECT * INTO v_lease FROM leases WHERE id = resolve_agreement_lease(v_parent.id);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active lease is linked to this agreement, so there is nothing to amend';
+  END IF;
+
+  SELECT COALESCE(MAX(amendment_number), 0) + 1 INTO v_next
+  FROM lease_agreements WHERE parent_agreement_id = v_parent.id;
+
+  IF p_amendment_number IS DISTINCT FROM v_next THEN
+    RAISE EXCEPTION 'Another amendment was created in the meantime. Reload and try again';
+  END IF;
+
+  IF trim(COALESCE(p_final_content, '')) = '' THEN
+    RAISE EXCEPTION 'The amendment has no content';
+  END IF;
+
+  SELECT * INTO v_normalized FROM normalize_lease_amendment_changes(v_lease.id, p_amendment_type, p_changes);
+
+  INSERT INTO lease_agreements (
+    parent_agreement_id, amendment_number, amendment_type, amendment_changes, amendment_effective_date,
+    lease_id, tenant_id, unit_id, property_id, business_id,
+    landlord_name, landlord_email, landlord_phone,
+    tenant_name, tenant_email, tenant_phone,
+    agreement_title, agreement_type, final_content,
+    start_date, end_date, rent_amount, security_deposit,
+    payment_frequency, payment_due_day, late_fee_amount, late_fee_grace_days,
+    property_address, property_description,
+    status, requires_signature, signature_deadline, created_by
+  ) VALUES (
+    v_parent.id, v_next, p_amendment_type, v_normalized.changes, v_normalized.effective_date,
+    v_lease.id, v_parent.tenant_id, v_parent.unit_id, v_parent.property_id, v_parent.business_id,
+    v_parent.landlord_name, v_parent.landlord_email, v_parent.landlord_phone,
+    v_parent.tenant_name, v_parent.tenant_email, v_parent.tenant_phone,
+    format('Amendment No. %s to %s', v_next, v_parent.agreement_title),
+    'amendment', p_final_content,
+    v_normalized.effective_date,
+    COALESCE((v_normalized.changes ->> 'new_end_date')::date, v_lease.end_date, v_parent.end_date),
+    COALESCE((v_normalized.changes ->> 'monthly_rent_cents')::integer, v_lease.monthly_rent_cents),
+    v_parent.security_deposit,
+    v_parent.payment_frequency, v_parent.payment_due_day, v_parent.late_fee_amount, v_parent.late_fee_grace_days,
+    v_parent.property_address, v_parent.property_description,
+    'draft', true, p_signature_deadline, auth.uid()
+  )
+  RETURNING * INTO v_amendment;
+
+  INSERT INTO agreement_audit_log (agreement_id, action_type, action_by, changes)
+  VALUES (
+    v_amendment.id, 'amendment_created', auth.uid(),
+    jsonb_build_object(
+      'parent_agreement_id', v_parent.id,
+      'amendment_number', v_next,
+      'amendment_type', p_amendment_type,
+      'changes', v_normalized.changes
+    )
+  );
+
+  RETURN v_amendment;
+END;
+$$;
+
+-- =====================================================
+-- STEP 3: Applying executed amendments
+-- =====================================================
+
+-- Apply an executed amendment to its lease. Runs inside the final signature,
+-- so a lease that has since been removed is logged rather than raised.
+CREATE OR REPLACE FUNCTION apply_lease_amendment(p_agreement_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amendment lease_agreements%ROWTYPE;
+  v_lease leases%ROWTYPE;
+  v_business_id uuid;
+  v_changes jsonb;
+  v_effective date;
+  v_reason text;
+  v_tenant_id uuid;
+  v_rent integer;
+BEGIN
+  SELECT * INTO v_amendment FROM lease_agreements WHERE id = p_agreement_id FOR UPDATE;
+
+  IF NOT FOUND OR v_amendment.parent_agreement_id IS NULL OR v_amendment.amendment_applied_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_lease FROM leases WHERE id = v_amendment.lease_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO agreement_audit_log (agreement_id, action_type, action_by, notes)
+    VALUES (p_agreement_id, 'amendment_not_applied', auth.uid(), 'The amended lease no longer exists');
+    RETURN;
+  END IF;
+
+  SELECT p.business_id INTO v_business_id
+  FROM units u
+  JOIN properties p ON p.id = u.property_id
+  WHERE u.id = v_lease.unit_id;
+
+  v_changes := v_amendment.amendment_changes;
+  v_effective := v_amendment.amendment_effective_date;
+  v_reason := format('Amendment No. %s', v_amendment.amendment_number);
+
+  CASE v_amendment.amendment_type
+    WHEN 'rent_change' THEN
+      INSERT INTO lease_rent_changes (business_id, lease_id, effective_date, monthly_rent_cents, reason, created_by)
+      VALUES (
+        v_business_id, v_lease.id, v_effective, (v_changes ->> 'monthly_rent_cents')::integer,
+        concat_ws(': ', v_reason, v_changes ->> 'reason'), v_amendment.created_by
+      )
+      ON CONFLICT (lease_id, effective_date) DO UPDATE
+      SET monthly_rent_cents = EXCLUDED.monthly_rent_cents, reason = EXCLUDED.reason;
+
+    WHEN 'term_extension' THEN
+      -- Rent for the extension starts the day after the old end date
+      IF v_changes ->> 'monthly_rent_cents' IS NOT NULL THEN
+        INSERT INTO lease_rent_changes (business_id, lease_id, effective_date, monthly_rent_cents, reason, created_by)
+        VALUES (
+          v_business_id, v_lease.id, v_effective, (v_changes ->> 'monthly_rent_cents')::integer,
+          v_reason || ': term extension', v_amendment.created_by
+        )
+        ON CONFLICT (lease_id, effective_date) DO UPDATE
+        SET monthly_rent_cents = EXCLUDED.monthly_rent_cents, reason = EXCLUDED.reason;
+      END IF;
+
+      UPDATE tenants
+      SET lease_end_date = (v_changes ->> 'new_end_date')::date, updated_at = now()
+      WHERE unit_id = v_lease.unit_id
+      AND is_active
+      AND lease_end_date IS NOT DISTINCT FROM v_lease.end_date;
+
+      UPDATE leases
+      SET
+        end_date = (v_changes ->> 'new_end_date')::date,
+        status = CASE WHEN status = 'expired' THEN 'active' ELSE status END,
+        updated_at = now()
+      WHERE id = v_lease.id;
+
+    WHEN 'pet_addendum' THEN
+      IF (v_changes ->> 'pet_deposit_cents')::integer > 0 THEN
+        UPDATE leases
+        SET pet_deposit_cents = COALESCE(pet_deposit_cents, 0) + (v_changes ->> 'pet_deposit_cents')::integer,
+          updated_at = now()
+        WHERE id = v_lease.id;
+
+        -- One-off, so regeneration leaves it alone
+        INSERT INTO payment_schedules (lease_id, payment_date, due_amount, payment_type, description)
+        VALUES (
+          v_lease.id, v_effective, (v_changes ->> 'pet_deposit_cents')::integer / 100.0, 'pet_deposit',
+          format('Pet deposit (%s)', v_changes ->> 'pet_description')
+        );
+      END IF;
+
+      IF (v_changes ->> 'monthly_pet_rent_cents')::integer > 0 THEN
+        INSERT INTO lease_recurring_charges (
+          business_id, lease_id, charge_type, description, amount_cents, start_date, created_by
+        ) VALUES (
+          v_business_id, v_lease.id, 'pet_rent', format('Pet rent (%s)', v_changes ->> 'pet_description'),
+          (v_changes ->> 'monthly_pet_rent_cents')::integer, v_effective, v_amendment.created_by
+        );
+      END IF;
+
+    WHEN 'add_occupant' THEN
+      SELECT id INTO v_tenant_id FROM tenants
+      WHERE unit_id = v_lease.unit_id AND lower(email) = lower(v_changes ->> 'email')
+      LIMIT 1;
+
+      IF v_tenant_id IS NULL THEN
+        INSERT INTO tenants (
+          organization_id, unit_id, first_name, last_name, email, phone, tenant_type,
+          lease_start_date, lease_end_date, move_in_date, status, created_by
+        )
+        SELECT
+          u.organization_id, v_lease.unit_id, v_changes ->> 'first_name', v_changes ->> 'last_name',
+          v_changes ->> 'email', v_changes ->> 'phone', v_changes ->> 'occupant_type',
+          v_lease.start_date, v_lease.end_date, v_effective, 'active', v_amendment.created_by
+        FROM units u WHERE u.id = v_lease.unit_id;
+      ELSE
+        UPDATE tenants
+        SET
+          tenant_type = v_changes ->> 'occupant_type',
+          move_in_date = v_effective,
+          move_out_date = NULL,
+          status = 'active',
+          is_active = true,
+          updated_at = now()
+        WHERE id = v_tenant_id;
+      END IF;
+  END CASE;
+
+  -- Leases that don't generate a schedule still show the rent in effect today
+  v_rent := lease_rent_on(v_lease.id, current_date);
+  UPDATE leases
+  SET monthly_rent_cents = v_rent, updated_at = now()
+  WHERE id = v_lease.id AND monthly_rent_cents IS DISTINCT FROM v_rent;
+
+  UPDATE lease_agreements SET amendment_applied_at = now() WHERE id = p_agreement_id;
+
+  INSERT INTO agreement_audit_log (agreement_id, action_type, action_by, changes)
+  VALUES
+    (p_agreement_id, 'amendment_applied', auth.uid(),
+      jsonb_build_object('lease_id', v_lease.id, 'amendment_type', v_amendment.amendment_type, 'changes', v_changes)),
+    (v_amendment.parent_agreement_id, 'amended', auth.uid(),
+      jsonb_build_object('amendment_id', p_agreement_id, 'amendment_number', v_amendment.amendment_number,
+        'amendment_type', v_amendment.amendment_type));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_lease_amendment(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_lease_amendment_on_execution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM apply_lease_amendment(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_lease_amendment_on_execution ON lease_agreements;
+CREATE TRIGGER apply_lease_amendment_on_execution
+  AFTER UPDATE OF status ON lease_agreements
+  FOR EACH ROW
+  WHEN (NEW.status = 'executed' AND OLD.status IS DISTINCT FROM 'executed' AND NEW.parent_agreement_id IS NOT NULL)
+  EXECUTE FUNCTION apply_lease_amendment_on_execution();
+
+-- =====================================================
+-- STEP 4: History
+-- =====================================================
+
+-- The original agreement and its amendments, oldest first. Open to the
+-- business owner, and to anyone who signs one of the documents (by signing
+-- link or login); they only see documents that were sent out. Each entry
+-- carries the caller's own signing link token for that document, if any.
+CREATE OR REPLACE FUNCTION get_agreement_history(
+  p_agreement_id uuid,
+  p_token text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_root lease_agreements%ROWTYPE;
+  v_signer agreement_signers%ROWTYPE;
+  v_is_manager boolean;
+  v_email text;
+BEGIN
+  SELECT * INTO v_root FROM lease_agreements
+  WHERE id = (SELECT COALESCE(parent_agreement_id, id) FROM lease_agreements WHERE id = p_agreement_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agreement not found';
+  END IF;
+
+  v_is_manager := EXISTS (
+    SELECT 1 FROM businesses b
+    WHERE b.id = v_root.business_id AND b.owner_user_id = auth.uid()
+  );
+
+  IF NOT v_is_manager THEN
+    v_signer := resolve_agreement_signer(p_agreement_id, p_token);
+    v_email := v_signer.email;
+
+    IF v_email IS NULL AND auth.uid() IS NOT NULL THEN
+      SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+    END IF;
+
+    IF v_email IS NULL OR NOT EXISTS (
+      SELECT 1 FROM agreement_signers s
+      JOIN lease_agreements la ON la.id = s.agreement_id
+      WHERE (la.id = v_root.id OR la.parent_agreement_id = v_root.id)
+      AND la.status <> 'draft'
+      AND lower(s.email) = lower(v_email)
+    ) THEN
+      RAISE EXCEPTION 'Agreement not found';
+    END IF;
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', la.id,
+      'version', COALESCE(la.amendment_number, 0) + 1,
+      'amendment_number', la.amendment_number,
+      'amendment_type', la.amendment_type,
+      'amendment_changes', la.amendment_changes,
+      'amendment_effective_date', la.amendment_effective_date,
+      'amendment_applied_at', la.amendment_applied_at,
+      'agreement_title', la.agreement_title,
+      'status', la.status,
+      'start_date', la.start_date,
+      'end_date', la.end_date,
+      'rent_amount', la.rent_amount,
+      'created_at', la.created_at,
+      'sent_at', la.sent_at,
+      'executed_at', la.executed_at,
+      'content_hash', la.content_hash,
+      'signing_token', CASE WHEN v_email IS NULL THEN NULL ELSE (
+        SELECT s.signing_token FROM agreement_signers s
+        WHERE s.agreement_id = la.id AND lower(s.email) = lower(v_email)
+        ORDER BY s.signing_order
+        LIMIT 1
+      ) END
+    ) ORDER BY COALESCE(la.amendment_number, 0))
+    FROM lease_agreements la
+    WHERE (la.id = v_root.id OR la.parent_agreement_id = v_root.id)
+    AND (v_is_manager OR la.status <> 'draft')
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_agreement_history(uuid, text) TO anon, authenticated;
+
+-- =====================================================
+-- STEP 5: Comments
+-- =====================================================
+
+COMMENT ON COLUMN lease_agreements.parent_agreement_id IS 'For amendments, the original agreement being amended';
+COMMENT ON COLUMN lease_agreements.amendment_number IS 'Amendments are numbered from 1 per original agreement; the original is version 1, amendment N is version N + 1';
+COMMENT ON COLUMN lease_agreements.amendment_type IS 'rent_change, add_occupant, pet_addendum or term_extension';
+COMMENT ON COLUMN lease_agreements.amendment_changes IS 'The normalized change applied to the lease on execution';
+COMMENT ON COLUMN lease_agreements.amendment_applied_at IS 'When the executed amendment was applied to the lease';
+COMMENT ON FUNCTION create_lease_amendment(uuid, text, jsonb, integer, text, timestamptz) IS 'Create a draft amendment of an executed agreement; it is applied to the lease once executed';
+COMMENT ON FUNCTION get_agreement_history(uuid, text) IS 'Original agreement and amendments, for the manager and the signing parties';
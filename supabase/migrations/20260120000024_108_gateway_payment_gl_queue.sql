@@ -0,0 +1,104 @@
+-- =====================================================
+-- Gateway Payment GL Queue
+-- Migration: 108_gateway_payment_gl_queue.sql
+--
+-- Card and wallet payments are recorded by the payment edge functions and
+-- payment-webhook (migrations 087/088), which run without a user session and
+-- cannot build journals. When such a charge completes, its rent payment is
+-- queued in gl_unposted_transactions (migration 098) for businesses that
+-- auto-post rent payments, and the posting sweep posts it from the queue.
+-- Once a journal is posted for the payment it is linked back to the charge
+-- through payment_transactions.gl_journal_id.
+-- =====================================================
+
+-- =====================================================
+-- STEP 1: Queue completed charges
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION queue_gateway_payment_for_posting()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment record;
+BEGIN
+  SELECT rp.id, rp.payment_date, rp.amount_cents, p.business_id
+  INTO v_payment
+  FROM rent_payments rp
+  JOIN units u ON u.id = rp.unit_id
+  JOIN properties p ON p.id = u.property_id
+  JOIN business_accounting_settings s ON s.business_id = p.business_id
+  WHERE rp.id = NEW.payment_id
+    AND s.auto_post_rent_payments
+    AND rp.payment_date >= COALESCE(s.auto_post_start_date, rp.payment_date);
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO gl_unposted_transactions (
+    business_id, source_type, source_id, transaction_date, amount_cents,
+    description, error_message
+  )
+  VALUES (
+    v_payment.business_id,
+    'rent_payment',
+    v_payment.id,
+    v_payment.payment_date,
+    v_payment.amount_cents,
+    format('%s payment %s', initcap(NEW.gateway_name), NEW.external_transaction_id),
+    'Received through the payment gateway; posts on the next posting sweep'
+  )
+  ON CONFLICT (business_id, source_type, source_id) WHERE status = 'pending' DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_gateway_payment_for_posting() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS queue_gateway_payment_for_posting ON payment_transactions;
+CREATE TRIGGER queue_gateway_payment_for_posting
+  AFTER INSERT OR UPDATE OF status, payment_id ON payment_transactions
+  FOR EACH ROW
+  WHEN (
+    NEW.transaction_type = 'charge'
+    AND NEW.status = 'completed'
+    AND NEW.payment_id IS NOT NULL
+    AND NEW.gl_journal_id IS NULL
+  )
+  EXECUTE FUNCTION queue_gateway_payment_for_posting();
+
+-- =====================================================
+-- STEP 2: Link posted journals to their charge
+-- =====================================================
+
+-- A reposted payment gets a new journal, so the link follows the latest one
+CREATE OR REPLACE FUNCTION link_gateway_payment_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE payment_transactions
+  SET gl_journal_id = NEW.id,
+      updated_at = now()
+  WHERE payment_id = NEW.source_id
+    AND transaction_type = 'charge'
+    AND status = 'completed';
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION link_gateway_payment_journal() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS link_gateway_payment_journal ON gl_journals;
+CREATE TRIGGER link_gateway_payment_journal
+  AFTER INSERT ON gl_journals
+  FOR EACH ROW
+  WHEN (NEW.source_type = 'rent_payment' AND NEW.source_id IS NOT NULL)
+  EXECUTE FUNCTION link_gateway_payment_journal();
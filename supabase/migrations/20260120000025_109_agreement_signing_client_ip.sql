@@ -0,0 +1,33 @@
+-- =====================================================
+-- Agreement Signing Client IP and Signed PDFs
+-- Migration: 109_agreement_signing_client_ip.sql
+--
+-- Migration 105 (agreement signers) runs after 104 and replaces two of its
+-- functions with earlier versions: agreement_request_client() taking the
+-- first X-Forwarded-For entry, and a signer-callable
+-- attach_signed_agreement_pdf(uuid, text, text). This restores 104's rules:
+-- the recorded IP is the last entry, the one the platform proxy appends, and
+-- signed PDFs are only attached by the generate-signed-agreement-pdf function.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION agreement_request_client()
+RETURNS jsonb AS $$
+DECLARE
+  v_headers json;
+  v_ip text;
+BEGIN
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  EXCEPTION WHEN others THEN
+    v_headers := NULL;
+  END;
+
+  v_ip := NULLIF(trim(regexp_replace(COALESCE(v_headers ->> 'x-forwarded-for', ''), '^.*,', '')), '');
+  v_ip := COALESCE(v_ip, v_headers ->> 'x-real-ip', inet_client_addr()::text);
+
+  RETURN jsonb_build_object('ip', v_ip, 'user_agent', v_headers ->> 'user-agent');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The service-role version from 104 takes the requester as well
+DROP FUNCTION IF EXISTS attach_signed_agreement_pdf(uuid, text, text);